@@ -0,0 +1,356 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaArrowLeft, FaClipboardList, FaSearch, FaSpinner } from 'react-icons/fa';
+import { createClient } from '@/lib/supabase/client';
+
+type AuditRow = {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  action: string;
+  target_table: string | null;
+  target_id: string | null;
+  player_id: string | null;
+  tournament_id: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: Record<string, unknown> | null;
+};
+
+type Option = { id: string; name: string };
+
+type Filters = {
+  player_id: string;
+  tournament_id: string;
+  action: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = { player_id: '', tournament_id: '', action: '', from: '', to: '' };
+
+const inputCls =
+  'w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100 focus:outline-none focus:border-purple-400';
+
+const fmtJson = (v: unknown) => (v == null ? '—' : JSON.stringify(v, null, 2));
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+
+  const supabase = useMemo<ReturnType<typeof createClient> | null>(() => {
+    if (typeof window === 'undefined') return null;
+    return createClient();
+  }, []);
+
+  const [authz, setAuthz] = useState<'checking' | 'ok' | 'no'>('checking');
+  const [players, setPlayers] = useState<Option[]>([]);
+  const [tournaments, setTournaments] = useState<Option[]>([]);
+
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+
+  const [rows, setRows] = useState<AuditRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!supabase) return;
+
+        const r = await fetch('/auth/whoami', { cache: 'no-store', credentials: 'include' });
+        const j = r.ok ? await r.json() : { authenticated: false };
+        if (!j?.authenticated) {
+          router.replace('/login?redirect=/admin/audit');
+          return;
+        }
+
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) {
+          router.replace('/login?redirect=/admin/audit');
+          return;
+        }
+
+        const [a1, a2] = await Promise.all([
+          (supabase.from('app_admins') as any).select('user_id').eq('user_id', user.id).maybeSingle(),
+          (supabase.from('players') as any).select('is_admin').eq('id', user.id).maybeSingle(),
+        ]);
+        const ok = !!a1.data?.user_id || a2.data?.is_admin === true;
+        if (cancelled) return;
+        if (!ok) {
+          setAuthz('no');
+          return;
+        }
+        setAuthz('ok');
+
+        // 絞り込み候補
+        const [pRes, tRes] = await Promise.all([
+          (supabase.from('players') as any).select('id,handle_name').order('handle_name', { ascending: true }).limit(1000),
+          (supabase.from('tournaments') as any).select('id,name,tournament_date').order('tournament_date', { ascending: false }).limit(200),
+        ]);
+        if (cancelled) return;
+        setPlayers(((pRes.data ?? []) as any[]).map((p) => ({ id: String(p.id), name: String(p.handle_name ?? p.id) })));
+        setTournaments(((tRes.data ?? []) as any[]).map((t) => ({ id: String(t.id), name: String(t.name ?? t.id) })));
+      } catch {
+        if (!cancelled) setAuthz('no');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, router]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const qs = new URLSearchParams({ page: String(page) });
+      (Object.keys(applied) as (keyof Filters)[]).forEach((k) => {
+        if (applied[k]) qs.set(k, applied[k]);
+      });
+      const r = await fetch(`/api/admin/audit?${qs.toString()}`, { credentials: 'include', cache: 'no-store' });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setRows((j.rows ?? []) as AuditRow[]);
+      setNames((j.names ?? {}) as Record<string, string>);
+      setTotal(Number(j.total ?? 0));
+      setPageSize(Number(j.page_size ?? 50));
+    } catch (e: any) {
+      setError(`取得に失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, page]);
+
+  useEffect(() => {
+    if (authz === 'ok') load();
+  }, [authz, load]);
+
+  const tournamentName = useMemo(() => new Map(tournaments.map((t) => [t.id, t.name])), [tournaments]);
+  const lastPage = Math.max(1, Math.ceil(total / pageSize));
+
+  const search = () => {
+    setPage(1);
+    setApplied({ ...filters });
+  };
+
+  if (authz === 'checking') {
+    return (
+      <div className="min-h-screen bg-[#2a2a3e] flex items-center justify-center text-white">認証を確認しています...</div>
+    );
+  }
+
+  if (authz === 'no') {
+    return (
+      <div className="min-h-screen bg-[#2a2a3e] flex items-center justify-center text-white">アクセス権限がありません</div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#2a2a3e] text-white">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex items-center justify-between gap-3">
+          <Link href="/admin/dashboard" className="inline-flex items-center gap-2 text-purple-300 hover:text-purple-200">
+            <FaArrowLeft /> ダッシュボードへ
+          </Link>
+        </div>
+
+        <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-6 sm:p-8">
+          <h1 className="text-2xl sm:text-3xl font-bold mb-6 flex items-center gap-3">
+            <FaClipboardList className="text-purple-400" />
+            操作ログ
+          </h1>
+
+          {/* 絞り込み */}
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6 text-sm">
+            <label className="block lg:col-span-2">
+              <span className="block text-gray-400 mb-1">プレイヤー</span>
+              <select
+                value={filters.player_id}
+                onChange={(e) => setFilters((f) => ({ ...f, player_id: e.target.value }))}
+                className={inputCls}
+              >
+                <option value="">すべて</option>
+                {players.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block lg:col-span-2">
+              <span className="block text-gray-400 mb-1">大会</span>
+              <select
+                value={filters.tournament_id}
+                onChange={(e) => setFilters((f) => ({ ...f, tournament_id: e.target.value }))}
+                className={inputCls}
+              >
+                <option value="">すべて</option>
+                {tournaments.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 mb-1">開始日</span>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+                className={inputCls}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 mb-1">終了日</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+                className={inputCls}
+              />
+            </label>
+            <label className="block lg:col-span-2">
+              <span className="block text-gray-400 mb-1">操作（前方一致）</span>
+              <input
+                value={filters.action}
+                onChange={(e) => setFilters((f) => ({ ...f, action: e.target.value }))}
+                placeholder="例: matches. / players.set_active"
+                className={inputCls}
+              />
+            </label>
+            <div className="flex items-end gap-2 lg:col-span-4">
+              <button
+                onClick={search}
+                disabled={loading}
+                className="px-5 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+              >
+                {loading ? <FaSpinner className="animate-spin" /> : <FaSearch />} 検索
+              </button>
+              <button
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS);
+                  setPage(1);
+                  setApplied(EMPTY_FILTERS);
+                }}
+                className="px-4 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70"
+              >
+                クリア
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-red-300 mb-4">{error}</div>}
+
+          <div className="text-sm text-gray-400 mb-2">{total} 件</div>
+
+          <div className="overflow-x-auto rounded-xl border border-purple-500/20">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800/80 text-gray-300">
+                <tr>
+                  <th className="px-3 py-2 text-left whitespace-nowrap">日時</th>
+                  <th className="px-3 py-2 text-left">操作者</th>
+                  <th className="px-3 py-2 text-left">操作</th>
+                  <th className="px-3 py-2 text-left">対象</th>
+                  <th className="px-3 py-2 text-left">関係</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && !loading && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-400">
+                      ログはありません。
+                    </td>
+                  </tr>
+                )}
+                {rows.map((r) => (
+                  <Fragment key={r.id}>
+                    <tr
+                      className="border-t border-purple-500/10 hover:bg-purple-900/20 cursor-pointer"
+                      onClick={() => setOpenId(openId === r.id ? null : r.id)}
+                    >
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-300">{new Date(r.created_at).toLocaleString()}</td>
+                      <td className="px-3 py-2 text-gray-100">
+                        {r.actor_id
+                          ? names[r.actor_id] || r.actor_id.slice(0, 8)
+                          : String(r.metadata?.actor_label ?? 'システム')}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-purple-200">{r.action}</td>
+                      <td className="px-3 py-2 text-gray-300">
+                        {r.target_table ?? '—'}
+                        {r.target_id && <span className="ml-1 text-xs text-gray-500">#{r.target_id.slice(0, 8)}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-400">
+                        {r.player_id && <div>選手: {names[r.player_id] || r.player_id.slice(0, 8)}</div>}
+                        {r.tournament_id && <div>大会: {tournamentName.get(r.tournament_id) || r.tournament_id.slice(0, 8)}</div>}
+                      </td>
+                    </tr>
+                    {openId === r.id && (
+                      <tr className="bg-gray-900/60">
+                        <td colSpan={5} className="px-3 py-3">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                              <div className="text-xs text-gray-400 mb-1">変更前</div>
+                              <pre className="text-xs text-gray-200 bg-black/30 rounded-lg p-3 overflow-auto max-h-80">
+                                {fmtJson(r.before)}
+                              </pre>
+                            </div>
+                            <div>
+                              <div className="text-xs text-gray-400 mb-1">変更後</div>
+                              <pre className="text-xs text-gray-200 bg-black/30 rounded-lg p-3 overflow-auto max-h-80">
+                                {fmtJson(r.after)}
+                              </pre>
+                            </div>
+                          </div>
+                          {r.metadata && (
+                            <pre className="mt-3 text-xs text-gray-400 bg-black/20 rounded-lg p-3 overflow-auto">
+                              {fmtJson(r.metadata)}
+                            </pre>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1 || loading}
+              className="px-4 py-2 rounded-lg bg-gray-800/70 border border-purple-500/30 disabled:opacity-40"
+            >
+              前へ
+            </button>
+            <span className="text-gray-400">
+              {page} / {lastPage}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(lastPage, p + 1))}
+              disabled={page >= lastPage || loading}
+              className="px-4 py-2 rounded-lg bg-gray-800/70 border border-purple-500/30 disabled:opacity-40"
+            >
+              次へ
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
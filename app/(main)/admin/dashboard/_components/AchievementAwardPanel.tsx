@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { FaAward, FaSpinner } from 'react-icons/fa';
+import { achievementDef } from '@/lib/achievements/rules';
+
+type Summary = {
+  players: number;
+  awarded: number;
+  by_code: Record<string, number>;
+};
+
+type PreviewRow = {
+  player_id: string;
+  handle_name: string | null;
+  code: string;
+  earned_at: string | null;
+};
+
+const labelOf = (code: string) => achievementDef(code)?.label ?? code;
+
+export default function AchievementAwardPanel() {
+  const [running, setRunning] = useState<'dry' | 'commit' | null>(null);
+  const [msg, setMsg] = useState('');
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [previewed, setPreviewed] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('まだ付いていない実績バッジをまとめて付けます。よろしいですか？')) return;
+
+    setRunning(dryRun ? 'dry' : 'commit');
+    setMsg('');
+    try {
+      const r = await fetch('/api/admin/achievements/award', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ dry_run: dryRun }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+
+      setSummary(j.summary as Summary);
+      setPreview((j.preview ?? []) as PreviewRow[]);
+      setPreviewed(dryRun);
+      setMsg(dryRun ? 'プレビューを作成しました（まだ反映されていません）' : 'バッジを付けました');
+    } catch (e: any) {
+      setMsg(`失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-8 mt-8">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-3">
+        <FaAward className="text-purple-400" />
+        実績バッジの一括付与
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        全選手の試合・大会の記録を見直して、まだ付いていないバッジを付けます。普段は試合の確定ごとに自動で付きます。
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={() => run(true)}
+          disabled={!!running}
+          className="px-5 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70 disabled:opacity-50 inline-flex items-center gap-2"
+        >
+          {running === 'dry' && <FaSpinner className="animate-spin" />}
+          プレビュー（ドライラン）
+        </button>
+        <button
+          onClick={() => run(false)}
+          disabled={!!running || !previewed}
+          className="px-5 py-2 rounded-xl bg-gradient-to-r from-red-600 to-pink-600 text-white hover:from-red-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+          title={previewed ? '' : '先にプレビューを実行してください'}
+        >
+          {running === 'commit' && <FaSpinner className="animate-spin" />}
+          バッジを付ける
+        </button>
+      </div>
+
+      {msg && <div className="text-sm text-gray-200 mb-4">{msg}</div>}
+
+      {summary && (
+        <div className="text-sm text-gray-300 mb-4">
+          対象 {summary.players} 人 ／ 新しく付くバッジ {summary.awarded} 件
+          {Object.keys(summary.by_code).length > 0 && (
+            <span className="text-gray-400">
+              （
+              {Object.entries(summary.by_code)
+                .map(([code, n]) => `${labelOf(code)} ${n}`)
+                .join(' / ')}
+              ）
+            </span>
+          )}
+        </div>
+      )}
+
+      {summary && summary.awarded === 0 && <div className="text-sm text-green-300">付けるバッジはありません。</div>}
+
+      {preview.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-purple-500/20">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800/80 text-gray-300">
+              <tr>
+                <th className="px-3 py-2 text-left">選手</th>
+                <th className="px-3 py-2 text-left">バッジ</th>
+                <th className="px-3 py-2 text-left">獲得日</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((r) => (
+                <tr key={`${r.player_id}:${r.code}`} className="border-t border-purple-500/10">
+                  <td className="px-3 py-2 text-gray-100">{r.handle_name || r.player_id.slice(0, 8)}</td>
+                  <td className="px-3 py-2 text-purple-200">{labelOf(r.code)}</td>
+                  <td className="px-3 py-2 text-gray-400">{r.earned_at ? r.earned_at.slice(0, 10) : '（記録なし・今日付け）'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {summary && summary.awarded > preview.length && (
+            <div className="px-3 py-2 text-xs text-gray-500">ほか {summary.awarded - preview.length} 件</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
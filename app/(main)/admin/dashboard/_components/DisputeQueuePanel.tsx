@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { FaBalanceScale, FaBan, FaCheck, FaEdit, FaSpinner } from 'react-icons/fa';
+
+type DisputedMatch = {
+  id: string;
+  mode: 'singles' | 'teams' | 'doubles';
+  match_date: string | null;
+  winner_id: string | null;
+  loser_id: string | null;
+  winner_score: number | null;
+  loser_score: number | null;
+  end_reason?: string | null;
+  dispute_reason?: string | null;
+  disputed_at?: string | null;
+  winner_name: string | null;
+  loser_name: string | null;
+  reporter_name: string | null;
+  disputed_by_name: string | null;
+};
+
+type EditForm = {
+  swap: boolean;
+  winner_score: number;
+  loser_score: number;
+  end_reason: string;
+};
+
+export default function DisputeQueuePanel() {
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState('');
+  const [items, setItems] = useState<DisputedMatch[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [form, setForm] = useState<EditForm>({ swap: false, winner_score: 15, loser_score: 0, end_reason: 'normal' });
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch('/api/admin/matches/disputes', { credentials: 'include', cache: 'no-store' });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setItems((j.disputes ?? []) as DisputedMatch[]);
+    } catch (e: any) {
+      setMsg(`取得に失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const resolve = async (m: DisputedMatch, action: 'accept' | 'edit' | 'void') => {
+    if (action === 'void' && !confirm('この試合を無効にします（RP/HC は反映されません）。よろしいですか？')) return;
+
+    const body: Record<string, unknown> = { action };
+    if (action === 'edit') {
+      body.winner_id = form.swap ? m.loser_id : m.winner_id;
+      body.loser_id = form.swap ? m.winner_id : m.loser_id;
+      body.winner_score = form.winner_score;
+      body.loser_score = form.loser_score;
+      body.end_reason = form.end_reason;
+    }
+
+    setBusyId(m.id);
+    setMsg('');
+    try {
+      const r = await fetch(`/api/admin/matches/${m.id}/resolve`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setMsg(action === 'void' ? '試合を無効にしました' : '試合を確定しました');
+      setEditId(null);
+      await load();
+    } catch (e: any) {
+      setMsg(`失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openEdit = (m: DisputedMatch) => {
+    setEditId(editId === m.id ? null : m.id);
+    setForm({
+      swap: false,
+      winner_score: m.winner_score ?? 15,
+      loser_score: m.loser_score ?? 0,
+      end_reason: m.end_reason || 'normal',
+    });
+  };
+
+  return (
+    <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-6 mb-8">
+      <h2 className="text-xl font-bold mb-2 flex items-center gap-3">
+        <FaBalanceScale className="text-purple-400" />
+        異議のある試合
+        {items.length > 0 && (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300">{items.length} 件</span>
+        )}
+      </h2>
+      <p className="text-sm text-gray-400 mb-4">
+        対戦相手から異議が出た試合です。報告どおり確定／修正して確定／無効 のいずれかで処理してください（処理するまで RP/HC は反映されません）。
+      </p>
+
+      {msg && <div className="text-sm text-gray-200 mb-3">{msg}</div>}
+
+      {loading ? (
+        <div className="text-gray-400 text-sm">
+          <FaSpinner className="inline mr-2 animate-spin" />
+          読み込み中…
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-sm text-green-300">対応待ちの異議はありません。</div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((m) => (
+            <div key={m.id} className="p-4 rounded-xl border border-purple-500/20 bg-gray-800/50">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-xs text-gray-400">
+                    {m.match_date ? new Date(m.match_date).toLocaleString() : '-'}
+                    {m.mode === 'teams' && <span className="ml-2 text-emerald-300">チーム戦</span>}
+                    {m.mode === 'doubles' && <span className="ml-2 text-sky-300">ダブルス</span>}
+                  </div>
+                  <div className="text-gray-100">
+                    <span className="text-green-300">{m.winner_name ?? '勝者'}</span>
+                    <span className="mx-2 font-bold">
+                      {m.winner_score ?? '-'} - {m.loser_score ?? '-'}
+                    </span>
+                    <span className="text-red-300">{m.loser_name ?? '敗者'}</span>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    報告: {m.reporter_name ?? '-'} ／ 異議: {m.disputed_by_name ?? '-'}
+                  </div>
+                  {m.dispute_reason && <div className="text-sm text-amber-200 mt-1">「{m.dispute_reason}」</div>}
+                </div>
+
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => resolve(m, 'accept')}
+                    disabled={busyId === m.id}
+                    className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-50 inline-flex items-center gap-2 text-sm"
+                  >
+                    {busyId === m.id ? <FaSpinner className="animate-spin" /> : <FaCheck />} 報告どおり確定
+                  </button>
+                  {m.mode === 'singles' && (
+                    <button
+                      onClick={() => openEdit(m)}
+                      disabled={busyId === m.id}
+                      className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 inline-flex items-center gap-2 text-sm"
+                    >
+                      <FaEdit /> 修正
+                    </button>
+                  )}
+                  <button
+                    onClick={() => resolve(m, 'void')}
+                    disabled={busyId === m.id}
+                    className="px-3 py-1.5 rounded-lg bg-red-600/80 hover:bg-red-700 disabled:opacity-50 inline-flex items-center gap-2 text-sm"
+                  >
+                    <FaBan /> 無効
+                  </button>
+                </div>
+              </div>
+
+              {editId === m.id && (
+                <div className="mt-4 p-3 rounded-lg border border-purple-500/20 bg-gray-900/40 grid grid-cols-1 sm:grid-cols-4 gap-3 text-sm">
+                  <label className="flex items-center gap-2 text-gray-300 sm:col-span-4">
+                    <input
+                      type="checkbox"
+                      checked={form.swap}
+                      onChange={(e) => setForm((f) => ({ ...f, swap: e.target.checked }))}
+                    />
+                    勝敗を入れ替える（勝者: {form.swap ? m.loser_name : m.winner_name}）
+                  </label>
+                  <label className="block">
+                    <span className="block text-gray-400 mb-1">勝者スコア</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={99}
+                      value={form.winner_score}
+                      onChange={(e) => setForm((f) => ({ ...f, winner_score: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100 focus:outline-none focus:border-purple-400"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-gray-400 mb-1">敗者スコア</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={99}
+                      value={form.loser_score}
+                      onChange={(e) => setForm((f) => ({ ...f, loser_score: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100 focus:outline-none focus:border-purple-400"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-gray-400 mb-1">終了理由</span>
+                    <select
+                      value={form.end_reason}
+                      onChange={(e) => setForm((f) => ({ ...f, end_reason: e.target.value }))}
+                      className="w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100 focus:outline-none focus:border-purple-400"
+                    >
+                      <option value="normal">通常</option>
+                      <option value="time_limit">時間切れ</option>
+                      <option value="walkover">不戦勝</option>
+                      <option value="forfeit">棄権</option>
+                    </select>
+                  </label>
+                  <div className="flex items-end">
+                    <button
+                      onClick={() => resolve(m, 'edit')}
+                      disabled={busyId === m.id}
+                      className="w-full px-3 py-2 rounded-lg bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-50"
+                    >
+                      修正して確定
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
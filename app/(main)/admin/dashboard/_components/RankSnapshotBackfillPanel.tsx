@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { FaChartLine, FaSpinner } from 'react-icons/fa';
+
+type Summary = {
+  from: string;
+  to: string;
+  players: number;
+  days_with_data: number;
+  days_existing: number;
+  days_written: number;
+  rows_written: number;
+  overwrite: boolean;
+};
+
+type PreviewRow = {
+  player_id: string;
+  handle_name: string;
+  snapshot_date: string;
+  rank: number;
+  ranking_points: number;
+};
+
+export default function RankSnapshotBackfillPanel() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [running, setRunning] = useState<'dry' | 'commit' | null>(null);
+  const [msg, setMsg] = useState('');
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [previewed, setPreviewed] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (
+      !dryRun &&
+      !confirm(
+        overwrite
+          ? '期間内の順位スナップショットを削除して作り直します。よろしいですか？'
+          : 'スナップショットの無い日を試合履歴から埋めます。よろしいですか？',
+      )
+    )
+      return;
+
+    setRunning(dryRun ? 'dry' : 'commit');
+    setMsg('');
+    try {
+      const r = await fetch('/api/admin/rank-snapshots/backfill', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ dry_run: dryRun, from: from || undefined, to: to || undefined, overwrite }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+
+      setSummary(j.summary as Summary);
+      setPreview((j.preview ?? []) as PreviewRow[]);
+      setPreviewed(dryRun);
+      setMsg(dryRun ? 'プレビューを作成しました（まだ反映されていません）' : 'スナップショットを書き込みました');
+    } catch (e: any) {
+      setMsg(`失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  // 条件を変えたらプレビューからやり直す
+  const touch = () => setPreviewed(false);
+
+  return (
+    <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-8 mt-8">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-3">
+        <FaChartLine className="text-purple-400" />
+        順位スナップショットの積み直し
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        試合の RP 変動を現在値から引き戻して、各日 0:00（JST）時点の順位を作ります。当日分は毎日の cron が記録します。
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <label className="block">
+          <span className="text-xs text-gray-400">開始日（空欄＝最初の試合の翌日）</span>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => {
+              setFrom(e.target.value);
+              touch();
+            }}
+            className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-800/70 border border-purple-500/30 text-gray-100"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">終了日（空欄＝昨日）</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => {
+              setTo(e.target.value);
+              touch();
+            }}
+            className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-800/70 border border-purple-500/30 text-gray-100"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-200 sm:mt-6">
+          <input
+            type="checkbox"
+            checked={overwrite}
+            onChange={(e) => {
+              setOverwrite(e.target.checked);
+              touch();
+            }}
+          />
+          既存のスナップショットも作り直す
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={() => run(true)}
+          disabled={!!running}
+          className="px-5 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70 disabled:opacity-50 inline-flex items-center gap-2"
+        >
+          {running === 'dry' && <FaSpinner className="animate-spin" />}
+          プレビュー（ドライラン）
+        </button>
+        <button
+          onClick={() => run(false)}
+          disabled={!!running || !previewed}
+          className="px-5 py-2 rounded-xl bg-gradient-to-r from-red-600 to-pink-600 text-white hover:from-red-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+          title={previewed ? '' : '先にプレビューを実行してください'}
+        >
+          {running === 'commit' && <FaSpinner className="animate-spin" />}
+          スナップショットを書き込む
+        </button>
+      </div>
+
+      {msg && <div className="text-sm text-gray-200 mb-4">{msg}</div>}
+
+      {summary && (
+        <div className="text-sm text-gray-300 mb-4">
+          {summary.from} 〜 {summary.to} ／ 対象 {summary.players} 人 ／ 既存 {summary.days_existing} 日 ／ 書き込み{' '}
+          {summary.days_written} 日（{summary.rows_written} 行）
+        </div>
+      )}
+
+      {summary && summary.rows_written === 0 && <div className="text-sm text-green-300">書き込む日はありません。</div>}
+
+      {preview.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-purple-500/20">
+          <div className="px-3 py-2 text-xs text-gray-400 bg-gray-800/80">{preview[0].snapshot_date} の上位</div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800/80 text-gray-300">
+              <tr>
+                <th className="px-3 py-2 text-right">順位</th>
+                <th className="px-3 py-2 text-left">選手</th>
+                <th className="px-3 py-2 text-right">RP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((r) => (
+                <tr key={r.player_id} className="border-t border-purple-500/10">
+                  <td className="px-3 py-2 text-right tabular-nums">{r.rank}</td>
+                  <td className="px-3 py-2 text-gray-100">{r.handle_name || r.player_id.slice(0, 8)}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">{r.ranking_points}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { FaHistory, FaSpinner } from 'react-icons/fa';
+import { getRatingStrategy, normalizeRatingAlgorithm } from '@/lib/rating/strategies';
+
+type PlayerState = {
+  ranking_points: number;
+  handicap: number;
+  wins: number;
+  losses: number;
+  matches_played: number;
+};
+
+type DiffRow = {
+  player_id: string;
+  handle_name: string;
+  before: PlayerState;
+  after: PlayerState;
+};
+
+type Summary = {
+  players: number;
+  players_changed: number;
+  matches_replayed: number;
+  matches_rated: number;
+  matches_changed: number;
+  season_resets?: number;
+  baseline: { base_rating: number; initial_handicap: number };
+  algorithm: string;
+};
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+export default function RatingReplayPanel() {
+  const [running, setRunning] = useState<'dry' | 'commit' | null>(null);
+  const [msg, setMsg] = useState('');
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [diff, setDiff] = useState<DiffRow[]>([]);
+  const [previewed, setPreviewed] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('全プレイヤーの RP/HC/勝敗数を試合履歴から再計算して上書きします。よろしいですか？')) return;
+
+    setRunning(dryRun ? 'dry' : 'commit');
+    setMsg('');
+    try {
+      const r = await fetch('/api/admin/rating/replay', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ dry_run: dryRun }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+
+      setSummary(j.summary as Summary);
+      setDiff((j.diff ?? []) as DiffRow[]);
+      setPreviewed(dryRun);
+      setMsg(dryRun ? 'プレビューを作成しました（まだ反映されていません）' : '再計算を反映しました');
+    } catch (e: any) {
+      setMsg(`失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-8 mt-8">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-3">
+        <FaHistory className="text-purple-400" />
+        レーティング再計算
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        全プレイヤーを初期値（rating_config）に戻し、レーティング対象の試合を日時順に「現在の方式」で積み直します。
+        まずプレビューで差分を確認してから反映してください。
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={() => run(true)}
+          disabled={!!running}
+          className="px-5 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70 disabled:opacity-50 inline-flex items-center gap-2"
+        >
+          {running === 'dry' && <FaSpinner className="animate-spin" />}
+          プレビュー（ドライラン）
+        </button>
+        <button
+          onClick={() => run(false)}
+          disabled={!!running || !previewed}
+          className="px-5 py-2 rounded-xl bg-gradient-to-r from-red-600 to-pink-600 text-white hover:from-red-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+          title={previewed ? '' : '先にプレビューを実行してください'}
+        >
+          {running === 'commit' && <FaSpinner className="animate-spin" />}
+          再計算を反映
+        </button>
+      </div>
+
+      {msg && <div className="text-sm text-gray-200 mb-4">{msg}</div>}
+
+      {summary && (
+        <div className="text-sm text-gray-300 mb-4 space-y-1">
+          <div>
+            方式: {getRatingStrategy(normalizeRatingAlgorithm(summary.algorithm)).label} ／ 初期値: RP{' '}
+            {summary.baseline.base_rating} / HC {summary.baseline.initial_handicap}
+          </div>
+          <div>
+            対象 {summary.players} 人中 {summary.players_changed} 人が変化 ／ 試合 {summary.matches_replayed} 件（うち
+            レーティング適用 {summary.matches_rated} 件、変動値が変わる試合 {summary.matches_changed} 件）
+          </div>
+          {!!summary.season_resets && (
+            <div>シーズン締めの RP リセット {summary.season_resets} 回を、締めた時点でかけ直します。</div>
+          )}
+        </div>
+      )}
+
+      {summary && diff.length === 0 && <div className="text-sm text-green-300">差分はありません。</div>}
+
+      {diff.length > 0 && (
+        <div className="overflow-x-auto max-h-[480px] overflow-y-auto rounded-xl border border-purple-500/20">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800/80 text-gray-300 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">プレイヤー</th>
+                <th className="px-3 py-2 text-right">RP</th>
+                <th className="px-3 py-2 text-right">HC</th>
+                <th className="px-3 py-2 text-right">勝-敗</th>
+                <th className="px-3 py-2 text-right">試合数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((d) => {
+                const rpDiff = d.after.ranking_points - d.before.ranking_points;
+                return (
+                  <tr key={d.player_id} className="border-t border-purple-500/10">
+                    <td className="px-3 py-2 text-gray-100">{d.handle_name || d.player_id.slice(0, 8)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.ranking_points} → <span className="font-semibold">{d.after.ranking_points}</span>
+                      {rpDiff !== 0 && (
+                        <span className={`ml-1 ${rpDiff > 0 ? 'text-green-400' : 'text-red-400'}`}>({signed(rpDiff)})</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.handicap} → {d.after.handicap}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.wins}-{d.before.losses} → {d.after.wins}-{d.after.losses}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.matches_played} → {d.after.matches_played}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { FaSpinner, FaUsers } from 'react-icons/fa';
+
+type DiffRow = {
+  team_id: string;
+  name: string;
+  before: { rating: number; rating_matches: number };
+  after: { rating: number; rating_matches: number };
+};
+
+type Summary = {
+  teams: number;
+  teams_changed: number;
+  matches_replayed: number;
+};
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+export default function TeamRatingRecomputePanel() {
+  const [running, setRunning] = useState<'dry' | 'commit' | null>(null);
+  const [msg, setMsg] = useState('');
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [diff, setDiff] = useState<DiffRow[]>([]);
+  const [previewed, setPreviewed] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('全チームのレーティングを団体戦の履歴から再計算して上書きします。よろしいですか？')) return;
+
+    setRunning(dryRun ? 'dry' : 'commit');
+    setMsg('');
+    try {
+      const r = await fetch('/api/admin/team-ratings/recompute', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ dry_run: dryRun }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+
+      setSummary(j.summary as Summary);
+      setDiff((j.diff ?? []) as DiffRow[]);
+      setPreviewed(dryRun);
+      setMsg(dryRun ? 'プレビューを作成しました（まだ反映されていません）' : '再計算を反映しました');
+    } catch (e: any) {
+      setMsg(`失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-8 mt-8">
+      <h2 className="text-2xl font-bold mb-2 flex items-center gap-3">
+        <FaUsers className="text-purple-400" />
+        チームレーティング再計算
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        全チームを初期値（1500）に戻し、確定済みの団体戦を日時順に積み直します。メンバーの RP とは独立した値です。
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={() => run(true)}
+          disabled={!!running}
+          className="px-5 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70 disabled:opacity-50 inline-flex items-center gap-2"
+        >
+          {running === 'dry' && <FaSpinner className="animate-spin" />}
+          プレビュー（ドライラン）
+        </button>
+        <button
+          onClick={() => run(false)}
+          disabled={!!running || !previewed}
+          className="px-5 py-2 rounded-xl bg-gradient-to-r from-red-600 to-pink-600 text-white hover:from-red-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+          title={previewed ? '' : '先にプレビューを実行してください'}
+        >
+          {running === 'commit' && <FaSpinner className="animate-spin" />}
+          再計算を反映
+        </button>
+      </div>
+
+      {msg && <div className="text-sm text-gray-200 mb-4">{msg}</div>}
+
+      {summary && (
+        <div className="text-sm text-gray-300 mb-4">
+          対象 {summary.teams} チーム中 {summary.teams_changed} チームが変化 ／ 団体戦 {summary.matches_replayed} 件
+        </div>
+      )}
+
+      {summary && diff.length === 0 && <div className="text-sm text-green-300">差分はありません。</div>}
+
+      {diff.length > 0 && (
+        <div className="overflow-x-auto max-h-[480px] overflow-y-auto rounded-xl border border-purple-500/20">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800/80 text-gray-300 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">チーム</th>
+                <th className="px-3 py-2 text-right">レーティング</th>
+                <th className="px-3 py-2 text-right">反映試合数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((d) => {
+                const rDiff = d.after.rating - d.before.rating;
+                return (
+                  <tr key={d.team_id} className="border-t border-purple-500/10">
+                    <td className="px-3 py-2 text-gray-100">{d.name || d.team_id.slice(0, 8)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.rating} → <span className="font-semibold">{d.after.rating}</span>
+                      {rDiff !== 0 && (
+                        <span className={`ml-1 ${rDiff > 0 ? 'text-green-400' : 'text-red-400'}`}>({signed(rDiff)})</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {d.before.rating_matches} → {d.after.rating_matches}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
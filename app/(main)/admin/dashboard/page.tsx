@@ -21,9 +21,16 @@ import {
   FaEyeSlash,
   FaListUl,
   FaDatabase, // ✅ 追加
+  FaHistory,
+  FaCalendarAlt,
 } from 'react-icons/fa';
 
 import { createClient } from '@/lib/supabase/client';
+import RatingReplayPanel from './_components/RatingReplayPanel';
+import TeamRatingRecomputePanel from './_components/TeamRatingRecomputePanel';
+import RankSnapshotBackfillPanel from './_components/RankSnapshotBackfillPanel';
+import AchievementAwardPanel from './_components/AchievementAwardPanel';
+import DisputeQueuePanel from './_components/DisputeQueuePanel';
 
 type RankingConfig = {
   k_factor: number;
@@ -469,6 +476,9 @@ export default function AdminDashboard() {
               </div>
             </div>
 
+            {/* ✅ 対戦相手から異議が出た試合（確定/修正/無効） */}
+            <DisputeQueuePanel />
+
             {/* ✅ 試合登録ショートカット */}
             <div className="glass-card rounded-xl p-5 border border-purple-500/30 bg-gray-900/50 mb-8">
               <h2 className="text-lg font-semibold text-purple-200 mb-3">試合登録</h2>
@@ -481,6 +491,13 @@ export default function AdminDashboard() {
                   個人戦登録
                 </Link>
 
+                <Link
+                  href="/admin/matches/register/doubles"
+                  className="px-4 py-2 rounded-lg bg-purple-600/30 hover:bg-purple-600/40 inline-flex items-center gap-2 justify-center"
+                >
+                  ダブルス登録
+                </Link>
+
                 <Link
                   href="/admin/matches/register/teams"
                   className="px-4 py-2 rounded-lg bg-purple-600/30 hover:bg-purple-600/40 inline-flex items-center gap-2 justify-center"
@@ -613,6 +630,32 @@ export default function AdminDashboard() {
                 <p className="text-gray-400">大会インデックスからリーグブロックの作成・確認ができます</p>
               </Link>
 
+              <Link
+                href="/admin/audit"
+                className="group bg-gray-900/60 backdrop-blur-md rounded-xl border border-purple-500/30 p-8 hover:border-purple-400/50 transition-all transform hover:scale-105"
+              >
+                <div className="flex items-center gap-4 mb-4">
+                  <div className="p-4 bg-gradient-to-r from-slate-600 to-gray-700 rounded-xl group-hover:shadow-lg group-hover:shadow-gray-500/30 transition-all">
+                    <FaHistory className="text-3xl text-white" />
+                  </div>
+                  <h3 className="text-2xl font-bold">操作ログ</h3>
+                </div>
+                <p className="text-gray-400">管理操作（誰が・いつ・何を変更したか）を確認できます</p>
+              </Link>
+
+              <Link
+                href="/admin/seasons"
+                className="group bg-gray-900/60 backdrop-blur-md rounded-xl border border-purple-500/30 p-8 hover:border-purple-400/50 transition-all transform hover:scale-105"
+              >
+                <div className="flex items-center gap-4 mb-4">
+                  <div className="p-4 bg-gradient-to-r from-amber-600 to-rose-600 rounded-xl group-hover:shadow-lg group-hover:shadow-amber-500/30 transition-all">
+                    <FaCalendarAlt className="text-3xl text-white" />
+                  </div>
+                  <h3 className="text-2xl font-bold">シーズン管理</h3>
+                </div>
+                <p className="text-gray-400">シーズンの開始・締め（最終順位の保存と RP リセット）</p>
+              </Link>
+
               {/* ✅ 追加：バックアップ/復元（UI維持のままカード1枚追加） */}
               <Link
                 href="/admin/backup"
@@ -985,6 +1028,16 @@ export default function AdminDashboard() {
                 </div>
               </div>
             </div>
+
+            {/* ✅ 試合履歴からの再計算（ドライラン → 反映） */}
+            <RatingReplayPanel />
+
+            {/* ✅ チームレーティング（団体戦の履歴から積み直し） */}
+            <TeamRatingRecomputePanel />
+
+            {/* ✅ 順位スナップショット（試合履歴から過去分を埋める） */}
+            <RankSnapshotBackfillPanel />
+            <AchievementAwardPanel />
           </div>
         )}
       </div>
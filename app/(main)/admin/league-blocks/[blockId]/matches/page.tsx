@@ -21,6 +21,8 @@ type MatchEndReason = 'normal' | 'time_limit' | 'walkover' | 'forfeit';
 type MatchRow = {
   id: string;
   match_date: string | null;
+  round_no?: number | null;
+  match_order?: number | null;
   player_a_id: string | null;
   player_b_id: string | null;
   winner_id: string | null;
@@ -181,9 +183,12 @@ export default function AdminLeagueBlockMatchesPage() {
       const { data: matchesData, error: mErr } = await supabase
         .from('matches')
         .select(
-          'id, match_date, player_a_id, player_b_id, winner_id, loser_id, winner_score, loser_score, status, mode, end_reason'
+          'id, match_date, round_no, match_order, player_a_id, player_b_id, winner_id, loser_id, winner_score, loser_score, status, mode, end_reason'
         )
         .eq('league_block_id', bId)
+        // ✅ 日程（節 → 試合順）で並べる。日程の無い古い試合は作成日時順
+        .order('round_no', { ascending: true, nullsFirst: false })
+        .order('match_order', { ascending: true, nullsFirst: false })
         .order('match_date', { ascending: true });
 
       if (mErr) throw new Error('試合一覧の取得に失敗しました');
@@ -407,6 +412,11 @@ export default function AdminLeagueBlockMatchesPage() {
                     return (
                       <tr key={m.id}>
                         <td className="border px-2 py-1 align-top">
+                          {m.round_no ? (
+                            <div className="text-[11px] text-gray-400 mb-1">
+                              第{m.round_no}節{m.match_order ? ` / #${m.match_order}` : ''}
+                            </div>
+                          ) : null}
                           <div className="flex flex-col">
                             <span>{aName}</span>
                             <span className="text-xs text-gray-400">vs</span>
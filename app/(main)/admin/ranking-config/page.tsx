@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { FaArrowLeft, FaCog, FaSave, FaSpinner } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import { RATING_STRATEGIES, normalizeRatingAlgorithm, type RatingAlgorithm } from '@/lib/rating/strategies';
 
 type TrendMode = 'daily' | 'weekly' | 'monthly';
 
@@ -33,6 +34,10 @@ export default function AdminRankingConfigPage() {
     trend_default_mode: 'daily',
   });
 
+  const [algorithm, setAlgorithm] = useState<RatingAlgorithm>('elo');
+  const [savedAlgorithm, setSavedAlgorithm] = useState<RatingAlgorithm>('elo');
+  const [autoConfirmHours, setAutoConfirmHours] = useState<number>(48);
+
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -96,6 +101,12 @@ export default function AdminRankingConfigPage() {
     try {
       const r = await fetch('/api/admin/ranking-config', { cache: 'no-store' });
       const j = await r.json();
+      if (r.ok && j?.ok) {
+        const a = normalizeRatingAlgorithm(j.algorithm);
+        setAlgorithm(a);
+        setSavedAlgorithm(a);
+        if (j.auto_confirm_hours != null) setAutoConfirmHours(Number(j.auto_confirm_hours));
+      }
       if (r.ok && j?.ok && j?.trend) {
         const t = j.trend as Partial<TrendConfig>;
         setCfg((prev) => ({
@@ -136,13 +147,16 @@ export default function AdminRankingConfigPage() {
           'content-type': 'application/json',
           'x-user-id': userId,
         },
-        body: JSON.stringify({ trend: payload }),
+        body: JSON.stringify({
+          config: { rating_algorithm: algorithm, auto_confirm_hours: clampInt(autoConfirmHours, 0, 720) },
+          trend: payload,
+        }),
       });
 
       const j = await r.json();
       if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
 
-      alert('表示設定を保存しました');
+      alert('設定を保存しました');
 
       // 保存後、必ずAPIの値を読み直して画面の「戻る」を防ぐ
       await loadFromApi();
@@ -181,7 +195,7 @@ export default function AdminRankingConfigPage() {
         <div className="max-w-3xl mx-auto bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-8">
           <h1 className="text-2xl sm:text-3xl font-bold mb-6 flex items-center gap-3">
             <FaCog className="text-purple-400" />
-            順位推移の表示設定
+            ランキング設定
           </h1>
 
           {loading ? (
@@ -191,6 +205,56 @@ export default function AdminRankingConfigPage() {
             </div>
           ) : (
             <div className="space-y-6">
+              <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+                <label className="block text-sm text-gray-300 mb-3">レーティング方式</label>
+                <div className="space-y-2">
+                  {RATING_STRATEGIES.map((s) => (
+                    <label
+                      key={s.id}
+                      className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                        algorithm === s.id ? 'border-purple-400 bg-purple-900/30' : 'border-purple-500/20 bg-gray-900/40'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="rating_algorithm"
+                        value={s.id}
+                        checked={algorithm === s.id}
+                        onChange={() => setAlgorithm(s.id)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-gray-100">{s.label}</span>
+                        <span className="block text-xs text-gray-400">{s.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                {algorithm !== savedAlgorithm && (
+                  <p className="mt-3 text-xs text-amber-300">
+                    ※ 変更はこれから登録する試合から反映されます。過去の試合に適用するにはダッシュボードの「レーティング再計算」を実行してください。
+                  </p>
+                )}
+              </div>
+
+              <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
+                <label className="block text-sm text-gray-300 mb-2">試合結果の自動確定（時間）</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={720}
+                  value={autoConfirmHours}
+                  onChange={(e) => setAutoConfirmHours(Number(e.target.value))}
+                  className="w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100
+                             focus:outline-none focus:border-purple-400"
+                />
+                <p className="mt-2 text-xs text-gray-400">
+                  相手が確認しないまま指定時間を過ぎた報告は自動で確定し、RP/HC に反映します（0 = 自動確定しない）。
+                </p>
+              </div>
+
+              <h2 className="text-lg font-semibold text-gray-200 pt-2">順位推移の表示設定</h2>
+
               <div className="bg-gray-800/50 rounded-xl p-6 border border-purple-500/20">
                 <label className="block text-sm text-gray-300 mb-2">デフォルト表示</label>
                 <select
@@ -0,0 +1,382 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaArrowLeft, FaCalendarAlt, FaFlagCheckered, FaPlus, FaSearch, FaSpinner } from 'react-icons/fa';
+import { createClient } from '@/lib/supabase/client';
+import { seasonLabel, type Season } from '@/lib/rating/seasons';
+
+type PreviewRow = {
+  player_id: string;
+  handle_name: string | null;
+  rank: number;
+  ranking_points: number;
+  handicap: number;
+  reset_points: number | null;
+};
+
+type PreviewSummary = {
+  players: number;
+  regression: number;
+  base_rating: number;
+  reset: number;
+  next_name: string | null;
+};
+
+const inputCls =
+  'w-full px-3 py-2 rounded-lg bg-gray-900/60 border border-purple-500/30 text-gray-100 focus:outline-none focus:border-purple-400';
+
+const PREVIEW_LIMIT = 30;
+
+// JST の今日（YYYY-MM-DD）
+const todayJst = () => new Date(Date.now() + 9 * 3600 * 1000).toISOString().slice(0, 10);
+
+export default function AdminSeasonsPage() {
+  const router = useRouter();
+
+  const supabase = useMemo<ReturnType<typeof createClient> | null>(() => {
+    if (typeof window === 'undefined') return null;
+    return createClient();
+  }, []);
+
+  const [authz, setAuthz] = useState<'checking' | 'ok' | 'no'>('checking');
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // 開始フォーム
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(todayJst());
+  const [endDate, setEndDate] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // 締めフォーム
+  const [regression, setRegression] = useState('0');
+  const [nextName, setNextName] = useState('');
+  const [nextStart, setNextStart] = useState('');
+  const [closing, setClosing] = useState(false);
+  const [summary, setSummary] = useState<PreviewSummary | null>(null);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!supabase) return;
+
+        const r = await fetch('/auth/whoami', { cache: 'no-store', credentials: 'include' });
+        const j = r.ok ? await r.json() : { authenticated: false };
+        if (!j?.authenticated) {
+          router.replace('/login?redirect=/admin/seasons');
+          return;
+        }
+
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) {
+          router.replace('/login?redirect=/admin/seasons');
+          return;
+        }
+
+        const [a1, a2] = await Promise.all([
+          (supabase.from('app_admins') as any).select('user_id').eq('user_id', user.id).maybeSingle(),
+          (supabase.from('players') as any).select('is_admin').eq('id', user.id).maybeSingle(),
+        ]);
+        const ok = !!a1.data?.user_id || a2.data?.is_admin === true;
+        if (cancelled) return;
+        setAuthz(ok ? 'ok' : 'no');
+      } catch {
+        if (!cancelled) setAuthz('no');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, router]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const r = await fetch('/api/admin/seasons', { credentials: 'include', cache: 'no-store' });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setSeasons((j.seasons ?? []) as Season[]);
+    } catch (e: any) {
+      setError(`取得に失敗しました: ${e?.message || 'failed'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authz === 'ok') load();
+  }, [authz, load]);
+
+  const active = seasons.find((s) => s.status === 'active') ?? null;
+  const closed = seasons.filter((s) => s.status === 'closed');
+
+  // 条件を変えたらプレビューはやり直し
+  useEffect(() => {
+    setSummary(null);
+    setPreview([]);
+  }, [regression, nextName, nextStart, active?.id]);
+
+  const create = async () => {
+    setCreating(true);
+    setError('');
+    setMessage('');
+    try {
+      const r = await fetch('/api/admin/seasons', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, start_date: startDate, end_date: endDate || null }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setMessage(`シーズン「${j.season?.name ?? name}」を開始しました。`);
+      setName('');
+      setEndDate('');
+      await load();
+    } catch (e: any) {
+      setError(e?.message || '作成に失敗しました。');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const close = async (dryRun: boolean) => {
+    if (!active) return;
+    if (!dryRun && !confirm(`シーズン「${active.name}」を締めます。よろしいですか？（元に戻せません）`)) return;
+
+    setClosing(true);
+    setError('');
+    setMessage('');
+    try {
+      const r = await fetch(`/api/admin/seasons/${active.id}/close`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dry_run: dryRun,
+          regression: Number(regression),
+          next_name: nextName || null,
+          next_start: nextStart || null,
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+
+      if (dryRun) {
+        setSummary(j.summary as PreviewSummary);
+        setPreview((j.preview ?? []) as PreviewRow[]);
+        return;
+      }
+
+      const res = j.result ?? {};
+      setMessage(
+        `締めました：${Number(res.archived ?? 0)} 人の成績を保存${Number(res.reset ?? 0) ? ` / ${Number(res.reset)} 人の RP をリセット` : ''}`,
+      );
+      setNextName('');
+      setNextStart('');
+      await load();
+    } catch (e: any) {
+      setError(e?.message || '締めに失敗しました。');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  if (authz === 'checking') {
+    return (
+      <div className="min-h-screen bg-[#2a2a3e] flex items-center justify-center text-white">認証を確認しています...</div>
+    );
+  }
+
+  if (authz === 'no') {
+    return (
+      <div className="min-h-screen bg-[#2a2a3e] flex items-center justify-center text-white">アクセス権限がありません</div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#2a2a3e] text-white">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex items-center justify-between gap-3">
+          <Link href="/admin/dashboard" className="inline-flex items-center gap-2 text-purple-300 hover:text-purple-200">
+            <FaArrowLeft /> ダッシュボードへ
+          </Link>
+        </div>
+
+        <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-6 sm:p-8 space-y-8">
+          <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-3">
+            <FaCalendarAlt className="text-purple-400" />
+            シーズン管理
+          </h1>
+
+          {error && <div className="text-sm text-red-300">{error}</div>}
+          {message && <div className="text-sm text-green-300">{message}</div>}
+
+          {loading && !seasons.length ? (
+            <div className="text-gray-400 text-sm inline-flex items-center gap-2">
+              <FaSpinner className="animate-spin" /> 読み込み中...
+            </div>
+          ) : active ? (
+            /* 開催中のシーズン → 締める */
+            <section className="space-y-4">
+              <div>
+                <div className="text-xs text-gray-400">開催中</div>
+                <div className="text-xl font-bold text-yellow-100">{seasonLabel(active)}</div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                <label className="block">
+                  <span className="block text-gray-400 mb-1">RP リセット率（0〜1）</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={regression}
+                    onChange={(e) => setRegression(e.target.value)}
+                    className={inputCls}
+                  />
+                  <span className="block text-xs text-gray-500 mt-1">0 = そのまま / 0.5 = 基準値との差を半分 / 1 = 全員基準値</span>
+                </label>
+                <label className="block">
+                  <span className="block text-gray-400 mb-1">次のシーズン名（任意）</span>
+                  <input value={nextName} onChange={(e) => setNextName(e.target.value)} placeholder="例: 2026 秋" className={inputCls} />
+                </label>
+                <label className="block">
+                  <span className="block text-gray-400 mb-1">次のシーズン開始日</span>
+                  <input
+                    type="date"
+                    value={nextStart}
+                    onChange={(e) => setNextStart(e.target.value)}
+                    disabled={!nextName}
+                    className={`${inputCls} disabled:opacity-40`}
+                  />
+                  <span className="block text-xs text-gray-500 mt-1">空なら締めた日の翌日</span>
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => close(true)}
+                  disabled={closing}
+                  className="px-5 py-2 rounded-xl bg-gray-800/70 border border-purple-500/40 text-gray-100 hover:border-purple-400/70 disabled:opacity-50 inline-flex items-center gap-2"
+                >
+                  {closing ? <FaSpinner className="animate-spin" /> : <FaSearch />} プレビュー
+                </button>
+                <button
+                  onClick={() => close(false)}
+                  disabled={closing || !summary}
+                  className="px-5 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+                >
+                  <FaFlagCheckered /> シーズンを締める
+                </button>
+              </div>
+
+              {summary && (
+                <div className="space-y-2">
+                  <div className="text-sm text-gray-300">
+                    {summary.players} 人の成績を保存します
+                    {summary.regression > 0
+                      ? ` / RP を基準値 ${summary.base_rating} へ ${Math.round(summary.regression * 100)}% 寄せます（${summary.reset} 人が変動）`
+                      : ' / RP はリセットしません'}
+                    {summary.next_name && ` / 次のシーズン「${summary.next_name}」を開始します`}
+                  </div>
+                  <div className="overflow-x-auto rounded-xl border border-purple-500/20">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-800/80 text-gray-300">
+                        <tr>
+                          <th className="px-3 py-2 text-right">順位</th>
+                          <th className="px-3 py-2 text-left">選手</th>
+                          <th className="px-3 py-2 text-right">RP</th>
+                          <th className="px-3 py-2 text-right">HC</th>
+                          <th className="px-3 py-2 text-right">リセット後</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.slice(0, PREVIEW_LIMIT).map((r) => (
+                          <tr key={r.player_id} className="border-t border-purple-500/10">
+                            <td className="px-3 py-2 text-right text-gray-300">{r.rank}</td>
+                            <td className="px-3 py-2 text-gray-100">{r.handle_name ?? r.player_id.slice(0, 8)}</td>
+                            <td className="px-3 py-2 text-right text-yellow-100">{r.ranking_points}</td>
+                            <td className="px-3 py-2 text-right text-blue-200">{r.handicap}</td>
+                            <td className="px-3 py-2 text-right text-gray-300">{r.reset_points ?? '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {preview.length > PREVIEW_LIMIT && (
+                    <div className="text-xs text-gray-500">ほか {preview.length - PREVIEW_LIMIT} 人</div>
+                  )}
+                </div>
+              )}
+            </section>
+          ) : (
+            /* 開催中なし → 開始する */
+            <section className="space-y-4">
+              <div className="text-sm text-gray-400">開催中のシーズンはありません。</div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+                <label className="block md:col-span-2">
+                  <span className="block text-gray-400 mb-1">シーズン名</span>
+                  <input value={name} onChange={(e) => setName(e.target.value)} placeholder="例: 2026 秋" className={inputCls} />
+                </label>
+                <label className="block">
+                  <span className="block text-gray-400 mb-1">開始日</span>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputCls} />
+                </label>
+                <label className="block">
+                  <span className="block text-gray-400 mb-1">終了予定日（任意）</span>
+                  <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputCls} />
+                </label>
+              </div>
+              <button
+                onClick={create}
+                disabled={creating || !name.trim() || !startDate}
+                className="px-5 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 inline-flex items-center gap-2"
+              >
+                {creating ? <FaSpinner className="animate-spin" /> : <FaPlus />} シーズンを開始
+              </button>
+            </section>
+          )}
+
+          {/* 過去のシーズン */}
+          <section>
+            <h2 className="text-lg font-semibold text-purple-200 mb-3">過去のシーズン</h2>
+            {closed.length === 0 ? (
+              <div className="text-sm text-gray-400">まだありません。</div>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {closed.map((s) => (
+                  <li
+                    key={s.id}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-gray-800/50 border border-purple-500/20 px-3 py-2"
+                  >
+                    <span className="text-gray-100">{seasonLabel(s)}</span>
+                    <span className="text-xs text-gray-400">
+                      {Number(s.regression) > 0 ? `RP リセット ${Math.round(Number(s.regression) * 100)}%` : 'RP リセットなし'}
+                      {' ・ '}
+                      <Link href={`/rankings?season=${s.id}`} className="text-purple-300 hover:text-purple-200 underline">
+                        最終順位
+                      </Link>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
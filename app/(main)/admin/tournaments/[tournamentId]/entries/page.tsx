@@ -0,0 +1,505 @@
+// app/(main)/admin/tournaments/[tournamentId]/entries/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import {
+  ENTRY_STATUS_LABELS,
+  ENTRY_WINDOW_LABELS,
+  entryCapacity,
+  entryWindowOf,
+  isActiveEntry,
+  isEntryStatus,
+} from '@/lib/tournaments/entryStatus';
+
+const supabase = createClient();
+// ✅ Supabase 型推論が "never" に崩れる環境があるので、このページ内は any 経由で安全に扱う
+const db: any = supabase;
+
+// ===== Types =====
+type TournamentInfo = {
+  id: string;
+  name: string | null;
+  size: number | null;
+  entry_open: boolean | null;
+  entry_deadline: string | null;
+  entries_closed_at: string | null;
+};
+
+type RegistrationRow = {
+  id: string;
+  player_id: string;
+  status: string;
+  position: number;
+  created_at: string | null;
+  reviewed_at: string | null;
+  player: {
+    handle_name: string | null;
+    ranking_points: number | null;
+    handicap: number | null;
+  } | null;
+};
+
+type ReviewAction = 'approve' | 'reject' | 'waitlist';
+
+// ===== Helper: datetime-local ⇔ ISO =====
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const fmtDateTime = (iso: string | null) => {
+  if (!iso) return '-';
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? '-' : d.toLocaleString('ja-JP');
+};
+
+const STATUS_BADGE: Record<string, string> = {
+  entered: 'bg-blue-600/30 text-blue-200',
+  approved: 'bg-green-600/30 text-green-200',
+  waitlisted: 'bg-yellow-600/30 text-yellow-200',
+  rejected: 'bg-red-600/30 text-red-200',
+  withdrawn: 'bg-gray-600/30 text-gray-300',
+};
+
+// ===== Page Component =====
+export default function AdminTournamentEntriesPage() {
+  const params = useParams();
+
+  // ✅ tournamentId が string[] になる環境にも対応
+  const rawTid: any = (params as any)?.tournamentId;
+  const tournamentId = typeof rawTid === 'string' ? rawTid : Array.isArray(rawTid) ? String(rawTid[0] ?? '') : '';
+
+  const [tournament, setTournament] = useState<TournamentInfo | null>(null);
+  const [rows, setRows] = useState<RegistrationRow[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 受付設定
+  const [entryOpen, setEntryOpen] = useState(false);
+  const [deadline, setDeadline] = useState('');
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  // 並べ替えは「並び順を保存」で反映（それまでは画面上だけ）
+  const [orderDirty, setOrderDirty] = useState(false);
+  const [savingOrder, setSavingOrder] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [closing, setClosing] = useState(false);
+
+  useEffect(() => {
+    if (!tournamentId) return;
+    void loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournamentId]);
+
+  const loadAll = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data: t, error: tErr } = await db
+        .from('tournaments')
+        .select('id, name, size, entry_open, entry_deadline, entries_closed_at')
+        .eq('id', tournamentId)
+        .maybeSingle();
+
+      if (tErr || !t) {
+        console.error(tErr);
+        setError('大会情報の取得に失敗しました');
+        setLoading(false);
+        return;
+      }
+      setTournament(t as TournamentInfo);
+      setEntryOpen((t as TournamentInfo).entry_open === true);
+      setDeadline(toLocalInput((t as TournamentInfo).entry_deadline));
+
+      const { data: regs, error: rErr } = await db
+        .from('tournament_registrations')
+        .select('id, player_id, status, position, created_at, reviewed_at, player:players(handle_name, ranking_points, handicap)')
+        .eq('tournament_id', tournamentId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (rErr) {
+        console.error(rErr);
+        setError('エントリー一覧の取得に失敗しました');
+        setLoading(false);
+        return;
+      }
+
+      setRows((regs ?? []) as RegistrationRow[]);
+      setOrderDirty(false);
+      setLoading(false);
+    } catch (e) {
+      console.error('[admin/entries] loadAll fatal:', e);
+      setError('読み込み中にエラーが発生しました');
+      setLoading(false);
+    }
+  };
+
+  const callApi = async (path: string, method: string, body: unknown) => {
+    const res = await fetch(`/api/admin/tournaments/${tournamentId}/entries${path}`, {
+      method,
+      headers: { 'content-type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body),
+    });
+    const json = (await res.json().catch(() => null)) as any;
+    return { ok: res.ok && !!json?.ok, status: res.status, json };
+  };
+
+  const handleSaveSettings = async () => {
+    setError(null);
+    setMessage(null);
+    setSavingSettings(true);
+
+    try {
+      const r = await callApi('', 'PUT', {
+        entry_open: entryOpen,
+        entry_deadline: deadline ? new Date(deadline).toISOString() : null,
+      });
+      if (!r.ok) {
+        setError(r.json?.message || `受付設定の保存に失敗しました（HTTP ${r.status}）`);
+        return;
+      }
+      await loadAll();
+      setMessage('受付設定を保存しました');
+    } catch (e) {
+      console.error('[admin/entries] save settings fatal:', e);
+      setError('受付設定の保存中にエラーが発生しました');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleReview = async (row: RegistrationRow, action: ReviewAction) => {
+    setError(null);
+    setMessage(null);
+    setBusyId(row.id);
+
+    try {
+      const r = await callApi('', 'PATCH', { id: row.id, action });
+      if (!r.ok) {
+        setError(r.json?.message || `エントリーの更新に失敗しました（HTTP ${r.status}）`);
+        return;
+      }
+      await loadAll();
+      const name = row.player?.handle_name ?? '(名前未設定)';
+      const promoted = Number(r.json?.promoted ?? 0);
+      setMessage(
+        `${name} を「${ENTRY_STATUS_LABELS[r.json.status as keyof typeof ENTRY_STATUS_LABELS] ?? r.json.status}」にしました` +
+          (promoted > 0 ? `（キャンセル待ちから ${promoted} 人繰り上げ）` : ''),
+      );
+    } catch (e) {
+      console.error('[admin/entries] review fatal:', e);
+      setError('エントリーの更新中にエラーが発生しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const moveRow = (idx: number, dir: -1 | 1) => {
+    setRows((prev) => {
+      const j = idx + dir;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[j]] = [next[j], next[idx]];
+      return next;
+    });
+    setOrderDirty(true);
+  };
+
+  const handleSaveOrder = async () => {
+    setError(null);
+    setMessage(null);
+    setSavingOrder(true);
+
+    try {
+      const r = await callApi('', 'PATCH', { order: rows.map((row) => row.id) });
+      if (!r.ok) {
+        setError(r.json?.message || `並び順の保存に失敗しました（HTTP ${r.status}）`);
+        return;
+      }
+      await loadAll();
+      setMessage('並び順を保存しました（キャンセル待ちの繰り上げ順・締切時のシード順になります）');
+    } catch (e) {
+      console.error('[admin/entries] reorder fatal:', e);
+      setError('並び順の保存中にエラーが発生しました');
+    } finally {
+      setSavingOrder(false);
+    }
+  };
+
+  const handleClose = async () => {
+    setError(null);
+    setMessage(null);
+
+    const ok = window.confirm(
+      'エントリーを締め切ります。\n申込済み・承認済みの選手を並び順どおりに大会参加者へ登録し、現在の RP / HC を記録します。\n締切後は申し込み・取り下げ・受付の再開はできません。\n実行しますか？',
+    );
+    if (!ok) return;
+
+    setClosing(true);
+    try {
+      const r = await callApi('/close', 'POST', {});
+      if (!r.ok) {
+        setError(r.json?.message || `締切に失敗しました（HTTP ${r.status}）`);
+        return;
+      }
+      await loadAll();
+      setMessage(`エントリーを締め切りました（参加者 ${Number(r.json?.participants ?? 0)} 人）`);
+    } catch (e) {
+      console.error('[admin/entries] close fatal:', e);
+      setError('締切の処理中にエラーが発生しました');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  if (!tournamentId) {
+    return <div className="p-4">大会IDが指定されていません。</div>;
+  }
+
+  if (loading) {
+    return <div className="p-4">読み込み中...</div>;
+  }
+
+  const closed = !!tournament?.entries_closed_at;
+  const windowState = tournament ? entryWindowOf(tournament) : 'not_open';
+  const capacity = entryCapacity(tournament?.size);
+  const activeCount = rows.filter((r) => isActiveEntry(r.status)).length;
+  const waitCount = rows.filter((r) => r.status === 'waitlisted').length;
+  const disableAll = savingSettings || savingOrder || closing || !!busyId;
+
+  return (
+    <div className="p-4 space-y-6">
+      {/* 見出し */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold">
+            エントリー管理
+            {tournament && (
+              <span className="ml-2 text-sm font-normal text-gray-300">（{tournament.name ?? '大会名未設定'}）</span>
+            )}
+          </h1>
+          <div className="text-xs text-gray-400">tournament_id: {tournamentId}</div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Link
+            href={`/tournaments/${tournamentId}`}
+            className="text-xs text-blue-400 underline"
+            target="_blank"
+            rel="noreferrer"
+          >
+            大会ページを開く
+          </Link>
+          <Link href={`/admin/tournaments/${tournamentId}/league`} className="text-xs text-blue-400 underline">
+            ブロック管理へ
+          </Link>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {message && <div className="text-sm text-green-400">{message}</div>}
+
+      {/* 受付設定 */}
+      <div className="rounded-lg border border-gray-700 bg-black/40 p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="text-sm font-semibold">受付設定</h2>
+          <span className="rounded bg-purple-600/30 px-2 py-0.5 text-xs text-purple-100">
+            {ENTRY_WINDOW_LABELS[windowState]}
+          </span>
+          <span className="text-xs text-gray-300">
+            申込 {activeCount}
+            {capacity != null ? ` / 定員 ${capacity}` : '（定員なし）'}
+            {waitCount > 0 && ` ・キャンセル待ち ${waitCount}`}
+          </span>
+        </div>
+
+        {closed ? (
+          <p className="text-xs text-gray-400">
+            {fmtDateTime(tournament?.entries_closed_at ?? null)} に締め切りました。参加者は大会参加者（シード・RP / HC 記録済み）に登録されています。
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-gray-400">
+              定員は大会の「参加人数（size）」です（0 / 未設定なら無制限）。定員を超えた申し込みはキャンセル待ちになり、
+              取り下げ・却下で空いた枠は並び順に繰り上がります。
+            </p>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={entryOpen}
+                  onChange={(e) => setEntryOpen(e.target.checked)}
+                  disabled={disableAll}
+                />
+                受付する
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                締切
+                <input
+                  type="datetime-local"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                  disabled={disableAll}
+                  className="rounded border border-gray-600 bg-gray-900 px-2 py-1 text-sm"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleSaveSettings}
+                disabled={disableAll}
+                className="rounded bg-purple-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+              >
+                {savingSettings ? '保存中…' : '保存'}
+              </button>
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={disableAll}
+                className="rounded bg-pink-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+                title="申込済み・承認済みの選手を大会参加者に登録し、受付を終了します"
+              >
+                {closing ? '締切中…' : 'エントリーを締め切る'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* エントリー一覧 */}
+      <div className="rounded-lg border border-gray-700 bg-black/40 p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold">エントリー一覧（{rows.length}件）</h2>
+          {!closed && (
+            <button
+              type="button"
+              onClick={handleSaveOrder}
+              disabled={disableAll || !orderDirty}
+              className="rounded bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+            >
+              {savingOrder ? '保存中…' : '並び順を保存'}
+            </button>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-400">まだエントリーはありません。</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-800 text-xs text-gray-300">
+                  <th className="border border-gray-700 px-2 py-1">順</th>
+                  <th className="border border-gray-700 px-2 py-1 text-left">選手</th>
+                  <th className="border border-gray-700 px-2 py-1">RP</th>
+                  <th className="border border-gray-700 px-2 py-1">HC</th>
+                  <th className="border border-gray-700 px-2 py-1">状態</th>
+                  <th className="border border-gray-700 px-2 py-1">申込日時</th>
+                  <th className="border border-gray-700 px-2 py-1">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => {
+                  const status = isEntryStatus(row.status) ? row.status : null;
+                  const busy = busyId === row.id;
+                  const canReview = !closed && status !== 'withdrawn';
+                  return (
+                    <tr key={row.id} className="hover:bg-gray-800/60">
+                      <td className="border border-gray-700 px-2 py-1 text-center">
+                        <div className="flex items-center justify-center gap-1">
+                          <span className="w-6 text-right">{idx + 1}</span>
+                          {!closed && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => moveRow(idx, -1)}
+                                disabled={disableAll || idx === 0}
+                                className="rounded border border-gray-600 px-1 text-xs disabled:opacity-30"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => moveRow(idx, 1)}
+                                disabled={disableAll || idx === rows.length - 1}
+                                className="rounded border border-gray-600 px-1 text-xs disabled:opacity-30"
+                              >
+                                ↓
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                      <td className="border border-gray-700 px-2 py-1">
+                        <Link href={`/players/${row.player_id}`} className="text-blue-300 hover:underline" target="_blank">
+                          {row.player?.handle_name ?? '(名前未設定)'}
+                        </Link>
+                      </td>
+                      <td className="border border-gray-700 px-2 py-1 text-center">{row.player?.ranking_points ?? '-'}</td>
+                      <td className="border border-gray-700 px-2 py-1 text-center">{row.player?.handicap ?? '-'}</td>
+                      <td className="border border-gray-700 px-2 py-1 text-center">
+                        <span className={`rounded px-2 py-0.5 text-xs ${STATUS_BADGE[row.status] ?? ''}`}>
+                          {status ? ENTRY_STATUS_LABELS[status] : row.status}
+                        </span>
+                      </td>
+                      <td className="border border-gray-700 px-2 py-1 text-center text-xs">{fmtDateTime(row.created_at)}</td>
+                      <td className="border border-gray-700 px-2 py-1">
+                        {canReview ? (
+                          <div className="flex flex-wrap items-center justify-center gap-1">
+                            {status !== 'approved' && (
+                              <button
+                                type="button"
+                                onClick={() => handleReview(row, 'approve')}
+                                disabled={disableAll}
+                                className="rounded bg-green-700 px-2 py-0.5 text-xs text-white disabled:opacity-50"
+                              >
+                                {busy ? '…' : '承認'}
+                              </button>
+                            )}
+                            {status !== 'waitlisted' && (
+                              <button
+                                type="button"
+                                onClick={() => handleReview(row, 'waitlist')}
+                                disabled={disableAll}
+                                className="rounded bg-yellow-700 px-2 py-0.5 text-xs text-white disabled:opacity-50"
+                              >
+                                キャンセル待ちへ
+                              </button>
+                            )}
+                            {status !== 'rejected' && (
+                              <button
+                                type="button"
+                                onClick={() => handleReview(row, 'reject')}
+                                disabled={disableAll}
+                                className="rounded bg-red-700 px-2 py-0.5 text-xs text-white disabled:opacity-50"
+                              >
+                                却下
+                              </button>
+                            )}
+                          </div>
+                        ) : (
+                          <div className="text-center text-xs text-gray-500">-</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,19 +6,59 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { FaShieldAlt, FaTrophy } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
-
-type MatchFormat = 'single' | 'bo3';
+import type { SeedingResult, SeedSource } from '@/lib/finals/seeding';
+import {
+  buildSeriesSets,
+  computeSeries,
+  defAdvantage,
+  normalizeGames,
+  parseAdvantage,
+  parseSeriesFormat,
+  playableGames,
+  seriesBestOf,
+  seriesLabel,
+  validateSeries,
+  winsNeeded,
+  type SeriesAdvantage,
+  type SeriesGame,
+} from '@/lib/finals/series';
+import {
+  BRACKET_TYPE_LABEL,
+  FINAL_BRACKET_TYPES,
+  parsePlacings,
+  stageLabel,
+  stageRoundLabel,
+  stagesForBracketType,
+  toBracketType,
+  toStage,
+  type FinalBracketType,
+  type FinalStage,
+} from '@/lib/finals/stages';
+
+// ★ series = N 本勝負（N は大会の best_of。lib/finals/series）
+type MatchFormat = 'single' | 'series';
+
+const SEED_SOURCE_LABEL: Record<SeedSource, string> = {
+  override: '手動',
+  participant: 'エントリー',
+  league: 'リーグ順位',
+  rp: 'RP',
+};
 
 type FinalBracket = {
   id: string;
   tournament_id: string;
   title: string | null;
   created_at: string | null;
+  bracket_type?: string | null;
+  champion_player_id?: string | null;
+  placings?: unknown;
 };
 
 type FinalRoundEntry = {
   id: string;
   bracket_id: string;
+  stage?: string | null;
   round_no: number;
   slot_no: number;
   player_id: string | null;
@@ -27,6 +67,7 @@ type FinalRoundEntry = {
 type FinalMatchRow = {
   id: string;
   bracket_id?: string | null;
+  stage?: string | null;
   round_no?: number | null;
 
   match_no?: number | null;
@@ -35,13 +76,13 @@ type FinalMatchRow = {
 
   winner_id?: string | null;
   loser_id?: string | null;
-  winner_score?: number | null; // single: 点 / bo3: 勝数（Adv込み）
-  loser_score?: number | null; // single: 点 / bo3: 勝数（Adv込み）
+  winner_score?: number | null; // single: 点 / series: 勝数（Adv込み）
+  loser_score?: number | null; // single: 点 / series: 勝数（Adv込み）
 
   finish_reason?: string | null;
   end_reason?: string | null;
 
-  // sets: 旧 = [{a,b},{a,b}...] / 新 = {format, advantage, games:[{a,b}...]}
+  // sets: 旧 = [{a,b},{a,b}...] / 新 = {format: 'bo3' | 'bo5' ..., best_of, advantage, games:[{a,b}...]}
   sets?: any;
 
   [key: string]: any;
@@ -132,97 +173,52 @@ const toNum = (v: any, fb: number | null = null) => {
 
 type SetsMetaParsed = {
   format: MatchFormat | null;
-  advantageA: number;
-  advantageB: number;
-  games: Array<{ a: number | null; b: number | null }>;
+  /** sets に記録された N（無ければ null → 大会の best_of を使う） */
+  bestOf: number | null;
+  advantage: SeriesAdvantage;
+  games: SeriesGame[];
 };
 
 function parseSetsMeta(sets: any): SetsMetaParsed {
-  // 旧形式: 配列 [{a,b}...]
+  // 旧形式: 配列 [{a,b}...]（3回勝負）
   if (Array.isArray(sets)) {
-    const games = (sets as any[]).slice(0, 3).map((x) => ({
-      a: typeof x?.a === 'number' ? x.a : toNum(x?.a, null),
-      b: typeof x?.b === 'number' ? x.b : toNum(x?.b, null),
-    }));
-    return { format: 'bo3', advantageA: 0, advantageB: 0, games };
+    const advantage = { a: 0, b: 0 };
+    return { format: 'series', bestOf: 3, advantage, games: normalizeGames(sets, 3, advantage) };
   }
 
-  // 新形式: { format, advantage, games }
+  // 新形式: { format, best_of, advantage, games }
   if (sets && typeof sets === 'object') {
-    const fmtRaw = String((sets as any)?.format ?? '').trim().toLowerCase();
-    const format: MatchFormat | null =
-      fmtRaw === 'single' ? 'single' : fmtRaw === 'bo3' || (sets as any)?.games ? 'bo3' : null;
-
-    const adv = (sets as any)?.advantage ?? {};
-    const advantageA = Math.max(0, toNum(adv?.a, 0) ?? 0);
-    const advantageB = Math.max(0, toNum(adv?.b, 0) ?? 0);
-
-    const arr = Array.isArray((sets as any)?.games) ? (sets as any).games : [];
-    const games = (arr as any[]).slice(0, 3).map((x) => ({
-      a: x?.a == null ? null : toNum(x.a, null),
-      b: x?.b == null ? null : toNum(x.b, null),
-    }));
+    const n = parseSeriesFormat((sets as any)?.best_of ?? (sets as any)?.format);
+    const format: MatchFormat | null = n === 1 ? 'single' : n != null || (sets as any)?.games ? 'series' : null;
+
+    const bestOf = n != null && n > 1 ? n : null;
+    const advantage = parseAdvantage((sets as any)?.advantage);
+    const games = normalizeGames((sets as any)?.games, bestOf ?? 3, advantage);
 
-    return { format, advantageA, advantageB, games };
+    return { format, bestOf, advantage, games };
   }
 
-  return { format: null, advantageA: 0, advantageB: 0, games: [] };
+  return { format: null, bestOf: null, advantage: { a: 0, b: 0 }, games: [] };
 }
 
-function inferFormatFromMatch(m: FinalMatchRow | null, forcedBo3: boolean): MatchFormat {
-  if (forcedBo3) return 'bo3';
+function inferFormatFromMatch(m: FinalMatchRow | null, forcedSeries: boolean, bestOf: number): MatchFormat {
+  if (forcedSeries) return 'series';
   if (m?.sets != null) {
     const p = parseSetsMeta(m.sets);
     if (p.format) return p.format;
-    return 'bo3';
+    return 'series';
   }
 
+  // 勝数（N 本勝負なら勝ち抜けに必要な勝ち数以下）か点数かで推定
   const ws = typeof m?.winner_score === 'number' ? m?.winner_score : null;
   const ls = typeof m?.loser_score === 'number' ? m?.loser_score : null;
   if (ws != null && ls != null) {
-    if (ws <= 3 && ls <= 3) return 'bo3';
+    const need = winsNeeded(bestOf);
+    if (ws <= need && ls <= need) return 'series';
     return 'single';
   }
 
-  return 'bo3';
-}
-
-function calcBo3Wins(
-  pidA: string,
-  pidB: string,
-  games: Array<{ a: number | null; b: number | null }>,
-  advantageA: number,
-  advantageB: number
-) {
-  let setWinsA = 0;
-  let setWinsB = 0;
-
-  for (const g of games.slice(0, 3)) {
-    const a = g.a;
-    const b = g.b;
-    if (a == null || b == null) continue;
-    if (a < 0 || b < 0) continue;
-    if (a === b) continue;
-    if (a > b) setWinsA++;
-    else setWinsB++;
-  }
-
-  const totalA = setWinsA + advantageA;
-  const totalB = setWinsB + advantageB;
-
-  const winner_id =
-    totalA >= 2 && totalA > totalB ? pidA : totalB >= 2 && totalB > totalA ? pidB : null;
-
-  const loser_id = winner_id === pidA ? pidB : winner_id === pidB ? pidA : null;
-
-  return {
-    setWinsA,
-    setWinsB,
-    totalA,
-    totalB,
-    winner_id,
-    loser_id,
-  };
+  return 'series';
 }
 
 function normalizeLeagueCandidateRows(source: string, rows: any[], tournamentId: string): LeagueCandidates {
@@ -413,24 +409,13 @@ async function fetchFinalMatchesOnce(db: any, bracketId: string): Promise<FinalM
   return (data2 ?? []) as FinalMatchRow[];
 }
 
-async function postFinalReport(payload: {
-  bracket_id: string;
-  round_no: number;
-  match_no: number;
-  winner_id: string | null;
-  loser_id: string | null;
-  winner_score: number | null;
-  loser_score: number | null;
-  end_reason?: string | null;
-  finish_reason?: string | null;
-  reason?: string | null;
-  affects_rating?: boolean | null;
-  sets?: any;
-}) {
-  const res = await fetch('/api/finals/report', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
+// ✅ 更新系はすべて /api/admin/finals/*（サーバ側で管理者チェック＋1トランザクション）
+async function callFinalsApi(path: string, method: 'POST' | 'DELETE', body?: Record<string, any>) {
+  const res = await fetch(path, {
+    method,
+    credentials: 'include',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
   });
 
   const text = await res.text();
@@ -442,206 +427,36 @@ async function postFinalReport(payload: {
   } catch {}
 
   if (!res.ok || parsed?.ok === false) {
-    const msg = parsed?.error || parsed?.message || text.slice(0, 200) || `HTTP ${res.status}`;
+    const msg = parsed?.message || parsed?.error || text.slice(0, 200) || `HTTP ${res.status}`;
     throw new Error(`HTTP ${res.status}: ${msg}`);
   }
 
   return parsed ?? { ok: true };
 }
 
-async function clearFinalMatchesFromRound(db: any, bracketId: string, fromRoundNo: number) {
-  const candidates: Record<string, any>[] = [
-    {
-      winner_id: null,
-      loser_id: null,
-      winner_score: null,
-      loser_score: null,
-      finish_reason: 'normal',
-      end_reason: 'normal',
-      sets: null,
-    },
-    {
-      winner_id: null,
-      loser_id: null,
-      winner_score: null,
-      loser_score: null,
-      finish_reason: null,
-      end_reason: null,
-      sets: null,
-    },
-    {
-      winner_id: null,
-      loser_id: null,
-      winner_score: null,
-      loser_score: null,
-      finish_reason: null,
-      end_reason: null,
-    },
-    { winner_id: null, loser_id: null, winner_score: null, loser_score: null },
-    { winner_id: null, loser_id: null },
-  ];
-
-  let lastErr: any = null;
-
-  for (const payload of candidates) {
-    const { error } = await (db.from('final_matches') as any)
-      .update(payload as any)
-      .eq('bracket_id', bracketId)
-      .gte('round_no', fromRoundNo);
-
-    if (!error) return;
-    lastErr = error;
-
-    if (isMissingColumnError(error)) continue;
-    break;
+// ✅ 勝者（3位決定戦 / ダブルエリミネーションでは敗者も）は bracket_edges に沿って次の枠へ自動配置される
+const reportSavedMessage = (saved: any) => {
+  const moves: string[] = [];
+  let cleared = false;
+  for (const [who, adv] of [
+    ['勝者', saved?.advanced_to],
+    ['敗者', saved?.loser_to],
+  ] as const) {
+    if (!adv?.changed) continue;
+    moves.push(`${who}を ${stageRoundLabel(toStage(adv.stage), Number(adv.round_no))} の枠${adv.slot_no}へ配置`);
+    if (adv.cleared_downstream) cleared = true;
   }
-
-  throw new Error(String(lastErr?.message || 'final_matches clear failed'));
-}
-
-async function deleteFinalRoundsFrom(db: any, bracketId: string, fromRoundNo: number) {
-  const r1 = await (db.from('final_matches') as any).delete().eq('bracket_id', bracketId).gte('round_no', fromRoundNo);
-  if (r1?.error) throw new Error(String(r1.error?.message || 'final_matches delete failed'));
-
-  const r2 = await (db.from('final_round_entries') as any)
-    .delete()
-    .eq('bracket_id', bracketId)
-    .gte('round_no', fromRoundNo);
-  if (r2?.error) throw new Error(String(r2.error?.message || 'final_round_entries delete failed'));
-}
+  if (saved?.grand_final_reset) moves.push('リセットマッチ（GF R2）を作成');
+  if (moves.length === 0) return '保存しました';
+  const tail = cleared ? '（結果が変わったため以降の試合結果をクリア）' : '';
+  return `保存しました：${moves.join(' / ')}${tail}`;
+};
 
 const paramToString = (v: any) => {
   if (Array.isArray(v)) return String(v[0] ?? '').trim();
   return String(v ?? '').trim();
 };
 
-// ✅ /api/finals/report が無い/死んでる時のフォールバック：clientから final_matches を安全に upsert
-async function upsertFinalMatchSafe(
-  db: any,
-  row: {
-    bracket_id: string;
-    round_no: number;
-    match_no: number;
-    winner_id: string | null;
-    loser_id: string | null;
-    winner_score: number | null;
-    loser_score: number | null;
-    reason: string; // normal/time_limit/forfeit
-    affects_rating?: boolean | null;
-    sets?: any;
-  }
-) {
-  // key列が match_no か match_index かを吸収
-  const tryFind = async (keyCol: 'match_no' | 'match_index') => {
-    const { data, error } = await (db.from('final_matches') as any)
-      .select('id')
-      .eq('bracket_id', row.bracket_id)
-      .eq('round_no', row.round_no)
-      .eq(keyCol, row.match_no)
-      .maybeSingle();
-    if (error) throw error;
-    return { id: data?.id ? String(data.id) : null, keyCol };
-  };
-
-  let found: { id: string | null; keyCol: 'match_no' | 'match_index' } = { id: null, keyCol: 'match_no' };
-  try {
-    found = await tryFind('match_no');
-  } catch (e: any) {
-    if (isMissingColumnError(e)) {
-      found = await tryFind('match_index');
-    } else {
-      throw e;
-    }
-  }
-
-  const basePayload: any = {
-    bracket_id: row.bracket_id,
-    round_no: row.round_no,
-    [found.keyCol]: row.match_no,
-    winner_id: row.winner_id,
-    loser_id: row.loser_id,
-    winner_score: row.winner_score,
-    loser_score: row.loser_score,
-    affects_rating: row.affects_rating ?? null,
-  };
-
-    const isSpecial = row.reason !== "normal";
-
-  const ratingSafeExtras: any = isSpecial
-    ? {
-        // ✅ CHECK制約対策：通常以外はレーティングに影響させない
-        affects_rating: false,
-
-        // 環境差分吸収：delta / change 両対応（無い列は後続で落とす）
-        winner_points_delta: 0,
-        loser_points_delta: 0,
-        winner_handicap_delta: 0,
-        loser_handicap_delta: 0,
-        winner_points_change: 0,
-        loser_points_change: 0,
-        winner_handicap_change: 0,
-        loser_handicap_change: 0,
-      }
-    : {};
-
-  const payloads: any[] = [
-    // まずは全部入りで当てる（列が無ければ missing column fallback）
-    { ...basePayload, end_reason: row.reason, sets: row.sets ?? null, ...ratingSafeExtras },
-    { ...basePayload, finish_reason: row.reason, sets: row.sets ?? null, ...ratingSafeExtras },
-
-    // 以降は段階的に落とす
-    { ...basePayload, end_reason: row.reason, ...ratingSafeExtras },
-    { ...basePayload, finish_reason: row.reason, ...ratingSafeExtras },
-
-    // affects_rating 等が無い環境もあるので、最後はそれも落とす
-    { ...basePayload, end_reason: row.reason, sets: row.sets ?? null },
-    { ...basePayload, finish_reason: row.reason, sets: row.sets ?? null },
-    { ...basePayload, end_reason: row.reason },
-    { ...basePayload, finish_reason: row.reason },
-    { ...basePayload, sets: row.sets ?? null },
-    { ...basePayload },
-  ];
-
-
-  const tryUpdate = async (id: string, payload: any) => {
-    const { error } = await (db.from('final_matches') as any).update(payload).eq('id', id);
-    if (error) throw error;
-  };
-
-  const tryInsert = async (payload: any) => {
-    const { error } = await (db.from('final_matches') as any).insert(payload);
-    if (error) throw error;
-  };
-
-  if (found.id) {
-    let lastErr: any = null;
-    for (const p of payloads) {
-      try {
-        await tryUpdate(found.id, p);
-        return;
-      } catch (e: any) {
-        lastErr = e;
-        if (isMissingColumnError(e)) continue;
-        throw e;
-      }
-    }
-    throw new Error(String(lastErr?.message || 'final_matches update failed'));
-  } else {
-    let lastErr: any = null;
-    for (const p of payloads) {
-      try {
-        await tryInsert(p);
-        return;
-      } catch (e: any) {
-        lastErr = e;
-        if (isMissingColumnError(e)) continue;
-        throw e;
-      }
-    }
-    throw new Error(String(lastErr?.message || 'final_matches insert failed'));
-  }
-}
-
 export default function AdminTournamentFinalsPage() {
   const router = useRouter();
   const params = useParams();
@@ -658,10 +473,13 @@ export default function AdminTournamentFinalsPage() {
   const [authz, setAuthz] = useState<'checking' | 'ok' | 'no'>('checking');
 
   const [bracket, setBracket] = useState<FinalBracket | null>(null);
-  const [entries, setEntries] = useState<FinalRoundEntry[]>([]);
-  const [matches, setMatches] = useState<FinalMatchRow[]>([]);
+  const [allEntries, setAllEntries] = useState<FinalRoundEntry[]>([]);
+  const [allMatches, setAllMatches] = useState<FinalMatchRow[]>([]);
   const [players, setPlayers] = useState<Record<string, Player>>({});
 
+  // ✅ 表示中の stage（勝者側 / 敗者側 / グランドファイナル / 3位決定戦）。枠・試合の一覧はこの stage で絞る
+  const [activeStage, setActiveStage] = useState<FinalStage>('main');
+
   const [leagueCandidates, setLeagueCandidates] = useState<LeagueCandidates | null>(null);
 
   const [loading, setLoading] = useState(true);
@@ -671,12 +489,18 @@ export default function AdminTournamentFinalsPage() {
 
   const [showCreate, setShowCreate] = useState(false);
   const [createTitle, setCreateTitle] = useState('決勝トーナメント');
+  const [createType, setCreateType] = useState<FinalBracketType>('single');
   const [creating, setCreating] = useState(false);
 
   const [winnerByBlock, setWinnerByBlock] = useState<Record<string, string>>({});
 
-  // ✅ 形式（1回/3回）を各試合ごとに保持
+  // ✅ シードのプレビュー / 上書き（player_id → 入力中のシード番号）
+  const [seedPreview, setSeedPreview] = useState<SeedingResult | null>(null);
+  const [seedOverrides, setSeedOverrides] = useState<Record<string, string>>({});
+
+  // ✅ 形式（1回 / N回）を各試合ごとに保持。N は大会の best_of
   const [formatByKey, setFormatByKey] = useState<Record<string, MatchFormat>>({});
+  const [bestOf, setBestOf] = useState(3);
 
   const storageKey = useMemo(
     () => (tournamentId ? `admin_finals_visible_round_max:${tournamentId}` : 'admin_finals_visible_round_max'),
@@ -781,6 +605,9 @@ export default function AdminTournamentFinalsPage() {
       });
       setPlayers(dict);
 
+      const { data: tRow } = await (db.from('tournaments') as any).select('best_of').eq('id', tournamentId).maybeSingle();
+      setBestOf(seriesBestOf(tRow?.best_of));
+
       const c = await loadLeagueCandidates(db, tournamentId);
       setLeagueCandidates(c);
 
@@ -795,23 +622,23 @@ export default function AdminTournamentFinalsPage() {
       }
 
       const { data: bRows, error: bErr } = await (db.from('final_brackets') as any)
-        .select('id,tournament_id,title,created_at')
+        .select('id,tournament_id,title,created_at,bracket_type,champion_player_id,placings')
         .eq('tournament_id', tournamentId)
         .order('created_at', { ascending: false });
 
       if (bErr) {
         setError('決勝トーナメントの取得に失敗しました');
         setBracket(null);
-        setEntries([]);
-        setMatches([]);
+        setAllEntries([]);
+        setAllMatches([]);
         setLoading(false);
         return;
       }
 
       if (!bRows || bRows.length === 0) {
         setBracket(null);
-        setEntries([]);
-        setMatches([]);
+        setAllEntries([]);
+        setAllMatches([]);
         setLoading(false);
         return;
       }
@@ -820,7 +647,7 @@ export default function AdminTournamentFinalsPage() {
       setBracket(b);
 
       const { data: eRows, error: eErr } = await (db.from('final_round_entries') as any)
-        .select('id,bracket_id,round_no,slot_no,player_id')
+        .select('id,bracket_id,stage,round_no,slot_no,player_id')
         .eq('bracket_id', b.id)
         .order('round_no', { ascending: true })
         .order('slot_no', { ascending: true });
@@ -831,7 +658,7 @@ export default function AdminTournamentFinalsPage() {
         return;
       }
       const es = (eRows ?? []) as FinalRoundEntry[];
-      setEntries(es);
+      setAllEntries(es);
 
       let ms: FinalMatchRow[] = [];
       try {
@@ -842,7 +669,7 @@ export default function AdminTournamentFinalsPage() {
         setLoading(false);
         return;
       }
-      setMatches(ms);
+      setAllMatches(ms);
 
       setLoading(false);
     } catch (e: any) {
@@ -852,6 +679,17 @@ export default function AdminTournamentFinalsPage() {
     }
   };
 
+  const bracketType = toBracketType(bracket?.bracket_type);
+  const stages = useMemo(() => stagesForBracketType(bracketType), [bracketType]);
+  const placings = useMemo(() => parsePlacings(bracket?.placings), [bracket?.placings]);
+
+  useEffect(() => {
+    if (!stages.includes(activeStage)) setActiveStage('main');
+  }, [stages, activeStage]);
+
+  const entries = useMemo(() => allEntries.filter((e) => toStage(e.stage) === activeStage), [allEntries, activeStage]);
+  const matches = useMemo(() => allMatches.filter((m) => toStage(m.stage) === activeStage), [allMatches, activeStage]);
+
   const entryMap = useMemo(() => {
     const map = new Map<string, FinalRoundEntry>();
     for (const e of entries) map.set(`${e.round_no}:${e.slot_no}`, e);
@@ -910,7 +748,8 @@ export default function AdminTournamentFinalsPage() {
     return max;
   }, [entries, matches]);
 
-  const visibleMaxRound = Math.max(structuralMaxRound, manualMaxRound ?? 0, 1);
+  // 手動で増やした表示ラウンド数は本戦（main）だけに効かせる
+  const visibleMaxRound = Math.max(structuralMaxRound, activeStage === 'main' ? (manualMaxRound ?? 0) : 0, 1);
   const visibleRounds = useMemo(() => Array.from({ length: visibleMaxRound }, (_, i) => i + 1), [visibleMaxRound]);
 
   const getMatchCountForRound = (roundNo: number) => {
@@ -956,27 +795,18 @@ export default function AdminTournamentFinalsPage() {
 
 
 
+  // ★ 前ラウンドが def 勝ちの選手と通常勝ち上がりが当たる → 通常側 +1勝（N 本勝負で固定）
   const computeAdvantage = (roundNo: number, pidA: string | null, pidB: string | null) => {
-    if (!pidA || !pidB) return { advA: 0, advB: 0, forcedBo3: false, aHadBye: false, bHadBye: false };
-    if (defIds.has(pidA) || defIds.has(pidB)) {
-      return { advA: 0, advB: 0, forcedBo3: false, aHadBye: false, bHadBye: false };
-    }
-
-   const aHadBye = hadDefByeInPrevRound(pidA, roundNo);
-const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
-
+    const none = { advantage: { a: 0, b: 0 }, forcedSeries: false, aHadBye: false, bHadBye: false };
+    if (!pidA || !pidB) return none;
+    if (defIds.has(pidA) || defIds.has(pidB)) return none;
 
+    const aHadBye = hadDefByeInPrevRound(pidA, roundNo);
+    const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
+    const advantage = defAdvantage(aHadBye, bHadBye);
 
-    let advA = 0;
-    let advB = 0;
-
-    if (aHadBye !== bHadBye) {
-      if (aHadBye) advB = 1;
-      if (bHadBye) advA = 1;
-    }
-
-    const forcedBo3 = advA > 0 || advB > 0;
-    return { advA, advB, forcedBo3, aHadBye, bHadBye };
+    const forcedSeries = advantage.a > 0 || advantage.b > 0;
+    return { advantage, forcedSeries, aHadBye, bHadBye };
   };
 
   const formatPlayerOption = (p: Player) => {
@@ -991,6 +821,21 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     return Array.from(new Set(ids.map(String)));
   }, [leagueCandidates, winnerByBlock]);
 
+  const nomineesKey = nominees.join(',');
+  useEffect(() => {
+    setSeedPreview(null);
+    setSeedOverrides({});
+  }, [nomineesKey]);
+
+  const seedOverridePayload = () => {
+    const out: Record<string, number> = {};
+    for (const [pid, v] of Object.entries(seedOverrides)) {
+      const n = parseInt(String(v ?? '').trim(), 10);
+      if (nominees.includes(pid) && Number.isFinite(n) && n > 0) out[pid] = n;
+    }
+    return out;
+  };
+
   const duplicateWarn = useMemo(() => {
     if (!leagueCandidates?.blocks?.length) return null;
     const picked = leagueCandidates.blocks.map((b) => winnerByBlock[b.block_id]).filter(Boolean);
@@ -1023,6 +868,29 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     });
   };
 
+  const handlePreviewSeeding = async () => {
+    setError(null);
+    setMessage(null);
+    if (nominees.length < 2) {
+      setError('勝者が2ブロック以上必要です');
+      return;
+    }
+
+    setSavingKey('seeding');
+    try {
+      const j = await callFinalsApi('/api/admin/finals/seeding', 'POST', {
+        tournament_id: tournamentId,
+        nominees,
+        seeds: seedOverridePayload(),
+      });
+      setSeedPreview((j?.seeding ?? null) as SeedingResult | null);
+    } catch (e: any) {
+      setError(`シードの計算に失敗しました: ${e?.message || 'エラー'}`);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
   const handleCreateBracket = async () => {
     setError(null);
     setMessage(null);
@@ -1048,44 +916,24 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     setCreating(true);
 
     try {
-      const res = await fetch(`/api/tournaments/${tournamentId}/league/finals`, {
-        method: 'POST',
-        credentials: 'include',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: createTitle,
-          nominees,
-        }),
+      const j = await callFinalsApi('/api/admin/finals', 'POST', {
+        tournament_id: tournamentId,
+        title: createTitle,
+        nominees,
+        seeds: seedOverridePayload(),
+        bracket_type: createType,
       });
 
-      const j = await res.json().catch(() => null);
-      if (!res.ok || j?.ok === false) throw new Error(j?.message || `HTTP ${res.status}`);
-
-      let newBracketId = String(j?.bracket_id ?? j?.bracketId ?? '').trim();
-
-      if (!newBracketId) {
-        const rb = await (db.from('final_brackets') as any)
-          .select('id')
-          .eq('tournament_id', tournamentId)
-          .order('created_at', { ascending: false })
-          .limit(1);
-        if (!rb?.error && Array.isArray(rb?.data) && rb.data[0]?.id) newBracketId = String(rb.data[0].id);
-      }
-
-      if (newBracketId) {
-        try {
-          await deleteFinalRoundsFrom(db, newBracketId, 2); // R1だけ残す
-          setManualMaxRoundAndPersist(1);
-        } catch (e) {
-          console.warn('[admin/finals] trim to R1 failed:', e);
-        }
-      }
+      // ✅ 作成は R1 の枠のみ（R2以降は結果保存で勝者が自動配置）
+      setManualMaxRoundAndPersist(1);
 
       const padded = Number(j?.padded_count ?? 0);
       const baseMsg =
         padded > 0 ? `決勝トーナメントを作成しました（defを${padded}枠自動追加）` : '決勝トーナメントを作成しました';
-      setMessage(`${baseMsg} / R2以降は手動追加のため削除しました`);
+      setMessage(`${baseMsg} / R2以降は結果を保存すると自動で埋まります`);
+      setActiveStage('main');
       setShowCreate(false);
+      setSeedPreview(null);
 
       await loadAll();
     } catch (e: any) {
@@ -1102,14 +950,12 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     setSavingKey(`entry:${entry.id}`);
 
     try {
-      const next = nextPlayerId ? nextPlayerId : null;
-
-      const { error } = await (db.from('final_round_entries') as any).update({ player_id: next } as any).eq('id', entry.id);
-      if (error) throw new Error(error.message);
-
-      if (bracket?.id) {
-        await clearFinalMatchesFromRound(db, bracket.id, entry.round_no);
-      }
+      await callFinalsApi(`/api/admin/finals/${entry.bracket_id}/slots`, 'POST', {
+        stage: toStage(entry.stage),
+        round_no: entry.round_no,
+        slot_no: entry.slot_no,
+        player_id: nextPlayerId || null,
+      });
 
       setMessage('枠を更新しました（このラウンド以降の試合結果をクリアしました）');
       await loadAll();
@@ -1130,20 +976,22 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     const key = `delete:${fromRound}`;
     setSavingKey(key);
 
+    const label = `${stageLabel(activeStage, bracketType)} ${stageRoundLabel(activeStage, fromRound)}`;
+
     try {
       const ok = window.confirm(
-        `R${fromRound}以降のラウンドを削除します。\n（R${fromRound}以降の枠と試合結果が削除されます）\n\n本当に削除しますか？`
+        `${label}以降のラウンドを削除します。\n（${label}以降の枠と試合結果が削除されます）\n\n本当に削除しますか？`
       );
       if (!ok) {
         setSavingKey(null);
         return;
       }
 
-      await deleteFinalRoundsFrom(db, bracket.id, fromRound);
+      await callFinalsApi(`/api/admin/finals/${bracket.id}/rounds?from_round=${fromRound}&stage=${activeStage}`, 'DELETE');
 
-      if ((manualMaxRound ?? 0) >= fromRound) setManualMaxRoundAndPersist(Math.max(fromRound - 1, 0));
+      if (activeStage === 'main' && (manualMaxRound ?? 0) >= fromRound) setManualMaxRoundAndPersist(Math.max(fromRound - 1, 0));
 
-      setMessage(`R${fromRound}以降のラウンドを削除しました`);
+      setMessage(`${label}以降のラウンドを削除しました`);
       await loadAll();
     } catch (e: any) {
       console.error('[admin/finals] delete rounds error:', e);
@@ -1161,20 +1009,13 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
     setSavingKey(key);
 
     try {
-      const currentMax = entries.filter((e) => e.round_no === roundNo).reduce((mx, e) => Math.max(mx, e.slot_no), 0);
-      const rows = Array.from({ length: addCount }).map((_, i) => ({
-        bracket_id: bracket.id,
+      await callFinalsApi(`/api/admin/finals/${bracket.id}/rounds`, 'POST', {
+        stage: activeStage,
         round_no: roundNo,
-        slot_no: currentMax + i + 1,
-        player_id: null,
-      }));
-
-      const { error: insErr } = await (db.from('final_round_entries') as any).insert(rows as any);
-      if (insErr) throw new Error(insErr.message);
-
-      await clearFinalMatchesFromRound(db, bracket.id, roundNo);
+        count: addCount,
+      });
 
-      setMessage(`R${roundNo}に枠を追加しました（以降の試合結果をクリア）`);
+      setMessage(`${stageRoundLabel(activeStage, roundNo)}に枠を追加しました（以降の試合結果をクリア）`);
       await loadAll();
     } catch (e: any) {
       console.error('[admin/finals] add slots error:', e);
@@ -1186,7 +1027,7 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
 
   const handleAddRound = async () => {
     const next = visibleMaxRound + 1;
-    setManualMaxRoundAndPersist(next);
+    if (activeStage === 'main') setManualMaxRoundAndPersist(next);
     await handleAddSlots(next, 2);
   };
 
@@ -1207,20 +1048,20 @@ const bHadBye = hadDefByeInPrevRound(pidB, roundNo);
           const pidA = entryMap.get(`${r}:${slotA}`)?.player_id ?? null;
           const pidB = entryMap.get(`${r}:${slotB}`)?.player_id ?? null;
 
-          const { forcedBo3 } = computeAdvantage(r, pidA, pidB);
+          const { forcedSeries } = computeAdvantage(r, pidA, pidB);
 
-          const key = `${r}:${matchNo}`;
+          const key = `${activeStage}:${r}:${matchNo}`;
           if (next[key]) continue;
 
           const m = matchByRoundMatch.get(`${r}:${matchNo}`) ?? null;
-          next[key] = inferFormatFromMatch(m, forcedBo3);
+          next[key] = inferFormatFromMatch(m, forcedSeries, bestOf);
         }
       }
 
       return next;
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [bracket?.id, visibleRounds, entries, matches, players]);
+  }, [bracket?.id, activeStage, visibleRounds, entries, matches, players, bestOf]);
 
   const handleReportSingle = async (
     e: FormEvent<HTMLFormElement>,
@@ -1276,38 +1117,20 @@ setSavingKey(saveKey);
 const setsPayload = null;
 
 try {
-      // まずはAPI（既存運用を維持）
-      try {
-        await postFinalReport({
-          bracket_id: bracket.id,
-          round_no: roundNo,
-          match_no: matchNo,
-          winner_id,
-          loser_id,
-          winner_score,
-          loser_score,
-          end_reason,
-          affects_rating,
-          sets: setsPayload,
-        });
-      } catch (apiErr: any) {
-        // APIが無い/落ちる場合はフォールバック
-        console.warn('[admin/finals] report(single) api failed -> fallback', apiErr);
-        await upsertFinalMatchSafe(db, {
-          bracket_id: bracket.id,
-          round_no: roundNo,
-          match_no: matchNo,
-          winner_id,
-          loser_id,
-          winner_score,
-          loser_score,
-          reason: end_reason,
-          affects_rating,
-          sets: setsPayload,
-        });
-      }
+      const saved = await callFinalsApi(`/api/admin/finals/${bracket.id}/report`, 'POST', {
+        stage: activeStage,
+        round_no: roundNo,
+        match_no: matchNo,
+        winner_id,
+        loser_id,
+        winner_score,
+        loser_score,
+        end_reason,
+        affects_rating,
+        sets: setsPayload,
+      });
 
-      setMessage('保存しました');
+      setMessage(reportSavedMessage(saved));
       await loadAll();
     } catch (e2: any) {
       console.error('[admin/finals] report(single) error:', e2);
@@ -1317,14 +1140,14 @@ try {
     }
   };
 
-  const handleReportBestOf3 = async (
+  const handleReportSeries = async (
     e: FormEvent<HTMLFormElement>,
     roundNo: number,
     matchNo: number,
     pidA: string | null,
     pidB: string | null,
-    advA: number,
-    advB: number
+    matchBestOf: number,
+    advantage: SeriesAdvantage
   ) => {
     e.preventDefault();
     setError(null);
@@ -1345,91 +1168,60 @@ try {
       .toLowerCase();
     const affects_rating = end_reason === 'normal';
 
-
-    const s1a = clampInt((form.elements.namedItem('set1_a') as HTMLInputElement)?.value, 0, 99, -1);
-    const s1b = clampInt((form.elements.namedItem('set1_b') as HTMLInputElement)?.value, 0, 99, -1);
-    const s2a = clampInt((form.elements.namedItem('set2_a') as HTMLInputElement)?.value, 0, 99, -1);
-    const s2b = clampInt((form.elements.namedItem('set2_b') as HTMLInputElement)?.value, 0, 99, -1);
-    const s3a = clampInt((form.elements.namedItem('set3_a') as HTMLInputElement)?.value, 0, 99, -1);
-    const s3b = clampInt((form.elements.namedItem('set3_b') as HTMLInputElement)?.value, 0, 99, -1);
-
-    const games: Array<{ a: number | null; b: number | null }> = [
-      { a: s1a < 0 ? null : s1a, b: s1b < 0 ? null : s1b },
-      { a: s2a < 0 ? null : s2a, b: s2b < 0 ? null : s2b },
-      { a: s3a < 0 ? null : s3a, b: s3b < 0 ? null : s3b },
-    ];
+    const readScore = (name: string) => {
+      const v = clampInt((form.elements.namedItem(name) as HTMLInputElement)?.value, 0, 99, -1);
+      return v < 0 ? null : v;
+    };
+    const games: SeriesGame[] = Array.from({ length: playableGames(matchBestOf, advantage) }, (_, i) => ({
+      a: readScore(`game${i + 1}_a`),
+      b: readScore(`game${i + 1}_b`),
+    }));
 
     const manualWinner = String((form.elements.namedItem('winner_id') as HTMLSelectElement)?.value || '').trim();
-
-    const win = calcBo3Wins(pidA, pidB, games, advA, advB);
-
-    let winner_id = win.winner_id;
-    let loser_id = win.loser_id;
-
-    if (!winner_id && manualWinner) {
-      if (manualWinner !== pidA && manualWinner !== pidB) {
-        setError('勝者が不正です');
-        return;
-      }
-      if (win.totalA < 2 && win.totalB < 2) {
-        setError('勝者を確定できません（セット結果が不足）。少なくともどちらかが2勝に到達するよう入力してください。');
-        return;
-      }
-      winner_id = manualWinner;
-      loser_id = manualWinner === pidA ? pidB : pidA;
+    if (manualWinner && manualWinner !== pidA && manualWinner !== pidB) {
+      setError('勝者が不正です');
+      return;
     }
 
-    if (!winner_id || !loser_id) {
-      setError('勝者を確定できません（セット結果が不足）。');
+    // ✅ 勝敗は試合結果から判定（時間切れ / 棄権だけは勝ち数が足りなくても手動の勝者で確定できる）
+    const check = validateSeries({
+      bestOf: matchBestOf,
+      games,
+      advantage,
+      winner: manualWinner ? (manualWinner === pidA ? 'a' : 'b') : null,
+      allowIncomplete: end_reason !== 'normal',
+    });
+    if (check.ok === false) {
+      setError(check.message);
       return;
     }
 
-    const winner_score = winner_id === pidA ? win.totalA : win.totalB;
-    const loser_score = winner_id === pidA ? win.totalB : win.totalA;
+    const winner_id = check.winner === 'a' ? pidA : pidB;
+    const loser_id = check.winner === 'a' ? pidB : pidA;
+    const winner_score = check.winner === 'a' ? check.score.totalA : check.score.totalB;
+    const loser_score = check.winner === 'a' ? check.score.totalB : check.score.totalA;
 
     const saveKey = `match:${roundNo}:${matchNo}`;
     setSavingKey(saveKey);
 
     try {
-      const setsPayload = {
-        format: 'bo3',
-        advantage: { a: advA, b: advB },
-        games,
-      };
-
-      try {
-        await postFinalReport({
-          bracket_id: bracket.id,
-          round_no: roundNo,
-          match_no: matchNo,
-          winner_id,
-          loser_id,
-          winner_score,
-          loser_score,
-          end_reason,
-          affects_rating,
-          sets: setsPayload,
-        });
-      } catch (apiErr: any) {
-        console.warn('[admin/finals] report(bo3) api failed -> fallback', apiErr);
-        await upsertFinalMatchSafe(db, {
-          bracket_id: bracket.id,
-          round_no: roundNo,
-          match_no: matchNo,
-          winner_id,
-          loser_id,
-          winner_score,
-          loser_score,
-          reason: end_reason,
-          affects_rating,
-          sets: setsPayload,
-        });
-      }
+      const saved = await callFinalsApi(`/api/admin/finals/${bracket.id}/report`, 'POST', {
+        stage: activeStage,
+        round_no: roundNo,
+        match_no: matchNo,
+        winner_id,
+        loser_id,
+        winner_score,
+        loser_score,
+        end_reason,
+        affects_rating,
+        sets: buildSeriesSets(matchBestOf, advantage, games),
+      });
 
-      setMessage('保存しました');
+      setMessage(reportSavedMessage(saved));
       await loadAll();
     } catch (e2: any) {
-      console.error('[admin/finals] report(bo3) error:', e2);
+      console.error('[admin/finals] report(series) error:', e2);
       setError(`保存に失敗しました: ${e2?.message || 'エラー'}`);
     } finally {
       setSavingKey(null);
@@ -1459,11 +1251,14 @@ try {
               <h1 className="text-2xl md:text-3xl font-bold">決勝トーナメント管理</h1>
               <div className="text-sm text-gray-300 mt-1">
                 {bracket?.title ?? '（未作成）'}
+                {bracket && <span className="ml-2 text-xs text-purple-200">{BRACKET_TYPE_LABEL[bracketType]}</span>}
                 <span className="ml-2 text-xs text-gray-400">（大会ID: {tournamentId}）</span>
               </div>
               <div className="text-[11px] text-gray-400 mt-1">
                 ✅ 基本は3回勝負（2勝先取）。試合ごとに「1回勝負」も選択できます。<br />
-                ✅ 過去に def 勝ち上がりした選手と当たる場合は、通常勝ち上がり側に「+1勝」アドバンテージがつき、3回勝負固定になります。
+                ✅ 過去に def 勝ち上がりした選手と当たる場合は、通常勝ち上がり側に「+1勝」アドバンテージがつき、3回勝負固定になります。<br />
+                ✅ 結果を保存すると勝者は次ラウンドの枠へ自動で入ります（勝者を変えると以降の枠・結果はクリア）。<br />
+                ✅ 3位決定戦 / ダブルエリミネーションでは敗者も 3位決定戦・敗者側の枠へ自動で入ります。
               </div>
             </div>
           </div>
@@ -1506,7 +1301,7 @@ try {
               </div>
             </div>
 
-            <div className="grid md:grid-cols-2 gap-3 mb-3">
+            <div className="grid md:grid-cols-3 gap-3 mb-3">
               <div className="space-y-1">
                 <div className="text-xs text-gray-300">タイトル（任意）</div>
                 <input
@@ -1517,6 +1312,28 @@ try {
                 />
               </div>
 
+              <div className="space-y-1">
+                <div className="text-xs text-gray-300">形式</div>
+                <select
+                  value={createType}
+                  onChange={(e) => setCreateType(e.target.value as FinalBracketType)}
+                  className="w-full px-3 py-2 rounded border border-purple-500/40 bg-gray-900/80 text-sm"
+                >
+                  {FINAL_BRACKET_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {BRACKET_TYPE_LABEL[t]}
+                    </option>
+                  ))}
+                </select>
+                {createType !== 'single' && (
+                  <div className="text-[11px] text-gray-400">
+                    {createType === 'double'
+                      ? '※ 2敗で敗退。GF で敗者側の勝者が勝つとリセットマッチを行います（4枠以上）'
+                      : '※ 準決勝の敗者 2 人で 3位決定戦を行います（4枠以上）'}
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-1">
                 <div className="text-xs text-gray-300">取得元</div>
                 <div className="w-full px-3 py-2 rounded border border-white/10 bg-black/20 text-sm text-gray-200">
@@ -1543,18 +1360,80 @@ try {
                 勝者を「先頭」に戻す
               </button>
 
-              <button
-                type="button"
-                disabled={creating || !allBlocksChosen || !!duplicateWarn || nominees.length < 2 || savingKey === 'create'}
-                onClick={handleCreateBracket}
-                className="px-4 py-2 rounded bg-purple-600 text-white text-xs md:text-sm disabled:opacity-50"
-              >
-                {savingKey === 'create' ? '作成中...' : '作成する'}
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={!allBlocksChosen || !!duplicateWarn || nominees.length < 2 || savingKey === 'seeding'}
+                  onClick={handlePreviewSeeding}
+                  className="px-4 py-2 rounded border border-purple-500/60 text-purple-200 text-xs md:text-sm disabled:opacity-50"
+                >
+                  {savingKey === 'seeding' ? '計算中...' : seedPreview ? 'シードを再計算' : 'シードをプレビュー'}
+                </button>
+                <button
+                  type="button"
+                  disabled={creating || !allBlocksChosen || !!duplicateWarn || nominees.length < 2 || savingKey === 'create'}
+                  onClick={handleCreateBracket}
+                  className="px-4 py-2 rounded bg-purple-600 text-white text-xs md:text-sm disabled:opacity-50"
+                >
+                  {savingKey === 'create' ? '作成中...' : '作成する'}
+                </button>
+              </div>
             </div>
 
+            {seedPreview && (
+              <div className="mb-4 rounded-2xl border border-purple-500/30 bg-black/20 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <div className="text-sm font-bold">R1 の組み合わせ（{seedPreview.size}枠）</div>
+                  <div className="text-[11px] text-gray-400">
+                    同ブロック対戦の可能性：
+                    {seedPreview.block_conflicts.map((n, i) => (
+                      <span key={i} className={`ml-2 ${n > 0 && i < seedPreview.block_conflicts.length - 1 ? 'text-amber-300' : ''}`}>
+                        R{i + 1}: {n}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-[11px] text-gray-400 mb-3">
+                  ※ シード番号を入力して「シードを再計算」で上書きできます（空欄は自動）。作成時も同じ上書きが使われます。
+                </div>
+                <div className="grid md:grid-cols-2 gap-2">
+                  {Array.from({ length: seedPreview.size / 2 }, (_, i) => seedPreview.slots.slice(i * 2, i * 2 + 2)).map((pair, i) => (
+                    <div key={i} className="rounded-xl border border-white/10 bg-black/30 p-2 space-y-1">
+                      <div className="text-[11px] text-gray-400">第{i + 1}試合</div>
+                      {pair.map((slot) => {
+                        const ent = seedPreview.entrants.find((x) => x.player_id === slot.player_id) ?? null;
+                        return (
+                          <div key={slot.slot_no} className="flex items-center gap-2 text-sm">
+                            <span className="w-8 text-right text-xs text-yellow-200">#{slot.seed}</span>
+                            <span className="flex-1 truncate">
+                              {ent ? ent.handle_name ?? players[ent.player_id]?.handle_name ?? '未設定' : 'def（不戦勝）'}
+                              {ent?.block_label && <span className="ml-2 text-[11px] text-gray-400">{ent.block_label}</span>}
+                            </span>
+                            {ent && (
+                              <>
+                                <span className="text-[10px] text-gray-400">{SEED_SOURCE_LABEL[ent.seed_source]}</span>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={seedPreview.entrants.length}
+                                  value={seedOverrides[ent.player_id] ?? ''}
+                                  onChange={(e) => setSeedOverrides((prev) => ({ ...prev, [ent.player_id]: e.target.value }))}
+                                  placeholder={String(ent.seed)}
+                                  className="w-14 px-2 py-1 rounded border border-purple-500/40 bg-gray-900/80 text-xs"
+                                />
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="text-xs text-gray-300 mb-2">
-              ※ 候補は「各ブロック勝者のみ」です。不足分は <b>作成APIが def を自動補完</b>します。
+              ※ 候補は「各ブロック勝者のみ」です。並びはシード順（エントリーのシード → リーグ順位 → RP）で自動決定し、不足分は <b>作成APIが def を自動補完</b>します。
             </div>
 
             {!leagueCandidates?.blocks?.length ? (
@@ -1657,12 +1536,60 @@ try {
           <div className="text-gray-300">決勝トーナメントが未作成です。上の「決勝を新規作成」から作成してください。</div>
         ) : (
           <div className="space-y-8">
+            {/* stage / placings */}
+            {(stages.length > 1 || placings.length > 0) && (
+              <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-4 md:p-6 space-y-4">
+                {stages.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {stages.map((st) => (
+                      <button
+                        key={st}
+                        type="button"
+                        onClick={() => setActiveStage(st)}
+                        className={[
+                          'px-3 py-1 rounded-full border text-xs md:text-sm',
+                          st === activeStage
+                            ? 'border-purple-400/70 bg-purple-600/40 text-white'
+                            : 'border-white/15 bg-black/20 text-gray-300',
+                        ].join(' ')}
+                      >
+                        {stageLabel(st, bracketType)}
+                        <span className="ml-1 text-[11px] text-gray-400">
+                          ({allMatches.filter((m) => toStage(m.stage) === st && m.winner_id).length})
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {placings.length > 0 && (
+                  <div>
+                    <div className="text-xs text-gray-300 mb-2">順位</div>
+                    <div className="flex flex-wrap gap-2">
+                      {placings.map((pl) => (
+                        <div
+                          key={`${pl.place}:${pl.player_id}`}
+                          className={`px-3 py-1 rounded-xl border text-sm ${
+                            pl.place === 1 ? 'border-yellow-400/60 bg-yellow-500/10 text-yellow-100' : 'border-white/10 bg-black/30'
+                          }`}
+                        >
+                          <span className="mr-2 text-xs text-gray-300">{pl.place}位</span>
+                          {players[pl.player_id]?.handle_name ?? '未設定'}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* entries */}
             <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-4 md:p-6">
               <div className="flex items-center justify-between gap-3 mb-4">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                   <FaTrophy className="text-yellow-300" />
                   参加者枠（ラウンドごと）
+                  {stages.length > 1 && <span className="text-sm text-purple-200">{stageLabel(activeStage, bracketType)}</span>}
                 </h2>
 
                 <div className="flex items-center gap-3 text-xs">
@@ -1691,9 +1618,9 @@ try {
                     .sort((a, b) => a.slot_no - b.slot_no);
 
                   return (
-                    <div key={`round-entries-${r}`} className="rounded-2xl border border-white/10 bg-black/20 p-4">
+                    <div key={`round-entries-${activeStage}-${r}`} className="rounded-2xl border border-white/10 bg-black/20 p-4">
                       <div className="flex items-center justify-between mb-3">
-                        <div className="text-sm font-bold">R{r}</div>
+                        <div className="text-sm font-bold">{stageRoundLabel(activeStage, r)}</div>
                         <button
                           type="button"
                           onClick={() => handleAddSlots(r, 2)}
@@ -1714,7 +1641,7 @@ try {
                             return (
                               <div key={e.id} className="rounded-xl border border-white/10 bg-black/30 p-3">
                                 <div className="text-xs text-gray-300 mb-2">
-                                  R{e.round_no} / 枠{e.slot_no}
+                                  {stageRoundLabel(activeStage, e.round_no)} / 枠{e.slot_no}
                                 </div>
 
                                 <div className="flex items-center gap-2 mb-2">
@@ -1750,7 +1677,7 @@ try {
                                 </select>
 
                                 <div className="mt-2 text-[11px] text-gray-400">
-                                  ※ 枠を変更すると R{e.round_no} 以降の試合結果は自動クリアされます（取り残し防止）
+                                  ※ 枠を変更すると {stageRoundLabel(activeStage, e.round_no)} 以降の試合結果は自動クリアされます（取り残し防止）
                                 </div>
                               </div>
                             );
@@ -1768,6 +1695,7 @@ try {
               <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
                 <FaTrophy className="text-yellow-300" />
                 試合結果入力（形式選択対応）
+                {stages.length > 1 && <span className="text-sm text-purple-200">{stageLabel(activeStage, bracketType)}</span>}
               </h2>
 
               <div className="text-xs text-gray-300 mb-3 space-y-1">
@@ -1780,9 +1708,9 @@ try {
                 const matchCount = getMatchCountForRound(r);
 
                 return (
-                  <div key={`round-input-${r}`} className="mb-6">
+                  <div key={`round-input-${activeStage}-${r}`} className="mb-6">
                     <div className="flex items-center justify-between mb-2">
-                      <div className="text-sm font-bold">R{r}</div>
+                      <div className="text-sm font-bold">{stageRoundLabel(activeStage, r)}</div>
                       <button
                         type="button"
                         onClick={() => handleDeleteFromRound(r)}
@@ -1823,21 +1751,22 @@ try {
                             const reason = m ? normalizeReason(m) : 'normal';
 
                             const adv = computeAdvantage(r, pidA, pidB);
-                            const forcedBo3 = adv.forcedBo3;
+                            const forcedSeries = adv.forcedSeries;
+                            const setsParsed = parseSetsMeta(m?.sets);
+                            // 保存済みの試合は保存時の N で表示（大会の best_of を後から変えても崩れない）
+                            const matchBestOf = setsParsed.bestOf ?? bestOf;
 
-                            const key = `${r}:${matchNo}`;
-                            const fmt = forcedBo3 ? 'bo3' : (formatByKey[key] ?? inferFormatFromMatch(m, forcedBo3));
+                            const key = `${activeStage}:${r}:${matchNo}`;
+                            const fmt = forcedSeries ? 'series' : (formatByKey[key] ?? inferFormatFromMatch(m, forcedSeries, bestOf));
 
                             let currentResult = '未入力';
                             if (m?.winner_id && m?.loser_id) {
-                              if (fmt === 'bo3') {
-                                const meta = parseSetsMeta(m.sets);
-                                const g = meta.games.length ? meta.games : [];
+                              if (fmt === 'series') {
                                 const wName = players[m.winner_id]?.handle_name ?? '勝者';
                                 const lName = players[m.loser_id]?.handle_name ?? '敗者';
                                 currentResult = `${wName} ${m.winner_score ?? '-'}-${m.loser_score ?? '-'} ${lName}`;
                                 if (!m.winner_score && pidA && pidB) {
-                                  const x = calcBo3Wins(pidA, pidB, g, meta.advantageA, meta.advantageB);
+                                  const x = computeSeries(matchBestOf, setsParsed.games, setsParsed.advantage);
                                   currentResult = `${wName} ${m.winner_score ?? (m.winner_id === pidA ? x.totalA : x.totalB)}-${m.loser_score ?? (m.loser_id === pidA ? x.totalA : x.totalB)} ${lName}`;
                                 }
                               } else {
@@ -1847,8 +1776,8 @@ try {
                               }
                             }
 
-                            const setsParsed = parseSetsMeta(m?.sets);
                             const existingGames = setsParsed.games;
+                            const advText = adv.advantage.a ? `${aName}+1勝` : adv.advantage.b ? `${bName}+1勝` : '';
 
                             const getSetDefault = (i: number, side: 'a' | 'b') => {
                               const v = existingGames?.[i]?.[side];
@@ -1856,7 +1785,7 @@ try {
                             };
 
                             return (
-                              <tr key={`r${r}-m${matchNo}`}>
+                              <tr key={`${activeStage}-r${r}-m${matchNo}`}>
                                 <td className="border px-2 py-2 align-top">
                                   <div className="flex flex-col">
                                     <span>{aName}</span>
@@ -1864,30 +1793,26 @@ try {
                                     <span>{bName}</span>
                                   </div>
                                   <div className="text-[11px] text-gray-400 mt-1">
-                                    R{r} M{matchNo}
+                                    {stageRoundLabel(activeStage, r)} M{matchNo}
                                   </div>
-                                  {forcedBo3 ? (
-                                    <div className="mt-1 text-[11px] text-amber-200">
-                                      Adv: {adv.advA ? `${aName}+1勝` : adv.advB ? `${bName}+1勝` : ''}
-                                    </div>
-                                  ) : null}
+                                  {forcedSeries ? <div className="mt-1 text-[11px] text-amber-200">Adv: {advText}</div> : null}
                                 </td>
 
                                 <td className="border px-2 py-2 align-top">
                                   <div className="text-[11px] text-gray-300 mb-1">形式</div>
                                   <select
                                     value={fmt}
-                                    disabled={forcedBo3}
+                                    disabled={forcedSeries}
                                     onChange={(e) => {
                                       const v = e.target.value as MatchFormat;
                                       setFormatByKey((prev) => ({ ...prev, [key]: v }));
                                     }}
                                     className="px-2 py-1 rounded border border-purple-500/40 bg-gray-900/80 text-xs disabled:opacity-60"
                                   >
-                                    <option value="bo3">3回勝負（2勝先取）</option>
+                                    <option value="series">{seriesLabel(matchBestOf)}</option>
                                     <option value="single">1回勝負</option>
                                   </select>
-                                  {forcedBo3 ? (
+                                  {forcedSeries ? (
                                     <div className="mt-1 text-[11px] text-gray-400">※ def勝ち上がり絡みのため固定</div>
                                   ) : null}
                                 </td>
@@ -1906,9 +1831,9 @@ try {
                                 </td>
 
                                 <td className="border px-2 py-2 align-top">
-                                  {fmt === 'bo3' ? (
+                                  {fmt === 'series' ? (
                                     <form
-                                      onSubmit={(e) => handleReportBestOf3(e, r, matchNo, pidA, pidB, adv.advA, adv.advB)}
+                                      onSubmit={(e) => handleReportSeries(e, r, matchNo, pidA, pidB, matchBestOf, adv.advantage)}
                                       className="space-y-2"
                                     >
                                       <div className="flex flex-wrap gap-2 items-center">
@@ -1934,24 +1859,25 @@ try {
                                           {pidB && <option value={pidB}>{bName}</option>}
                                         </select>
 
-                                        <div className="text-[11px] text-gray-400">※基本はSet結果から自動判定</div>
+                                        <div className="text-[11px] text-gray-400">※基本は試合結果から自動判定</div>
                                       </div>
 
-                                      {forcedBo3 ? (
+                                      {forcedSeries ? (
                                         <div className="text-[11px] text-amber-200">
                                           この試合は Adv 付きです：
-                                          {adv.advA ? ` ${aName} が +1勝スタート` : ''}
-                                          {adv.advB ? ` ${bName} が +1勝スタート` : ''}
-                                          （+1勝側が1回勝てば 2勝到達で確定）
+                                          {adv.advantage.a ? ` ${aName} が +1勝スタート` : ''}
+                                          {adv.advantage.b ? ` ${bName} が +1勝スタート` : ''}
+                                          （第1試合は DEF 勝ち扱い。{winsNeeded(matchBestOf)}勝到達で確定）
                                         </div>
                                       ) : null}
 
                                       <div className="grid gap-2 md:grid-cols-3">
-                                        {[
-                                          { label: 'Set1', a: 'set1_a', b: 'set1_b', i: 0 },
-                                          { label: 'Set2', a: 'set2_a', b: 'set2_b', i: 1 },
-                                          { label: 'Set3', a: 'set3_a', b: 'set3_b', i: 2 },
-                                        ].map((s) => (
+                                        {Array.from({ length: playableGames(matchBestOf, adv.advantage) }, (_, i) => ({
+                                          label: `Set${i + 1 + adv.advantage.a + adv.advantage.b}`,
+                                          a: `game${i + 1}_a`,
+                                          b: `game${i + 1}_b`,
+                                          i,
+                                        })).map((s) => (
                                           <div key={s.label} className="rounded-xl border border-white/10 bg-black/30 p-2">
                                             <div className="text-[11px] text-gray-300 mb-1">{s.label}</div>
                                             <div className="flex items-center gap-2">
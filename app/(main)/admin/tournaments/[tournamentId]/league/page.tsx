@@ -6,6 +6,15 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import { generateRoundRobin } from '@/lib/league/schedule';
+import { DRAFT_ORDER_LABELS, findTeamConflicts, type DraftOrderBy } from '@/lib/league/draft';
+import {
+  LEAGUE_TIEBREAKERS,
+  TIEBREAKER_LABELS,
+  isLeagueTiebreaker,
+  parseTiebreakers,
+  type LeagueTiebreaker,
+} from '@/lib/league/standings';
 
 const supabase = createClient();
 // ✅ Supabase 型推論が "never" に崩れる環境があるので、このページ内は any 経由で安全に扱う
@@ -30,9 +39,24 @@ type PlayerOption = {
   handle_name: string | null;
 };
 
+// 自動振り分けの案（/api/admin/tournaments/[tournamentId]/league-draft の戻り）
+type DraftPreviewPlayer = {
+  id: string;
+  handle_name: string | null;
+  ranking_points: number | null;
+  handicap: number | null;
+  team_ids: string[];
+};
+
+type DraftPreviewBlock = {
+  label: string;
+  players: DraftPreviewPlayer[];
+};
+
 type TournamentInfo = {
   id: string;
   name: string | null;
+  league_tiebreakers?: unknown;
 };
 
 // ===== Helper: schema差分に強くする =====
@@ -302,6 +326,7 @@ export default function AdminTournamentLeaguePage() {
   const [busyBlock, setBusyBlock] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [resetting, setResetting] = useState(false); // ✅追加：全削除処理中
+  const [regenBlock, setRegenBlock] = useState<string | null>(null); // ✅ 日程の作り直し中
 
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
@@ -311,6 +336,25 @@ export default function AdminTournamentLeaguePage() {
   const [p1, setP1] = useState('');
   const [p2, setP2] = useState('');
   const [p3, setP3] = useState('');
+  const [createDouble, setCreateDouble] = useState(false); // ✅ 2巡（ダブル総当たり）
+
+  // ブロックごとの「2巡で作り直す」指定
+  const [regenDouble, setRegenDouble] = useState<Record<string, boolean>>({});
+
+  // ✅ 順位の決め方（タイブレークの順番。大会ごと）
+  const [tiebreakers, setTiebreakers] = useState<LeagueTiebreaker[]>(() => parseTiebreakers(null));
+  const [savingTiebreakers, setSavingTiebreakers] = useState(false);
+
+  // ✅ ブロック自動作成（スネークドラフト → 確認・手直し → 一括作成）
+  const [autoPicked, setAutoPicked] = useState<Record<string, boolean>>({});
+  const [autoBlockCount, setAutoBlockCount] = useState('4');
+  const [autoBy, setAutoBy] = useState<DraftOrderBy>('ranking_points');
+  const [autoSeparateTeams, setAutoSeparateTeams] = useState(false);
+  const [autoDouble, setAutoDouble] = useState(false);
+  const [draftBlocks, setDraftBlocks] = useState<DraftPreviewBlock[] | null>(null);
+  const [draftTeams, setDraftTeams] = useState<Record<string, string>>({});
+  const [drafting, setDrafting] = useState(false);
+  const [committingDraft, setCommittingDraft] = useState(false);
 
   useEffect(() => {
     if (!tournamentId) return;
@@ -324,8 +368,15 @@ export default function AdminTournamentLeaguePage() {
     setMessage(null);
 
     try {
-      // 1) 大会情報
-      const { data: t, error: tErr } = await db.from('tournaments').select('id, name').eq('id', tournamentId).maybeSingle();
+      // 1) 大会情報（league_tiebreakers 列が無い環境では既定の順番）
+      let { data: t, error: tErr } = await db
+        .from('tournaments')
+        .select('id, name, league_tiebreakers')
+        .eq('id', tournamentId)
+        .maybeSingle();
+      if (tErr && isMissingColumnError(tErr)) {
+        ({ data: t, error: tErr } = await db.from('tournaments').select('id, name').eq('id', tournamentId).maybeSingle());
+      }
 
       if (tErr || !t) {
         console.error(tErr);
@@ -334,6 +385,7 @@ export default function AdminTournamentLeaguePage() {
         return;
       }
       setTournament(t as TournamentInfo);
+      setTiebreakers(parseTiebreakers((t as TournamentInfo).league_tiebreakers));
 
       // 2) ブロック一覧
       const { data: blocksData, error: blocksErr } = await db
@@ -445,27 +497,239 @@ export default function AdminTournamentLeaguePage() {
     }
   };
 
-  // ブロック集計
+  // ブロック集計（大会のタイブレーク順で計算し、順位を決めた基準ごと保存）
   const handleFinalize = async (blockId: string) => {
     setBusyBlock(blockId);
     setError(null);
     setMessage(null);
 
-    const { error: rpcErr } = await db.rpc('finalize_league_block', { p_block_id: blockId });
+    try {
+      const res = await fetch(`/api/admin/league-blocks/${blockId}/finalize`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+
+      const json = (await res.json().catch(() => null)) as any;
 
-    if (rpcErr) {
-      console.error(rpcErr);
-      setError('ブロックの集計に失敗しました');
+      if (!res.ok || !json?.ok) {
+        setError(json?.message || `ブロックの集計に失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      await loadAll();
+      setMessage(
+        json.complete
+          ? json.winner_player_id
+            ? 'ブロックの順位を確定しました'
+            : 'ブロックの順位を集計しました（1位が同率のため優勝者は未確定です）'
+          : 'ブロックの途中経過を集計しました（未消化の試合があるため優勝者は未確定です）',
+      );
+    } catch (e) {
+      console.error('[admin/league] finalize fatal:', e);
+      setError('ブロックの集計中にエラーが発生しました');
+    } finally {
       setBusyBlock(null);
+    }
+  };
+
+  // ✅ タイブレークの並べ替え / 追加 / 外す（保存ボタンで反映）
+  const moveTiebreaker = (idx: number, dir: -1 | 1) => {
+    setTiebreakers((prev) => {
+      const j = idx + dir;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[j]] = [next[j], next[idx]];
+      return next;
+    });
+  };
+
+  const toggleTiebreaker = (key: LeagueTiebreaker) => {
+    setTiebreakers((prev) => {
+      if (!prev.includes(key)) return [...prev, key];
+      if (prev.length <= 1) return prev; // 最低 1 つは残す
+      return prev.filter((k) => k !== key);
+    });
+  };
+
+  const handleSaveTiebreakers = async () => {
+    if (!tournamentId) return;
+    setError(null);
+    setMessage(null);
+    setSavingTiebreakers(true);
+
+    try {
+      const res = await fetch(`/api/admin/tournaments/${tournamentId}/league-tiebreakers`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ tiebreakers }),
+      });
+
+      const json = (await res.json().catch(() => null)) as any;
+
+      if (!res.ok || !json?.ok) {
+        setError(json?.message || `タイブレークの保存に失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      setTiebreakers(parseTiebreakers(json.tiebreakers));
+      setMessage('順位の決め方を保存しました（集計済みのブロックは「順位を集計する」で並び直します）');
+    } catch (e) {
+      console.error('[admin/league] save tiebreakers fatal:', e);
+      setError('タイブレークの保存中にエラーが発生しました');
+    } finally {
+      setSavingTiebreakers(false);
+    }
+  };
+
+  // ✅ 日程の作り直し（結果入力済みの試合があればサーバ側で拒否）
+  const handleRegenerateSchedule = async (blockId: string, label: string | null) => {
+    setError(null);
+    setMessage(null);
+
+    const double = regenDouble[blockId] === true;
+    const ok = window.confirm(
+      `ブロック ${label ?? '-'} の試合を削除し、${double ? '2巡' : '1巡'}の総当たりで作り直します。\n結果入力済みの試合がある場合は作り直せません。\n実行しますか？`,
+    );
+    if (!ok) return;
+
+    setRegenBlock(blockId);
+    try {
+      const res = await fetch(`/api/admin/league-blocks/${blockId}/schedule`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ double }),
+      });
+
+      const json = (await res.json().catch(() => null)) as any;
+
+      if (!res.ok || !json?.ok) {
+        setError(json?.message || `日程の作り直しに失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      await loadAll();
+      setMessage(`ブロック ${label ?? '-'} の日程を作り直しました（${json.schedule?.rounds ?? '-'}節 / ${json.inserted ?? 0}試合）`);
+    } catch (e) {
+      console.error('[admin/league] regenerate schedule fatal:', e);
+      setError('日程の作り直し中にエラーが発生しました');
+    } finally {
+      setRegenBlock(null);
+    }
+  };
+
+  // ✅ 自動振り分けの案を作る（まだ書き込まない）
+  const handleDraftPreview = async () => {
+    if (!tournamentId) return;
+    setError(null);
+    setMessage(null);
+
+    const playerIds = Object.keys(autoPicked).filter((id) => autoPicked[id]);
+    const blockCount = Number(autoBlockCount);
+    if (!Number.isInteger(blockCount) || blockCount < 1) {
+      setError('ブロック数は 1 以上の整数で入力してください');
       return;
     }
 
-    await loadAll();
-    setBusyBlock(null);
-    setMessage('ブロックの順位を再計算しました');
+    setDrafting(true);
+    try {
+      const res = await fetch(`/api/admin/tournaments/${tournamentId}/league-draft`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          player_ids: playerIds,
+          block_count: blockCount,
+          by: autoBy,
+          separate_teams: autoSeparateTeams,
+        }),
+      });
+
+      const json = (await res.json().catch(() => null)) as any;
+
+      if (!res.ok || !json?.ok) {
+        setError(json?.message || `振り分け案の作成に失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      setDraftBlocks((json.blocks ?? []) as DraftPreviewBlock[]);
+      setDraftTeams((json.teams ?? {}) as Record<string, string>);
+    } catch (e) {
+      console.error('[admin/league] draft preview fatal:', e);
+      setError('振り分け案の作成中にエラーが発生しました');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  // 案の手直し：選手を別ブロックへ移す / ブロック名を変える
+  const moveDraftPlayer = (playerId: string, toIdx: number) => {
+    setDraftBlocks((prev) => {
+      if (!prev) return prev;
+      const player = prev.flatMap((b) => b.players).find((p) => p.id === playerId);
+      if (!player) return prev;
+      return prev.map((b, i) => {
+        const rest = b.players.filter((p) => p.id !== playerId);
+        return { ...b, players: i === toIdx ? [...rest, player] : rest };
+      });
+    });
+  };
+
+  const renameDraftBlock = (idx: number, label: string) => {
+    setDraftBlocks((prev) => (prev ? prev.map((b, i) => (i === idx ? { ...b, label } : b)) : prev));
+  };
+
+  // ✅ 案を確定して一括作成（ブロック / メンバー / 試合を 1 トランザクションで）
+  const handleCommitDraft = async () => {
+    if (!tournamentId || !draftBlocks) return;
+    setError(null);
+    setMessage(null);
+
+    const blocksPayload = draftBlocks
+      .filter((b) => b.players.length > 0)
+      .map((b) => ({ label: b.label.trim(), player_ids: b.players.map((p) => p.id) }));
+
+    const ok = window.confirm(
+      `${blocksPayload.length} ブロック（${blocksPayload.reduce((n, b) => n + b.player_ids.length, 0)} 人）を${
+        autoDouble ? '2巡' : '1巡'
+      }の総当たりで作成します。実行しますか？`,
+    );
+    if (!ok) return;
+
+    setCommittingDraft(true);
+    try {
+      const res = await fetch(`/api/admin/tournaments/${tournamentId}/league-blocks`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ blocks: blocksPayload, double: autoDouble }),
+      });
+
+      const json = (await res.json().catch(() => null)) as any;
+
+      if (!res.ok || !json?.ok) {
+        setError(json?.message || `ブロックの一括作成に失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      setDraftBlocks(null);
+      setAutoPicked({});
+      await loadAll();
+      setMessage(
+        `${json.created_blocks ?? 0} ブロック / ${json.created_members ?? 0} 人 / ${json.created_matches ?? 0} 試合を作成しました`,
+      );
+    } catch (e) {
+      console.error('[admin/league] commit draft fatal:', e);
+      setError('ブロックの一括作成中にエラーが発生しました');
+    } finally {
+      setCommittingDraft(false);
+    }
   };
 
-  // 新しいリーグブロック＋3試合作成（2人なら def を自動補充）
+  // 新しいリーグブロック＋総当たり作成（2人なら def を自動補充）
   const handleCreateBlock = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!tournamentId) return;
@@ -567,9 +831,9 @@ const { data: block, error: blockErr } = await db
 
       // 2) league_block_members
       const membersPayload = [
-        { league_block_id: blockId, player_id: rp1 },
-        { league_block_id: blockId, player_id: rp2 },
-        { league_block_id: blockId, player_id: rp3 },
+        { league_block_id: blockId, player_id: rp1, sort_order: 0 },
+        { league_block_id: blockId, player_id: rp2, sort_order: 1 },
+        { league_block_id: blockId, player_id: rp3, sort_order: 2 },
       ];
 
       const { error: membersErr } = await db.from('league_block_members').insert(membersPayload);
@@ -581,22 +845,20 @@ const { data: block, error: blockErr } = await db
         return;
       }
 
-      // 3) matches に総当たり3試合（必要最小限の列だけ）
-      const pairs: [string, string][] = [
-        [rp1, rp2],
-        [rp1, rp3],
-        [rp2, rp3],
-      ];
+      // 3) matches に総当たり（サークル方式で節 / 順番を採番。2巡なら A/B を入れ替えてもう 1 周）
+      const schedule = generateRoundRobin([rp1, rp2, rp3], { double: createDouble });
 
       const nowIso = new Date().toISOString();
 
-      const matchesPayload = pairs.map(([a, b]) => ({
+      const matchesPayload = schedule.matches.map((m) => ({
         tournament_id: tournamentId,
         league_block_id: blockId,
         mode: 'singles',
         status: 'pending',
-        player_a_id: a,
-        player_b_id: b,
+        player_a_id: m.player_a_id,
+        player_b_id: m.player_b_id,
+        round_no: m.round_no,
+        match_order: m.match_order,
         match_date: nowIso,
       }));
 
@@ -623,8 +885,10 @@ const { data: block, error: blockErr } = await db
       setP1('');
       setP2('');
       setP3('');
+      setCreateDouble(false);
       await loadAll();
-      setMessage(finalIds.includes(def.id) ? '新しいリーグブロック（def補充）と3試合を作成しました' : '新しいリーグブロックと3試合を作成しました');
+      const made = `${schedule.matches.length}試合（${schedule.rounds}節）`;
+      setMessage(finalIds.includes(def.id) ? `新しいリーグブロック（def補充）と${made}を作成しました` : `新しいリーグブロックと${made}を作成しました`);
     } finally {
       setCreating(false);
     }
@@ -638,7 +902,28 @@ const { data: block, error: blockErr } = await db
     return <div className="p-4">読み込み中...</div>;
   }
 
-  const disableAll = creating || resetting || !!busyBlock;
+  const disableAll =
+    creating || resetting || !!busyBlock || !!regenBlock || savingTiebreakers || drafting || committingDraft;
+
+  // 自動作成の候補（def は除く）と、手直し後のチーム重複
+  const draftCandidates = players.filter((pl) => String(pl.handle_name ?? '').trim().toLowerCase() !== 'def');
+  const autoPickedCount = draftCandidates.filter((pl) => autoPicked[pl.id]).length;
+  const draftConflicts = draftBlocks
+    ? findTeamConflicts(
+        draftBlocks.map((b) => ({ label: b.label, player_ids: b.players.map((p) => p.id) })),
+        new Map(draftBlocks.flatMap((b) => b.players.map((p) => [p.id, p.team_ids] as [string, string[]]))),
+      )
+    : [];
+  const draftNameOf = (id: string) =>
+    draftBlocks?.flatMap((b) => b.players).find((p) => p.id === id)?.handle_name ?? '(名前未設定)';
+
+  // 優勝者の順位を決めた基準（ranking_json の decided_by）
+  const winnerDecidedBy = (b: LeagueBlockRow) => {
+    const row = (Array.isArray(b.ranking_json) ? b.ranking_json : []).find(
+      (r: any) => r && String(r.player_id) === b.winner_player_id,
+    );
+    return isLeagueTiebreaker(row?.decided_by) ? TIEBREAKER_LABELS[row.decided_by as LeagueTiebreaker] : null;
+  };
 
   return (
     <div className="p-4 space-y-6">
@@ -684,7 +969,7 @@ const { data: block, error: blockErr } = await db
       <div className="rounded-lg border border-gray-700 bg-black/40 p-4 space-y-3">
         <h2 className="text-sm font-semibold">新しいリーグブロックを作成</h2>
         <p className="text-xs text-gray-400">
-          3人を選ぶと、その3人の総当たり（3試合）が自動で作成されます。
+          3人を選ぶと、その3人の総当たり（3試合。2巡なら6試合）が節・試合順つきで自動作成されます。
           <br />
           ※ 2人しかいない場合は、3人目を未選択のまま作成すると def（ダミー）が自動補充され、不戦勝として自動確定します。
         </p>
@@ -731,16 +1016,274 @@ const { data: block, error: blockErr } = await db
             </div>
           </div>
 
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={createDouble}
+              onChange={(e) => setCreateDouble(e.target.checked)}
+              disabled={disableAll}
+            />
+            2巡（ダブル総当たり：A/B を入れ替えてもう 1 周）
+          </label>
+
           <button
             type="submit"
             disabled={disableAll}
             className="rounded bg-blue-600 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
           >
-            {creating ? '作成中…' : 'ブロックと3試合を作成する'}
+            {creating ? '作成中…' : createDouble ? 'ブロックと6試合を作成する' : 'ブロックと3試合を作成する'}
           </button>
         </form>
       </div>
 
+      {/* ブロック自動作成（スネークドラフト） */}
+      <div className="rounded-lg border border-gray-700 bg-black/40 p-4 space-y-3">
+        <h2 className="text-sm font-semibold">ブロックを自動作成（スネークドラフト）</h2>
+        <p className="text-xs text-gray-400">
+          参加者とブロック数を指定すると、強い順に A→B→C…→C→B→A と折り返しで振り分けた案を作ります。案を確認・手直ししてから一括作成します。
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="font-semibold">参加者（{autoPickedCount}人）</span>
+          <button
+            type="button"
+            onClick={() => setAutoPicked(Object.fromEntries(draftCandidates.map((pl) => [pl.id, true])))}
+            disabled={disableAll}
+            className="rounded border border-gray-600 px-2 py-0.5 disabled:opacity-40"
+          >
+            全員選択
+          </button>
+          <button
+            type="button"
+            onClick={() => setAutoPicked({})}
+            disabled={disableAll}
+            className="rounded border border-gray-600 px-2 py-0.5 disabled:opacity-40"
+          >
+            全解除
+          </button>
+        </div>
+
+        <div className="max-h-48 overflow-y-auto rounded border border-gray-700 p-2 grid grid-cols-2 gap-1 md:grid-cols-4">
+          {draftCandidates.map((pl) => (
+            <label key={pl.id} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={autoPicked[pl.id] === true}
+                onChange={(e) => setAutoPicked((prev) => ({ ...prev, [pl.id]: e.target.checked }))}
+                disabled={disableAll}
+              />
+              {pl.handle_name ?? '(名前未設定)'}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs">
+          <label className="flex items-center gap-2">
+            ブロック数
+            <input
+              type="number"
+              min={1}
+              className="w-16 rounded border border-gray-600 bg-black/60 px-2 py-1 text-sm"
+              value={autoBlockCount}
+              onChange={(e) => setAutoBlockCount(e.target.value)}
+              disabled={disableAll}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            並べ方
+            <select
+              className="rounded border border-gray-600 bg-black/60 px-2 py-1 text-sm"
+              value={autoBy}
+              onChange={(e) => setAutoBy(e.target.value as DraftOrderBy)}
+              disabled={disableAll}
+            >
+              {(Object.keys(DRAFT_ORDER_LABELS) as DraftOrderBy[]).map((k) => (
+                <option key={k} value={k}>
+                  {DRAFT_ORDER_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoSeparateTeams}
+              onChange={(e) => setAutoSeparateTeams(e.target.checked)}
+              disabled={disableAll}
+            />
+            同じチームの選手をなるべく別ブロックにする
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoDouble}
+              onChange={(e) => setAutoDouble(e.target.checked)}
+              disabled={disableAll}
+            />
+            2巡
+          </label>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleDraftPreview}
+          disabled={disableAll || autoPickedCount < 2}
+          className="rounded bg-gray-700 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {drafting ? '作成中…' : draftBlocks ? '案を作り直す' : '振り分け案を作る'}
+        </button>
+
+        {draftBlocks && (
+          <div className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+              {draftBlocks.map((b, bi) => (
+                <div key={bi} className="rounded border border-purple-500/40 bg-purple-900/20 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    ブロック
+                    <input
+                      type="text"
+                      className="w-16 rounded border border-gray-600 bg-black/60 px-2 py-0.5 text-sm"
+                      value={b.label}
+                      onChange={(e) => renameDraftBlock(bi, e.target.value)}
+                      disabled={disableAll}
+                    />
+                    <span className="text-gray-400">{b.players.length}人</span>
+                  </div>
+                  <ul className="space-y-1">
+                    {b.players.map((p) => (
+                      <li key={p.id} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="truncate">
+                          {p.handle_name ?? '(名前未設定)'}
+                          <span className="ml-1 text-gray-400">
+                            RP {p.ranking_points ?? '-'} / HC {p.handicap ?? '-'}
+                          </span>
+                          {p.team_ids.length > 0 && (
+                            <span className="ml-1 text-pink-300">
+                              [{p.team_ids.map((t) => draftTeams[t] || 'チーム').join(', ')}]
+                            </span>
+                          )}
+                        </span>
+                        <select
+                          className="rounded border border-gray-600 bg-black/60 px-1 py-0.5"
+                          value={bi}
+                          onChange={(e) => moveDraftPlayer(p.id, Number(e.target.value))}
+                          disabled={disableAll}
+                        >
+                          {draftBlocks.map((to, ti) => (
+                            <option key={ti} value={ti}>
+                              {to.label || `#${ti + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            {draftConflicts.length > 0 && (
+              <div className="text-xs text-amber-300 space-y-1">
+                {draftConflicts.map((c, i) => (
+                  <div key={i}>
+                    ⚠ ブロック {c.label}: {draftTeams[c.team_id] || 'チーム'} のチームメイトが同じブロックです（
+                    {c.player_ids.map(draftNameOf).join(' / ')}）
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={handleCommitDraft}
+                disabled={disableAll}
+                className="rounded bg-blue-600 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+              >
+                {committingDraft ? '作成中…' : 'この内容でブロックを作成する'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setDraftBlocks(null)}
+                disabled={disableAll}
+                className="rounded border border-gray-600 px-3 py-2 text-xs disabled:opacity-50"
+              >
+                案を破棄
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 順位の決め方（タイブレーク） */}
+      <div className="rounded-lg border border-gray-700 bg-black/40 p-4 space-y-3">
+        <h2 className="text-sm font-semibold">順位の決め方（タイブレーク）</h2>
+        <p className="text-xs text-gray-400">
+          上から順に比べ、同じ値の選手だけ次の基準で比べます。直接対決は同率の選手同士の勝数、抽選はブロックごとに固定の結果です。
+          <br />
+          ※ 抽選は全試合が終わってから使われます。保存後、集計済みのブロックは「順位を集計する」で並び直してください。
+        </p>
+
+        <ol className="space-y-1">
+          {tiebreakers.map((key, idx) => (
+            <li key={key} className="flex items-center gap-2 text-sm">
+              <span className="w-6 text-right text-gray-400">{idx + 1}.</span>
+              <span className="min-w-[120px]">{TIEBREAKER_LABELS[key]}</span>
+              <button
+                type="button"
+                onClick={() => moveTiebreaker(idx, -1)}
+                disabled={disableAll || idx === 0}
+                className="rounded bg-gray-700 px-2 py-0.5 text-xs disabled:opacity-40"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveTiebreaker(idx, 1)}
+                disabled={disableAll || idx === tiebreakers.length - 1}
+                className="rounded bg-gray-700 px-2 py-0.5 text-xs disabled:opacity-40"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => toggleTiebreaker(key)}
+                disabled={disableAll || tiebreakers.length <= 1}
+                className="rounded bg-gray-800 px-2 py-0.5 text-xs text-gray-300 disabled:opacity-40"
+              >
+                外す
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {LEAGUE_TIEBREAKERS.some((k) => !tiebreakers.includes(k)) && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-400">追加:</span>
+            {LEAGUE_TIEBREAKERS.filter((k) => !tiebreakers.includes(k)).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => toggleTiebreaker(k)}
+                disabled={disableAll}
+                className="rounded border border-gray-600 px-2 py-0.5 disabled:opacity-40"
+              >
+                + {TIEBREAKER_LABELS[k]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSaveTiebreakers}
+          disabled={disableAll}
+          className="rounded bg-purple-600 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {savingTiebreakers ? '保存中…' : '順位の決め方を保存する'}
+        </button>
+      </div>
+
       {/* 既存ブロック一覧 */}
       <div className="space-y-2">
         <h2 className="text-sm font-semibold">既存リーグブロック</h2>
@@ -756,12 +1299,14 @@ const { data: block, error: blockErr } = await db
                   <th className="border px-2 py-1 text-left">優勝者</th>
                   <th className="border px-2 py-1 text-left">公開ページ</th>
                   <th className="border px-2 py-1 text-center">集計</th>
+                  <th className="border px-2 py-1 text-center">日程</th>
                   <th className="border px-2 py-1 text-left">管理</th>
                 </tr>
               </thead>
               <tbody>
                 {blocks.map((b) => {
                   const winner = b.winner_player_id ? winners.get(b.winner_player_id) : undefined;
+                  const decidedBy = winner ? winnerDecidedBy(b) : null;
 
                   const statusLabel =
                     b.status === 'finished' ? '確定' : b.status === 'pending' ? '未確定' : b.status || '未設定';
@@ -770,7 +1315,10 @@ const { data: block, error: blockErr } = await db
                     <tr key={b.id}>
                       <td className="border px-2 py-1">ブロック {b.label ?? '-'}</td>
                       <td className="border px-2 py-1">{statusLabel}</td>
-                      <td className="border px-2 py-1">{winner?.handle_name ?? '---'}</td>
+                      <td className="border px-2 py-1">
+                        {winner?.handle_name ?? '---'}
+                        {decidedBy && <span className="ml-1 text-[11px] text-gray-400">（決め手: {decidedBy}）</span>}
+                      </td>
                       <td className="border px-2 py-1">
                         <Link
                           href={`/league/${b.id}`}
@@ -791,6 +1339,28 @@ const { data: block, error: blockErr } = await db
                           {busyBlock === b.id ? '集計中…' : '順位を集計する'}
                         </button>
                       </td>
+                      <td className="border px-2 py-1 text-center">
+                        <div className="flex flex-col items-center gap-1">
+                          <button
+                            type="button"
+                            onClick={() => handleRegenerateSchedule(b.id, b.label)}
+                            disabled={disableAll}
+                            className="px-3 py-1 text-xs rounded bg-gray-700 text-white disabled:opacity-50"
+                            title="結果未入力のブロックだけ作り直せます"
+                          >
+                            {regenBlock === b.id ? '作成中…' : '日程を作り直す'}
+                          </button>
+                          <label className="flex items-center gap-1 text-[11px] text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={regenDouble[b.id] === true}
+                              onChange={(e) => setRegenDouble((prev) => ({ ...prev, [b.id]: e.target.checked }))}
+                              disabled={disableAll}
+                            />
+                            2巡
+                          </label>
+                        </div>
+                      </td>
                       <td className="border px-2 py-1">
                         <Link href={`/admin/league-blocks/${b.id}/matches`} className="text-xs text-blue-400 underline">
                           試合結果入力
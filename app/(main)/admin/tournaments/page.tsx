@@ -290,6 +290,13 @@ export default function AdminTournamentsPage() {
                         {/* 管理リンク群 */}
                         <td className="border border-gray-700 px-2 py-2">
                           <div className="flex flex-wrap items-center gap-3">
+                            <Link
+                              href={`/admin/tournaments/${t.id}/entries`}
+                              className="text-xs text-pink-300 underline hover:text-pink-200"
+                            >
+                              エントリー管理
+                            </Link>
+
                             <Link
                               href={`/admin/tournaments/${t.id}/league`}
                               className="text-xs text-blue-300 underline hover:text-blue-200"
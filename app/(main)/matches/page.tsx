@@ -12,6 +12,7 @@ import {
   FaStar,
   FaUsers,
   FaUser,
+  FaUserFriends,
 } from 'react-icons/fa';
 import Link from 'next/link';
 import { useFetchMatchesData as useMatchesData } from '@/lib/hooks/useFetchMatchesData';
@@ -86,6 +87,7 @@ interface MatchDetails {
 
   finish_reason?: string | null;
   affects_rating?: boolean | null;
+  rating_multiplier?: number | null;
 
   is_tournament?: boolean | null;
   tournament_name?: string | null;
@@ -187,17 +189,20 @@ function isSameDay(a: Date, b: Date) {
 
 const ModeChip = ({ mode }: { mode?: MatchDetails['mode'] }) => {
   const isTeams = mode === 'teams';
+  const isDoubles = mode === 'doubles';
   return (
     <span
       className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-[11px] ${
         isTeams
           ? 'bg-yellow-500/15 text-yellow-300 border border-yellow-400/30'
-          : 'bg-purple-500/15 text-purple-200 border border-purple-400/30'
+          : isDoubles
+            ? 'bg-sky-500/15 text-sky-300 border border-sky-400/30'
+            : 'bg-purple-500/15 text-purple-200 border border-purple-400/30'
       }`}
-      title={isTeams ? '団体戦' : '個人戦'}
+      title={isTeams ? '団体戦' : isDoubles ? 'ダブルス' : '個人戦'}
     >
-      {isTeams ? <FaUsers /> : <FaUser />}
-      {isTeams ? 'teams' : 'singles'}
+      {isTeams ? <FaUsers /> : isDoubles ? <FaUserFriends /> : <FaUser />}
+      {isTeams ? 'teams' : isDoubles ? 'doubles' : 'singles'}
     </span>
   );
 };
@@ -215,6 +220,21 @@ const FinishReasonChip = ({ reason }: { reason?: string | null }) => {
   );
 };
 
+/** ✅ 大会係数が掛かった試合（×1 以外）だけ表示 */
+const MultiplierChip = ({ m }: { m: MatchDetails }) => {
+  const x = pickNumber(m, ['rating_multiplier']);
+  if (x == null || x === 1 || m.affects_rating === false) return null;
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-[11px] bg-amber-500/15 text-amber-300 border border-amber-400/30"
+      title="大会係数（RP 変動に掛かる倍率）"
+    >
+      RP ×{x}
+    </span>
+  );
+};
+
 const ScoreDiffPill = ({ diff, highlight }: { diff: number; highlight?: 'upset' }) => {
   const color =
     diff >= 10 ? 'from-red-500 to-red-600' : diff >= 5 ? 'from-orange-500 to-orange-600' : 'from-blue-500 to-blue-600';
@@ -269,6 +289,7 @@ const MetaLine = ({ m }: { m: MatchDetails }) => {
 
       <ModeChip mode={m.mode} />
       <FinishReasonChip reason={m.finish_reason} />
+      <MultiplierChip m={m} />
       <span className="text-gray-400 flex items-center gap-1">
         <FaCalendar className="text-xs" />
         {d}
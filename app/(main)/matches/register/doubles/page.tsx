@@ -0,0 +1,610 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaLock, FaCalendar, FaUserFriends, FaMinus, FaPlus, FaShieldAlt, FaTrophy, FaUsers } from 'react-icons/fa';
+
+import { createClient } from '@/lib/supabase/client';
+import { useFetchPlayersData } from '@/lib/hooks/useFetchSupabaseData';
+import { DOUBLES_MODE, validateDoublesPairs } from '@/lib/matches/doubles';
+
+type Player = {
+  id: string;
+  handle_name: string;
+  ranking_points: number;
+  handicap: number;
+  avatar_url?: string | null;
+  is_active?: boolean | null;
+};
+
+type PlayerAdminRow = {
+  id: string;
+  is_admin: boolean | null;
+};
+
+type AdminRow = { user_id: string };
+
+type EndReason = 'normal' | 'time_limit' | 'walkover' | 'forfeit';
+
+const END_REASON_LABEL: Record<EndReason, string> = {
+  normal: '通常',
+  time_limit: '時間切れ',
+  walkover: '不戦勝',
+  forfeit: '棄権',
+};
+
+async function parseRestError(res: Response) {
+  let msg = `HTTP ${res.status}`;
+  try {
+    const text = await res.text();
+    try {
+      const j = JSON.parse(text);
+      msg = j?.message || j?.hint || j?.details || text || msg;
+    } catch {
+      msg = text || msg;
+    }
+  } catch {
+    // ignore
+  }
+  return msg;
+}
+
+const toInt = (v: string | number, fb = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v), 10);
+  return Number.isFinite(n) ? n : fb;
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+function toIsoFromDatetimeLocal(v: string) {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) throw new Error('試合日時が不正です');
+  return d.toISOString();
+}
+
+/** 選手セレクト（他の枠で選ばれている選手は出さない） */
+function PlayerSelect({
+  label,
+  value,
+  onChange,
+  players,
+  taken,
+  tone = 'purple',
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  players: Player[];
+  taken: string[];
+  tone?: 'purple' | 'amber';
+}) {
+  const border = tone === 'amber' ? 'border-amber-500/30' : 'border-purple-500/30';
+  return (
+    <div>
+      <label className="block text-sm text-gray-300 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full px-3 py-2 bg-purple-900/30 border ${border} rounded-lg text-yellow-100`}
+      >
+        <option value="">選択してください</option>
+        {players
+          .filter((p) => p.id === value || !taken.includes(p.id))
+          .map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.handle_name}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+}
+
+export default function DoublesRegisterPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => createClient(), []);
+
+  // ==== 認証確認 (/auth/whoami) ====
+  const [authed, setAuthed] = useState<boolean | null>(null);
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const r = await fetch('/auth/whoami', {
+          cache: 'no-store',
+          credentials: 'include',
+        });
+        const j = r.ok ? await r.json() : { authenticated: false };
+        if (alive) setAuthed(!!j?.authenticated);
+      } catch {
+        if (alive) setAuthed(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // ==== 自分のプレイヤーID & 管理者判定（players + app_admins の両方を見る）====
+  const [me, setMe] = useState<{ id: string; is_admin: boolean } | null>(null);
+  useEffect(() => {
+    if (authed !== true) return;
+    let alive = true;
+
+    (async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      const user = authData?.user;
+      if (!user) {
+        if (alive) setMe(null);
+        return;
+      }
+
+      const [playerResp, adminResp] = await Promise.all([
+        supabase.from('players').select('id,is_admin').eq('id', user.id).maybeSingle<PlayerAdminRow>(),
+        supabase.from('app_admins').select('user_id').eq('user_id', user.id).maybeSingle<AdminRow>(),
+      ]);
+
+      const playerRow = (playerResp?.data ?? null) as PlayerAdminRow | null;
+      const adminRow = (adminResp?.data ?? null) as AdminRow | null;
+
+      const isAdmin = Boolean(playerRow?.is_admin) || Boolean(adminRow?.user_id);
+      if (alive) setMe({ id: user.id, is_admin: isAdmin });
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [authed, supabase]);
+
+  // ==== プレイヤー一覧 ====
+  const {
+    players = [],
+    loading: playersLoading,
+    error: playersError,
+  } = useFetchPlayersData({ enabled: authed === true, requireAuth: true });
+
+  // ★非アクティブを候補から除外（試合登録で選べないようにする）
+  const activePlayers = useMemo(() => {
+    return (players as Player[]).filter((p: any) => p?.is_active !== false);
+  }, [players]);
+
+  // ==== フォーム状態 ====
+  const [matchDate, setMatchDate] = useState(new Date().toISOString().slice(0, 16));
+  const [partnerId, setPartnerId] = useState('');
+  const [opponent1Id, setOpponent1Id] = useState('');
+  const [opponent2Id, setOpponent2Id] = useState('');
+  const [iWon, setIWon] = useState(true);
+
+  const [endReason, setEndReason] = useState<EndReason>('normal');
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number>(10);
+
+  const [winnerScore, setWinnerScore] = useState(15);
+  const [loserScore, setLoserScore] = useState(0);
+
+  // 管理者モード：4 人とも自由に選ぶ
+  const [adminMode, setAdminMode] = useState(false);
+  const [winnerIdsAdmin, setWinnerIdsAdmin] = useState<[string, string]>(['', '']);
+  const [loserIdsAdmin, setLoserIdsAdmin] = useState<[string, string]>(['', '']);
+
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [awaitingConfirm, setAwaitingConfirm] = useState(false);
+  const [error, setError] = useState('');
+  const submittingRef = useRef(false);
+
+  useEffect(() => {
+    if (!adminMode) {
+      setWinnerIdsAdmin(['', '']);
+      setLoserIdsAdmin(['', '']);
+      return;
+    }
+    setPartnerId('');
+    setOpponent1Id('');
+    setOpponent2Id('');
+  }, [adminMode]);
+
+  useEffect(() => {
+    if (endReason === 'normal') {
+      setWinnerScore(15);
+      setLoserScore((s) => clamp(s, 0, 14));
+    } else {
+      setWinnerScore((s) => clamp(s, 1, 15));
+      setLoserScore((s) => clamp(s, 0, 14));
+    }
+  }, [endReason]);
+
+  // 選んだ 4 人（勝ちペア / 負けペア）
+  const pairs = useMemo(() => {
+    if (!me?.id) return null;
+    if (adminMode && me.is_admin) return { winner_ids: [...winnerIdsAdmin], loser_ids: [...loserIdsAdmin] };
+    const mine = [me.id, partnerId];
+    const theirs = [opponent1Id, opponent2Id];
+    return iWon ? { winner_ids: mine, loser_ids: theirs } : { winner_ids: theirs, loser_ids: mine };
+  }, [me?.id, me?.is_admin, adminMode, winnerIdsAdmin, loserIdsAdmin, partnerId, opponent1Id, opponent2Id, iWon]);
+
+  const pairError = pairs ? validateDoublesPairs(pairs.winner_ids, pairs.loser_ids) : 'ログインが必要です';
+
+  const getScoreLimits = () => {
+    if (endReason === 'normal') {
+      return { winnerMin: 15, winnerMax: 15, loserMin: 0, loserMax: 14, winnerFixed: true };
+    }
+    return { winnerMin: 1, winnerMax: 15, loserMin: 0, loserMax: 14, winnerFixed: false };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    setLoading(true);
+    setError('');
+    setSuccess(false);
+
+    try {
+      if (authed !== true || !me?.id || !pairs) throw new Error('ログインが必要です');
+      if (pairError) throw new Error(pairError);
+
+      const lim = getScoreLimits();
+      const wScore = lim.winnerFixed ? 15 : clamp(toInt(winnerScore, 15), lim.winnerMin, lim.winnerMax);
+      const lScore = clamp(toInt(loserScore, 0), lim.loserMin, lim.loserMax);
+      if (wScore <= lScore) throw new Error('スコアが不正です（勝者スコアは敗者スコアより大きくしてください）');
+
+      const payload: any = {
+        mode: DOUBLES_MODE,
+        match_date: toIsoFromDatetimeLocal(matchDate),
+        winner_ids: pairs.winner_ids,
+        loser_ids: pairs.loser_ids,
+        winner_score: wScore,
+        loser_score: lScore,
+        // ★通常以外（時間切れ/不戦勝/棄権）はレート変動しない運用（個人戦と同じ）
+        apply_rating: endReason === 'normal',
+        end_reason: endReason,
+      };
+      if (endReason === 'time_limit') payload.time_limit_seconds = clamp(toInt(timeLimitMinutes, 10), 1, 240) * 60;
+
+      const res = await fetch('/api/matches', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (!res.ok) {
+        const msg = await parseRestError(res);
+        throw new Error(`登録に失敗しました: ${msg}`);
+      }
+
+      const j = await res.json().catch(() => null);
+      const awaiting = j?.status === 'submitted';
+      setAwaitingConfirm(awaiting);
+      setSuccess(true);
+      setTimeout(() => router.push(awaiting ? '/mypage' : '/matches'), awaiting ? 1500 : 700);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || '登録に失敗しました');
+    } finally {
+      submittingRef.current = false;
+      setLoading(false);
+    }
+  };
+
+  if (authed === null) {
+    return (
+      <div className="min-h-screen grid place-items-center p-8">
+        <div className="glass-card rounded-xl p-8 w-full max-w-xl">
+          <div className="h-6 w-40 bg-white/10 rounded mb-6" />
+          <div className="h-32 bg-white/10 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (authed === false) {
+    return (
+      <div className="min-h-screen grid place-items-center p-8">
+        <div className="text-center">
+          <p className="mb-3">試合結果の登録にはログインが必要です。</p>
+          <Link href="/login?redirect=/matches/register/doubles" className="underline text-purple-300">
+            ログインへ移動
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const lim = getScoreLimits();
+  const taken = pairs ? [...pairs.winner_ids, ...pairs.loser_ids].filter(Boolean) : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="text-center mb-8">
+        <div className="inline-block p-4 mb-3 rounded-full bg-gradient-to-br from-sky-400/20 to-purple-600/20">
+          <FaUserFriends className="text-4xl text-sky-300" />
+        </div>
+        <h1 className="text-3xl font-bold text-yellow-100">ダブルスを登録</h1>
+        <p className="text-gray-400 mt-1">自分が出場したダブルスのみ登録できます（管理者は全試合を登録できます）。</p>
+
+        <div className="mt-3 inline-flex items-center gap-2 px-3 py-1 bg-green-500/20 rounded-full">
+          <FaLock className="text-green-400 text-sm" />
+          <span className="text-green-400 text-sm">ログイン済み</span>
+          {me?.is_admin && (
+            <span className="inline-flex items-center gap-1 ml-2 text-xs text-amber-300">
+              <FaShieldAlt /> 管理者
+            </span>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="glass-card rounded-md p-3 mb-4 border border-red-500/40 bg-red-500/10">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="glass-card rounded-md p-3 mb-4 border border-green-500/40 bg-green-500/10">
+          <p className="text-green-300 text-sm">
+            {awaitingConfirm
+              ? '📨 登録しました。相手ペアの確認後にランキングへ反映されます（マイページへ移動します…）'
+              : '🎉 登録しました。まもなく一覧へ移動します…'}
+          </p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* 日時 */}
+        <div className="glass-card rounded-xl p-5 border border-purple-500/30">
+          <label className="block text-sm font-medium mb-2 text-gray-300">
+            <FaCalendar className="inline mr-2 text-purple-400" />
+            試合日時
+          </label>
+          <input
+            type="datetime-local"
+            required
+            value={matchDate}
+            onChange={(e) => setMatchDate(e.target.value)}
+            className="w-full px-4 py-3 bg-purple-900/30 border border-purple-500/30 rounded-lg text-yellow-100 focus:outline-none focus:border-purple-400"
+          />
+        </div>
+
+        {/* 終了理由 */}
+        <div className="glass-card rounded-xl p-5 border border-purple-500/30">
+          <label className="block text-sm font-medium mb-2 text-gray-300">試合終了理由</label>
+          <select
+            value={endReason}
+            onChange={(e) => setEndReason(e.target.value as EndReason)}
+            className="w-full px-4 py-3 bg-purple-900/30 border border-purple-500/30 rounded-lg text-yellow-100"
+          >
+            <option value="normal">通常（15点先取）</option>
+            <option value="time_limit">時間切れ（得点のまま確定）</option>
+            <option value="walkover">不戦勝</option>
+            <option value="forfeit">棄権</option>
+          </select>
+
+          {endReason === 'time_limit' && (
+            <div className="mt-3">
+              <label className="block text-xs text-gray-400 mb-1">制限時間（分）</label>
+              <input
+                type="number"
+                min={1}
+                max={240}
+                value={timeLimitMinutes}
+                onChange={(e) => setTimeLimitMinutes(toInt(e.target.value, 10))}
+                className="w-full px-4 py-3 bg-purple-900/30 border border-purple-500/30 rounded-lg text-yellow-100"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 管理者モード */}
+        {me?.is_admin && (
+          <div className="glass-card rounded-xl p-5 border border-amber-500/30">
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="accent-amber-400"
+                checked={adminMode}
+                onChange={(e) => setAdminMode(e.target.checked)}
+              />
+              <span className="text-amber-300 text-sm">管理者モード（任意の 4 人で登録）</span>
+            </label>
+
+            {adminMode && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {([0, 1] as const).map((i) => (
+                  <PlayerSelect
+                    key={`w${i}`}
+                    label={`勝ちペア ${i + 1}`}
+                    value={winnerIdsAdmin[i]}
+                    onChange={(v) => setWinnerIdsAdmin((prev) => (i === 0 ? [v, prev[1]] : [prev[0], v]))}
+                    players={activePlayers}
+                    taken={taken}
+                    tone="amber"
+                  />
+                ))}
+                {([0, 1] as const).map((i) => (
+                  <PlayerSelect
+                    key={`l${i}`}
+                    label={`負けペア ${i + 1}`}
+                    value={loserIdsAdmin[i]}
+                    onChange={(v) => setLoserIdsAdmin((prev) => (i === 0 ? [v, prev[1]] : [prev[0], v]))}
+                    players={activePlayers}
+                    taken={taken}
+                    tone="amber"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 一般モード */}
+        {!adminMode && (
+          <div className="glass-card rounded-xl p-5 border border-purple-500/30 space-y-4">
+            <div>
+              <p className="text-sm font-medium mb-2 text-gray-300">
+                <FaUsers className="inline mr-2 text-purple-400" />
+                自分のペア
+              </p>
+              <PlayerSelect
+                label="パートナー"
+                value={partnerId}
+                onChange={setPartnerId}
+                players={activePlayers}
+                taken={taken}
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2 text-gray-300">
+                <FaUserFriends className="inline mr-2 text-purple-400" />
+                相手ペア
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <PlayerSelect
+                  label="相手 1"
+                  value={opponent1Id}
+                  onChange={setOpponent1Id}
+                  players={activePlayers}
+                  taken={taken}
+                />
+                <PlayerSelect
+                  label="相手 2"
+                  value={opponent2Id}
+                  onChange={setOpponent2Id}
+                  players={activePlayers}
+                  taken={taken}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setIWon(true)}
+                className={`px-4 py-2 rounded-lg border transition-all ${
+                  iWon
+                    ? 'bg-green-500/20 border-green-400/60 text-green-200'
+                    : 'bg-purple-900/20 border-purple-500/30 text-gray-300'
+                }`}
+              >
+                自分たちの勝ち
+              </button>
+              <button
+                type="button"
+                onClick={() => setIWon(false)}
+                className={`px-4 py-2 rounded-lg border transition-all ${
+                  !iWon
+                    ? 'bg-red-500/20 border-red-400/60 text-red-200'
+                    : 'bg-purple-900/20 border-purple-500/30 text-gray-300'
+                }`}
+              >
+                自分たちの負け
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* スコア */}
+        <div className="glass-card rounded-xl p-5 border border-purple-500/30">
+          <p className="text-sm text-gray-300 mb-2">スコア</p>
+          <div className="grid grid-cols-2 gap-6 items-center">
+            <div className="text-center">
+              <div className="text-xs text-gray-400 mb-1">勝ちペア</div>
+
+              {lim.winnerFixed ? (
+                <div className="text-3xl font-bold text-green-400">15</div>
+              ) : (
+                <div className="flex items-center justify-center gap-3">
+                  <button
+                    type="button"
+                    className="p-2 rounded-lg bg-purple-900/30 border border-purple-500/30"
+                    onClick={() => setWinnerScore((s) => clamp(s - 1, lim.winnerMin, lim.winnerMax))}
+                  >
+                    <FaMinus />
+                  </button>
+                  <input
+                    type="number"
+                    min={lim.winnerMin}
+                    max={lim.winnerMax}
+                    value={winnerScore}
+                    onChange={(e) => setWinnerScore(toInt(e.target.value, 15))}
+                    className="w-20 text-center px-3 py-2 bg-purple-900/30 border border-purple-500/30 rounded-lg text-yellow-100 text-xl font-bold"
+                  />
+                  <button
+                    type="button"
+                    className="p-2 rounded-lg bg-purple-900/30 border border-purple-500/30"
+                    onClick={() => setWinnerScore((s) => clamp(s + 1, lim.winnerMin, lim.winnerMax))}
+                  >
+                    <FaPlus />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="text-center">
+              <div className="text-xs text-gray-400 mb-1">負けペア</div>
+              <div className="flex items-center justify-center gap-3">
+                <button
+                  type="button"
+                  className="p-2 rounded-lg bg-purple-900/30 border border-purple-500/30"
+                  onClick={() => setLoserScore((s) => clamp(s - 1, lim.loserMin, lim.loserMax))}
+                >
+                  <FaMinus />
+                </button>
+                <input
+                  type="number"
+                  min={lim.loserMin}
+                  max={lim.loserMax}
+                  value={loserScore}
+                  onChange={(e) => setLoserScore(toInt(e.target.value, 0))}
+                  className="w-20 text-center px-3 py-2 bg-purple-900/30 border border-purple-500/30 rounded-lg text-yellow-100 text-xl font-bold"
+                />
+                <button
+                  type="button"
+                  className="p-2 rounded-lg bg-purple-900/30 border border-purple-500/30"
+                  onClick={() => setLoserScore((s) => clamp(s + 1, lim.loserMin, lim.loserMax))}
+                >
+                  <FaPlus />
+                </button>
+              </div>
+              <div className="text-[11px] text-gray-500 mt-1">
+                {lim.loserMin}〜{lim.loserMax}点
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* 送信 */}
+        <div className="flex justify-center">
+          <button
+            type="submit"
+            disabled={loading || playersLoading || !!pairError}
+            className="gradient-button px-10 py-3 rounded-full text-white font-medium text-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {loading ? (
+              <>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
+                登録中...
+              </>
+            ) : (
+              <>
+                <FaTrophy /> 登録する
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+
+      <div className="mt-6 glass-card rounded-md p-4 border border-blue-500/30 bg-blue-900/20 text-sm text-blue-300 space-y-1">
+        <p>
+          RP はペアの平均 RP / HC 同士で計算し、ペアの 2 人で分け合います。HC は 2 人とも同じだけ変動します。
+        </p>
+        {endReason !== 'normal' && (
+          <p>{END_REASON_LABEL[endReason]}の試合は、入力したスコアのまま確定されます（レート変動はしません）。</p>
+        )}
+      </div>
+
+      {playersError ? <div className="sr-only">players fetch error: {String(playersError)}</div> : null}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import Link from 'next/link';
-import { FaUserCheck, FaUsers, FaChevronRight } from 'react-icons/fa';
+import { FaUserCheck, FaUserFriends, FaUsers, FaChevronRight } from 'react-icons/fa';
 
 export default function RegisterHubPage() {
   return (
@@ -27,6 +27,25 @@ export default function RegisterHubPage() {
           </div>
         </Link>
 
+        {/* ダブルス */}
+        <Link
+          href="/matches/register/doubles"
+          className="group glass-card rounded-xl p-6 border border-purple-500/30 hover:border-purple-400/60 transition-colors"
+        >
+          <div className="flex items-center gap-4">
+            <div className="p-4 rounded-full bg-sky-500/20">
+              <FaUserFriends className="text-2xl text-sky-300" />
+            </div>
+            <div className="flex-1">
+              <h2 className="text-xl font-bold text-yellow-100">ダブルスを登録</h2>
+              <p className="text-sm text-gray-400">
+                2 対 2 の試合。自分が出場した試合のみ登録できます（管理者は全試合可）。
+              </p>
+            </div>
+            <FaChevronRight className="text-gray-400 group-hover:text-gray-200" />
+          </div>
+        </Link>
+
         {/* チーム戦 */}
         <Link
           href="/matches/register/teams"
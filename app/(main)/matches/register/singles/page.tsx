@@ -34,7 +34,33 @@ type PlayerAdminRow = {
 
 type AdminRow = { user_id: string };
 
-type EndReason = 'normal' | 'time_limit';
+type EndReason = 'normal' | 'time_limit' | 'walkover' | 'forfeit';
+
+const END_REASON_LABEL: Record<EndReason, string> = {
+  normal: '通常',
+  time_limit: '時間切れ',
+  walkover: '不戦勝',
+  forfeit: '棄権',
+};
+
+type PreviewSide = {
+  id: string;
+  handle_name: string;
+  ranking_points: number;
+  handicap: number;
+  next_ranking_points: number;
+  next_handicap: number;
+  points_change: number;
+  handicap_change: number;
+};
+
+type RatingPreview = {
+  affects_rating: boolean;
+  winner: PreviewSide;
+  loser: PreviewSide;
+};
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
 
 async function parseRestError(res: Response) {
   let msg = `HTTP ${res.status}`;
@@ -155,6 +181,8 @@ export default function SinglesRegisterPage() {
 
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  // ★相手の確認待ち（status='submitted'）で登録されたか
+  const [awaitingConfirm, setAwaitingConfirm] = useState(false);
   const [error, setError] = useState('');
   const submittingRef = useRef(false);
 
@@ -178,6 +206,61 @@ export default function SinglesRegisterPage() {
     }
   }, [endReason]);
 
+  // ==== レーティング変動プレビュー（/api/matches/preview） ====
+  const previewIds = useMemo(() => {
+    if (!me?.id) return null;
+    if (adminMode && me.is_admin) {
+      if (!winnerIdAdmin || !loserIdAdmin || winnerIdAdmin === loserIdAdmin) return null;
+      return { winner_id: winnerIdAdmin, loser_id: loserIdAdmin };
+    }
+    if (!opponentId) return null;
+    return iWon ? { winner_id: me.id, loser_id: opponentId } : { winner_id: opponentId, loser_id: me.id };
+  }, [me?.id, me?.is_admin, adminMode, winnerIdAdmin, loserIdAdmin, opponentId, iWon]);
+
+  const [preview, setPreview] = useState<RatingPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState('');
+
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError('');
+    if (endReason !== 'normal' || !previewIds) return;
+
+    const lim = getScoreLimits();
+    const wScore = lim.winnerFixed ? 15 : clamp(toInt(winnerScore, 15), lim.winnerMin, lim.winnerMax);
+    const lScore = clamp(toInt(loserScore, 0), lim.loserMin, lim.loserMax);
+    if (wScore <= lScore) return;
+
+    const ctrl = new AbortController();
+    // 入力中の連打で API を叩きすぎないよう少し待つ
+    const timer = setTimeout(async () => {
+      setPreviewLoading(true);
+      try {
+        const qs = new URLSearchParams({
+          winner_id: previewIds.winner_id,
+          loser_id: previewIds.loser_id,
+          winner_score: String(wScore),
+          loser_score: String(lScore),
+          end_reason: endReason,
+        });
+        const res = await fetch(`/api/matches/preview?${qs.toString()}`, { cache: 'no-store', signal: ctrl.signal });
+        if (!res.ok) throw new Error(await parseRestError(res));
+        const j = await res.json();
+        setPreview(j as RatingPreview);
+      } catch (e: any) {
+        if (e?.name === 'AbortError') return;
+        setPreviewError(e?.message || 'プレビューの取得に失敗しました');
+      } finally {
+        if (!ctrl.signal.aborted) setPreviewLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      ctrl.abort();
+    };
+  }, [previewIds, winnerScore, loserScore, endReason]);
+
   const getScoreLimits = () => {
     if (endReason === 'normal') {
       return { winnerMin: 15, winnerMax: 15, loserMin: 0, loserMax: 14, winnerFixed: true };
@@ -203,8 +286,8 @@ export default function SinglesRegisterPage() {
 
       const match_date = toIsoFromDatetimeLocal(matchDate);
 
-      // ★time_limit は「apply_rating=false」でレート変動しない運用
-      const apply_rating = endReason !== 'time_limit';
+      // ★通常以外（時間切れ/不戦勝/棄権）は「apply_rating=false」でレート変動しない運用
+      const apply_rating = endReason === 'normal';
 
       let winner_id = '';
       let loser_id = '';
@@ -230,7 +313,9 @@ export default function SinglesRegisterPage() {
         winner_score: wScore,
         loser_score: lScore,
         apply_rating,
+        end_reason: endReason,
       };
+      if (endReason === 'time_limit') payload.time_limit_seconds = clamp(toInt(timeLimitMinutes, 10), 1, 240) * 60;
 
       const res = await fetch('/api/matches', {
         method: 'POST',
@@ -244,8 +329,11 @@ export default function SinglesRegisterPage() {
         throw new Error(`登録に失敗しました: ${msg}`);
       }
 
+      const j = await res.json().catch(() => null);
+      const awaiting = j?.status === 'submitted';
+      setAwaitingConfirm(awaiting);
       setSuccess(true);
-      setTimeout(() => router.push('/matches'), 700);
+      setTimeout(() => router.push(awaiting ? '/mypage' : '/matches'), awaiting ? 1500 : 700);
     } catch (err: any) {
       console.error(err);
       setError(err?.message || '登録に失敗しました');
@@ -308,7 +396,11 @@ export default function SinglesRegisterPage() {
       )}
       {success && (
         <div className="glass-card rounded-md p-3 mb-4 border border-green-500/40 bg-green-500/10">
-          <p className="text-green-300 text-sm">🎉 登録しました。まもなく一覧へ移動します…</p>
+          <p className="text-green-300 text-sm">
+            {awaitingConfirm
+              ? '📨 登録しました。相手の確認後にランキングへ反映されます（マイページへ移動します…）'
+              : '🎉 登録しました。まもなく一覧へ移動します…'}
+          </p>
         </div>
       )}
 
@@ -338,6 +430,8 @@ export default function SinglesRegisterPage() {
           >
             <option value="normal">通常（15点先取）</option>
             <option value="time_limit">時間切れ（得点のまま確定）</option>
+            <option value="walkover">不戦勝</option>
+            <option value="forfeit">棄権</option>
           </select>
 
           {endReason === 'time_limit' && (
@@ -532,6 +626,48 @@ export default function SinglesRegisterPage() {
           </div>
         </div>
 
+        {/* レーティング変動プレビュー */}
+        <div className="glass-card rounded-xl p-5 border border-purple-500/30">
+          <p className="text-sm text-gray-300 mb-2">レーティング変動（予想）</p>
+
+          {endReason !== 'normal' ? (
+            <p className="text-sm text-gray-400">
+              {END_REASON_LABEL[endReason]}の試合はレーティング対象外です（RP/HC は変動しません）。
+            </p>
+          ) : !previewIds ? (
+            <p className="text-sm text-gray-500">対戦相手と勝敗を選ぶと、RP/HC の変動が表示されます。</p>
+          ) : previewError ? (
+            <p className="text-sm text-red-300">{previewError}</p>
+          ) : !preview ? (
+            <p className="text-sm text-gray-500">{previewLoading ? '計算中…' : '—'}</p>
+          ) : (
+            <div className={`grid grid-cols-1 sm:grid-cols-2 gap-3 ${previewLoading ? 'opacity-60' : ''}`}>
+              {([
+                ['勝者', preview.winner],
+                ['敗者', preview.loser],
+              ] as const).map(([label, p]) => (
+                <div key={label} className="rounded-lg bg-purple-900/20 border border-purple-500/20 p-3">
+                  <div className="text-xs text-gray-400 mb-1">
+                    {label}：<span className="text-yellow-100">{p.handle_name}</span>
+                  </div>
+                  <div className="text-sm tabular-nums">
+                    RP {p.ranking_points} → <span className="font-semibold">{p.next_ranking_points}</span>
+                    <span className={`ml-1 ${p.points_change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      ({signed(p.points_change)})
+                    </span>
+                  </div>
+                  <div className="text-sm tabular-nums">
+                    HC {p.handicap} → <span className="font-semibold">{p.next_handicap}</span>
+                    {p.handicap_change !== 0 && (
+                      <span className="ml-1 text-amber-300">({signed(p.handicap_change)})</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* 送信 */}
         <div className="flex justify-center">
           <button
@@ -563,7 +699,7 @@ export default function SinglesRegisterPage() {
         {endReason === 'normal' ? (
           <>勝者スコアは 15 点固定、敗者スコアは 0〜14 点で登録されます。</>
         ) : (
-          <>時間切れの試合は、入力したスコアのまま確定されます（レート変動はしません）。</>
+          <>{END_REASON_LABEL[endReason]}の試合は、入力したスコアのまま確定されます（レート変動はしません）。</>
         )}
       </div>
 
@@ -151,6 +151,8 @@ export default function TeamsRegisterPage() {
   const [loserScore, setLoserScore] = useState(0);
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  // ★相手の確認待ち（status='submitted'）で登録されたか
+  const [awaitingConfirm, setAwaitingConfirm] = useState(false);
   const [error, setError] = useState('');
   const submittingRef = useRef(false);
 
@@ -214,8 +216,11 @@ export default function TeamsRegisterPage() {
         }
       }
 
+      const j = await res.json().catch(() => null);
+      const awaiting = j?.status === 'submitted';
+      setAwaitingConfirm(awaiting);
       setSuccess(true);
-      setTimeout(() => router.push('/matches'), 700);
+      setTimeout(() => router.push(awaiting ? '/mypage' : '/matches'), awaiting ? 1500 : 700);
     } catch (err: any) {
       setError(err?.message || '登録に失敗しました');
     } finally {
@@ -316,7 +321,11 @@ export default function TeamsRegisterPage() {
 
       {success && (
         <div className="glass-card rounded-md p-3 mb-4 border border-green-500/40 bg-green-500/10">
-          <p className="text-green-300 text-sm">🎉 登録しました。まもなく一覧へ移動します…</p>
+          <p className="text-green-300 text-sm">
+            {awaitingConfirm
+              ? '📨 登録しました。相手の確認後にランキングへ反映されます（マイページへ移動します…）'
+              : '🎉 登録しました。まもなく一覧へ移動します…'}
+          </p>
         </div>
       )}
 
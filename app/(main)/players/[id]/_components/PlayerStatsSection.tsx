@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FaChartBar, FaSpinner } from 'react-icons/fa';
+import type { PlayerStats, WinLoss } from '@/lib/players/stats';
+
+const END_REASON_LABEL: Record<string, string> = {
+  normal: '通常',
+  time_limit: '時間切れ',
+  walkover: '不戦',
+  forfeit: '棄権',
+};
+
+const fmtRecord = (r: WinLoss) => (r.wins + r.losses > 0 ? `${r.wins}勝 ${r.losses}敗（${r.win_rate.toFixed(1)}%）` : '—');
+
+function StatBox({ label, value, sub }: { label: string; value: React.ReactNode; sub?: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-purple-500/30 bg-gray-900/50 p-3">
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-lg font-bold text-yellow-100">{value}</div>
+      {sub && <div className="text-[11px] text-gray-500">{sub}</div>}
+    </div>
+  );
+}
+
+/** 詳細スタッツ（集計はサーバ側 /api/public/players/[id]/stats） */
+export default function PlayerStatsSection({ playerId }: { playerId: string }) {
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      setMsg('');
+      try {
+        const r = await fetch(`/api/public/players/${playerId}/stats`, { cache: 'no-store' });
+        const j = await r.json().catch(() => null);
+        if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+        if (!cancelled) setStats(j.stats as PlayerStats);
+      } catch (e: any) {
+        if (!cancelled) {
+          setStats(null);
+          setMsg(e?.message ?? 'スタッツの取得に失敗しました');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  const streak = stats?.current_streak;
+
+  return (
+    <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
+      <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5 flex items-center gap-2">
+        <FaChartBar className="text-purple-300" />
+        詳細スタッツ
+      </h2>
+
+      {loading ? (
+        <div className="text-gray-400 py-4">
+          <FaSpinner className="inline mr-2 animate-spin" />
+          集計中…
+        </div>
+      ) : msg ? (
+        <div className="text-sm text-gray-300">{msg}</div>
+      ) : !stats || stats.matches === 0 ? (
+        <div className="text-gray-400">確定した試合がまだありません。</div>
+      ) : (
+        <div className="space-y-5">
+          {/* 連勝 / 直近 10 試合 */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatBox
+              label="現在の連続"
+              value={streak?.kind ? `${streak.count}${streak.kind === 'win' ? '連勝' : '連敗'}` : '—'}
+            />
+            <StatBox label="最高連勝" value={`${stats.best_win_streak}連勝`} />
+            <StatBox label="平均得点" value={stats.avg_points_for ?? '—'} />
+            <StatBox label="平均失点" value={stats.avg_points_against ?? '—'} />
+          </div>
+
+          <div>
+            <div className="text-xs text-gray-400 mb-2">直近 {stats.form.length} 試合（左が最新）</div>
+            <div className="flex flex-wrap gap-1.5">
+              {stats.form.map((f, i) => (
+                <span
+                  key={i}
+                  className={`w-7 h-7 rounded-md flex items-center justify-center text-xs font-bold ${
+                    f === 'W' ? 'bg-green-500/20 text-green-300 border border-green-400/40' : 'bg-red-500/20 text-red-300 border border-red-400/40'
+                  }`}
+                >
+                  {f === 'W' ? '勝' : '負'}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* 相手・場面別 */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <StatBox label="格上（試合前 RP が上）との対戦" value={fmtRecord(stats.vs_higher)} sub="個人戦のみ" />
+            <StatBox label="格下（試合前 RP が下）との対戦" value={fmtRecord(stats.vs_lower)} sub="個人戦のみ" />
+            <StatBox label="大会" value={fmtRecord(stats.tournament)} />
+            <StatBox label="大会以外" value={fmtRecord(stats.casual)} />
+          </div>
+
+          {stats.by_end_reason.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-400 mb-2">終了理由別</div>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {stats.by_end_reason.map((r) => (
+                  <span key={r.end_reason} className="px-3 py-1 rounded-full bg-purple-900/30 text-purple-200">
+                    {END_REASON_LABEL[r.end_reason] ?? r.end_reason}：{fmtRecord(r)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {stats.top_opponents.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-400 mb-2">よく当たる相手</div>
+              <ul className="space-y-1.5 text-sm">
+                {stats.top_opponents.map((o) => (
+                  <li key={o.id} className="flex items-center justify-between gap-3">
+                    <Link href={`/players/${o.id}`} className="text-yellow-100 hover:text-purple-200 truncate">
+                      {o.name}
+                    </Link>
+                    <span className="text-gray-300 whitespace-nowrap">
+                      {o.meetings}試合 ・ {o.wins}勝 {o.losses}敗
+                      <Link
+                        href={`/players/compare?a=${playerId}&b=${o.id}`}
+                        className="ml-2 text-xs text-purple-300 hover:text-purple-200 underline"
+                      >
+                        対戦成績
+                      </Link>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
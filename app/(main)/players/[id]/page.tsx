@@ -13,8 +13,16 @@ import {
   FaUsers,
   FaEdit,
   FaSpinner,
+  FaCalendarAlt,
+  FaAward,
 } from 'react-icons/fa';
 import * as SBHooks from '@/lib/hooks/useFetchSupabaseData';
+import { usePlayerSeasonStandings } from '@/lib/hooks/useSeasons';
+import { seasonLabel } from '@/lib/rating/seasons';
+import { usePlayerAchievements } from '@/lib/hooks/useAchievements';
+import { achievementDef, sortAchievementCodes } from '@/lib/achievements/rules';
+import { AchievementIcon } from '@/components/player/AchievementBadges';
+import PlayerStatsSection from './_components/PlayerStatsSection';
 import { createClient } from '@/lib/supabase/client';
 
 /* ───────────────────────────── Types / helpers ───────────────────────────── */
@@ -245,6 +253,20 @@ export default function PlayerProfilePage() {
   // 個別プレイヤー詳細（試合履歴など）
   const { player, matches, loading, error } = SBHooks.useFetchPlayerDetail(playerId, { requireAuth: false });
 
+  // ✅ シーズン成績（締めた時点の順位 / RP / HC / そのシーズンの勝敗）
+  const { data: seasonRows } = usePlayerSeasonStandings(playerId);
+
+  // ✅ 実績バッジ（表示はルール定義の順）
+  const { data: achievementRows, loading: achievementsLoading } = usePlayerAchievements(playerId);
+  const achievements = useMemo(() => {
+    const earnedAt = new Map((achievementRows ?? []).map((r) => [r.code, r.earned_at]));
+    return sortAchievementCodes(Array.from(earnedAt.keys())).map((code) => ({
+      code,
+      def: achievementDef(code)!,
+      earned_at: earnedAt.get(code) ?? '',
+    }));
+  }, [achievementRows]);
+
   // ★閲覧者（本人/管理者）判定：非表示プレイヤーのガード＆編集導線に使用
   const [viewerChecked, setViewerChecked] = useState(false);
   const [viewerId, setViewerId] = useState<string | null>(null);
@@ -794,6 +816,79 @@ export default function PlayerProfilePage() {
               )}
             </div>
 
+            {/* ── ✅ 詳細スタッツ（サーバ側で集計） ───────────────── */}
+            {playerId && <PlayerStatsSection playerId={playerId} />}
+
+            {/* ── ✅ 実績バッジ ───────────────── */}
+            <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
+              <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5 flex items-center gap-2">
+                <FaAward className="text-purple-300" />
+                実績バッジ
+              </h2>
+
+              {achievementsLoading ? (
+                <div className="text-gray-400">読み込み中...</div>
+              ) : achievements.length === 0 ? (
+                <div className="text-gray-400">まだバッジはありません。</div>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+                  {achievements.map((a) => (
+                    <div
+                      key={a.code}
+                      className="flex items-center gap-3 p-3 rounded-xl border border-purple-500/30 bg-gray-900/50"
+                    >
+                      <div className="w-10 h-10 rounded-full bg-purple-900/40 border border-purple-400/40 flex items-center justify-center text-yellow-200">
+                        <AchievementIcon code={a.code} />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="font-semibold text-yellow-100 truncate">{a.def.label}</div>
+                        <div className="text-xs text-gray-400 truncate">{a.def.description}</div>
+                        {a.earned_at && (
+                          <div className="text-[11px] text-purple-300">{new Date(a.earned_at).toLocaleDateString('ja-JP')} 獲得</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* ── ✅ シーズン成績 ───────────────── */}
+            {(seasonRows?.length ?? 0) > 0 && (
+              <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
+                <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5 flex items-center gap-2">
+                  <FaCalendarAlt className="text-purple-300" />
+                  シーズン成績
+                </h2>
+                <div className="space-y-2">
+                  {(seasonRows ?? []).map((r) => (
+                    <Link
+                      key={r.season_id}
+                      href={`/rankings?season=${r.season_id}`}
+                      className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-xl border border-purple-500/30 bg-gray-900/50 hover:border-purple-400/60 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-semibold text-yellow-100 truncate">
+                          {r.seasons ? seasonLabel(r.seasons) : 'シーズン'}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          RP {r.ranking_points} / HC {r.handicap} / {r.wins}勝 {r.losses}敗
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 text-xl font-bold text-purple-200">
+                        {r.rank <= 3 && (
+                          <FaMedal
+                            className={r.rank === 1 ? 'text-yellow-400' : r.rank === 2 ? 'text-gray-300' : 'text-orange-400'}
+                          />
+                        )}
+                        {r.rank}位
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* ── 直近の試合（簡易） ──────────────────────────── */}
             <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
               <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5">直近の試合</h2>
@@ -819,6 +914,7 @@ export default function PlayerProfilePage() {
                       m?.is_finals === true ||
                       m?.result_type === 'final' ||
                       m?.kind === 'final';
+                    const isDoubles = m?.mode === 'doubles';
 
                     // ✅ ここが今回の要件：常に「自分のスコア」を左にする
                     const selfIsWinner = m.winner_id === playerId;
@@ -866,6 +962,15 @@ export default function PlayerProfilePage() {
                               </div>
                             )}
 
+                            {isDoubles && (
+                              <div className="mt-1 flex items-center gap-2 text-xs text-sky-200/90">
+                                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-sky-500/15 border border-sky-500/25">
+                                  👥 ダブルス
+                                </span>
+                                {m?.partner_name && <span className="truncate">パートナー: {m.partner_name}</span>}
+                              </div>
+                            )}
+
                             <div className="font-semibold text-yellow-100 truncate">
                               {isWin ? '勝利' : '敗北'}：{oppName}
                             </div>
@@ -896,7 +1001,13 @@ export default function PlayerProfilePage() {
                         </div>
 
                         {oppId && (
-                          <div className="mt-1 text-right">
+                          <div className="mt-1 flex justify-end gap-4">
+                            <Link
+                              href={`/players/compare?a=${playerId}&b=${oppId}`}
+                              className="text-pink-300 hover:text-pink-200 text-xs sm:text-sm"
+                            >
+                              対戦成績 →
+                            </Link>
                             <Link
                               href={`/players/${oppId}`}
                               className="text-purple-300 hover:text-purple-200 text-xs sm:text-sm"
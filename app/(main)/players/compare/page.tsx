@@ -0,0 +1,398 @@
+// app/(main)/players/compare/page.tsx
+'use client';
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { FaArrowLeft, FaBalanceScale, FaChartLine, FaHistory, FaSpinner } from 'react-icons/fa';
+import * as SBHooks from '@/lib/hooks/useFetchSupabaseData';
+import type { H2HMeeting, H2HSummary } from '@/lib/players/headToHead';
+
+/* ───────────────────────────── Types ───────────────────────────── */
+type Profile = {
+  id: string;
+  handle_name: string;
+  avatar_url: string | null;
+  ranking_points: number;
+  handicap: number;
+  wins: number;
+  losses: number;
+};
+
+type Snapshot = { snapshot_date: string; rank: number; ranking_points: number | null };
+
+type CompareResponse = {
+  a: Profile;
+  b: Profile;
+  summary: H2HSummary;
+  meetings: H2HMeeting[];
+  snapshots: { a: Snapshot[]; b: Snapshot[] };
+};
+
+const LIMIT_OPTIONS = [5, 10, 20, 50];
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+function Fallback() {
+  return <div className="container mx-auto px-4 py-10 text-center text-gray-300">画面を読み込み中…</div>;
+}
+
+/* ───────────────────────────── Rank overlay chart ───────────────────────────── */
+function RankOverlay({ a, b, aName, bName }: { a: Snapshot[]; b: Snapshot[]; aName: string; bName: string }) {
+  const w = 640;
+  const h = 180;
+  const padX = 20;
+  const padY = 16;
+
+  const dates = Array.from(new Set([...a, ...b].map((s) => s.snapshot_date))).sort();
+  const ranks = [...a, ...b].map((s) => s.rank).filter((n) => Number.isFinite(n) && n > 0);
+  if (dates.length === 0 || ranks.length === 0) {
+    return <div className="text-sm text-gray-400">順位スナップショットがありません。</div>;
+  }
+
+  const minR = Math.min(...ranks);
+  const spanR = Math.max(1, Math.max(...ranks) - minR);
+  const xOf = (d: string) => {
+    if (dates.length === 1) return w / 2;
+    return padX + (dates.indexOf(d) * (w - padX * 2)) / (dates.length - 1);
+  };
+  // 順位が小さいほど上
+  const yOf = (rank: number) => padY + ((rank - minR) * (h - padY * 2)) / spanR;
+  const pathOf = (rows: Snapshot[]) =>
+    rows.map((s, i) => `${i === 0 ? 'M' : 'L'} ${xOf(s.snapshot_date)} ${yOf(s.rank)}`).join(' ');
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-2 text-xs">
+        <span className="inline-flex items-center gap-1 text-purple-200">
+          <span className="w-3 h-0.5 bg-purple-300 inline-block" /> {aName}
+        </span>
+        <span className="inline-flex items-center gap-1 text-pink-200">
+          <span className="w-3 h-0.5 bg-pink-300 inline-block" /> {bName}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-[180px]">
+        <rect x="0" y="0" width={w} height={h} rx="12" className="fill-black/20" />
+        <path d={pathOf(a)} className="stroke-purple-300" strokeWidth="2.5" fill="none" />
+        <path d={pathOf(b)} className="stroke-pink-300" strokeWidth="2.5" fill="none" />
+        {a.map((s) => (
+          <circle key={`a-${s.snapshot_date}`} cx={xOf(s.snapshot_date)} cy={yOf(s.rank)} r="3" className="fill-purple-200" />
+        ))}
+        {b.map((s) => (
+          <circle key={`b-${s.snapshot_date}`} cx={xOf(s.snapshot_date)} cy={yOf(s.rank)} r="3" className="fill-pink-200" />
+        ))}
+      </svg>
+
+      <div className="mt-2 flex justify-between text-[11px] text-gray-400 tabular-nums">
+        <span>{dates[0]}</span>
+        <span>{dates[dates.length - 1]}</span>
+      </div>
+      <div className="mt-2 text-[11px] text-gray-500">※ 0:00（JST）集計の順位スナップショットを重ねて表示します</div>
+    </div>
+  );
+}
+
+/* ───────────────────────────── Player picker ───────────────────────────── */
+function PlayerPicker({
+  label,
+  value,
+  exclude,
+  players,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  exclude: string;
+  players: Array<{ id: string; handle_name: string }>;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-800/70 border border-purple-500/30 text-gray-100"
+      >
+        <option value="">選択してください</option>
+        {players
+          .filter((p) => p.id !== exclude)
+          .map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.handle_name}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+function ProfileCard({ p, tone }: { p: Profile; tone: 'purple' | 'pink' }) {
+  return (
+    <Link
+      href={`/players/${p.id}`}
+      className={`flex flex-col items-center gap-2 p-4 rounded-2xl bg-gray-900/60 border ${
+        tone === 'purple' ? 'border-purple-500/40' : 'border-pink-500/40'
+      } hover:bg-gray-900/80`}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={p.avatar_url || '/default-avatar.png'}
+        alt={p.handle_name}
+        className="w-16 h-16 rounded-full object-cover border-2 border-purple-500/40"
+      />
+      <div className="font-bold text-yellow-100 text-center break-all">{p.handle_name}</div>
+      <div className="text-xs text-gray-300 tabular-nums">
+        {p.ranking_points}pt ／ HC {p.handicap}
+      </div>
+      <div className="text-[11px] text-gray-400 tabular-nums">
+        通算 {p.wins}勝 {p.losses}敗
+      </div>
+    </Link>
+  );
+}
+
+/* ───────────────────────────── Inner page ───────────────────────────── */
+function CompareInner() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const search = useSearchParams();
+  const a = search.get('a') ?? '';
+  const b = search.get('b') ?? '';
+
+  const [limit, setLimit] = useState(10);
+  const [data, setData] = useState<CompareResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { players } = SBHooks.useFetchPlayersData({ requireAuth: false });
+  const playerOptions = useMemo(
+    () =>
+      (Array.isArray(players) ? players : [])
+        .map((p: any) => ({ id: String(p.id), handle_name: String(p.handle_name ?? '') }))
+        .sort((x, y) => x.handle_name.localeCompare(y.handle_name, 'ja')),
+    [players],
+  );
+
+  const setPair = (nextA: string, nextB: string) => {
+    const q = new URLSearchParams();
+    if (nextA) q.set('a', nextA);
+    if (nextB) q.set('b', nextB);
+    router.replace(`${pathname}?${q.toString()}`, { scroll: false });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!a || !b || a === b) {
+      setData(null);
+      setError('');
+      return;
+    }
+
+    (async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const q = new URLSearchParams({ a, b, limit: String(limit) });
+        const r = await fetch(`/api/public/head-to-head?${q.toString()}`, { cache: 'no-store' });
+        const j = await r.json().catch(() => null);
+        if (!r.ok || !j?.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+        if (!cancelled) setData(j as CompareResponse);
+      } catch (e: any) {
+        if (!cancelled) {
+          setData(null);
+          setError(e?.message || '読み込みに失敗しました');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [a, b, limit]);
+
+  const s = data?.summary;
+  const aRate = s && s.meetings ? Math.round((s.a_wins / s.meetings) * 100) : null;
+
+  return (
+    <div className="min-h-screen bg-[#2a2a3e] text-white">
+      <div className="container mx-auto px-4 py-6 sm:py-8 max-w-4xl">
+        <div className="mb-6">
+          <Link href={a ? `/players/${a}` : '/rankings'} className="inline-flex items-center gap-2 text-purple-300 hover:text-purple-200">
+            <FaArrowLeft /> 戻る
+          </Link>
+        </div>
+
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-3">
+            <div className="p-3 bg-gradient-to-r from-purple-600 to-pink-600 rounded-full">
+              <FaBalanceScale className="text-2xl text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            対戦成績
+          </h1>
+          <p className="text-gray-400 text-sm">2 人の個人戦での直接対決を比較します（ダブルス・団体戦は含みません）</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+          <PlayerPicker label="選手 A" value={a} exclude={b} players={playerOptions} onChange={(id) => setPair(id, b)} />
+          <PlayerPicker label="選手 B" value={b} exclude={a} players={playerOptions} onChange={(id) => setPair(a, id)} />
+        </div>
+
+        {(!a || !b) && <div className="text-center text-gray-400 py-10">比較する 2 人を選んでください。</div>}
+
+        {loading && (
+          <div className="text-center text-gray-300 py-10">
+            <FaSpinner className="inline animate-spin mr-2" />
+            読み込み中…
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-4 text-red-200 text-sm">{error}</div>
+        )}
+
+        {data && s && !loading && (
+          <>
+            {/* 対戦カード */}
+            <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 sm:gap-6 mb-6">
+              <ProfileCard p={data.a} tone="purple" />
+              <div className="text-center">
+                <div className="text-4xl sm:text-5xl font-extrabold tabular-nums">
+                  <span className="text-purple-200">{s.a_wins}</span>
+                  <span className="text-gray-500 mx-2">-</span>
+                  <span className="text-pink-200">{s.b_wins}</span>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">{s.meetings} 試合</div>
+              </div>
+              <ProfileCard p={data.b} tone="pink" />
+            </div>
+
+            {/* 集計 */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-8">
+              <div className="rounded-xl bg-gray-900/60 border border-purple-500/30 p-4 text-center">
+                <div className="text-xs text-gray-400">A の勝率</div>
+                <div className="text-2xl font-bold text-yellow-100">{aRate === null ? '—' : `${aRate}%`}</div>
+              </div>
+              <div className="rounded-xl bg-gray-900/60 border border-purple-500/30 p-4 text-center">
+                <div className="text-xs text-gray-400">平均点差（A 視点）</div>
+                <div className="text-2xl font-bold text-yellow-100">
+                  {s.avg_margin === null ? '—' : signed(s.avg_margin)}
+                </div>
+              </div>
+              <div className="rounded-xl bg-gray-900/60 border border-purple-500/30 p-4 text-center">
+                <div className="text-xs text-gray-400">平均点差（勝者）</div>
+                <div className="text-2xl font-bold text-yellow-100">{s.avg_abs_margin ?? '—'}</div>
+              </div>
+              <div className="rounded-xl bg-gray-900/60 border border-purple-500/30 p-4 text-center">
+                <div className="text-xs text-gray-400">連勝中</div>
+                <div className="text-lg font-bold text-yellow-100 truncate">
+                  {s.a_streak > 0
+                    ? `${data.a.handle_name} ${s.a_streak}`
+                    : s.b_streak > 0
+                      ? `${data.b.handle_name} ${s.b_streak}`
+                      : '—'}
+                </div>
+              </div>
+            </div>
+
+            {/* 直近の対戦 */}
+            <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-6 mb-8">
+              <div className="flex items-center justify-between gap-3 mb-4">
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                  <FaHistory className="text-purple-400" />
+                  直近の対戦
+                </h2>
+                <select
+                  value={limit}
+                  onChange={(e) => setLimit(Number(e.target.value))}
+                  className="px-2 py-1 rounded-lg bg-gray-800/70 border border-purple-500/30 text-sm"
+                >
+                  {LIMIT_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n} 件
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {data.meetings.length === 0 ? (
+                <div className="text-sm text-gray-400">まだ対戦がありません。</div>
+              ) : (
+                <div className="space-y-3">
+                  {data.meetings.map((m) => {
+                    const aScore = m.a_won ? m.winner_score : m.loser_score;
+                    const bScore = m.a_won ? m.loser_score : m.winner_score;
+                    return (
+                      <div
+                        key={m.id}
+                        className={`rounded-xl p-3 sm:p-4 border ${
+                          m.a_won ? 'bg-purple-500/10 border-purple-500/30' : 'bg-pink-500/10 border-pink-500/30'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="text-xs text-gray-400">
+                              {m.match_date ? new Date(m.match_date).toLocaleDateString('ja-JP') : '—'}
+                              {m.tournament_name && <span className="ml-2 text-yellow-200/90">🏆 {m.tournament_name}</span>}
+                            </div>
+                            <div className="font-semibold text-yellow-100 truncate">
+                              {m.a_won ? data.a.handle_name : data.b.handle_name} の勝ち
+                            </div>
+                          </div>
+                          <div className="text-xl font-extrabold tabular-nums">
+                            <span className="text-purple-200">{aScore}</span>
+                            <span className="text-gray-500 mx-1">-</span>
+                            <span className="text-pink-200">{bScore}</span>
+                          </div>
+                        </div>
+                        <div className="mt-2 grid grid-cols-2 gap-2 text-[11px] text-gray-300 tabular-nums">
+                          <div>
+                            A: {m.a_after ? `${m.a_after.points}pt ／ HC ${m.a_after.handicap}` : '—'}
+                          </div>
+                          <div className="text-right">
+                            B: {m.b_after ? `${m.b_after.points}pt ／ HC ${m.b_after.handicap}` : '—'}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="mt-3 text-[11px] text-gray-500">
+                ※ RP / HC は各試合の直後の値です（現在値からその後の試合の変動を差し引いた推定値）
+              </div>
+            </div>
+
+            {/* 順位推移 */}
+            <div className="bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-6">
+              <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+                <FaChartLine className="text-purple-400" />
+                順位推移
+              </h2>
+              <RankOverlay
+                a={data.snapshots.a}
+                b={data.snapshots.b}
+                aName={data.a.handle_name}
+                bName={data.b.handle_name}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ───────────────────────────── Default export: wrap in Suspense ───────────────────────────── */
+export default function PlayerComparePage() {
+  return (
+    <Suspense fallback={<Fallback />}>
+      <CompareInner />
+    </Suspense>
+  );
+}
@@ -18,6 +18,10 @@ import { useRouter, useSearchParams, usePathname } from 'next/navigation';
 // ★PATCH: useFetchPlayersData だと is_active===true で落ちるため、生データ取得に差し替え
 import { useFetchSupabaseData } from '@/lib/hooks/useFetchSupabaseData';
 import { useTeamRankings, TeamRankItem } from '@/lib/hooks/useTeamRankings';
+import { useClosedSeasons, useSeasonStandings } from '@/lib/hooks/useSeasons';
+import { useAchievementCodes } from '@/lib/hooks/useAchievements';
+import { AchievementBadges } from '@/components/player/AchievementBadges';
+import { seasonLabel } from '@/lib/rating/seasons';
 import { MobileLoadingState } from '@/components/MobileLoadingState';
 import { calcWinRate } from '@/lib/stats';
 import { FaArrowUp, FaArrowDown, FaMinus } from 'react-icons/fa';
@@ -214,7 +218,7 @@ const TrendMark = memo(function TrendMark({ trend }: { trend: Trend }) {
 
 /* ─────────────────────────── Player Card ─────────────────────────── */
 const PlayerCard = memo(
-  function PlayerCard({ player, rank, trend }: { player: Player; rank: number; trend: Trend }) {
+  function PlayerCard({ player, rank, trend, badges }: { player: Player; rank: number; trend: Trend; badges?: string[] }) {
     const isTop3 = rank <= 3;
 
     const games = (player.wins ?? 0) + (player.losses ?? 0);
@@ -261,6 +265,8 @@ const PlayerCard = memo(
                 <span className="px-2 py-1 rounded-full bg-purple-900/30 text-purple-300 whitespace-nowrap">
                   ハンディ: {player.handicap ?? 0}
                 </span>
+                {/* ✅ 実績バッジ（アイコンのみ） */}
+                <AchievementBadges codes={badges ?? []} compact />
               </div>
             </div>
 
@@ -296,6 +302,7 @@ const PlayerCard = memo(
     return (
       prev.rank === next.rank &&
       prev.trend === next.trend &&
+      (prev.badges ?? []).join(',') === (next.badges ?? []).join(',') &&
       a.id === b.id &&
       a.handle_name === b.handle_name &&
       a.avatar_url === b.avatar_url &&
@@ -447,16 +454,21 @@ function RankingsInner() {
   const initialTab = (search.get('tab') as TabKey) || 'players';
   const [tab, setTab] = useState<TabKey>(initialTab);
 
+  // ✅ シーズン: ?season=<id> で締め済みシーズンの最終順位を表示（空 = 現在）
+  const [season, setSeason] = useState<string>(search.get('season') ?? '');
+
   // タブ切替時に URL を同期（履歴を汚さない）※空クエリで '?' が残らないように修正
   useEffect(() => {
     const sp = new URLSearchParams(search.toString());
     if (tab === 'players') sp.delete('tab');
     else sp.set('tab', tab);
+    if (tab === 'players' && season) sp.set('season', season);
+    else sp.delete('season');
     const qs = sp.toString();
     const next = qs ? `${pathname}?${qs}` : `${pathname}`;
     router.replace(next, { scroll: false });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tab]);
+  }, [tab, season]);
 
   /* ── Players ── */
   // ★PATCH: 生の players を取得（is_active が null の既存会員も取れる）
@@ -496,9 +508,39 @@ function RankingsInner() {
 
   }, [normalizedPlayers]);
 
+  /* ── シーズン（締めた時点の順位 / RP / HC / そのシーズンの勝敗） ── */
+  const { data: closedSeasons } = useClosedSeasons({ enabled: tab === 'players' });
+  const {
+    data: standings,
+    loading: sLoading,
+    error: sError,
+    retrying: sRetrying,
+    refetch: sRefetch,
+  } = useSeasonStandings(tab === 'players' ? season : null);
+
+  const seasonPlayers = useMemo(
+    () =>
+      (standings ?? []).map<Player>((r) => ({
+        id: r.player_id,
+        handle_name: r.players?.handle_name ?? '(退会したプレーヤー)',
+        avatar_url: r.players?.avatar_url ?? null,
+        ranking_points: r.ranking_points,
+        handicap: r.handicap,
+        wins: r.wins,
+        losses: r.losses,
+      })),
+    [standings],
+  );
+  // 保存済みの順位をそのまま使う（締めた時点の同点同順位）
+  const seasonRankById = useMemo(() => new Map((standings ?? []).map((r) => [r.player_id, r.rank])), [standings]);
+
+  const listPlayers = season ? seasonPlayers : players;
+  const listLoading = season ? sLoading : pLoading;
+  const listError = season ? sError : pError;
+
   const [sortByPlayers, setSortByPlayers] = useState<'points' | 'handicap'>('points');
   const [isPendingPlayers, startTransitionPlayers] = useTransition();
-  const deferredPlayers = useDeferredValue(players);
+  const deferredPlayers = useDeferredValue(listPlayers);
 
   // ★ここが本丸：表示順＋同点同順位を作る（pointsのときだけ）
   const rankedPlayers: RankedPlayer[] = useMemo(() => {
@@ -506,6 +548,7 @@ function RankingsInner() {
 
     if (sortByPlayers === 'points') {
       arr.sort(sortPlayersByPointsThenHc);
+      if (season) return arr.map((p, i) => ({ player: p, rank: seasonRankById.get(p.id) ?? i + 1 }));
       return withCompetitionRank(arr);
     }
 
@@ -521,7 +564,7 @@ function RankingsInner() {
       return (a.handle_name ?? '').localeCompare(b.handle_name ?? '', 'ja');
     });
     return arr.map((p, i) => ({ player: p, rank: i + 1 }));
-  }, [deferredPlayers, sortByPlayers]);
+  }, [deferredPlayers, sortByPlayers, season, seasonRankById]);
 
   const playerStats = useMemo(() => {
     const arr = deferredPlayers as Player[];
@@ -560,6 +603,11 @@ function RankingsInner() {
   // 2) 今回の順位が確定したら、前回スナップショットと比較して矢印を作る（保存はしない）
   useEffect(() => {
     if (tab !== 'players') return;
+    // 過去シーズン表示中は矢印を出さない（前回訪問のスナップショットも上書きしない）
+    if (season) {
+      setTrendById({});
+      return;
+    }
     if (!rankedPlayers || rankedPlayers.length === 0) {
       setTrendById({});
       latestSnapshotRef.current = {};
@@ -576,7 +624,7 @@ function RankingsInner() {
       nextTrend[id] = computeTrend(prev[id], current[id]);
     }
     setTrendById(nextTrend);
-  }, [tab, rankedPlayers]);
+  }, [tab, season, rankedPlayers]);
 
   // 3) 「保存タイミング」：ページ離脱時（unmount / タブクローズ / 背景化）に今回スナップショットを保存
   useEffect(() => {
@@ -612,7 +660,7 @@ function RankingsInner() {
   const [pagePlayers, setPagePlayers] = useState(0); // 0-based
   useEffect(() => {
     setPagePlayers(0);
-  }, [tab, sortByPlayers]); // タブ/ソートが変わったら先頭へ
+  }, [tab, sortByPlayers, season]); // タブ/ソート/シーズンが変わったら先頭へ
 
   const totalPlayers = rankedPlayers.length;
   const totalPlayersPages = Math.max(1, Math.ceil(totalPlayers / PAGE_SIZE));
@@ -622,6 +670,10 @@ function RankingsInner() {
   const pagedRankedPlayers = useMemo(() => {
     return rankedPlayers.slice(playersStart, playersStart + PAGE_SIZE);
   }, [rankedPlayers, playersStart]);
+
+  // ✅ 実績バッジは表示中の 10 件分だけ引く
+  const pagedPlayerIds = useMemo(() => pagedRankedPlayers.map((r) => r.player.id), [pagedRankedPlayers]);
+  const badgesById = useAchievementCodes(tab === 'players' ? pagedPlayerIds : []);
   /* ─────────────────────────────────────────────────────────────────────────── */
 
   const renderPlayerItem = useCallback(
@@ -733,16 +785,37 @@ function RankingsInner() {
       {/* ── 個人タブ ── */}
       {tab === 'players' && (
         <>
+          {/* シーズン切替（締め済みシーズンがあるときだけ） */}
+          {(closedSeasons?.length ?? 0) > 0 && (
+            <div className="mb-6 flex justify-center">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+                シーズン
+                <select
+                  value={season}
+                  onChange={(e) => setSeason(e.target.value)}
+                  className="px-3 py-2 rounded-lg bg-purple-900/30 border border-purple-500/30 text-white focus:outline-none focus:border-purple-400"
+                >
+                  <option value="">現在のランキング</option>
+                  {(closedSeasons ?? []).map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {seasonLabel(s)} 最終順位
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
           <MobileLoadingState
-            loading={pLoading}
-            error={pError}
-            retrying={pRetrying}
-            onRetry={pRefetch}
-            emptyMessage="アクティブなプレーヤーがいません"
-            dataLength={players.length}
+            loading={listLoading}
+            error={listError}
+            retrying={season ? sRetrying : pRetrying}
+            onRetry={season ? sRefetch : pRefetch}
+            emptyMessage={season ? 'このシーズンの記録はありません' : 'アクティブなプレーヤーがいません'}
+            dataLength={listPlayers.length}
           />
 
-          {!pLoading && !pError && players.length > 0 && (
+          {!listLoading && !listError && listPlayers.length > 0 && (
             <>
               <StatsCardsPlayers stats={playerStats} />
 
@@ -806,7 +879,15 @@ function RankingsInner() {
               <div className="space-y-3 sm:space-y-4">
                 {pagedRankedPlayers.map((r) => {
                   const trend = trendById[r.player.id] ?? 'same';
-                  return <PlayerCard key={r.player.id} player={r.player} rank={r.rank} trend={trend} />;
+                  return (
+                    <PlayerCard
+                      key={r.player.id}
+                      player={r.player}
+                      rank={r.rank}
+                      trend={trend}
+                      badges={badgesById[r.player.id]}
+                    />
+                  );
                 })}
               </div>
 
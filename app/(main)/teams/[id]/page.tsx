@@ -12,6 +12,8 @@ import {
   FaTrophy,
 } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import { RUBBER_KIND_LABELS, isRubberKind } from '@/lib/matches/rubbers';
+import { TEAM_RATING_INITIAL } from '@/lib/rating/teamElo';
 
 /* ============================== Types ============================== */
 type TeamBase = {
@@ -34,8 +36,20 @@ type Team = TeamBase & {
   wins?: number | null;
   losses?: number | null;
   handicap?: number | null; // Math.round(avg_hc)
+  rating?: number | null; // teams.rating（団体戦だけで動くチームレート）
+  rating_matches?: number | null;
 };
 
+type RatingHistoryRow = {
+  match_id: string;
+  won: boolean;
+  rating_after: number;
+  delta: number;
+  created_at: string;
+};
+
+type RatingPoint = { label: string; rating: number; won: boolean; delta: number };
+
 type PlayerLite = {
   id: string;
   handle_name: string;
@@ -56,21 +70,46 @@ type MatchRow = {
   match_date?: string | null;
   winner_score?: number | null;
   loser_score?: number | null;
+  metadata?: { team_match_id?: string | null } | null;
 };
 
 type MatchPlayerRow = {
   match_id: string;
   player_id: string;
   side_no: number | null;
+  rubber_no?: number | null;
   players?: PlayerLite | null;
   matches?: MatchRow | null;
 };
 
+type MatchRubberRow = {
+  match_id: string;
+  rubber_no: number;
+  kind: string;
+  side1_score: number;
+  side2_score: number;
+  winner_side: number;
+  affects_rating: boolean | null;
+};
+
+// 団体戦の個別試合（このチームから見たスコア・勝敗）
+type RubberItem = {
+  rubber_no: number;
+  kind: string;
+  ourScore: number;
+  theirScore: number;
+  won: boolean;
+  affectsRating: boolean;
+  teammates: PlayerLite[];
+  opponents: PlayerLite[];
+};
+
 type MatchItem = {
   id: string;
   match: MatchRow;
   teammates: PlayerLite[]; // このチームから出場した選手
   opponents: PlayerLite[]; // 相手側（他チーム/未所属を含む）
+  rubbers: RubberItem[];
 };
 
 /* ============================== Helpers ============================== */
@@ -101,6 +140,69 @@ function winRateOf(t?: Team | null) {
   return g ? Math.round((w / g) * 100) : 0;
 }
 
+/** チームレートの推移（団体戦ごと。先頭は初期値） */
+function TeamRatingLine({ points, current }: { points: RatingPoint[]; current: number }) {
+  const w = 320;
+  const h = 120;
+  const padX = 18;
+  const padY = 14;
+
+  if (points.length === 0) {
+    return <div className="text-sm text-gray-400">まだ団体戦の記録がありません。</div>;
+  }
+
+  const values = points.map((p) => p.rating);
+  const n = values.length;
+  const minV = Math.min(...values);
+  const maxV = Math.max(...values);
+  const span = Math.max(1, maxV - minV);
+
+  const xOf = (i: number) => (n === 1 ? w / 2 : padX + (i * (w - padX * 2)) / (n - 1));
+  // レートが高いほど上（y が小さい）
+  const yOf = (v: number) => padY + ((maxV - v) * (h - padY * 2)) / span;
+
+  const coords = values.map((v, i) => [xOf(i), yOf(v)] as const);
+  const path = coords.map(([x, y], i) => (i === 0 ? `M ${x} ${y}` : `L ${x} ${y}`)).join(' ');
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+        <span>
+          最高 <span className="text-yellow-100 font-semibold tabular-nums">{maxV}</span> ／ 最低{' '}
+          <span className="tabular-nums">{minV}</span>
+        </span>
+        <span>
+          現在: <span className="text-yellow-100 font-semibold tabular-nums">{current}</span>
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-[120px]">
+        <rect x="0" y="0" width={w} height={h} rx="12" className="fill-black/20" />
+        <path d={path} className="stroke-purple-300" strokeWidth="2.5" fill="none" />
+        {coords.map(([x, y], i) => (
+          <circle
+            key={i}
+            cx={x}
+            cy={y}
+            r="4"
+            className={i === 0 ? 'fill-gray-400' : points[i].won ? 'fill-green-400' : 'fill-red-400'}
+          >
+            <title>
+              {points[i].label} {points[i].rating}
+              {i > 0 ? `（${points[i].delta > 0 ? '+' : ''}${points[i].delta}）` : ''}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="mt-2 flex justify-between text-[11px] text-gray-400">
+        <span className="tabular-nums">{points[0].label}</span>
+        <span className="tabular-nums">{points[n - 1].label}</span>
+      </div>
+    </div>
+  );
+}
+
 /* ============================== Page ============================== */
 export default function TeamProfilePage() {
   const params = useParams<{ id: string }>();
@@ -118,6 +220,8 @@ export default function TeamProfilePage() {
   const [matches, setMatches] = useState<MatchItem[]>([]);
   const [loadingMatches, setLoadingMatches] = useState(true);
 
+  const [ratingPoints, setRatingPoints] = useState<RatingPoint[]>([]);
+
   /* -------- チーム基本情報 + ランキング指標（安全取得） -------- */
   useEffect(() => {
     let cancelled = false;
@@ -148,8 +252,22 @@ export default function TeamProfilePage() {
           stats = null; // ビューが無い環境でも落ちない
         }
 
+        // 3) チームレート（列が無い環境でも落ちない）
+        let rating: { rating?: number | null; rating_matches?: number | null } | null = null;
+        try {
+          const { data: r, error: rErr } = await (supabase.from('teams') as any)
+            .select('rating, rating_matches')
+            .eq('id', teamId)
+            .maybeSingle();
+          if (!rErr && r) rating = r;
+        } catch {
+          rating = null;
+        }
+
         const combined: Team = {
           ...base,
+          rating: rating?.rating ?? null,
+          rating_matches: rating?.rating_matches ?? null,
           ranking_points: stats?.avg_rp != null ? Math.round(stats.avg_rp) : null,
           wins: stats?.wins ?? null,
           losses: stats?.losses ?? null,
@@ -171,6 +289,50 @@ export default function TeamProfilePage() {
     };
   }, [supabase, teamId]);
 
+  /* -------- チームレート推移（team_rating_history を試合日順に） -------- */
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!teamId) return;
+      try {
+        const { data, error } = await (supabase.from('team_rating_history') as any)
+          .select('match_id, won, rating_after, delta, created_at')
+          .eq('team_id', teamId);
+        if (error) throw error;
+        const rows = (data ?? []) as RatingHistoryRow[];
+
+        // 再計算すると created_at がそろうので、並びは試合日で付ける
+        const ids = rows.map((r) => r.match_id);
+        const { data: ms } = ids.length
+          ? await (supabase.from('matches') as any).select('id, match_date').in('id', ids)
+          : { data: [] };
+        const dateOf = new Map<string, string>(
+          ((ms ?? []) as { id: string; match_date: string | null }[]).map((m) => [String(m.id), m.match_date ?? '']),
+        );
+        const keyOf = (r: RatingHistoryRow) => dateOf.get(r.match_id) || r.created_at || '';
+        rows.sort((a, b) => keyOf(a).localeCompare(keyOf(b)));
+
+        const label = (iso: string) => {
+          const d = new Date(iso);
+          return Number.isNaN(d.getTime()) ? '' : `${d.getMonth() + 1}/${d.getDate()}`;
+        };
+        const points: RatingPoint[] = rows.length
+          ? [
+              { label: '開始', rating: rows[0].rating_after - rows[0].delta, won: false, delta: 0 },
+              ...rows.map((r) => ({ label: label(keyOf(r)), rating: r.rating_after, won: r.won, delta: r.delta })),
+            ]
+          : [];
+
+        if (!cancelled) setRatingPoints(points);
+      } catch {
+        if (!cancelled) setRatingPoints([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, teamId]);
+
   /* -------- メンバー一覧 -------- */
   useEffect(() => {
     let cancelled = false;
@@ -205,6 +367,7 @@ export default function TeamProfilePage() {
      1) チームメンバーが参加した match_players を取得（matches join 付）
      2) その match_id すべてについて、対戦相手側も含めた match_players を再取得
      3) teammates/opponents に振り分け
+     4) 団体戦は match_rubbers から個別試合を付ける（RP 反映用に作られた個人戦は親の団体戦の中に出す）
   ----------------------------------------------------------------- */
   useEffect(() => {
     let cancelled = false;
@@ -219,14 +382,20 @@ export default function TeamProfilePage() {
 
         // 1) チームメンバーが出た試合
         const { data: mp1, error: e1 } = await (supabase.from('match_players') as any)
-          .select('match_id, player_id, side_no, players:player_id(id, handle_name, avatar_url), matches:matches(id, mode, status, match_date, winner_score, loser_score)')
+          .select('match_id, player_id, side_no, players:player_id(id, handle_name, avatar_url), matches:matches(id, mode, status, match_date, winner_score, loser_score, metadata)')
           .in('player_id', memberIds)
           .order('match_date', { foreignTable: 'matches', ascending: false })
           .limit(50);
         if (e1) throw e1;
 
         const mpRows1 = (mp1 ?? []) as MatchPlayerRow[];
-        const matchIds = Array.from(new Set(mpRows1.map((r) => r.match_id))).filter(Boolean) as string[];
+        const allIds = Array.from(new Set(mpRows1.map((r) => r.match_id))).filter(Boolean) as string[];
+        const parentOf = (mid: string) =>
+          mpRows1.find((r) => r.match_id === mid && r.matches?.id)?.matches?.metadata?.team_match_id ?? null;
+        const matchIds = allIds.filter((mid) => {
+          const parent = parentOf(mid);
+          return !parent || !allIds.includes(parent);
+        });
         if (matchIds.length === 0) {
           if (!cancelled) setMatches([]);
           return;
@@ -234,11 +403,25 @@ export default function TeamProfilePage() {
 
         // 2) 同試合の全参加者（相手側も含める）
         const { data: mp2, error: e2 } = await (supabase.from('match_players') as any)
-          .select('match_id, player_id, side_no, players:player_id(id, handle_name, avatar_url)')
+          .select('match_id, player_id, side_no, rubber_no, players:player_id(id, handle_name, avatar_url)')
           .in('match_id', matchIds);
         if (e2) throw e2;
         const mpRows2 = (mp2 ?? []) as MatchPlayerRow[];
 
+        // 団体戦の個別試合（テーブルが無い環境でも落ちない）
+        const rubbersByMatch = new Map<string, MatchRubberRow[]>();
+        try {
+          const { data: rb } = await (supabase.from('match_rubbers') as any)
+            .select('match_id, rubber_no, kind, side1_score, side2_score, winner_side, affects_rating')
+            .in('match_id', matchIds)
+            .order('rubber_no', { ascending: true });
+          ((rb ?? []) as MatchRubberRow[]).forEach((r) => {
+            rubbersByMatch.set(r.match_id, [...(rubbersByMatch.get(r.match_id) ?? []), r]);
+          });
+        } catch {
+          // noop
+        }
+
         // 3) マッチID単位でまとめる
         const byMatchAll = new Map<string, MatchPlayerRow[]>();
         mpRows2.forEach((r) => {
@@ -261,9 +444,12 @@ export default function TeamProfilePage() {
 
           const teammates: PlayerLite[] = [];
           const opponents: PlayerLite[] = [];
+          // 団体戦の出場選手は個別試合ごとに入っているので、試合単位では 1 人 1 回にまとめる
+          const seen = new Set<string>();
           rowsAll.forEach((r) => {
             const pl = r.players ?? undefined;
-            if (!pl) return;
+            if (!pl || seen.has(r.player_id)) return;
+            seen.add(r.player_id);
             const isTeamMember = memberIds.includes(r.player_id);
             if (isTeamMember) {
               teammates.push(pl);
@@ -287,7 +473,27 @@ export default function TeamProfilePage() {
             loser_score: null,
           };
 
-          return { id: mid, match, teammates, opponents };
+          const rubbers: RubberItem[] = (rubbersByMatch.get(mid) ?? []).map((rb) => {
+            const rows = rowsAll.filter((r) => r.rubber_no === rb.rubber_no);
+            const ourSide = rows.find((r) => memberIds.includes(r.player_id))?.side_no ?? 1;
+            const pick = (mine: boolean) =>
+              rows
+                .filter((r) => (r.side_no === ourSide) === mine)
+                .map((r) => r.players)
+                .filter((pl): pl is PlayerLite => !!pl);
+            return {
+              rubber_no: rb.rubber_no,
+              kind: rb.kind,
+              ourScore: ourSide === 1 ? rb.side1_score : rb.side2_score,
+              theirScore: ourSide === 1 ? rb.side2_score : rb.side1_score,
+              won: rb.winner_side === ourSide,
+              affectsRating: rb.affects_rating === true,
+              teammates: pick(true),
+              opponents: pick(false),
+            };
+          });
+
+          return { id: mid, match, teammates, opponents, rubbers };
         });
 
         if (!cancelled) setMatches(items);
@@ -357,12 +563,23 @@ export default function TeamProfilePage() {
                     {team.name}
                   </h1>
 
-                  {/* 概要（RP / HC / 勝敗 / 勝率） */}
-                  <div className="mt-5 grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+                  {/* 概要（チームレート / RP / HC / 勝敗 / 勝率） */}
+                  <div className="mt-5 grid grid-cols-2 sm:grid-cols-5 gap-3 sm:gap-4">
+                    <div className="col-span-2 sm:col-span-1 text-center rounded-xl bg-gray-900/60 border border-yellow-500/30 p-4 sm:p-5">
+                      <div className="flex items-center justify-center gap-2 text-yellow-200 mb-1">
+                        <FaTrophy className="text-lg sm:text-xl" />
+                        <span className="text-xs sm:text-sm">チームレート</span>
+                      </div>
+                      <div className="text-3xl sm:text-4xl font-black text-yellow-100 tracking-tight">
+                        {team.rating ?? TEAM_RATING_INITIAL}
+                      </div>
+                      <div className="text-[11px] text-gray-500">団体戦 {team.rating_matches ?? 0} 試合</div>
+                    </div>
+
                     <div className="text-center rounded-xl bg-gray-900/60 border border-purple-500/30 p-4 sm:p-5">
                       <div className="flex items-center justify-center gap-2 text-purple-200 mb-1">
                         <FaMedal className="text-lg sm:text-xl" />
-                        <span className="text-xs sm:text-sm">ランキングポイント</span>
+                        <span className="text-xs sm:text-sm">平均RP</span>
                       </div>
                       <div className="text-3xl sm:text-4xl font-black text-yellow-100 tracking-tight">
                         {team.ranking_points ?? 0}
@@ -415,6 +632,15 @@ export default function TeamProfilePage() {
               </div>
             </div>
 
+            {/* ── チームレート推移 ── */}
+            <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
+              <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5 flex items-center gap-2">
+                <FaChartLine className="text-purple-300" />
+                チームレート推移
+              </h2>
+              <TeamRatingLine points={ratingPoints} current={team.rating ?? TEAM_RATING_INITIAL} />
+            </div>
+
             {/* ── 参加メンバー ── */}
             <div className="glass-card rounded-2xl p-6 sm:p-7 border border-purple-500/30">
               <h2 className="text-lg sm:text-xl font-bold text-yellow-100 mb-4 sm:mb-5 flex items-center gap-2">
@@ -541,6 +767,33 @@ export default function TeamProfilePage() {
                             </div>
                           </div>
                         </div>
+
+                        {/* 団体戦の個別試合 */}
+                        {item.rubbers.length > 0 && (
+                          <div className="mt-3 border-t border-purple-500/20 pt-3 space-y-1.5">
+                            <div className="text-xs text-gray-400">個別試合</div>
+                            {item.rubbers.map((rb) => (
+                              <div
+                                key={rb.rubber_no}
+                                className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm"
+                              >
+                                <span className="w-14 text-xs text-gray-400">第{rb.rubber_no}試合</span>
+                                <span className="w-20 text-xs text-purple-200">
+                                  {isRubberKind(rb.kind) ? RUBBER_KIND_LABELS[rb.kind] : rb.kind}
+                                </span>
+                                <span className="min-w-0 flex-1 truncate">
+                                  {rb.teammates.map((p) => p.handle_name).join(' / ') || '—'}
+                                  <span className="mx-2 text-gray-500">vs</span>
+                                  {rb.opponents.map((p) => p.handle_name).join(' / ') || '—'}
+                                </span>
+                                <span className={`font-bold ${rb.won ? 'text-green-400' : 'text-red-400'}`}>
+                                  {rb.ourScore} - {rb.theirScore} {rb.won ? '○' : '●'}
+                                </span>
+                                {rb.affectsRating && <span className="text-[10px] text-yellow-300">RP</span>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -13,9 +13,10 @@ import React, {
 } from 'react';
 import Link from 'next/link';
 import { useRouter, useSearchParams, usePathname } from 'next/navigation';
-import { FaUsers, FaTrophy, FaPercent, FaSearch } from 'react-icons/fa';
+import { FaUsers, FaTrophy, FaPercent, FaSearch, FaChartLine } from 'react-icons/fa';
 
 import { useTeamRankings, TeamRankItem } from '@/lib/hooks/useTeamRankings';
+import { TEAM_RATING_INITIAL } from '@/lib/rating/teamElo';
 import { MobileLoadingState } from '@/components/MobileLoadingState';
 
 // ✅ 最小修正：lazy をやめて通常 import（chunk load 不整合を回避）
@@ -110,6 +111,9 @@ const TeamCard = memo(function TeamCard({
               <span className="px-2 py-1 rounded-full bg-purple-900/30 text-purple-300">
                 メンバー: {team.team_size ?? 0}
               </span>
+              <span className="px-2 py-1 rounded-full bg-purple-900/30 text-purple-300">
+                平均RP: {Math.round(team.avg_rp ?? 0)}
+              </span>
               <span className="px-2 py-1 rounded-full bg-purple-900/30 text-purple-300">
                 平均HC: {team.avg_hc ?? 0}
               </span>
@@ -122,9 +126,9 @@ const TeamCard = memo(function TeamCard({
                 isTop3 ? 'text-yellow-100' : 'text-purple-300'
               }`}
             >
-              {Math.round(team.avg_rp ?? 0)}
+              {team.rating ?? TEAM_RATING_INITIAL}
             </div>
-            <div className="text-xs sm:text-sm text-gray-400">平均RP</div>
+            <div className="text-xs sm:text-sm text-gray-400">チームレート</div>
           </div>
         </div>
 
@@ -160,7 +164,7 @@ const TeamCard = memo(function TeamCard({
 });
 
 /* ---------------- Page Inner (wrapped by Suspense) ---------------- */
-type SortKey = 'avg_rp' | 'win_pct' | 'name';
+type SortKey = 'rating' | 'avg_rp' | 'win_pct' | 'name';
 
 function TeamsInner() {
   const router = useRouter();
@@ -169,7 +173,7 @@ function TeamsInner() {
 
   // URL 同期: ?q= / ?sort= / ?dir=
   const initialQ = search.get('q') ?? '';
-  const initialSort = (search.get('sort') as SortKey) ?? 'avg_rp';
+  const initialSort = (search.get('sort') as SortKey) ?? 'rating';
   const initialDir =
     (search.get('dir') as 'asc' | 'desc') ?? (initialSort === 'name' ? 'asc' : 'desc');
 
@@ -182,7 +186,7 @@ function TeamsInner() {
   useEffect(() => {
     const sp = new URLSearchParams();
     if (q.trim()) sp.set('q', q.trim());
-    if (!(sortBy === 'avg_rp' && dir === 'desc')) {
+    if (!(sortBy === 'rating' && dir === 'desc')) {
       sp.set('sort', sortBy);
       sp.set('dir', dir);
     }
@@ -217,6 +221,9 @@ function TeamsInner() {
       if (sortBy === 'win_pct') {
         return sign * ((a.win_pct ?? 0) - (b.win_pct ?? 0));
       }
+      if (sortBy === 'rating') {
+        return sign * ((a.rating ?? TEAM_RATING_INITIAL) - (b.rating ?? TEAM_RATING_INITIAL));
+      }
       // avg_rp
       return sign * ((a.avg_rp ?? 0) - (b.avg_rp ?? 0));
     });
@@ -242,7 +249,7 @@ function TeamsInner() {
         <h1 className="text-3xl sm:text-4xl font-bold mb-2 sm:mb-3 text-yellow-100">
           チーム一覧
         </h1>
-        <p className="text-gray-400 text-sm sm:text-base">チームの戦績と平均RPをチェック</p>
+        <p className="text-gray-400 text-sm sm:text-base">チームの戦績とチームレートをチェック</p>
       </div>
 
       {/* 検索・ソート */}
@@ -261,6 +268,27 @@ function TeamsInner() {
 
           {/* ソート */}
           <div className="inline-flex rounded-lg overflow-hidden shadow-lg">
+            <button
+              onClick={() => {
+                startTransition(() => {
+                  if (sortBy === 'rating') setDir((d) => (d === 'asc' ? 'desc' : 'asc'));
+                  else {
+                    setSortBy('rating');
+                    setDir('desc');
+                  }
+                });
+              }}
+              className={`px-4 sm:px-6 py-2.5 sm:py-3 font-medium transition-all text-sm sm:text-base ${
+                sortBy === 'rating'
+                  ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                  : 'bg-purple-900/30 text-gray-400 hover:text-white'
+              }`}
+              aria-pressed={sortBy === 'rating'}
+              title="チームレート順"
+            >
+              <FaChartLine className="inline mr-2" />
+              レート {isPending && sortBy === 'rating' ? '…' : ''}
+            </button>
             <button
               onClick={() => {
                 startTransition(() => {
@@ -357,11 +385,9 @@ function TeamsInner() {
             <div className="glass-card rounded-xl p-4 sm:p-6 text-center border border-yellow-500/20">
               <FaTrophy className="text-3xl sm:text-4xl text-yellow-400 mx-auto mb-2 sm:mb-3" />
               <div className="text-2xl sm:text-3xl font-bold text-yellow-100 mb-1">
-                {Math.round(
-                  [...teams].sort((a, b) => (b.avg_rp ?? 0) - (a.avg_rp ?? 0))[0]?.avg_rp ?? 0
-                )}
+                {teams.reduce((m, t) => Math.max(m, t.rating ?? TEAM_RATING_INITIAL), 0)}
               </div>
-              <div className="text-gray-400 text-xs sm:text-base">最高平均RP</div>
+              <div className="text-gray-400 text-xs sm:text-base">最高チームレート</div>
             </div>
             <div className="glass-card rounded-xl p-4 sm:p-6 text-center border border-purple-500/20">
               <FaPercent className="text-3xl sm:text-4xl text-purple-400 mx-auto mb-2 sm:mb-3" />
@@ -0,0 +1,56 @@
+// app/api/admin/achievements/award/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { recordAudit } from '@/lib/audit/log';
+import { awardAchievements } from '@/lib/achievements/award';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PREVIEW_LIMIT = 50;
+
+const toBool = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (s === 'true') return true;
+    if (s === 'false') return false;
+  }
+  return null;
+};
+
+/**
+ * POST { dry_run?: boolean }（既定は dry_run=true）
+ * - 全選手の記録に実績バッジのルールを当て、まだ付いていないバッジをまとめて付ける
+ * - 導入前の試合・大会の分や、ルール追加後の取りこぼしを埋める用（普段は試合の確定ごとに付く）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authz = await requireAdmin(req);
+    if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const dryRun = toBool(body?.dry_run) ?? true;
+
+    const { evaluated, awarded } = await awardAchievements(undefined, { dryRun });
+
+    const byCode: Record<string, number> = {};
+    for (const a of awarded) byCode[a.code] = (byCode[a.code] ?? 0) + 1;
+    const summary = { players: evaluated, awarded: awarded.length, by_code: byCode };
+    const preview = awarded.slice(0, PREVIEW_LIMIT);
+
+    if (dryRun) return NextResponse.json({ ok: true, dry_run: true, summary, preview }, { status: 200 });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'achievements.award',
+      targetTable: 'player_achievements',
+      after: { summary },
+    });
+
+    return NextResponse.json({ ok: true, dry_run: false, summary, preview }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/admin/achievements/award] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
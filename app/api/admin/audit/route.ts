@@ -0,0 +1,86 @@
+// app/api/admin/audit/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PAGE_SIZE = 50;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 監査ログの検索（管理者）
+ * GET ?player_id=&tournament_id=&action=&from=YYYY-MM-DD&to=YYYY-MM-DD&page=1
+ * - player_id: 操作した人 / 関係する選手 / 対象 ID / 試合の勝者・敗者 のいずれかに一致
+ * - from/to は JST の日付（to はその日の終わりまで含む）
+ */
+export async function GET(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const sp = req.nextUrl.searchParams;
+    const playerId = (sp.get('player_id') || '').trim();
+    const tournamentId = (sp.get('tournament_id') || '').trim();
+    const action = (sp.get('action') || '').trim();
+    const from = (sp.get('from') || '').trim();
+    const to = (sp.get('to') || '').trim();
+    const page = Math.max(1, parseInt(sp.get('page') || '1', 10) || 1);
+
+    if (playerId && !UUID_RE.test(playerId)) {
+      return NextResponse.json({ ok: false, message: 'player_id が不正です。' }, { status: 400 });
+    }
+    if (tournamentId && !UUID_RE.test(tournamentId)) {
+      return NextResponse.json({ ok: false, message: 'tournament_id が不正です。' }, { status: 400 });
+    }
+    if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+      return NextResponse.json({ ok: false, message: '日付は YYYY-MM-DD で指定してください。' }, { status: 400 });
+    }
+
+    let q = supabaseAdmin
+      .from('admin_audit_log')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+    if (playerId) {
+      q = q.or(
+        [
+          `actor_id.eq.${playerId}`,
+          `player_id.eq.${playerId}`,
+          `target_id.eq.${playerId}`,
+          `before->>winner_id.eq.${playerId}`,
+          `before->>loser_id.eq.${playerId}`,
+        ].join(','),
+      );
+    }
+    if (tournamentId) q = q.eq('tournament_id', tournamentId);
+    if (action) q = q.ilike('action', `${action.replace(/[%_]/g, '')}%`);
+    if (from) q = q.gte('created_at', new Date(`${from}T00:00:00+09:00`).toISOString());
+    if (to) {
+      const end = new Date(`${to}T00:00:00+09:00`);
+      end.setUTCDate(end.getUTCDate() + 1);
+      q = q.lt('created_at', end.toISOString());
+    }
+
+    const { data, error, count } = await q;
+    if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+
+    const rows = data ?? [];
+
+    // 表示用：操作した人 / 関係する選手の名前
+    const ids = Array.from(new Set(rows.flatMap((r) => [r.actor_id, r.player_id]).filter(Boolean))) as string[];
+    const names: Record<string, string> = {};
+    if (ids.length) {
+      const { data: ps } = await supabaseAdmin.from('players').select('id,handle_name').in('id', ids);
+      for (const p of ps ?? []) names[String(p.id)] = String(p.handle_name ?? '');
+    }
+
+    return NextResponse.json({ ok: true, page, page_size: PAGE_SIZE, total: count ?? rows.length, rows, names });
+  } catch (e: any) {
+    console.error('[api/admin/audit] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { createClient } from '@supabase/supabase-js';
+import { recordAudit } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 
@@ -236,6 +237,15 @@ export async function POST(req: Request) {
       );
     }
 
+    await recordAudit({
+      actorId: me.id,
+      action: 'players.register',
+      targetTable: 'players',
+      targetId: newUserId,
+      playerId: newUserId,
+      after: publicRow,
+    });
+
     return NextResponse.json({ ok: true, player_id: newUserId, handle_name });
   } catch (e: any) {
     return NextResponse.json({ ok: false, message: e?.message ?? 'エラーが発生しました' }, { status: 500 });
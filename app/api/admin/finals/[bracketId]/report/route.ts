@@ -0,0 +1,55 @@
+// app/api/admin/finals/[bracketId]/report/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { parseFinalReportBody, reportFinalMatch } from '@/lib/finals/report';
+import { readAuditRow, recordAudit, tournamentIdOfBracket } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ bracketId: string }> };
+
+/**
+ * 決勝トーナメントの結果保存（管理者）
+ * body: { stage?, round_no, match_no, winner_id, loser_id, winner_score, loser_score, end_reason?, affects_rating?, sets? }
+ * - stage は main（既定）/ losers / grand_final / third
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { bracketId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    if (!body) return NextResponse.json({ ok: false, message: '不正なリクエストです。' }, { status: 400 });
+
+    const input = parseFinalReportBody(body, bracketId);
+    if (typeof input === 'string') return NextResponse.json({ ok: false, message: input }, { status: 400 });
+
+    const before = await readAuditRow('final_matches', {
+      bracket_id: input.bracket_id,
+      stage: input.stage ?? 'main',
+      round_no: input.round_no,
+      match_no: input.match_no,
+    });
+    const r = await reportFinalMatch(input);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    const { ok: _ok, ...result } = r;
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_matches.report',
+      targetTable: 'final_matches',
+      targetId: r.id,
+      playerId: input.winner_id,
+      tournamentId: await tournamentIdOfBracket(input.bracket_id),
+      before,
+      after: { ...input, ...result },
+    });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error('[api/admin/finals/report] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
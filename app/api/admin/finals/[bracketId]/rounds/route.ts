@@ -0,0 +1,85 @@
+// app/api/admin/finals/[bracketId]/rounds/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { addFinalSlots, deleteFinalRounds } from '@/lib/finals/bracket';
+import { isFinalStage } from '@/lib/finals/stages';
+import { recordAudit, tournamentIdOfBracket } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ bracketId: string }> };
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/**
+ * 枠追加 / ラウンド追加（管理者）
+ * body: { round_no, count?, stage? }  count は既定 2 / stage は既定 main。まだ無い round_no を渡すとラウンド追加
+ * - そのラウンド以降の試合結果はクリア（反映済みの RP/HC は巻き戻す）
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { bracketId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const roundNo = toInt(body?.round_no, 0);
+    const count = toInt(body?.count, 2);
+    const stage = body?.stage ?? 'main';
+    if (!isFinalStage(stage)) return NextResponse.json({ ok: false, message: 'stage が不正です。' }, { status: 400 });
+
+    const r = await addFinalSlots(bracketId, roundNo, count, stage);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_round_entries.add_slots',
+      targetTable: 'final_round_entries',
+      targetId: bracketId,
+      tournamentId: await tournamentIdOfBracket(bracketId),
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/finals/rounds] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
+
+/**
+ * ラウンド削除（管理者）
+ * ?from_round=N&stage=main  その stage の R{N} 以降の枠と試合を削除（反映済みの RP/HC は巻き戻す）
+ */
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { bracketId } = await params;
+    const fromRound = toInt(req.nextUrl.searchParams.get('from_round'), 0);
+    const stage = req.nextUrl.searchParams.get('stage') || 'main';
+    if (!isFinalStage(stage)) return NextResponse.json({ ok: false, message: 'stage が不正です。' }, { status: 400 });
+
+    const r = await deleteFinalRounds(bracketId, fromRound, stage);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_round_entries.delete_rounds',
+      targetTable: 'final_round_entries',
+      targetId: bracketId,
+      tournamentId: await tournamentIdOfBracket(bracketId),
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/finals/rounds] DELETE fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
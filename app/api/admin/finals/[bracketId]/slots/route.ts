@@ -0,0 +1,55 @@
+// app/api/admin/finals/[bracketId]/slots/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { setFinalSlot } from '@/lib/finals/bracket';
+import { isFinalStage } from '@/lib/finals/stages';
+import { recordAudit, tournamentIdOfBracket } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ bracketId: string }> };
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/**
+ * 枠の選手変更（管理者）
+ * body: { round_no, slot_no, player_id | null, stage? }  stage は既定 main
+ * - そのラウンド以降の試合結果はクリア（反映済みの RP/HC は巻き戻す）
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { bracketId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const roundNo = toInt(body?.round_no, 0);
+    const slotNo = toInt(body?.slot_no, 0);
+    const playerId = body?.player_id ? String(body.player_id).trim() : null;
+    const stage = body?.stage ?? 'main';
+    if (!isFinalStage(stage)) return NextResponse.json({ ok: false, message: 'stage が不正です。' }, { status: 400 });
+
+    const r = await setFinalSlot(bracketId, roundNo, slotNo, playerId, stage);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_round_entries.set_slot',
+      targetTable: 'final_round_entries',
+      targetId: r.result.entry_id,
+      playerId: playerId ?? r.result.previous_player_id,
+      tournamentId: await tournamentIdOfBracket(bracketId),
+      before: { player_id: r.result.previous_player_id },
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/finals/slots] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
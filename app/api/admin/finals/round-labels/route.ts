@@ -4,6 +4,7 @@ import { auth } from "@clerk/nextjs/server";
 import { cookies } from "next/headers";
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
 import { createClient } from "@supabase/supabase-js";
+import { recordAudit, tournamentIdOfBracket } from "@/lib/audit/log";
 
 export const runtime = "nodejs";
 
@@ -163,11 +164,27 @@ export async function POST(req: Request) {
     .filter(Boolean) as { bracket_id: string; round_no: number; label: string }[];
 
   const admin = getAdminSupabase();
+  const { data: beforeRows } = await admin
+    .from("final_round_labels")
+    .select("round_no,label")
+    .eq("bracket_id", bracketId);
+
   const { error } = await admin
     .from("final_round_labels")
     .upsert(rows, { onConflict: "bracket_id,round_no" });
 
   if (error) return json(500, { ok: false, message: error.message });
 
+  await recordAudit({
+    actorId: a.supabaseUserId,
+    action: "final_round_labels.upsert",
+    targetTable: "final_round_labels",
+    targetId: bracketId,
+    tournamentId: await tournamentIdOfBracket(bracketId),
+    before: beforeRows ?? null,
+    after: rows.map((r) => ({ round_no: r.round_no, label: r.label })),
+    metadata: a.clerkUserId ? { clerk_user_id: a.clerkUserId } : null,
+  });
+
   return json(200, { ok: true });
 }
@@ -0,0 +1,89 @@
+// app/api/admin/finals/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { createFinalBracket, parseSeedOverrides, resetFinals } from '@/lib/finals/bracket';
+import { recordAudit } from '@/lib/audit/log';
+import { isFinalBracketType } from '@/lib/finals/stages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 決勝トーナメント作成（管理者）
+ * body: { tournament_id, title?, nominees: string[], seeds?: { [player_id]: シード番号 }, bracket_type? }
+ * - bracket_type: single（既定）/ single_third（3位決定戦あり）/ double（ダブルエリミネーション）
+ * - nominees をシード順に標準配置（1-vs-N）で R1 に並べ、2 の累乗に満たない分は def で埋める
+ * - 並びは POST /api/admin/finals/seeding で事前に確認できる
+ */
+export async function POST(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const tournamentId = String(body?.tournament_id ?? body?.tournamentId ?? '').trim();
+    if (!tournamentId) return NextResponse.json({ ok: false, message: 'tournament_id が不正です。' }, { status: 400 });
+
+    const nominees = Array.isArray(body?.nominees) ? body!.nominees.map(String) : [];
+    const seeds = parseSeedOverrides(body?.seeds);
+    const bracketType = body?.bracket_type ?? 'single';
+    if (!isFinalBracketType(bracketType)) {
+      return NextResponse.json({ ok: false, message: 'bracket_type が不正です。' }, { status: 400 });
+    }
+
+    const r = await createFinalBracket({ tournamentId, title: body?.title, nominees, seeds, bracketType });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_brackets.create',
+      targetTable: 'final_brackets',
+      targetId: r.bracket.id,
+      tournamentId,
+      after: { bracket: r.bracket, nominees, seeds, padded_count: r.padded_count, slots: r.seeding.slots },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      bracket: r.bracket,
+      bracket_id: r.bracket.id,
+      size: r.size,
+      padded_count: r.padded_count,
+      seeding: r.seeding,
+    });
+  } catch (e: any) {
+    console.error('[api/admin/finals] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
+
+/**
+ * 大会の決勝トーナメントを全削除（管理者）
+ * ?tournament_id=...  枠・試合・ラウンド名もまとめて削除。反映済みの RP/HC は巻き戻す
+ */
+export async function DELETE(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const tournamentId = String(req.nextUrl.searchParams.get('tournament_id') ?? '').trim();
+    if (!tournamentId) return NextResponse.json({ ok: false, message: 'tournament_id が不正です。' }, { status: 400 });
+
+    const r = await resetFinals(tournamentId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'final_brackets.reset',
+      targetTable: 'final_brackets',
+      targetId: tournamentId,
+      tournamentId,
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/finals] DELETE fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/admin/finals/seeding/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { parseSeedOverrides, previewFinalSeeding } from '@/lib/finals/bracket';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * シード配置のプレビュー（管理者・DB には書かない）
+ * body: { tournament_id, nominees: string[], seeds?: { [player_id]: シード番号 } }
+ * - 返す slots の並びがそのまま R1 の枠になる（player_id=null は def）
+ */
+export async function POST(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const tournamentId = String(body?.tournament_id ?? body?.tournamentId ?? '').trim();
+    if (!tournamentId) return NextResponse.json({ ok: false, message: 'tournament_id が不正です。' }, { status: 400 });
+
+    const nominees = Array.isArray(body?.nominees) ? body!.nominees.map(String) : [];
+    const r = await previewFinalSeeding({ tournamentId, nominees, seeds: parseSeedOverrides(body?.seeds) });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    return NextResponse.json({ ok: true, seeding: r.seeding });
+  } catch (e: any) {
+    console.error('[api/admin/finals/seeding] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/admin/league-blocks/[blockId]/finalize/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { finalizeLeagueBlock } from '@/lib/league/finalize';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ blockId: string }> };
+
+/**
+ * ブロックの順位を集計して保存する（管理者）
+ * - 大会のタイブレーク順で計算し、ranking_json に順位を決めた基準を残す
+ * - 全試合終了なら finished + 勝者確定、未消化があれば途中経過のみ
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { blockId } = await params;
+
+    const before = await readAuditRow('league_blocks', { id: blockId });
+    const r = await finalizeLeagueBlock(blockId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'league_blocks.finalize',
+      targetTable: 'league_blocks',
+      targetId: blockId,
+      tournamentId: r.result.tournament_id,
+      before,
+      after: { ...r.result, tiebreakers: r.tiebreakers, ranking: r.ranking },
+    });
+
+    return NextResponse.json({ ok: true, ...r.result, tiebreakers: r.tiebreakers, ranking: r.ranking });
+  } catch (e: any) {
+    console.error('[api/admin/league-blocks/finalize] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
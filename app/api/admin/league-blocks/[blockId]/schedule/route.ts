@@ -0,0 +1,43 @@
+// app/api/admin/league-blocks/[blockId]/schedule/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { regenerateBlockSchedule } from '@/lib/league/regenerate';
+import { recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ blockId: string }> };
+
+/**
+ * ブロックの日程を作り直す（管理者）
+ * body: { double? }  double = true で 2 巡（ホーム/アウェイ入れ替え）
+ * - 結果入力済みの試合（def の自動不戦勝を除く）があれば 409
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { blockId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const double = body?.double === true || body?.double === 'true';
+
+    const r = await regenerateBlockSchedule(blockId, { double });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'matches.regenerate_league_schedule',
+      targetTable: 'league_blocks',
+      targetId: blockId,
+      tournamentId: r.result.tournament_id,
+      after: { ...r.result, double, rounds: r.schedule.rounds },
+    });
+
+    return NextResponse.json({ ok: true, ...r.result, schedule: r.schedule });
+  } catch (e: any) {
+    console.error('[api/admin/league-blocks/schedule] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+// app/api/admin/matches/[matchId]/resolve/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { editUnappliedMatch, finalizeMatch } from '@/lib/matches/confirmation';
+import { voidMatch } from '@/lib/matches/void';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ matchId: string }> };
+type EndReason = 'normal' | 'time_limit' | 'walkover' | 'forfeit';
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+function normalizeEndReason(v: unknown): EndReason {
+  const s = String(v ?? '').trim().toLowerCase();
+  if (s === 'time_limit' || s === 'walkover' || s === 'forfeit') return s;
+  return 'normal';
+}
+
+/**
+ * 異議ありの試合の処理（管理者）
+ * body:
+ * - { action: 'accept' }  報告どおり確定
+ * - { action: 'edit', winner_id, loser_id, winner_score, loser_score, end_reason? }  修正して確定（個人戦のみ）
+ * - { action: 'void', reason? }  無効（RP/HC は元々未反映）
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { matchId } = await params;
+    if (!matchId) return NextResponse.json({ ok: false, message: 'matchId が不正です。' }, { status: 400 });
+
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const action = String(body?.action ?? '').trim().toLowerCase();
+    const before = await readAuditRow('matches', { id: matchId });
+    const audit = (after: unknown) =>
+      recordAudit({
+        actorId: authz.userId,
+        action: `matches.resolve_${action}`,
+        targetTable: 'matches',
+        targetId: matchId,
+        playerId: before?.winner_id ?? null,
+        tournamentId: before?.tournament_id ?? null,
+        before,
+        after,
+      });
+
+    if (action === 'void') {
+      const reason = String(body?.reason ?? '').trim() || '異議により無効';
+      const r = await voidMatch(matchId, { voidedBy: authz.userId, reason });
+      if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+      await audit(r.summary);
+      return NextResponse.json({ ok: true, match_id: matchId, status: 'voided' });
+    }
+
+    if (action === 'edit') {
+      const winner_id = String(body?.winner_id ?? '');
+      const loser_id = String(body?.loser_id ?? '');
+      const winner_score = clamp(toInt(body?.winner_score, 15), 0, 99);
+      const loser_score = clamp(toInt(body?.loser_score, 0), 0, 99);
+      const end_reason = normalizeEndReason(body?.end_reason);
+
+      if (!winner_id || !loser_id || winner_id === loser_id) {
+        return NextResponse.json({ ok: false, message: '勝者/敗者が不正です。' }, { status: 400 });
+      }
+      if (winner_score <= loser_score) {
+        return NextResponse.json({ ok: false, message: 'スコアが不正です。' }, { status: 400 });
+      }
+
+      const r = await editUnappliedMatch(matchId, {
+        winner_id,
+        loser_id,
+        winner_score,
+        loser_score,
+        end_reason,
+        // ★通常以外は RP/HC 変化なし
+        affects_rating: end_reason === 'normal',
+      });
+      if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+    } else if (action !== 'accept') {
+      return NextResponse.json({ ok: false, message: 'action は accept / edit / void のいずれかです。' }, { status: 400 });
+    }
+
+    const fin = await finalizeMatch(matchId, { confirmedBy: authz.userId });
+    if (fin.ok === false) return NextResponse.json({ ok: false, message: fin.message }, { status: fin.status });
+    await audit(await readAuditRow('matches', { id: matchId }));
+
+    return NextResponse.json({
+      ok: true,
+      match_id: matchId,
+      status: 'finalized',
+      winner_points_delta: fin.rating.winnerPointsChange,
+      loser_points_delta: fin.rating.loserPointsChange,
+      winner_handicap_delta: fin.rating.winnerHandicapChange,
+      loser_handicap_delta: fin.rating.loserHandicapChange,
+      rating_algorithm: fin.rating.algorithm,
+      rating_multiplier: fin.rating_multiplier,
+    });
+  } catch (e: any) {
+    console.error('[api/admin/matches/[matchId]/resolve] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
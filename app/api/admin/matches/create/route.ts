@@ -1,6 +1,7 @@
 // app/api/admin/matches/create/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { recordAudit } from "@/lib/audit/log";
 
 export const runtime = "nodejs";
 
@@ -141,5 +142,14 @@ export async function POST(req: Request) {
     );
   }
 
+  await recordAudit({
+    actorId: adminUserId,
+    action: "matches.create",
+    targetTable: "matches",
+    targetId: match_id,
+    playerId: winner_id,
+    after: { mode: "singles", status: "completed", match_date, winner_id, loser_id, winner_score, loser_score },
+  });
+
   return NextResponse.json({ ok: true, match_id });
 }
@@ -0,0 +1,32 @@
+// app/api/admin/matches/disputes/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { MATCH_STATUS_DISPUTED, withMatchNames } from '@/lib/matches/confirmation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 管理者キュー：異議ありの試合（古い順）
+ * ※ 期限切れの確認待ちの自動確定は /api/cron/auto-confirm が行う
+ */
+export async function GET(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('matches')
+      .select('*')
+      .eq('status', MATCH_STATUS_DISPUTED)
+      .order('created_at', { ascending: true })
+      .limit(200);
+    if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, disputes: await withMatchNames(data ?? []) });
+  } catch (e: any) {
+    console.error('[api/admin/matches/disputes] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
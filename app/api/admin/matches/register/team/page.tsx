@@ -5,9 +5,47 @@ import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
-import { FaTrophy, FaSpinner, FaCheckCircle, FaExclamationTriangle } from "react-icons/fa";
+import { FaTrophy, FaSpinner, FaCheckCircle, FaExclamationTriangle, FaPlus, FaTrash } from "react-icons/fa";
+import {
+  RUBBER_KINDS,
+  RUBBER_KIND_LABELS,
+  rubberSideSize,
+  teamMatchOutcome,
+  validateRubbers,
+  type RubberInput,
+  type RubberKind,
+} from "@/lib/matches/rubbers";
 
 type TeamLite = { id: string; name: string };
+type MemberLite = { id: string; handle_name: string | null };
+
+// 1 ラバー分のフォーム（選手は人数分の枠。未選択は ""）
+type RubberForm = {
+  kind: RubberKind;
+  side1: string[];
+  side2: string[];
+  side1_score: string;
+  side2_score: string;
+  affects_rating: boolean;
+};
+
+const emptyRubber = (kind: RubberKind = "singles"): RubberForm => ({
+  kind,
+  side1: Array(rubberSideSize(kind)).fill(""),
+  side2: Array(rubberSideSize(kind)).fill(""),
+  side1_score: "",
+  side2_score: "",
+  affects_rating: false,
+});
+
+const toRubberInput = (r: RubberForm): RubberInput => ({
+  kind: r.kind,
+  side1_player_ids: r.side1.filter(Boolean),
+  side2_player_ids: r.side2.filter(Boolean),
+  side1_score: r.side1_score === "" ? NaN : Number(r.side1_score),
+  side2_score: r.side2_score === "" ? NaN : Number(r.side2_score),
+  affects_rating: r.kind === "singles" && r.affects_rating,
+});
 
 const supabase = createClient();
 const cls = (...xs: Array<string | false | null | undefined>) => xs.filter(Boolean).join(" ");
@@ -22,22 +60,27 @@ export default function AdminTeamMatchRegisterPage() {
   const [teams, setTeams] = useState<TeamLite[]>([]);
   const [loadingTeams, setLoadingTeams] = useState(true);
 
-  const [winnerTeamId, setWinnerTeamId] = useState("");
-  const [loserTeamId, setLoserTeamId] = useState("");
-  const [winnerScore, setWinnerScore] = useState<number>(11);
-  const [loserScore, setLoserScore] = useState<number>(0);
+  const [team1Id, setTeam1Id] = useState("");
+  const [team2Id, setTeam2Id] = useState("");
+  const [members, setMembers] = useState<Record<string, MemberLite[]>>({});
+  const [rubbers, setRubbers] = useState<RubberForm[]>([emptyRubber("singles"), emptyRubber("singles"), emptyRubber("doubles")]);
 
   const [saving, setSaving] = useState(false);
   const [savedMsg, setSavedMsg] = useState<string | null>(null);
 
-  const canSubmit =
-    isAdmin &&
-    !saving &&
-    winnerTeamId &&
-    loserTeamId &&
-    winnerTeamId !== loserTeamId &&
-    Number.isFinite(winnerScore) &&
-    Number.isFinite(loserScore);
+  // ★ チームの勝敗はラバーの勝ち数から決まる
+  const rubberInputs = useMemo(() => rubbers.map(toRubberInput), [rubbers]);
+  const outcome = useMemo(() => teamMatchOutcome(rubberInputs), [rubberInputs]);
+  const formError = useMemo(() => {
+    if (!team1Id || !team2Id) return "チーム1・チーム2を選択してください";
+    if (team1Id === team2Id) return "同じチームは選べません";
+    return validateRubbers(rubberInputs, {
+      side1: new Set((members[team1Id] ?? []).map((m) => m.id)),
+      side2: new Set((members[team2Id] ?? []).map((m) => m.id)),
+    });
+  }, [team1Id, team2Id, rubberInputs, members]);
+
+  const canSubmit = isAdmin && !saving && !formError;
 
   // 管理者判定
   useEffect(() => {
@@ -98,6 +141,45 @@ export default function AdminTeamMatchRegisterPage() {
   }, [isAdmin]);
 
   const options = useMemo(() => teams, [teams]);
+  const teamName = (id: string) => teams.find((t) => t.id === id)?.name ?? "-";
+
+  // 選んだチームのメンバー（ラバーの出場選手の候補）
+  useEffect(() => {
+    const need = [team1Id, team2Id].filter((id) => id && !members[id]);
+    if (need.length === 0) return;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("team_members")
+        .select("team_id, players:player_id(id, handle_name)")
+        .in("team_id", need);
+      if (error) {
+        setNote(error.message);
+        return;
+      }
+
+      const next: Record<string, MemberLite[]> = Object.fromEntries(need.map((id) => [id, [] as MemberLite[]]));
+      for (const r of (data ?? []) as any[]) {
+        if (r.players?.id) next[String(r.team_id)]?.push({ id: String(r.players.id), handle_name: r.players.handle_name ?? null });
+      }
+      Object.values(next).forEach((list) => list.sort((a, b) => (a.handle_name ?? "").localeCompare(b.handle_name ?? "", "ja")));
+      setMembers((prev) => ({ ...prev, ...next }));
+    })();
+  }, [team1Id, team2Id, members]);
+
+  const updateRubber = (idx: number, patch: Partial<RubberForm>) => {
+    setRubbers((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+  };
+
+  const changeKind = (idx: number, kind: RubberKind) => {
+    setRubbers((prev) => prev.map((r, i) => (i === idx ? { ...emptyRubber(kind), side1_score: r.side1_score, side2_score: r.side2_score } : r)));
+  };
+
+  const setSlot = (idx: number, side: "side1" | "side2", slot: number, playerId: string) => {
+    setRubbers((prev) =>
+      prev.map((r, i) => (i === idx ? { ...r, [side]: r[side].map((v, j) => (j === slot ? playerId : v)) } : r))
+    );
+  };
 
   const submit = async () => {
     if (!canSubmit) return;
@@ -117,10 +199,9 @@ export default function AdminTeamMatchRegisterPage() {
           authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          winner_team_id: winnerTeamId,
-          loser_team_id: loserTeamId,
-          winner_score: Number(winnerScore),
-          loser_score: Number(loserScore),
+          team1_id: team1Id,
+          team2_id: team2Id,
+          rubbers: rubberInputs,
           match_date: new Date().toISOString(),
         }),
       });
@@ -128,9 +209,13 @@ export default function AdminTeamMatchRegisterPage() {
       const json = await res.json();
       if (!res.ok || !json?.ok) throw new Error(json?.message || "登録に失敗しました");
 
-      setSavedMsg(`登録しました（match_id: ${json.match_id}）`);
-      setWinnerScore(11);
-      setLoserScore(0);
+      const pending = Array.isArray(json.rating_pending) ? json.rating_pending.length : 0;
+      setSavedMsg(
+        `登録しました（${teamName(json.winner_team_id)} ${json.winner_score} - ${json.loser_score} ${teamName(json.loser_team_id)}）` +
+          (json.rating_applied ? ` / RP 反映 ${json.rating_applied} 試合` : "") +
+          (pending ? ` / ${pending} 試合は確認待ちに残りました` : "")
+      );
+      setRubbers([emptyRubber("singles"), emptyRubber("singles"), emptyRubber("doubles")]);
     } catch (e: any) {
       setNote(e?.message || "登録に失敗しました");
     } finally {
@@ -155,7 +240,9 @@ export default function AdminTeamMatchRegisterPage() {
         <h1 className="text-2xl sm:text-3xl font-bold text-yellow-100 flex items-center gap-3">
           <FaTrophy /> 管理者: チーム戦を記録
         </h1>
-        <p className="text-gray-400 mt-1">勝者チーム・敗者チームを選んでスコアを登録します。</p>
+        <p className="text-gray-400 mt-1">
+          対戦する 2 チームと個別試合（シングルス / ダブルス）を入力します。チームの勝敗は個別試合の勝ち数で決まります。
+        </p>
 
         <div className="mt-3 flex gap-2 flex-wrap">
           <Link href="/admin/dashboard" className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm">
@@ -183,68 +270,143 @@ export default function AdminTeamMatchRegisterPage() {
           ) : (
             <>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">勝者チーム</label>
-                  <select
-                    value={winnerTeamId}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      setWinnerTeamId(v);
-                      if (v && v === loserTeamId) setLoserTeamId("");
-                    }}
-                    className="w-full px-4 py-2.5 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-yellow-100"
-                  >
-                    <option value="">選択してください</option>
-                    {options.map((t) => (
-                      <option key={t.id} value={t.id} className="bg-gray-900">
-                        {t.name}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">敗者チーム</label>
-                  <select
-                    value={loserTeamId}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      setLoserTeamId(v);
-                      if (v && v === winnerTeamId) setWinnerTeamId("");
-                    }}
-                    className="w-full px-4 py-2.5 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-yellow-100"
-                  >
-                    <option value="">選択してください</option>
-                    {options.map((t) => (
-                      <option key={t.id} value={t.id} className="bg-gray-900">
-                        {t.name}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+                {([
+                  ["チーム1", team1Id, setTeam1Id, team2Id],
+                  ["チーム2", team2Id, setTeam2Id, team1Id],
+                ] as const).map(([label, value, setValue, other]) => (
+                  <div key={label}>
+                    <label className="block text-sm text-gray-300 mb-2">{label}</label>
+                    <select
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className="w-full px-4 py-2.5 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-yellow-100"
+                    >
+                      <option value="">選択してください</option>
+                      {options
+                        .filter((t) => t.id !== other)
+                        .map((t) => (
+                          <option key={t.id} value={t.id} className="bg-gray-900">
+                            {t.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
 
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">勝者スコア</label>
-                  <input
-                    type="number"
-                    min={0}
-                    max={99}
-                    value={winnerScore}
-                    onChange={(e) => setWinnerScore(Number(e.target.value))}
-                    className="w-full px-4 py-2.5 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-yellow-100"
-                  />
+              {/* 個別試合（ラバー） */}
+              <div className="mt-6 space-y-3">
+                {rubbers.map((r, idx) => {
+                  const w = toRubberInput(r);
+                  const won = Number.isFinite(w.side1_score) && Number.isFinite(w.side2_score) && w.side1_score !== w.side2_score
+                    ? (w.side1_score > w.side2_score ? 1 : 2)
+                    : null;
+                  return (
+                    <div key={idx} className="rounded-lg border border-purple-500/20 bg-gray-900/40 p-3">
+                      <div className="flex items-center gap-3 flex-wrap">
+                        <div className="font-semibold text-yellow-100">第{idx + 1}試合</div>
+                        <select
+                          value={r.kind}
+                          onChange={(e) => changeKind(idx, e.target.value as RubberKind)}
+                          className="px-2 py-1 rounded bg-purple-900/20 border border-purple-500/30 text-sm"
+                        >
+                          {RUBBER_KINDS.map((k) => (
+                            <option key={k} value={k} className="bg-gray-900">
+                              {RUBBER_KIND_LABELS[k]}
+                            </option>
+                          ))}
+                        </select>
+                        {r.kind === "singles" && (
+                          <label className="flex items-center gap-1 text-xs text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={r.affects_rating}
+                              onChange={(e) => updateRubber(idx, { affects_rating: e.target.checked })}
+                            />
+                            個人の RP に反映
+                          </label>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setRubbers((prev) => prev.filter((_, i) => i !== idx))}
+                          disabled={rubbers.length <= 1}
+                          className="ml-auto text-xs text-red-300 hover:text-red-200 disabled:opacity-30 inline-flex items-center gap-1"
+                        >
+                          <FaTrash /> 削除
+                        </button>
+                      </div>
+
+                      <div className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-3 items-center">
+                        {(["side1", "side2"] as const).map((side) => {
+                          const tid = side === "side1" ? team1Id : team2Id;
+                          const score = side === "side1" ? "side1_score" : "side2_score";
+                          const isWinner = won === (side === "side1" ? 1 : 2);
+                          const block = (
+                            <div key={side} className={cls("rounded p-2 space-y-2", isWinner && "bg-green-900/20")}>
+                              {r[side].map((pid, slot) => (
+                                <select
+                                  key={slot}
+                                  value={pid}
+                                  onChange={(e) => setSlot(idx, side, slot, e.target.value)}
+                                  disabled={!tid}
+                                  className="w-full px-2 py-1.5 rounded bg-purple-900/20 border border-purple-500/30 text-sm disabled:opacity-50"
+                                >
+                                  <option value="">{tid ? "選手を選択" : "先にチームを選択"}</option>
+                                  {(members[tid] ?? []).map((m) => (
+                                    <option key={m.id} value={m.id} className="bg-gray-900">
+                                      {m.handle_name ?? "(名前未設定)"}
+                                    </option>
+                                  ))}
+                                </select>
+                              ))}
+                              <input
+                                type="number"
+                                min={0}
+                                max={99}
+                                placeholder="点数"
+                                value={r[score]}
+                                onChange={(e) => updateRubber(idx, { [score]: e.target.value })}
+                                className="w-full px-2 py-1.5 rounded bg-purple-900/20 border border-purple-500/30 text-sm"
+                              />
+                            </div>
+                          );
+                          return side === "side1"
+                            ? block
+                            : [
+                                <div key="vs" className="text-center text-gray-400 text-sm">
+                                  vs
+                                </div>,
+                                block,
+                              ];
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="flex gap-2 flex-wrap">
+                  {RUBBER_KINDS.map((k) => (
+                    <button
+                      key={k}
+                      type="button"
+                      onClick={() => setRubbers((prev) => [...prev, emptyRubber(k)])}
+                      className="px-3 py-1.5 rounded-lg bg-purple-700/40 hover:bg-purple-700/60 text-sm inline-flex items-center gap-2"
+                    >
+                      <FaPlus /> {RUBBER_KIND_LABELS[k]}を追加
+                    </button>
+                  ))}
                 </div>
 
-                <div>
-                  <label className="block text-sm text-gray-300 mb-2">敗者スコア</label>
-                  <input
-                    type="number"
-                    min={0}
-                    max={99}
-                    value={loserScore}
-                    onChange={(e) => setLoserScore(Number(e.target.value))}
-                    className="w-full px-4 py-2.5 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-yellow-100"
-                  />
+                <div className="text-sm text-gray-200">
+                  結果：
+                  <span className="ml-1 font-semibold">
+                    {teamName(team1Id)} {outcome.side1_wins} - {outcome.side2_wins} {teamName(team2Id)}
+                  </span>
+                  {outcome.winner_side && (
+                    <span className="ml-2 text-green-300">
+                      （勝者：{teamName(outcome.winner_side === 1 ? team1Id : team2Id)}）
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -264,10 +426,12 @@ export default function AdminTeamMatchRegisterPage() {
 
                 {savedMsg && <div className="text-sm text-green-300">{savedMsg}</div>}
                 {note && <div className="text-sm text-yellow-300">{note}</div>}
+                {!note && !savedMsg && formError && <div className="text-xs text-gray-400">{formError}</div>}
               </div>
 
               <div className="mt-4 text-xs text-gray-500">
-                ※ この登録は <code>matches(mode=&quot;teams&quot;)</code> と <code>match_teams</code> に保存します。
+                ※ この登録は <code>matches(mode=&quot;teams&quot;)</code>・<code>match_teams</code>・<code>match_rubbers</code>・
+                <code>match_players</code> に保存します。「個人の RP に反映」したシングルスは個人戦としても記録されます。
               </div>
             </>
           )}
@@ -1,6 +1,10 @@
 // app/api/admin/matches/teams/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { recordAudit } from "@/lib/audit/log";
+import { normalizeRubbers } from "@/lib/matches/rubbers";
+import { recordTeamMatch } from "@/lib/matches/teamRubbers";
+import { applyTeamRating } from "@/lib/rating/teamRating";
 
 export const runtime = "nodejs";
 
@@ -42,6 +46,36 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json();
+
+    // ★ 個別試合（ラバー）付き：チームの勝敗・勝敗数の更新は RPC team_match_record 側で行う
+    if (Array.isArray(body?.rubbers)) {
+      const team1_id = String(body?.team1_id || "");
+      const team2_id = String(body?.team2_id || "");
+      const match_date = body?.match_date ? String(body.match_date) : new Date().toISOString();
+      const rubbers = normalizeRubbers(body.rubbers);
+
+      const r = await recordTeamMatch({
+        team1Id: team1_id,
+        team2Id: team2_id,
+        rubbers,
+        matchDate: match_date,
+        createdBy: adminUserId,
+      });
+      if (r.ok === false) {
+        return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+      }
+
+      await recordAudit({
+        actorId: adminUserId,
+        action: "matches.create_team",
+        targetTable: "matches",
+        targetId: r.result.match_id,
+        after: { mode: "teams", status: "finalized", match_date, team1_id, team2_id, rubbers, result: r.result },
+      });
+
+      return NextResponse.json({ ok: true, ...r.result });
+    }
+
     const winner_team_id = String(body?.winner_team_id || "");
     const loser_team_id = String(body?.loser_team_id || "");
     const winner_score = Number(body?.winner_score ?? 0);
@@ -86,7 +120,18 @@ export async function POST(req: Request) {
 
     if (rpcErr) throw rpcErr;
 
-    return NextResponse.json({ ok: true, match_id: matchId });
+    // 4) チームレーティング
+    const team_rating = await applyTeamRating(matchId, winner_team_id, loser_team_id);
+
+    await recordAudit({
+      actorId: adminUserId,
+      action: "matches.create_team",
+      targetTable: "matches",
+      targetId: matchId,
+      after: { mode: "team", status: "completed", match_date, winner_team_id, loser_team_id, winner_score, loser_score, team_rating },
+    });
+
+    return NextResponse.json({ ok: true, match_id: matchId, team_rating });
   } catch (e: any) {
     console.error("[admin team match] error:", e);
     return NextResponse.json(
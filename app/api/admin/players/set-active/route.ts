@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 
@@ -114,9 +115,20 @@ export async function POST(req: Request) {
     if (!okAdmin) return json(403, { ok: false, message: '管理者権限がありません。' });
 
     // 反映
+    const before = await readAuditRow('players', { id: player_id });
     const { error: upErr } = await admin.from('players').update({ is_active: is_active_raw }).eq('id', player_id);
     if (upErr) return json(500, { ok: false, message: `更新に失敗: ${upErr.message}` });
 
+    await recordAudit({
+      actorId: me.id,
+      action: 'players.set_active',
+      targetTable: 'players',
+      targetId: player_id,
+      playerId: player_id,
+      before: before ? { is_active: before.is_active } : null,
+      after: { is_active: is_active_raw },
+    });
+
     return json(200, { ok: true, player_id, is_active: is_active_raw });
   } catch (e: any) {
     return json(500, { ok: false, message: e?.message ?? 'エラーが発生しました' });
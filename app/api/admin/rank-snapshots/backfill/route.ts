@@ -0,0 +1,149 @@
+// app/api/admin/rank-snapshots/backfill/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { recordAudit } from '@/lib/audit/log';
+import { loadRatingDeltas } from '@/lib/rating/history';
+import { addDays, buildSnapshotHistory, jstDateOf } from '@/lib/rating/snapshots';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AnyRow = Record<string, any>;
+
+const PAGE = 1000;
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toBool = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (s === 'true') return true;
+    if (s === 'false') return false;
+  }
+  return null;
+};
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** PostgREST の 1000 行上限を越えて全件取る */
+async function fetchAll(table: string, cols: string, orderBy: string, filter?: (q: any) => any) {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    let q: any = supabaseAdmin.from(table).select(cols);
+    if (filter) q = filter(q);
+    const { data, error } = await q.order(orderBy, { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * POST { dry_run?: boolean, from?: 'YYYY-MM-DD', to?: 'YYYY-MM-DD', overwrite?: boolean }（既定は dry_run=true）
+ * - 試合の RP 変動を現在値から引き戻して、各日 0:00（JST）時点の rank_snapshots を作り直す
+ * - from の既定は最初の試合の翌日、to の既定は昨日（当日分は cron が取る）
+ * - overwrite=false: スナップショットが 1 件も無い日だけ埋める / true: 期間内を消して作り直す
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authz = await requireAdmin(req);
+    if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+    const body = (await req.json().catch(() => ({}))) as AnyRow;
+    const dryRun = toBool(body?.dry_run) ?? true;
+    const overwrite = toBool(body?.overwrite) ?? false;
+    const fromParam = String(body?.from ?? '').trim();
+    const toParam = String(body?.to ?? '').trim();
+    if ((fromParam && !DAY_RE.test(fromParam)) || (toParam && !DAY_RE.test(toParam))) {
+      return NextResponse.json({ ok: false, message: '期間は YYYY-MM-DD で指定してください。' }, { status: 400 });
+    }
+
+    const today = jstDateOf(new Date())!;
+    const [players, deltas] = await Promise.all([
+      fetchAll('players', 'id, handle_name, ranking_points, is_active, is_deleted, is_dummy', 'id'),
+      loadRatingDeltas(),
+    ]);
+    const targets = players
+      .filter((p) => p.is_dummy !== true && p.is_deleted !== true && p.is_active !== false)
+      .map((p) => ({ id: String(p.id), points: toInt(p.ranking_points) }));
+
+    const firstDay = deltas
+      .map((d) => jstDateOf(d.match_date))
+      .filter((d): d is string => !!d)
+      .sort()[0];
+    if (!firstDay) {
+      return NextResponse.json({ ok: false, message: '積み直せる試合がありません。' }, { status: 400 });
+    }
+
+    const from = fromParam || addDays(firstDay, 1);
+    const to = toParam || addDays(today, -1);
+    if (from > to) {
+      return NextResponse.json({ ok: false, message: `期間が不正です（${from} 〜 ${to}）。` }, { status: 400 });
+    }
+    if (to >= today) {
+      return NextResponse.json({ ok: false, message: '当日以降は cron のスナップショットを使ってください。' }, { status: 400 });
+    }
+
+    const rows = buildSnapshotHistory({ players: targets, deltas, from, to, today });
+
+    // 既にスナップショットがある日（overwrite=false のときは触らない）
+    const existing = await fetchAll('rank_snapshots', 'snapshot_date', 'snapshot_date', (q) =>
+      q.gte('snapshot_date', from).lte('snapshot_date', to),
+    );
+    const existingDays = new Set(existing.map((r) => String(r.snapshot_date).slice(0, 10)));
+    const writeRows = overwrite ? rows : rows.filter((r) => !existingDays.has(r.snapshot_date));
+    const writeDays = new Set(writeRows.map((r) => r.snapshot_date));
+
+    const summary = {
+      from,
+      to,
+      players: targets.length,
+      days_with_data: new Set(rows.map((r) => r.snapshot_date)).size,
+      days_existing: existingDays.size,
+      days_written: writeDays.size,
+      rows_written: writeRows.length,
+      overwrite,
+    };
+
+    // プレビュー：書き込む最後の日の上位 10 人
+    const lastDay = Array.from(writeDays).sort().pop() ?? null;
+    const nameOf = new Map(players.map((p) => [String(p.id), String(p.handle_name ?? '')]));
+    const preview = lastDay
+      ? writeRows
+          .filter((r) => r.snapshot_date === lastDay)
+          .slice(0, 10)
+          .map((r) => ({ ...r, handle_name: nameOf.get(r.player_id) ?? '' }))
+      : [];
+
+    if (dryRun) {
+      return NextResponse.json({ ok: true, dry_run: true, summary, preview }, { status: 200 });
+    }
+
+    // ─────────────────────────────────────────────
+    // 反映
+    // ─────────────────────────────────────────────
+    if (overwrite) {
+      const del = await supabaseAdmin.from('rank_snapshots').delete().gte('snapshot_date', from).lte('snapshot_date', to);
+      if (del.error) throw new Error(`rank_snapshots 削除に失敗しました: ${del.error.message}`);
+    }
+
+    const computedAt = new Date().toISOString();
+    for (let i = 0; i < writeRows.length; i += PAGE) {
+      const chunk = writeRows.slice(i, i + PAGE).map((r) => ({ ...r, computed_at: computedAt }));
+      const { error } = await supabaseAdmin.from('rank_snapshots').insert(chunk);
+      if (error) throw new Error(`rank_snapshots 登録に失敗しました: ${error.message}`);
+    }
+
+    await recordAudit({ actorId: authz.userId, action: 'rank_snapshot.backfill', targetTable: 'rank_snapshots', after: { summary } });
+
+    return NextResponse.json({ ok: true, dry_run: false, summary, preview }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/admin/rank-snapshots/backfill] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 // app/api/admin/ranking-config/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { normalizeRankingConfig } from '@/lib/rating/engine';
+import { isRatingAlgorithm, normalizeRatingAlgorithm } from '@/lib/rating/strategies';
+import { normalizeAutoConfirmHours } from '@/lib/rating/config';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 
@@ -68,13 +72,10 @@ export async function GET() {
     }
 
     // 返却（クライアントが欲しい形に整形）
-    const config = {
-      k_factor: row?.k_factor ?? 32,
-      score_diff_multiplier: row?.score_diff_multiplier ?? 0.05,
-      handicap_diff_multiplier: row?.handicap_diff_multiplier ?? 0.03,
-      win_threshold_handicap_change: row?.win_threshold_handicap_change ?? 10,
-      handicap_change_amount: row?.handicap_change_amount ?? 2,
-    };
+    // ✅ 試合登録の計算（lib/rating）と同じ既定値・正規化で返す
+    const config = normalizeRankingConfig(row);
+    const algorithm = normalizeRatingAlgorithm(row?.rating_algorithm);
+    const auto_confirm_hours = normalizeAutoConfirmHours(row?.auto_confirm_hours);
 
     const trend = {
       trend_daily_days: row?.trend_daily_days ?? 5,
@@ -83,7 +84,7 @@ export async function GET() {
       trend_default_mode: row?.trend_default_mode ?? 'daily',
     };
 
-    return noStore(NextResponse.json({ ok: true, config, trend, raw: row ?? null }));
+    return noStore(NextResponse.json({ ok: true, config, algorithm, auto_confirm_hours, trend, raw: row ?? null }));
   } catch (e: any) {
     return noStore(
       NextResponse.json({ ok: false, message: e?.message ?? 'failed' }, { status: 500 })
@@ -108,6 +109,14 @@ export async function PUT(req: NextRequest) {
     const cfg = body?.config ?? body ?? {};
     const tr = body?.trend ?? body ?? {};
 
+    const algorithm = cfg.rating_algorithm ?? body?.rating_algorithm;
+    if (algorithm !== undefined && !isRatingAlgorithm(algorithm)) {
+      return noStore(NextResponse.json({ ok: false, message: 'invalid rating_algorithm' }, { status: 400 }));
+    }
+
+    const autoConfirmRaw = cfg.auto_confirm_hours ?? body?.auto_confirm_hours;
+    const auto_confirm_hours = autoConfirmRaw === undefined ? undefined : normalizeAutoConfirmHours(autoConfirmRaw);
+
     const patch: any = {
       id: 'global',
 
@@ -118,6 +127,12 @@ export async function PUT(req: NextRequest) {
       win_threshold_handicap_change: cfg.win_threshold_handicap_change,
       handicap_change_amount: cfg.handicap_change_amount,
 
+      // レーティング方式（elo / glicko2 / fixed）
+      rating_algorithm: algorithm,
+
+      // 試合結果の自動確定（時間。0 = 自動確定しない）
+      auto_confirm_hours,
+
       // trend（表示設定）
       trend_daily_days: tr.trend_daily_days,
       trend_weekly_weeks: tr.trend_weekly_weeks,
@@ -128,6 +143,7 @@ export async function PUT(req: NextRequest) {
     // undefined を落とす（指定されたものだけ更新）
     Object.keys(patch).forEach((k) => patch[k] === undefined && delete patch[k]);
 
+    const before = await readAuditRow('ranking_config', { id: 'global' });
     const { data, error } = await supabaseAdmin
       .from('ranking_config')
       .upsert(patch, { onConflict: 'id' })
@@ -138,6 +154,15 @@ export async function PUT(req: NextRequest) {
       return noStore(NextResponse.json({ ok: false, message: error.message }, { status: 400 }));
     }
 
+    await recordAudit({
+      actorId: userId,
+      action: 'ranking_config.update',
+      targetTable: 'ranking_config',
+      targetId: 'global',
+      before,
+      after: data ?? patch,
+    });
+
     return noStore(NextResponse.json({ ok: true, saved: data ?? null }));
   } catch (e: any) {
     const status = e?.status === 403 ? 403 : 500;
@@ -0,0 +1,328 @@
+// app/api/admin/rating/replay/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { recordAudit } from '@/lib/audit/log';
+import { loadRatingBaseline, loadRatingSettings, normalizeRatingMultiplier, parseGlickoBefore } from '@/lib/rating/config';
+import { isDoublesMode } from '@/lib/matches/doubles';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+import {
+  replayRatings,
+  type ReplayMatch,
+  type ReplayPlayerState,
+  type ReplaySeasonReset,
+} from '@/lib/rating/replay';
+import { normalizeRegression } from '@/lib/rating/seasons';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AnyRow = Record<string, any>;
+
+const PAGE = 1000;
+
+const toBool = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (s === 'true') return true;
+    if (s === 'false') return false;
+  }
+  return null;
+};
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** PostgREST の 1000 行上限を越えて全件取る */
+async function fetchAll(table: string, cols: string) {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select(cols)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as unknown as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+/** ダブルスの 2 ペア（match_players の side_no 1=勝ち / 2=負け） */
+async function loadDoublesPairs(matchIds: string[]) {
+  const pairs = new Map<string, { winner_ids: string[]; loser_ids: string[] }>();
+  for (let i = 0; i < matchIds.length; i += 200) {
+    const { data, error } = await supabaseAdmin
+      .from('match_players')
+      .select('match_id, player_id, side_no, slot_no')
+      .in('match_id', matchIds.slice(i, i + 200))
+      .is('rubber_no', null)
+      .order('slot_no', { ascending: true });
+    if (error) throw new Error(`match_players 取得に失敗しました: ${error.message}`);
+    for (const r of data ?? []) {
+      const key = String(r.match_id);
+      const pair = pairs.get(key) ?? { winner_ids: [], loser_ids: [] };
+      (toInt(r.side_no, 0) === 1 ? pair.winner_ids : pair.loser_ids).push(String(r.player_id));
+      pairs.set(key, pair);
+    }
+  }
+  return pairs;
+}
+
+/** 追加列（rating_algorithm / rating_deviation など）がまだ無い環境もあるので確認してから使う */
+async function hasColumn(table: string, col: string) {
+  const { error } = await supabaseAdmin.from(table).select(col).limit(1);
+  return !error;
+}
+
+function sortKey(r: AnyRow) {
+  return String(r.match_date ?? r.created_at ?? r.updated_at ?? '');
+}
+
+function snapshot(p: AnyRow): ReplayPlayerState {
+  return {
+    ranking_points: toInt(p.ranking_points, 0),
+    handicap: toInt(p.handicap, 0),
+    wins: toInt(p.wins, 0),
+    losses: toInt(p.losses, 0),
+    matches_played: toInt(p.matches_played, 0),
+  };
+}
+
+function sameState(a: ReplayPlayerState, b: ReplayPlayerState) {
+  return (
+    a.ranking_points === b.ranking_points &&
+    a.handicap === b.handicap &&
+    a.wins === b.wins &&
+    a.losses === b.losses &&
+    a.matches_played === b.matches_played
+  );
+}
+
+/** glicko_before（反映前の RD / volatility）が同じか */
+function sameGlickoBefore(a: unknown, b: unknown) {
+  return JSON.stringify(parseGlickoBefore(a)) === JSON.stringify(parseGlickoBefore(b));
+}
+
+/**
+ * POST { dry_run?: boolean }（既定は dry_run=true）
+ * - dry_run: 計算結果の差分だけ返す（DB は変更しない）
+ * - dry_run=false: players / matches / final_matches / match_rating_ledger（ダブルスは match_players も）を
+ *   RPC rating_replay_apply で 1 トランザクションにまとめて書き換える（途中で失敗したら何も変わらない）
+ * - 締め済みシーズンで RP をリセットしていれば、締めた時点（closed_at）で同じリセットをかけ直す
+ * - Glicko-2 のときは各試合の反映前の RD / volatility（glicko_before）も積み直した値で書き換える
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authz = await requireAdmin(req);
+    if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+    const body = (await req.json().catch(() => ({}))) as AnyRow;
+    const dryRun = toBool(body?.dry_run) ?? true;
+
+    const [matchesHasAlgo, finalsHasAlgo, playersHasGlicko, matchesHasMult, finalsHasMult, matchesHasGB, finalsHasGB] =
+      await Promise.all([
+        hasColumn('matches', 'rating_algorithm'),
+        hasColumn('final_matches', 'rating_algorithm'),
+        hasColumn('players', 'rating_deviation'),
+        hasColumn('matches', 'rating_multiplier'),
+        hasColumn('final_matches', 'rating_multiplier'),
+        hasColumn('matches', 'glicko_before'),
+        hasColumn('final_matches', 'glicko_before'),
+      ]);
+    const optCols = (algo: boolean, mult: boolean, gb: boolean) =>
+      (algo ? ', rating_algorithm' : '') + (mult ? ', rating_multiplier' : '') + (gb ? ', glicko_before' : '');
+
+    const [settings, baseline, players, matchRows, finalRows, seasonRows, standingRows] = await Promise.all([
+      loadRatingSettings(supabaseAdmin),
+      loadRatingBaseline(supabaseAdmin),
+      fetchAll('players', 'id, handle_name, ranking_points, handicap, wins, losses, matches_played, is_dummy'),
+      fetchAll(
+        'matches',
+        'id, mode, status, winner_id, loser_id, winner_score, loser_score, affects_rating, match_date, created_at, winner_points_delta, loser_points_delta, winner_handicap_delta, loser_handicap_delta' +
+          optCols(matchesHasAlgo, matchesHasMult, matchesHasGB),
+      ),
+      fetchAll(
+        'final_matches',
+        'id, winner_id, loser_id, winner_score, loser_score, affects_rating, match_date, created_at, updated_at, winner_points_change, loser_points_change, winner_handicap_change, loser_handicap_change' +
+          optCols(finalsHasAlgo, finalsHasMult, finalsHasGB),
+      ),
+      fetchAll('seasons', 'id, status, regression, base_rating, closed_at'),
+      fetchAll('season_standings', 'id, season_id, player_id, reset_points'),
+    ]);
+
+    const targets = players.filter((p) => p.is_dummy !== true);
+
+    const doublesPairs = await loadDoublesPairs(
+      matchRows.filter((m) => isDoublesMode(m.mode)).map((m) => String(m.id)),
+    );
+
+    const replayMatches: ReplayMatch[] = [];
+    for (const m of matchRows) {
+      const mode = String(m.mode ?? '').toLowerCase();
+      if (mode.startsWith('team')) continue;
+      if (NON_APPLIED_STATUSES.has(String(m.status ?? '').toLowerCase())) continue;
+      if (!m.winner_id || !m.loser_id) continue;
+      const pair = isDoublesMode(m.mode) ? doublesPairs.get(String(m.id)) ?? null : null;
+      if (isDoublesMode(m.mode) && (pair?.winner_ids.length !== 2 || pair?.loser_ids.length !== 2)) continue;
+      replayMatches.push({
+        id: String(m.id),
+        source: 'matches',
+        pair,
+        winner_id: String(m.winner_id),
+        loser_id: String(m.loser_id),
+        winner_score: m.winner_score,
+        loser_score: m.loser_score,
+        affects_rating: m.affects_rating === true,
+        multiplier: normalizeRatingMultiplier(m.rating_multiplier),
+        sort_key: sortKey(m),
+      });
+    }
+    for (const m of finalRows) {
+      if (!m.winner_id || !m.loser_id) continue;
+      replayMatches.push({
+        id: String(m.id),
+        source: 'final_matches',
+        winner_id: String(m.winner_id),
+        loser_id: String(m.loser_id),
+        winner_score: m.winner_score,
+        loser_score: m.loser_score,
+        affects_rating: m.affects_rating === true,
+        multiplier: normalizeRatingMultiplier(m.rating_multiplier),
+        sort_key: sortKey(m),
+      });
+    }
+
+    // シーズン締めの RP リセット（締めた時点でかけ直す。リセットしなかったシーズンは飛ばす）
+    const resetPlayers = new Map<string, string[]>();
+    for (const r of standingRows) {
+      if (r.reset_points == null) continue;
+      const key = String(r.season_id);
+      resetPlayers.set(key, [...(resetPlayers.get(key) ?? []), String(r.player_id)]);
+    }
+    const seasonResets: ReplaySeasonReset[] = seasonRows
+      .filter((s) => s.status === 'closed' && s.closed_at && normalizeRegression(s.regression) > 0)
+      .map((s) => ({
+        season_id: String(s.id),
+        sort_key: String(s.closed_at),
+        regression: normalizeRegression(s.regression),
+        base_rating: toInt(s.base_rating, baseline.base_rating),
+        player_ids: resetPlayers.get(String(s.id)) ?? [],
+      }));
+
+    const result = replayRatings({
+      playerIds: targets.map((p) => String(p.id)),
+      matches: replayMatches,
+      settings,
+      baseline,
+      resets: seasonResets,
+    });
+
+    // ── 差分（変わる選手だけ） ──
+    const diff = targets
+      .map((p) => {
+        const before = snapshot(p);
+        const after = result.players.get(String(p.id))!;
+        return { player_id: String(p.id), handle_name: String(p.handle_name ?? ''), before, after };
+      })
+      .filter((d) => !sameState(d.before, d.after))
+      .sort((a, b) => b.after.ranking_points - a.after.ranking_points);
+
+    const matchById = new Map(matchRows.map((m) => [String(m.id), m]));
+    const finalById = new Map(finalRows.map((m) => [String(m.id), m]));
+
+    const changedMatches = result.matches.filter((r) => {
+      const row = r.source === 'matches' ? matchById.get(r.id) : finalById.get(r.id);
+      if (!row) return false;
+      const prefix = r.source === 'matches' ? 'delta' : 'change';
+      const hasAlgo = r.source === 'matches' ? matchesHasAlgo : finalsHasAlgo;
+      const hasGB = r.source === 'matches' ? matchesHasGB : finalsHasGB;
+      return (
+        (hasAlgo && (row.rating_algorithm ?? null) !== r.delta.algorithm) ||
+        (hasGB && !sameGlickoBefore(row.glicko_before, r.glicko_before)) ||
+        toInt(row[`winner_points_${prefix}`], 0) !== r.delta.winnerPointsChange ||
+        toInt(row[`loser_points_${prefix}`], 0) !== r.delta.loserPointsChange ||
+        toInt(row[`winner_handicap_${prefix}`], 0) !== r.delta.winnerHandicapChange ||
+        toInt(row[`loser_handicap_${prefix}`], 0) !== r.delta.loserHandicapChange
+      );
+    });
+
+    const summary = {
+      players: targets.length,
+      players_changed: diff.length,
+      matches_replayed: result.matches.length,
+      matches_rated: result.matches.filter((r) => r.applied).length,
+      matches_changed: changedMatches.length,
+      season_resets: result.resets.length,
+      baseline,
+      algorithm: settings.algorithm,
+      config: settings.ranking,
+    };
+
+    if (dryRun) {
+      return NextResponse.json({ ok: true, dry_run: true, summary, diff }, { status: 200 });
+    }
+
+    // ─────────────────────────────────────────────
+    // 反映（RPC rating_replay_apply の 1 トランザクションで players / 試合 / ledger をまとめて書き換える）
+    // ─────────────────────────────────────────────
+    const { data: applied, error: applyErr } = await supabaseAdmin.rpc('rating_replay_apply', {
+      p_players: diff.map((d) => ({ id: d.player_id, ...d.after })),
+      // Glicko-2 の RD / volatility は全員分を積み直した値で上書き
+      p_glicko:
+        settings.algorithm === 'glicko2' && playersHasGlicko
+          ? Array.from(result.glicko.entries()).map(([id, g]) => ({
+              id,
+              rating_deviation: g.deviation,
+              rating_volatility: g.volatility,
+            }))
+          : null,
+      p_matches: changedMatches
+        .filter((r) => r.source === 'matches')
+        .map((r) => ({
+          id: r.id,
+          winner_points_delta: r.delta.winnerPointsChange,
+          loser_points_delta: r.delta.loserPointsChange,
+          winner_handicap_delta: r.delta.winnerHandicapChange,
+          loser_handicap_delta: r.delta.loserHandicapChange,
+          rating_algorithm: r.delta.algorithm,
+          glicko_before: r.glicko_before ?? null,
+        })),
+      p_final_matches: changedMatches
+        .filter((r) => r.source === 'final_matches')
+        .map((r) => ({
+          id: r.id,
+          winner_points_change: r.delta.winnerPointsChange,
+          loser_points_change: r.delta.loserPointsChange,
+          winner_handicap_change: r.delta.winnerHandicapChange,
+          loser_handicap_change: r.delta.loserHandicapChange,
+          rating_algorithm: r.delta.algorithm,
+          glicko_before: r.glicko_before ?? null,
+        })),
+      // ダブルスは選手ごとの変動も書き戻す（void_match の巻き戻しに使う）
+      p_match_players: result.matches.flatMap((r) =>
+        (r.players ?? []).map((d) => ({
+          match_id: r.id,
+          player_id: d.player_id,
+          points_delta: d.pointsChange,
+          handicap_delta: d.handicapChange,
+        })),
+      ),
+      // ledger は「レーティングを適用した matches」で作り直す
+      p_ledger: result.matches.filter((r) => r.applied && r.source === 'matches').map((r) => r.id),
+    });
+    if (applyErr) throw new Error(`リプレイ結果の反映に失敗しました: ${applyErr.message}`);
+
+    // 全選手分の before/after は大きいので差分のみ残す
+    await recordAudit({ actorId: authz.userId, action: 'rating.replay', after: { summary, diff, applied } });
+
+    return NextResponse.json({ ok: true, dry_run: false, summary, diff }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/admin/rating/replay] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
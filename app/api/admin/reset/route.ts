@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { createClient } from '@supabase/supabase-js';
+import { recordAudit } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -16,7 +17,7 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ ok: false, message }, { status });
 }
 
-async function assertAdmin() {
+async function assertAdmin(): Promise<string> {
   const url = env('NEXT_PUBLIC_SUPABASE_URL') || env('SUPABASE_URL');
   const anon = env('NEXT_PUBLIC_SUPABASE_ANON_KEY');
   if (!url || !anon) throw new Error('Missing SUPABASE ENV');
@@ -36,6 +37,7 @@ async function assertAdmin() {
     .maybeSingle();
 
   if (!me?.is_admin) throw new Error('admin only');
+  return auth.user.id;
 }
 
 /**
@@ -92,7 +94,7 @@ async function deleteAll(svc: any, table: string) {
 /**
  * ✅ INSERT（型崩壊 & 重複対策）
  * - players は upsert(id)
- * - final_matches は UNIQUE(bracket_id, round_no, match_no) なので upsert で吸収
+ * - final_matches は UNIQUE(bracket_id, stage, round_no, match_no) なので upsert で吸収（stage 列が無い旧バックアップは既定の main）
  * - 他テーブルは通常 insert
  */
 async function insertChunk(svc: any, table: string, rows: any[]) {
@@ -109,7 +111,7 @@ async function insertChunk(svc: any, table: string, rows: any[]) {
       table === 'players'
         ? await q.upsert(chunk as any, { onConflict: 'id' })
         : table === 'final_matches'
-          ? await q.upsert(chunk as any, { onConflict: 'bracket_id,round_no,match_no' })
+          ? await q.upsert(chunk as any, { onConflict: 'bracket_id,stage,round_no,match_no' })
           : await q.insert(chunk as any);
 
     if (res?.error) {
@@ -120,7 +122,7 @@ async function insertChunk(svc: any, table: string, rows: any[]) {
 
 export async function POST(req: Request) {
   try {
-    await assertAdmin();
+    const actorId = await assertAdmin();
 
     const url = env('NEXT_PUBLIC_SUPABASE_URL') || env('SUPABASE_URL');
     const service = env('SUPABASE_SERVICE_ROLE_KEY') || env('SUPABASE_SERVICE_ROLE');
@@ -140,13 +142,18 @@ export async function POST(req: Request) {
 
     // 2) 親→子の順で入れる
     const insertOrder = [...TABLES].reverse();
+    const inserted: Record<string, number> = {};
     for (const t of insertOrder) {
       const rows = (body as any)[t];
+      inserted[t] = Array.isArray(rows) ? rows.length : 0;
       if (Array.isArray(rows) && rows.length > 0) {
         await insertChunk(svc, t, rows);
       }
     }
 
+    // 行データは大きいので件数だけ残す
+    await recordAudit({ actorId, action: 'database.reset', after: { inserted } });
+
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     return jsonError(e?.message || 'reset failed', 500);
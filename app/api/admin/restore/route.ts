@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { recordAudit } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -326,7 +327,7 @@ async function sanitizePlayersForLocalRestore(svc: AnySB, players: any[]) {
 
 export async function POST(req: Request) {
   try {
-    await assertAdmin(req);
+    const { authUserId } = await assertAdmin(req);
 
     const url = env('NEXT_PUBLIC_SUPABASE_URL') || env('SUPABASE_URL');
     const service = env('SUPABASE_SERVICE_ROLE_KEY') || env('SUPABASE_SERVICE_ROLE');
@@ -377,6 +378,9 @@ export async function POST(req: Request) {
     const sum = Object.values(inserted).reduce((a, b) => a + b, 0);
     if (sum === 0) return jsonError('Restore payload contained 0 rows. Aborted.', 400, { inserted });
 
+    // 行データは大きいので件数だけ残す
+    await recordAudit({ actorId: authUserId, action: 'database.restore', after: { inserted } });
+
     return NextResponse.json({
       ok: true,
       inserted,
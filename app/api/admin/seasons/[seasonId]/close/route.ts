@@ -0,0 +1,128 @@
+// app/api/admin/seasons/[seasonId]/close/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { recordAudit } from '@/lib/audit/log';
+import { loadRatingBaseline } from '@/lib/rating/config';
+import { normalizeRegression, regressPoints } from '@/lib/rating/seasons';
+import { rankByPoints } from '@/lib/rating/snapshots';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ seasonId: string }> };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toBool = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (s === 'true') return true;
+    if (s === 'false') return false;
+  }
+  return null;
+};
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/**
+ * シーズンを締める（管理者）
+ * body: { dry_run?: boolean, regression?: number(0..1), next_name?: string, next_start?: 'YYYY-MM-DD' }（既定は dry_run=true）
+ * - 最終順位 / RP / HC / 勝敗を season_standings に保存し、regression > 0 なら RP を基準値（rating_config.base_rating）へ寄せる
+ * - next_name があれば次のシーズンを開始する
+ * - dry_run: 保存される順位とリセット後の RP をプレビューで返す（書き込みなし）
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { seasonId } = await params;
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const dryRun = toBool(body?.dry_run) ?? true;
+    const regression = normalizeRegression(body?.regression);
+    const nextName = String(body?.next_name ?? '').trim() || null;
+    const nextStart = String(body?.next_start ?? '').trim() || null;
+    if (nextStart && !DATE_RE.test(nextStart)) {
+      return NextResponse.json({ ok: false, message: '次シーズンの開始日は YYYY-MM-DD で指定してください。' }, { status: 400 });
+    }
+
+    const { data: season, error: sErr } = await supabaseAdmin.from('seasons').select('*').eq('id', seasonId).maybeSingle();
+    if (sErr) return NextResponse.json({ ok: false, message: sErr.message }, { status: 500 });
+    if (!season) return NextResponse.json({ ok: false, message: 'シーズンが見つかりません。' }, { status: 404 });
+    if (season.status !== 'active') {
+      return NextResponse.json({ ok: false, message: 'このシーズンは締め済みです。' }, { status: 409 });
+    }
+
+    const baseline = await loadRatingBaseline(supabaseAdmin);
+
+    if (dryRun) {
+      // season_close と同じ対象（ダミー / 削除 / 非アクティブ / 管理者を除く）
+      const { data: players, error: pErr } = await supabaseAdmin
+        .from('players')
+        .select('id, handle_name, ranking_points, handicap, is_dummy, is_deleted, is_active, is_admin')
+        .limit(5000);
+      if (pErr) return NextResponse.json({ ok: false, message: pErr.message }, { status: 500 });
+
+      const targets = (players ?? []).filter(
+        (p) => p.is_dummy !== true && p.is_deleted !== true && p.is_active !== false && p.is_admin !== true,
+      );
+      const byId = new Map(targets.map((p) => [p.id, p]));
+      const ranked = rankByPoints(targets.map((p) => ({ player_id: p.id, points: toInt(p.ranking_points) })));
+      const preview = ranked.map((r) => {
+        const p = byId.get(r.player_id)!;
+        return {
+          player_id: r.player_id,
+          handle_name: p.handle_name,
+          rank: r.rank,
+          ranking_points: r.ranking_points,
+          handicap: toInt(p.handicap),
+          reset_points: regression > 0 ? regressPoints(r.ranking_points, baseline.base_rating, regression) : null,
+        };
+      });
+
+      return NextResponse.json({
+        ok: true,
+        dry_run: true,
+        summary: {
+          season_id: seasonId,
+          players: preview.length,
+          regression,
+          base_rating: baseline.base_rating,
+          reset: preview.filter((r) => r.reset_points !== null && r.reset_points !== r.ranking_points).length,
+          next_name: nextName,
+        },
+        preview,
+      });
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('season_close', {
+      p_season_id: seasonId,
+      p_regression: regression,
+      p_base_rating: baseline.base_rating,
+      p_next_name: nextName ?? undefined,
+      p_next_start: nextStart ?? undefined,
+    });
+    if (error) {
+      return NextResponse.json({ ok: false, message: `シーズンの締めに失敗しました: ${error.message}` }, { status: 500 });
+    }
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'seasons.close',
+      targetTable: 'seasons',
+      targetId: seasonId,
+      before: season,
+      after: data,
+      metadata: { regression, base_rating: baseline.base_rating, next_name: nextName, next_start: nextStart },
+    });
+
+    return NextResponse.json({ ok: true, dry_run: false, result: data });
+  } catch (e: any) {
+    console.error('[api/admin/seasons/close] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/admin/seasons/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** シーズン一覧（管理者。新しい順） */
+export async function GET(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { data, error } = await supabaseAdmin.from('seasons').select('*').order('start_date', { ascending: false });
+    if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+    return NextResponse.json({ ok: true, seasons: data ?? [] });
+  } catch (e: any) {
+    console.error('[api/admin/seasons] GET fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
+
+/**
+ * シーズンを開始する（管理者）
+ * body: { name: string, start_date: 'YYYY-MM-DD', end_date?: 'YYYY-MM-DD' }
+ * - 開催中のシーズンは 1 つだけ（あれば 409。先に締める）
+ * - end_date は予定日。締めたときに確定する（空なら締めた日）
+ */
+export async function POST(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const name = String(body?.name ?? '').trim();
+    const startDate = String(body?.start_date ?? '').trim();
+    const endDate = String(body?.end_date ?? '').trim() || null;
+
+    if (!name) return NextResponse.json({ ok: false, message: 'シーズン名を入力してください。' }, { status: 400 });
+    if (!DATE_RE.test(startDate) || (endDate && !DATE_RE.test(endDate))) {
+      return NextResponse.json({ ok: false, message: '日付は YYYY-MM-DD で指定してください。' }, { status: 400 });
+    }
+    if (endDate && endDate < startDate) {
+      return NextResponse.json({ ok: false, message: '終了日は開始日以降にしてください。' }, { status: 400 });
+    }
+
+    const { data: active } = await supabaseAdmin.from('seasons').select('id, name').eq('status', 'active').maybeSingle();
+    if (active) {
+      return NextResponse.json(
+        { ok: false, message: `開催中のシーズン（${active.name}）があります。先に締めてください。` },
+        { status: 409 },
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('seasons')
+      .insert({ name, start_date: startDate, end_date: endDate, status: 'active' })
+      .select('*')
+      .single();
+    if (error) {
+      const status = error.code === '23505' ? 409 : 500;
+      return NextResponse.json({ ok: false, message: `シーズンの作成に失敗しました: ${error.message}` }, { status });
+    }
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'seasons.create',
+      targetTable: 'seasons',
+      targetId: data.id,
+      after: data,
+    });
+
+    return NextResponse.json({ ok: true, season: data }, { status: 201 });
+  } catch (e: any) {
+    console.error('[api/admin/seasons] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
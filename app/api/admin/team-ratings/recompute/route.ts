@@ -0,0 +1,135 @@
+// app/api/admin/team-ratings/recompute/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { recordAudit } from '@/lib/audit/log';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+import { replayTeamRatings, TEAM_RATING_INITIAL, type TeamRatingMatch } from '@/lib/rating/teamElo';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AnyRow = Record<string, any>;
+
+const PAGE = 1000;
+
+const toBool = (v: unknown): boolean | null => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (s === 'true') return true;
+    if (s === 'false') return false;
+  }
+  return null;
+};
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** PostgREST の 1000 行上限を越えて全件取る */
+async function fetchAll(table: string, cols: string, orderBy = 'id') {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select(cols)
+      .order(orderBy, { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as unknown as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * POST { dry_run?: boolean }（既定は dry_run=true）
+ * - 全チームを初期値に戻し、確定済みの団体戦を日時順に積み直す
+ * - dry_run=false: teams.rating / rating_matches と team_rating_history を書き換える
+ *   （RPC team_rating_recompute_apply の 1 トランザクション。途中で失敗したら何も変わらない）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authz = await requireAdmin(req);
+    if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+    const body = (await req.json().catch(() => ({}))) as AnyRow;
+    const dryRun = toBool(body?.dry_run) ?? true;
+
+    const [teams, matchRows, teamRows] = await Promise.all([
+      fetchAll('teams', 'id, name, rating, rating_matches'),
+      fetchAll('matches', 'id, mode, status, winner_team_id, loser_team_id, winner_team_no, loser_team_no, match_date, created_at'),
+      fetchAll('match_teams', 'match_id, team_id, team_no', 'match_id'),
+    ]);
+
+    const teamsByMatch = new Map<string, AnyRow[]>();
+    for (const r of teamRows) {
+      const key = String(r.match_id);
+      teamsByMatch.set(key, [...(teamsByMatch.get(key) ?? []), r]);
+    }
+    const teamOf = (matchId: string, no: unknown) =>
+      teamsByMatch.get(matchId)?.find((r) => toInt(r.team_no, -1) === toInt(no, -2))?.team_id ?? null;
+
+    const replayMatches: TeamRatingMatch[] = [];
+    for (const m of matchRows) {
+      if (!String(m.mode ?? '').toLowerCase().startsWith('team')) continue;
+      if (NON_APPLIED_STATUSES.has(String(m.status ?? '').toLowerCase())) continue;
+      const id = String(m.id);
+      const winner = m.winner_team_id ?? teamOf(id, m.winner_team_no ?? 1);
+      const loser = m.loser_team_id ?? teamOf(id, m.loser_team_no ?? 2);
+      if (!winner || !loser) continue;
+      replayMatches.push({
+        id,
+        winner_team_id: String(winner),
+        loser_team_id: String(loser),
+        sort_key: String(m.match_date ?? m.created_at ?? ''),
+      });
+    }
+
+    const result = replayTeamRatings(
+      teams.map((t) => String(t.id)),
+      replayMatches,
+    );
+
+    const diff = teams
+      .map((t) => {
+        const after = result.teams.get(String(t.id))!;
+        return {
+          team_id: String(t.id),
+          name: String(t.name ?? ''),
+          before: { rating: toInt(t.rating, TEAM_RATING_INITIAL), rating_matches: toInt(t.rating_matches, 0) },
+          after,
+        };
+      })
+      .filter((d) => d.before.rating !== d.after.rating || d.before.rating_matches !== d.after.rating_matches)
+      .sort((a, b) => b.after.rating - a.after.rating);
+
+    const summary = {
+      teams: teams.length,
+      teams_changed: diff.length,
+      matches_replayed: result.history.length / 2,
+    };
+
+    if (dryRun) {
+      return NextResponse.json({ ok: true, dry_run: true, summary, diff }, { status: 200 });
+    }
+
+    // ─────────────────────────────────────────────
+    // 反映（teams の更新と history の作り直しを 1 トランザクションで）
+    // ─────────────────────────────────────────────
+    const { error: applyErr } = await supabaseAdmin.rpc('team_rating_recompute_apply', {
+      p_teams: diff.map((d) => ({ id: d.team_id, ...d.after })),
+      p_history: result.history,
+    });
+    if (applyErr) throw new Error(`チームレーティングの反映に失敗しました: ${applyErr.message}`);
+
+    await recordAudit({ actorId: authz.userId, action: 'team_rating.recompute', after: { summary, diff } });
+
+    return NextResponse.json({ ok: true, dry_run: false, summary, diff }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/admin/team-ratings/recompute] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/admin/tournaments/[tournamentId]/entries/close/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { closeEntries } from '@/lib/tournaments/entries';
+import { recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ tournamentId: string }> };
+
+/**
+ * エントリーの締切（管理者）
+ * - 申込済み / 承認済みを並び順どおりに tournament_participants へ（シード・その時点の RP / HC を記録）
+ * - キャンセル待ちは参加者に入らない。締切後は申し込み / 取り下げ不可
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { tournamentId } = await params;
+
+    const r = await closeEntries(tournamentId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'tournaments.close_entries',
+      targetTable: 'tournaments',
+      targetId: tournamentId,
+      tournamentId,
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/entries/close] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+// app/api/admin/tournaments/[tournamentId]/entries/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isReviewAction, reorderEntries, reviewEntry } from '@/lib/tournaments/entries';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ tournamentId: string }> };
+
+/**
+ * エントリーの受付設定（管理者）
+ * body: { entry_open?: boolean, entry_deadline?: string | null }
+ * - 締切（/entries/close）後は受付を開け直せない
+ */
+export async function PUT(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { tournamentId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+    const patch: { entry_open?: boolean; entry_deadline?: string | null } = {};
+    if (body?.entry_open !== undefined) patch.entry_open = body.entry_open === true;
+    if (body?.entry_deadline !== undefined) {
+      if (body.entry_deadline === null || body.entry_deadline === '') {
+        patch.entry_deadline = null;
+      } else {
+        const d = new Date(String(body.entry_deadline));
+        if (Number.isNaN(d.getTime())) {
+          return NextResponse.json({ ok: false, message: '締切日時が不正です。' }, { status: 400 });
+        }
+        patch.entry_deadline = d.toISOString();
+      }
+    }
+    if (Object.keys(patch).length === 0) {
+      return NextResponse.json({ ok: false, message: '変更する項目がありません。' }, { status: 400 });
+    }
+
+    const before = await readAuditRow('tournaments', { id: tournamentId });
+    if (!before) return NextResponse.json({ ok: false, message: '大会が見つかりません。' }, { status: 404 });
+    if (before.entries_closed_at && patch.entry_open) {
+      return NextResponse.json({ ok: false, message: 'エントリーは既に締め切られています。' }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tournaments')
+      .update(patch)
+      .eq('id', tournamentId)
+      .select('id,entry_open,entry_deadline,entries_closed_at')
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ ok: false, message: `受付設定の保存に失敗しました: ${error.message}` }, { status: 500 });
+    }
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'tournaments.update_entry_settings',
+      targetTable: 'tournaments',
+      targetId: tournamentId,
+      tournamentId,
+      before: { entry_open: before.entry_open ?? null, entry_deadline: before.entry_deadline ?? null },
+      after: patch,
+    });
+
+    return NextResponse.json({ ok: true, tournament: data });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/entries] PUT fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
+
+/**
+ * エントリーの承認 / 却下 / キャンセル待ちへ戻す・並べ替え（管理者）
+ * body: { id, action: 'approve' | 'reject' | 'waitlist' } または { order: registration_id[] }
+ * - 並び順はキャンセル待ちの繰り上げ順と、締切時のシード順になる
+ */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { tournamentId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+    if (Array.isArray(body?.order)) {
+      const order = (body!.order as unknown[]).map(String).filter(Boolean);
+      const r = await reorderEntries(tournamentId, order);
+      if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+      await recordAudit({
+        actorId: authz.userId,
+        action: 'tournament_registrations.reorder',
+        targetTable: 'tournament_registrations',
+        targetId: null,
+        tournamentId,
+        after: { order, updated: r.updated },
+      });
+
+      return NextResponse.json({ ok: true, updated: r.updated });
+    }
+
+    const id = String(body?.id ?? '').trim();
+    if (!id || !isReviewAction(body?.action)) {
+      return NextResponse.json({ ok: false, message: 'id と action（approve / reject / waitlist）が必要です。' }, { status: 400 });
+    }
+
+    const before = await readAuditRow('tournament_registrations', { id });
+    if (!before || String(before.tournament_id) !== tournamentId) {
+      return NextResponse.json({ ok: false, message: 'エントリーが見つかりません。' }, { status: 404 });
+    }
+
+    const r = await reviewEntry(id, body!.action, authz.userId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: `tournament_registrations.${body!.action}`,
+      targetTable: 'tournament_registrations',
+      targetId: id,
+      playerId: r.result.player_id,
+      tournamentId,
+      before,
+      after: r.result,
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/entries] PATCH fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/admin/tournaments/[tournamentId]/league-blocks/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { createLeagueBlocks } from '@/lib/league/autoBlocks';
+import { recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ tournamentId: string }> };
+
+/**
+ * リーグブロックを一括作成する（管理者）
+ * body: { blocks: [{ label, player_ids }], double? }
+ * - ブロック / メンバー / 総当たりの試合を 1 トランザクションで作る
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { tournamentId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+    if (!Array.isArray(body?.blocks)) {
+      return NextResponse.json({ ok: false, message: 'blocks が指定されていません。' }, { status: 400 });
+    }
+    const blocks = (body!.blocks as any[]).map((b) => ({
+      label: String(b?.label ?? ''),
+      player_ids: Array.isArray(b?.player_ids) ? (b.player_ids as unknown[]).map(String) : [],
+    }));
+    const double = body?.double === true || body?.double === 'true';
+
+    const r = await createLeagueBlocks(tournamentId, blocks, { double });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'league_blocks.bulk_create',
+      targetTable: 'league_blocks',
+      targetId: null,
+      tournamentId,
+      after: { ...r.result, double, members: blocks },
+    });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/league-blocks] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/admin/tournaments/[tournamentId]/league-draft/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { previewLeagueDraft } from '@/lib/league/autoBlocks';
+import { isDraftOrderBy } from '@/lib/league/draft';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * ブロック自動振り分けの案を作る（管理者・書き込みなし）
+ * body: { player_ids, block_count, by?: 'ranking_points' | 'handicap', separate_teams? }
+ * - 確定は /api/admin/tournaments/[tournamentId]/league-blocks に手直し後のブロックを送る
+ */
+export async function POST(req: NextRequest) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+    const playerIds = Array.isArray(body?.player_ids) ? (body!.player_ids as unknown[]).map(String) : [];
+    const by = body?.by === undefined ? 'ranking_points' : body.by;
+    if (!isDraftOrderBy(by)) {
+      return NextResponse.json({ ok: false, message: '並べ替えの基準が不正です。' }, { status: 400 });
+    }
+
+    const r = await previewLeagueDraft({
+      playerIds,
+      blockCount: Number(body?.block_count),
+      by,
+      separateTeams: body?.separate_teams === true,
+    });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    return NextResponse.json({ ok: true, ...r.preview });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/league-draft] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
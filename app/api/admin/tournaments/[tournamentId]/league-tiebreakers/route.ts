@@ -0,0 +1,59 @@
+// app/api/admin/tournaments/[tournamentId]/league-tiebreakers/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/requireAdmin';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isLeagueTiebreaker, parseTiebreakers } from '@/lib/league/standings';
+import { readAuditRow, recordAudit } from '@/lib/audit/log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ tournamentId: string }> };
+
+/**
+ * 大会のリーグ順位のタイブレーク順を変更する（管理者）
+ * body: { tiebreakers: ('wins' | 'head_to_head' | 'point_diff' | 'points_for' | 'fewest_def_wins' | 'lots')[] }
+ * - 保存済みの ranking_json は変わらない（ブロックの「集計」をやり直すと新しい順で並ぶ）
+ */
+export async function PUT(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { tournamentId } = await params;
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const raw = body?.tiebreakers;
+
+    if (!Array.isArray(raw) || raw.length === 0 || !raw.every(isLeagueTiebreaker)) {
+      return NextResponse.json({ ok: false, message: 'タイブレークの指定が不正です。' }, { status: 400 });
+    }
+    const tiebreakers = parseTiebreakers(raw);
+
+    const before = await readAuditRow('tournaments', { id: tournamentId });
+    if (!before) return NextResponse.json({ ok: false, message: '大会が見つかりません。' }, { status: 404 });
+
+    const { error } = await supabaseAdmin
+      .from('tournaments')
+      .update({ league_tiebreakers: tiebreakers })
+      .eq('id', tournamentId);
+
+    if (error) {
+      return NextResponse.json({ ok: false, message: `タイブレークの保存に失敗しました: ${error.message}` }, { status: 500 });
+    }
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: 'tournaments.update_league_tiebreakers',
+      targetTable: 'tournaments',
+      targetId: tournamentId,
+      tournamentId,
+      before: { league_tiebreakers: before.league_tiebreakers ?? null },
+      after: { league_tiebreakers: tiebreakers },
+    });
+
+    return NextResponse.json({ ok: true, tiebreakers });
+  } catch (e: any) {
+    console.error('[api/admin/tournaments/league-tiebreakers] PUT fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
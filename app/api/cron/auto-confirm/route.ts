@@ -0,0 +1,33 @@
+// app/api/cron/auto-confirm/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { autoConfirmExpiredMatches } from '@/lib/matches/confirmation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 確認期限切れの試合結果の自動確定（vercel.json の crons から毎時呼ぶ）
+ * - Authorization: Bearer ${CRON_SECRET} が無ければ 401（Vercel Cron は自動で付ける）
+ * - ranking_config.auto_confirm_hours を過ぎた submitted を古い順に確定する（0 なら何もしない）
+ * - ?limit=N で 1 回に確定する件数を変えられる（既定 100、最大 500）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({ ok: false, message: 'CRON_SECRET が設定されていません。' }, { status: 500 });
+    }
+    if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ ok: false, message: 'unauthorized' }, { status: 401 });
+    }
+
+    const limitParam = Number(req.nextUrl.searchParams.get('limit') ?? '');
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 500) : 100;
+
+    const auto_confirmed = await autoConfirmExpiredMatches(limit);
+    return NextResponse.json({ ok: true, auto_confirmed }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/cron/auto-confirm] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
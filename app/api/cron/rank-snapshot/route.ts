@@ -0,0 +1,47 @@
+// app/api/cron/rank-snapshot/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { jstDateOf } from '@/lib/rating/snapshots';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 毎日 0:00（JST）の順位スナップショット（vercel.json の crons から呼ぶ）
+ * - Authorization: Bearer ${CRON_SECRET} が無ければ 401（Vercel Cron は自動で付ける）
+ * - refresh_daily_rank_snapshot(p_day) で JST の当日分を取り直す（同じ日に何度呼んでも 1 日 1 件）
+ * - ?day=YYYY-MM-DD で取り直す日を指定できる（取りこぼしの手動再実行用）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({ ok: false, message: 'CRON_SECRET が設定されていません。' }, { status: 500 });
+    }
+    if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ ok: false, message: 'unauthorized' }, { status: 401 });
+    }
+
+    const dayParam = (req.nextUrl.searchParams.get('day') ?? '').trim();
+    if (dayParam && !/^\d{4}-\d{2}-\d{2}$/.test(dayParam)) {
+      return NextResponse.json({ ok: false, message: 'day は YYYY-MM-DD で指定してください。' }, { status: 400 });
+    }
+    const day = dayParam || jstDateOf(new Date())!;
+
+    const { error } = await supabaseAdmin.rpc('refresh_daily_rank_snapshot', { p_day: day });
+    if (error) {
+      console.error('[api/cron/rank-snapshot] rpc error:', error);
+      return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+    }
+
+    const { count } = await supabaseAdmin
+      .from('rank_snapshots')
+      .select('player_id', { count: 'exact', head: true })
+      .eq('snapshot_date', day);
+
+    return NextResponse.json({ ok: true, snapshot_date: day, players: count ?? null }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/cron/rank-snapshot] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
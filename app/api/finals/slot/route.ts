@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { setFinalSlot } from '@/lib/finals/bracket';
+import { recordAudit, tournamentIdOfBracket } from '@/lib/audit/log';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -78,18 +80,23 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, message: '必須パラメータが不足しています。' }, { status: 400 });
     }
 
-    // ✅ 保存先は final_round_entries
-    const { error } = await supabaseAdmin
-      .from('final_round_entries')
-      .upsert(
-        { bracket_id, round_no, slot_no, player_id },
-        { onConflict: 'bracket_id,round_no,slot_no' }
-      );
-
-    if (error) {
-      return NextResponse.json({ ok: false, message: `保存に失敗しました: ${error.message}` }, { status: 500 });
+    // ✅ 保存先は final_round_entries（このラウンド以降の結果クリアまで RPC で 1 トランザクション）
+    const r = await setFinalSlot(bracket_id, round_no, slot_no, player_id);
+    if (r.ok === false) {
+      return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
     }
 
+    await recordAudit({
+      actorId: userId,
+      action: 'final_round_entries.set_slot',
+      targetTable: 'final_round_entries',
+      targetId: r.result.entry_id,
+      playerId: player_id ?? r.result.previous_player_id,
+      tournamentId: await tournamentIdOfBracket(bracket_id),
+      before: { player_id: r.result.previous_player_id },
+      after: r.result,
+    });
+
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (e: any) {
     console.error('[api/finals/slot] fatal:', e);
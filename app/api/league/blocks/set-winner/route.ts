@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { readAuditRow, recordAudit } from "@/lib/audit/log";
+import { awardAchievementsSafe } from "@/lib/achievements/award";
 
 export const runtime = "nodejs";
 
@@ -69,6 +71,7 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, message: "block_id is required" }, { status: 400 });
     }
 
+    const before = await readAuditRow("league_blocks", { id: block_id });
     const { error: upErr } = await admin
       .from("league_blocks")
       .update({ winner_player_id } as any)
@@ -78,6 +81,19 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, message: upErr.message }, { status: 400 });
     }
 
+    await recordAudit({
+      actorId: userId,
+      action: "league_blocks.set_winner",
+      targetTable: "league_blocks",
+      targetId: block_id,
+      playerId: winner_player_id ?? before?.winner_player_id ?? null,
+      tournamentId: before?.tournament_id ?? null,
+      before: before ? { winner_player_id: before.winner_player_id ?? null } : null,
+      after: { winner_player_id },
+    });
+
+    if (winner_player_id) await awardAchievementsSafe([winner_player_id]);
+
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     return NextResponse.json({ ok: false, message: e?.message || "Unknown error" }, { status: 500 });
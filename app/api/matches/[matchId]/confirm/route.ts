@@ -0,0 +1,91 @@
+// app/api/matches/[matchId]/confirm/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { canRespondToMatch, disputeMatch, finalizeMatch, MATCH_STATUS_SUBMITTED } from '@/lib/matches/confirmation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ matchId: string }> };
+
+/**
+ * 相手側からの確認/異議
+ * body: { action: 'confirm' | 'dispute', reason?: string }
+ * - confirm: その場で確定して RP/HC を反映
+ * - dispute: status='disputed'（管理者の対応待ち）
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  try {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({ ok: false, message: 'Supabase 環境変数が未設定です。' }, { status: 500 });
+    }
+
+    const { matchId } = await params;
+    if (!matchId) return NextResponse.json({ ok: false, message: 'matchId が不正です。' }, { status: 400 });
+
+    const cookieStore = await cookies();
+    const supa = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {}
+        },
+      },
+    });
+
+    const { data: userData, error: userErr } = await supa.auth.getUser();
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ ok: false, message: '認証が必要です。' }, { status: 401 });
+    }
+    const playerId = userData.user.id;
+
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const action = String(body?.action ?? '').trim().toLowerCase();
+    if (action !== 'confirm' && action !== 'dispute') {
+      return NextResponse.json({ ok: false, message: 'action は confirm / dispute のいずれかです。' }, { status: 400 });
+    }
+
+    const { data: match, error: mErr } = await supabaseAdmin.from('matches').select('*').eq('id', matchId).maybeSingle();
+    if (mErr) return NextResponse.json({ ok: false, message: `試合取得に失敗しました: ${mErr.message}` }, { status: 500 });
+    if (!match) return NextResponse.json({ ok: false, message: '試合が見つかりません。' }, { status: 404 });
+
+    if (match.status !== MATCH_STATUS_SUBMITTED) {
+      return NextResponse.json({ ok: false, message: 'この試合は確認待ちではありません。' }, { status: 409 });
+    }
+    if (!(await canRespondToMatch(match, playerId))) {
+      return NextResponse.json({ ok: false, message: '対戦相手（相手チーム）のみ確認できます。' }, { status: 403 });
+    }
+
+    if (action === 'dispute') {
+      const reason = String(body?.reason ?? '').trim().slice(0, 500);
+      const r = await disputeMatch(matchId, { disputedBy: playerId, reason });
+      if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+      return NextResponse.json({ ok: true, match_id: matchId, status: 'disputed' });
+    }
+
+    const fin = await finalizeMatch(matchId, { confirmedBy: playerId });
+    if (fin.ok === false) return NextResponse.json({ ok: false, message: fin.message }, { status: fin.status });
+
+    return NextResponse.json({
+      ok: true,
+      match_id: matchId,
+      status: 'finalized',
+      winner_points_delta: fin.rating.winnerPointsChange,
+      loser_points_delta: fin.rating.loserPointsChange,
+      winner_handicap_delta: fin.rating.winnerHandicapChange,
+      loser_handicap_delta: fin.rating.loserHandicapChange,
+      affects_rating: fin.affects_rating,
+      rating_algorithm: fin.rating.algorithm,
+      rating_multiplier: fin.rating_multiplier,
+    });
+  } catch (e: any) {
+    console.error('[api/matches/[matchId]/confirm] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
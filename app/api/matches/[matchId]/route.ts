@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/requireAdmin";
+import { voidMatch } from "@/lib/matches/void";
+import { readAuditRow, recordAudit } from "@/lib/audit/log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
 type Ctx = { params: Promise<{ matchId: string }> };
 
@@ -6,3 +12,42 @@ export async function GET(_req: NextRequest, { params }: Ctx) {
   const { matchId } = await params;
   return NextResponse.json({ ok: true, route: "/api/matches/[matchId]", matchId });
 }
+
+/**
+ * 試合の無効化（管理者）
+ * - 物理削除ではなく status='voided'。反映済みの RP/HC・勝敗数は RPC 内でまとめて巻き戻す
+ * - 理由は body { reason } または ?reason=
+ */
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  const authz = await requireAdmin(req);
+  if (authz.ok === false) return NextResponse.json({ ok: false, message: authz.message }, { status: authz.status });
+
+  try {
+    const { matchId } = await params;
+    if (!matchId) return NextResponse.json({ ok: false, message: "matchId が不正です。" }, { status: 400 });
+
+    const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+    const reason = String(body?.reason ?? req.nextUrl.searchParams.get("reason") ?? "").trim().slice(0, 500);
+
+    const before = await readAuditRow("matches", { id: matchId });
+    const r = await voidMatch(matchId, { voidedBy: authz.userId, reason });
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    await recordAudit({
+      actorId: authz.userId,
+      action: "matches.void",
+      targetTable: "matches",
+      targetId: matchId,
+      playerId: before?.winner_id ?? null,
+      tournamentId: before?.tournament_id ?? null,
+      before,
+      after: r.summary,
+      metadata: { reason },
+    });
+
+    return NextResponse.json({ ok: true, ...r.summary, status: "voided" });
+  } catch (e: any) {
+    console.error("[api/matches/[matchId]] DELETE fatal:", e);
+    return NextResponse.json({ ok: false, message: e?.message || "サーバエラーが発生しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,150 @@
+// app/api/matches/confirmations/route.ts
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import {
+  canRespondToMatch,
+  MATCH_STATUS_DISPUTED,
+  MATCH_STATUS_SUBMITTED,
+  withMatchNames,
+} from '@/lib/matches/confirmation';
+import { loadAutoConfirmHours } from '@/lib/rating/config';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AnyRow = Record<string, any>;
+
+const MATCH_COLS =
+  'id,mode,status,match_date,created_at,reporter_id,winner_id,loser_id,winner_score,loser_score,end_reason,affects_rating,dispute_reason';
+const MATCH_COLS_FALLBACK =
+  'id,mode,status,match_date,created_at,reporter_id,winner_id,loser_id,winner_score,loser_score,end_reason,affects_rating';
+
+async function selectMatches(build: (cols: string) => PromiseLike<{ data: any; error: any }>) {
+  const r1 = await build(MATCH_COLS);
+  if (!r1.error) return (r1.data ?? []) as AnyRow[];
+  const r2 = await build(MATCH_COLS_FALLBACK);
+  return (r2.data ?? []) as AnyRow[];
+}
+
+/**
+ * ログイン中の選手に関係する「未確定の試合」
+ * - to_confirm: 相手が報告した、自分が確認/異議を出せる試合
+ * - submitted:  自分が報告して、まだ確定していない試合（確認待ち/異議あり）
+ * ※ 期限切れの確認待ちの自動確定は /api/cron/auto-confirm が行う（GET では書き込まない）
+ */
+export async function GET() {
+  try {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({ ok: false, message: 'Supabase 環境変数が未設定です。' }, { status: 500 });
+    }
+
+    const cookieStore = await cookies();
+    const supa = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {}
+        },
+      },
+    });
+
+    const { data: userData, error: userErr } = await supa.auth.getUser();
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ ok: false, message: '認証が必要です。' }, { status: 401 });
+    }
+    const me = userData.user.id;
+
+    const auto_confirm_hours = await loadAutoConfirmHours(supabaseAdmin);
+
+    // 個人戦：自分が勝者/敗者
+    const singles = await selectMatches((cols) =>
+      supabaseAdmin
+        .from('matches')
+        .select(cols)
+        .eq('status', MATCH_STATUS_SUBMITTED)
+        .or(`winner_id.eq.${me},loser_id.eq.${me}`)
+        .neq('reporter_id', me)
+        .order('created_at', { ascending: false })
+        .limit(50),
+    );
+
+    // 団体戦：自分の所属チームが出た試合
+    const { data: myTeams } = await supabaseAdmin.from('team_members').select('team_id').eq('player_id', me);
+    const teamIds = (myTeams ?? []).map((t: AnyRow) => String(t.team_id)).filter(Boolean);
+    let teamMatches: AnyRow[] = [];
+    if (teamIds.length) {
+      const { data: mts } = await supabaseAdmin.from('match_teams').select('match_id').in('team_id', teamIds);
+      const ids = Array.from(new Set((mts ?? []).map((x: AnyRow) => String(x.match_id))));
+      if (ids.length) {
+        teamMatches = await selectMatches((cols) =>
+          supabaseAdmin
+            .from('matches')
+            .select(cols)
+            .eq('status', MATCH_STATUS_SUBMITTED)
+            .in('id', ids.slice(0, 200))
+            .neq('reporter_id', me)
+            .order('created_at', { ascending: false })
+            .limit(50),
+        );
+      }
+    }
+
+    // ダブルス：winner_id/loser_id は各ペアの代表 1 人だけなので、match_players から自分の出た試合を拾う
+    const { data: myPairs } = await supabaseAdmin
+      .from('match_players')
+      .select('match_id')
+      .eq('player_id', me)
+      .is('rubber_no', null);
+    const pairMatchIds = Array.from(new Set((myPairs ?? []).map((x: AnyRow) => String(x.match_id))));
+    const doublesMatches: AnyRow[] = [];
+    for (let i = 0; i < pairMatchIds.length; i += 200) {
+      const chunk = pairMatchIds.slice(i, i + 200);
+      doublesMatches.push(
+        ...(await selectMatches((cols) =>
+          supabaseAdmin
+            .from('matches')
+            .select(cols)
+            .eq('status', MATCH_STATUS_SUBMITTED)
+            .in('id', chunk)
+            .neq('reporter_id', me)
+            .order('created_at', { ascending: false })
+            .limit(50),
+        )),
+      );
+    }
+
+    const seen = new Set<string>();
+    const toConfirm: AnyRow[] = [];
+    for (const m of [...singles, ...teamMatches, ...doublesMatches]) {
+      if (seen.has(m.id)) continue;
+      seen.add(m.id);
+      if (await canRespondToMatch(m, me)) toConfirm.push(m);
+    }
+
+    const mine = await selectMatches((cols) =>
+      supabaseAdmin
+        .from('matches')
+        .select(cols)
+        .in('status', [MATCH_STATUS_SUBMITTED, MATCH_STATUS_DISPUTED])
+        .eq('reporter_id', me)
+        .order('created_at', { ascending: false })
+        .limit(50),
+    );
+
+    return NextResponse.json({
+      ok: true,
+      auto_confirm_hours,
+      to_confirm: await withMatchNames(toConfirm),
+      submitted: await withMatchNames(mine),
+    });
+  } catch (e: any) {
+    console.error('[api/matches/confirmations] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+// app/api/matches/preview/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { applyRatingMultiplier, calcMatchRating, ZERO_MATCH_RATING } from '@/lib/rating/strategies';
+import { loadRatingSettings, loadTournamentMultiplier } from '@/lib/rating/config';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+// ★ /api/matches と同じ：通常以外は RP/HC 変化なし
+function affectsRating(endReason: string) {
+  return !['time_limit', 'walkover', 'forfeit'].includes(endReason);
+}
+
+/**
+ * 試合登録前の「もしこの結果なら」プレビュー（DB は変更しない）
+ * GET ?winner_id=&loser_id=&winner_score=&loser_score=&end_reason=&tournament_id=
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const q = req.nextUrl.searchParams;
+    const winner_id = String(q.get('winner_id') ?? '').trim();
+    const loser_id = String(q.get('loser_id') ?? '').trim();
+    if (!winner_id || !loser_id) {
+      return NextResponse.json({ ok: false, message: '勝者/敗者を選択してください。' }, { status: 400 });
+    }
+    if (winner_id === loser_id) {
+      return NextResponse.json({ ok: false, message: '同一プレイヤーは選べません。' }, { status: 400 });
+    }
+
+    const winner_score = clamp(toInt(q.get('winner_score'), 15), 0, 99);
+    const loser_score = clamp(toInt(q.get('loser_score'), 0), 0, 99);
+    if (winner_score <= loser_score) {
+      return NextResponse.json({ ok: false, message: 'スコアが不正です。' }, { status: 400 });
+    }
+
+    const end_reason = String(q.get('end_reason') ?? 'normal').trim().toLowerCase() || 'normal';
+    const affects_rating = affectsRating(end_reason);
+    const tournament_id = String(q.get('tournament_id') ?? '').trim() || null;
+
+    const { data: players, error: pErr } = await supabaseAdmin
+      .from('players')
+      .select('*')
+      .in('id', [winner_id, loser_id]);
+    if (pErr) {
+      return NextResponse.json({ ok: false, message: `プレイヤー取得に失敗しました: ${pErr.message}` }, { status: 500 });
+    }
+
+    const w = players?.find((p) => p.id === winner_id);
+    const l = players?.find((p) => p.id === loser_id);
+    if (!w || !l) return NextResponse.json({ ok: false, message: 'プレイヤーが見つかりません。' }, { status: 400 });
+
+    const wRP0 = toInt(w.ranking_points, 0);
+    const lRP0 = toInt(l.ranking_points, 0);
+    const wHC0 = toInt(w.handicap, 0);
+    const lHC0 = toInt(l.handicap, 0);
+
+    // 大会の試合なら bonus_coefficient も掛けた値を返す
+    const rating_multiplier = affects_rating
+      ? (await loadTournamentMultiplier(supabaseAdmin, { tournamentId: tournament_id })).multiplier
+      : 1;
+
+    const delta = affects_rating
+      ? applyRatingMultiplier(
+          calcMatchRating(await loadRatingSettings(supabaseAdmin), {
+            winnerPoints: wRP0,
+            loserPoints: lRP0,
+            winnerHandicap: wHC0,
+            loserHandicap: lHC0,
+            scoreDifference: Math.max(1, winner_score - loser_score),
+            winnerGlicko: { deviation: w.rating_deviation, volatility: w.rating_volatility },
+            loserGlicko: { deviation: l.rating_deviation, volatility: l.rating_volatility },
+          }),
+          rating_multiplier,
+        )
+      : ZERO_MATCH_RATING;
+
+    const side = (id: string, name: unknown, rp0: number, hc0: number, dRP: number, dHC: number) => {
+      const rp1 = clamp(rp0 + dRP, 0, 99999);
+      const hc1 = clamp(hc0 + dHC, 0, 50);
+      return {
+        id,
+        handle_name: String(name ?? ''),
+        ranking_points: rp0,
+        handicap: hc0,
+        next_ranking_points: rp1,
+        next_handicap: hc1,
+        // clamp 後の実際の変動
+        points_change: rp1 - rp0,
+        handicap_change: hc1 - hc0,
+      };
+    };
+
+    return NextResponse.json(
+      {
+        ok: true,
+        end_reason,
+        affects_rating,
+        rating_algorithm: delta.algorithm,
+        rating_multiplier,
+        winner: side(winner_id, w.handle_name, wRP0, wHC0, delta.winnerPointsChange, delta.winnerHandicapChange),
+        loser: side(loser_id, l.handle_name, lRP0, lHC0, delta.loserPointsChange, delta.loserHandicapChange),
+      },
+      { status: 200, headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (e: any) {
+    console.error('[api/matches/preview] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -3,6 +3,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { applyRatingMultiplier, calcMatchRating, ZERO_MATCH_RATING } from '@/lib/rating/strategies';
+import {
+  glickoBeforeOf,
+  loadRatingSettings,
+  loadTournamentMultiplier,
+  parseGlickoBefore,
+  restoreGlickoStates,
+  saveGlickoStates,
+} from '@/lib/rating/config';
+import { awardAchievementsSafe } from '@/lib/achievements/award';
+import {
+  editUnappliedMatch,
+  finalizeMatch,
+  MATCH_STATUS_VOIDED,
+  NON_APPLIED_STATUSES,
+  UNAPPLIED_STATUSES,
+} from '@/lib/matches/confirmation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -36,35 +53,6 @@ function shouldAffectRating(end_reason: EndReason) {
   return end_reason === 'normal';
 }
 
-/** ELO 風の変動（個人戦のみ） */
-function calcDelta(
-  winnerPoints: number,
-  loserPoints: number,
-  winnerHandicap: number,
-  loserHandicap: number,
-  scoreDifference: number,
-) {
-  const K = 32;
-  const expectedWinner = 1 / (1 + Math.pow(10, (loserPoints - winnerPoints) / 400));
-  const scoreDiffMultiplier = 1 + scoreDifference / 30;
-
-  const handicapDiff = winnerHandicap - loserHandicap;
-  const handicapMultiplier = 1 + handicapDiff / 50;
-
-  const baseWinnerChange = K * (1 - expectedWinner) * scoreDiffMultiplier * handicapMultiplier;
-  const baseLoserChange = -K * expectedWinner * scoreDiffMultiplier;
-
-  const winnerHandicapChange = scoreDifference >= 10 ? -1 : 0;
-  const loserHandicapChange = scoreDifference >= 10 ? 1 : 0;
-
-  return {
-    winnerPointsChange: Math.round(baseWinnerChange),
-    loserPointsChange: Math.round(baseLoserChange),
-    winnerHandicapChange,
-    loserHandicapChange,
-  };
-}
-
 async function isAdminPlayer(playerId: string): Promise<boolean> {
   const { data } = await supabaseAdmin.from('players').select('is_admin').eq('id', playerId).maybeSingle();
   return Boolean(data?.is_admin);
@@ -105,6 +93,9 @@ async function safeSelectMatch(matchId: string) {
     'winner_handicap_change',
     'loser_handicap_change',
     'affects_rating',
+    'glicko_before',
+    'tournament_id',
+    'league_block_id',
   ];
 
   for (let i = 0; i < 16; i++) {
@@ -137,6 +128,9 @@ async function safeUpdateMatches(matchId: string, patch: AnyBody) {
     'end_reason',
     'finish_reason',
     'affects_rating',
+    'rating_algorithm',
+    'rating_multiplier',
+    'glicko_before',
     'time_limit_seconds',
   ];
 
@@ -275,6 +269,12 @@ export async function POST(req: NextRequest) {
     const m0 = sel.data;
     if (!m0) return NextResponse.json({ ok: false, message: '試合が見つかりません。' }, { status: 404 });
 
+    // ★無効化済みは void_match で巻き戻し済み。再報告すると前回分をもう一度巻き戻してしまう
+    const status0 = String((m0 as any).status ?? '').toLowerCase();
+    if (status0 === MATCH_STATUS_VOIDED || status0 === 'void') {
+      return NextResponse.json({ ok: false, message: 'この試合は無効化されています。' }, { status: 409 });
+    }
+
     // ── 対戦者特定（a/b が無ければ match_entries） ──
     const part = await getParticipants(m0, matchId);
     if (!part.ok) return NextResponse.json({ ok: false, message: part.message }, { status: 400 });
@@ -287,6 +287,38 @@ export async function POST(req: NextRequest) {
     }
     const loser_id = winner_id === aId ? bId : aId;
 
+    // ★確認待ち/異議ありは RP/HC・勝敗数が未反映。確認フローで結果を直して確定する（巻き戻しは不要）
+    if (UNAPPLIED_STATUSES.includes(status0)) {
+      const ed = await editUnappliedMatch(matchId, {
+        winner_id,
+        loser_id,
+        winner_score,
+        loser_score,
+        end_reason,
+        affects_rating,
+      });
+      if (ed.ok === false) return NextResponse.json({ ok: false, message: ed.message }, { status: ed.status });
+
+      const fin = await finalizeMatch(matchId, { confirmedBy: reporter_id });
+      if (fin.ok === false) return NextResponse.json({ ok: false, message: fin.message }, { status: fin.status });
+
+      return NextResponse.json(
+        {
+          ok: true,
+          match_id: matchId,
+          end_reason,
+          affects_rating,
+          rating_algorithm: fin.rating.algorithm,
+          rating_multiplier: fin.rating_multiplier,
+          winner_points_change: fin.rating.winnerPointsChange,
+          loser_points_change: fin.rating.loserPointsChange,
+          winner_handicap_change: fin.rating.winnerHandicapChange,
+          loser_handicap_change: fin.rating.loserHandicapChange,
+        },
+        { status: 200 },
+      );
+    }
+
     const oldWinnerId = (m0 as any).winner_id as string | null;
     const oldLoserId = (m0 as any).loser_id as string | null;
 
@@ -294,7 +326,7 @@ export async function POST(req: NextRequest) {
     const ids = uniq([winner_id, loser_id, oldWinnerId, oldLoserId]);
     const { data: pRows, error: pErr } = await supabaseAdmin
       .from('players')
-      .select('id, ranking_points, handicap, matches_played, wins, losses')
+      .select('*')
       .in('id', ids);
 
     if (pErr) return NextResponse.json({ ok: false, message: `プレイヤー取得に失敗しました: ${pErr.message}` }, { status: 500 });
@@ -303,9 +335,9 @@ export async function POST(req: NextRequest) {
     (pRows ?? []).forEach((p: any) => pMap.set(p.id, p));
 
     // ─────────────────────────────────────────────
-    // 二重計算防止：前回分を巻き戻す（存在する場合）
+    // 二重計算防止：前回分を巻き戻す（反映済みの結果がある場合だけ）
     // ─────────────────────────────────────────────
-    const hasOld = !!oldWinnerId && !!oldLoserId;
+    const hasOld = !!oldWinnerId && !!oldLoserId && !NON_APPLIED_STATUSES.has(status0);
     if (hasOld) {
       const oldAffects = Boolean((m0 as any).affects_rating);
 
@@ -345,9 +377,12 @@ export async function POST(req: NextRequest) {
           .eq('id', oldLoserId);
       }
 
+      // Glicko-2 の RD / volatility も前回の反映前に戻す
+      if (oldAffects) await restoreGlickoStates(supabaseAdmin, parseGlickoBefore((m0 as any).glicko_before));
+
       const { data: pRows2 } = await supabaseAdmin
         .from('players')
-        .select('id, ranking_points, handicap, matches_played, wins, losses')
+        .select('*')
         .in('id', ids);
 
       pMap.clear();
@@ -361,17 +396,30 @@ export async function POST(req: NextRequest) {
     const l = pMap.get(loser_id);
     if (!w || !l) return NextResponse.json({ ok: false, message: 'プレイヤーが見つかりません。' }, { status: 400 });
 
+    // ★ 方式・係数は ranking_config / rating_config（管理画面で編集）から
+    const ratingSettings = await loadRatingSettings(supabaseAdmin);
+    // ★ リーグ/大会の試合は tournaments.bonus_coefficient を RP 変動に掛ける
+    const { multiplier } = await loadTournamentMultiplier(supabaseAdmin, {
+      tournamentId: (m0 as any).tournament_id,
+      leagueBlockId: (m0 as any).league_block_id,
+    });
+    const rating_multiplier = affects_rating ? multiplier : 1;
     const scoreDiff = Math.max(1, winner_score - loser_score);
 
     const delta = affects_rating
-      ? calcDelta(
-          toInt(w.ranking_points, 0),
-          toInt(l.ranking_points, 0),
-          toInt(w.handicap, 0),
-          toInt(l.handicap, 0),
-          scoreDiff,
+      ? applyRatingMultiplier(
+          calcMatchRating(ratingSettings, {
+            winnerPoints: toInt(w.ranking_points, 0),
+            loserPoints: toInt(l.ranking_points, 0),
+            winnerHandicap: toInt(w.handicap, 0),
+            loserHandicap: toInt(l.handicap, 0),
+            scoreDifference: scoreDiff,
+            winnerGlicko: { deviation: w.rating_deviation, volatility: w.rating_volatility },
+            loserGlicko: { deviation: l.rating_deviation, volatility: l.rating_volatility },
+          }),
+          rating_multiplier,
         )
-      : { winnerPointsChange: 0, loserPointsChange: 0, winnerHandicapChange: 0, loserHandicapChange: 0 };
+      : ZERO_MATCH_RATING;
 
     const nextWRP = affects_rating
       ? clamp(toInt(w.ranking_points, 0) + delta.winnerPointsChange, 0, 99999)
@@ -408,6 +456,12 @@ export async function POST(req: NextRequest) {
         .eq('id', loser_id),
     ]);
 
+    // Glicko-2 のときだけ RD / volatility も更新
+    await saveGlickoStates(supabaseAdmin, [
+      { playerId: winner_id, state: delta.winnerGlicko },
+      { playerId: loser_id, state: delta.loserGlicko },
+    ]);
+
     const patch: AnyBody = {
       status: 'finalized',
       winner_id,
@@ -426,6 +480,10 @@ export async function POST(req: NextRequest) {
       loser_handicap_change: delta.loserHandicapChange,
 
       affects_rating,
+      rating_algorithm: delta.algorithm,
+      rating_multiplier,
+      // 反映前の RD / volatility（無効化・再報告で戻す）
+      glicko_before: glickoBeforeOf([w, l], !!(delta.winnerGlicko || delta.loserGlicko)),
 
       end_reason,
       finish_reason: end_reason,
@@ -436,12 +494,16 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, message: `試合更新に失敗しました: ${up.message}` }, { status: 500 });
     }
 
+    await awardAchievementsSafe([winner_id, loser_id]);
+
     return NextResponse.json(
       {
         ok: true,
         match_id: matchId,
         end_reason,
         affects_rating,
+        rating_algorithm: delta.algorithm,
+        rating_multiplier,
         winner_points_change: delta.winnerPointsChange,
         loser_points_change: delta.loserPointsChange,
         winner_handicap_change: delta.winnerHandicapChange,
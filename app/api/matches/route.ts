@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { finalizeMatch, isMemberOfTeam, MATCH_STATUS_SUBMITTED } from '@/lib/matches/confirmation';
+import { DOUBLES_MODE, isDoublesMode, validateDoublesPairs } from '@/lib/matches/doubles';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -25,13 +27,15 @@ const toBool = (v: unknown): boolean | null => {
   return null;
 };
 
-function inferMode(body: AnyBody): 'singles' | 'teams' | null {
+function inferMode(body: AnyBody): 'singles' | 'teams' | 'doubles' | null {
   const raw = String(body?.mode ?? '').trim().toLowerCase();
   if (raw) {
     if (raw.startsWith('team')) return 'teams';
+    if (isDoublesMode(raw)) return 'doubles';
     if (raw.startsWith('sing') || raw === 'single' || raw === 'player') return 'singles';
   }
   if (body?.winner_team_id || body?.loser_team_id) return 'teams';
+  if (Array.isArray(body?.winner_ids) || Array.isArray(body?.loser_ids)) return 'doubles';
   if (body?.winner_id || body?.loser_id) return 'singles';
   if (body?.opponent_id != null || body?.i_won != null) return 'singles';
   return null;
@@ -53,35 +57,6 @@ function normalizeApplyRating(body: AnyBody, finishReason: FinishReason): boolea
   return true;
 }
 
-/** ELO 風の変動（個人戦のみ） */
-function calcDelta(
-  winnerPoints: number,
-  loserPoints: number,
-  winnerHandicap: number,
-  loserHandicap: number,
-  scoreDifference: number
-) {
-  const K = 32;
-  const expectedWinner = 1 / (1 + Math.pow(10, (loserPoints - winnerPoints) / 400));
-  const scoreDiffMultiplier = 1 + scoreDifference / 30;
-
-  const handicapDiff = winnerHandicap - loserHandicap;
-  const handicapMultiplier = 1 + handicapDiff / 50;
-
-  const baseWinnerChange = K * (1 - expectedWinner) * scoreDiffMultiplier * handicapMultiplier;
-  const baseLoserChange = -K * expectedWinner * scoreDiffMultiplier;
-
-  const winnerHandicapChange = scoreDifference >= 10 ? -1 : 0;
-  const loserHandicapChange = scoreDifference >= 10 ? 1 : 0;
-
-  return {
-    winnerPointsChange: Math.round(baseWinnerChange),
-    loserPointsChange: Math.round(baseLoserChange),
-    winnerHandicapChange,
-    loserHandicapChange,
-  };
-}
-
 async function ensureReporterPlayer(reporterId: string, displayName: string | null) {
   const { data } = await supabaseAdmin.from('players').select('id').eq('id', reporterId).maybeSingle();
   if (data) return;
@@ -112,35 +87,6 @@ async function isAdminPlayer(playerId: string): Promise<boolean> {
   return Boolean(data?.is_admin);
 }
 
-async function isMemberOfTeam(playerId: string, teamId: string): Promise<boolean> {
-  // あなたの画面が team_members を使っているので、まずそこを優先（最短）
-  const { data, error } = await supabaseAdmin
-    .from('team_members')
-    .select('team_id')
-    .eq('player_id', playerId)
-    .eq('team_id', teamId)
-    .limit(1);
-  if (!error && data && data.length > 0) return true;
-
-  // 互換候補
-  const candidates = [
-    { table: 'players_teams', playerCol: 'player_id', teamCol: 'team_id' },
-    { table: 'team_players', playerCol: 'player_id', teamCol: 'team_id' },
-    { table: 'memberships', playerCol: 'player_id', teamCol: 'team_id' },
-  ] as const;
-
-  for (const c of candidates) {
-    const { data: d, error: e } = await supabaseAdmin
-      .from(c.table)
-      .select(c.teamCol)
-      .eq(c.playerCol, playerId)
-      .eq(c.teamCol, teamId)
-      .limit(1);
-    if (!e && d && d.length > 0) return true;
-  }
-  return false;
-}
-
 /** ★チーム代表プレイヤーを自動選出（CHECK制約対策） */
 async function pickTeamRepresentativePlayerId(teamId: string, preferPlayerId?: string, avoidPlayerId?: string) {
   // 1) prefer が所属していればそれ（ただし avoid と同じならダメ）
@@ -198,6 +144,8 @@ async function insertMatchWithOptionalFields(row: AnyBody) {
     // （環境によっては無い可能性があるので保険）
     'finish_reason',
     'affects_rating',
+    'submitted_by',
+    'is_verified',
     'winner_points_delta',
     'loser_points_delta',
     'winner_handicap_delta',
@@ -231,54 +179,6 @@ async function insertMatchWithModeFallback(baseRow: AnyBody, modeCandidates: str
   return { data: null, error: last, used_mode: null };
 }
 
-/** ★チーム戦: teams テーブルの勝敗/試合数を “存在する列だけ” 更新 */
-async function bumpTeamStatsSafe(winnerTeamId: string, loserTeamId: string) {
-  try {
-    const [wRes, lRes] = await Promise.all([
-      supabaseAdmin.from('teams').select('*').eq('id', winnerTeamId).maybeSingle(),
-      supabaseAdmin.from('teams').select('*').eq('id', loserTeamId).maybeSingle(),
-    ]);
-    const w = wRes.data as AnyBody | null;
-    const l = lRes.data as AnyBody | null;
-    if (!w || !l) return;
-
-    const buildPatch = (row: AnyBody, winInc: number, lossInc: number) => {
-      const patch: AnyBody = {};
-      if ('wins' in row) patch.wins = toInt(row.wins, 0) + winInc;
-      if ('losses' in row) patch.losses = toInt(row.losses, 0) + lossInc;
-      if ('played' in row) patch.played = toInt(row.played, 0) + 1;
-      if ('matches_played' in row) patch.matches_played = toInt(row.matches_played, 0) + 1;
-      if ('games_played' in row) patch.games_played = toInt(row.games_played, 0) + 1;
-
-      if ('win_pct' in row) {
-        const winsNow = 'wins' in patch ? toInt(patch.wins, 0) : ('wins' in row ? toInt(row.wins, 0) : null);
-        let playedNow: number | null = null;
-
-        if ('played' in patch) playedNow = toInt(patch.played, 0);
-        else if ('matches_played' in patch) playedNow = toInt(patch.matches_played, 0);
-        else if ('games_played' in patch) playedNow = toInt(patch.games_played, 0);
-        else if ('played' in row) playedNow = toInt(row.played, 0);
-        else if ('matches_played' in row) playedNow = toInt(row.matches_played, 0);
-        else if ('games_played' in row) playedNow = toInt(row.games_played, 0);
-
-        if (winsNow != null && playedNow != null && playedNow > 0) patch.win_pct = winsNow / playedNow;
-      }
-
-      return patch;
-    };
-
-    const wPatch = buildPatch(w, 1, 0);
-    const lPatch = buildPatch(l, 0, 1);
-
-    await Promise.all([
-      Object.keys(wPatch).length ? supabaseAdmin.from('teams').update(wPatch).eq('id', winnerTeamId) : Promise.resolve(),
-      Object.keys(lPatch).length ? supabaseAdmin.from('teams').update(lPatch).eq('id', loserTeamId) : Promise.resolve(),
-    ]);
-  } catch {
-    // stats更新は “できたらやる”。ここで 500 にしない。
-  }
-}
-
 export async function POST(req: NextRequest) {
   try {
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
@@ -339,7 +239,7 @@ export async function POST(req: NextRequest) {
         ? clamp(toInt(body.time_limit_seconds, 0), 0, 24 * 60 * 60)
         : null;
 
-    // ===================== Singles（ここは元のまま） =====================
+    // ===================== Singles =====================
     if (inferred === 'singles') {
       let winner_id = body.winner_id ? String(body.winner_id) : '';
       let loser_id = body.loser_id ? String(body.loser_id) : '';
@@ -367,7 +267,7 @@ export async function POST(req: NextRequest) {
 
       const { data: players, error: pErr } = await supabaseAdmin
         .from('players')
-        .select('id, ranking_points, handicap, matches_played, wins, losses')
+        .select('id')
         .in('id', [winner_id, loser_id]);
 
       if (pErr) {
@@ -378,21 +278,13 @@ export async function POST(req: NextRequest) {
       const l = players?.find((p) => p.id === loser_id);
       if (!w || !l) return NextResponse.json({ ok: false, message: 'プレイヤーが見つかりません。' }, { status: 400 });
 
-      const scoreDiff = Math.max(1, winner_score - loser_score);
-      const delta = apply_rating
-        ? calcDelta(
-            toInt(w.ranking_points, 0),
-            toInt(l.ranking_points, 0),
-            toInt(w.handicap, 0),
-            toInt(l.handicap, 0),
-            scoreDiff
-          )
-        : { winnerPointsChange: 0, loserPointsChange: 0, winnerHandicapChange: 0, loserHandicapChange: 0 };
-
+      // ★ RP/HC はここでは動かさない（相手の確認 or 自動確定で finalizeMatch が反映する）
       const baseRow: AnyBody = {
-        status: 'finalized',
+        status: MATCH_STATUS_SUBMITTED,
         match_date,
         reporter_id,
+        submitted_by: reporter_id,
+        is_verified: false,
         winner_id,
         loser_id,
         winner_score,
@@ -401,10 +293,10 @@ export async function POST(req: NextRequest) {
         winner_team_no: 0,
         loser_team_no: 0,
 
-        winner_points_delta: delta.winnerPointsChange,
-        loser_points_delta: delta.loserPointsChange,
-        winner_handicap_delta: delta.winnerHandicapChange,
-        loser_handicap_delta: delta.loserHandicapChange,
+        winner_points_delta: 0,
+        loser_points_delta: 0,
+        winner_handicap_delta: 0,
+        loser_handicap_delta: 0,
 
         finish_reason,
         end_reason: finish_reason,
@@ -421,39 +313,140 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ ok: false, message: `登録に失敗しました: ${mErr?.message || 'match_id 不明'}` }, { status: 500 });
       }
 
-      const wRP0 = toInt(w.ranking_points, 0);
-      const lRP0 = toInt(l.ranking_points, 0);
-      const wHC0 = toInt(w.handicap, 0);
-      const lHC0 = toInt(l.handicap, 0);
-
-      const nextWRP = apply_rating ? clamp(wRP0 + delta.winnerPointsChange, 0, 99999) : wRP0;
-      const nextLRP = apply_rating ? clamp(lRP0 + delta.loserPointsChange, 0, 99999) : lRP0;
-      const nextWHC = apply_rating ? clamp(wHC0 + delta.winnerHandicapChange, 0, 50) : wHC0;
-      const nextLHC = apply_rating ? clamp(lHC0 + delta.loserHandicapChange, 0, 50) : lHC0;
-
-      const [uw, ul] = await Promise.all([
-        supabaseAdmin
-          .from('players')
-          .update({ ranking_points: nextWRP, handicap: nextWHC, matches_played: toInt(w.matches_played, 0) + 1, wins: toInt(w.wins, 0) + 1 })
-          .eq('id', winner_id),
-        supabaseAdmin
-          .from('players')
-          .update({ ranking_points: nextLRP, handicap: nextLHC, matches_played: toInt(l.matches_played, 0) + 1, losses: toInt(l.losses, 0) + 1 })
-          .eq('id', loser_id),
+      // ✅ 管理者の登録は確認不要（その場で確定）
+      if (!admin) {
+        return NextResponse.json(
+          {
+            ok: true,
+            match_id: ins.id,
+            db_mode: used_mode,
+            status: MATCH_STATUS_SUBMITTED,
+            affects_rating: apply_rating,
+            finish_reason,
+            end_reason: finish_reason,
+            time_limit_seconds,
+          },
+          { status: 201 }
+        );
+      }
+
+      const fin = await finalizeMatch(String(ins.id), { confirmedBy: reporter_id });
+      if (fin.ok === false) {
+        return NextResponse.json({ ok: false, message: fin.message, match_id: ins.id }, { status: fin.status });
+      }
+
+      return NextResponse.json(
+        {
+          ok: true,
+          match_id: ins.id,
+          db_mode: used_mode,
+          status: 'finalized',
+          winner_points_delta: fin.rating.winnerPointsChange,
+          loser_points_delta: fin.rating.loserPointsChange,
+          winner_handicap_delta: fin.rating.winnerHandicapChange,
+          loser_handicap_delta: fin.rating.loserHandicapChange,
+          affects_rating: apply_rating,
+          rating_algorithm: fin.rating.algorithm,
+          rating_multiplier: fin.rating_multiplier,
+          finish_reason,
+          end_reason: finish_reason,
+          time_limit_seconds,
+        },
+        { status: 201 }
+      );
+    }
+
+    // ===================== Doubles =====================
+    if (inferred === 'doubles') {
+      const ids = (v: unknown) => (Array.isArray(v) ? v.map((x) => String(x ?? '').trim()) : []);
+      const winner_ids = ids(body.winner_ids);
+      const loser_ids = ids(body.loser_ids);
+
+      const invalid = validateDoublesPairs(winner_ids, loser_ids);
+      if (invalid) return NextResponse.json({ ok: false, message: invalid }, { status: 400 });
+
+      if (!admin && ![...winner_ids, ...loser_ids].includes(reporter_id)) {
+        return NextResponse.json(
+          { ok: false, message: '自分が出場した試合のみ登録できます（管理者は除外）。' },
+          { status: 403 }
+        );
+      }
+
+      const { data: players, error: pErr } = await supabaseAdmin
+        .from('players')
+        .select('id')
+        .in('id', [...winner_ids, ...loser_ids]);
+      if (pErr) {
+        return NextResponse.json({ ok: false, message: `プレイヤー取得に失敗しました: ${pErr.message}` }, { status: 500 });
+      }
+      if ((players ?? []).length !== 4) {
+        return NextResponse.json({ ok: false, message: 'プレイヤーが見つかりません。' }, { status: 400 });
+      }
+
+      // ★ winner_id / loser_id は各ペアの先頭（代表）。RP/HC は確定時に 4 人分を反映する
+      const baseRow: AnyBody = {
+        status: MATCH_STATUS_SUBMITTED,
+        match_date,
+        reporter_id,
+        submitted_by: reporter_id,
+        is_verified: false,
+        winner_id: winner_ids[0],
+        loser_id: loser_ids[0],
+        winner_score,
+        loser_score,
+
+        winner_team_no: 1,
+        loser_team_no: 2,
+
+        winner_points_delta: 0,
+        loser_points_delta: 0,
+        winner_handicap_delta: 0,
+        loser_handicap_delta: 0,
+
+        finish_reason,
+        end_reason: finish_reason,
+        time_limit_seconds,
+
+        affects_rating: apply_rating,
+      };
+      if (tournament_id) baseRow.tournament_id = tournament_id;
+
+      const { data: ins, error: mErr, used_mode } = await insertMatchWithModeFallback(baseRow, [DOUBLES_MODE]);
+      if (mErr || !ins?.id) {
+        return NextResponse.json({ ok: false, message: `登録に失敗しました: ${mErr?.message || 'match_id 不明'}` }, { status: 500 });
+      }
+
+      const { error: mpErr } = await supabaseAdmin.from('match_players').insert([
+        ...winner_ids.map((player_id, i) => ({ match_id: ins.id, player_id, side_no: 1, slot_no: i })),
+        ...loser_ids.map((player_id, i) => ({ match_id: ins.id, player_id, side_no: 2, slot_no: i })),
       ]);
+      if (mpErr) {
+        await supabaseAdmin.from('matches').delete().eq('id', ins.id);
+        return NextResponse.json(
+          { ok: false, message: `ペアの登録に失敗しました: ${mpErr.message}` },
+          { status: 500 }
+        );
+      }
 
-      if (uw.error) console.warn('[matches API] winner update warning:', uw.error);
-      if (ul.error) console.warn('[matches API] loser  update warning:', ul.error);
+      // ✅ 管理者の登録は確認不要（その場で確定）
+      let status = MATCH_STATUS_SUBMITTED;
+      let fin = null as Awaited<ReturnType<typeof finalizeMatch>> | null;
+      if (admin) {
+        fin = await finalizeMatch(String(ins.id), { confirmedBy: reporter_id });
+        if (fin.ok === false) {
+          return NextResponse.json({ ok: false, message: fin.message, match_id: ins.id }, { status: fin.status });
+        }
+        status = 'finalized';
+      }
 
       return NextResponse.json(
         {
           ok: true,
           match_id: ins.id,
           db_mode: used_mode,
-          winner_points_delta: delta.winnerPointsChange,
-          loser_points_delta: delta.loserPointsChange,
-          winner_handicap_delta: delta.winnerHandicapChange,
-          loser_handicap_delta: delta.loserHandicapChange,
+          status,
+          winner_points_delta: fin?.ok ? fin.rating.winnerPointsChange : 0,
+          loser_points_delta: fin?.ok ? fin.rating.loserPointsChange : 0,
           affects_rating: apply_rating,
           finish_reason,
           end_reason: finish_reason,
@@ -500,9 +493,11 @@ export async function POST(req: NextRequest) {
 
       // ★チーム戦は個人レートは更新しない（デルタ0）
       const baseRow: AnyBody = {
-        status: 'finalized',
+        status: MATCH_STATUS_SUBMITTED,
         match_date,
         reporter_id,
+        submitted_by: reporter_id,
+        is_verified: false,
 
         winner_id: repWinner,
         loser_id: repLoser,
@@ -549,11 +544,18 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      // チーム成績を更新（列が無いならスキップ）
-      await bumpTeamStatsSafe(winner_team_id, loser_team_id);
+      // ✅ 管理者の登録は確認不要（その場で確定 → チーム成績を更新）
+      let status = MATCH_STATUS_SUBMITTED;
+      if (admin) {
+        const fin = await finalizeMatch(String(ins.id), { confirmedBy: reporter_id });
+        if (fin.ok === false) {
+          return NextResponse.json({ ok: false, message: fin.message, match_id: ins.id }, { status: fin.status });
+        }
+        status = 'finalized';
+      }
 
       return NextResponse.json(
-        { ok: true, match_id: ins.id, db_mode: used_mode, finish_reason, end_reason: finish_reason, time_limit_seconds },
+        { ok: true, match_id: ins.id, db_mode: used_mode, status, finish_reason, end_reason: finish_reason, time_limit_seconds },
         { status: 201 }
       );
     }
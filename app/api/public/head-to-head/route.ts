@@ -0,0 +1,130 @@
+// app/api/public/head-to-head/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { loadRatingDeltas } from '@/lib/rating/history';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+import {
+  buildMeetings,
+  ratingsAfterEachMatch,
+  summarizeHeadToHead,
+  type H2HMatch,
+} from '@/lib/players/headToHead';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AnyRow = Record<string, any>;
+
+const MEETING_LIMIT = 2000;
+const SNAPSHOT_LIMIT = 400;
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+const dateOf = (r: AnyRow) => String(r.match_date ?? r.created_at ?? '');
+const isSingles = (mode: unknown) => ['singles', 'single', 'player', ''].includes(String(mode ?? '').toLowerCase());
+const isSkipped = (r: AnyRow) => NON_APPLIED_STATUSES.has(String(r.status ?? '').toLowerCase());
+
+/**
+ * GET ?a=<player_id>&b=<player_id>&limit=10
+ * - a / b の個人戦（match_details）の対戦成績、直近 limit 件の対戦（各時点の RP / HC つき）、
+ *   両者の rank_snapshots を返す
+ * - 退会・非表示の選手は 404
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const url = new URL(req.url);
+    const a = (url.searchParams.get('a') ?? '').trim();
+    const b = (url.searchParams.get('b') ?? '').trim();
+    const limit = Math.max(1, Math.min(50, toInt(url.searchParams.get('limit'), 10)));
+
+    if (!a || !b) return NextResponse.json({ ok: false, message: 'a と b を指定してください。' }, { status: 400 });
+    if (a === b) return NextResponse.json({ ok: false, message: '同じ選手同士は比較できません。' }, { status: 400 });
+
+    const { data: players, error: pErr } = await supabaseAdmin
+      .from('players')
+      .select('id, handle_name, avatar_url, ranking_points, handicap, wins, losses, is_active, is_deleted')
+      .in('id', [a, b]);
+    if (pErr) return NextResponse.json({ ok: false, message: pErr.message }, { status: 500 });
+
+    const pa = (players ?? []).find((p) => p.id === a);
+    const pb = (players ?? []).find((p) => p.id === b);
+    const hidden = (p: AnyRow | undefined) => !p || p.is_deleted === true || p.is_active === false;
+    if (hidden(pa) || hidden(pb)) {
+      return NextResponse.json({ ok: false, message: '選手が見つかりません。' }, { status: 404 });
+    }
+
+    const { data: rows, error: mErr } = await supabaseAdmin
+      .from('match_details')
+      .select('id, mode, status, match_date, created_at, winner_id, loser_id, winner_score, loser_score, tournament_name, venue')
+      .or(`and(winner_id.eq.${a},loser_id.eq.${b}),and(winner_id.eq.${b},loser_id.eq.${a})`)
+      .order('match_date', { ascending: false })
+      .limit(MEETING_LIMIT);
+    if (mErr) return NextResponse.json({ ok: false, message: mErr.message }, { status: 500 });
+
+    const matches: H2HMatch[] = ((rows ?? []) as AnyRow[])
+      .filter((m) => m.id && isSingles(m.mode) && !isSkipped(m))
+      .map((m) => ({
+        id: String(m.id),
+        match_date: dateOf(m),
+        winner_id: String(m.winner_id),
+        loser_id: String(m.loser_id),
+        winner_score: toInt(m.winner_score, 15),
+        loser_score: toInt(m.loser_score, 0),
+        tournament_name: m.tournament_name ?? null,
+        venue: m.venue ?? null,
+      }));
+
+    const [aHistory, bHistory, snaps] = await Promise.all([
+      loadRatingDeltas(a),
+      loadRatingDeltas(b),
+      supabaseAdmin
+        .from('rank_snapshots')
+        .select('player_id, snapshot_date, rank, ranking_points')
+        .in('player_id', [a, b])
+        .order('snapshot_date', { ascending: false })
+        .limit(SNAPSHOT_LIMIT * 2),
+    ]);
+    if (snaps.error) return NextResponse.json({ ok: false, message: snaps.error.message }, { status: 500 });
+
+    const current = (p: AnyRow) => ({ points: toInt(p.ranking_points), handicap: toInt(p.handicap) });
+    const meetings = buildMeetings(
+      a,
+      matches,
+      ratingsAfterEachMatch(current(pa!), aHistory),
+      ratingsAfterEachMatch(current(pb!), bHistory),
+    );
+
+    const snapshotsOf = (id: string) =>
+      (snaps.data ?? [])
+        .filter((s) => s.player_id === id)
+        .map((s) => ({ snapshot_date: s.snapshot_date, rank: s.rank, ranking_points: s.ranking_points }))
+        .reverse();
+
+    const profile = (p: AnyRow) => ({
+      id: String(p.id),
+      handle_name: String(p.handle_name ?? ''),
+      avatar_url: p.avatar_url ?? null,
+      ranking_points: toInt(p.ranking_points),
+      handicap: toInt(p.handicap),
+      wins: toInt(p.wins),
+      losses: toInt(p.losses),
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        a: profile(pa!),
+        b: profile(pb!),
+        summary: summarizeHeadToHead(meetings),
+        meetings: meetings.slice(0, limit),
+        snapshots: { a: snapshotsOf(a), b: snapshotsOf(b) },
+      },
+      { status: 200 },
+    );
+  } catch (e: any) {
+    console.error('[api/public/head-to-head] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/public/players/[id]/stats/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { loadPlayerStats } from '@/lib/players/profileStats';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * GET：選手プロフィールの詳細スタッツ（連勝 / 直近 10 試合 / 終了理由別 / 平均得失点 / 格上・格下別 / 大会・大会外 / よく当たる相手）
+ * - 集計は lib/players/profileStats（選手ごとに 5 分キャッシュ）
+ * - 退会・非表示の選手は 404
+ */
+export async function GET(_req: NextRequest, { params }: Ctx) {
+  try {
+    const { id } = await params;
+    const playerId = String(id ?? '').trim();
+    if (!playerId) return NextResponse.json({ ok: false, message: '選手を指定してください。' }, { status: 400 });
+
+    const { data: player, error } = await supabaseAdmin
+      .from('players')
+      .select('id, is_active, is_deleted')
+      .eq('id', playerId)
+      .maybeSingle();
+    if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+    if (!player || player.is_deleted === true || player.is_active === false) {
+      return NextResponse.json({ ok: false, message: '選手が見つかりません。' }, { status: 404 });
+    }
+
+    const stats = await loadPlayerStats(playerId);
+    return NextResponse.json({ ok: true, stats }, { status: 200 });
+  } catch (e: any) {
+    console.error('[api/public/players/stats] fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
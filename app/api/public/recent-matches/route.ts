@@ -1,6 +1,8 @@
 // app/api/public/recent-matches/route.ts
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { isDoublesMode, pairName } from '@/lib/matches/doubles';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -30,7 +32,7 @@ function isFinished(m: any) {
   if (status) {
     // プロジェクト内で status 名がブレても落ちないようにゆるめに判定
     if (['completed', 'complete', 'finished', 'done', 'confirmed', 'final'].includes(status)) return true;
-    if (['pending', 'draft', 'canceled', 'cancelled'].includes(status)) return false;
+    if (NON_APPLIED_STATUSES.has(status)) return false;
     // 不明な status は下の条件にフォールバック
   }
 
@@ -41,6 +43,35 @@ function isFinished(m: any) {
   return (hasSinglesSides || hasTeamSides) && hasAnyScore;
 }
 
+/**
+ * ダブルスは winner_id / loser_id が各ペアの代表だけなので、match_players からペア名（「A / B」）を埋める
+ */
+async function withDoublesPairNames(supabase: ReturnType<typeof getSupabase>, matches: any[]) {
+  const ids = matches.filter((m) => isDoublesMode(m?.mode)).map((m) => String(m.id));
+  if (!ids.length) return matches;
+
+  const { data, error } = await supabase
+    .from('match_players')
+    .select('match_id, side_no, slot_no, players:player_id(handle_name)')
+    .in('match_id', ids)
+    .is('rubber_no', null);
+  if (error) return matches;
+
+  const rows = ((data ?? []) as any[]).sort((a, b) => Number(a?.slot_no ?? 0) - Number(b?.slot_no ?? 0));
+  const namesOf = (matchId: string, side: number) =>
+    pairName(
+      rows
+        .filter((r) => String(r?.match_id) === matchId && Number(r?.side_no) === side)
+        .map((r) => r?.players?.handle_name ?? null),
+    );
+
+  return matches.map((m) =>
+    isDoublesMode(m?.mode)
+      ? { ...m, mode: 'doubles', winner_name: namesOf(String(m.id), 1), loser_name: namesOf(String(m.id), 2) }
+      : m,
+  );
+}
+
 export async function GET(req: Request) {
   try {
     const url = new globalThis.URL(req.url);
@@ -111,7 +142,7 @@ export async function GET(req: Request) {
     // ③ pending などを弾いて「最近の試合」らしいものだけにする
     const filtered = (matches ?? []).filter(isFinished).slice(0, limit);
 
-    return NextResponse.json({ ok: true, matches: filtered });
+    return NextResponse.json({ ok: true, matches: await withDoublesPairNames(supabase, filtered) });
   } catch (e: any) {
     return NextResponse.json(
       { ok: false, message: e?.message ?? 'unexpected error' },
@@ -0,0 +1,91 @@
+// app/api/tournaments/[tournamentId]/entry/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { applyEntry, withdrawEntry } from '@/lib/tournaments/entries';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ tournamentId: string }> };
+
+/** cookie セッションのユーザー（= players.id）。未ログインなら null */
+async function currentPlayerId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const supa = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {}
+      },
+    },
+  });
+
+  const { data, error } = await supa.auth.getUser();
+  if (error || !data?.user) return null;
+  return data.user.id;
+}
+
+/**
+ * 大会へのエントリー（本人）
+ * - 定員内なら entered、超えていれば waitlisted（キャンセル待ち）
+ * - 受付中（entry_open）かつ締切前のみ
+ */
+export async function POST(_req: NextRequest, { params }: Ctx) {
+  try {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({ ok: false, message: 'Supabase 環境変数が未設定です。' }, { status: 500 });
+    }
+
+    const { tournamentId } = await params;
+    const playerId = await currentPlayerId();
+    if (!playerId) return NextResponse.json({ ok: false, message: '認証が必要です。' }, { status: 401 });
+
+    const { data: player, error: pErr } = await supabaseAdmin
+      .from('players')
+      .select('id,is_active,is_deleted,is_dummy')
+      .eq('id', playerId)
+      .maybeSingle();
+    if (pErr) return NextResponse.json({ ok: false, message: `選手情報の取得に失敗しました: ${pErr.message}` }, { status: 500 });
+    if (!player || player.is_deleted === true || player.is_dummy === true || player.is_active === false) {
+      return NextResponse.json({ ok: false, message: 'エントリーできる選手登録がありません。' }, { status: 403 });
+    }
+
+    const r = await applyEntry(tournamentId, playerId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/tournaments/entry] POST fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
+
+/**
+ * エントリーの取り下げ（本人・締切前のみ）
+ * - 空いた枠はキャンセル待ちの先頭から繰り上がる
+ */
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  try {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({ ok: false, message: 'Supabase 環境変数が未設定です。' }, { status: 500 });
+    }
+
+    const { tournamentId } = await params;
+    const playerId = await currentPlayerId();
+    if (!playerId) return NextResponse.json({ ok: false, message: '認証が必要です。' }, { status: 401 });
+
+    const r = await withdrawEntry(tournamentId, playerId);
+    if (r.ok === false) return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
+
+    return NextResponse.json({ ok: true, ...r.result });
+  } catch (e: any) {
+    console.error('[api/tournaments/entry] DELETE fatal:', e);
+    return NextResponse.json({ ok: false, message: e?.message || 'サーバエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { resetFinals } from '@/lib/finals/bracket';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -23,13 +24,6 @@ async function isAdminPlayer(playerId: string): Promise<boolean> {
   return Boolean(data?.is_admin);
 }
 
-function isMissingRelationOrColumn(err: any) {
-  const code = String(err?.code ?? '');
-  const msg = String(err?.message ?? '').toLowerCase();
-  // 42P01: relation does not exist / 42703: column does not exist など
-  return code === '42P01' || code === '42703' || msg.includes('does not exist') || msg.includes('schema cache');
-}
-
 export async function GET(_req: NextRequest, ctx: Ctx) {
   const tournamentId = await readTournamentId(ctx);
   return NextResponse.json(
@@ -80,55 +74,21 @@ export async function POST(req: NextRequest, ctx: Ctx) {
       return NextResponse.json({ ok: false, message: '管理者のみ実行できます。' }, { status: 403 });
     }
 
-    // --- ここから削除本体（Service Role = supabaseAdmin） ---
-    // 1) まず bracket を拾う
-    let bracketIds: string[] = [];
-    {
-      const r = await supabaseAdmin.from('final_brackets').select('id').eq('tournament_id', tournamentId);
-      if (r.error) {
-        if (isMissingRelationOrColumn(r.error)) {
-          // テーブルが無い環境なら「削除対象なし」でOK返す
-          return NextResponse.json(
-            { ok: true, message: 'final_brackets が存在しないため、削除対象はありません。', deleted: { brackets: 0, entries: 0 } },
-            { status: 200 },
-          );
-        }
-        throw r.error;
-      }
-      bracketIds = (r.data ?? []).map((x: any) => String(x.id));
-    }
-
-    if (bracketIds.length === 0) {
-      return NextResponse.json(
-        { ok: true, message: '決勝トーナメントは存在しません（削除対象なし）。', deleted: { brackets: 0, entries: 0 } },
-        { status: 200 },
-      );
-    }
-
-    // 2) entries（子）を先に消す
-    let deletedEntries = 0;
-    {
-      const r = await supabaseAdmin.from('final_round_entries').delete().in('bracket_id', bracketIds).select('id');
-      if (r.error) {
-        if (!isMissingRelationOrColumn(r.error)) throw r.error;
-      } else {
-        deletedEntries = (r.data ?? []).length;
-      }
-    }
-
-    // 3) bracket（親）を消す
-    let deletedBrackets = 0;
-    {
-      const r = await supabaseAdmin.from('final_brackets').delete().eq('tournament_id', tournamentId).select('id');
-      if (r.error) throw r.error;
-      deletedBrackets = (r.data ?? []).length;
+    // --- 削除本体は RPC finals_reset（1 トランザクション・反映済み RP/HC の巻き戻し込み） ---
+    const r = await resetFinals(tournamentId);
+    if (r.ok === false) {
+      return NextResponse.json({ ok: false, message: r.message }, { status: r.status });
     }
 
+    const { brackets, entries } = r.result;
     return NextResponse.json(
       {
         ok: true,
-        message: '決勝トーナメント関連データを全削除しました。',
-        deleted: { brackets: deletedBrackets, entries: deletedEntries },
+        message:
+          brackets === 0
+            ? '決勝トーナメントは存在しません（削除対象なし）。'
+            : '決勝トーナメント関連データを全削除しました。',
+        deleted: { brackets, entries, matches: r.result.matches },
       },
       { status: 200 },
     );
@@ -5,6 +5,14 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { FaTrophy } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import {
+  TIEBREAKER_LABELS,
+  computeStandings,
+  isBlockComplete,
+  isLeagueTiebreaker,
+  parseTiebreakers,
+  type LeagueTiebreaker,
+} from '@/lib/league/standings';
 
 const supabase = createClient();
 // ✅ Supabaseの型推論が never に崩れる環境向けの最小対策（このファイル内だけ）
@@ -18,15 +26,21 @@ type Tournament = {
   start_date: string | null;
   notes: string | null;
   ranking_multiplier: number | null;
+  /** 順位の決め方（tournaments.league_tiebreakers） */
+  tiebreakers: LeagueTiebreaker[];
 };
 
+// ranking_json の行（lib/league/standings の StandingRow。古い集計には rank / decided_by が無い）
 type RankingRow = {
   player_id: string;
+  rank?: number | null;
   wins: number;
   losses: number;
   points_for: number;
   points_against: number;
   point_diff?: number | null;
+  def_wins?: number | null;
+  decided_by?: string | null;
 };
 
 type LeagueBlock = {
@@ -45,6 +59,7 @@ type Player = {
   ranking_points: number | null;
   handicap: number | null;
   global_rank?: number | null;
+  is_dummy?: boolean | null;
 };
 
 type MatchCard = {
@@ -112,6 +127,8 @@ export default function LeagueBlockPublicPage() {
         .from('matches')
         .select('id,player_a_id,player_b_id,winner_id,loser_id,winner_score,loser_score,match_date')
         .eq('league_block_id', blockId)
+        .order('round_no', { ascending: true, nullsFirst: false })
+        .order('match_order', { ascending: true, nullsFirst: false })
         .order('match_date', { ascending: true });
 
       if (matchesErr) {
@@ -151,13 +168,13 @@ export default function LeagueBlockPublicPage() {
       if (lb.tournament_id) {
         const { data: tRow, error: tErr } = await db
           .from('tournaments')
-          .select('id,name,start_date,notes,ranking_multiplier')
+          .select('id,name,start_date,notes,bonus_coefficient,league_tiebreakers')
           .eq('id', lb.tournament_id)
           .maybeSingle();
 
         if (tErr) {
           if ((tErr as any)?.code === '42703') {
-            console.warn('[league/block] tournaments.ranking_multiplier missing. Fallback select without it.');
+            console.warn('[league/block] tournaments.bonus_coefficient / league_tiebreakers missing. Fallback select without them.');
             const { data: tRow2, error: tErr2 } = await db
               .from('tournaments')
               .select('id,name,start_date,notes')
@@ -173,6 +190,7 @@ export default function LeagueBlockPublicPage() {
                 start_date: tRow2.start_date ?? null,
                 notes: tRow2.notes ?? null,
                 ranking_multiplier: null,
+                tiebreakers: parseTiebreakers(null),
               };
             }
           } else {
@@ -184,7 +202,9 @@ export default function LeagueBlockPublicPage() {
             name: tRow.name ?? null,
             start_date: tRow.start_date ?? null,
             notes: tRow.notes ?? null,
-            ranking_multiplier: typeof tRow.ranking_multiplier === 'number' ? tRow.ranking_multiplier : null,
+            // ✅ 試合報告時に RP 変動へ掛けている大会係数（tournaments.bonus_coefficient）
+            ranking_multiplier: typeof tRow.bonus_coefficient === 'number' ? tRow.bonus_coefficient : null,
+            tiebreakers: parseTiebreakers(tRow.league_tiebreakers),
           };
         }
       }
@@ -196,6 +216,7 @@ export default function LeagueBlockPublicPage() {
           start_date: null,
           notes: null,
           ranking_multiplier: null,
+          tiebreakers: parseTiebreakers(null),
         }
       );
 
@@ -205,7 +226,7 @@ export default function LeagueBlockPublicPage() {
       if (playerIds.length > 0) {
         const { data: pRows, error: pErr } = await db
           .from('players')
-          .select('id,handle_name,avatar_url,ranking_points,handicap')
+          .select('id,handle_name,avatar_url,ranking_points,handicap,is_dummy')
           .in('id', playerIds);
 
         if (pErr) console.error('[league/block] players fetch error:', pErr);
@@ -234,6 +255,7 @@ export default function LeagueBlockPublicPage() {
             ranking_points: typeof p.ranking_points === 'number' ? p.ranking_points : p.ranking_points ?? null,
             handicap: typeof p.handicap === 'number' ? p.handicap : p.handicap ?? null,
             global_rank: typeof rankMap[id] === 'number' ? rankMap[id] : null,
+            is_dummy: p.is_dummy ?? null,
           };
         });
       }
@@ -241,20 +263,21 @@ export default function LeagueBlockPublicPage() {
       setPlayers(playersDict);
 
       /* ---- 5) ranking ----
-         集計前で ranking_json が空でも、選手一覧が出るように 0初期値を生成 */
+         集計前で ranking_json が空なら、管理画面の集計と同じ計算（lib/league/standings）で途中経過を出す */
       const rankingJson = Array.isArray(lb.ranking_json) ? lb.ranking_json : [];
       if (rankingJson.length > 0) {
         setRanking(rankingJson as RankingRow[]);
       } else {
+        const defIds = Object.values(playersDict)
+          .filter((p) => p.is_dummy === true || String(p.handle_name ?? '').trim().toLowerCase() === 'def')
+          .map((p) => p.id);
         setRanking(
-          playerIds.map((pid) => ({
-            player_id: pid,
-            wins: 0,
-            losses: 0,
-            points_for: 0,
-            points_against: 0,
-            point_diff: 0,
-          }))
+          computeStandings(playerIds, cards, {
+            tiebreakers: tour?.tiebreakers,
+            defIds,
+            seed: blockId,
+            drawLots: isBlockComplete(cards),
+          })
         );
       }
 
@@ -303,9 +326,14 @@ export default function LeagueBlockPublicPage() {
         calcPointDiff(r) === 0
     );
 
+  // 集計済み（rank あり）はそのまま、古い集計は並び順から
+  const rankOf = (row: RankingRow, idx: number) =>
+    typeof row.rank === 'number' ? row.rank : isFullTieWithZeroDiff ? 1 : idx + 1;
+  const decidedByLabel = (row: RankingRow) =>
+    isLeagueTiebreaker(row.decided_by) ? TIEBREAKER_LABELS[row.decided_by] : '-';
+
   const winnerIndex = winnerPlayer ? ranking.findIndex((r) => r.player_id === winnerPlayer.id) : -1;
-  const winnerLocalRank =
-    winnerIndex >= 0 ? (isFullTieWithZeroDiff ? 1 : winnerIndex + 1) : null;
+  const winnerLocalRank = winnerIndex >= 0 ? rankOf(ranking[winnerIndex], winnerIndex) : null;
 
   return (
     <div className="min-h-screen px-4 py-6 text-white">
@@ -374,13 +402,14 @@ export default function LeagueBlockPublicPage() {
                   <th className="border border-white/20 px-2 py-1">得点</th>
                   <th className="border border-white/20 px-2 py-1">失点</th>
                   <th className="border border-white/20 px-2 py-1">得失点差</th>
+                  <th className="border border-white/20 px-2 py-1">決め手</th>
                 </tr>
               </thead>
               <tbody>
                 {ranking.map((row, idx) => {
                   const p = players[row.player_id];
                   const pointDiff = calcPointDiff(row);
-                  const displayRank = isFullTieWithZeroDiff ? 1 : idx + 1;
+                  const displayRank = rankOf(row, idx);
 
                   return (
                     <tr key={row.player_id} className="bg-black/40">
@@ -394,11 +423,17 @@ export default function LeagueBlockPublicPage() {
                       <td className="border border-white/10 px-2 py-1 text-right">{row.points_for}</td>
                       <td className="border border-white/10 px-2 py-1 text-right">{row.points_against}</td>
                       <td className="border border-white/10 px-2 py-1 text-right">{pointDiff}</td>
+                      <td className="border border-white/10 px-2 py-1 text-center text-xs text-gray-300">
+                        {decidedByLabel(row)}
+                      </td>
                     </tr>
                   );
                 })}
               </tbody>
             </table>
+            <div className="mt-2 text-xs text-gray-300">
+              順位の決め方: {tournament.tiebreakers.map((k) => TIEBREAKER_LABELS[k]).join(' → ')}
+            </div>
           </div>
         )}
 
@@ -0,0 +1,213 @@
+// app/mypage/PendingMatchesPanel.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { FaCheck, FaExclamationTriangle, FaHourglassHalf, FaSpinner } from 'react-icons/fa';
+
+type PendingMatch = {
+  id: string;
+  mode: 'singles' | 'teams' | 'doubles';
+  status: string;
+  match_date: string | null;
+  created_at: string | null;
+  winner_score: number | null;
+  loser_score: number | null;
+  end_reason?: string | null;
+  dispute_reason?: string | null;
+  winner_name: string | null;
+  loser_name: string | null;
+  reporter_name: string | null;
+};
+
+type ConfirmationsResponse =
+  | { ok: true; auto_confirm_hours: number; to_confirm: PendingMatch[]; submitted: PendingMatch[] }
+  | { ok: false; message?: string };
+
+const END_REASON_LABEL: Record<string, string> = {
+  time_limit: '時間切れ',
+  walkover: '不戦勝',
+  forfeit: '棄権',
+};
+
+function MatchLine({ m }: { m: PendingMatch }) {
+  const when = m.match_date ? new Date(m.match_date).toLocaleString() : '-';
+  const reason = m.end_reason ? END_REASON_LABEL[m.end_reason] : null;
+  return (
+    <div className="min-w-0">
+      <div className="text-xs text-gray-400">
+        {when}
+        {m.mode === 'teams' && <span className="ml-2 text-emerald-300">チーム戦</span>}
+        {m.mode === 'doubles' && <span className="ml-2 text-sky-300">ダブルス</span>}
+        {reason && <span className="ml-2 text-amber-300">{reason}</span>}
+      </div>
+      <div className="text-sm text-yellow-100 truncate">
+        <span className="text-green-300">{m.winner_name ?? '勝者'}</span>
+        <span className="mx-2 font-bold text-white">
+          {m.winner_score ?? '-'} - {m.loser_score ?? '-'}
+        </span>
+        <span className="text-red-300">{m.loser_name ?? '敗者'}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 試合結果の確認（マイページ）
+ * - 相手が報告した試合を「確認」または「異議」
+ * - 自分が報告した試合の状況（確認待ち / 異議あり）
+ */
+export default function PendingMatchesPanel() {
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState('');
+  const [toConfirm, setToConfirm] = useState<PendingMatch[]>([]);
+  const [submitted, setSubmitted] = useState<PendingMatch[]>([]);
+  const [autoHours, setAutoHours] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [disputeId, setDisputeId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setErr('');
+      const res = await fetch('/api/matches/confirmations', { credentials: 'include', cache: 'no-store' });
+      const json = (await res.json().catch(() => ({ ok: false, message: 'Invalid JSON' }))) as ConfirmationsResponse;
+      if (!res.ok || json.ok === false) throw new Error((json as any)?.message || `HTTP ${res.status}`);
+      setToConfirm(json.to_confirm ?? []);
+      setSubmitted(json.submitted ?? []);
+      setAutoHours(Number(json.auto_confirm_hours ?? 0));
+    } catch (e: any) {
+      setErr(e?.message || '確認待ちの試合の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const respond = async (matchId: string, action: 'confirm' | 'dispute') => {
+    setBusyId(matchId);
+    setErr('');
+    try {
+      const res = await fetch(`/api/matches/${matchId}/confirm`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'dispute' ? { action, reason } : { action }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.ok) throw new Error(json?.message || `HTTP ${res.status}`);
+      setDisputeId(null);
+      setReason('');
+      await load();
+    } catch (e: any) {
+      setErr(e?.message || '送信に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="glass-card rounded-xl p-5 border border-purple-500/30 bg-gray-900/50" aria-busy="true">
+        <div className="animate-pulse h-6 w-40 bg-white/10 rounded mb-3" />
+        <div className="animate-pulse h-10 w-full bg-white/10 rounded" />
+      </div>
+    );
+  }
+
+  // 何も無ければ出さない（エラーは出す）
+  if (!err && toConfirm.length === 0 && submitted.length === 0) return null;
+
+  return (
+    <div className="glass-card rounded-xl p-5 border border-amber-500/30 bg-gray-900/50">
+      <h2 className="text-lg font-semibold text-amber-200 mb-1 flex items-center gap-2">
+        <FaHourglassHalf /> 試合結果の確認
+      </h2>
+      <p className="text-xs text-gray-400 mb-4">
+        相手が報告した結果は、あなたが確認するとランキング（RP/HC）に反映されます。
+        {autoHours > 0 && ` 確認がない場合は報告から${autoHours}時間後に自動で確定します。`}
+      </p>
+
+      {err && <p className="mb-3 text-sm text-red-400">{err}</p>}
+
+      {toConfirm.length > 0 && (
+        <div className="space-y-3">
+          {toConfirm.map((m) => (
+            <div key={m.id} className="p-3 rounded-xl border border-purple-500/30 bg-gray-900/40">
+              <div className="flex items-center justify-between gap-3">
+                <MatchLine m={m} />
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => respond(m.id, 'confirm')}
+                    disabled={busyId === m.id}
+                    className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-60 inline-flex items-center gap-2 text-sm"
+                  >
+                    {busyId === m.id ? <FaSpinner className="animate-spin" /> : <FaCheck />} 確認
+                  </button>
+                  <button
+                    onClick={() => {
+                      setDisputeId(disputeId === m.id ? null : m.id);
+                      setReason('');
+                    }}
+                    disabled={busyId === m.id}
+                    className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-60 inline-flex items-center gap-2 text-sm"
+                  >
+                    <FaExclamationTriangle /> 異議
+                  </button>
+                </div>
+              </div>
+              {m.reporter_name && <div className="mt-1 text-xs text-gray-500">報告者: {m.reporter_name}</div>}
+
+              {disputeId === m.id && (
+                <div className="mt-3 space-y-2">
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={2}
+                    maxLength={500}
+                    placeholder="異議の内容（例：スコアが違う／この試合はしていない）"
+                    className="w-full px-3 py-2 rounded-lg bg-purple-900/20 border border-purple-500/30 focus:border-purple-400 outline-none text-sm"
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => respond(m.id, 'dispute')}
+                      disabled={busyId === m.id}
+                      className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 disabled:opacity-60 text-sm"
+                    >
+                      管理者に異議を送る
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {submitted.length > 0 && (
+        <div className={toConfirm.length > 0 ? 'mt-5' : ''}>
+          <h3 className="text-sm text-gray-300 mb-2">あなたが報告した試合</h3>
+          <div className="space-y-2">
+            {submitted.map((m) => (
+              <div
+                key={m.id}
+                className="p-3 rounded-xl border border-purple-500/20 bg-gray-900/30 flex items-center justify-between gap-3"
+              >
+                <MatchLine m={m} />
+                {m.status === 'disputed' ? (
+                  <span className="shrink-0 text-xs px-2 py-1 rounded-full bg-red-500/20 text-red-300" title={m.dispute_reason ?? ''}>
+                    異議あり（管理者確認中）
+                  </span>
+                ) : (
+                  <span className="shrink-0 text-xs px-2 py-1 rounded-full bg-amber-500/20 text-amber-300">相手の確認待ち</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
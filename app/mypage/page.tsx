@@ -26,6 +26,7 @@ import {
 } from 'react-icons/fa';
 
 const TeamRegisterFile = dynamic(() => import('./TeamRegisterFile'), { ssr: false });
+const PendingMatchesPanel = dynamic(() => import('./PendingMatchesPanel'), { ssr: false });
 
 /* ================================ 型 ================================ */
 type Player = {
@@ -832,6 +833,11 @@ export default function MyPage() {
         </p>
       </div>
 
+      {/* ✅ 相手が報告した試合の確認／自分の報告の確認状況（無ければ非表示） */}
+      <div className="mb-6 empty:hidden">
+        <PendingMatchesPanel />
+      </div>
+
       {/* プロフィール編集 */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 glass-card rounded-xl p-5 border border-purple-500/30 bg-gray-900/50">
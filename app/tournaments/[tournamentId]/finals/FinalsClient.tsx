@@ -5,6 +5,16 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { FaArrowLeft, FaSave } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import {
+  buildSeriesLines,
+  computeSeries,
+  defAdvantage,
+  loserWinsRange,
+  seriesBestOf,
+  seriesLabel,
+  winsNeeded,
+  type SeriesGame,
+} from '@/lib/finals/series';
 
 type FinalBracket = {
   id: string;
@@ -48,7 +58,6 @@ type Player = {
   handicap: number | null;
 };
 
-type SeriesMode = '2-0' | '2-1';
 type BaseReason = 'normal' | 'time_limit' | 'forfeit';
 
 const toInt = (v: any): number | null => {
@@ -152,66 +161,45 @@ const computeAdvNormalId = (pidA: string, pidB: string, advDefPlayerId: string |
   return null;
 };
 
-// 3試合表示用（勝者手動選択に合わせて「どう並ぶか」を表示するだけ）
+// N試合表示用（勝者手動選択に合わせて「どう並ぶか」を表示するだけ。並びは lib/finals/series）
 function computeSeriesWithAdv(opts: {
   pidA: string;
   pidB: string;
   winnerId: string;
   advNormalId: string | null; // 通常側（第1試合 DEF 勝ち固定）
-  mode: SeriesMode;
+  loserWins: number;
+  bestOf: number;
 }) {
-  const otherId = opts.winnerId === opts.pidA ? opts.pidB : opts.pidA;
-
-  if (!opts.advNormalId) {
-    // 通常 best-of-3 の並び（表示用）
-    const w = 2;
-    const l = opts.mode === '2-1' ? 1 : 0;
-    return {
-      winner_score: w,
-      loser_score: l,
-      games: [
-        { label: '第1試合', winner: opts.winnerId, note: '' },
-        { label: '第2試合', winner: opts.winnerId, note: '' },
-        {
-          label: '第3試合',
-          winner: opts.mode === '2-1' ? otherId : null,
-          note: opts.mode === '2-0' ? '未実施' : '',
-        },
-      ],
-    };
-  }
+  const advantage = opts.advNormalId
+    ? defAdvantage(opts.advNormalId === opts.pidB, opts.advNormalId === opts.pidA)
+    : { a: 0, b: 0 };
+  const idOf = (side: 'a' | 'b' | null) => (side === 'a' ? opts.pidA : side === 'b' ? opts.pidB : null);
+
+  const s = buildSeriesLines({
+    bestOf: opts.bestOf,
+    advantage,
+    winner: opts.winnerId === opts.pidA ? 'a' : 'b',
+    loserWins: opts.loserWins,
+  });
+
+  return {
+    winner_score: s.winner_score,
+    loser_score: s.loser_score,
+    games: s.lines.map((g) => ({
+      label: `第${g.game_no}試合`,
+      winner: idOf(g.winner),
+      note: g.def ? 'DEF（アドバンテージ）' : g.skipped ? '未実施' : '',
+    })),
+  };
+}
 
-  // アドあり：第1試合は advNormalId の DEF勝ち固定
-  if (opts.winnerId === opts.advNormalId) {
-    // 通常側が勝つ：2-0 or 2-1
-    const w = 2;
-    const l = opts.mode === '2-1' ? 1 : 0;
-
-    const defSide = otherId; // 通常側の相手（予選DEF勝ち上がり側）
-    const game2Winner = opts.mode === '2-0' ? opts.advNormalId : defSide;
-    const game3Winner = opts.mode === '2-0' ? null : opts.advNormalId;
-
-    return {
-      winner_score: w,
-      loser_score: l,
-      games: [
-        { label: '第1試合', winner: opts.advNormalId, note: 'DEF（アドバンテージ）' },
-        { label: '第2試合', winner: game2Winner, note: '' },
-        { label: '第3試合', winner: game3Winner, note: game3Winner ? '' : '未実施' },
-      ],
-    };
-  } else {
-    // 予選DEF勝ち上がり側が勝つ：残り2試合を両方勝つ必要 → 常に 2-1
-    return {
-      winner_score: 2,
-      loser_score: 1,
-      games: [
-        { label: '第1試合', winner: opts.advNormalId, note: 'DEF（アドバンテージ）' },
-        { label: '第2試合', winner: opts.winnerId, note: '' },
-        { label: '第3試合', winner: opts.winnerId, note: '' },
-      ],
-    };
-  }
+// 敗者側の勝ち数の選択肢（予選DEF側が勝つ場合は通常側のアド分が必ず入る）
+function loserWinsOptions(opts: { pidA: string; pidB: string; winnerId: string; advNormalId: string | null; bestOf: number }) {
+  const advantage = opts.advNormalId
+    ? defAdvantage(opts.advNormalId === opts.pidB, opts.advNormalId === opts.pidA)
+    : { a: 0, b: 0 };
+  const { min, max } = loserWinsRange(opts.bestOf, advantage, opts.winnerId === opts.pidB ? 'b' : 'a');
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
 }
 
 export default function AdminTournamentFinalsClient({ tournamentId }: { tournamentId: string }) {
@@ -234,8 +222,10 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
 
   // ✅ 予選DEF勝ち上がりプレイヤーID（round:match → playerId）
   const [advDefMap, setAdvDefMap] = useState<Record<string, string>>({});
-  // ✅ best-of-3 の 2-0 / 2-1（round:match → mode）
-  const [seriesModeMap, setSeriesModeMap] = useState<Record<string, SeriesMode>>({});
+  // ✅ N本勝負の敗者側の勝ち数（round:match → 勝ち数。2-0 / 2-1 / 3-2 …の右側）
+  const [loserWinsMap, setLoserWinsMap] = useState<Record<string, number>>({});
+  // ✅ N（大会の best_of。奇数・3 以上にそろえる）
+  const [bestOf, setBestOf] = useState(3);
 
   // 入力状態（R1=2試合、R2=1試合）
   const [r1Reason, setR1Reason] = useState<Record<number, BaseReason>>({ 1: 'normal', 2: 'normal' });
@@ -245,14 +235,22 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
 
   const [r2Reason, setR2Reason] = useState<BaseReason>('normal');
   const [r2Winner, setR2Winner] = useState<string>(''); // ✅ 勝者は手動選択
-  const [r2SetA, setR2SetA] = useState<{ s1: string; s2: string; s3: string }>({ s1: '', s2: '', s3: '' });
-  const [r2SetB, setR2SetB] = useState<{ s1: string; s2: string; s3: string }>({ s1: '', s2: '', s3: '' });
+  const [r2SetA, setR2SetA] = useState<string[]>([]);
+  const [r2SetB, setR2SetB] = useState<string[]>([]);
 
   const playerName = (id: string | null | undefined) => {
     if (!id) return '—';
     return players[id]?.handle_name ?? id.slice(0, 8);
   };
 
+  // 敗者側の勝ち数（選択肢の範囲に収める。勝者未選択なら通常側 / A が勝つ前提の範囲）
+  const seriesChoice = (key: string, pidA: string, pidB: string, winnerId: string, advNormalId: string | null) => {
+    const choices = loserWinsOptions({ pidA, pidB, winnerId: winnerId || advNormalId || pidA, advNormalId, bestOf });
+    const raw = loserWinsMap[key] ?? 0;
+    const loserWins = Math.min(choices[choices.length - 1], Math.max(choices[0], raw));
+    return { choices, loserWins };
+  };
+
   // 20秒で “詰まった” 判定（UIは維持したまま復帰導線だけ追加）
   const loadingTimer = useRef<number | null>(null);
   useEffect(() => {
@@ -372,6 +370,10 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
     try {
       console.log('[admin/finals] loadAll start', { tournamentId });
 
+      const { data: tRow } = await db.from('tournaments').select('best_of').eq('id', tournamentId).maybeSingle();
+      const n = seriesBestOf(tRow?.best_of);
+      setBestOf(n);
+
       const { data: bRows, error: bErr } = await db
         .from('final_brackets')
         .select('*')
@@ -385,7 +387,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
         setMatches([]);
         setPlayers({});
         setAdvDefMap({});
-        setSeriesModeMap({});
+        setLoserWinsMap({});
         setError('決勝トーナメントが見つかりませんでした');
         return;
       }
@@ -440,7 +442,12 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
 
       // ===== 入力欄へ反映（既存分）=====
       const nextAdv: Record<string, string> = {};
-      const nextSeries: Record<string, SeriesMode> = {};
+      const nextSeries: Record<string, number> = {};
+      const need = winsNeeded(n);
+      // 勝ち抜け側が need 勝なら、残りの方を敗者側の勝ち数として復元
+      const restoreLoserWins = (key: string, ws: number, ls: number) => {
+        if (Math.max(ws, ls) === need && Math.min(ws, ls) < need) nextSeries[key] = Math.min(ws, ls);
+      };
 
       const nextR1Reason: Record<number, BaseReason> = { 1: 'normal', 2: 'normal' };
       const nextR1Winner: Record<number, string> = { 1: '', 2: '' };
@@ -464,11 +471,8 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
         if (m.winner_score != null) nextR1WScore[no] = String(m.winner_score);
         if (m.loser_score != null) nextR1LScore[no] = String(m.loser_score);
 
-        // ✅ mode復元（R1でシリーズ化してるケース用）
-        const ws = Number(m.winner_score ?? 0);
-        const ls = Number(m.loser_score ?? 0);
-        if ((ws === 2 && ls === 1) || (ws === 1 && ls === 2)) nextSeries[advKey(1, no)] = '2-1';
-        if ((ws === 2 && ls === 0) || (ws === 0 && ls === 2)) nextSeries[advKey(1, no)] = '2-0';
+        // ✅ 勝ち数の復元（R1でシリーズ化してるケース用）
+        restoreLoserWins(advKey(1, no), Number(m.winner_score ?? 0), Number(m.loser_score ?? 0));
       });
 
       // R2-1（決勝）
@@ -479,15 +483,12 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
         if (dec.advDefPlayerId) nextAdv[advKey(2, 1)] = dec.advDefPlayerId;
         if (mFinal.winner_id) nextR2Winner = String(mFinal.winner_id);
 
-        // ✅ mode復元（adv有無に関わらず、2-0/2-1が入ってるなら復元）
-        const ws = Number(mFinal.winner_score ?? 0);
-        const ls = Number(mFinal.loser_score ?? 0);
-        if ((ws === 2 && ls === 1) || (ws === 1 && ls === 2)) nextSeries[advKey(2, 1)] = '2-1';
-        if ((ws === 2 && ls === 0) || (ws === 0 && ls === 2)) nextSeries[advKey(2, 1)] = '2-0';
+        // ✅ 勝ち数の復元（adv有無に関わらず、シリーズのスコアが入ってるなら復元）
+        restoreLoserWins(advKey(2, 1), Number(mFinal.winner_score ?? 0), Number(mFinal.loser_score ?? 0));
       }
 
       setAdvDefMap(nextAdv);
-      setSeriesModeMap(nextSeries);
+      setLoserWinsMap(nextSeries);
 
       setR1Reason(nextR1Reason);
       setR1Winner(nextR1Winner);
@@ -603,9 +604,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
     let loser_score: number | null = null;
 
     if (advNormalId) {
-      const rawMode = seriesModeMap[key] ?? '2-0';
-      const mode: SeriesMode = winnerId === advNormalId ? rawMode : '2-1';
-      const s = computeSeriesWithAdv({ pidA, pidB, winnerId, advNormalId, mode });
+      const s = computeSeriesWithAdv({ pidA, pidB, winnerId, advNormalId, loserWins: loserWinsMap[key] ?? 0, bestOf });
       winner_score = s.winner_score;
       loser_score = s.loser_score;
     } else {
@@ -638,43 +637,22 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
     }
   };
 
-  // R2（表示用：セット勝利数）
-  const computeBestOf3Wins = (pidA: string, pidB: string) => {
+  // R2（表示用：アド込みの勝利数）
+  const computeR2Wins = (pidA: string, pidB: string) => {
     const rawAdv = String(advDefMap[advKey(2, 1)] || '').trim() || null;
     const advDefPlayerId = sanitizeAdvDefId(pidA, pidB, rawAdv);
     const advNormalId = computeAdvNormalId(pidA, pidB, advDefPlayerId);
 
-    const a = [toInt(r2SetA.s1), toInt(r2SetA.s2), toInt(r2SetA.s3)];
-    const b = [toInt(r2SetB.s1), toInt(r2SetB.s2), toInt(r2SetB.s3)];
-
-    let wonA = 0;
-    let wonB = 0;
+    // アドがある場合：第1試合は通常側のDEF勝ち固定（Set1 の入力は使わない）
+    const advantage = advNormalId ? defAdvantage(advNormalId === pidB, advNormalId === pidA) : { a: 0, b: 0 };
+    const offset = advNormalId ? 1 : 0;
+    const games: SeriesGame[] = Array.from({ length: bestOf - offset }, (_, i) => ({
+      a: toInt(r2SetA[i + offset]),
+      b: toInt(r2SetB[i + offset]),
+    }));
 
-    // アドがある場合：第1試合は通常側のDEF勝ち固定（セット入力が空でもカウント）
-    if (advNormalId) {
-      if (advNormalId === pidA) wonA += 1;
-      else if (advNormalId === pidB) wonB += 1;
-    } else {
-      // 通常の場合のみ Set1 を入力で判定
-      const av = a[0];
-      const bv = b[0];
-      if (av != null && bv != null && av !== bv) {
-        if (av > bv) wonA++;
-        else wonB++;
-      }
-    }
-
-    // Set2/3 は入力で判定
-    for (let i = 1; i < 3; i++) {
-      const av = a[i];
-      const bv = b[i];
-      if (av == null || bv == null) continue;
-      if (av === bv) continue;
-      if (av > bv) wonA++;
-      else wonB++;
-    }
-
-    return { wonA, wonB, advDefPlayerId, advNormalId };
+    const score = computeSeries(bestOf, games, advantage);
+    return { wonA: score.totalA, wonB: score.totalB, advDefPlayerId, advNormalId };
   };
 
   const saveR2Final = async () => {
@@ -696,18 +674,14 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
     const baseR: BaseReason = r2Reason || 'normal';
     const encoded = encodeReason(baseR, advDefPlayerId);
 
-    // 最終スコア（2-0 / 2-1）は「勝者手動 + ルール」で整形
-    let mode: SeriesMode = seriesModeMap[key] ?? '2-0';
-    if (advNormalId) {
-      mode = winnerId === advNormalId ? mode : '2-1'; // 予選DEF側が勝つなら必ず2-1
-    }
-
+    // 最終スコア（2-0 / 2-1 / 3-2 …）は「勝者手動 + ルール」で整形（予選DEF側が勝つなら通常側のアド分が必ず入る）
     const s = computeSeriesWithAdv({
       pidA,
       pidB,
       winnerId,
       advNormalId,
-      mode,
+      loserWins: loserWinsMap[key] ?? 0,
+      bestOf,
     });
 
     setSavingKey('r2:1');
@@ -753,7 +727,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
           <div>
             <div className="text-xs text-purple-200">ADMIN</div>
             <h1 className="text-2xl font-bold">決勝トーナメント管理</h1>
-            <div className="text-xs text-gray-300 mt-1">R1は通常1試合 / 決勝(R2)は best_of_3（2勝先取）</div>
+            <div className="text-xs text-gray-300 mt-1">R1は通常1試合 / 決勝(R2)は {seriesLabel(bestOf)}</div>
           </div>
 
           <div className="flex items-center gap-2">
@@ -815,13 +789,18 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                 const advNormalId = pidA && pidB ? computeAdvNormalId(pidA, pidB, advDefPlayerId) : null;
 
                 const selectedWinnerId = String(r1Winner[matchNo] || '').trim();
-                const rawMode = seriesModeMap[key] ?? '2-0';
-                const mode: SeriesMode =
-                  advNormalId && selectedWinnerId && selectedWinnerId !== advNormalId ? '2-1' : rawMode;
+                const choice = pidA && pidB ? seriesChoice(key, pidA, pidB, selectedWinnerId, advNormalId) : null;
 
                 const series =
                   pidA && pidB && selectedWinnerId
-                    ? computeSeriesWithAdv({ pidA, pidB, winnerId: selectedWinnerId, advNormalId, mode })
+                    ? computeSeriesWithAdv({
+                        pidA,
+                        pidB,
+                        winnerId: selectedWinnerId,
+                        advNormalId,
+                        loserWins: choice?.loserWins ?? 0,
+                        bestOf,
+                      })
                     : null;
 
                 // ✅ 自動スコアは「adv + 勝者選択済」のときだけ
@@ -934,8 +913,8 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                           </button>
                         </div>
 
-                        {/* アドあり：3試合表示 + 2-0/2-1選択（通常側が勝つ時のみ） */}
-                        {advNormalId && pidA && pidB ? (
+                        {/* アドあり：N試合表示 + 最終結果の選択（予選DEF側が勝つ時は固定） */}
+                        {advNormalId && pidA && pidB && choice ? (
                           <div className="mt-1 rounded-xl border border-white/10 bg-black/10 p-3 text-xs">
                             <div className="text-yellow-200/90">
                               ※ 第1試合は <span className="font-semibold">{playerName(advNormalId)}</span> の DEF勝ち（1勝アド）
@@ -945,15 +924,18 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                               <div className="text-gray-300">最終結果:</div>
                               <select
                                 className="px-2 py-1 rounded bg-black/30 border border-white/10"
-                                value={mode}
-                                onChange={(e) => setSeriesModeMap((p) => ({ ...p, [key]: e.target.value as SeriesMode }))}
-                                disabled={!!selectedWinnerId && selectedWinnerId !== advNormalId} // DEF側が勝者なら2-1固定
+                                value={choice.loserWins}
+                                onChange={(e) => setLoserWinsMap((p) => ({ ...p, [key]: Number(e.target.value) }))}
+                                disabled={choice.choices.length <= 1} // DEF側が勝者で選択肢が1つなら固定
                               >
-                                <option value="2-0">2-0</option>
-                                <option value="2-1">2-1</option>
+                                {choice.choices.map((k) => (
+                                  <option key={k} value={k}>
+                                    {winsNeeded(bestOf)}-{k}
+                                  </option>
+                                ))}
                               </select>
                               {selectedWinnerId && selectedWinnerId !== advNormalId ? (
-                                <span className="text-gray-400">（予選DEF側が勝つ場合は 2-1 固定）</span>
+                                <span className="text-gray-400">（予選DEF側が勝つ場合は通常側のアド1勝を含む）</span>
                               ) : null}
                             </div>
 
@@ -970,7 +952,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                                 ))}
                               </div>
                             ) : (
-                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、3試合の表示が出ます</div>
+                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、{bestOf}試合の表示が出ます</div>
                             )}
                           </div>
                         ) : null}
@@ -988,7 +970,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                   <div className="text-xs text-gray-300">ROUND</div>
                   <div className="text-lg font-bold">R2（決勝）</div>
                 </div>
-                <div className="text-xs text-gray-400">best_of_3（2勝先取）</div>
+                <div className="text-xs text-gray-400">{seriesLabel(bestOf)}</div>
               </div>
 
               {(() => {
@@ -1011,18 +993,17 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                 const advDefPlayerId = sanitizeAdvDefId(pidA, pidB, rawAdv);
                 const advNormalId = computeAdvNormalId(pidA, pidB, advDefPlayerId);
 
-                const rawMode = seriesModeMap[key] ?? '2-0';
-                const mode: SeriesMode = advNormalId && r2Winner && r2Winner !== advNormalId ? '2-1' : rawMode;
+                const choice = seriesChoice(key, pidA, pidB, r2Winner, advNormalId);
 
                 const series = r2Winner
-                  ? computeSeriesWithAdv({ pidA, pidB, winnerId: r2Winner, advNormalId, mode })
+                  ? computeSeriesWithAdv({ pidA, pidB, winnerId: r2Winner, advNormalId, loserWins: choice.loserWins, bestOf })
                   : null;
 
-                const { wonA, wonB } = computeBestOf3Wins(pidA, pidB);
+                const { wonA, wonB } = computeR2Wins(pidA, pidB);
 
                 // Set1 表示（アドありなら固定表示）
-                const set1A = advNormalId ? (advNormalId === pidA ? '15' : '0') : r2SetA.s1;
-                const set1B = advNormalId ? (advNormalId === pidB ? '15' : '0') : r2SetB.s1;
+                const set1A = advNormalId ? (advNormalId === pidA ? '15' : '0') : r2SetA[0] ?? '';
+                const set1B = advNormalId ? (advNormalId === pidB ? '15' : '0') : r2SetB[0] ?? '';
 
                 return (
                   <div className="rounded-2xl border border-white/10 bg-black/20 p-4 space-y-4">
@@ -1091,7 +1072,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                           </div>
                         </div>
 
-                        {/* アドあり：第1試合DEF固定 + 2-0/2-1選択 */}
+                        {/* アドあり：第1試合DEF固定 + 最終結果の選択 */}
                         {advNormalId ? (
                           <div className="rounded-xl border border-white/10 bg-black/10 p-3 text-xs">
                             <div className="text-yellow-200/90">
@@ -1101,15 +1082,18 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                               <div className="text-gray-300">最終結果:</div>
                               <select
                                 className="px-2 py-1 rounded bg-black/30 border border-white/10"
-                                value={mode}
-                                onChange={(e) => setSeriesModeMap((p) => ({ ...p, [key]: e.target.value as SeriesMode }))}
-                                disabled={!!r2Winner && r2Winner !== advNormalId}
+                                value={choice.loserWins}
+                                onChange={(e) => setLoserWinsMap((p) => ({ ...p, [key]: Number(e.target.value) }))}
+                                disabled={choice.choices.length <= 1}
                               >
-                                <option value="2-0">2-0</option>
-                                <option value="2-1">2-1</option>
+                                {choice.choices.map((k) => (
+                                  <option key={k} value={k}>
+                                    {winsNeeded(bestOf)}-{k}
+                                  </option>
+                                ))}
                               </select>
                               {r2Winner && r2Winner !== advNormalId ? (
-                                <span className="text-gray-400">（予選DEF側が勝つ場合は 2-1 固定）</span>
+                                <span className="text-gray-400">（予選DEF側が勝つ場合は通常側のアド1勝を含む）</span>
                               ) : null}
                             </div>
 
@@ -1126,21 +1110,24 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                                 ))}
                               </div>
                             ) : (
-                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、3試合の表示が出ます</div>
+                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、{bestOf}試合の表示が出ます</div>
                             )}
                           </div>
                         ) : (
-                          // 通常 best-of-3 でも 2-0/2-1 を指定できる（勝者手動に統一）
+                          // 通常の N本勝負でも最終結果を指定できる（勝者手動に統一）
                           <div className="rounded-xl border border-white/10 bg-black/10 p-3 text-xs">
                             <div className="text-gray-300">最終結果（勝者手動）:</div>
                             <div className="mt-2 flex items-center gap-2">
                               <select
                                 className="px-2 py-1 rounded bg-black/30 border border-white/10"
-                                value={mode}
-                                onChange={(e) => setSeriesModeMap((p) => ({ ...p, [key]: e.target.value as SeriesMode }))}
+                                value={choice.loserWins}
+                                onChange={(e) => setLoserWinsMap((p) => ({ ...p, [key]: Number(e.target.value) }))}
                               >
-                                <option value="2-0">2-0</option>
-                                <option value="2-1">2-1</option>
+                                {choice.choices.map((k) => (
+                                  <option key={k} value={k}>
+                                    {winsNeeded(bestOf)}-{k}
+                                  </option>
+                                ))}
                               </select>
                               <span className="text-gray-400">（セット入力は参考表示のまま）</span>
                             </div>
@@ -1158,22 +1145,23 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                                 ))}
                               </div>
                             ) : (
-                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、3試合の表示が出ます</div>
+                              <div className="mt-2 text-gray-400">※ 勝者を選択すると、{bestOf}試合の表示が出ます</div>
                             )}
                           </div>
                         )}
 
                         {/* set入力（表示維持） */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                          {[
-                            { key: 's1', label: 'Set1' },
-                            { key: 's2', label: 'Set2' },
-                            { key: 's3', label: 'Set3' },
-                          ].map((s) => {
-                            const isSet1 = s.key === 's1';
+                          {Array.from({ length: bestOf }, (_, i) => ({ i, key: `s${i + 1}`, label: `Set${i + 1}` })).map((s) => {
+                            const isSet1 = s.i === 0;
                             const disableSet1 = !!advNormalId && isSet1;
-                            const valA = isSet1 ? set1A : (r2SetA as any)[s.key];
-                            const valB = isSet1 ? set1B : (r2SetB as any)[s.key];
+                            const valA = isSet1 ? set1A : r2SetA[s.i] ?? '';
+                            const valB = isSet1 ? set1B : r2SetB[s.i] ?? '';
+                            const setAt = (prev: string[], v: string) => {
+                              const next = [...prev];
+                              next[s.i] = v;
+                              return next;
+                            };
 
                             return (
                               <div key={s.key} className="rounded-xl border border-white/10 bg-black/20 p-3">
@@ -1183,7 +1171,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                                     value={valA}
                                     onChange={(e) => {
                                       if (disableSet1) return;
-                                      setR2SetA((prev) => ({ ...prev, [s.key]: e.target.value }));
+                                      setR2SetA((prev) => setAt(prev, e.target.value));
                                     }}
                                     disabled={disableSet1}
                                     className="w-full text-sm rounded-lg bg-black/40 border border-white/15 px-3 py-2 disabled:opacity-60"
@@ -1195,7 +1183,7 @@ export default function AdminTournamentFinalsClient({ tournamentId }: { tourname
                                     value={valB}
                                     onChange={(e) => {
                                       if (disableSet1) return;
-                                      setR2SetB((prev) => ({ ...prev, [s.key]: e.target.value }));
+                                      setR2SetB((prev) => setAt(prev, e.target.value));
                                     }}
                                     disabled={disableSet1}
                                     className="w-full text-sm rounded-lg bg-black/40 border border-white/15 px-3 py-2 disabled:opacity-60"
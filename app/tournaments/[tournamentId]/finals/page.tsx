@@ -7,6 +7,17 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { FaTrophy } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import { MAX_BEST_OF, parseSeriesFormat, winsNeeded } from '@/lib/finals/series';
+import {
+  BRACKET_TYPE_LABEL,
+  parsePlacings,
+  stageLabel,
+  stageRoundLabel,
+  stagesForBracketType,
+  toBracketType,
+  toStage,
+  type FinalStage,
+} from '@/lib/finals/stages';
 
 const supabase = createClient();
 
@@ -25,11 +36,15 @@ type FinalBracket = {
   tournament_id: string;
   title: string | null;
   created_at: string | null;
+  bracket_type?: string | null;
+  champion_player_id?: string | null;
+  placings?: unknown;
 };
 
 type FinalRoundEntry = {
   id: string;
   bracket_id: string;
+  stage?: string | null;
   round_no: number;
   slot_no: number;
   player_id: string | null;
@@ -38,6 +53,7 @@ type FinalRoundEntry = {
 type FinalMatchRow = {
   id: string;
   bracket_id?: string | null;
+  stage?: string | null;
   round_no?: number | null;
 
   match_no?: number | null;
@@ -143,8 +159,8 @@ const parseSetsLike = (raw: any): { games: SetPair[]; meta?: any } | null => {
       b: safeNum(x?.b ?? x?.B ?? x?.score_b ?? x?.scoreB ?? null),
     }));
 
-    // 最大3・不足はnull埋め
-    const trimmed = games.slice(0, 3);
+    // 最大 MAX_BEST_OF・不足はnull埋め
+    const trimmed = games.slice(0, MAX_BEST_OF);
     while (trimmed.length < 3) trimmed.push({ a: null, b: null });
 
     // games が空でも format/advantage があれば採用
@@ -160,7 +176,7 @@ const parseSetsLike = (raw: any): { games: SetPair[]; meta?: any } | null => {
       a: safeNum(x?.a ?? x?.A ?? x?.score_a ?? x?.scoreA ?? null),
       b: safeNum(x?.b ?? x?.B ?? x?.score_b ?? x?.scoreB ?? null),
     }));
-    const trimmed = games.slice(0, 3);
+    const trimmed = games.slice(0, MAX_BEST_OF);
     while (trimmed.length < 3) trimmed.push({ a: null, b: null });
     return { games: trimmed, meta: null };
   }
@@ -193,36 +209,42 @@ const getSetsForMatch = (m: FinalMatchRow | null): { games: SetPair[]; meta?: an
   return null;
 };
 
-const detectFormat = (m: FinalMatchRow | null): 'single' | 'best_of_3' => {
-  if (!m) return 'single';
+// ★ N 本勝負の N（1 = 1本勝負）。sets.best_of / sets.format（'bo5' など）を優先
+const detectBestOf = (m: FinalMatchRow | null): number => {
+  if (!m) return 1;
 
-  // ★ まず meta.format を優先
   const s = getSetsForMatch(m);
-  const metaFmt = String((s?.meta as any)?.format ?? '').trim().toLowerCase();
+  const meta = s?.meta as any;
+  const metaN = parseSeriesFormat(meta?.best_of ?? meta?.format);
+  if (metaN != null) return metaN;
+
+  const metaFmt = String(meta?.format ?? '').trim().toLowerCase();
   if (metaFmt) {
-    if (metaFmt.includes('bo3') || metaFmt.includes('best') || metaFmt.includes('3')) return 'best_of_3';
-    if (metaFmt.includes('single') || metaFmt.includes('one') || metaFmt === '1') return 'single';
+    if (metaFmt.includes('bo3') || metaFmt.includes('best') || metaFmt.includes('3')) return 3;
+    if (metaFmt.includes('single') || metaFmt.includes('one') || metaFmt === '1') return 1;
   }
 
   const f = String(m.match_format ?? m.format ?? '').trim().toLowerCase();
   if (f) {
-    if (f.includes('bo3') || f.includes('best') || f.includes('3')) return 'best_of_3';
-    if (f.includes('single') || f.includes('one') || f.includes('1')) return 'single';
+    const n = parseSeriesFormat(f);
+    if (n != null) return n;
+    if (f.includes('bo3') || f.includes('best') || f.includes('3')) return 3;
+    if (f.includes('single') || f.includes('one') || f.includes('1')) return 1;
   }
 
-  // games が2つ以上入っていれば best_of_3
+  // games が2つ以上入っていれば 3本勝負
   if (s?.games) {
     const filled = s.games.filter((x) => x.a != null && x.b != null).length;
-    if (filled >= 2) return 'best_of_3';
+    if (filled >= 2) return 3;
   }
 
-  if (m.winner_sets != null || m.loser_sets != null) return 'best_of_3';
+  if (m.winner_sets != null || m.loser_sets != null) return 3;
 
   const ws = typeof m.winner_score === 'number' ? m.winner_score : null;
   const ls = typeof m.loser_score === 'number' ? m.loser_score : null;
-  if (ws != null && ls != null && ws >= 0 && ws <= 3 && ls >= 0 && ls <= 3) return 'best_of_3';
+  if (ws != null && ls != null && ws >= 0 && ws <= 3 && ls >= 0 && ls <= 3) return 3;
 
-  return 'single';
+  return 1;
 };
 
 const getMatchPlayerAB = (m: FinalMatchRow | null): { aId: string | null; bId: string | null } => {
@@ -251,7 +273,7 @@ const getAdvantageForMatchInEntryOrder = (m: FinalMatchRow | null, pidA: string
 };
 
 type MatchOutcome = {
-  fmt: 'single' | 'best_of_3';
+  bestOf: number;
   requiredWins: number;
   advA: number;
   advB: number;
@@ -267,8 +289,8 @@ type MatchOutcome = {
 const getMatchOutcome = (m: FinalMatchRow | null, pidA: string | null, pidB: string | null): MatchOutcome | null => {
   if (!m || !pidA || !pidB) return null;
 
-  const fmt = detectFormat(m);
-  const requiredWins = fmt === 'single' ? 1 : 2;
+  const bestOf = detectBestOf(m);
+  const requiredWins = winsNeeded(bestOf);
 
   const adv = getAdvantageForMatchInEntryOrder(m, pidA, pidB);
   const advA = adv.a;
@@ -277,7 +299,7 @@ const getMatchOutcome = (m: FinalMatchRow | null, pidA: string | null, pidB: str
   const s = getSetsForMatch(m);
   const rawGames = s?.games ?? null;
   if (!rawGames) {
-    return { fmt, requiredWins, advA, advB, aRealWins: 0, bRealWins: 0, played: [] };
+    return { bestOf, requiredWins, advA, advB, aRealWins: 0, bRealWins: 0, played: [] };
   }
 
   const swap = detectSwapAB(m, pidA, pidB);
@@ -309,7 +331,7 @@ const getMatchOutcome = (m: FinalMatchRow | null, pidA: string | null, pidB: str
     if (totalA >= requiredWins || totalB >= requiredWins) break;
   }
 
-  return { fmt, requiredWins, advA, advB, aRealWins, bRealWins, played };
+  return { bestOf, requiredWins, advA, advB, aRealWins, bRealWins, played };
 };
 
 function AdvantageBadge({ wins }: { wins: number }) {
@@ -395,8 +417,8 @@ function PlayerLine({
   );
 }
 
-function FormatBadge({ fmt }: { fmt: 'single' | 'best_of_3' }) {
-  const label = fmt === 'best_of_3' ? '3本勝負' : '1本勝負';
+function FormatBadge({ bestOf }: { bestOf: number }) {
+  const label = `${bestOf}本勝負`;
   return (
     <span className="inline-flex items-center rounded-full border border-white/20 bg-white/10 px-2 py-0.5 text-[11px] text-gray-200">
       {label}
@@ -425,10 +447,10 @@ function SetsTable({
 }) {
   if (!outcome) return null;
 
-  const fmt = outcome.fmt;
+  const single = outcome.bestOf === 1;
 
-  // 表示スロット数（従来UI維持）
-  const slotsCount = fmt === 'single' ? 1 : 3;
+  // 表示スロット数（N 本勝負なら N 枠）
+  const slotsCount = outcome.bestOf;
 
   // まず「決着までに必要な分の実スコア」だけ
   const played = outcome.played.slice(0, slotsCount);
@@ -441,10 +463,7 @@ function SetsTable({
   for (let i = 0; i < defCount; i++) slots.push({ kind: 'def' });
   while (slots.length < slotsCount) slots.push({ kind: 'empty' });
 
-  const labels =
-    fmt === 'single'
-      ? ['Game']
-      : ['Set1', 'Set2', 'Set3'];
+  const labels = single ? ['Game'] : Array.from({ length: slotsCount }, (_, i) => `Set${i + 1}`);
 
   return (
     <div className="mt-3 rounded-xl border border-white/10 bg-black/25 p-3">
@@ -519,9 +538,10 @@ export default function TournamentFinalsPage() {
 
   const [tournament, setTournament] = useState<TournamentRow | null>(null);
   const [bracket, setBracket] = useState<FinalBracket | null>(null);
-  const [entries, setEntries] = useState<FinalRoundEntry[]>([]);
-  const [matches, setMatches] = useState<FinalMatchRow[]>([]);
+  const [allEntries, setAllEntries] = useState<FinalRoundEntry[]>([]);
+  const [allMatches, setAllMatches] = useState<FinalMatchRow[]>([]);
   const [players, setPlayers] = useState<Record<string, Player>>({});
+  const [activeStage, setActiveStage] = useState<FinalStage>('main');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -565,7 +585,7 @@ export default function TournamentFinalsPage() {
 
       const { data: eRows, error: eErr } = await supabase
         .from('final_round_entries')
-        .select('id,bracket_id,round_no,slot_no,player_id')
+        .select('id,bracket_id,stage,round_no,slot_no,player_id')
         .eq('bracket_id', b.id)
         .order('round_no', { ascending: true })
         .order('slot_no', { ascending: true });
@@ -577,7 +597,7 @@ export default function TournamentFinalsPage() {
       }
 
       const es = (eRows ?? []) as FinalRoundEntry[];
-      setEntries(es);
+      setAllEntries(es);
 
       let ms: FinalMatchRow[] = [];
       try {
@@ -588,7 +608,7 @@ export default function TournamentFinalsPage() {
         setLoading(false);
         return;
       }
-      setMatches(ms);
+      setAllMatches(ms);
 
       const ids = Array.from(
         new Set(
@@ -637,6 +657,22 @@ export default function TournamentFinalsPage() {
     }
   };
 
+  const bracketType = toBracketType(bracket?.bracket_type);
+  const stages = useMemo(() => stagesForBracketType(bracketType), [bracketType]);
+  const placings = useMemo(() => parsePlacings(bracket?.placings), [bracket?.placings]);
+
+  // ✅ stage（勝者側 / 敗者側 / グランドファイナル / 3位決定戦）ごとに枠・試合を絞って、以下は従来どおりラウンド表示
+  const entries = useMemo(() => allEntries.filter((e) => toStage(e.stage) === activeStage), [allEntries, activeStage]);
+  const matches = useMemo(() => allMatches.filter((m) => toStage(m.stage) === activeStage), [allMatches, activeStage]);
+
+  useEffect(() => {
+    if (!stages.includes(activeStage)) setActiveStage('main');
+  }, [stages, activeStage]);
+
+  useEffect(() => {
+    scrollerRef.current?.scrollTo({ left: 0 });
+  }, [activeStage]);
+
   const entryMap = useMemo(() => {
     const map = new Map<string, FinalRoundEntry>();
     for (const e of entries) map.set(`${e.round_no}:${e.slot_no}`, e);
@@ -805,8 +841,9 @@ export default function TournamentFinalsPage() {
   if (error) return <div className="p-4 text-red-300">{error}</div>;
   if (!bracket) return <div className="p-4">決勝トーナメントが見つかりません。</div>;
 
-  // 優勝者判定（既存）
-  const winnerIdFinal = (() => {
+  // 優勝者判定：final_brackets.champion_player_id（形式ごとに DB 側で計算）→ 無ければシングルのみ従来の推定
+  const inferredWinnerId = (() => {
+    if (bracketType !== 'single') return null;
     const lastRound = rounds[rounds.length - 1];
     const matchNos = matchNosForRound.get(lastRound) ?? [1];
     const sortedNos = [...matchNos].sort((a, b) => a - b);
@@ -830,6 +867,10 @@ export default function TournamentFinalsPage() {
     const pidB = entryMap.get(`${lastRound}:2`)?.player_id ?? null;
     return (last?.winner_id ? String(last.winner_id) : inferWinnerId(last, pidA, pidB)) ?? null;
   })();
+  const winnerIdFinal = bracket.champion_player_id ? String(bracket.champion_player_id) : inferredWinnerId;
+
+  // 優勝スライドは最後の stage（シングル系は本戦、ダブルはグランドファイナル）の後ろに出す
+  const isLastStage = activeStage === (bracketType === 'double' ? 'grand_final' : 'main');
 
   const winnerPlayerFinal = winnerIdFinal ? players[winnerIdFinal] : null;
   const showChampion = !!winnerIdFinal && (winnerPlayerFinal ? isRealPlayerId(winnerIdFinal) : true);
@@ -863,6 +904,7 @@ export default function TournamentFinalsPage() {
                 <div>
                   <div className="text-xs text-purple-200 mb-1">FINALS</div>
                   <div className="text-2xl font-bold">{bracket.title ?? '決勝トーナメント'}</div>
+                  {bracketType !== 'single' && <div className="mt-1 text-xs text-purple-200">{BRACKET_TYPE_LABEL[bracketType]}</div>}
                   <div className="mt-1 flex flex-wrap gap-3 text-xs">
                     <Link href={`/tournaments/${tournamentId}`} className="text-blue-300 underline">
                       大会トップへ
@@ -905,6 +947,51 @@ export default function TournamentFinalsPage() {
           </div>
         </div>
 
+        {/* ===== Placings ===== */}
+        {placings.length > 1 && (
+          <div className="rounded-2xl border border-white/15 bg-white/5 p-4">
+            <div className="text-xs text-gray-300 mb-2">STANDINGS</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {placings.map((pl) => {
+                const p = players[pl.player_id];
+                return (
+                  <div
+                    key={`${pl.place}:${pl.player_id}`}
+                    className={[
+                      'rounded-xl border px-3 py-2 flex items-center gap-2 min-w-0',
+                      pl.place === 1 ? 'border-yellow-400/50 bg-yellow-500/10' : 'border-white/10 bg-black/20',
+                    ].join(' ')}
+                  >
+                    <span className="text-xs font-bold text-yellow-200 shrink-0">{pl.place}位</span>
+                    <span className="text-sm font-semibold truncate">{p?.handle_name ?? '未設定'}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* ===== Stage Tabs ===== */}
+        {stages.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {stages.map((st) => {
+              const active = st === activeStage;
+              return (
+                <button
+                  key={st}
+                  onClick={() => setActiveStage(st)}
+                  className={[
+                    'shrink-0 rounded-xl border px-4 py-2 text-sm font-semibold',
+                    active ? 'border-purple-400/60 bg-purple-500/30 text-white' : 'border-white/15 bg-white/5 text-gray-300',
+                  ].join(' ')}
+                >
+                  {stageLabel(st, bracketType)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* ===== Round Tabs ===== */}
         <div className="flex gap-2 overflow-x-auto pb-1">
           {rounds.map((r) => {
@@ -925,7 +1012,7 @@ export default function TournamentFinalsPage() {
                   active ? 'border-blue-400/60 bg-blue-500/20 text-blue-100' : 'border-white/15 bg-white/5 text-gray-200',
                 ].join(' ')}
               >
-                R{r}
+                {stageRoundLabel(activeStage, r)}
               </button>
             );
           })}
@@ -947,13 +1034,24 @@ export default function TournamentFinalsPage() {
           {rounds.map((roundNo) => {
             const matchNos = matchNosForRound.get(roundNo) ?? [1];
             const isFinalRound = roundNo === rounds[rounds.length - 1];
+            const roundLabel = stageRoundLabel(activeStage, roundNo);
+            const finalTag =
+              activeStage === 'grand_final' || activeStage === 'third'
+                ? null
+                : !isFinalRound
+                  ? null
+                  : activeStage === 'losers'
+                    ? '敗者側決勝'
+                    : bracketType === 'double'
+                      ? '勝者側決勝'
+                      : '決勝';
 
             return (
-              <section key={roundNo} className="w-full shrink-0 snap-start pr-3 md:pr-4">
+              <section key={`${activeStage}-${roundNo}`} className="w-full shrink-0 snap-start pr-3 md:pr-4">
                 <div className="rounded-2xl border border-white/15 bg-white/5 p-4 space-y-4">
                   <div className="flex items-baseline justify-between">
                     <div className="text-xs text-gray-300">ROUND</div>
-                    <div className="text-sm font-bold">R{roundNo}</div>
+                    <div className="text-sm font-bold">{roundLabel}</div>
                   </div>
 
                   <div className="space-y-4">
@@ -974,7 +1072,7 @@ export default function TournamentFinalsPage() {
                       const reason = normalizeReason(m);
 
                       const outcome = getMatchOutcome(m, pidA, pidB);
-                      const fmt = outcome?.fmt ?? detectFormat(m);
+                      const bestOf = outcome?.bestOf ?? detectBestOf(m);
 
                       const advA = outcome?.advA ?? getAdvantageForMatchInEntryOrder(m, pidA, pidB).a;
                       const advB = outcome?.advB ?? getAdvantageForMatchInEntryOrder(m, pidA, pidB).b;
@@ -989,16 +1087,16 @@ export default function TournamentFinalsPage() {
                         outcome ? String(outcome.bRealWins) : '-';
 
                       return (
-                        <div key={`r${roundNo}-m${matchNo}`} className="rounded-2xl border border-white/10 bg-black/20 p-3">
+                        <div key={`${activeStage}-r${roundNo}-m${matchNo}`} className="rounded-2xl border border-white/10 bg-black/20 p-3">
                           <div className="flex items-center justify-between gap-3 mb-2">
                             <div className="text-xs text-gray-300">
-                              R{roundNo}-{matchNo}
-                              {isFinalRound ? <span className="ml-2 text-[11px] text-gray-400">(決勝)</span> : null}
+                              {roundLabel}-{matchNo}
+                              {finalTag ? <span className="ml-2 text-[11px] text-gray-400">({finalTag})</span> : null}
                             </div>
 
                             <div className="flex items-center gap-2">
                               {advMax > 0 ? <AdvantageBadge wins={advMax} /> : null}
-                              <FormatBadge fmt={fmt} />
+                              <FormatBadge bestOf={bestOf} />
                             </div>
                           </div>
 
@@ -1036,7 +1134,7 @@ export default function TournamentFinalsPage() {
             );
           })}
 
-          {showChampion && champion && (
+          {showChampion && champion && isLastStage && (
             <section key="champion-slide" className="w-full shrink-0 snap-start pr-3 md:pr-4">
               <div className="rounded-2xl border border-yellow-400/50 bg-yellow-500/10 p-6 md:p-8 flex flex-col items-center gap-4">
                 <div className="flex items-center gap-3 text-yellow-200 mb-2">
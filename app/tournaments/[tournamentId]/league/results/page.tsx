@@ -7,6 +7,14 @@ import Link from 'next/link';
 import Image, { type ImageLoaderProps } from 'next/image';
 import { FaTrophy } from 'react-icons/fa';
 import { createClient } from '@/lib/supabase/client';
+import {
+  TIEBREAKER_LABELS,
+  computeStandings,
+  isBlockComplete,
+  isLeagueTiebreaker,
+  parseTiebreakers,
+  standingsWinner,
+} from '@/lib/league/standings';
 
 const supabase = createClient();
 
@@ -20,10 +28,14 @@ type Tournament = {
   start_date: string | null;
   notes: string | null;
   description?: string | null;
+  league_tiebreakers?: unknown;
 };
 
+// ranking_json の行（lib/league/standings の StandingRow。古い集計には rank / decided_by が無い）
 type RankingRow = {
   player_id: string;
+  rank?: number | null;
+  decided_by?: string | null;
   wins: number;
   losses: number;
   points_for: number;
@@ -46,6 +58,7 @@ type Player = {
   avatar_url: string | null;
   ranking_points: number | null;
   handicap: number | null;
+  is_dummy?: boolean | null;
 };
 
 type MatchCard = {
@@ -75,55 +88,9 @@ function getPointDiffSafe(r: any): number {
   return Number.isFinite(calc) ? calc : 0;
 }
 
-function resolveBlockWinner(block: LeagueBlock, ranking: RankingRow[], isComplete: boolean): string | null {
-  if (block.winner_player_id) return block.winner_player_id;
-  if (!isComplete) return null;
-  if (!ranking.length) return null;
-
-  const sorted = [...ranking].sort((a, b) => {
-    const aw = Number(a.wins ?? 0);
-    const bw = Number(b.wins ?? 0);
-    if (bw !== aw) return bw - aw;
-
-    const apd = getPointDiffSafe(a);
-    const bpd = getPointDiffSafe(b);
-    if (bpd !== apd) return bpd - apd;
-
-    const apf = Number(a.points_for ?? 0);
-    const bpf = Number(b.points_for ?? 0);
-    return bpf - apf;
-  });
-
-  const top = sorted[0];
-  const topWins = Number(top.wins ?? 0);
-  const topPd = getPointDiffSafe(top);
-
-  const hasTie = sorted.some(
-    (row, idx) => idx > 0 && Number(row.wins ?? 0) === topWins && getPointDiffSafe(row) === topPd
-  );
-  if (hasTie) return null;
-
-  return top.player_id;
-}
-
-function computeDisplayRank(ranking: RankingRow[], idx: number): number {
-  if (ranking.length === 0) return idx + 1;
-
-  const base = ranking[0];
-  const baseDiff = getPointDiffSafe(base);
-
-  const isAllSame =
-    ranking.length > 1 &&
-    ranking.every(
-      (r) =>
-        r.wins === base.wins &&
-        r.losses === base.losses &&
-        getPointDiffSafe(r) === baseDiff &&
-        baseDiff === 0
-    );
-
-  if (isAllSame) return 1;
-  return idx + 1;
+// 集計済み（rank あり）の ranking_json か。古い集計はページ側で計算し直す
+function hasStoredRanks(ranking: RankingRow[]): boolean {
+  return ranking.length > 0 && ranking.every((r) => typeof r.rank === 'number');
 }
 
 function formatTimeLimit(seconds: number | null) {
@@ -223,7 +190,7 @@ export default function TournamentLeagueResultsPage() {
     if (!pid) return false;
     const p = players[pid];
     const name = String(p?.handle_name ?? '').trim().toLowerCase();
-    return name === 'def';
+    return name === 'def' || p?.is_dummy === true;
   };
 
   const isRealPlayerId = (pid: string | null) => {
@@ -233,121 +200,20 @@ export default function TournamentLeagueResultsPage() {
     return !isDefPlayerId(pid);
   };
 
+  const tiebreakers = useMemo(() => parseTiebreakers(tournament?.league_tiebreakers), [tournament]);
+
   /**
-   * ✅ ranking_json が空でも「メンバー + 試合」から順位を作る（UIは同じテーブルを使う）
+   * ✅ ranking_json が空（または古い集計）なら「メンバー + 試合」から順位を作る
+   * 計算は管理画面の集計と同じ lib/league/standings（大会のタイブレーク順 / 抽選は全試合終了後だけ）
    */
-  const buildRankingFromMatches = (memberIds: string[], blockMatches: MatchCard[]): RankingRow[] => {
-    const ids = memberIds.filter((id) => isRealPlayerId(id));
-    if (ids.length === 0) return [];
-
-    const stats = new Map<string, { wins: number; losses: number; pf: number; pa: number }>();
-    const touch = (pid: string) => {
-      if (!stats.has(pid)) stats.set(pid, { wins: 0, losses: 0, pf: 0, pa: 0 });
-      return stats.get(pid)!;
-    };
-
-    // 初期化（0行でも順位表に名前を出せる）
-    for (const pid of ids) touch(pid);
-
-    for (const m of blockMatches) {
-      if (!m.winner_id || !m.loser_id) continue;
-      if (m.winner_score == null || m.loser_score == null) continue;
-
-      const w = String(m.winner_id);
-      const l = String(m.loser_id);
-      if (!stats.has(w) || !stats.has(l)) continue; // ブロック外は無視
-      if (!isRealPlayerId(w) || !isRealPlayerId(l)) continue;
-
-      touch(w).wins += 1;
-      touch(l).losses += 1;
-
-      const ws = Number(m.winner_score);
-      const ls = Number(m.loser_score);
-      if (Number.isFinite(ws) && Number.isFinite(ls)) {
-        touch(w).pf += ws;
-        touch(w).pa += ls;
-        touch(l).pf += ls;
-        touch(l).pa += ws;
-      }
-    }
-
-    const list: RankingRow[] = Array.from(stats.entries()).map(([player_id, s]) => ({
-      player_id,
-      wins: s.wins,
-      losses: s.losses,
-      points_for: s.pf,
-      points_against: s.pa,
-      point_diff: s.pf - s.pa,
-    }));
-
-    list.sort((a, b) => {
-      if (b.wins !== a.wins) return b.wins - a.wins;
-      const bd = b.point_diff ?? 0;
-      const ad = a.point_diff ?? 0;
-      if (bd !== ad) return bd - ad;
-      if (b.points_for !== a.points_for) return b.points_for - a.points_for;
-
-      // 最後は名前で安定化（同率のとき表示がガタつかない）
-      const an = String(players[a.player_id]?.handle_name ?? '');
-      const bn = String(players[b.player_id]?.handle_name ?? '');
-      return bn.localeCompare(an, 'ja');
+  const buildRankingFromMatches = (blockId: string, memberIds: string[], blockMatches: MatchCard[]): RankingRow[] => {
+    const defIds = Object.keys(players).filter((pid) => isDefPlayerId(pid));
+    return computeStandings(memberIds, blockMatches, {
+      tiebreakers,
+      defIds,
+      seed: blockId,
+      drawLots: isBlockComplete(blockMatches),
     });
-
-    return list;
-  };
-
-  // ranking_json が空でも、カードから def を除いて勝者を推定する（2人ブロック等）
-  const inferWinnerFromCards = (blockMatches: MatchCard[]) => {
-    const completed = blockMatches.filter(
-      (m) =>
-        m.winner_id &&
-        m.loser_id &&
-        m.winner_score != null &&
-        m.loser_score != null &&
-        isRealPlayerId(m.player_a_id) &&
-        isRealPlayerId(m.player_b_id)
-    );
-
-    if (completed.length === 0) return null;
-
-    const stats = new Map<string, { wins: number; diff: number; pf: number }>();
-    const touch = (pid: string) => {
-      if (!stats.has(pid)) stats.set(pid, { wins: 0, diff: 0, pf: 0 });
-      return stats.get(pid)!;
-    };
-
-    for (const m of completed) {
-      const w = String(m.winner_id!);
-      const l = String(m.loser_id!);
-      if (!isRealPlayerId(w) || !isRealPlayerId(l)) continue;
-
-      touch(w).wins += 1;
-
-      const ws = Number(m.winner_score);
-      const ls = Number(m.loser_score);
-      if (Number.isFinite(ws) && Number.isFinite(ls)) {
-        touch(w).diff += ws - ls;
-        touch(l).diff += ls - ws;
-        touch(w).pf += ws;
-        touch(l).pf += ls;
-      }
-    }
-
-    const list = Array.from(stats.entries()).map(([player_id, s]) => ({ player_id, ...s }));
-    if (list.length === 0) return null;
-
-    list.sort((a, b) => {
-      if (b.wins !== a.wins) return b.wins - a.wins;
-      if (b.diff !== a.diff) return b.diff - a.diff;
-      if (b.pf !== a.pf) return b.pf - a.pf;
-      return String(a.player_id).localeCompare(String(b.player_id));
-    });
-
-    const top = list[0];
-    const hasTie = list.some((r, idx) => idx > 0 && r.wins === top.wins && r.diff === top.diff && r.pf === top.pf);
-    if (hasTie) return null;
-
-    return top.player_id;
   };
 
   useEffect(() => {
@@ -410,7 +276,7 @@ export default function TournamentLeagueResultsPage() {
     try {
       const { data: tRow, error: tErr } = await supabase
         .from('tournaments')
-        .select('id,name,start_date,notes,description')
+        .select('id,name,start_date,notes,description,league_tiebreakers')
         .eq('id', tournamentId)
         .maybeSingle();
 
@@ -479,7 +345,7 @@ export default function TournamentLeagueResultsPage() {
         const { data: matchesData, error: mErr } = await supabase
           .from('matches')
           .select(
-            'id,league_block_id,player_a_id,player_b_id,winner_id,loser_id,winner_score,loser_score,match_date,end_reason,time_limit_seconds'
+            'id,league_block_id,player_a_id,player_b_id,winner_id,loser_id,winner_score,loser_score,match_date,end_reason,time_limit_seconds,round_no'
           )
           .eq('tournament_id', tournamentId)
           .in('league_block_id', blockIds)
@@ -495,7 +361,12 @@ export default function TournamentLeagueResultsPage() {
 
           for (const m of raw) {
             if (!m.league_block_id || !m.player_a_id || !m.player_b_id) continue;
-            const key = String(m.league_block_id) + '::' + pairKey(String(m.player_a_id), String(m.player_b_id));
+            // 2巡（ダブル総当たり）は節が違えば別の試合
+            const key =
+              String(m.league_block_id) +
+              '::' +
+              pairKey(String(m.player_a_id), String(m.player_b_id)) +
+              (m.round_no != null ? `::${m.round_no}` : '');
             const prev = latestByBlockPair.get(key);
             if (!prev) latestByBlockPair.set(key, m);
             else {
@@ -549,7 +420,7 @@ export default function TournamentLeagueResultsPage() {
       if (allPlayerIds.length > 0) {
         const { data: pRows, error: pErr } = await supabase
           .from('players')
-          .select('id,handle_name,avatar_url,ranking_points,handicap')
+          .select('id,handle_name,avatar_url,ranking_points,handicap,is_dummy')
           .in('id', allPlayerIds);
 
         if (pErr) {
@@ -563,6 +434,7 @@ export default function TournamentLeagueResultsPage() {
               avatar_url: p.avatar_url ?? null,
               ranking_points: p.ranking_points ?? null,
               handicap: p.handicap ?? null,
+              is_dummy: p.is_dummy ?? null,
             };
           });
           setPlayers(dict);
@@ -658,7 +530,7 @@ export default function TournamentLeagueResultsPage() {
         {blocks.map((block) => {
           const blockMatches = matchCardsByBlock.get(block.id) ?? [];
 
-          // ✅ ranking_json が空なら「members + matches」から順位を作る
+          // ✅ ranking_json が空（または古い集計）なら「members + matches」から順位を作る
           const rankingFromJson = (block.ranking_json ?? []) as RankingRow[];
 
           // memberIds は「members優先、無ければmatchesから」
@@ -669,24 +541,17 @@ export default function TournamentLeagueResultsPage() {
           const memberIds = memberIdsFromMembers.length > 0 ? memberIdsFromMembers : memberIdsFromMatches;
 
           // ✅ ranking を先に確定
-          const ranking =
-            rankingFromJson.length > 0 ? rankingFromJson : buildRankingFromMatches(memberIds, blockMatches);
-
-          const n = ranking.length > 0 ? ranking.length : memberIds.length;
-          const expectedMatches = n >= 2 ? (n * (n - 1)) / 2 : 0;
-
-          const completedMatches = blockMatches.filter(
-            (m) => m.winner_id && m.loser_id && m.winner_score != null && m.loser_score != null
-          ).length;
+          const ranking = hasStoredRanks(rankingFromJson)
+            ? rankingFromJson
+            : buildRankingFromMatches(block.id, memberIds, blockMatches);
 
           const statusFinished = isFinishedStatus(block.status);
-          const isComplete = expectedMatches > 0 ? completedMatches >= expectedMatches : statusFinished;
-
-          const winnerIdFromRanking = resolveBlockWinner(block, ranking, isComplete);
-          const winnerIdFromCards = !winnerIdFromRanking && statusFinished ? inferWinnerFromCards(blockMatches) : null;
+          const isComplete = blockMatches.length > 0 ? isBlockComplete(blockMatches) : statusFinished;
 
-          const winnerId = winnerIdFromRanking ?? winnerIdFromCards;
-          const winnerInferred = !winnerIdFromRanking && !!winnerIdFromCards && !block.winner_player_id;
+          // 確定済みの勝者が無ければ、全試合終了時の単独 1 位を推定として出す
+          const winnerIdFromRanking = isComplete ? standingsWinner(ranking) : null;
+          const winnerId = block.winner_player_id ?? winnerIdFromRanking;
+          const winnerInferred = !block.winner_player_id && !!winnerIdFromRanking;
 
           const winnerPlayer = winnerId ? players[winnerId] : undefined;
 
@@ -695,7 +560,7 @@ export default function TournamentLeagueResultsPage() {
           let winnerBlockRank: number | null = null;
           if (winnerId && ranking.length > 0) {
             const idx = ranking.findIndex((r) => r.player_id === winnerId);
-            if (idx >= 0) winnerBlockRank = computeDisplayRank(ranking, idx);
+            if (idx >= 0) winnerBlockRank = ranking[idx].rank ?? idx + 1;
           }
 
           const candidateIds = Array.from(
@@ -828,12 +693,13 @@ export default function TournamentLeagueResultsPage() {
                         <th className="border border-white/20 px-2 py-1">得点</th>
                         <th className="border border-white/20 px-2 py-1">失点</th>
                         <th className="border border-white/20 px-2 py-1">得失点差</th>
+                        <th className="border border-white/20 px-2 py-1">決め手</th>
                       </tr>
                     </thead>
                     <tbody>
                       {ranking.map((row, idx) => {
                         const p = players[row.player_id];
-                        const dispRank = computeDisplayRank(ranking, idx);
+                        const dispRank = row.rank ?? idx + 1;
                         return (
                           <tr key={row.player_id} className="bg-black/40">
                             <td className="border border-white/10 px-2 py-1 text-center">{dispRank}</td>
@@ -847,11 +713,17 @@ export default function TournamentLeagueResultsPage() {
                             <td className="border border-white/10 px-2 py-1 text-right">
                               {formatSigned(calcPointDiff(row))}
                             </td>
+                            <td className="border border-white/10 px-2 py-1 text-center text-xs text-gray-300">
+                              {isLeagueTiebreaker(row.decided_by) ? TIEBREAKER_LABELS[row.decided_by] : '-'}
+                            </td>
                           </tr>
                         );
                       })}
                     </tbody>
                   </table>
+                  <div className="mt-2 text-xs text-gray-300">
+                    順位の決め方: {tiebreakers.map((k) => TIEBREAKER_LABELS[k]).join(' → ')}
+                  </div>
                 </div>
               )}
 
@@ -6,7 +6,15 @@ import Link from 'next/link';
 import Image, { type ImageLoaderProps } from 'next/image';
 import { useParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
-import { FaCalendarAlt, FaUsers, FaTrophy } from 'react-icons/fa';
+import { FaCalendarAlt, FaUsers, FaTrophy, FaClipboardList } from 'react-icons/fa';
+import {
+  ENTRY_STATUS_LABELS,
+  ENTRY_WINDOW_LABELS,
+  entryCapacity,
+  entryWindowOf,
+  isActiveEntry,
+  isEntryStatus,
+} from '@/lib/tournaments/entryStatus';
 
 const supabase = createClient();
 
@@ -25,6 +33,16 @@ type TournamentRow = {
   bracket_size: number | string | null;
   best_of: number | string | null;
   point_cap: number | string | null;
+  entry_open: boolean | null;
+  entry_deadline: string | null;
+  entries_closed_at: string | null;
+};
+
+type RegistrationMini = {
+  id: string;
+  player_id: string;
+  status: string;
+  position: number;
 };
 
 type FinalBracket = {
@@ -97,10 +115,33 @@ function uniqById<T extends { id: string }>(rows: T[]) {
 
 /**
  * ✅ 参加者取得（最小修正）
+ * 0) tournament_registrations（選手のエントリー）の申込済み / 承認済みを並び順で
  * 1) tournament_entries → players リレーションがあればそれを優先
  * 2) 0件 or 失敗なら match_details(winner_id/loser_id) から抽出して players を引く
  */
 async function fetchParticipants(tournamentId: string): Promise<PlayerMini[]> {
+  // 0) エントリー（申込済み / 承認済み）
+  const { data: regRows, error: regErr } = await supabase
+    .from('tournament_registrations')
+    .select('player_id, position, status, players(id,handle_name,avatar_url)')
+    .eq('tournament_id', tournamentId)
+    .in('status', ['entered', 'approved'])
+    .order('position', { ascending: true });
+
+  if (!regErr && regRows && regRows.length > 0) {
+    const direct = regRows
+      .map((r: any) => r.players)
+      .filter(Boolean)
+      .map((p: any) => ({
+        id: String(p.id),
+        handle_name: (p.handle_name ?? null) as string | null,
+        avatar_url: (p.avatar_url ?? null) as string | null,
+      }))
+      .filter((p) => !isDefHandle(p.handle_name));
+
+    return uniqById(direct);
+  }
+
   // 1) tournament_entries 優先
   const { data: entryRows, error: entryErr } = await supabase
     .from('tournament_entries')
@@ -158,6 +199,17 @@ async function fetchParticipants(tournamentId: string): Promise<PlayerMini[]> {
     .filter((p) => !isDefHandle(p.handle_name));
 }
 
+async function fetchRegistrations(tournamentId: string): Promise<RegistrationMini[]> {
+  const { data, error } = await supabase
+    .from('tournament_registrations')
+    .select('id,player_id,status,position')
+    .eq('tournament_id', tournamentId)
+    .order('position', { ascending: true });
+
+  if (error || !data) return [];
+  return data as RegistrationMini[];
+}
+
 export default function TournamentTopPage() {
   const params = useParams();
   const tournamentId = typeof params?.tournamentId === 'string' ? params.tournamentId : '';
@@ -177,6 +229,13 @@ export default function TournamentTopPage() {
   const [participants, setParticipants] = useState<PlayerMini[]>([]);
   const [participantImgErrorIds, setParticipantImgErrorIds] = useState<Record<string, true>>({});
 
+  // ✅ エントリー（受付状態・自分の申し込み）
+  const [registrations, setRegistrations] = useState<RegistrationMini[]>([]);
+  const [me, setMe] = useState<string | null>(null);
+  const [entryBusy, setEntryBusy] = useState(false);
+  const [entryMessage, setEntryMessage] = useState<string>('');
+  const [entryError, setEntryError] = useState<string>('');
+
   const participantPlanned = useMemo(() => {
     if (!tournament) return 0;
     return toInt(tournament.size) ?? toInt(tournament.bracket_size) ?? 0;
@@ -201,7 +260,9 @@ export default function TournamentTopPage() {
       try {
         const { data: tRow, error: tErr } = await supabase
           .from('tournaments')
-          .select('id,name,description,tournament_date,start_date,end_date,mode,size,bracket_size,best_of,point_cap')
+          .select(
+            'id,name,description,tournament_date,start_date,end_date,mode,size,bracket_size,best_of,point_cap,entry_open,entry_deadline,entries_closed_at'
+          )
           .eq('id', tournamentId)
           .maybeSingle();
 
@@ -219,6 +280,17 @@ export default function TournamentTopPage() {
           // noop
         }
 
+        // ✅ エントリー状況（失敗しても落とさない）
+        try {
+          const [{ data: uRes }, regs] = await Promise.all([supabase.auth.getUser(), fetchRegistrations(tournamentId)]);
+          if (!cancelled) {
+            setMe(uRes?.user?.id ?? null);
+            setRegistrations(regs);
+          }
+        } catch {
+          // noop
+        }
+
         const { data: bRows, error: bErr } = await supabase
           .from('final_brackets')
           .select('id,tournament_id,title,max_round,champion_player_id,created_at')
@@ -273,6 +345,51 @@ export default function TournamentTopPage() {
     };
   }, [tournamentId]);
 
+  // ✅ エントリー / 取り下げ（/api/tournaments/[tournamentId]/entry）
+  const handleEntry = async (method: 'POST' | 'DELETE') => {
+    if (method === 'DELETE' && !window.confirm('エントリーを取り下げます。よろしいですか？')) return;
+
+    setEntryBusy(true);
+    setEntryMessage('');
+    setEntryError('');
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}/entry`, {
+        method,
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+      });
+      const json = (await res.json().catch(() => null)) as any;
+
+      if (!res.ok || !json?.ok) {
+        setEntryError(json?.message || `処理に失敗しました（HTTP ${res.status}）`);
+        return;
+      }
+
+      setRegistrations(await fetchRegistrations(tournamentId));
+      setParticipants(await fetchParticipants(tournamentId));
+      setEntryMessage(
+        method === 'DELETE'
+          ? 'エントリーを取り下げました'
+          : json.status === 'waitlisted'
+            ? '定員に達しているため、キャンセル待ちで受け付けました'
+            : 'エントリーを受け付けました'
+      );
+    } catch {
+      setEntryError('通信中にエラーが発生しました');
+    } finally {
+      setEntryBusy(false);
+    }
+  };
+
+  const entryWindow = tournament ? entryWindowOf(tournament) : 'not_open';
+  const entryCap = entryCapacity(tournament?.size);
+  const entryActiveCount = registrations.filter((r) => isActiveEntry(r.status)).length;
+  const waitlist = registrations.filter((r) => r.status === 'waitlisted');
+  const myReg = me ? registrations.find((r) => r.player_id === me) ?? null : null;
+  const myStatus = myReg && isEntryStatus(myReg.status) ? myReg.status : null;
+  const myWaitNo = myReg && myStatus === 'waitlisted' ? waitlist.findIndex((r) => r.id === myReg.id) + 1 : 0;
+  const showEntryPanel = !!tournament && (entryWindow !== 'not_open' || registrations.length > 0);
+
   if (!tournamentId) {
     return (
       <div className="min-h-screen bg-[#2a2a3e] text-white flex items-center justify-center">
@@ -409,6 +526,90 @@ export default function TournamentTopPage() {
               </div>
             </div>
 
+            {/* ✅ エントリー受付 */}
+            {showEntryPanel && (
+              <div className="mt-6 bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-5">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-xs text-gray-300 flex items-center gap-2">
+                    <FaClipboardList className="opacity-80" /> ENTRY
+                  </div>
+                  <span className="rounded-full bg-purple-600/30 px-3 py-0.5 text-xs text-purple-100">
+                    {ENTRY_WINDOW_LABELS[entryWindow]}
+                  </span>
+                </div>
+
+                <div className="mt-3 grid gap-2 text-sm text-gray-200 md:grid-cols-3">
+                  <div>
+                    <span className="text-gray-400">申込</span>
+                    <span className="ml-2 font-semibold">
+                      {entryActiveCount}
+                      {entryCap != null ? ` / ${entryCap} 人` : ' 人（定員なし）'}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">キャンセル待ち</span>
+                    <span className="ml-2 font-semibold">{waitlist.length} 人</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">締切</span>
+                    <span className="ml-2 font-semibold">
+                      {tournament.entry_deadline ? new Date(tournament.entry_deadline).toLocaleString('ja-JP') : '—'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  {myStatus && (
+                    <div className="text-sm">
+                      あなたのエントリー：
+                      <span className="ml-1 font-semibold text-pink-200">
+                        {ENTRY_STATUS_LABELS[myStatus]}
+                        {myWaitNo > 0 && `（${myWaitNo} 番目）`}
+                      </span>
+                    </div>
+                  )}
+
+                  {entryWindow === 'open' &&
+                    (!me ? (
+                      <Link href="/login" className="text-sm text-blue-300 hover:text-blue-200 underline">
+                        ログインしてエントリー
+                      </Link>
+                    ) : !myStatus || myStatus === 'withdrawn' ? (
+                      <button
+                        type="button"
+                        onClick={() => handleEntry('POST')}
+                        disabled={entryBusy}
+                        className="rounded-lg bg-gradient-to-r from-purple-600 to-pink-600 px-4 py-2 text-sm font-semibold disabled:opacity-50"
+                      >
+                        {entryBusy
+                          ? '送信中…'
+                          : entryCap != null && entryActiveCount >= entryCap
+                            ? 'キャンセル待ちでエントリー'
+                            : 'エントリーする'}
+                      </button>
+                    ) : null)}
+
+                  {entryWindow !== 'closed' && (myStatus === 'entered' || myStatus === 'waitlisted' || myStatus === 'approved') && (
+                    <button
+                      type="button"
+                      onClick={() => handleEntry('DELETE')}
+                      disabled={entryBusy}
+                      className="rounded-lg border border-white/20 px-4 py-2 text-sm hover:bg-white/10 disabled:opacity-50"
+                    >
+                      {entryBusy ? '送信中…' : '取り下げる'}
+                    </button>
+                  )}
+                </div>
+
+                {entryMessage && <div className="mt-2 text-sm text-green-300">{entryMessage}</div>}
+                {entryError && <div className="mt-2 text-sm text-red-300">{entryError}</div>}
+
+                <div className="mt-2 text-[11px] text-gray-400">
+                  ※ 定員を超えた申し込みはキャンセル待ちになり、取り下げが出ると順番に繰り上がります
+                </div>
+              </div>
+            )}
+
             {/* ✅ INDEX の直前に「参加者帯」 */}
             {participants.length > 0 && (
               <div className="mt-6 bg-gray-900/60 backdrop-blur-md rounded-2xl border border-purple-500/30 p-5">
@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { FaGamepad, FaUsers } from 'react-icons/fa';
+import { FaGamepad, FaUserFriends, FaUsers } from 'react-icons/fa';
 
 export default function RegisterButtons() {
   return (
@@ -16,6 +16,16 @@ export default function RegisterButtons() {
         個人試合を登録
       </Link>
 
+      {/* ダブルス */}
+      <Link
+        href="/matches/register/doubles"
+        prefetch={false}
+        className="px-5 py-3 rounded-lg bg-gradient-to-r from-sky-600 to-purple-600 text-white font-medium inline-flex items-center gap-2 hover:opacity-90"
+      >
+        <FaUserFriends />
+        ダブルスを登録
+      </Link>
+
       {/* チーム戦（ページ側で所属チェックする想定。ここでは常に表示） */}
       <Link
         href="/matches/register/teams"
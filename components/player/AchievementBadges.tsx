@@ -0,0 +1,75 @@
+// components/player/AchievementBadges.tsx
+import React from 'react';
+import type { IconType } from 'react-icons';
+import { FaBolt, FaCrown, FaFire, FaGamepad, FaMedal, FaStar } from 'react-icons/fa';
+import {
+  achievementDef,
+  sortAchievementCodes,
+  type AchievementCode,
+  type AchievementTone,
+} from '@/lib/achievements/rules';
+
+const ICONS: Record<AchievementCode, IconType> = {
+  first_win: FaStar,
+  matches_100: FaGamepad,
+  win_streak_10: FaFire,
+  giant_killer: FaBolt,
+  league_block_winner: FaMedal,
+  finals_champion: FaCrown,
+};
+
+// ダーク（通常の画面）/ ライト（components/player/PlayerCard）
+const TONES: Record<AchievementTone, { dark: string; light: string }> = {
+  green: { dark: 'bg-green-500/15 text-green-300 border-green-400/30', light: 'bg-green-50 text-green-700 border-green-200' },
+  blue: { dark: 'bg-blue-500/15 text-blue-300 border-blue-400/30', light: 'bg-blue-50 text-blue-700 border-blue-200' },
+  red: { dark: 'bg-red-500/15 text-red-300 border-red-400/30', light: 'bg-red-50 text-red-700 border-red-200' },
+  purple: { dark: 'bg-purple-500/15 text-purple-200 border-purple-400/30', light: 'bg-purple-50 text-purple-700 border-purple-200' },
+  sky: { dark: 'bg-sky-500/15 text-sky-300 border-sky-400/30', light: 'bg-sky-50 text-sky-700 border-sky-200' },
+  gold: { dark: 'bg-yellow-500/15 text-yellow-200 border-yellow-400/40', light: 'bg-yellow-50 text-yellow-700 border-yellow-300' },
+};
+
+export function AchievementIcon({ code, className }: { code: AchievementCode; className?: string }) {
+  const Icon = ICONS[code];
+  return <Icon className={className} aria-hidden />;
+}
+
+/**
+ * 実績バッジの列
+ * - compact: アイコンだけ（ランキングの行など。名前はツールチップ）
+ * - 定義に無い code は出さない
+ */
+export function AchievementBadges({
+  codes,
+  compact = false,
+  light = false,
+  className = '',
+}: {
+  codes: string[];
+  compact?: boolean;
+  light?: boolean;
+  className?: string;
+}) {
+  const sorted = sortAchievementCodes(codes);
+  if (sorted.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {sorted.map((code) => {
+        const def = achievementDef(code)!;
+        const tone = light ? TONES[def.tone].light : TONES[def.tone].dark;
+        return (
+          <span
+            key={code}
+            title={`${def.label}：${def.description}`}
+            className={`inline-flex items-center gap-1 rounded-full border ${tone} ${
+              compact ? 'w-6 h-6 justify-center text-[11px]' : 'px-2 py-0.5 text-xs'
+            }`}
+          >
+            <AchievementIcon code={code} />
+            {!compact && def.label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
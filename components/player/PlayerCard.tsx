@@ -3,13 +3,16 @@ import Image from 'next/image';
 import React from 'react';
 import { Player } from '@/types/player';
 import { FaTrophy, FaGamepad, FaMapMarkerAlt } from 'react-icons/fa';
+import { AchievementBadges } from './AchievementBadges';
 
 interface PlayerCardProps {
   player: Player;
   rank: number;
+  /** 獲得した実績バッジの code（player_achievements） */
+  badges?: string[];
 }
 
-export const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank }) => {
+export const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank, badges = [] }) => {
   // ランク順位に応じた色を決定
   const getRankColor = (rank: number) => {
     if (rank === 1) return 'text-yellow-500';
@@ -70,6 +73,7 @@ export const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank }) => {
               <FaMapMarkerAlt className="w-3 h-3" />
               <span>{getDisplayAddress(player.address)}</span>
             </div>
+            <AchievementBadges codes={badges} light className="mt-2" />
           </div>
         </div>
 
@@ -0,0 +1,231 @@
+// lib/achievements/award.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isDoublesMode } from '@/lib/matches/doubles';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+import { jstDateOf } from '@/lib/rating/snapshots';
+import { evaluateAchievements, type AchievementFacts, type AchievementResult, type AchievementTitle } from './rules';
+
+/**
+ * 実績バッジの付与（lib/achievements/rules のルールを DB の記録に当てて、まだ無いバッジを player_achievements に入れる）
+ * - 試合の確定（finalizeMatch / 結果報告）・決勝 T の結果入力・リーグブロックの 1 位確定の後に、関係する選手だけ評価する
+ * - playerIds を省くと全選手（管理画面の一括付与）
+ * - 結果：個人戦（matches）・ダブルス（match_players）・決勝（final_matches）。団体戦はラバーの個人戦で数える
+ * - 「3 位以内の選手に勝った」は対戦日の 0:00 JST の rank_snapshots で判定する
+ */
+
+type AnyRow = Record<string, any>;
+
+export type AwardedAchievement = {
+  player_id: string;
+  handle_name: string | null;
+  code: string;
+  earned_at: string | null;
+  source_id: string | null;
+};
+
+export type AwardResult = {
+  evaluated: number;
+  awarded: AwardedAchievement[];
+};
+
+const PAGE = 1000;
+const CHUNK = 200;
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+const dateOf = (r: AnyRow) => String(r.match_date ?? r.created_at ?? '');
+const isSkipped = (r: AnyRow) => NON_APPLIED_STATUSES.has(String(r.status ?? '').toLowerCase());
+const isSingles = (mode: unknown) => ['singles', 'single', 'player', ''].includes(String(mode ?? '').toLowerCase());
+const inList = (ids: string[]) => `(${ids.join(',')})`;
+
+async function fetchPaged(table: string, cols: string, order: string, filter?: (q: any) => any) {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    let q: any = supabaseAdmin.from(table).select(cols);
+    if (filter) q = filter(q);
+    const { data, error } = await q.order(order, { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+async function fetchByIds(table: string, cols: string, col: string, ids: string[]) {
+  const out: AnyRow[] = [];
+  for (let i = 0; i < ids.length; i += CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from(table as any)
+      .select(cols)
+      .in(col, ids.slice(i, i + CHUNK));
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    out.push(...((data ?? []) as unknown as AnyRow[]));
+  }
+  return out;
+}
+
+export async function awardAchievements(playerIds?: string[], opts?: { dryRun?: boolean }): Promise<AwardResult> {
+  const only = playerIds ? Array.from(new Set(playerIds.filter(Boolean))) : null;
+  if (only && only.length === 0) return { evaluated: 0, awarded: [] };
+
+  const sides = only ? (q: any) => q.or(`winner_id.in.${inList(only)},loser_id.in.${inList(only)}`) : undefined;
+
+  const [players, dummies, matchRows, finalRows, ownPairRows, topRows, blocks, brackets, existing] = await Promise.all([
+    fetchPaged('players', 'id, handle_name, wins, matches_played, is_dummy', 'id', only ? (q) => q.in('id', only) : undefined),
+    fetchPaged('players', 'id', 'id', (q) => q.eq('is_dummy', true)),
+    fetchPaged('matches', 'id, mode, status, winner_id, loser_id, match_date, created_at', 'id', sides),
+    fetchPaged('final_matches', 'id, winner_id, loser_id, match_date, created_at', 'id', sides),
+    fetchPaged('match_players', 'match_id, player_id, side_no', 'match_id', (q) => {
+      const base = q.is('rubber_no', null);
+      return only ? base.in('player_id', only) : base;
+    }),
+    fetchPaged('rank_snapshots', 'player_id, rank, snapshot_date', 'snapshot_date', (q) => q.lte('rank', 3)),
+    fetchPaged('league_blocks', 'id, tournament_id, winner_player_id, updated_at', 'id', (q) =>
+      only ? q.in('winner_player_id', only) : q.not('winner_player_id', 'is', null),
+    ),
+    fetchPaged('final_brackets', 'id, tournament_id, champion_player_id, updated_at', 'id', (q) =>
+      only ? q.in('champion_player_id', only) : q.not('champion_player_id', 'is', null),
+    ),
+    fetchPaged('player_achievements', 'player_id, code', 'player_id', only ? (q) => q.in('player_id', only) : undefined),
+  ]);
+
+  const dummyIds = new Set(dummies.map((p) => String(p.id)));
+  const targets = players.filter((p) => p.is_dummy !== true);
+  const targetIds = new Set(targets.map((p) => String(p.id)));
+
+  // 日付（JST）→ その日 0:00 の 3 位以内
+  const topByDay = new Map<string, Map<string, number>>();
+  for (const r of topRows) {
+    const day = String(r.snapshot_date);
+    if (!topByDay.has(day)) topByDay.set(day, new Map());
+    topByDay.get(day)!.set(String(r.player_id), toInt(r.rank));
+  }
+  const bestRank = (date: string, opponents: string[]) => {
+    const day = jstDateOf(date);
+    const top = day ? topByDay.get(day) : null;
+    if (!top) return null;
+    const ranks = opponents.map((id) => top.get(id)).filter((r): r is number => typeof r === 'number');
+    return ranks.length ? Math.min(...ranks) : null;
+  };
+
+  const results = new Map<string, AchievementResult[]>();
+  const pushResult = (pid: string, r: AnyRow, won: boolean, opponents: string[]) => {
+    if (!targetIds.has(pid)) return;
+    // ダミー（def）相手の試合は数えない
+    if (opponents.length === 0 || opponents.some((id) => dummyIds.has(id))) return;
+    const date = dateOf(r);
+    if (!results.has(pid)) results.set(pid, []);
+    results.get(pid)!.push({ match_id: String(r.id), date, won, opponent_best_rank: bestRank(date, opponents) });
+  };
+  const pushSingles = (r: AnyRow) => {
+    const w = r.winner_id ? String(r.winner_id) : '';
+    const l = r.loser_id ? String(r.loser_id) : '';
+    if (!w || !l) return;
+    pushResult(w, r, true, [l]);
+    pushResult(l, r, false, [w]);
+  };
+
+  const doubles = new Map<string, AnyRow>();
+  for (const m of matchRows) {
+    if (isSkipped(m)) continue;
+    if (isDoublesMode(m.mode)) doubles.set(String(m.id), m);
+    else if (isSingles(m.mode)) pushSingles(m);
+  }
+  for (const f of finalRows) pushSingles(f);
+
+  // ダブルス：パートナー側（winner_id / loser_id に入っていない選手）の試合は本体を引き直し、相手ペアも揃える
+  const seen = new Set(matchRows.map((m) => String(m.id)));
+  const missing = Array.from(new Set(ownPairRows.map((r) => String(r.match_id)))).filter((id) => !seen.has(id));
+  for (const m of await fetchByIds('matches', 'id, mode, status, match_date, created_at', 'id', missing)) {
+    if (isDoublesMode(m.mode) && !isSkipped(m)) doubles.set(String(m.id), m);
+  }
+  const pairRows = only
+    ? (await fetchByIds('match_players', 'match_id, player_id, side_no, rubber_no', 'match_id', Array.from(doubles.keys()))).filter(
+        (r) => r.rubber_no == null,
+      )
+    : ownPairRows;
+  const sidesByMatch = new Map<string, AnyRow[]>();
+  for (const r of pairRows) {
+    const id = String(r.match_id);
+    if (!doubles.has(id)) continue;
+    if (!sidesByMatch.has(id)) sidesByMatch.set(id, []);
+    sidesByMatch.get(id)!.push(r);
+  }
+  sidesByMatch.forEach((rows, id) => {
+    const m = doubles.get(id)!;
+    for (const r of rows) {
+      const opponents = rows.filter((o) => o.side_no !== r.side_no).map((o) => String(o.player_id));
+      // 勝った側が side_no = 1（winner_team_no と同じ）
+      pushResult(String(r.player_id), m, toInt(r.side_no) === 1, opponents);
+    }
+  });
+
+  // タイトルの日付は大会の開催日（無ければ更新日時）
+  const tournamentIds = Array.from(
+    new Set([...blocks, ...brackets].map((r) => (r.tournament_id ? String(r.tournament_id) : '')).filter(Boolean)),
+  );
+  const tournamentDate = new Map<string, string>();
+  for (const t of await fetchByIds('tournaments', 'id, tournament_date', 'id', tournamentIds)) {
+    if (t.tournament_date) tournamentDate.set(String(t.id), String(t.tournament_date));
+  }
+  const titlesOf = (rows: AnyRow[], col: string) => {
+    const out = new Map<string, AchievementTitle[]>();
+    for (const r of rows) {
+      const pid = r[col] ? String(r[col]) : '';
+      if (!pid) continue;
+      if (!out.has(pid)) out.set(pid, []);
+      out.get(pid)!.push({ id: String(r.id), date: tournamentDate.get(String(r.tournament_id)) ?? String(r.updated_at ?? '') });
+    }
+    return out;
+  };
+  const leagueTitles = titlesOf(blocks, 'winner_player_id');
+  const finalsTitles = titlesOf(brackets, 'champion_player_id');
+
+  const have = new Set(existing.map((r) => `${r.player_id}:${r.code}`));
+  const awarded: AwardedAchievement[] = [];
+  for (const p of targets) {
+    const pid = String(p.id);
+    const facts: AchievementFacts = {
+      results: results.get(pid) ?? [],
+      league_titles: leagueTitles.get(pid) ?? [],
+      finals_titles: finalsTitles.get(pid) ?? [],
+      wins: toInt(p.wins),
+      matches_played: toInt(p.matches_played),
+    };
+    for (const e of evaluateAchievements(facts)) {
+      if (have.has(`${pid}:${e.code}`)) continue;
+      awarded.push({ player_id: pid, handle_name: p.handle_name ?? null, ...e });
+    }
+  }
+
+  if (!opts?.dryRun && awarded.length > 0) {
+    const now = new Date().toISOString();
+    for (let i = 0; i < awarded.length; i += CHUNK) {
+      const { error } = await supabaseAdmin.from('player_achievements').upsert(
+        awarded.slice(i, i + CHUNK).map((a) => ({
+          player_id: a.player_id,
+          code: a.code,
+          earned_at: a.earned_at ?? now,
+          source_id: a.source_id,
+        })),
+        { onConflict: 'player_id,code', ignoreDuplicates: true },
+      );
+      if (error) throw new Error(`player_achievements 保存に失敗しました: ${error.message}`);
+    }
+  }
+
+  return { evaluated: targets.length, awarded };
+}
+
+/** 試合・大会の処理の後に呼ぶ版（失敗しても本体の処理は止めない） */
+export async function awardAchievementsSafe(playerIds: Array<string | null | undefined>) {
+  try {
+    await awardAchievements(playerIds.filter((id): id is string => !!id));
+  } catch (e) {
+    console.warn('[achievements] award warning:', e);
+  }
+}
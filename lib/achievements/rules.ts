@@ -0,0 +1,121 @@
+// lib/achievements/rules.ts
+/**
+ * 実績バッジのルール（純粋関数。クライアントの表示でも定義を使う）
+ * - 選手ごとの「試合結果の並び」と「タイトル（リーグブロック 1 位 / 決勝 T 優勝）」から、獲得したバッジと獲得日を出す
+ * - 獲得日は条件を満たした試合・大会の日時。記録が足りず日時が分からないとき（古い勝敗数だけある等）は null
+ * - DB への保存は lib/achievements/award（一度付いたバッジは外さない）
+ */
+
+export type AchievementCode =
+  | 'first_win'
+  | 'win_streak_10'
+  | 'giant_killer'
+  | 'league_block_winner'
+  | 'finals_champion'
+  | 'matches_100';
+
+export type AchievementTone = 'green' | 'red' | 'purple' | 'sky' | 'gold' | 'blue';
+
+export type AchievementDef = {
+  code: AchievementCode;
+  label: string;
+  description: string;
+  tone: AchievementTone;
+};
+
+/** 表示順もこの順（格の高いものを後ろに） */
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { code: 'first_win', label: '初勝利', description: '初めて試合に勝った', tone: 'green' },
+  { code: 'matches_100', label: '100試合', description: '通算 100 試合に出場した', tone: 'blue' },
+  { code: 'win_streak_10', label: '10連勝', description: '10 試合連続で勝った', tone: 'red' },
+  { code: 'giant_killer', label: 'ジャイアントキリング', description: 'ランキング 3 位以内の選手に勝った', tone: 'purple' },
+  { code: 'league_block_winner', label: 'ブロック1位', description: 'リーグブロックで 1 位になった', tone: 'sky' },
+  { code: 'finals_champion', label: '優勝', description: '決勝トーナメントで優勝した', tone: 'gold' },
+];
+
+const DEF_BY_CODE = new Map(ACHIEVEMENTS.map((d) => [d.code, d]));
+
+export function achievementDef(code: string): AchievementDef | null {
+  return DEF_BY_CODE.get(code as AchievementCode) ?? null;
+}
+
+/** 表示順に並べ替える（定義に無い code は落とす） */
+export function sortAchievementCodes(codes: string[]): AchievementCode[] {
+  const order = (c: string) => ACHIEVEMENTS.findIndex((d) => d.code === c);
+  return Array.from(new Set(codes))
+    .filter((c) => DEF_BY_CODE.has(c as AchievementCode))
+    .sort((a, b) => order(a) - order(b)) as AchievementCode[];
+}
+
+/** 1 試合の結果（選手から見た向き） */
+export type AchievementResult = {
+  match_id: string;
+  /** ISO 文字列（match_date → created_at の順） */
+  date: string;
+  won: boolean;
+  /** 対戦相手の中で一番上の順位（その日 0:00 JST のスナップショット。無ければ null） */
+  opponent_best_rank: number | null;
+};
+
+export type AchievementTitle = { id: string; date: string };
+
+export type AchievementFacts = {
+  results: AchievementResult[];
+  league_titles: AchievementTitle[];
+  finals_titles: AchievementTitle[];
+  /** players の通算勝敗（結果の記録が無い古いデータの補い） */
+  wins: number;
+  matches_played: number;
+};
+
+export type EarnedAchievement = {
+  code: AchievementCode;
+  earned_at: string | null;
+  source_id: string | null;
+};
+
+type Hit = { earned_at: string | null; source_id: string | null };
+
+const STREAK = 10;
+const MATCHES = 100;
+const TOP_RANK = 3;
+
+const hitOf = (r: { id?: string; match_id?: string; date: string } | undefined): Hit | null =>
+  r ? { earned_at: r.date || null, source_id: r.match_id ?? r.id ?? null } : null;
+
+const byDate = <T extends { date: string }>(rows: T[], key: (r: T) => string) =>
+  [...rows].sort((a, b) => a.date.localeCompare(b.date) || key(a).localeCompare(key(b)));
+
+const RULES: Record<AchievementCode, (f: AchievementFacts, results: AchievementResult[]) => Hit | null> = {
+  first_win: (f, results) => hitOf(results.find((r) => r.won)) ?? (f.wins > 0 ? { earned_at: null, source_id: null } : null),
+
+  matches_100: (f, results) =>
+    hitOf(results[MATCHES - 1]) ?? (f.matches_played >= MATCHES ? { earned_at: null, source_id: null } : null),
+
+  win_streak_10: (_f, results) => {
+    let streak = 0;
+    for (const r of results) {
+      streak = r.won ? streak + 1 : 0;
+      if (streak === STREAK) return hitOf(r);
+    }
+    return null;
+  },
+
+  giant_killer: (_f, results) =>
+    hitOf(results.find((r) => r.won && r.opponent_best_rank !== null && r.opponent_best_rank <= TOP_RANK)),
+
+  league_block_winner: (f) => hitOf(byDate(f.league_titles, (t) => t.id)[0]),
+
+  finals_champion: (f) => hitOf(byDate(f.finals_titles, (t) => t.id)[0]),
+};
+
+/** 条件を満たしているバッジをすべて返す（獲得済みかどうかは見ない） */
+export function evaluateAchievements(facts: AchievementFacts): EarnedAchievement[] {
+  const results = byDate(facts.results, (r) => r.match_id);
+  const out: EarnedAchievement[] = [];
+  for (const def of ACHIEVEMENTS) {
+    const hit = RULES[def.code](facts, results);
+    if (hit) out.push({ code: def.code, ...hit });
+  }
+  return out;
+}
@@ -0,0 +1,88 @@
+// lib/audit/log.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+/**
+ * 管理操作の監査ログ（admin_audit_log）
+ * - 管理 API は更新の前後で recordAudit() を呼ぶ（1 操作 = 1 行）
+ * - ✅ ログの書き込み失敗で本来の操作を失敗させない（warn のみ）
+ */
+
+export type AuditEntry = {
+  /** 操作した管理者（auth.users.id） */
+  actorId: string | null;
+  /** 'players.set_active' のように「対象.操作」で書く */
+  action: string;
+  targetTable?: string | null;
+  targetId?: string | number | null;
+  /** 絞り込み用：関係する選手 / 大会 */
+  playerId?: string | null;
+  tournamentId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown> | null;
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const asUuid = (v: unknown) => {
+  const s = v == null ? '' : String(v).trim();
+  return UUID_RE.test(s) ? s : null;
+};
+
+/** jsonb に入らない値（undefined / 関数 / 循環）を落とす */
+function toJson(v: unknown) {
+  if (v === undefined) return null;
+  try {
+    return JSON.parse(JSON.stringify(v));
+  } catch {
+    return null;
+  }
+}
+
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    const actorId = asUuid(entry.actorId);
+    const metadata: Record<string, unknown> = { ...(entry.metadata ?? {}) };
+    // 'dev-bypass' など uuid でない実行者は metadata に残す
+    if (entry.actorId && !actorId) metadata.actor_label = String(entry.actorId);
+
+    const { error } = await supabaseAdmin.from('admin_audit_log').insert({
+      actor_id: actorId,
+      action: entry.action,
+      target_table: entry.targetTable ?? null,
+      target_id: entry.targetId == null ? null : String(entry.targetId),
+      player_id: asUuid(entry.playerId),
+      tournament_id: asUuid(entry.tournamentId),
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      metadata: Object.keys(metadata).length ? toJson(metadata) : null,
+    });
+    if (error) console.warn('[audit] insert warning:', error.message);
+  } catch (e) {
+    console.warn('[audit] insert failed:', e);
+  }
+}
+
+/** 更新前の行を取る（before 用）。取れなければ null */
+export async function readAuditRow(
+  table: string,
+  match: Record<string, string | number | null>,
+): Promise<Record<string, any> | null> {
+  try {
+    let q = supabaseAdmin.from(table).select('*');
+    for (const [k, v] of Object.entries(match)) q = v === null ? q.is(k, null) : q.eq(k, v);
+    const { data, error } = await q.limit(1).maybeSingle();
+    if (error) return null;
+    return (data ?? null) as Record<string, any> | null;
+  } catch {
+    return null;
+  }
+}
+
+/** final_brackets.id → tournament_id（絞り込み用） */
+export async function tournamentIdOfBracket(bracketId: string | null | undefined): Promise<string | null> {
+  if (!bracketId) return null;
+  const row = await readAuditRow('final_brackets', { id: bracketId });
+  return row?.tournament_id ? String(row.tournament_id) : null;
+}
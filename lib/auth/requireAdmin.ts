@@ -0,0 +1,63 @@
+// lib/auth/requireAdmin.ts
+import 'server-only';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+export type AdminCheck =
+  | { ok: true; userId: string }
+  | { ok: false; status: 401 | 403 | 500; message: string };
+
+/**
+ * 管理者 API 用の共通チェック
+ * - cookie セッション（画面からの fetch）→ Authorization: Bearer の順でユーザーを特定
+ * - app_admins / players.is_admin のどちらかで管理者判定
+ */
+export async function requireAdmin(req: Request): Promise<AdminCheck> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anon) return { ok: false, status: 500, message: 'Supabase 環境変数が未設定です。' };
+
+  let userId: string | null = null;
+
+  try {
+    const cookieStore = await cookies();
+    const supa = createServerClient(url, anon, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {
+            // Route Handler 以外の文脈では書けないことがある → 無視
+          }
+        },
+      },
+    });
+    const { data } = await supa.auth.getUser();
+    userId = data?.user?.id ?? null;
+  } catch {
+    // 次へ（Bearer）
+  }
+
+  if (!userId) {
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+    if (token) {
+      const { data } = await supabaseAdmin.auth.getUser(token);
+      userId = data?.user?.id ?? null;
+    }
+  }
+
+  if (!userId) return { ok: false, status: 401, message: '認証が必要です。' };
+
+  const [a1, a2] = await Promise.all([
+    supabaseAdmin.from('app_admins').select('user_id').eq('user_id', userId).maybeSingle(),
+    supabaseAdmin.from('players').select('is_admin').eq('id', userId).maybeSingle(),
+  ]);
+  const isAdmin = (!a1.error && !!a1.data?.user_id) || (!a2.error && a2.data?.is_admin === true);
+  if (!isAdmin) return { ok: false, status: 403, message: '管理者のみ実行できます。' };
+
+  return { ok: true, userId };
+}
@@ -188,6 +188,48 @@ export type Database = {
         }
         Relationships: []
       }
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: number
+          metadata: Json | null
+          player_id: string | null
+          target_id: string | null
+          target_table: string | null
+          tournament_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: number
+          metadata?: Json | null
+          player_id?: string | null
+          target_id?: string | null
+          target_table?: string | null
+          tournament_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: number
+          metadata?: Json | null
+          player_id?: string | null
+          target_id?: string | null
+          target_table?: string | null
+          tournament_id?: string | null
+        }
+        Relationships: []
+      }
       algorithm_settings: {
         Row: {
           description: string | null
@@ -517,24 +559,33 @@ export type Database = {
           created_at: string
           from_round: number
           from_slot: number
+          from_stage: string
+          kind: string
           to_round: number
           to_slot: number
+          to_stage: string
           tournament_id: string
         }
         Insert: {
           created_at?: string
           from_round: number
           from_slot: number
+          from_stage?: string
+          kind?: string
           to_round: number
           to_slot: number
+          to_stage?: string
           tournament_id: string
         }
         Update: {
           created_at?: string
           from_round?: number
           from_slot?: number
+          from_stage?: string
+          kind?: string
           to_round?: number
           to_slot?: number
+          to_stage?: string
           tournament_id?: string
         }
         Relationships: [
@@ -716,31 +767,37 @@ export type Database = {
       }
       final_brackets: {
         Row: {
+          bracket_type: string
           champion_player_id: string | null
           created_at: string
           id: string
           max_round: number
           notes: string | null
+          placings: Json
           title: string
           tournament_id: string
           updated_at: string
         }
         Insert: {
+          bracket_type?: string
           champion_player_id?: string | null
           created_at?: string
           id?: string
           max_round?: number
           notes?: string | null
+          placings?: Json
           title?: string
           tournament_id: string
           updated_at?: string
         }
         Update: {
+          bracket_type?: string
           champion_player_id?: string | null
           created_at?: string
           id?: string
           max_round?: number
           notes?: string | null
+          placings?: Json
           title?: string
           tournament_id?: string
           updated_at?: string
@@ -861,6 +918,7 @@ export type Database = {
           end_reason: string
           finish_reason: string | null
           format: string | null
+          glicko_before: Json | null
           id: string
           loser_handicap_change: number
           loser_id: string | null
@@ -872,9 +930,12 @@ export type Database = {
           match_no: number
           player_a_id: string | null
           player_b_id: string | null
+          rating_algorithm: string | null
+          rating_multiplier: number
           round_no: number
           sets: Json | null
           sets_json: Json | null
+          stage: string
           updated_at: string
           winner_handicap_change: number
           winner_id: string | null
@@ -889,6 +950,7 @@ export type Database = {
           end_reason?: string
           finish_reason?: string | null
           format?: string | null
+          glicko_before?: Json | null
           id?: string
           loser_handicap_change?: number
           loser_id?: string | null
@@ -900,9 +962,12 @@ export type Database = {
           match_no: number
           player_a_id?: string | null
           player_b_id?: string | null
+          rating_algorithm?: string | null
+          rating_multiplier?: number
           round_no: number
           sets?: Json | null
           sets_json?: Json | null
+          stage?: string
           updated_at?: string
           winner_handicap_change?: number
           winner_id?: string | null
@@ -917,6 +982,7 @@ export type Database = {
           end_reason?: string
           finish_reason?: string | null
           format?: string | null
+          glicko_before?: Json | null
           id?: string
           loser_handicap_change?: number
           loser_id?: string | null
@@ -928,9 +994,12 @@ export type Database = {
           match_no?: number
           player_a_id?: string | null
           player_b_id?: string | null
+          rating_algorithm?: string | null
+          rating_multiplier?: number
           round_no?: number
           sets?: Json | null
           sets_json?: Json | null
+          stage?: string
           updated_at?: string
           winner_handicap_change?: number
           winner_id?: string | null
@@ -1154,6 +1223,7 @@ export type Database = {
           round_no: number
           slot_no: number
           source_league_block_id: string | null
+          stage: string
           updated_at: string
         }
         Insert: {
@@ -1165,6 +1235,7 @@ export type Database = {
           round_no: number
           slot_no: number
           source_league_block_id?: string | null
+          stage?: string
           updated_at?: string
         }
         Update: {
@@ -1176,6 +1247,7 @@ export type Database = {
           round_no?: number
           slot_no?: number
           source_league_block_id?: string | null
+          stage?: string
           updated_at?: string
         }
         Relationships: [
@@ -1586,22 +1658,31 @@ export type Database = {
       match_players: {
         Row: {
           created_at: string
+          handicap_delta: number | null
           match_id: string
           player_id: string
+          points_delta: number | null
+          rubber_no: number | null
           side_no: number
           slot_no: number
         }
         Insert: {
           created_at?: string
+          handicap_delta?: number | null
           match_id: string
           player_id: string
+          points_delta?: number | null
+          rubber_no?: number | null
           side_no: number
           slot_no?: number
         }
         Update: {
           created_at?: string
+          handicap_delta?: number | null
           match_id?: string
           player_id?: string
+          points_delta?: number | null
+          rubber_no?: number | null
           side_no?: number
           slot_no?: number
         }
@@ -1862,6 +1943,60 @@ export type Database = {
           },
         ]
       }
+      match_rubbers: {
+        Row: {
+          affects_rating: boolean
+          created_at: string
+          id: string
+          kind: string
+          match_id: string
+          rating_match_id: string | null
+          rubber_no: number
+          side1_score: number
+          side2_score: number
+          winner_side: number
+        }
+        Insert: {
+          affects_rating?: boolean
+          created_at?: string
+          id?: string
+          kind: string
+          match_id: string
+          rating_match_id?: string | null
+          rubber_no: number
+          side1_score: number
+          side2_score: number
+          winner_side: number
+        }
+        Update: {
+          affects_rating?: boolean
+          created_at?: string
+          id?: string
+          kind?: string
+          match_id?: string
+          rating_match_id?: string | null
+          rubber_no?: number
+          side1_score?: number
+          side2_score?: number
+          winner_side?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_rubbers_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_rubbers_rating_match_id_fkey"
+            columns: ["rating_match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       match_teams: {
         Row: {
           match_id: string
@@ -1937,11 +2072,17 @@ export type Database = {
           b_id: string | null
           bracket_round: number | null
           bracket_slot: number | null
+          confirmed_at: string | null
+          confirmed_by: string | null
           created_at: string | null
           created_by: string | null
+          dispute_reason: string | null
+          disputed_at: string | null
+          disputed_by: string | null
           end_reason: string
           finish_reason: string
           format: string
+          glicko_before: Json | null
           id: string
           is_final: boolean
           is_ranked: boolean
@@ -1966,6 +2107,8 @@ export type Database = {
           played_at: string | null
           player_a_id: string | null
           player_b_id: string | null
+          rating_algorithm: string | null
+          rating_multiplier: number
           registered_by: string | null
           reporter_id: string | null
           result_type: string
@@ -1978,6 +2121,9 @@ export type Database = {
           tournament_name: string | null
           updated_at: string | null
           venue: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
           winner_handicap_change: number
           winner_handicap_delta: number | null
           winner_id: string | null
@@ -1994,11 +2140,17 @@ export type Database = {
           b_id?: string | null
           bracket_round?: number | null
           bracket_slot?: number | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
           created_at?: string | null
           created_by?: string | null
+          dispute_reason?: string | null
+          disputed_at?: string | null
+          disputed_by?: string | null
           end_reason?: string
           finish_reason?: string
           format?: string
+          glicko_before?: Json | null
           id?: string
           is_final?: boolean
           is_ranked?: boolean
@@ -2023,6 +2175,8 @@ export type Database = {
           played_at?: string | null
           player_a_id?: string | null
           player_b_id?: string | null
+          rating_algorithm?: string | null
+          rating_multiplier?: number
           registered_by?: string | null
           reporter_id?: string | null
           result_type?: string
@@ -2035,6 +2189,9 @@ export type Database = {
           tournament_name?: string | null
           updated_at?: string | null
           venue?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
           winner_handicap_change?: number
           winner_handicap_delta?: number | null
           winner_id?: string | null
@@ -2051,11 +2208,17 @@ export type Database = {
           b_id?: string | null
           bracket_round?: number | null
           bracket_slot?: number | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
           created_at?: string | null
           created_by?: string | null
+          dispute_reason?: string | null
+          disputed_at?: string | null
+          disputed_by?: string | null
           end_reason?: string
           finish_reason?: string
           format?: string
+          glicko_before?: Json | null
           id?: string
           is_final?: boolean
           is_ranked?: boolean
@@ -2080,6 +2243,8 @@ export type Database = {
           played_at?: string | null
           player_a_id?: string | null
           player_b_id?: string | null
+          rating_algorithm?: string | null
+          rating_multiplier?: number
           registered_by?: string | null
           reporter_id?: string | null
           result_type?: string
@@ -2092,6 +2257,9 @@ export type Database = {
           tournament_name?: string | null
           updated_at?: string | null
           venue?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
           winner_handicap_change?: number
           winner_handicap_delta?: number | null
           winner_id?: string | null
@@ -2542,6 +2710,41 @@ export type Database = {
           },
         ]
       }
+      player_achievements: {
+        Row: {
+          code: string
+          created_at: string
+          earned_at: string
+          id: string
+          player_id: string
+          source_id: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          earned_at?: string
+          id?: string
+          player_id: string
+          source_id?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          earned_at?: string
+          id?: string
+          player_id?: string
+          source_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "player_achievements_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       player_clerk_links: {
         Row: {
           clerk_user_id: string
@@ -2635,6 +2838,8 @@ export type Database = {
           memo: string | null
           ranking_points: number | null
           rating: number
+          rating_deviation: number | null
+          rating_volatility: number | null
           team_id: string | null
           team_name: string | null
           updated_at: string | null
@@ -2665,6 +2870,8 @@ export type Database = {
           memo?: string | null
           ranking_points?: number | null
           rating?: number
+          rating_deviation?: number | null
+          rating_volatility?: number | null
           team_id?: string | null
           team_name?: string | null
           updated_at?: string | null
@@ -2695,6 +2902,8 @@ export type Database = {
           memo?: string | null
           ranking_points?: number | null
           rating?: number
+          rating_deviation?: number | null
+          rating_volatility?: number | null
           team_id?: string | null
           team_name?: string | null
           updated_at?: string | null
@@ -2890,10 +3099,12 @@ export type Database = {
       }
       ranking_config: {
         Row: {
+          auto_confirm_hours: number
           handicap_change_amount: number
           handicap_diff_multiplier: number
           id: string
           k_factor: number
+          rating_algorithm: string
           score_diff_multiplier: number
           trend_daily_days: number
           trend_default_mode: string
@@ -2903,10 +3114,12 @@ export type Database = {
           win_threshold_handicap_change: number
         }
         Insert: {
+          auto_confirm_hours?: number
           handicap_change_amount?: number
           handicap_diff_multiplier?: number
           id?: string
           k_factor?: number
+          rating_algorithm?: string
           score_diff_multiplier?: number
           trend_daily_days?: number
           trend_default_mode?: string
@@ -2916,10 +3129,12 @@ export type Database = {
           win_threshold_handicap_change?: number
         }
         Update: {
+          auto_confirm_hours?: number
           handicap_change_amount?: number
           handicap_diff_multiplier?: number
           id?: string
           k_factor?: number
+          rating_algorithm?: string
           score_diff_multiplier?: number
           trend_daily_days?: number
           trend_default_mode?: string
@@ -3043,6 +3258,102 @@ export type Database = {
           },
         ]
       }
+      season_standings: {
+        Row: {
+          created_at: string
+          handicap: number
+          id: string
+          losses: number
+          player_id: string
+          rank: number
+          ranking_points: number
+          reset_points: number | null
+          season_id: string
+          total_losses: number
+          total_wins: number
+          wins: number
+        }
+        Insert: {
+          created_at?: string
+          handicap: number
+          id?: string
+          losses?: number
+          player_id: string
+          rank: number
+          ranking_points: number
+          reset_points?: number | null
+          season_id: string
+          total_losses?: number
+          total_wins?: number
+          wins?: number
+        }
+        Update: {
+          created_at?: string
+          handicap?: number
+          id?: string
+          losses?: number
+          player_id?: string
+          rank?: number
+          ranking_points?: number
+          reset_points?: number | null
+          season_id?: string
+          total_losses?: number
+          total_wins?: number
+          wins?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_standings_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "season_standings_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          base_rating: number | null
+          closed_at: string | null
+          created_at: string
+          end_date: string | null
+          id: string
+          name: string
+          regression: number
+          start_date: string
+          status: string
+        }
+        Insert: {
+          base_rating?: number | null
+          closed_at?: string | null
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          name: string
+          regression?: number
+          start_date: string
+          status?: string
+        }
+        Update: {
+          base_rating?: number | null
+          closed_at?: string | null
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          name?: string
+          regression?: number
+          start_date?: string
+          status?: string
+        }
+        Relationships: []
+      }
       settings: {
         Row: {
           key: string
@@ -3150,6 +3461,64 @@ export type Database = {
           },
         ]
       }
+      team_rating_history: {
+        Row: {
+          created_at: string
+          delta: number
+          id: string
+          match_id: string
+          opponent_team_id: string | null
+          rating_after: number
+          rating_before: number
+          team_id: string
+          won: boolean
+        }
+        Insert: {
+          created_at?: string
+          delta: number
+          id?: string
+          match_id: string
+          opponent_team_id?: string | null
+          rating_after: number
+          rating_before: number
+          team_id: string
+          won: boolean
+        }
+        Update: {
+          created_at?: string
+          delta?: number
+          id?: string
+          match_id?: string
+          opponent_team_id?: string | null
+          rating_after?: number
+          rating_before?: number
+          team_id?: string
+          won?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_rating_history_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_rating_history_opponent_team_id_fkey"
+            columns: ["opponent_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_rating_history_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       teams: {
         Row: {
           avatar_url: string | null
@@ -3163,6 +3532,8 @@ export type Database = {
           name: string
           notes: string | null
           played: number
+          rating: number
+          rating_matches: number
           updated_at: string | null
           wins: number
         }
@@ -3178,6 +3549,8 @@ export type Database = {
           name: string
           notes?: string | null
           played?: number
+          rating?: number
+          rating_matches?: number
           updated_at?: string | null
           wins?: number
         }
@@ -3193,6 +3566,8 @@ export type Database = {
           name?: string
           notes?: string | null
           played?: number
+          rating?: number
+          rating_matches?: number
           updated_at?: string | null
           wins?: number
         }
@@ -3433,6 +3808,60 @@ export type Database = {
           },
         ]
       }
+      tournament_registrations: {
+        Row: {
+          created_at: string
+          id: string
+          player_id: string
+          position: number
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+          withdrawn_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          player_id: string
+          position: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          tournament_id: string
+          updated_at?: string
+          withdrawn_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          player_id?: string
+          position?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          tournament_id?: string
+          updated_at?: string
+          withdrawn_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_registrations_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_registrations_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tournaments: {
         Row: {
           apply_handicap: boolean
@@ -3443,10 +3872,14 @@ export type Database = {
           created_by: string | null
           description: string | null
           end_date: string | null
+          entries_closed_at: string | null
+          entry_deadline: string | null
+          entry_open: boolean
           id: string
           is_active: boolean | null
           is_archived: boolean
           is_bracket: boolean
+          league_tiebreakers: Json
           mode: string
           name: string
           notes: string | null
@@ -3466,10 +3899,14 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           end_date?: string | null
+          entries_closed_at?: string | null
+          entry_deadline?: string | null
+          entry_open?: boolean
           id?: string
           is_active?: boolean | null
           is_archived?: boolean
           is_bracket?: boolean
+          league_tiebreakers?: Json
           mode?: string
           name: string
           notes?: string | null
@@ -3489,10 +3926,14 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           end_date?: string | null
+          entries_closed_at?: string | null
+          entry_deadline?: string | null
+          entry_open?: boolean
           id?: string
           is_active?: boolean | null
           is_archived?: boolean
           is_bracket?: boolean
+          league_tiebreakers?: Json
           mode?: string
           name?: string
           notes?: string | null
@@ -3622,6 +4063,7 @@ export type Database = {
           avatar_url: string | null
           block_label: string | null
           block_status: string | null
+          decided_by: string | null
           handicap: number | null
           handle_name: string | null
           league_block_id: string | null
@@ -4335,11 +4777,117 @@ export type Database = {
       }
       apply_rating_for_match: { Args: { p_match_id: string }; Returns: boolean }
       dummy_priority: { Args: { p_player_id: string }; Returns: number }
-      finalize_league_block: {
-        Args: { p_block_id: string }
-        Returns: undefined
-      }
+      finalize_league_block:
+        | { Args: { p_block_id: string }; Returns: undefined }
+        | {
+            Args: { p_block_id: string; p_ranking: Json; p_winner_player_id: string | null }
+            Returns: Json
+          }
       finalize_match: { Args: { p_match_id: string }; Returns: undefined }
+      finals_add_slots: {
+        Args: {
+          p_bracket_id: string
+          p_count?: number
+          p_round_no: number
+          p_stage?: string
+        }
+        Returns: Json
+      }
+      finals_apply_report: {
+        Args: {
+          p_bracket_id: string
+          p_match: Json
+          p_match_no: number
+          p_round_no: number
+          p_stage?: string
+        }
+        Returns: Json
+      }
+      finals_clear_match: {
+        Args: {
+          p_bracket_id: string
+          p_match_no: number
+          p_round_no: number
+          p_stage: string
+        }
+        Returns: boolean
+      }
+      finals_clear_results: {
+        Args: { p_bracket_id: string; p_from_round: number; p_stage: string }
+        Returns: number
+      }
+      finals_create_bracket: {
+        Args: {
+          p_bracket_type?: string
+          p_seeds: string[]
+          p_title: string
+          p_tournament_id: string
+        }
+        Returns: Json
+      }
+      finals_delete_rounds: {
+        Args: { p_bracket_id: string; p_from_round: number; p_stage?: string }
+        Returns: Json
+      }
+      finals_place: {
+        Args: {
+          p_bracket_id: string
+          p_kind: string
+          p_match_no: number
+          p_player_id: string
+          p_round_no: number
+          p_stage: string
+        }
+        Returns: Json
+      }
+      finals_propagate: {
+        Args: {
+          p_bracket_id: string
+          p_loser_id: string
+          p_match_no: number
+          p_round_no: number
+          p_stage: string
+          p_winner_id: string
+        }
+        Returns: Json
+      }
+      finals_put_entry: {
+        Args: {
+          p_bracket_id: string
+          p_player_id: string
+          p_round_no: number
+          p_slot_no: number
+          p_stage: string
+        }
+        Returns: Json
+      }
+      finals_recompute_placings: {
+        Args: { p_bracket_id: string }
+        Returns: Json
+      }
+      finals_reset: { Args: { p_tournament_id: string }; Returns: Json }
+      finals_revert_results: {
+        Args: { p_bracket_id: string; p_from_round: number }
+        Returns: number
+      }
+      finals_set_slot: {
+        Args: {
+          p_bracket_id: string
+          p_player_id: string
+          p_round_no: number
+          p_slot_no: number
+          p_stage?: string
+        }
+        Returns: Json
+      }
+      generate_bracket_edges: {
+        Args: {
+          p_bracket_size: number
+          p_bracket_type?: string
+          p_tournament_id: string
+        }
+        Returns: number
+      }
       get_def_player_id: { Args: never; Returns: string }
       get_player_rank_trend: {
         Args: { p_mode: string; p_player_id: string; p_points: number }
@@ -4352,9 +4900,39 @@ export type Database = {
       is_admin_email: { Args: never; Returns: boolean }
       is_app_admin: { Args: { uid: string }; Returns: boolean }
       is_dummy_player: { Args: { p_id: string }; Returns: boolean }
+      league_create_blocks: {
+        Args: { p_blocks: Json; p_tournament_id: string }
+        Returns: Json
+      }
+      league_regenerate_schedule: {
+        Args: { p_block_id: string; p_matches: Json }
+        Returns: Json
+      }
+      match_finalize_apply: {
+        Args: {
+          p_from_statuses: string[]
+          p_glicko: Json | null
+          p_match: Json
+          p_match_id: string
+          p_match_players: Json
+          p_players: Json
+        }
+        Returns: Json
+      }
       next_pow2: { Args: { n: number }; Returns: number }
       nonblank: { Args: { t: string }; Returns: string }
       purge_deleted_player_data: { Args: never; Returns: undefined }
+      rating_replay_apply: {
+        Args: {
+          p_final_matches: Json
+          p_glicko: Json | null
+          p_ledger: Json
+          p_match_players: Json
+          p_matches: Json
+          p_players: Json
+        }
+        Returns: Json
+      }
       recompute_final_bracket_champion: {
         Args: { p_bracket_id: string }
         Returns: undefined
@@ -4442,6 +5020,16 @@ export type Database = {
         Args: { p_restoration_token: string }
         Returns: undefined
       }
+      season_close: {
+        Args: {
+          p_base_rating: number
+          p_next_name?: string
+          p_next_start?: string
+          p_regression: number
+          p_season_id: string
+        }
+        Returns: Json
+      }
       seed_final_bracket: {
         Args: { p_title?: string; p_tournament_id: string }
         Returns: string
@@ -4460,6 +5048,60 @@ export type Database = {
         Args: { p_deletion_note?: string; p_player_id: string }
         Returns: undefined
       }
+      team_match_record: {
+        Args: {
+          p_created_by: string
+          p_loser_team_id: string
+          p_match_date: string
+          p_rubbers: Json
+          p_winner_team_id: string
+        }
+        Returns: Json
+      }
+      team_rating_apply: {
+        Args: {
+          p_loser_before: number
+          p_loser_change: number
+          p_loser_team_id: string
+          p_match_id: string
+          p_winner_before: number
+          p_winner_change: number
+          p_winner_team_id: string
+        }
+        Returns: Json
+      }
+      team_rating_recompute_apply: {
+        Args: { p_history: Json; p_teams: Json }
+        Returns: Json
+      }
+      tournament_close_entries: {
+        Args: { p_tournament_id: string }
+        Returns: Json
+      }
+      tournament_entry_apply: {
+        Args: { p_player_id: string; p_tournament_id: string }
+        Returns: Json
+      }
+      tournament_entry_promote: {
+        Args: { p_tournament_id: string }
+        Returns: number
+      }
+      tournament_entry_reorder: {
+        Args: { p_ids: Json; p_tournament_id: string }
+        Returns: number
+      }
+      tournament_entry_review: {
+        Args: { p_action: string; p_registration_id: string; p_reviewed_by: string }
+        Returns: Json
+      }
+      tournament_entry_withdraw: {
+        Args: { p_player_id: string; p_tournament_id: string }
+        Returns: Json
+      }
+      void_match: {
+        Args: { p_match_id: string; p_reason?: string; p_voided_by: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
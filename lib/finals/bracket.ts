@@ -0,0 +1,269 @@
+// lib/finals/bracket.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import { seedBracket, type SeedCandidate, type SeedingResult } from './seeding';
+import type { FinalBracketType, FinalStage } from './stages';
+
+/**
+ * 決勝トーナメントの構造変更（作成 / 枠追加 / ラウンド削除 / 枠変更 / 全削除）
+ * - 実処理は RPC finals_*（1 呼び出し = 1 トランザクション）。ここは入力チェックとエラーの変換だけ
+ * - 管理者チェックは呼び出し側の route で行う
+ * - 枠 / ラウンドの操作は stage（main / losers / grand_final / third）ごと。省略時は main
+ */
+
+export type FinalBracketSummary = {
+  id: string;
+  tournament_id: string;
+  title: string;
+  max_round: number;
+  bracket_type: FinalBracketType;
+  created_at: string;
+};
+
+export type CreateFinalBracketResult = {
+  bracket: FinalBracketSummary;
+  size: number;
+  padded_count: number;
+  seeding: SeedingResult;
+};
+
+export type AddFinalSlotsResult = {
+  bracket_id: string;
+  stage: FinalStage;
+  round_no: number;
+  first_slot: number;
+  added: number;
+  cleared_matches: number;
+};
+
+export type DeleteFinalRoundsResult = {
+  bracket_id: string;
+  stage: FinalStage;
+  from_round: number;
+  deleted_matches: number;
+  deleted_entries: number;
+  reverted_matches: number;
+};
+
+export type SetFinalSlotResult = {
+  entry_id: string;
+  bracket_id: string;
+  stage: FinalStage;
+  round_no: number;
+  slot_no: number;
+  player_id: string | null;
+  previous_player_id: string | null;
+  cleared_matches: number;
+};
+
+export type ResetFinalsResult = {
+  tournament_id: string;
+  brackets: number;
+  entries: number;
+  matches: number;
+  reverted_matches: number;
+};
+
+/** RPC の raise exception を HTTP ステータスに寄せる */
+function rpcFailure(error: { message?: string } | null, action: string) {
+  const msg = String(error?.message || '');
+  if (msg.includes('bracket_not_found')) return { ok: false as const, status: 404 as const, message: '決勝トーナメントが見つかりません。' };
+  if (msg.includes('bracket_exists')) return { ok: false as const, status: 409 as const, message: '決勝トーナメントは既に作成されています。' };
+  if (msg.includes('invalid_seed_count')) return { ok: false as const, status: 400 as const, message: '出場人数が不正です（2 の累乗が必要）。' };
+  if (msg.includes('invalid_bracket_type')) {
+    return { ok: false as const, status: 400 as const, message: '3位決定戦 / ダブルエリミネーションは 4 枠以上で作成してください。' };
+  }
+  if (msg.includes('invalid_argument')) return { ok: false as const, status: 400 as const, message: 'ラウンド番号 / 枠番号が不正です。' };
+  return { ok: false as const, status: 500 as const, message: `${action}に失敗しました: ${msg}` };
+}
+
+/** def（handle_name='def' or is_dummy=true）を 1 人拾う */
+async function findDefPlayerId(): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('players')
+    .select('id,handle_name,is_dummy')
+    .or('handle_name.eq.def,is_dummy.eq.true')
+    .limit(1);
+  if (error) return null;
+  return data?.[0]?.id ? String(data[0].id) : null;
+}
+
+const toNum = (v: unknown) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * シード計算の材料を集める
+ * - tournament_participants.seed / rp_at_entry（無ければ players.ranking_points）
+ * - リーグのブロック（league_block_members）と順位（ranking_json の並び → 無ければ winner_player_id を 1 位扱い）
+ */
+export async function loadSeedCandidates(tournamentId: string, playerIds: string[]): Promise<SeedCandidate[]> {
+  const ids = Array.from(new Set(playerIds.map((s) => String(s).trim()).filter(Boolean)));
+  if (ids.length === 0) return [];
+
+  const [pRes, tpRes, bRes] = await Promise.all([
+    supabaseAdmin.from('players').select('id,handle_name,ranking_points').in('id', ids),
+    supabaseAdmin.from('tournament_participants').select('player_id,seed,rp_at_entry').eq('tournament_id', tournamentId).in('player_id', ids),
+    supabaseAdmin.from('league_blocks').select('id,label,winner_player_id,ranking_json').eq('tournament_id', tournamentId),
+  ]);
+
+  const blocks = (bRes.data ?? []) as any[];
+  const mRes = blocks.length
+    ? await supabaseAdmin
+        .from('league_block_members')
+        .select('league_block_id,player_id')
+        .in('league_block_id', blocks.map((b) => String(b.id)))
+        .in('player_id', ids)
+    : { data: [] as any[] };
+
+  const blockOf = new Map<string, string>();
+  (mRes.data ?? []).forEach((m: any) => blockOf.set(String(m.player_id), String(m.league_block_id)));
+  const blockById = new Map(blocks.map((b) => [String(b.id), b]));
+  const tpOf = new Map(((tpRes.data ?? []) as any[]).map((r) => [String(r.player_id), r]));
+  const playerOf = new Map(((pRes.data ?? []) as any[]).map((r) => [String(r.id), r]));
+
+  return ids.map((id) => {
+    const p = playerOf.get(id);
+    const tp = tpOf.get(id);
+    const b = blockById.get(blockOf.get(id) ?? '') ?? blocks.find((x) => String(x.winner_player_id ?? '') === id) ?? null;
+
+    let blockRank: number | null = null;
+    if (b) {
+      const ranking = Array.isArray(b.ranking_json) ? (b.ranking_json as any[]) : [];
+      const idx = ranking.findIndex((r) => String(r?.player_id ?? '') === id);
+      blockRank = idx >= 0 ? idx + 1 : String(b.winner_player_id ?? '') === id ? 1 : null;
+    }
+
+    return {
+      player_id: id,
+      handle_name: p?.handle_name ?? null,
+      block_id: b ? String(b.id) : null,
+      block_label: b ? String(b.label ?? '') : null,
+      block_rank: blockRank,
+      participant_seed: toNum(tp?.seed),
+      rp: toNum(tp?.rp_at_entry) ?? toNum(p?.ranking_points),
+    };
+  });
+}
+
+/** body.seeds（{ player_id: シード番号 }）→ 正の整数だけ残す */
+export function parseSeedOverrides(v: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!v || typeof v !== 'object') return out;
+  for (const [k, raw] of Object.entries(v as Record<string, unknown>)) {
+    const n = toNum(raw);
+    if (k && n != null && n > 0) out[k] = n;
+  }
+  return out;
+}
+
+/** シード配置のプレビュー（DB には書かない） */
+export async function previewFinalSeeding(input: {
+  tournamentId: string;
+  nominees: string[];
+  seeds?: Record<string, number>;
+}): Promise<MatchActionResult<{ seeding: SeedingResult }>> {
+  const candidates = await loadSeedCandidates(input.tournamentId, input.nominees);
+  if (candidates.length < 2) return { ok: false, status: 400, message: '出場者は 2 人以上必要です。' };
+  return { ok: true, seeding: seedBracket(candidates, input.seeds ?? {}) };
+}
+
+/**
+ * 決勝トーナメント作成
+ * - nominees をシード順（lib/finals/seeding）で R1 に配置。seeds で管理者がシード番号を上書きできる
+ * - 2 の累乗に満たない分は def で埋める（bye は上位シードの相手）
+ * - R2 以降の枠は作らない（結果保存時に bracket_edges に沿って勝者が自動配置される）
+ * - bracketType（single / single_third / double）に応じた bracket_edges も同じトランザクションで作り直す
+ */
+export async function createFinalBracket(input: {
+  tournamentId: string;
+  title?: string | null;
+  nominees: string[];
+  seeds?: Record<string, number>;
+  bracketType?: FinalBracketType;
+}): Promise<MatchActionResult<CreateFinalBracketResult>> {
+  const preview = await previewFinalSeeding(input);
+  if (preview.ok === false) return preview;
+
+  const { seeding } = preview;
+  const paddedCount = seeding.slots.filter((s) => !s.player_id).length;
+
+  let defId: string | null = null;
+  if (paddedCount > 0) {
+    defId = await findDefPlayerId();
+    if (!defId) {
+      return { ok: false, status: 400, message: `def 選手が見つかりません（${paddedCount} 枠の補完に必要）。` };
+    }
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('finals_create_bracket', {
+    p_tournament_id: input.tournamentId,
+    p_title: String(input.title ?? '').trim() || '決勝トーナメント',
+    p_seeds: seeding.slots.map((s) => s.player_id ?? defId!),
+    p_bracket_type: input.bracketType ?? 'single',
+  });
+  if (error) return rpcFailure(error, '決勝トーナメントの作成');
+
+  const j = data as { bracket: FinalBracketSummary; size: number };
+  return { ok: true, bracket: j.bracket, size: j.size, padded_count: paddedCount, seeding };
+}
+
+/** 枠追加（まだ無いラウンド番号を渡せばラウンド追加になる）。そのラウンド以降の結果はクリア */
+export async function addFinalSlots(
+  bracketId: string,
+  roundNo: number,
+  count = 2,
+  stage: FinalStage = 'main',
+): Promise<MatchActionResult<{ result: AddFinalSlotsResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('finals_add_slots', {
+    p_bracket_id: bracketId,
+    p_round_no: roundNo,
+    p_count: count,
+    p_stage: stage,
+  });
+  if (error) return rpcFailure(error, '枠追加');
+  return { ok: true, result: data as AddFinalSlotsResult };
+}
+
+/** fromRound 以降のラウンド（枠・試合）を削除。反映済みの RP/HC は巻き戻し、他 stage へ送った勝者・敗者も取り消す */
+export async function deleteFinalRounds(
+  bracketId: string,
+  fromRound: number,
+  stage: FinalStage = 'main',
+): Promise<MatchActionResult<{ result: DeleteFinalRoundsResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('finals_delete_rounds', {
+    p_bracket_id: bracketId,
+    p_from_round: fromRound,
+    p_stage: stage,
+  });
+  if (error) return rpcFailure(error, 'ラウンド削除');
+  return { ok: true, result: data as DeleteFinalRoundsResult };
+}
+
+/** 枠の選手を変更（null で空き枠）。そのラウンド以降の結果はクリア */
+export async function setFinalSlot(
+  bracketId: string,
+  roundNo: number,
+  slotNo: number,
+  playerId: string | null,
+  stage: FinalStage = 'main',
+): Promise<MatchActionResult<{ result: SetFinalSlotResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('finals_set_slot', {
+    p_bracket_id: bracketId,
+    p_round_no: roundNo,
+    p_slot_no: slotNo,
+    p_player_id: playerId as any,
+    p_stage: stage,
+  });
+  if (error) return rpcFailure(error, '枠の更新');
+  return { ok: true, result: data as SetFinalSlotResult };
+}
+
+/** 大会の決勝トーナメントを全削除（反映済みの RP/HC は巻き戻す） */
+export async function resetFinals(tournamentId: string): Promise<MatchActionResult<{ result: ResetFinalsResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('finals_reset', { p_tournament_id: tournamentId });
+  if (error) return rpcFailure(error, '決勝トーナメントの削除');
+  return { ok: true, result: data as ResetFinalsResult };
+}
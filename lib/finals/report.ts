@@ -0,0 +1,341 @@
+// lib/finals/report.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import {
+  applyRatingMultiplier,
+  calcMatchRating,
+  ZERO_MATCH_RATING,
+  type MatchRatingResult,
+} from '@/lib/rating/strategies';
+import { loadRatingSettings, loadTournamentMultiplier, parseGlickoBefore } from '@/lib/rating/config';
+import { awardAchievementsSafe } from '@/lib/achievements/award';
+import { computeSeries, parseAdvantage, parseGames, parseSeriesFormat, validateSeries } from './series';
+import { isFinalStage, type FinalPlacing, type FinalStage } from './stages';
+
+/**
+ * 決勝トーナメントの結果保存
+ * - 変動値はここで選択中のレーティング方式により計算し、保存と RP/HC 反映は RPC finals_apply_report で 1 トランザクション
+ * - 再報告時は前回分を RPC 側で巻き戻してから今回分を反映する
+ * - 勝者は bracket_edges のリンク先の枠へ自動配置。敗者も edges があれば配置（3位決定戦 / ダブルエリミネーションの敗者側）
+ * - 勝者・敗者が変わったら下流の枠・試合は RPC 側で連鎖クリア。優勝者と順位も RPC 側で形式ごとに再計算
+ * - sets が N 本勝負（{ format: 'bo5', best_of, advantage, games }）なら lib/finals/series で検証し、スコアと突き合わせる
+ * ※ 勝敗数は従来どおり触らない（決勝Tは RP/HC のみ反映）
+ * ※ Glicko-2 の RD / volatility も同じ RPC で書く（反映前の値を final_matches.glicko_before に残し、再報告・クリアで戻す）
+ * ※ 保存後に勝者・敗者・優勝者の実績バッジを評価する（lib/achievements/award）
+ */
+
+export type FinalReportInput = {
+  bracket_id: string;
+  /** 省略時は main */
+  stage?: FinalStage;
+  round_no: number;
+  match_no: number;
+  winner_id: string | null;
+  loser_id: string | null;
+  winner_score: number | null;
+  loser_score: number | null;
+  winner_sets?: number | null;
+  loser_sets?: number | null;
+  /** normal / time_limit / walkover / forfeit */
+  reason?: string | null;
+  affects_rating?: boolean | null;
+  sets?: unknown;
+};
+
+export type FinalReportResult = {
+  id: string;
+  affects_rating: boolean;
+  end_reason: string;
+  champion_updated: boolean;
+  champion_player_id: string | null;
+  placings: FinalPlacing[];
+  /** 勝者を配置した次ラウンドの枠（決勝 / edges 未設定なら null） */
+  advanced_to: FinalAdvance | null;
+  /** 敗者を配置した枠（敗者側 / 3位決定戦。行き先が無ければ null） */
+  loser_to: FinalAdvance | null;
+  /** グランドファイナル R1 で敗者側の勝者が勝ち、リセットマッチ（R2）が組まれた */
+  grand_final_reset: boolean;
+  rating_algorithm: string | null;
+  rating_multiplier: number;
+  winner_points_change: number;
+  loser_points_change: number;
+  winner_handicap_change: number;
+  loser_handicap_change: number;
+};
+
+export type FinalAdvance = {
+  stage?: FinalStage;
+  round_no: number;
+  slot_no: number;
+  player_id: string | null;
+  previous_player_id?: string | null;
+  changed: boolean;
+  cleared_downstream?: boolean;
+};
+
+type RatingPlayer = {
+  id: string;
+  ranking_points: number;
+  handicap: number;
+  is_dummy: boolean;
+  rating_deviation: unknown;
+  rating_volatility: unknown;
+};
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+export function normalizeFinalReason(v: unknown) {
+  const s = String(v ?? 'normal').trim().toLowerCase();
+  if (s === 'time_limit' || s === 'walkover' || s === 'forfeit') return s;
+  return 'normal';
+}
+
+/**
+ * sets（N 本勝負）の検証
+ * - 旧形式（配列）/ 1回勝負 / format なしはそのまま通す
+ * - winner_score / loser_score はアドバンテージ込みの勝ち数と一致すること
+ * - 時間切れ / 棄権は勝ち数が足りなくても可（どちらの勝ちかはスコアから判断）
+ */
+function checkSeriesSets(sets: unknown, winnerScore: number | null, loserScore: number | null, reason: unknown): string | null {
+  if (!sets || typeof sets !== 'object' || Array.isArray(sets)) return null;
+
+  const s = sets as Record<string, unknown>;
+  if (s.format == null && s.best_of == null) return null;
+  const bestOf = parseSeriesFormat(s.best_of ?? s.format);
+  if (bestOf == null) return 'N本勝負の形式（sets.format / sets.best_of）が不正です。';
+  if (bestOf === 1) return null;
+
+  const advantage = parseAdvantage(s.advantage);
+  const games = parseGames(s.games);
+  const score = computeSeries(bestOf, games, advantage);
+
+  const side =
+    winnerScore == null || loserScore == null
+      ? null
+      : score.totalA === winnerScore && score.totalB === loserScore
+        ? ('a' as const)
+        : score.totalB === winnerScore && score.totalA === loserScore
+          ? ('b' as const)
+          : null;
+
+  const check = validateSeries({
+    bestOf,
+    games,
+    advantage,
+    winner: side,
+    allowIncomplete: normalizeFinalReason(reason) !== 'normal',
+  });
+  if (check.ok === false) return check.message;
+
+  if (winnerScore != null && !side) return `winner_score / loser_score が試合結果（${score.scoreText}）と一致しません。`;
+  return null;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** リクエスト body → FinalReportInput（旧キー名 matchNo / match_index / finish_reason なども受ける） */
+export function parseFinalReportBody(body: Record<string, any>, bracketId?: string): FinalReportInput | string {
+  const bracket_id = String(bracketId ?? body.bracket_id ?? '').trim();
+  const round_no = Number(body.round_no ?? NaN);
+  const match_no = Number(body.match_no ?? body.matchNo ?? body.match_index ?? body.matchIndex ?? NaN);
+
+  if (!UUID_RE.test(bracket_id)) return 'bracket_id が不正です。';
+  if (!Number.isInteger(round_no) || round_no <= 0) return 'round_no が不正です。';
+  if (!Number.isInteger(match_no) || match_no <= 0) return 'match_no が不正です。';
+  if (body.stage != null && !isFinalStage(body.stage)) return 'stage が不正です。';
+
+  const num = (v: unknown) => (v == null || v === '' ? null : toInt(v, 0));
+  const direct = body.affects_rating ?? body.apply_rating;
+
+  const winner_score = num(body.winner_score);
+  const loser_score = num(body.loser_score);
+  const reason = body.end_reason ?? body.finish_reason ?? body.reason ?? 'normal';
+  const sets = body.sets ?? body.sets_json ?? body.setsJson ?? null;
+
+  const seriesError = checkSeriesSets(sets, winner_score, loser_score, reason);
+  if (seriesError) return seriesError;
+
+  return {
+    bracket_id,
+    stage: body.stage ?? 'main',
+    round_no,
+    match_no,
+    winner_id: body.winner_id ? String(body.winner_id) : null,
+    loser_id: body.loser_id ? String(body.loser_id) : null,
+    winner_score,
+    loser_score,
+    winner_sets: num(body.winner_sets),
+    loser_sets: num(body.loser_sets),
+    reason,
+    affects_rating: typeof direct === 'boolean' ? direct : direct === 'true' ? true : direct === 'false' ? false : null,
+    sets,
+  };
+}
+
+async function loadRatingPlayers(ids: string[]) {
+  const map = new Map<string, RatingPlayer>();
+  if (ids.length === 0) return map;
+
+  // rating_deviation / rating_volatility が無い環境もあるので '*'
+  const { data } = await supabaseAdmin.from('players').select('*').in('id', ids);
+  (data ?? []).forEach((p: any) =>
+    map.set(String(p.id), {
+      id: String(p.id),
+      ranking_points: toInt(p.ranking_points, 0),
+      handicap: toInt(p.handicap, 0),
+      is_dummy: p.is_dummy === true,
+      rating_deviation: p.rating_deviation,
+      rating_volatility: p.rating_volatility,
+    }),
+  );
+  return map;
+}
+
+export async function reportFinalMatch(input: FinalReportInput): Promise<MatchActionResult<FinalReportResult>> {
+  const { bracket_id, round_no, match_no } = input;
+  const stage = input.stage ?? 'main';
+  const winner_id = input.winner_id ? String(input.winner_id) : null;
+  const loser_id = input.loser_id ? String(input.loser_id) : null;
+
+  if (winner_id && loser_id && winner_id === loser_id) {
+    return { ok: false, status: 400, message: '勝者と敗者が同じです。' };
+  }
+
+  // special end の場合は必ずレーティング対象外
+  const reason = normalizeFinalReason(input.reason);
+  const affects_rating = reason === 'normal' ? (input.affects_rating ?? true) : false;
+
+  // 前回報告分（計算の前提となる RP/HC を「巻き戻し後」にそろえるため）
+  const { data: prev } = await supabaseAdmin
+    .from('final_matches')
+    .select(
+      'winner_id,loser_id,affects_rating,winner_points_change,loser_points_change,winner_handicap_change,loser_handicap_change,glicko_before',
+    )
+    .eq('bracket_id', bracket_id)
+    .eq('stage', stage)
+    .eq('round_no', round_no)
+    .eq('match_no', match_no)
+    .maybeSingle();
+
+  const ids = Array.from(new Set([winner_id, loser_id].filter(Boolean).map(String)));
+  const pMap = await loadRatingPlayers(ids);
+
+  if (prev?.affects_rating) {
+    const revert = (id: string | null, rp: unknown, hc: unknown) => {
+      const p = id ? pMap.get(String(id)) : null;
+      if (!p) return;
+      p.ranking_points = clamp(p.ranking_points - toInt(rp, 0), 0, 99999);
+      p.handicap = clamp(p.handicap - toInt(hc, 0), 0, 50);
+    };
+    revert(prev.winner_id, prev.winner_points_change, prev.winner_handicap_change);
+    revert(prev.loser_id, prev.loser_points_change, prev.loser_handicap_change);
+
+    // Glicko-2 の RD / volatility も前回の反映前の値で計算する（RPC も同じ値に戻してから書く）
+    for (const g of parseGlickoBefore(prev.glicko_before)) {
+      const p = pMap.get(g.id);
+      if (!p) continue;
+      p.rating_deviation = g.rating_deviation;
+      p.rating_volatility = g.rating_volatility;
+    }
+  }
+
+  const w = winner_id ? pMap.get(winner_id) : null;
+  const l = loser_id ? pMap.get(loser_id) : null;
+  const ratable = affects_rating && !!w && !!l && !w.is_dummy && !l.is_dummy;
+
+  let delta: MatchRatingResult = ZERO_MATCH_RATING;
+  let rating_multiplier = 1;
+  if (ratable) {
+    const ratingSettings = await loadRatingSettings(supabaseAdmin);
+    // ★ 決勝Tも大会の bonus_coefficient を RP 変動に掛ける
+    rating_multiplier = (await loadTournamentMultiplier(supabaseAdmin, { bracketId: bracket_id })).multiplier;
+    const base = calcMatchRating(ratingSettings, {
+      winnerPoints: w!.ranking_points,
+      loserPoints: l!.ranking_points,
+      winnerHandicap: w!.handicap,
+      loserHandicap: l!.handicap,
+      scoreDifference: Math.max(1, toInt(input.winner_score, 0) - toInt(input.loser_score, 0)),
+      winnerGlicko: { deviation: w!.rating_deviation, volatility: w!.rating_volatility },
+      loserGlicko: { deviation: l!.rating_deviation, volatility: l!.rating_volatility },
+    });
+    delta = applyRatingMultiplier(base, rating_multiplier);
+  }
+
+  // Glicko-2 のときだけ RD / volatility も RPC で書く（反映前の値は final_matches.glicko_before に残る）
+  const glicko = ratable
+    ? [
+        { id: w!.id, state: delta.winnerGlicko },
+        { id: l!.id, state: delta.loserGlicko },
+      ].flatMap(({ id, state }) =>
+        state ? [{ id, rating_deviation: state.deviation, rating_volatility: state.volatility }] : [],
+      )
+    : [];
+
+  const { data, error } = await supabaseAdmin.rpc('finals_apply_report', {
+    p_bracket_id: bracket_id,
+    p_round_no: round_no,
+    p_match_no: match_no,
+    p_stage: stage,
+    p_match: {
+      winner_id,
+      loser_id,
+      winner_score: input.winner_score ?? null,
+      loser_score: input.loser_score ?? null,
+      winner_sets: input.winner_sets ?? null,
+      loser_sets: input.loser_sets ?? null,
+      affects_rating,
+      end_reason: reason,
+      sets: (input.sets ?? null) as any,
+      winner_points_change: delta.winnerPointsChange,
+      loser_points_change: delta.loserPointsChange,
+      winner_handicap_change: delta.winnerHandicapChange,
+      loser_handicap_change: delta.loserHandicapChange,
+      rating_algorithm: delta.algorithm,
+      rating_multiplier,
+      glicko: glicko.length ? glicko : null,
+    },
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('bracket_not_found')) return { ok: false, status: 404, message: '決勝トーナメントが見つかりません。' };
+    if (msg.includes('invalid_argument')) return { ok: false, status: 400, message: 'ラウンド番号 / 試合番号が不正です。' };
+    return { ok: false, status: 500, message: `結果の保存に失敗しました: ${msg}` };
+  }
+
+  const saved = data as {
+    id: string;
+    champion_updated: boolean;
+    champion_player_id: string | null;
+    placings: FinalPlacing[] | null;
+    advanced_to: FinalAdvance | null;
+    loser_to: FinalAdvance | null;
+    grand_final_reset: boolean;
+  };
+
+  await awardAchievementsSafe([winner_id, loser_id, saved.champion_player_id]);
+
+  return {
+    ok: true,
+    id: String(saved.id),
+    affects_rating,
+    end_reason: reason,
+    champion_updated: saved.champion_updated === true,
+    champion_player_id: saved.champion_player_id ?? null,
+    placings: saved.placings ?? [],
+    advanced_to: saved.advanced_to ?? null,
+    loser_to: saved.loser_to ?? null,
+    grand_final_reset: saved.grand_final_reset === true,
+    rating_algorithm: delta.algorithm,
+    rating_multiplier,
+    winner_points_change: delta.winnerPointsChange,
+    loser_points_change: delta.loserPointsChange,
+    winner_handicap_change: delta.winnerHandicapChange,
+    loser_handicap_change: delta.loserHandicapChange,
+  };
+}
@@ -0,0 +1,194 @@
+// lib/finals/seeding.ts
+
+/**
+ * 決勝トーナメントのシード配置（純粋関数：DB には触らない）
+ * - シード順：管理者の上書き > tournament_participants.seed > リーグのブロック順位 > rp_at_entry（無ければ現在の RP）
+ * - 配置は標準の 1-vs-N（4 人なら 1-4 / 2-3、8 人なら 1-8 / 4-5 / 2-7 / 3-6）
+ * - 人数が 2 の累乗に満たない分は bye（def）。bye は上位シードの相手になる
+ * - 同じブロックの選手が早いラウンドで当たる場合は、同じシード帯（3-4 / 5-8 / 9-16 …）の中で入れ替えて離す
+ */
+
+export type SeedCandidate = {
+  player_id: string;
+  handle_name?: string | null;
+  block_id?: string | null;
+  block_label?: string | null;
+  /** リーグのブロック内順位（1 = 1 位） */
+  block_rank?: number | null;
+  /** tournament_participants.seed */
+  participant_seed?: number | null;
+  /** tournament_participants.rp_at_entry（無ければ players.ranking_points） */
+  rp?: number | null;
+};
+
+export type SeedSource = 'override' | 'participant' | 'league' | 'rp';
+
+export type SeededEntrant = SeedCandidate & {
+  seed: number;
+  seed_source: SeedSource;
+};
+
+export type SeedSlot = {
+  slot_no: number;
+  seed: number;
+  /** null = bye（def で埋める） */
+  player_id: string | null;
+  block_id: string | null;
+};
+
+export type SeedingResult = {
+  size: number;
+  entrants: SeededEntrant[];
+  slots: SeedSlot[];
+  /** ラウンドごとに「同じブロック同士が当たりうる組」の数（[R1, R2, …]） */
+  block_conflicts: number[];
+};
+
+const nextPow2 = (n: number) => {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+};
+
+const isPositiveInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v > 0;
+
+/** 標準配置：slot 順に並べたシード番号（size は 2 の累乗） */
+export function standardSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+/** シード帯：1 / 2 / 3-4 / 5-8 / 9-16 …（同じ帯の中なら入れ替えても公平） */
+const seedTier = (seed: number) => (seed <= 2 ? seed : Math.ceil(Math.log2(seed)) + 1);
+
+/**
+ * シード番号を決める
+ * - overrides（player_id → シード番号）は指定どおりの番号に置き、残りを自動順で空き番号に詰める
+ */
+export function assignSeeds(candidates: SeedCandidate[], overrides: Record<string, number> = {}): SeededEntrant[] {
+  const uniq = Array.from(new Map(candidates.map((c) => [c.player_id, c])).values());
+
+  const auto = uniq
+    .map((c, i) => ({ c, i }))
+    .sort((a, b) => {
+      const as = isPositiveInt(a.c.participant_seed) ? a.c.participant_seed : Infinity;
+      const bs = isPositiveInt(b.c.participant_seed) ? b.c.participant_seed : Infinity;
+      if (as !== bs) return as - bs;
+
+      const ar = isPositiveInt(a.c.block_rank) ? a.c.block_rank : Infinity;
+      const br = isPositiveInt(b.c.block_rank) ? b.c.block_rank : Infinity;
+      if (ar !== br) return ar - br;
+
+      const ap = typeof a.c.rp === 'number' ? a.c.rp : -Infinity;
+      const bp = typeof b.c.rp === 'number' ? b.c.rp : -Infinity;
+      if (ap !== bp) return bp - ap;
+
+      return a.i - b.i;
+    })
+    .map(({ c }) => c);
+
+  const n = uniq.length;
+  const bySeed = new Map<number, SeededEntrant>();
+
+  // 上書き分（範囲外・重複は次の空き番号へ）
+  const pinned = uniq
+    .filter((c) => isPositiveInt(overrides[c.player_id]))
+    .sort((a, b) => overrides[a.player_id] - overrides[b.player_id]);
+  for (const c of pinned) {
+    let s = Math.min(overrides[c.player_id], n);
+    while (bySeed.has(s) && s < n) s++;
+    while (bySeed.has(s) && s > 1) s--;
+    bySeed.set(s, { ...c, seed: s, seed_source: 'override' });
+  }
+
+  const pinnedIds = new Set(pinned.map((c) => c.player_id));
+  let next = 1;
+  for (const c of auto) {
+    if (pinnedIds.has(c.player_id)) continue;
+    while (bySeed.has(next)) next++;
+    const source: SeedSource = isPositiveInt(c.participant_seed)
+      ? 'participant'
+      : isPositiveInt(c.block_rank)
+        ? 'league'
+        : 'rp';
+    bySeed.set(next, { ...c, seed: next, seed_source: source });
+  }
+
+  return Array.from(bySeed.values()).sort((a, b) => a.seed - b.seed);
+}
+
+/** ラウンドごとの同ブロック衝突数（R{l} で同じ山に入る同ブロックの組） */
+function countConflicts(slots: SeedSlot[], rounds: number): number[] {
+  const out: number[] = [];
+  for (let l = 1; l <= rounds; l++) {
+    const group = 2 ** l;
+    let n = 0;
+    for (let g = 0; g < slots.length; g += group) {
+      const counts = new Map<string, number>();
+      for (const s of slots.slice(g, g + group)) {
+        if (!s.player_id || !s.block_id) continue;
+        counts.set(s.block_id, (counts.get(s.block_id) ?? 0) + 1);
+      }
+      counts.forEach((c) => (n += (c * (c - 1)) / 2));
+    }
+    out.push(n);
+  }
+  return out;
+}
+
+/** 早いラウンドの衝突が少ない方が良い（辞書順比較） */
+const lessConflicts = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] < b[i];
+  return false;
+};
+
+/** シード済みの出場者を標準配置で並べ、同ブロックの早期対戦を避ける */
+export function buildSeededSlots(entrants: SeededEntrant[]): SeedingResult {
+  const size = Math.max(2, nextPow2(entrants.length));
+  const rounds = Math.log2(size);
+  const bySeed = new Map(entrants.map((e) => [e.seed, e]));
+  const pinned = new Set(entrants.filter((e) => e.seed_source === 'override').map((e) => e.player_id));
+
+  const slots: SeedSlot[] = standardSeedOrder(size).map((seed, i) => {
+    const e = bySeed.get(seed);
+    return { slot_no: i + 1, seed, player_id: e?.player_id ?? null, block_id: e?.block_id ?? null };
+  });
+
+  // 同じシード帯の選手同士を入れ替えて、衝突が減る限り続ける（最終ラウンドは対象外・上書きしたシードは動かさない）
+  const limit = Math.max(1, rounds - 1);
+  let best = countConflicts(slots, limit);
+  for (let pass = 0; pass < size && best.some((n) => n > 0); pass++) {
+    let improved = false;
+    for (let i = 0; i < slots.length; i++) {
+      for (let j = i + 1; j < slots.length; j++) {
+        const a = slots[i];
+        const b = slots[j];
+        if (!a.player_id || !b.player_id || a.block_id === b.block_id) continue;
+        if (pinned.has(a.player_id) || pinned.has(b.player_id)) continue;
+        if (seedTier(a.seed) !== seedTier(b.seed) || a.seed <= 2) continue;
+
+        slots[i] = { ...b, slot_no: a.slot_no };
+        slots[j] = { ...a, slot_no: b.slot_no };
+        const next = countConflicts(slots, limit);
+        if (lessConflicts(next, best)) {
+          best = next;
+          improved = true;
+        } else {
+          slots[i] = a;
+          slots[j] = b;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return { size, entrants, slots, block_conflicts: countConflicts(slots, rounds) };
+}
+
+export function seedBracket(candidates: SeedCandidate[], overrides: Record<string, number> = {}): SeedingResult {
+  return buildSeededSlots(assignSeeds(candidates, overrides));
+}
@@ -0,0 +1,229 @@
+// lib/finals/series.test.ts
+import { describe, expect, it } from 'vitest';
+import { buildSeriesLines, computeSeries, normalizeBestOf, validateSeries, type SeriesGame } from './series';
+
+const g = (a: number | null, b: number | null): SeriesGame => ({ a, b });
+const A = g(15, 7);
+const B = g(9, 15);
+const EMPTY = g(null, null);
+
+describe('normalizeBestOf', () => {
+  it('奇数はそのまま', () => {
+    expect(normalizeBestOf(1)).toBe(1);
+    expect(normalizeBestOf(3)).toBe(3);
+    expect(normalizeBestOf(5)).toBe(5);
+  });
+
+  it('偶数は 1 つ上の奇数', () => {
+    expect(normalizeBestOf(2)).toBe(3);
+    expect(normalizeBestOf(4)).toBe(5);
+  });
+
+  it('上限を超えたら MAX_BEST_OF に丸める', () => {
+    expect(normalizeBestOf(11)).toBe(9);
+    expect(normalizeBestOf(10)).toBe(9);
+  });
+
+  it('文字列の数値も読む', () => {
+    expect(normalizeBestOf('5')).toBe(5);
+  });
+
+  it('数値でない / 0 以下は fallback', () => {
+    expect(normalizeBestOf(null)).toBe(3);
+    expect(normalizeBestOf('')).toBe(3);
+    expect(normalizeBestOf('abc')).toBe(3);
+    expect(normalizeBestOf(0)).toBe(3);
+    expect(normalizeBestOf(-3)).toBe(3);
+    expect(normalizeBestOf(undefined, 1)).toBe(1);
+  });
+});
+
+describe('computeSeries', () => {
+  it('1回勝負は 1 勝で決まる', () => {
+    const s = computeSeries(1, [B]);
+    expect(s.winsNeeded).toBe(1);
+    expect(s.winner).toBe('b');
+    expect(s.scoreText).toBe('0-1');
+  });
+
+  it('3回勝負は 2 勝先取で決まる（決まった時点の勝ち数）', () => {
+    expect(computeSeries(3, [A, A]).winner).toBe('a');
+    expect(computeSeries(3, [A, B, B]).scoreText).toBe('1-2');
+  });
+
+  it('5回勝負は 3 勝先取', () => {
+    const s = computeSeries(5, [A, B, A, B, A]);
+    expect(s.winsNeeded).toBe(3);
+    expect(s.winner).toBe('a');
+    expect([s.gameWinsA, s.gameWinsB]).toEqual([3, 2]);
+  });
+
+  it('勝ち数が足りなければ勝者なし', () => {
+    expect(computeSeries(3, [A, B]).winner).toBeNull();
+    expect(computeSeries(5, [A, A, EMPTY]).winner).toBeNull();
+  });
+
+  it('同点 / 未入力 / 負の値の試合は数えない', () => {
+    const s = computeSeries(5, [g(10, 10), g(15, null), g(-1, 15), A]);
+    expect([s.gameWinsA, s.gameWinsB]).toEqual([1, 0]);
+    expect(s.winner).toBeNull();
+  });
+
+  it('アドバンテージは勝ち数に含め、行う試合数から引く', () => {
+    const s = computeSeries(3, [B, A, A], { a: 0, b: 1 });
+    // 行う試合は 2 試合まで（3 試合目は数えない）
+    expect([s.gameWinsA, s.gameWinsB]).toEqual([1, 1]);
+    expect([s.totalA, s.totalB]).toEqual([1, 2]);
+    expect(s.winner).toBe('b');
+  });
+
+  it('偶数の N は正規化してから数える', () => {
+    const s = computeSeries(4, [A, A, A]);
+    expect(s.bestOf).toBe(5);
+    expect(s.winner).toBe('a');
+  });
+});
+
+describe('validateSeries', () => {
+  it('1回勝負', () => {
+    const r = validateSeries({ bestOf: 1, games: [A] });
+    expect(r.ok && r.winner).toBe('a');
+  });
+
+  it('3回勝負を 2-0 で勝ち抜け（3 試合目は空欄）', () => {
+    const r = validateSeries({ bestOf: 3, games: [B, B, EMPTY] });
+    expect(r.ok).toBe(true);
+    if (r.ok) {
+      expect(r.winner).toBe('b');
+      expect(r.score.scoreText).toBe('0-2');
+    }
+  });
+
+  it('5回勝負を最終試合で勝ち抜け', () => {
+    const r = validateSeries({ bestOf: 5, games: [A, B, B, A, A] });
+    expect(r.ok && r.winner).toBe('a');
+  });
+
+  it('勝敗が決まった後の試合はエラー', () => {
+    const r = validateSeries({ bestOf: 3, games: [A, A, B] });
+    expect(r.ok).toBe(false);
+    if (r.ok === false) expect(r.message).toContain('第2試合で勝敗が決まった後');
+
+    const r5 = validateSeries({ bestOf: 5, games: [B, B, B, A] });
+    expect(r5.ok).toBe(false);
+    if (r5.ok === false) expect(r5.message).toContain('第3試合で勝敗が決まった後');
+  });
+
+  it('同点の試合はエラー', () => {
+    const r = validateSeries({ bestOf: 3, games: [A, g(12, 12)] });
+    expect(r.ok).toBe(false);
+    if (r.ok === false) expect(r.message).toContain('第2試合が同点');
+  });
+
+  it('片方だけ入力 / 負のスコアはエラー', () => {
+    const half = validateSeries({ bestOf: 3, games: [g(15, null)] });
+    expect(half.ok).toBe(false);
+    if (half.ok === false) expect(half.message).toContain('片方しか');
+
+    const negative = validateSeries({ bestOf: 3, games: [g(-1, 15)] });
+    expect(negative.ok).toBe(false);
+    if (negative.ok === false) expect(negative.message).toContain('スコアが不正');
+  });
+
+  it('N が偶数 / 範囲外ならエラー', () => {
+    expect(validateSeries({ bestOf: 4, games: [A, A, A] }).ok).toBe(false);
+    expect(validateSeries({ bestOf: 11, games: [A] }).ok).toBe(false);
+    expect(validateSeries({ bestOf: 0, games: [] }).ok).toBe(false);
+  });
+
+  it('試合数が多すぎるとエラー', () => {
+    const r = validateSeries({ bestOf: 3, games: [A, B, A, B] });
+    expect(r.ok).toBe(false);
+    if (r.ok === false) expect(r.message).toContain('最大 3 試合');
+  });
+
+  it('アドバンテージがあると行える試合数が減る', () => {
+    const ok = validateSeries({ bestOf: 3, games: [A], advantage: { a: 1, b: 0 } });
+    expect(ok.ok && ok.winner).toBe('a');
+    if (ok.ok) expect(ok.score.scoreText).toBe('2-0');
+
+    const tooMany = validateSeries({ bestOf: 3, games: [B, A, A], advantage: { a: 1, b: 0 } });
+    expect(tooMany.ok).toBe(false);
+    if (tooMany.ok === false) expect(tooMany.message).toContain('最大 2 試合');
+  });
+
+  it('アドバンテージは 3回勝負以上・片方 1 勝まで', () => {
+    expect(validateSeries({ bestOf: 1, games: [A], advantage: { a: 1, b: 0 } }).ok).toBe(false);
+    expect(validateSeries({ bestOf: 3, games: [A], advantage: { a: 1, b: 1 } }).ok).toBe(false);
+    expect(validateSeries({ bestOf: 5, games: [A], advantage: { a: 2, b: 0 } }).ok).toBe(false);
+  });
+
+  it('勝ち数が足りなければ、時間切れ / 棄権（allowIncomplete）のときだけ手動の勝者で確定できる', () => {
+    expect(validateSeries({ bestOf: 3, games: [A, B] }).ok).toBe(false);
+    expect(validateSeries({ bestOf: 3, games: [A, B], winner: 'b' }).ok).toBe(false);
+
+    const r = validateSeries({ bestOf: 3, games: [A, B], winner: 'b', allowIncomplete: true });
+    expect(r.ok && r.winner).toBe('b');
+  });
+
+  it('手動の勝者が試合結果と食い違えばエラー', () => {
+    const r = validateSeries({ bestOf: 3, games: [A, A], winner: 'b' });
+    expect(r.ok).toBe(false);
+    if (r.ok === false) expect(r.message).toContain('一致しません');
+  });
+});
+
+describe('buildSeriesLines', () => {
+  const winners = (lines: { winner: string | null }[]) => lines.map((l) => l.winner);
+
+  it('1回勝負', () => {
+    const r = buildSeriesLines({ bestOf: 1, winner: 'b', loserWins: 0 });
+    expect([r.winner_score, r.loser_score]).toEqual([1, 0]);
+    expect(winners(r.lines)).toEqual(['b']);
+  });
+
+  it('3回勝負 2-0 は 3 試合目を行わない', () => {
+    const r = buildSeriesLines({ bestOf: 3, winner: 'a', loserWins: 0 });
+    expect([r.winner_score, r.loser_score]).toEqual([2, 0]);
+    expect(winners(r.lines)).toEqual(['a', 'a', null]);
+    expect(r.lines[2].skipped).toBe(true);
+  });
+
+  it('3回勝負 2-1 は勝者が最後の試合で勝ち抜ける', () => {
+    const r = buildSeriesLines({ bestOf: 3, winner: 'a', loserWins: 1 });
+    expect(winners(r.lines)).toEqual(['a', 'b', 'a']);
+    expect(r.lines.every((l) => !l.skipped && !l.def)).toBe(true);
+  });
+
+  it('5回勝負 3-2', () => {
+    const r = buildSeriesLines({ bestOf: 5, winner: 'b', loserWins: 2 });
+    expect([r.winner_score, r.loser_score]).toEqual([3, 2]);
+    expect(r.lines.map((l) => l.game_no)).toEqual([1, 2, 3, 4, 5]);
+    expect(winners(r.lines).filter((w) => w === 'b')).toHaveLength(3);
+    expect(r.lines[4].winner).toBe('b');
+  });
+
+  it('勝者側のアドバンテージは先頭の DEF 勝ち', () => {
+    const r = buildSeriesLines({ bestOf: 3, advantage: { a: 1, b: 0 }, winner: 'a', loserWins: 0 });
+    expect(r.lines.map((l) => [l.winner, l.def, l.skipped])).toEqual([
+      ['a', true, false],
+      ['a', false, false],
+      [null, false, true],
+    ]);
+  });
+
+  it('敗者側のアドバンテージは敗者の勝ち数に必ず含める', () => {
+    const r = buildSeriesLines({ bestOf: 3, advantage: { a: 0, b: 1 }, winner: 'a', loserWins: 0 });
+    expect(r.loser_score).toBe(1);
+    expect(r.lines.map((l) => [l.winner, l.def])).toEqual([
+      ['b', true],
+      ['a', false],
+      ['a', false],
+    ]);
+  });
+
+  it('敗者の勝ち数は取りうる範囲に丸める', () => {
+    expect(buildSeriesLines({ bestOf: 3, winner: 'a', loserWins: 5 }).loser_score).toBe(1);
+    expect(buildSeriesLines({ bestOf: 5, winner: 'a', loserWins: -1 }).loser_score).toBe(0);
+  });
+});
@@ -0,0 +1,282 @@
+// lib/finals/series.ts
+
+/**
+ * 決勝トーナメントの N 本勝負（best-of-N）（純粋関数：DB には触らない。管理画面 / 旧管理画面 / API で共用）
+ * - N は奇数（1 / 3 / 5 …）。先に (N+1)/2 勝した方が勝ち
+ * - 予選を def（bye）で勝ち上がった選手と通常勝ち上がりの選手が当たる場合は、通常側に 1 勝のアドバンテージ
+ *   （第1試合を DEF 勝ち扱い。実際に行う試合は N - アドバンテージ 本まで）
+ * - 試合は「a / b」の 2 陣営で扱う（a = 上側の枠 / b = 下側の枠）。player_id との対応は呼び出し側で持つ
+ */
+
+export type SeriesSide = 'a' | 'b';
+
+/** 1 試合のスコア（未入力は null） */
+export type SeriesGame = { a: number | null; b: number | null };
+
+/** 開始時点で持っている勝ち数 */
+export type SeriesAdvantage = { a: number; b: number };
+
+export const DEFAULT_BEST_OF = 3;
+export const MAX_BEST_OF = 9;
+
+const NO_ADVANTAGE: SeriesAdvantage = { a: 0, b: 0 };
+
+const toIntOrNull = (v: unknown): number | null => {
+  if (v == null || String(v).trim() === '') return null;
+  const n = typeof v === 'number' ? v : parseInt(String(v), 10);
+  return Number.isFinite(n) ? Math.trunc(n) : null;
+};
+
+export const isValidBestOf = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= MAX_BEST_OF && v % 2 === 1;
+
+/**
+ * tournaments.best_of（自由入力の整数）→ 使える N
+ * - 偶数は 1 つ上の奇数（4 → 5）、範囲外は 1〜MAX_BEST_OF に丸める
+ * - 数値でなければ fallback
+ */
+export function normalizeBestOf(v: unknown, fallback = DEFAULT_BEST_OF): number {
+  const n = toIntOrNull(v);
+  if (n == null || n <= 0) return fallback;
+  const odd = n % 2 === 0 ? n + 1 : n;
+  return Math.min(odd, MAX_BEST_OF);
+}
+
+/** シリーズ用の N（アドバンテージを付けられるよう 3 以上にそろえる） */
+export const seriesBestOf = (v: unknown) => Math.max(3, normalizeBestOf(v));
+
+/** 勝ち抜けに必要な勝ち数 */
+export const winsNeeded = (bestOf: number) => Math.floor(normalizeBestOf(bestOf) / 2) + 1;
+
+/** 「3回勝負（2勝先取）」などの表示 */
+export function seriesLabel(bestOf: number): string {
+  const n = normalizeBestOf(bestOf);
+  if (n === 1) return '1回勝負';
+  return `${n}回勝負（${winsNeeded(n)}勝先取）`;
+}
+
+/** sets.format に入れるキー（'bo3' / 'bo5' …） */
+export const seriesFormatKey = (bestOf: number) => `bo${normalizeBestOf(bestOf)}`;
+
+/**
+ * sets.format / sets.best_of → N（'bo5' / 'best_of_5' / 5 など。'single' は 1）
+ * - 読めなければ null
+ */
+export function parseSeriesFormat(v: unknown): number | null {
+  if (typeof v === 'number') return isValidBestOf(v) ? v : null;
+  const s = String(v ?? '').trim().toLowerCase();
+  if (!s) return null;
+  if (s === 'single') return 1;
+  const m = s.match(/^(?:bo|best_of_?|best-of-)(\d+)$/);
+  if (!m) return null;
+  const n = parseInt(m[1], 10);
+  return isValidBestOf(n) ? n : null;
+}
+
+/**
+ * 予選 def 勝ち上がりのアドバンテージ
+ * - 片方だけ def 勝ち上がりなら、もう片方（通常勝ち上がり）が 1 勝スタート
+ * - 両方 / どちらも def でなければアドバンテージなし
+ */
+export function defAdvantage(aQualifiedByDef: boolean, bQualifiedByDef: boolean): SeriesAdvantage {
+  if (aQualifiedByDef === bQualifiedByDef) return { ...NO_ADVANTAGE };
+  return aQualifiedByDef ? { a: 0, b: 1 } : { a: 1, b: 0 };
+}
+
+/** body.sets.advantage など → 0 以上の整数にそろえる */
+export function parseAdvantage(v: unknown): SeriesAdvantage {
+  const x = (v ?? {}) as { a?: unknown; b?: unknown };
+  return { a: Math.max(0, toIntOrNull(x.a) ?? 0), b: Math.max(0, toIntOrNull(x.b) ?? 0) };
+}
+
+const hasAdvantage = (adv: SeriesAdvantage) => adv.a > 0 || adv.b > 0;
+
+/** 実際に行う試合数の上限（アドバンテージ分は消化済み） */
+export const playableGames = (bestOf: number, advantage: SeriesAdvantage = NO_ADVANTAGE) =>
+  Math.max(0, normalizeBestOf(bestOf) - advantage.a - advantage.b);
+
+/** 1 試合の勝者（未入力 / 同点 / 負の値は null） */
+export function gameWinner(g: SeriesGame): SeriesSide | null {
+  if (g.a == null || g.b == null || g.a < 0 || g.b < 0 || g.a === g.b) return null;
+  return g.a > g.b ? 'a' : 'b';
+}
+
+/** games（[{a,b}] / 文字列混じりも可）→ SeriesGame[]（本数はそのまま。多すぎる入力の検出は validateSeries） */
+export function parseGames(games: unknown): SeriesGame[] {
+  const base = Array.isArray(games) ? games : [];
+  return base.map((x: any) => ({ a: toIntOrNull(x?.a), b: toIntOrNull(x?.b) }));
+}
+
+/** games → 実際に行う試合数ぶんの配列（多い分は切り捨て、足りない分は空欄） */
+export function normalizeGames(games: unknown, bestOf: number, advantage: SeriesAdvantage = NO_ADVANTAGE): SeriesGame[] {
+  const n = playableGames(bestOf, advantage);
+  const out = parseGames(games).slice(0, n);
+  while (out.length < n) out.push({ a: null, b: null });
+  return out;
+}
+
+export type SeriesScore = {
+  bestOf: number;
+  winsNeeded: number;
+  advantage: SeriesAdvantage;
+  /** 実際の試合での勝ち数 */
+  gameWinsA: number;
+  gameWinsB: number;
+  /** アドバンテージ込みの勝ち数（winner_score / loser_score に入れる値） */
+  totalA: number;
+  totalB: number;
+  /** 勝ち抜けが決まった側（未確定なら null） */
+  winner: SeriesSide | null;
+  scoreText: string;
+};
+
+/** アドバンテージ込みの勝ち数と、勝ち抜けが決まったかを数える（入力の矛盾は見ない。検証は validateSeries） */
+export function computeSeries(
+  bestOf: number,
+  games: readonly SeriesGame[],
+  advantage: SeriesAdvantage = NO_ADVANTAGE,
+): SeriesScore {
+  const n = normalizeBestOf(bestOf);
+  const need = winsNeeded(n);
+
+  let gameWinsA = 0;
+  let gameWinsB = 0;
+  for (const g of games.slice(0, playableGames(n, advantage))) {
+    const w = gameWinner(g);
+    if (w === 'a') gameWinsA++;
+    if (w === 'b') gameWinsB++;
+  }
+
+  const totalA = gameWinsA + advantage.a;
+  const totalB = gameWinsB + advantage.b;
+  const winner: SeriesSide | null = totalA >= need && totalA > totalB ? 'a' : totalB >= need && totalB > totalA ? 'b' : null;
+
+  return { bestOf: n, winsNeeded: need, advantage, gameWinsA, gameWinsB, totalA, totalB, winner, scoreText: `${totalA}-${totalB}` };
+}
+
+export type SeriesCheck = { ok: true; score: SeriesScore; winner: SeriesSide } | { ok: false; message: string };
+
+/**
+ * シリーズ結果の検証
+ * - N は奇数 / アドバンテージは 3 本勝負以上で片側 1 勝まで
+ * - 同点の試合 / 片方だけ入力された試合 / 勝敗が決まった後の試合はエラー
+ * - winner（手動指定）があれば、試合結果から決まった勝者と一致すること
+ * - allowIncomplete（時間切れ / 棄権）のときだけ、勝ち数が足りなくても winner で確定できる
+ */
+export function validateSeries(input: {
+  bestOf: number;
+  games: readonly SeriesGame[];
+  advantage?: SeriesAdvantage;
+  winner?: SeriesSide | null;
+  allowIncomplete?: boolean;
+}): SeriesCheck {
+  const advantage = input.advantage ?? NO_ADVANTAGE;
+  if (!isValidBestOf(input.bestOf)) return { ok: false, message: `N本勝負の N は 1〜${MAX_BEST_OF} の奇数にしてください。` };
+
+  const need = winsNeeded(input.bestOf);
+  if (hasAdvantage(advantage)) {
+    if (input.bestOf < 3) return { ok: false, message: 'アドバンテージは 3回勝負以上でのみ付けられます。' };
+    if ((advantage.a > 0 && advantage.b > 0) || advantage.a > 1 || advantage.b > 1) {
+      return { ok: false, message: 'アドバンテージは片方に 1 勝までです。' };
+    }
+  }
+
+  const limit = playableGames(input.bestOf, advantage);
+  const lastFilled = input.games.reduce((acc, g, i) => (g.a != null || g.b != null ? i : acc), -1);
+  if (lastFilled >= limit) return { ok: false, message: `試合数が多すぎます（最大 ${limit} 試合）。` };
+
+  let a = advantage.a;
+  let b = advantage.b;
+  let decidedAt = -1;
+  for (let i = 0; i < input.games.length; i++) {
+    const g = input.games[i];
+    if (g.a == null && g.b == null) continue;
+    if (g.a == null || g.b == null) return { ok: false, message: `第${i + 1}試合のスコアが片方しか入力されていません。` };
+    if (g.a < 0 || g.b < 0) return { ok: false, message: `第${i + 1}試合のスコアが不正です。` };
+    if (g.a === g.b) return { ok: false, message: `第${i + 1}試合が同点です（勝敗がつくスコアを入力してください）。` };
+    if (decidedAt >= 0) return { ok: false, message: `第${decidedAt + 1}試合で勝敗が決まった後の試合が入力されています。` };
+
+    if (g.a > g.b) a++;
+    else b++;
+    if (a >= need || b >= need) decidedAt = i;
+  }
+
+  const score = computeSeries(input.bestOf, input.games, advantage);
+  const manual = input.winner ?? null;
+
+  if (score.winner) {
+    if (manual && manual !== score.winner) return { ok: false, message: '指定された勝者が試合結果と一致しません。' };
+    return { ok: true, score, winner: score.winner };
+  }
+
+  if (manual && input.allowIncomplete) return { ok: true, score, winner: manual };
+  return { ok: false, message: `勝者を確定できません（どちらかが ${need} 勝に届くよう試合結果を入力してください）。` };
+}
+
+/** 勝者が side のとき、敗者側がとりうる勝ち数（アドバンテージ分は必ず含む） */
+export function loserWinsRange(bestOf: number, advantage: SeriesAdvantage, winner: SeriesSide): { min: number; max: number } {
+  const need = winsNeeded(bestOf);
+  const loserAdv = winner === 'a' ? advantage.b : advantage.a;
+  const min = Math.min(loserAdv, need - 1);
+  return { min, max: need - 1 };
+}
+
+export type SeriesLine = {
+  /** 1 始まり */
+  game_no: number;
+  winner: SeriesSide | null;
+  /** アドバンテージ（DEF 勝ち扱い）の試合 */
+  def: boolean;
+  /** 勝敗が決まったため行わない試合 */
+  skipped: boolean;
+};
+
+/**
+ * 勝者と敗者側の勝ち数からシリーズの並びを作る（スコア入力なしで結果だけ登録する画面の表示用）
+ * - アドバンテージの試合を先頭に、勝者は最後の試合で勝ち抜ける並び
+ * - loserWins は loserWinsRange に収める
+ */
+export function buildSeriesLines(opts: {
+  bestOf: number;
+  advantage?: SeriesAdvantage;
+  winner: SeriesSide;
+  loserWins: number;
+}): { winner_score: number; loser_score: number; lines: SeriesLine[] } {
+  const n = normalizeBestOf(opts.bestOf);
+  const advantage = opts.advantage ?? NO_ADVANTAGE;
+  const need = winsNeeded(n);
+  const loser: SeriesSide = opts.winner === 'a' ? 'b' : 'a';
+  const range = loserWinsRange(n, advantage, opts.winner);
+  const loserWins = Math.max(range.min, Math.min(range.max, Math.trunc(opts.loserWins) || 0));
+
+  const winnerAdv = Math.min(opts.winner === 'a' ? advantage.a : advantage.b, need - 1);
+  const loserAdv = Math.min(loser === 'a' ? advantage.a : advantage.b, loserWins);
+
+  const order: Array<{ winner: SeriesSide; def: boolean }> = [
+    ...Array.from({ length: winnerAdv }, () => ({ winner: opts.winner, def: true })),
+    ...Array.from({ length: loserAdv }, () => ({ winner: loser, def: true })),
+    ...Array.from({ length: need - winnerAdv - 1 }, () => ({ winner: opts.winner, def: false })),
+    ...Array.from({ length: loserWins - loserAdv }, () => ({ winner: loser, def: false })),
+    { winner: opts.winner, def: false },
+  ];
+
+  const lines: SeriesLine[] = Array.from({ length: n }, (_, i) => {
+    const x = order[i];
+    return x
+      ? { game_no: i + 1, winner: x.winner, def: x.def, skipped: false }
+      : { game_no: i + 1, winner: null, def: false, skipped: true };
+  });
+
+  return { winner_score: need, loser_score: loserWins, lines };
+}
+
+/** final_matches.sets に保存する形（{ format, best_of, advantage, games }） */
+export function buildSeriesSets(bestOf: number, advantage: SeriesAdvantage, games: readonly SeriesGame[]) {
+  const n = normalizeBestOf(bestOf);
+  return {
+    format: seriesFormatKey(n),
+    best_of: n,
+    advantage: { a: advantage.a, b: advantage.b },
+    games: normalizeGames(games, n, advantage),
+  };
+}
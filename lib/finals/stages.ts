@@ -0,0 +1,67 @@
+// lib/finals/stages.ts
+
+/**
+ * 決勝トーナメントの形式と stage（純粋関数：DB には触らない。管理画面 / 表画面 / API で共用）
+ * - single      : シングルエリミネーション（main のみ）
+ * - single_third: シングル＋3位決定戦（main + third）
+ * - double      : ダブルエリミネーション（main = 勝者側 / losers = 敗者側 / grand_final）
+ * ※ round_no / match_no / slot_no は stage ごとに 1 から数える
+ */
+
+export const FINAL_BRACKET_TYPES = ['single', 'single_third', 'double'] as const;
+export type FinalBracketType = (typeof FINAL_BRACKET_TYPES)[number];
+
+export const FINAL_STAGES = ['main', 'losers', 'grand_final', 'third'] as const;
+export type FinalStage = (typeof FINAL_STAGES)[number];
+
+export type FinalPlacing = {
+  place: number;
+  player_id: string;
+};
+
+export const BRACKET_TYPE_LABEL: Record<FinalBracketType, string> = {
+  single: 'シングルエリミネーション',
+  single_third: 'シングル＋3位決定戦',
+  double: 'ダブルエリミネーション',
+};
+
+export const isFinalBracketType = (v: unknown): v is FinalBracketType =>
+  typeof v === 'string' && (FINAL_BRACKET_TYPES as readonly string[]).includes(v);
+
+export const isFinalStage = (v: unknown): v is FinalStage =>
+  typeof v === 'string' && (FINAL_STAGES as readonly string[]).includes(v);
+
+/** 未知の値は single / main 扱い（列追加前のデータ） */
+export const toBracketType = (v: unknown): FinalBracketType => (isFinalBracketType(v) ? v : 'single');
+export const toStage = (v: unknown): FinalStage => (isFinalStage(v) ? v : 'main');
+
+/** 形式ごとの stage（表示順） */
+export function stagesForBracketType(type: FinalBracketType): FinalStage[] {
+  if (type === 'double') return ['main', 'losers', 'grand_final'];
+  if (type === 'single_third') return ['main', 'third'];
+  return ['main'];
+}
+
+export function stageLabel(stage: FinalStage, type: FinalBracketType): string {
+  if (stage === 'losers') return '敗者側';
+  if (stage === 'grand_final') return 'グランドファイナル';
+  if (stage === 'third') return '3位決定戦';
+  return type === 'double' ? '勝者側' : '本戦';
+}
+
+/** grand_final R2 はリセットマッチ（敗者側の勝者が R1 を取った時だけ行う） */
+export function stageRoundLabel(stage: FinalStage, roundNo: number): string {
+  if (stage === 'grand_final') return roundNo >= 2 ? 'GF（リセット）' : 'GF';
+  if (stage === 'third') return '3決';
+  if (stage === 'losers') return `L${roundNo}`;
+  return `R${roundNo}`;
+}
+
+/** final_brackets.placings（jsonb）→ 順位順の配列 */
+export function parsePlacings(v: unknown): FinalPlacing[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((x) => ({ place: Number((x as any)?.place ?? 0), player_id: String((x as any)?.player_id ?? '') }))
+    .filter((x) => Number.isInteger(x.place) && x.place > 0 && x.player_id)
+    .sort((a, b) => a.place - b.place);
+}
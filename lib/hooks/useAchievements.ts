@@ -0,0 +1,43 @@
+// lib/hooks/useAchievements.ts
+'use client';
+
+import { useMemo } from 'react';
+import { useFetchSupabaseData } from '@/lib/hooks/useFetchSupabaseData';
+
+export type PlayerAchievementRow = {
+  player_id: string;
+  code: string;
+  earned_at: string;
+};
+
+/** 選手 1 人の獲得バッジ（獲得順） */
+export function usePlayerAchievements(playerId: string | null | undefined) {
+  return useFetchSupabaseData<PlayerAchievementRow>({
+    tableName: 'player_achievements',
+    select: 'player_id,code,earned_at',
+    orderBy: { columns: ['earned_at', 'code'], ascending: true },
+    queryParams: { player_id: `eq.${playerId ?? ''}` },
+    enabled: !!playerId,
+    requireAuth: false,
+  });
+}
+
+/** 一覧の表示中の選手だけまとめて引く（player_id → code[]） */
+export function useAchievementCodes(playerIds: string[]) {
+  const key = useMemo(() => Array.from(new Set(playerIds)).sort().join(','), [playerIds]);
+
+  const { data } = useFetchSupabaseData<PlayerAchievementRow>({
+    tableName: 'player_achievements',
+    select: 'player_id,code,earned_at',
+    orderBy: { column: 'earned_at', ascending: true },
+    queryParams: { player_id: `in.(${key})` },
+    enabled: key.length > 0,
+    requireAuth: false,
+  });
+
+  return useMemo(() => {
+    const out: Record<string, string[]> = {};
+    for (const r of data ?? []) (out[r.player_id] ??= []).push(r.code);
+    return out;
+  }, [data]);
+}
@@ -3,6 +3,7 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { pairName } from '@/lib/matches/doubles';
 
 const supabase = createClient();
 
@@ -44,6 +45,7 @@ type MatchRow = {
   winner_handicap_change?: number | null;
   loser_handicap_change?: number | null;
   affects_rating?: boolean | null;
+  rating_multiplier?: number | null;
 };
 
 type FinalMatchRow = {
@@ -63,6 +65,7 @@ type FinalMatchRow = {
   loser_points_delta?: number | null;
   winner_handicap_delta?: number | null;
   loser_handicap_delta?: number | null;
+  rating_multiplier?: number | null;
 };
 
 type PlayerRow = {
@@ -138,6 +141,8 @@ export interface MatchDetails {
   // finish meta
   finish_reason?: string | null;
   affects_rating?: boolean | null;
+  /** 大会係数（RP 変動に掛けた倍率。通常の試合は 1 / null） */
+  rating_multiplier?: number | null;
 
   // teams
   winner_team_id?: string | null;
@@ -199,6 +204,7 @@ function isFinalized(row: MatchRow): boolean {
   const mode = normalizeMode(row.mode);
   if (mode === 'singles') return !!row.winner_id && !!row.loser_id;
   if (mode === 'teams') return true;
+  if (mode === 'doubles') return !!row.winner_id && !!row.loser_id;
   return false;
 }
 
@@ -269,6 +275,37 @@ export function useFetchMatchesData() {
     //    ✅ delta/affects/finish も「列があれば」拾う（無ければフォールバック）
     // ─────────────────────────────
     const matchesSelectCandidatesForRest = [
+      // 大会係数（rating_multiplier）まである環境
+      [
+        'id',
+        'match_date',
+        'created_at',
+        'mode',
+        'status',
+        'winner_id',
+        'loser_id',
+        'winner_score',
+        'loser_score',
+        'winner_team_no',
+        'loser_team_no',
+        'tournament_id',
+        'is_tournament',
+        'venue',
+        'notes',
+        'end_reason',
+        'finish_reason',
+        'time_limit_seconds',
+        'winner_points_delta',
+        'loser_points_delta',
+        'winner_handicap_delta',
+        'loser_handicap_delta',
+        'winner_points_change',
+        'loser_points_change',
+        'winner_handicap_change',
+        'loser_handicap_change',
+        'affects_rating',
+        'rating_multiplier',
+      ].join(','),
       // delta + affects + finish まで全部ある環境
       [
         'id',
@@ -395,6 +432,23 @@ if (mErr) {
     //    ✅ delta 列の有無で 400 にならないようにフォールバック
     // ─────────────────────────────
     const finalsSelectCandidates = [
+      // change 列 + 大会係数まである環境（報告 API が書く列）
+      [
+        'id',
+        'created_at',
+        'winner_id',
+        'loser_id',
+        'winner_score',
+        'loser_score',
+        'end_reason',
+        'finish_reason',
+        'affects_rating',
+        'winner_points_change',
+        'loser_points_change',
+        'winner_handicap_change',
+        'loser_handicap_change',
+        'rating_multiplier',
+      ].join(','),
       // delta 列まである環境
       [
         'id',
@@ -477,10 +531,11 @@ if (mErr) {
             finish_reason: pickStringOrNull(x?.finish_reason ?? null),
             affects_rating: pickBoolOrNull(x?.affects_rating),
 
-            winner_points_delta: toNumOrNull(x?.winner_points_delta),
-            loser_points_delta: toNumOrNull(x?.loser_points_delta),
-            winner_handicap_delta: toNumOrNull(x?.winner_handicap_delta),
-            loser_handicap_delta: toNumOrNull(x?.loser_handicap_delta),
+            winner_points_delta: pickDeltaNumber(x, ['winner_points_delta', 'winner_points_change']),
+            loser_points_delta: pickDeltaNumber(x, ['loser_points_delta', 'loser_points_change']),
+            winner_handicap_delta: pickDeltaNumber(x, ['winner_handicap_delta', 'winner_handicap_change']),
+            loser_handicap_delta: pickDeltaNumber(x, ['loser_handicap_delta', 'loser_handicap_change']),
+            rating_multiplier: toNumOrNull(x?.rating_multiplier),
           }))
         : [];
 
@@ -510,6 +565,7 @@ if (mErr) {
 
         finish_reason: (r.end_reason ?? r.finish_reason ?? null) as string | null,
         affects_rating: typeof r.affects_rating === 'boolean' ? r.affects_rating : null,
+        rating_multiplier: r.rating_multiplier ?? null,
         is_tournament: true,
         tournament_name: 'Finals',
       }));
@@ -592,6 +648,22 @@ if (mErr) {
       (teamRows ?? []).forEach((t: any) => teamMap.set(String(t.id), t));
     }
 
+    // doubles：代表 1 人ずつしか winner_id / loser_id に無いので、match_players からペア名を作る
+    const doublesIds = rows.filter((r) => normalizeMode(r.mode) === 'doubles').map((r) => r.id);
+    const pairNameMap = new Map<string, { winner: string; loser: string }>();
+    if (doublesIds.length > 0) {
+      const { data: mpRows } = await supabase
+        .from('match_players')
+        .select('match_id,side_no,slot_no,players:player_id(handle_name)')
+        .in('match_id', doublesIds)
+        .is('rubber_no', null);
+
+      const mp = ((mpRows ?? []) as any[]).sort((a, b) => Number(a.slot_no ?? 0) - Number(b.slot_no ?? 0));
+      const namesOf = (id: string, side: number) =>
+        pairName(mp.filter((x) => String(x.match_id) === id && Number(x.side_no) === side).map((x) => x.players?.handle_name));
+      for (const id of doublesIds) pairNameMap.set(id, { winner: namesOf(id, 1), loser: namesOf(id, 2) });
+    }
+
     const mtMap = new Map<string, Map<number, string>>();
     for (const mt of matchTeams) {
       if (!mtMap.has(mt.match_id)) mtMap.set(mt.match_id, new Map());
@@ -635,8 +707,8 @@ if (mErr) {
         winner_id: wid,
         loser_id: lid,
 
-        winner_name: u?.winner_name ?? wp?.handle_name ?? null,
-        loser_name: u?.loser_name ?? lp?.handle_name ?? null,
+        winner_name: pairNameMap.get(r.id)?.winner ?? u?.winner_name ?? wp?.handle_name ?? null,
+        loser_name: pairNameMap.get(r.id)?.loser ?? u?.loser_name ?? lp?.handle_name ?? null,
 
         winner_avatar_url: u?.winner_avatar_url ?? wp?.avatar_url ?? null,
         loser_avatar_url: u?.loser_avatar_url ?? lp?.avatar_url ?? null,
@@ -651,6 +723,7 @@ if (mErr) {
 
         finish_reason: u?.finish_reason ?? rFinish,
         affects_rating: typeof u?.affects_rating === 'boolean' ? u.affects_rating : rAffects,
+        rating_multiplier: toNumOrNull(r.rating_multiplier),
 
         winner_team_id: wTeamId,
         winner_team_name: wTeam?.name ?? null,
@@ -3,6 +3,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { pairName } from '@/lib/matches/doubles';
 
 /**
  * NOTE
@@ -1095,6 +1096,90 @@ async function fetchFinalMatchesForPlayer(playerId: string, token: string) {
   });
 }
 
+/**
+ * ダブルスの試合（match_players 経由。代表でない 2 人目の選手も拾う）
+ * - 自分の側を winner_id / loser_id に入れ、相手・自分のペア名を *_name に入れる
+ * - RP/HC の変動は match_players に残した自分の分（ペア全体の変動ではない）
+ */
+async function fetchDoublesMatchesForPlayer(playerId: string, token: string) {
+  const headers = {
+    apikey: SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+
+  const mineUrl =
+    `${SUPABASE_URL}/rest/v1/match_players?player_id=eq.${encodeURIComponent(playerId)}` +
+    `&rubber_no=is.null&select=match_id,side_no,points_delta,handicap_delta&limit=200`;
+  const mineRes = await fetch(mineUrl, { headers, cache: 'no-store' });
+  if (!mineRes.ok) return [];
+  const mine = ((await mineRes.json()) as any[]) ?? [];
+  const mineByMatch = new Map<string, any>(mine.map((r) => [String(r?.match_id ?? ''), r]));
+  const ids = Array.from(mineByMatch.keys()).filter((s) => s.length > 0);
+  if (ids.length === 0) return [];
+
+  const inM = ids.map((id) => `"${id}"`).join(',');
+  const mUrl =
+    `${SUPABASE_URL}/rest/v1/matches?id=in.(${encodeURIComponent(inM)})&mode=eq.doubles` +
+    `&status=not.in.(submitted,disputed,voided)` +
+    `&select=id,match_date,created_at,status,winner_score,loser_score,end_reason,affects_rating,tournament_id,is_tournament,venue,notes`;
+  const allUrl =
+    `${SUPABASE_URL}/rest/v1/match_players?match_id=in.(${encodeURIComponent(inM)})` +
+    `&rubber_no=is.null&select=match_id,player_id,side_no,slot_no,players:player_id(handle_name)`;
+
+  const [mRes, allRes] = await Promise.all([
+    fetch(mUrl, { headers, cache: 'no-store' }),
+    fetch(allUrl, { headers, cache: 'no-store' }),
+  ]);
+  const mRows = mRes.ok ? (((await mRes.json()) as any[]) ?? []) : [];
+  const allRows = allRes.ok ? (((await allRes.json()) as any[]) ?? []) : [];
+
+  const membersOf = (matchId: string, side: number) =>
+    allRows
+      .filter((r) => String(r?.match_id ?? '') === matchId && Number(r?.side_no) === side)
+      .sort((a, b) => Number(a?.slot_no ?? 0) - Number(b?.slot_no ?? 0));
+
+  return mRows.map((r: any) => {
+    const id = String(r?.id ?? '');
+    const me = mineByMatch.get(id);
+    const mySide = Number(me?.side_no) === 1 ? 1 : 2;
+    const isWinner = mySide === 1;
+    const names = (side: number) => pairName(membersOf(id, side).map((x) => pickStr(x?.players?.handle_name)));
+    const partner = membersOf(id, mySide).find((x) => String(x?.player_id ?? '') !== playerId);
+
+    const pts = toNumber(me?.points_delta);
+    const hc = toNumber(me?.handicap_delta);
+
+    return normalizeMatchRow({
+      id,
+      match_date: pickStr(r?.match_date) ?? pickStr(r?.created_at) ?? new Date().toISOString(),
+      mode: 'doubles',
+      status: pickStr(r?.status) ?? 'finalized',
+
+      winner_id: isWinner ? playerId : null,
+      loser_id: isWinner ? null : playerId,
+      winner_name: names(1),
+      loser_name: names(2),
+      partner_name: pickStr(partner?.players?.handle_name) ?? null,
+
+      winner_score: toNumber(r?.winner_score),
+      loser_score: toNumber(r?.loser_score),
+
+      winner_points_delta: isWinner ? pts : null,
+      loser_points_delta: isWinner ? null : pts,
+      winner_handicap_delta: isWinner ? hc : null,
+      loser_handicap_delta: isWinner ? null : hc,
+
+      finish_reason: pickStr(r?.end_reason) ?? null,
+      affects_rating: pickBool(r?.affects_rating),
+
+      is_tournament: typeof r?.is_tournament === 'boolean' ? r.is_tournament : !!r?.tournament_id,
+      venue: pickStr(r?.venue) ?? null,
+      notes: pickStr(r?.notes) ?? null,
+    });
+  });
+}
+
 async function fetchMatchDetailsForPlayer(playerId: string, token: string, requireAuth: boolean) {
   const tables = resolveTableCandidates('match_details', requireAuth);
   const orderCandidates = ['match_date.desc,created_at.desc,id.desc', 'match_date.desc,id.desc', 'match_date.desc'];
@@ -1195,11 +1280,13 @@ export function useFetchPlayerDetail(playerId: string, opts?: { enabled?: boolea
 
         let tournamentFromMatches: any[] = [];
         let finalsFromFinalMatches: any[] = [];
+        let doublesMatches: any[] = [];
 
         try {
-          [tournamentFromMatches, finalsFromFinalMatches] = await Promise.all([
+          [tournamentFromMatches, finalsFromFinalMatches, doublesMatches] = await Promise.all([
             fetchTournamentMatchesFromMatchesTable(playerId, token),
             fetchFinalMatchesForPlayer(playerId, token),
+            fetchDoublesMatchesForPlayer(playerId, token),
           ]);
         } catch {
           // 取れない場合は黙ってスキップ（UIを壊さない）
@@ -1211,11 +1298,16 @@ export function useFetchPlayerDetail(playerId: string, opts?: { enabled?: boolea
         setPlayer(me);
 
         // 重複除去（id）
+        // ★ダブルスは自分視点の行（ペア名・自分の変動）を優先する
         const byId = new Map<string, any>();
-        for (const m of matchesData ?? []) {
+        for (const m of doublesMatches ?? []) {
           const id = String(m?.id ?? '');
           if (id) byId.set(id, m);
         }
+        for (const m of matchesData ?? []) {
+          const id = String(m?.id ?? '');
+          if (id && !byId.has(id)) byId.set(id, m);
+        }
         for (const m of tournamentFromMatches ?? []) {
           const id = String(m?.id ?? '');
           if (id && !byId.has(id)) byId.set(id, m);
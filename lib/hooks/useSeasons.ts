@@ -0,0 +1,54 @@
+// lib/hooks/useSeasons.ts
+'use client';
+
+import { useFetchSupabaseData } from '@/lib/hooks/useFetchSupabaseData';
+import type { Season } from '@/lib/rating/seasons';
+
+/** season_standings の 1 行（締めた時点の成績。players / seasons を埋め込んで取る） */
+export type SeasonStandingRow = {
+  season_id: string;
+  player_id: string;
+  rank: number;
+  ranking_points: number;
+  handicap: number;
+  wins: number;
+  losses: number;
+  players?: { handle_name: string | null; avatar_url: string | null } | null;
+  seasons?: Pick<Season, 'name' | 'start_date' | 'end_date'> | null;
+};
+
+/** 締め済みのシーズン（新しい順） */
+export function useClosedSeasons(opts?: { enabled?: boolean }) {
+  return useFetchSupabaseData<Season>({
+    tableName: 'seasons',
+    select: 'id,name,start_date,end_date,status,regression,closed_at',
+    orderBy: { columns: ['start_date', 'id'], ascending: false },
+    queryParams: { status: 'eq.closed' },
+    enabled: opts?.enabled ?? true,
+    requireAuth: false,
+  });
+}
+
+/** シーズンの最終順位（順位順） */
+export function useSeasonStandings(seasonId: string | null | undefined) {
+  return useFetchSupabaseData<SeasonStandingRow>({
+    tableName: 'season_standings',
+    select: 'season_id,player_id,rank,ranking_points,handicap,wins,losses,players(handle_name,avatar_url)',
+    orderBy: { columns: ['rank', 'player_id'], ascending: true },
+    queryParams: { season_id: `eq.${seasonId ?? ''}` },
+    enabled: !!seasonId,
+    requireAuth: false,
+  });
+}
+
+/** 選手ごとのシーズン成績（プロフィール用。created_at = 締めた日時なので新しいシーズンから並ぶ） */
+export function usePlayerSeasonStandings(playerId: string | null | undefined) {
+  return useFetchSupabaseData<SeasonStandingRow>({
+    tableName: 'season_standings',
+    select: 'season_id,player_id,rank,ranking_points,handicap,wins,losses,seasons(name,start_date,end_date)',
+    orderBy: { column: 'created_at', ascending: false },
+    queryParams: { player_id: `eq.${playerId ?? ''}` },
+    enabled: !!playerId,
+    requireAuth: false,
+  });
+}
@@ -1,7 +1,7 @@
 // lib/hooks/useTeamRankings.ts
 'use client';
 
-import { useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useFetchSupabaseData } from '@/lib/hooks/useFetchSupabaseData';
 
 export type TeamRankItem = {
@@ -15,9 +15,16 @@ export type TeamRankItem = {
   losses?: number | null;
   win_pct?: number | null;
   last_match_at?: string | null;
+  /** チームレーティング（teams.rating。団体戦の勝敗だけで動く・メンバーの RP 平均とは独立） */
+  rating?: number | null;
+  rating_matches?: number | null;
 };
 
-type OrderKey = 'avg_rp' | 'last_match_at' | 'name';
+type TeamRatingRow = { id: string; rating: number | null; rating_matches: number | null };
+
+// rating は VIEW に無いので teams から引いて合わせ、並びもクライアントで付ける
+// （rating 順のときは VIEW 側で件数を絞らず、並べ替えてから limit 件に切る）
+type OrderKey = 'rating' | 'avg_rp' | 'last_match_at' | 'name';
 
 export function useTeamRankings(opts?: {
   enabled?: boolean;
@@ -26,8 +33,10 @@ export function useTeamRankings(opts?: {
   ascending?: boolean;
   limit?: number;
 }) {
-  const orderCol = opts?.orderBy ?? 'avg_rp';
+  const orderKey = opts?.orderBy ?? 'avg_rp';
+  const orderCol = orderKey === 'rating' ? 'avg_rp' : orderKey;
   const ascending = opts?.ascending ?? false;
+  const sortOnClient = orderKey === 'rating';
 
   const {
     data,
@@ -39,13 +48,39 @@ export function useTeamRankings(opts?: {
     tableName: 'team_rankings',      // ← VIEW 名
     select: '*',
     orderBy: { column: orderCol, ascending },
-    limit: opts?.limit,
+    limit: sortOnClient ? undefined : opts?.limit,
     enabled: opts?.enabled ?? true,
     requireAuth: opts?.requireAuth ?? false, // 公開閲覧OK
   });
 
-  // 将来フィルタなどをここで挟む想定
-  const teams = useMemo(() => data, [data]);
+  const {
+    data: ratings,
+    loading: ratingsLoading,
+    refetch: refetchRatings,
+  } = useFetchSupabaseData<TeamRatingRow>({
+    tableName: 'teams',
+    select: 'id,rating,rating_matches',
+    enabled: opts?.enabled ?? true,
+    requireAuth: opts?.requireAuth ?? false,
+  });
+
+  const teams = useMemo(() => {
+    const byId = new Map(ratings.map((r) => [String(r.id), r]));
+    const merged = data.map((t) => {
+      const r = byId.get(String(t.id));
+      return { ...t, rating: r?.rating ?? null, rating_matches: r?.rating_matches ?? null };
+    });
+    if (!sortOnClient) return merged;
+
+    const sign = ascending ? 1 : -1;
+    merged.sort((a, b) => sign * ((a.rating ?? 0) - (b.rating ?? 0)));
+    return opts?.limit ? merged.slice(0, opts.limit) : merged;
+  }, [data, ratings, sortOnClient, ascending, opts?.limit]);
+
+  const refetchAll = useCallback(() => {
+    refetch();
+    refetchRatings();
+  }, [refetch, refetchRatings]);
 
-  return { teams, loading, error, retrying, refetch };
+  return { teams, loading: loading || ratingsLoading, error, retrying, refetch: refetchAll };
 }
@@ -0,0 +1,166 @@
+// lib/league/autoBlocks.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import type { Json } from '@/lib/database.types';
+import { snakeDraft, type DraftConflict, type DraftOrderBy, type DraftPlayer } from './draft';
+import { generateRoundRobin } from './schedule';
+
+/**
+ * リーグブロックの自動作成
+ * - previewLeagueDraft：参加者とブロック数からスネークドラフトの案を作る（書き込みなし。管理画面で確認・手直しする）
+ * - createLeagueBlocks：確認済みの案（ブロック名 + メンバー）から日程を作り、RPC league_create_blocks で一括作成
+ * - 管理者チェックは呼び出し側の route で行う
+ */
+
+export type DraftPreviewPlayer = {
+  id: string;
+  handle_name: string | null;
+  ranking_points: number | null;
+  handicap: number | null;
+  team_ids: string[];
+};
+
+export type DraftPreview = {
+  blocks: { label: string; players: DraftPreviewPlayer[] }[];
+  conflicts: DraftConflict[];
+  /** team_id → チーム名 */
+  teams: Record<string, string>;
+};
+
+export type CreateBlocksResult = {
+  tournament_id: string;
+  blocks: { id: string; label: string }[];
+  created_blocks: number;
+  created_members: number;
+  created_matches: number;
+};
+
+/** 1 ブロックの最少人数（総当たりが組める人数） */
+export const MIN_BLOCK_SIZE = 2;
+
+export async function previewLeagueDraft(input: {
+  playerIds: string[];
+  blockCount: number;
+  by: DraftOrderBy;
+  separateTeams: boolean;
+}): Promise<MatchActionResult<{ preview: DraftPreview }>> {
+  const ids = Array.from(new Set(input.playerIds.map(String).filter(Boolean)));
+  const blockCount = Math.trunc(input.blockCount);
+
+  if (!Number.isFinite(blockCount) || blockCount < 1) {
+    return { ok: false, status: 400, message: 'ブロック数は 1 以上で指定してください。' };
+  }
+  if (ids.length < blockCount * MIN_BLOCK_SIZE) {
+    return {
+      ok: false,
+      status: 400,
+      message: `参加者が足りません（${blockCount} ブロックには最低 ${blockCount * MIN_BLOCK_SIZE} 人必要です）。`,
+    };
+  }
+
+  const { data: pRows, error: pErr } = await supabaseAdmin
+    .from('players')
+    .select('id,handle_name,ranking_points,handicap')
+    .in('id', ids);
+  if (pErr) return { ok: false, status: 500, message: `選手の取得に失敗しました: ${pErr.message}` };
+
+  const found = new Map((pRows ?? []).map((p) => [String(p.id), p]));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length > 0) return { ok: false, status: 400, message: `存在しない選手が含まれています（${missing.length} 人）。` };
+
+  const teamIdsOf = new Map<string, string[]>();
+  const teams: Record<string, string> = {};
+  if (input.separateTeams) {
+    const { data: tmRows, error: tmErr } = await supabaseAdmin
+      .from('team_members')
+      .select('player_id,team_id')
+      .in('player_id', ids);
+    if (tmErr) return { ok: false, status: 500, message: `チーム所属の取得に失敗しました: ${tmErr.message}` };
+
+    for (const r of tmRows ?? []) {
+      const pid = String(r.player_id);
+      teamIdsOf.set(pid, [...(teamIdsOf.get(pid) ?? []), String(r.team_id)]);
+    }
+
+    const teamIds = Array.from(new Set((tmRows ?? []).map((r) => String(r.team_id))));
+    if (teamIds.length > 0) {
+      const { data: tRows } = await supabaseAdmin.from('teams').select('id,name').in('id', teamIds);
+      for (const t of tRows ?? []) teams[String(t.id)] = t.name ?? '';
+    }
+  }
+
+  const players: DraftPreviewPlayer[] = ids.map((id) => {
+    const p = found.get(id)!;
+    return {
+      id,
+      handle_name: p.handle_name ?? null,
+      ranking_points: p.ranking_points ?? null,
+      handicap: p.handicap ?? null,
+      team_ids: teamIdsOf.get(id) ?? [],
+    };
+  });
+  const byId = new Map(players.map((p) => [p.id, p]));
+
+  const draft = snakeDraft(players as DraftPlayer[], blockCount, {
+    by: input.by,
+    separateTeams: input.separateTeams,
+  });
+
+  return {
+    ok: true,
+    preview: {
+      blocks: draft.blocks.map((b) => ({ label: b.label, players: b.player_ids.map((id) => byId.get(id)!) })),
+      conflicts: draft.conflicts,
+      teams,
+    },
+  };
+}
+
+export async function createLeagueBlocks(
+  tournamentId: string,
+  blocks: { label: string; player_ids: string[] }[],
+  opts: { double?: boolean } = {},
+): Promise<MatchActionResult<{ result: CreateBlocksResult }>> {
+  const cleaned = blocks.map((b) => ({
+    label: String(b.label ?? '').trim(),
+    player_ids: Array.from(new Set((b.player_ids ?? []).map(String).filter(Boolean))),
+  }));
+
+  if (cleaned.length === 0) return { ok: false, status: 400, message: '作成するブロックがありません。' };
+  if (cleaned.some((b) => !b.label)) return { ok: false, status: 400, message: 'ブロック名が空のブロックがあります。' };
+  if (new Set(cleaned.map((b) => b.label)).size !== cleaned.length) {
+    return { ok: false, status: 400, message: 'ブロック名が重複しています。' };
+  }
+  const small = cleaned.find((b) => b.player_ids.length < MIN_BLOCK_SIZE);
+  if (small) {
+    return { ok: false, status: 400, message: `ブロック ${small.label} の人数が ${MIN_BLOCK_SIZE} 人未満です。` };
+  }
+
+  const payload = cleaned.map((b) => ({
+    ...b,
+    matches: generateRoundRobin(b.player_ids, { double: opts.double === true }).matches,
+  }));
+
+  const { data, error } = await supabaseAdmin.rpc('league_create_blocks', {
+    p_tournament_id: tournamentId,
+    p_blocks: payload as unknown as Json,
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('tournament_not_found')) return { ok: false, status: 404, message: '大会が見つかりません。' };
+    if (msg.includes('label_exists')) {
+      return { ok: false, status: 409, message: '同じ名前のブロックが既にあります。ブロック名を変えてください。' };
+    }
+    if (msg.includes('player_in_block')) {
+      return { ok: false, status: 409, message: '既にこの大会のブロックに入っている選手が含まれています。' };
+    }
+    if (msg.includes('duplicate_player')) {
+      return { ok: false, status: 400, message: '同じ選手が複数のブロックに入っています。' };
+    }
+    return { ok: false, status: 500, message: `ブロックの作成に失敗しました: ${msg}` };
+  }
+
+  return { ok: true, result: data as unknown as CreateBlocksResult };
+}
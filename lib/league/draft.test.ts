@@ -0,0 +1,121 @@
+// lib/league/draft.test.ts
+import { describe, expect, it } from 'vitest';
+import { blockLabelOf, findTeamConflicts, snakeDraft, sortByStrength, type DraftPlayer } from './draft';
+
+const p = (id: string, ranking_points: number | null, extra: Partial<DraftPlayer> = {}): DraftPlayer => ({
+  id,
+  ranking_points,
+  handicap: null,
+  ...extra,
+});
+
+/** RP が p1 > p2 > … の順に高い選手 */
+const ranked = (n: number) => Array.from({ length: n }, (_, i) => p(`p${i + 1}`, 2000 - i * 10));
+
+describe('blockLabelOf', () => {
+  it('A..Z のあと AA, AB …', () => {
+    expect(blockLabelOf(0)).toBe('A');
+    expect(blockLabelOf(25)).toBe('Z');
+    expect(blockLabelOf(26)).toBe('AA');
+    expect(blockLabelOf(27)).toBe('AB');
+    expect(blockLabelOf(52)).toBe('BA');
+  });
+});
+
+describe('sortByStrength', () => {
+  it('RP は高い順、未設定は最後', () => {
+    const sorted = sortByStrength([p('a', 1500), p('b', null), p('c', 1800)], 'ranking_points');
+    expect(sorted.map((x) => x.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('HC は低い順、未設定は最後', () => {
+    const players = [p('a', 0, { handicap: 12 }), p('b', 0, { handicap: null }), p('c', 0, { handicap: 3 })];
+    expect(sortByStrength(players, 'handicap').map((x) => x.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('同じ値は ID 順で固定', () => {
+    expect(sortByStrength([p('b', 1500), p('a', 1500)], 'ranking_points').map((x) => x.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('snakeDraft', () => {
+  it('1 巡目は A→C、2 巡目は C→A と折り返す', () => {
+    const { blocks } = snakeDraft(ranked(6), 3);
+    expect(blocks.map((b) => [b.label, b.player_ids])).toEqual([
+      ['A', ['p1', 'p6']],
+      ['B', ['p2', 'p5']],
+      ['C', ['p3', 'p4']],
+    ]);
+  });
+
+  it('端数は折り返し順に配り、人数差は 1 以内', () => {
+    const { blocks } = snakeDraft(ranked(7), 3);
+    expect(blocks.map((b) => b.player_ids)).toEqual([
+      ['p1', 'p6', 'p7'],
+      ['p2', 'p5'],
+      ['p3', 'p4'],
+    ]);
+  });
+
+  it('重複した選手は 1 回だけ配る / ブロック数は 1 以上', () => {
+    const { blocks } = snakeDraft([...ranked(2), p('p1', 2000)], 0);
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].player_ids).toEqual(['p1', 'p2']);
+  });
+
+  it('separateTeams：同じ巡の中でチームメイトのいないブロックを選ぶ', () => {
+    const players = [
+      p('p1', 2000, { team_ids: ['t1'] }),
+      p('p2', 1990),
+      p('p3', 1980, { team_ids: ['t1'] }),
+      p('p4', 1970),
+    ];
+    // 折り返しで p3 は B に入り、p1 とは分かれるのでそのまま
+    expect(snakeDraft(players, 2, { separateTeams: true }).blocks.map((b) => b.player_ids)).toEqual([
+      ['p1', 'p4'],
+      ['p2', 'p3'],
+    ]);
+
+    // p3 が p2 のチームメイトなら、B を飛ばして A へ
+    const mates = [p('p1', 2000), p('p2', 1990, { team_ids: ['t1'] }), p('p3', 1980, { team_ids: ['t1'] }), p('p4', 1970)];
+    const r = snakeDraft(mates, 2, { separateTeams: true });
+    expect(r.blocks.map((b) => b.player_ids)).toEqual([
+      ['p1', 'p3'],
+      ['p2', 'p4'],
+    ]);
+    expect(r.conflicts).toEqual([]);
+  });
+
+  it('避けられない重なりは conflicts に残す', () => {
+    const players = ranked(4).map((x) => ({ ...x, team_ids: ['t1'] }));
+    const r = snakeDraft(players, 2, { separateTeams: true });
+    expect(r.blocks.every((b) => b.player_ids.length === 2)).toBe(true);
+    expect(r.conflicts.map((c) => [c.label, c.team_id, c.player_ids.length])).toEqual([
+      ['A', 't1', 2],
+      ['B', 't1', 2],
+    ]);
+  });
+
+  it('separateTeams でなければ conflicts は見ない', () => {
+    const players = ranked(4).map((x) => ({ ...x, team_ids: ['t1'] }));
+    expect(snakeDraft(players, 2).conflicts).toEqual([]);
+  });
+});
+
+describe('findTeamConflicts', () => {
+  it('同じブロックで同じチームの選手が 2 人以上いる組だけ', () => {
+    const teamsOf = new Map([
+      ['a', ['t1', 't2']],
+      ['b', ['t1']],
+      ['c', ['t2']],
+    ]);
+    const conflicts = findTeamConflicts(
+      [
+        { label: 'A', player_ids: ['a', 'b'] },
+        { label: 'B', player_ids: ['c'] },
+      ],
+      teamsOf,
+    );
+    expect(conflicts).toEqual([{ label: 'A', team_id: 't1', player_ids: ['a', 'b'] }]);
+  });
+});
@@ -0,0 +1,119 @@
+// lib/league/draft.ts
+
+/**
+ * リーグブロックの自動振り分け（スネークドラフト。純粋関数：DB には触らない。管理 API / 管理画面で共用）
+ * - 強い順に並べ、1 巡目は A→B→C…、2 巡目は …C→B→A と折り返しながら 1 人ずつ配る
+ *   強さは ranking_points（高いほど強い）か handicap（低いほど強い）。同じ値は ID で並びを固定する
+ * - separateTeams = true なら、その巡の配り先のうちチームメイトがいないブロックを優先する
+ *   （各ブロックに 1 巡 1 人ずつ入るのは変えないので人数の偏りは出ない。どうしても避けられなければ conflicts に残す）
+ */
+
+export type DraftOrderBy = 'ranking_points' | 'handicap';
+
+export const DRAFT_ORDER_LABELS: Record<DraftOrderBy, string> = {
+  ranking_points: 'RP（高い順）',
+  handicap: 'HC（低い順）',
+};
+
+export function isDraftOrderBy(v: unknown): v is DraftOrderBy {
+  return v === 'ranking_points' || v === 'handicap';
+}
+
+export type DraftPlayer = {
+  id: string;
+  ranking_points: number | null;
+  handicap: number | null;
+  /** 所属チーム（team_members.team_id） */
+  team_ids?: string[];
+};
+
+export type DraftBlock = {
+  label: string;
+  player_ids: string[];
+};
+
+export type DraftConflict = {
+  label: string;
+  team_id: string;
+  player_ids: string[];
+};
+
+export type DraftResult = {
+  blocks: DraftBlock[];
+  conflicts: DraftConflict[];
+};
+
+/** 0 → A, 25 → Z, 26 → AA … */
+export function blockLabelOf(index: number): string {
+  let n = index;
+  let s = '';
+  do {
+    s = String.fromCharCode(65 + (n % 26)) + s;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return s;
+}
+
+/** 強い順に並べる */
+export function sortByStrength(players: DraftPlayer[], by: DraftOrderBy): DraftPlayer[] {
+  const key = (p: DraftPlayer) => {
+    if (by === 'handicap') return Number.isFinite(Number(p.handicap)) && p.handicap != null ? Number(p.handicap) : Infinity;
+    return Number.isFinite(Number(p.ranking_points)) && p.ranking_points != null ? -Number(p.ranking_points) : Infinity;
+  };
+  return [...players].sort((a, b) => key(a) - key(b) || a.id.localeCompare(b.id));
+}
+
+/** ブロックの中でチームが重なっている組 */
+export function findTeamConflicts(blocks: DraftBlock[], teamsOf: Map<string, string[]>): DraftConflict[] {
+  const out: DraftConflict[] = [];
+  for (const b of blocks) {
+    const byTeam = new Map<string, string[]>();
+    for (const pid of b.player_ids) {
+      for (const t of teamsOf.get(pid) ?? []) byTeam.set(t, [...(byTeam.get(t) ?? []), pid]);
+    }
+    byTeam.forEach((ids, team_id) => {
+      if (ids.length > 1) out.push({ label: b.label, team_id, player_ids: ids });
+    });
+  }
+  return out;
+}
+
+export function snakeDraft(
+  players: DraftPlayer[],
+  blockCount: number,
+  opts: { by?: DraftOrderBy; separateTeams?: boolean } = {},
+): DraftResult {
+  const count = Math.max(1, Math.trunc(blockCount));
+  const blocks: DraftBlock[] = Array.from({ length: count }, (_, i) => ({ label: blockLabelOf(i), player_ids: [] }));
+
+  const unique = Array.from(new Map(players.map((p) => [String(p.id), { ...p, id: String(p.id) }])).values());
+  const sorted = sortByStrength(unique, opts.by ?? 'ranking_points');
+  const teamsOf = new Map(sorted.map((p) => [p.id, p.team_ids ?? []]));
+
+  const hasMate = (blockIdx: number, pid: string) => {
+    const mine = teamsOf.get(pid) ?? [];
+    if (mine.length === 0) return false;
+    return blocks[blockIdx].player_ids.some((other) => (teamsOf.get(other) ?? []).some((t) => mine.includes(t)));
+  };
+
+  for (let start = 0, round = 0; start < sorted.length; start += count, round++) {
+    const roundPlayers = sorted.slice(start, start + count);
+    const order = Array.from({ length: count }, (_, i) => (round % 2 === 0 ? i : count - 1 - i));
+
+    if (!opts.separateTeams) {
+      roundPlayers.forEach((p, i) => blocks[order[i]].player_ids.push(p.id));
+      continue;
+    }
+
+    // 強い順に、まだこの巡で配っていないブロックのうち最初に空いている（チームメイトがいない）所へ
+    // （端数の巡はどのブロックに入れても人数差は 1 以内なので、全ブロックを候補にする）
+    const open = [...order];
+    for (const p of roundPlayers) {
+      const pick = open.find((b) => !hasMate(b, p.id)) ?? open[0];
+      blocks[pick].player_ids.push(p.id);
+      open.splice(open.indexOf(pick), 1);
+    }
+  }
+
+  return { blocks, conflicts: opts.separateTeams ? findTeamConflicts(blocks, teamsOf) : [] };
+}
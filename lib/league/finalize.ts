@@ -0,0 +1,111 @@
+// lib/league/finalize.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import type { Json } from '@/lib/database.types';
+import { awardAchievementsSafe } from '@/lib/achievements/award';
+import {
+  computeStandings,
+  isBlockComplete,
+  parseTiebreakers,
+  standingsWinner,
+  type LeagueTiebreaker,
+  type StandingRow,
+} from './standings';
+
+/**
+ * リーグブロックの順位の確定（集計）
+ * - 大会のタイブレーク順（tournaments.league_tiebreakers）で lib/league/standings を回し、
+ *   順位を決めた基準ごと ranking_json に残す（保存は RPC finalize_league_block）
+ * - 未消化の試合があるうちは抽選を使わず途中経過として保存する（勝者は確定しない）
+ * - 勝者が決まったら実績バッジ（ブロック 1 位）を評価する
+ * - 管理者チェックは呼び出し側の route で行う
+ */
+
+export type FinalizeBlockResult = {
+  block_id: string;
+  tournament_id: string | null;
+  status: string;
+  complete: boolean;
+  winner_player_id: string | null;
+};
+
+export async function finalizeLeagueBlock(
+  blockId: string,
+): Promise<MatchActionResult<{ result: FinalizeBlockResult; ranking: StandingRow[]; tiebreakers: LeagueTiebreaker[] }>> {
+  const { data: block, error: bErr } = await supabaseAdmin
+    .from('league_blocks')
+    .select('id,tournament_id')
+    .eq('id', blockId)
+    .maybeSingle();
+
+  if (bErr) return { ok: false, status: 500, message: `ブロックの取得に失敗しました: ${bErr.message}` };
+  if (!block) return { ok: false, status: 404, message: 'リーグブロックが見つかりません。' };
+
+  const [tRes, mRes, cRes] = await Promise.all([
+    block.tournament_id
+      ? supabaseAdmin.from('tournaments').select('league_tiebreakers').eq('id', block.tournament_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabaseAdmin.from('league_block_members').select('player_id').eq('league_block_id', blockId),
+    supabaseAdmin
+      .from('matches')
+      .select('player_a_id,player_b_id,winner_id,loser_id,winner_score,loser_score')
+      .eq('league_block_id', blockId),
+  ]);
+
+  if (tRes.error) return { ok: false, status: 500, message: `大会の取得に失敗しました: ${tRes.error.message}` };
+  if (mRes.error) return { ok: false, status: 500, message: `ブロックメンバーの取得に失敗しました: ${mRes.error.message}` };
+  if (cRes.error) return { ok: false, status: 500, message: `試合の取得に失敗しました: ${cRes.error.message}` };
+
+  const memberIds = (mRes.data ?? []).map((m) => String(m.player_id));
+  const matches = (cRes.data ?? []).map((m) => ({
+    player_a_id: String(m.player_a_id),
+    player_b_id: String(m.player_b_id),
+    winner_id: m.winner_id ? String(m.winner_id) : null,
+    loser_id: m.loser_id ? String(m.loser_id) : null,
+    winner_score: m.winner_score ?? null,
+    loser_score: m.loser_score ?? null,
+  }));
+
+  const involved = Array.from(new Set([...memberIds, ...matches.flatMap((m) => [m.player_a_id, m.player_b_id])]));
+  const defIds: string[] = [];
+  if (involved.length > 0) {
+    const { data: pRows, error: pErr } = await supabaseAdmin
+      .from('players')
+      .select('id,handle_name,is_dummy')
+      .in('id', involved);
+    if (pErr) return { ok: false, status: 500, message: `選手の取得に失敗しました: ${pErr.message}` };
+    for (const p of pRows ?? []) {
+      if (p.is_dummy === true || String(p.handle_name ?? '').trim().toLowerCase() === 'def') defIds.push(String(p.id));
+    }
+  }
+
+  const tiebreakers = parseTiebreakers(tRes.data?.league_tiebreakers);
+  const complete = isBlockComplete(matches);
+  const ranking = computeStandings(memberIds, matches, {
+    tiebreakers,
+    defIds,
+    seed: blockId,
+    drawLots: complete,
+  });
+  const winner = complete ? standingsWinner(ranking) : null;
+
+  const { data, error } = await supabaseAdmin.rpc('finalize_league_block', {
+    p_block_id: blockId,
+    p_ranking: ranking as unknown as Json,
+    p_winner_player_id: winner,
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('block_not_found')) return { ok: false, status: 404, message: 'リーグブロックが見つかりません。' };
+    if (msg.includes('winner_not_member')) {
+      return { ok: false, status: 409, message: '1 位の選手がブロックのメンバーに登録されていません。' };
+    }
+    return { ok: false, status: 500, message: `ブロックの集計に失敗しました: ${msg}` };
+  }
+
+  if (winner) await awardAchievementsSafe([winner]);
+
+  return { ok: true, result: data as unknown as FinalizeBlockResult, ranking, tiebreakers };
+}
@@ -0,0 +1,55 @@
+// lib/league/regenerate.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import { generateRoundRobin, type LeagueSchedule } from './schedule';
+
+/**
+ * リーグブロックの日程の作り直し
+ * - メンバー（league_block_members の sort_order → 登録順）から lib/league/schedule で総当たりを作る
+ * - 差し替えは RPC league_regenerate_schedule（1 トランザクション）。結果入力済みの試合があれば拒否される
+ * - 管理者チェックは呼び出し側の route で行う
+ */
+
+export type RegenerateScheduleResult = {
+  block_id: string;
+  tournament_id: string | null;
+  deleted: number;
+  inserted: number;
+  forfeits: number;
+};
+
+export async function regenerateBlockSchedule(
+  blockId: string,
+  opts: { double?: boolean } = {},
+): Promise<MatchActionResult<{ result: RegenerateScheduleResult; schedule: LeagueSchedule }>> {
+  const { data: members, error: mErr } = await supabaseAdmin
+    .from('league_block_members')
+    .select('player_id,sort_order,created_at')
+    .eq('league_block_id', blockId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (mErr) return { ok: false, status: 500, message: `ブロックメンバーの取得に失敗しました: ${mErr.message}` };
+
+  const ids = (members ?? []).map((m) => String(m.player_id));
+  if (ids.length < 2) return { ok: false, status: 400, message: 'ブロックのメンバーが 2 人未満のため日程を作れません。' };
+
+  const schedule = generateRoundRobin(ids, { double: opts.double === true });
+
+  const { data, error } = await supabaseAdmin.rpc('league_regenerate_schedule', {
+    p_block_id: blockId,
+    p_matches: schedule.matches,
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('block_not_found')) return { ok: false, status: 404, message: 'リーグブロックが見つかりません。' };
+    if (msg.includes('results_exist')) {
+      return { ok: false, status: 409, message: '結果が入力済みの試合があるため、日程を作り直せません。' };
+    }
+    return { ok: false, status: 500, message: `日程の作り直しに失敗しました: ${msg}` };
+  }
+
+  return { ok: true, result: data as RegenerateScheduleResult, schedule };
+}
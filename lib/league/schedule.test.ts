@@ -0,0 +1,97 @@
+// lib/league/schedule.test.ts
+import { describe, expect, it } from 'vitest';
+import { generateRoundRobin, type LeagueSchedule } from './schedule';
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+const pairKey = (a: string, b: string) => [a, b].sort().join('-');
+
+/** 節ごとの出場選手（同じ節に 2 回出ていないか見る用） */
+const playersByRound = (s: LeagueSchedule) => {
+  const out = new Map<number, string[]>();
+  for (const m of s.matches) out.set(m.round_no, [...(out.get(m.round_no) ?? []), m.player_a_id, m.player_b_id]);
+  return out;
+};
+
+describe('generateRoundRobin', () => {
+  it('2 人未満は日程なし', () => {
+    expect(generateRoundRobin([])).toMatchObject({ rounds: 0, matches: [], byes: [] });
+    expect(generateRoundRobin(['p1']).back_to_back).toEqual({ p1: 0 });
+  });
+
+  it('偶数人数：n-1 節、全組み合わせがちょうど 1 回、bye なし', () => {
+    const s = generateRoundRobin(ids(6));
+    expect(s.rounds).toBe(5);
+    expect(s.matches).toHaveLength(15);
+    expect(s.byes).toEqual([]);
+    expect(new Set(s.matches.map((m) => pairKey(m.player_a_id, m.player_b_id))).size).toBe(15);
+  });
+
+  it('奇数人数：n 節、各選手ちょうど 1 回お休み', () => {
+    const s = generateRoundRobin(ids(5));
+    expect(s.rounds).toBe(5);
+    expect(s.matches).toHaveLength(10);
+    expect(s.byes.map((b) => b.player_id).sort()).toEqual(ids(5));
+    expect(new Set(s.byes.map((b) => b.round_no)).size).toBe(5);
+
+    // お休みの選手はその節に出ない
+    const byRound = playersByRound(s);
+    for (const b of s.byes) expect(byRound.get(b.round_no)).not.toContain(b.player_id);
+  });
+
+  it('同じ節に同じ選手は 1 回だけ', () => {
+    for (const n of [4, 5, 8]) {
+      for (const players of playersByRound(generateRoundRobin(ids(n))).values()) {
+        expect(new Set(players).size).toBe(players.length);
+      }
+    }
+  });
+
+  it('match_order は 1 からの通し番号、round_no は昇順', () => {
+    const s = generateRoundRobin(ids(6));
+    expect(s.matches.map((m) => m.match_order)).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+    const rounds = s.matches.map((m) => m.round_no);
+    expect([...rounds].sort((a, b) => a - b)).toEqual(rounds);
+  });
+
+  it('重複・空白の ID は除く', () => {
+    const s = generateRoundRobin(['p1', ' p2 ', 'p1', '', 'p3']);
+    expect(Object.keys(s.back_to_back).sort()).toEqual(['p1', 'p2', 'p3']);
+    expect(s.matches).toHaveLength(3);
+  });
+
+  it('double：2 巡目は A/B を入れ替えた同じ組み合わせ', () => {
+    const s = generateRoundRobin(ids(4), { double: true });
+    expect(s.rounds).toBe(6);
+    expect(s.matches).toHaveLength(12);
+
+    const first = s.matches.filter((m) => m.round_no <= 3);
+    const second = s.matches.filter((m) => m.round_no > 3);
+    const directed = (ms: typeof first) => ms.map((m) => `${m.player_a_id}>${m.player_b_id}`).sort();
+    expect(directed(second)).toEqual(first.map((m) => `${m.player_b_id}>${m.player_a_id}`).sort());
+    expect(directed(first)).not.toEqual(directed(second));
+  });
+
+  it('連戦回数は実際の並びと一致する', () => {
+    const s = generateRoundRobin(ids(6));
+    const counted: Record<string, number> = Object.fromEntries(ids(6).map((id) => [id, 0]));
+    s.matches.forEach((m, i) => {
+      const prev = s.matches[i - 1];
+      if (!prev) return;
+      for (const id of [m.player_a_id, m.player_b_id]) {
+        if (id === prev.player_a_id || id === prev.player_b_id) counted[id] += 1;
+      }
+    });
+    expect(s.back_to_back).toEqual(counted);
+  });
+
+  it('5 人以上なら節の変わり目をまたいでも連戦は起きない', () => {
+    for (const n of [5, 6, 7, 8]) {
+      expect(Object.values(generateRoundRobin(ids(n)).back_to_back).every((c) => c === 0)).toBe(true);
+    }
+  });
+
+  it('4 人は連戦が避けられないが、同じ選手に偏らせない', () => {
+    const counts = Object.values(generateRoundRobin(ids(4)).back_to_back);
+    expect(Math.max(...counts)).toBe(1);
+  });
+});
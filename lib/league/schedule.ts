@@ -0,0 +1,114 @@
+// lib/league/schedule.ts
+
+/**
+ * リーグブロックの総当たり日程（純粋関数：DB には触らない。管理画面 / API で共用）
+ * - サークル方式：1 人目を固定して残りを回す。奇数人数なら空き（bye）を 1 枠足し、空きと当たった選手はその節お休み
+ * - round_no = 節（1 始まり）、match_order = ブロック内の通し番号（1 始まり）
+ * - 節の変わり目で同じ選手が続けて試合をしないよう、節の中の並びを入れ替える（どうしても続く場合は回数が少ない選手に回す）
+ * - double = true なら 2 巡目（A/B を入れ替えた同じ組み合わせ）を後ろに付ける
+ */
+
+export type ScheduledMatch = {
+  round_no: number;
+  match_order: number;
+  player_a_id: string;
+  player_b_id: string;
+};
+
+export type ScheduledBye = {
+  round_no: number;
+  player_id: string;
+};
+
+export type LeagueSchedule = {
+  /** 節の数 */
+  rounds: number;
+  matches: ScheduledMatch[];
+  byes: ScheduledBye[];
+  /** 選手ごとの連戦回数（前の試合に続けて出る回数） */
+  back_to_back: Record<string, number>;
+};
+
+type Pair = [string, string];
+
+/** サークル方式の 1 巡分（節ごとの組と bye） */
+function circleRounds(ids: string[]): { pairs: Pair[]; bye: string | null }[] {
+  const slots: (string | null)[] = ids.length % 2 === 1 ? [...ids, null] : [...ids];
+  const n = slots.length;
+  const out: { pairs: Pair[]; bye: string | null }[] = [];
+
+  let ring = slots.slice(1);
+  for (let r = 0; r < n - 1; r++) {
+    const order = [slots[0], ...ring];
+    const pairs: Pair[] = [];
+    let bye: string | null = null;
+
+    for (let i = 0; i < n / 2; i++) {
+      const x = order[i];
+      const y = order[n - 1 - i];
+      if (x == null || y == null) {
+        bye = x ?? y;
+        continue;
+      }
+      // 固定の 1 人目が毎回 A にならないよう、節ごとに A/B を入れ替える
+      pairs.push(i === 0 && r % 2 === 1 ? [y, x] : [x, y]);
+    }
+
+    out.push({ pairs, bye });
+    ring = [ring[ring.length - 1], ...ring.slice(0, -1)];
+  }
+
+  return out;
+}
+
+/**
+ * 節の中の並び順を決める
+ * - 先頭：直前の試合に出た選手を含まない組（無ければ連戦回数の合計が少ない組）
+ * - 末尾：次の節の先頭と続きやすいので、連戦回数が少ない選手の組を回す
+ */
+function orderRound(pairs: Pair[], prev: Pair | null, b2b: Map<string, number>): Pair[] {
+  if (pairs.length <= 1) return [...pairs];
+
+  const load = (p: Pair) => (b2b.get(p[0]) ?? 0) + (b2b.get(p[1]) ?? 0);
+  const overlaps = (p: Pair) => (prev ? p.filter((id) => prev.includes(id)).length : 0);
+
+  const rest = [...pairs];
+  rest.sort((a, b) => overlaps(a) - overlaps(b) || load(a) - load(b));
+  const first = rest.shift()!;
+
+  // 残りは連戦回数の多い組から（少ない組が最後に来る）
+  rest.sort((a, b) => load(b) - load(a));
+  return [first, ...rest];
+}
+
+export function generateRoundRobin(playerIds: string[], opts: { double?: boolean } = {}): LeagueSchedule {
+  const ids = Array.from(new Set(playerIds.map((s) => String(s).trim()).filter(Boolean)));
+  const back_to_back: Record<string, number> = Object.fromEntries(ids.map((id) => [id, 0]));
+  if (ids.length < 2) return { rounds: 0, matches: [], byes: [], back_to_back };
+
+  const first = circleRounds(ids);
+  const legs = opts.double
+    ? [...first, ...first.map((r) => ({ pairs: r.pairs.map(([a, b]) => [b, a] as Pair), bye: r.bye }))]
+    : first;
+
+  const b2b = new Map<string, number>(ids.map((id) => [id, 0]));
+  const matches: ScheduledMatch[] = [];
+  const byes: ScheduledBye[] = [];
+  let prev: Pair | null = null;
+
+  legs.forEach((leg, i) => {
+    const round_no = i + 1;
+    if (leg.bye) byes.push({ round_no, player_id: leg.bye });
+
+    for (const p of orderRound(leg.pairs, prev, b2b)) {
+      if (prev) {
+        for (const id of p) if (prev.includes(id)) b2b.set(id, (b2b.get(id) ?? 0) + 1);
+      }
+      matches.push({ round_no, match_order: matches.length + 1, player_a_id: p[0], player_b_id: p[1] });
+      prev = p;
+    }
+  });
+
+  b2b.forEach((n, id) => (back_to_back[id] = n));
+  return { rounds: legs.length, matches, byes, back_to_back };
+}
@@ -0,0 +1,139 @@
+// lib/league/standings.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LEAGUE_TIEBREAKERS,
+  computeStandings,
+  isBlockComplete,
+  parseTiebreakers,
+  standingsWinner,
+  type StandingsMatch,
+} from './standings';
+
+const m = (winner: string, loser: string, ws: number | null = 11, ls: number | null = 5): StandingsMatch => ({
+  player_a_id: winner,
+  player_b_id: loser,
+  winner_id: winner,
+  loser_id: loser,
+  winner_score: ws,
+  loser_score: ls,
+});
+
+/** a と b が 2 勝で並び、直接対決は a、得失点差は b が上 */
+const h2hMatches = [
+  m('a', 'b', 11, 9),
+  m('a', 'c', 11, 9),
+  m('d', 'a', 11, 0),
+  m('b', 'c', 11, 0),
+  m('b', 'd', 11, 0),
+  m('c', 'd', 11, 9),
+];
+
+/** 3 すくみ（勝数・直接対決・得点がすべて同じ） */
+const cycle = [m('a', 'b', 11, 9), m('b', 'c', 11, 9), m('c', 'a', 11, 9)];
+
+describe('parseTiebreakers', () => {
+  it('配列・JSON 文字列・カンマ区切りを受け付ける', () => {
+    expect(parseTiebreakers(['point_diff', 'wins'])).toEqual(['point_diff', 'wins']);
+    expect(parseTiebreakers('["head_to_head","lots"]')).toEqual(['head_to_head', 'lots']);
+    expect(parseTiebreakers('wins, points_for')).toEqual(['wins', 'points_for']);
+  });
+
+  it('未知の値と重複は落とす', () => {
+    expect(parseTiebreakers(['wins', 'coin_toss', 'wins', 'lots'])).toEqual(['wins', 'lots']);
+  });
+
+  it('空・配列以外は既定の並び', () => {
+    expect(parseTiebreakers([])).toEqual(DEFAULT_LEAGUE_TIEBREAKERS);
+    expect(parseTiebreakers(['unknown'])).toEqual(DEFAULT_LEAGUE_TIEBREAKERS);
+    expect(parseTiebreakers(null)).toEqual(DEFAULT_LEAGUE_TIEBREAKERS);
+    expect(parseTiebreakers({ wins: true })).toEqual(DEFAULT_LEAGUE_TIEBREAKERS);
+  });
+});
+
+describe('computeStandings', () => {
+  it('勝敗・得失点を集計し、勝数の次は直接対決で並べる', () => {
+    const rows = computeStandings(['a', 'b', 'c', 'd'], h2hMatches);
+    expect(rows.map((r) => [r.player_id, r.rank])).toEqual([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3],
+      ['d', 4],
+    ]);
+    expect(rows[0]).toMatchObject({ wins: 2, losses: 1, points_for: 22, points_against: 29, point_diff: -7 });
+    expect(rows[0].decided_by).toBe('head_to_head');
+    expect(rows[1].point_diff).toBe(20);
+  });
+
+  it('タイブレーク順を変えれば結果も変わる', () => {
+    const rows = computeStandings(['a', 'b', 'c', 'd'], h2hMatches, { tiebreakers: ['wins', 'point_diff'] });
+    expect(rows.slice(0, 2).map((r) => [r.player_id, r.decided_by])).toEqual([
+      ['b', 'point_diff'],
+      ['a', 'point_diff'],
+    ]);
+  });
+
+  it('最後まで並べば抽選。同じシードなら毎回同じ順', () => {
+    const first = computeStandings(['a', 'b', 'c'], cycle, { seed: 'block-1' });
+    expect(first.map((r) => r.rank)).toEqual([1, 2, 3]);
+    expect(first.every((r) => r.decided_by === 'lots')).toBe(true);
+    expect(first.map((r) => r.tiebreak.lots)).toEqual([1, 2, 3]);
+
+    const again = computeStandings(['c', 'b', 'a'], [...cycle].reverse(), { seed: 'block-1' });
+    expect(again.map((r) => r.player_id)).toEqual(first.map((r) => r.player_id));
+  });
+
+  it('drawLots = false なら同順位のまま。次の順位は人数分飛ばす', () => {
+    const rows = computeStandings(['a', 'b', 'c', 'd'], [...cycle, m('a', 'd'), m('b', 'd'), m('c', 'd')], {
+      drawLots: false,
+    });
+    expect(rows.map((r) => [r.player_id, r.rank, r.decided_by])).toEqual([
+      ['a', 1, null],
+      ['b', 1, null],
+      ['c', 1, null],
+      ['d', 4, 'wins'],
+    ]);
+  });
+
+  it('def は順位表に載せず、def への勝ちは勝数と def_wins に数える', () => {
+    const rows = computeStandings(['a', 'b', 'def'], [m('a', 'def', null, null), m('b', 'a')], { defIds: ['def'] });
+    expect(rows.map((r) => r.player_id)).toEqual(['b', 'a']);
+    expect(rows[1]).toMatchObject({ wins: 1, losses: 1, def_wins: 1, points_for: 5, points_against: 11 });
+  });
+
+  it('不戦勝の少ない方を上にできる', () => {
+    const matches = [m('a', 'def', null, null), m('b', 'x'), m('x', 'a'), m('a', 'b'), m('x', 'b')];
+    const rows = computeStandings(['a', 'b', 'x', 'def'], matches, {
+      defIds: ['def'],
+      tiebreakers: ['wins', 'fewest_def_wins'],
+    });
+    // a / x が 2 勝で並び、a の 1 勝は def から
+    expect(rows.slice(0, 2).map((r) => [r.player_id, r.decided_by, r.tiebreak.fewest_def_wins])).toEqual([
+      ['x', 'fewest_def_wins', 0],
+      ['a', 'fewest_def_wins', 1],
+    ]);
+  });
+
+  it('ブロック外の選手との試合・勝者未定の試合は数えない', () => {
+    const rows = computeStandings(['a', 'b'], [m('a', 'outsider'), { ...m('a', 'b'), winner_id: null, loser_id: null }]);
+    expect(rows.every((r) => r.wins === 0 && r.losses === 0)).toBe(true);
+  });
+});
+
+describe('standingsWinner', () => {
+  it('単独 1 位だけ返す', () => {
+    expect(standingsWinner(computeStandings(['a', 'b', 'c', 'd'], h2hMatches))).toBe('a');
+    expect(standingsWinner(computeStandings(['a', 'b', 'c'], cycle, { drawLots: false }))).toBeNull();
+  });
+
+  it('まだ試合をしていなければ null', () => {
+    expect(standingsWinner([{ player_id: 'a', wins: 0, losses: 0, rank: 1 }])).toBeNull();
+  });
+});
+
+describe('isBlockComplete', () => {
+  it('全試合に勝者が入れば完了。試合なしは未完了', () => {
+    expect(isBlockComplete([{ winner_id: 'a' }, { winner_id: 'b' }])).toBe(true);
+    expect(isBlockComplete([{ winner_id: 'a' }, { winner_id: null }])).toBe(false);
+    expect(isBlockComplete([])).toBe(false);
+  });
+});
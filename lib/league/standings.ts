@@ -0,0 +1,259 @@
+// lib/league/standings.ts
+
+/**
+ * リーグブロックの順位計算（純粋関数：DB には触らない。公開ページ / 管理 API で共用）
+ * - 同順位の並べ方は大会ごとのタイブレーク順（tournaments.league_tiebreakers）で決める
+ * - 基準を 1 つ当てて同じ値のグループに分け、グループが小さくなったら先頭の基準からやり直す
+ *   （直接対決は「残った選手同士」で数え直すため。勝数などの全体の値は同じなので結果は変わらない）
+ * - 最後まで分かれなければ同順位（rank が同じ）。抽選（lots）はシードから決まるので毎回同じ結果になる
+ *   （未消化の試合があるうちは drawLots = false で抽選を飛ばし、途中経過が抽選で並ばないようにする）
+ * - def（ダミー選手）は順位表に載せない。def に勝った試合は勝ちとして数え、def_wins にも足す
+ */
+
+export const LEAGUE_TIEBREAKERS = [
+  'wins',
+  'head_to_head',
+  'point_diff',
+  'points_for',
+  'fewest_def_wins',
+  'lots',
+] as const;
+
+export type LeagueTiebreaker = (typeof LEAGUE_TIEBREAKERS)[number];
+
+export const DEFAULT_LEAGUE_TIEBREAKERS: LeagueTiebreaker[] = [...LEAGUE_TIEBREAKERS];
+
+export const TIEBREAKER_LABELS: Record<LeagueTiebreaker, string> = {
+  wins: '勝数',
+  head_to_head: '直接対決',
+  point_diff: '得失点差',
+  points_for: '総得点',
+  fewest_def_wins: '不戦勝の少なさ',
+  lots: '抽選',
+};
+
+export function isLeagueTiebreaker(v: unknown): v is LeagueTiebreaker {
+  return typeof v === 'string' && (LEAGUE_TIEBREAKERS as readonly string[]).includes(v);
+}
+
+/** DB / リクエストの値を並び順として正規化（未知の値・重複は落とす。空なら既定値） */
+export function parseTiebreakers(v: unknown): LeagueTiebreaker[] {
+  let raw: unknown = v;
+  if (typeof v === 'string') {
+    try {
+      raw = JSON.parse(v);
+    } catch {
+      raw = v.split(',');
+    }
+  }
+  if (!Array.isArray(raw)) return [...DEFAULT_LEAGUE_TIEBREAKERS];
+
+  const out: LeagueTiebreaker[] = [];
+  for (const x of raw) {
+    const key = typeof x === 'string' ? x.trim() : x;
+    if (isLeagueTiebreaker(key) && !out.includes(key)) out.push(key);
+  }
+  return out.length ? out : [...DEFAULT_LEAGUE_TIEBREAKERS];
+}
+
+export type StandingsMatch = {
+  player_a_id: string;
+  player_b_id: string;
+  winner_id: string | null;
+  loser_id: string | null;
+  winner_score: number | null;
+  loser_score: number | null;
+};
+
+export type StandingRow = {
+  player_id: string;
+  /** 1 始まり。分けきれなかった選手同士は同じ値 */
+  rank: number;
+  wins: number;
+  losses: number;
+  points_for: number;
+  points_against: number;
+  point_diff: number;
+  def_wins: number;
+  /** この順位を決めた基準（null = 単独で決まらず同順位 / 比べる相手がいない） */
+  decided_by: LeagueTiebreaker | null;
+  /** 比べたときの値（直接対決は最後に比べたグループ内の勝数、抽選は引いた順番） */
+  tiebreak: Partial<Record<LeagueTiebreaker, number>>;
+};
+
+export type StandingsOptions = {
+  tiebreakers?: LeagueTiebreaker[];
+  /** def（ダミー選手）の ID */
+  defIds?: Iterable<string>;
+  /** 抽選のシード（ブロック ID を渡す） */
+  seed?: string;
+  /** false なら抽選を使わない（途中経過の表示用） */
+  drawLots?: boolean;
+};
+
+/** 抽選用の決定的ハッシュ（FNV-1a 32bit） */
+function lotValue(seed: string, playerId: string): number {
+  let h = 0x811c9dc5;
+  const s = `${seed}:${playerId}`;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function computeStandings(
+  memberIds: string[],
+  matches: StandingsMatch[],
+  opts: StandingsOptions = {},
+): StandingRow[] {
+  const base = opts.tiebreakers?.length ? opts.tiebreakers : DEFAULT_LEAGUE_TIEBREAKERS;
+  const order = opts.drawLots === false ? base.filter((k) => k !== 'lots') : base;
+  const defIds = new Set(opts.defIds ?? []);
+  const seed = opts.seed ?? '';
+
+  const ids = Array.from(new Set(memberIds.map(String).filter((id) => id && !defIds.has(id))));
+  const rows = new Map<string, StandingRow>(
+    ids.map((player_id) => [
+      player_id,
+      {
+        player_id,
+        rank: 0,
+        wins: 0,
+        losses: 0,
+        points_for: 0,
+        points_against: 0,
+        point_diff: 0,
+        def_wins: 0,
+        decided_by: null,
+        tiebreak: {},
+      },
+    ]),
+  );
+
+  // 直接対決：勝者 → 敗者 → 勝った回数
+  const beat = new Map<string, Map<string, number>>();
+
+  for (const m of matches) {
+    if (!m.winner_id || !m.loser_id) continue;
+    const w = String(m.winner_id);
+    const l = String(m.loser_id);
+    const wr = rows.get(w);
+    const lr = rows.get(l);
+    const lDef = defIds.has(l);
+    if (!wr && !lr) continue;
+    if ((!wr && !defIds.has(w)) || (!lr && !lDef)) continue; // ブロック外の選手との試合は無視
+
+    const ws = Number(m.winner_score);
+    const ls = Number(m.loser_score);
+    const hasScore = m.winner_score != null && m.loser_score != null && Number.isFinite(ws) && Number.isFinite(ls);
+
+    if (wr) {
+      wr.wins += 1;
+      if (lDef) wr.def_wins += 1;
+      if (hasScore) {
+        wr.points_for += ws;
+        wr.points_against += ls;
+      }
+    }
+    if (lr) {
+      lr.losses += 1;
+      if (hasScore) {
+        lr.points_for += ls;
+        lr.points_against += ws;
+      }
+    }
+    if (wr && lr) {
+      const inner = beat.get(w) ?? new Map<string, number>();
+      inner.set(l, (inner.get(l) ?? 0) + 1);
+      beat.set(w, inner);
+    }
+  }
+
+  rows.forEach((r) => (r.point_diff = r.points_for - r.points_against));
+
+  /** 大きいほど上位になる値 */
+  const valueOf = (key: LeagueTiebreaker, r: StandingRow, group: string[]): number => {
+    switch (key) {
+      case 'wins':
+        return r.wins;
+      case 'head_to_head': {
+        const inner = beat.get(r.player_id);
+        return inner ? group.reduce((n, id) => n + (inner.get(id) ?? 0), 0) : 0;
+      }
+      case 'point_diff':
+        return r.point_diff;
+      case 'points_for':
+        return r.points_for;
+      case 'fewest_def_wins':
+        return -r.def_wins;
+      case 'lots':
+        return -lotValue(seed, r.player_id);
+    }
+  };
+
+  /** 表示用の値（不戦勝は回数、抽選は引いた順番で残す） */
+  const shownValue = (key: LeagueTiebreaker, v: number, group: number[]): number => {
+    if (key === 'fewest_def_wins') return -v;
+    if (key === 'lots') return group.filter((x) => x > v).length + 1;
+    return v;
+  };
+
+  // 上位から順に「同順位のまとまり」を積む
+  const places: string[][] = [];
+
+  const resolve = (group: string[], from: number) => {
+    if (group.length === 1) {
+      places.push(group);
+      return;
+    }
+    if (from >= order.length) {
+      // 分けきれない：同順位（並びは ID で固定）
+      group.forEach((id) => (rows.get(id)!.decided_by = null));
+      places.push([...group].sort((a, b) => a.localeCompare(b)));
+      return;
+    }
+
+    const key = order[from];
+    const values = new Map(group.map((id) => [id, valueOf(key, rows.get(id)!, group)]));
+    const all = group.map((id) => values.get(id)!);
+    group.forEach((id) => (rows.get(id)!.tiebreak[key] = shownValue(key, values.get(id)!, all)));
+
+    const distinct = Array.from(new Set(all)).sort((a, b) => b - a);
+    if (distinct.length === 1) {
+      resolve(group, from + 1);
+      return;
+    }
+
+    for (const v of distinct) {
+      const sub = group.filter((id) => values.get(id) === v);
+      if (sub.length === 1) rows.get(sub[0])!.decided_by = key;
+      // 小さくなったグループは先頭の基準から比べ直す（直接対決を残った選手同士で数え直す）
+      resolve(sub, 0);
+    }
+  };
+
+  resolve(ids, 0);
+
+  // 競技順位（同順位の次は人数分飛ばす）
+  const ranked: StandingRow[] = [];
+  for (const place of places) {
+    const rank = ranked.length + 1;
+    for (const id of place) ranked.push({ ...rows.get(id)!, rank });
+  }
+  return ranked;
+}
+
+/** 単独 1 位の選手（同率 1 位・まだ誰も勝っていない場合は null） */
+export function standingsWinner(
+  rows: (Pick<StandingRow, 'player_id' | 'wins' | 'losses'> & { rank?: number | null })[],
+): string | null {
+  const top = rows.filter((r) => r.rank === 1);
+  if (top.length !== 1 || top[0].wins + top[0].losses === 0) return null;
+  return top[0].player_id;
+}
+
+/** ブロックの全試合に勝者が入っているか（試合が無いブロックは未完了扱い） */
+export function isBlockComplete(matches: Pick<StandingsMatch, 'winner_id'>[]): boolean {
+  return matches.length > 0 && matches.every((m) => !!m.winner_id);
+}
@@ -0,0 +1,655 @@
+// lib/matches/confirmation.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { applyRatingMultiplier, calcMatchRating, ZERO_MATCH_RATING, type MatchRatingResult } from '@/lib/rating/strategies';
+import { loadAutoConfirmHours, loadRatingSettings, loadTournamentMultiplier } from '@/lib/rating/config';
+import { calcDoublesRating } from '@/lib/rating/doubles';
+import { applyTeamRating } from '@/lib/rating/teamRating';
+import { awardAchievementsSafe } from '@/lib/achievements/award';
+import { isDoublesMode, pairName } from './doubles';
+
+/**
+ * 試合結果の確認フロー
+ * - 一般ユーザーの報告は status='submitted'（相手の確認待ち）で登録し、RP/HC はまだ動かさない
+ * - 相手側が確認 → finalizeMatch で確定（ここで初めて RP/HC・勝敗数を反映）
+ * - 相手側が異議 → status='disputed'（管理画面のキューへ）
+ * - ダブルスも同じ流れ（4 人は match_players。RP/HC はペア平均で計算して 2 人で分ける）
+ * - 確認されないまま ranking_config.auto_confirm_hours を過ぎたら自動確定（/api/cron/auto-confirm から毎時）
+ * - 確定したら出場選手の実績バッジを評価する（lib/achievements/award）
+ *
+ * ※ 'pending' はリーグの「未実施の試合」で使っているので、確認待ちには使わない
+ */
+
+type AnyRow = Record<string, any>;
+
+export const MATCH_STATUS_SUBMITTED = 'submitted';
+export const MATCH_STATUS_DISPUTED = 'disputed';
+export const MATCH_STATUS_FINALIZED = 'finalized';
+export const MATCH_STATUS_VOIDED = 'voided';
+
+/**
+ * RP/HC・勝敗数に数えない状態（リプレイ・対戦成績・スタッツなどの集計はこれで弾く）
+ * - void_match の「未反映」判定（pending/scheduled/draft/submitted/disputed/canceled/cancelled）+ 無効化済み
+ */
+export const NON_APPLIED_STATUSES: ReadonlySet<string> = new Set([
+  'pending',
+  'scheduled',
+  'draft',
+  MATCH_STATUS_SUBMITTED,
+  MATCH_STATUS_DISPUTED,
+  'canceled',
+  'cancelled',
+  MATCH_STATUS_VOIDED,
+  'void',
+]);
+
+/** まだ RP/HC を反映していない（確定・無効化できる）状態 */
+export const UNAPPLIED_STATUSES = [MATCH_STATUS_SUBMITTED, MATCH_STATUS_DISPUTED];
+
+export type MatchActionResult<T = AnyRow> =
+  | ({ ok: true } & T)
+  | { ok: false; status: 400 | 403 | 404 | 409 | 500; message: string };
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+function isMissingColumnErrorMessage(msg: string, col: string) {
+  const m = String(msg || '').toLowerCase();
+  const c = col.toLowerCase();
+  return (
+    (m.includes('schema cache') && m.includes(`'${c}'`)) ||
+    (m.includes('does not exist') && m.includes('column') && m.includes(c))
+  );
+}
+
+// ★列が無ければ落として再試行（確認フロー用の列は環境により未作成のことがある）
+async function safeUpdateMatch(matchId: string, patch: AnyRow) {
+  let current = { ...patch };
+  const candidates = [
+    'winner_points_delta',
+    'loser_points_delta',
+    'winner_handicap_delta',
+    'loser_handicap_delta',
+    'winner_points_change',
+    'loser_points_change',
+    'winner_handicap_change',
+    'loser_handicap_change',
+    'rating_algorithm',
+    'rating_multiplier',
+    'is_verified',
+    'confirmed_by',
+    'confirmed_at',
+    'disputed_by',
+    'disputed_at',
+    'dispute_reason',
+    'end_reason',
+    'finish_reason',
+    'affects_rating',
+  ];
+
+  for (let i = 0; i < 24; i++) {
+    const { error } = await supabaseAdmin.from('matches').update(current).eq('id', matchId);
+    if (!error) return { ok: true as const };
+
+    const msg = String(error.message || '');
+    const missing = candidates.find((c) => c in current && isMissingColumnErrorMessage(msg, c));
+    if (!missing) return { ok: false as const, message: msg };
+
+    const { [missing]: _, ...rest } = current;
+    current = rest;
+  }
+  return { ok: false as const, message: 'update retry exceeded' };
+}
+
+/** status を「from のどれか → to」に条件付きで切り替える（二重確定の防止） */
+async function claimStatus(matchId: string, from: string[], to: string) {
+  const { data, error } = await supabaseAdmin
+    .from('matches')
+    .update({ status: to })
+    .eq('id', matchId)
+    .in('status', from)
+    .select('id');
+  if (error) return { ok: false as const, message: error.message };
+  return { ok: (data ?? []).length > 0, message: '' };
+}
+
+export async function isMemberOfTeam(playerId: string, teamId: string): Promise<boolean> {
+  // あなたの画面が team_members を使っているので、まずそこを優先（最短）
+  const { data, error } = await supabaseAdmin
+    .from('team_members')
+    .select('team_id')
+    .eq('player_id', playerId)
+    .eq('team_id', teamId)
+    .limit(1);
+  if (!error && data && data.length > 0) return true;
+
+  // 互換候補
+  const candidates = [
+    { table: 'players_teams', playerCol: 'player_id', teamCol: 'team_id' },
+    { table: 'team_players', playerCol: 'player_id', teamCol: 'team_id' },
+    { table: 'memberships', playerCol: 'player_id', teamCol: 'team_id' },
+  ] as const;
+
+  for (const c of candidates) {
+    const { data: d, error: e } = await supabaseAdmin
+      .from(c.table)
+      .select(c.teamCol)
+      .eq(c.playerCol, playerId)
+      .eq(c.teamCol, teamId)
+      .limit(1);
+    if (!e && d && d.length > 0) return true;
+  }
+  return false;
+}
+
+/** ★チーム戦: teams テーブルの勝敗/試合数を “存在する列だけ” 更新 */
+export async function bumpTeamStatsSafe(winnerTeamId: string, loserTeamId: string) {
+  try {
+    const [wRes, lRes] = await Promise.all([
+      supabaseAdmin.from('teams').select('*').eq('id', winnerTeamId).maybeSingle(),
+      supabaseAdmin.from('teams').select('*').eq('id', loserTeamId).maybeSingle(),
+    ]);
+    const w = wRes.data as AnyRow | null;
+    const l = lRes.data as AnyRow | null;
+    if (!w || !l) return;
+
+    const buildPatch = (row: AnyRow, winInc: number, lossInc: number) => {
+      const patch: AnyRow = {};
+      if ('wins' in row) patch.wins = toInt(row.wins, 0) + winInc;
+      if ('losses' in row) patch.losses = toInt(row.losses, 0) + lossInc;
+      if ('played' in row) patch.played = toInt(row.played, 0) + 1;
+      if ('matches_played' in row) patch.matches_played = toInt(row.matches_played, 0) + 1;
+      if ('games_played' in row) patch.games_played = toInt(row.games_played, 0) + 1;
+
+      if ('win_pct' in row) {
+        const winsNow = 'wins' in patch ? toInt(patch.wins, 0) : ('wins' in row ? toInt(row.wins, 0) : null);
+        let playedNow: number | null = null;
+
+        if ('played' in patch) playedNow = toInt(patch.played, 0);
+        else if ('matches_played' in patch) playedNow = toInt(patch.matches_played, 0);
+        else if ('games_played' in patch) playedNow = toInt(patch.games_played, 0);
+        else if ('played' in row) playedNow = toInt(row.played, 0);
+        else if ('matches_played' in row) playedNow = toInt(row.matches_played, 0);
+        else if ('games_played' in row) playedNow = toInt(row.games_played, 0);
+
+        if (winsNow != null && playedNow != null && playedNow > 0) patch.win_pct = winsNow / playedNow;
+      }
+
+      return patch;
+    };
+
+    const wPatch = buildPatch(w, 1, 0);
+    const lPatch = buildPatch(l, 0, 1);
+
+    await Promise.all([
+      Object.keys(wPatch).length ? supabaseAdmin.from('teams').update(wPatch).eq('id', winnerTeamId) : Promise.resolve(),
+      Object.keys(lPatch).length ? supabaseAdmin.from('teams').update(lPatch).eq('id', loserTeamId) : Promise.resolve(),
+    ]);
+  } catch {
+    // stats更新は “できたらやる”。ここで 500 にしない。
+  }
+}
+
+function isTeamsMode(match: AnyRow) {
+  return String(match.mode ?? '').toLowerCase().startsWith('team');
+}
+
+/** match_teams から勝ち/負けチームを引く（winner_team_no / loser_team_no で対応付け） */
+export async function loadMatchTeams(match: AnyRow) {
+  const { data } = await supabaseAdmin.from('match_teams').select('team_id,team_no').eq('match_id', match.id);
+  const rows = (data ?? []) as AnyRow[];
+  const byNo = (no: unknown) => rows.find((r) => toInt(r.team_no, -1) === toInt(no, -2))?.team_id ?? null;
+  return {
+    winnerTeamId: (match.winner_team_id ?? byNo(match.winner_team_no ?? 1)) as string | null,
+    loserTeamId: (match.loser_team_id ?? byNo(match.loser_team_no ?? 2)) as string | null,
+  };
+}
+
+/** ダブルスの 2 ペア（match_players の side_no 1=勝ち / 2=負け、slot_no 順） */
+export async function loadDoublesSides(matchId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('match_players')
+    .select('player_id,side_no,slot_no')
+    .eq('match_id', matchId)
+    .is('rubber_no', null)
+    .order('slot_no', { ascending: true });
+  const rows = (data ?? []) as AnyRow[];
+  return {
+    error: error?.message ?? null,
+    winners: rows.filter((r) => toInt(r.side_no, 0) === 1).map((r) => String(r.player_id)),
+    losers: rows.filter((r) => toInt(r.side_no, 0) === 2).map((r) => String(r.player_id)),
+  };
+}
+
+/** 確認画面/管理キュー表示用に選手名・チーム名を付ける（団体戦は team_no 1=勝ち / 2=負け、ダブルスは「A / B」） */
+export async function withMatchNames(rows: AnyRow[]) {
+  if (!rows.length) return rows;
+
+  const doublesIds = rows.filter((r) => isDoublesMode(r.mode)).map((r) => r.id);
+  const { data: dmp } = doublesIds.length
+    ? await supabaseAdmin
+        .from('match_players')
+        .select('match_id,player_id,side_no,slot_no')
+        .in('match_id', doublesIds)
+        .is('rubber_no', null)
+        .order('slot_no', { ascending: true })
+    : { data: [] as AnyRow[] };
+
+  const playerIds = Array.from(
+    new Set(
+      [
+        ...rows.flatMap((r) => [r.winner_id, r.loser_id, r.reporter_id, r.disputed_by]),
+        ...(dmp ?? []).map((x: AnyRow) => x.player_id),
+      ].filter(Boolean),
+    ),
+  );
+  const { data: players } = await supabaseAdmin.from('players').select('id,handle_name').in('id', playerIds);
+  const nameOf = new Map<string, string>((players ?? []).map((p: AnyRow) => [String(p.id), String(p.handle_name ?? '')]));
+
+  const matchIds = rows.map((r) => r.id);
+  const { data: mts } = await supabaseAdmin.from('match_teams').select('match_id,team_id,team_no').in('match_id', matchIds);
+  const teamIds = Array.from(new Set((mts ?? []).map((x: AnyRow) => String(x.team_id))));
+  const { data: teams } = teamIds.length
+    ? await supabaseAdmin.from('teams').select('id,name').in('id', teamIds)
+    : { data: [] as AnyRow[] };
+  const teamNameOf = new Map<string, string>((teams ?? []).map((t: AnyRow) => [String(t.id), String(t.name ?? '')] as [string, string]));
+  const teamName = (matchId: string, no: number) => {
+    const t = (mts ?? []).find((x: AnyRow) => x.match_id === matchId && Number(x.team_no) === no) as AnyRow | undefined;
+    return t ? teamNameOf.get(String(t.team_id)) ?? null : null;
+  };
+
+  const pairOf = (matchId: string, side: number) => {
+    const ids = (dmp ?? []).filter((x: AnyRow) => x.match_id === matchId && Number(x.side_no) === side);
+    return ids.length ? pairName(ids.map((x: AnyRow) => nameOf.get(String(x.player_id)))) : null;
+  };
+
+  return rows.map((r) => {
+    const teams = String(r.mode ?? '').toLowerCase().startsWith('team');
+    const doubles = isDoublesMode(r.mode);
+    return {
+      ...r,
+      mode: teams ? 'teams' : doubles ? 'doubles' : 'singles',
+      winner_name:
+        (teams ? teamName(r.id, 1) : doubles ? pairOf(r.id, 1) : null) ?? nameOf.get(String(r.winner_id)) ?? null,
+      loser_name:
+        (teams ? teamName(r.id, 2) : doubles ? pairOf(r.id, 2) : null) ?? nameOf.get(String(r.loser_id)) ?? null,
+      reporter_name: nameOf.get(String(r.reporter_id)) ?? null,
+      disputed_by_name: r.disputed_by ? nameOf.get(String(r.disputed_by)) ?? null : null,
+    };
+  });
+}
+
+async function loadMatch(matchId: string) {
+  const { data, error } = await supabaseAdmin.from('matches').select('*').eq('id', matchId).maybeSingle();
+  if (error) return { ok: false as const, message: error.message };
+  return { ok: true as const, match: (data ?? null) as AnyRow | null };
+}
+
+/**
+ * 確認/異議を出せるのは「報告者ではない側」
+ * - 個人戦: 勝者/敗者のうち報告者でない方
+ * - 団体戦: 試合に出たチームのうち、報告者が所属していないチームのメンバー
+ * - ダブルス: 報告者のいないペアの 2 人（報告者が出場していなければ 4 人とも）
+ */
+export async function canRespondToMatch(match: AnyRow, playerId: string): Promise<boolean> {
+  const reporterId = String(match.reporter_id ?? match.submitted_by ?? '');
+  if (!playerId || playerId === reporterId) return false;
+
+  if (isDoublesMode(match.mode)) {
+    const { winners, losers } = await loadDoublesSides(String(match.id));
+    for (const side of [winners, losers]) {
+      if (reporterId && side.includes(reporterId)) continue;
+      if (side.includes(playerId)) return true;
+    }
+    return false;
+  }
+
+  if (!isTeamsMode(match)) {
+    return playerId === match.winner_id || playerId === match.loser_id;
+  }
+
+  const { winnerTeamId, loserTeamId } = await loadMatchTeams(match);
+  for (const teamId of [winnerTeamId, loserTeamId]) {
+    if (!teamId) continue;
+    if (reporterId && (await isMemberOfTeam(reporterId, teamId))) continue;
+    if (await isMemberOfTeam(playerId, teamId)) return true;
+  }
+  return false;
+}
+
+export type FinalizeResult = MatchActionResult<{
+  match_id: string;
+  mode: 'singles' | 'teams' | 'doubles';
+  affects_rating: boolean;
+  rating_multiplier: number;
+  rating: MatchRatingResult;
+}>;
+
+/** 計算中に別の試合で RP/HC が動いたときの読み直し回数 */
+const FINALIZE_ATTEMPTS = 3;
+
+type FinalizePlayer = {
+  id: string;
+  won: boolean;
+  points_before: number;
+  handicap_before: number;
+  points_delta: number;
+  handicap_delta: number;
+};
+
+type FinalizePayload = {
+  match: AnyRow;
+  players: FinalizePlayer[];
+  glicko: Array<{ id: string; rating_deviation: number; rating_volatility: number }> | null;
+  matchPlayers: Array<{ player_id: string; points_delta: number; handicap_delta: number }>;
+};
+
+type FinalizeApplyResult =
+  | { ok: true }
+  | { ok: false; conflict: boolean; status: 404 | 409 | 500; message: string };
+
+/** RPC match_finalize_apply：status・RP/HC・勝敗数・変動を 1 トランザクションで書き込む */
+async function applyFinalize(matchId: string, payload: FinalizePayload): Promise<FinalizeApplyResult> {
+  const { error } = await supabaseAdmin.rpc('match_finalize_apply', {
+    p_match_id: matchId,
+    p_from_statuses: UNAPPLIED_STATUSES,
+    p_match: payload.match,
+    p_players: payload.players,
+    p_glicko: payload.glicko,
+    p_match_players: payload.matchPlayers,
+  });
+  if (!error) return { ok: true };
+
+  const msg = String(error.message || '');
+  if (msg.includes('rating_conflict')) {
+    return { ok: false, conflict: true, status: 409, message: '他の試合の反映と重なりました。もう一度お試しください。' };
+  }
+  if (msg.includes('match_not_found')) return { ok: false, conflict: false, status: 404, message: '試合が見つかりません。' };
+  if (msg.includes('match_not_unapplied')) {
+    return { ok: false, conflict: false, status: 409, message: 'この試合は確認待ちではありません。' };
+  }
+  if (msg.includes('player_not_found') || msg.includes('match_players_mismatch')) {
+    return { ok: false, conflict: false, status: 500, message: `出場選手の取得に失敗しました: ${msg}` };
+  }
+  return { ok: false, conflict: false, status: 500, message: `試合更新に失敗しました: ${msg}` };
+}
+
+const finalizePlayer = (p: AnyRow, won: boolean, pointsDelta: number, handicapDelta: number): FinalizePlayer => ({
+  id: String(p.id),
+  won,
+  points_before: toInt(p.ranking_points, 0),
+  handicap_before: toInt(p.handicap, 0),
+  points_delta: pointsDelta,
+  handicap_delta: handicapDelta,
+});
+
+const matchDeltaPatch = (delta: MatchRatingResult, rating_multiplier: number) => ({
+  winner_points_delta: delta.winnerPointsChange,
+  loser_points_delta: delta.loserPointsChange,
+  winner_handicap_delta: delta.winnerHandicapChange,
+  loser_handicap_delta: delta.loserHandicapChange,
+  rating_algorithm: delta.algorithm,
+  rating_multiplier,
+});
+
+/**
+ * 確認待ち/異議ありの試合を確定し、RP/HC・勝敗数を反映する
+ * - 書き込みは RPC match_finalize_apply の 1 トランザクション（status を切り替えるのも同じ RPC。二重確定しない）
+ * - 計算に使った RP/HC がその間に動いていたら読み直して計算し直す
+ * @param confirmedBy 確認した人（自動確定は null）
+ */
+export async function finalizeMatch(matchId: string, opts: { confirmedBy: string | null }): Promise<FinalizeResult> {
+  const loaded = await loadMatch(matchId);
+  if (!loaded.ok) return { ok: false, status: 500, message: `試合取得に失敗しました: ${loaded.message}` };
+  const m = loaded.match;
+  if (!m) return { ok: false, status: 404, message: '試合が見つかりません。' };
+  if (!UNAPPLIED_STATUSES.includes(String(m.status))) {
+    return { ok: false, status: 409, message: 'この試合は確認待ちではありません。' };
+  }
+
+  const confirmMeta = { confirmed_by: opts.confirmedBy };
+
+  // ===================== Teams（個人レートは動かさない。チームレーティングだけ動かす） =====================
+  if (isTeamsMode(m)) {
+    const applied = await applyFinalize(matchId, { match: confirmMeta, players: [], glicko: null, matchPlayers: [] });
+    if (applied.ok === false) return { ok: false, status: applied.status, message: applied.message };
+
+    const { winnerTeamId, loserTeamId } = await loadMatchTeams(m);
+    if (winnerTeamId && loserTeamId) {
+      await bumpTeamStatsSafe(winnerTeamId, loserTeamId);
+      await applyTeamRating(matchId, winnerTeamId, loserTeamId);
+    }
+
+    return {
+      ok: true,
+      match_id: matchId,
+      mode: 'teams',
+      affects_rating: false,
+      rating_multiplier: 1,
+      rating: ZERO_MATCH_RATING,
+    };
+  }
+
+  // ★ 方式・係数は ranking_config / rating_config（管理画面で編集）から
+  const ratingSettings = await loadRatingSettings(supabaseAdmin);
+  // ★ 大会の試合は tournaments.bonus_coefficient を RP 変動に掛ける
+  const { multiplier } = await loadTournamentMultiplier(supabaseAdmin, {
+    tournamentId: m.tournament_id,
+    leagueBlockId: m.league_block_id,
+  });
+  const affects_rating = m.affects_rating !== false;
+  const rating_multiplier = affects_rating ? multiplier : 1;
+  const scoreDiff = Math.max(1, toInt(m.winner_score, 15) - toInt(m.loser_score, 0));
+
+  // ===================== Doubles =====================
+  if (isDoublesMode(m.mode)) {
+    return finalizeDoubles(m, { confirmMeta, ratingSettings, affects_rating, rating_multiplier, scoreDiff });
+  }
+
+  // ===================== Singles =====================
+  const winner_id = String(m.winner_id ?? '');
+  const loser_id = String(m.loser_id ?? '');
+
+  let last: FinalizeApplyResult = { ok: false, conflict: false, status: 500, message: '試合更新に失敗しました。' };
+  for (let attempt = 0; attempt < FINALIZE_ATTEMPTS; attempt++) {
+    const { data: players, error: pErr } = await supabaseAdmin.from('players').select('*').in('id', [winner_id, loser_id]);
+    const w = players?.find((p) => p.id === winner_id);
+    const l = players?.find((p) => p.id === loser_id);
+    if (pErr || !w || !l) {
+      return { ok: false, status: 500, message: `プレイヤー取得に失敗しました: ${pErr?.message ?? 'not found'}` };
+    }
+
+    const delta = affects_rating
+      ? applyRatingMultiplier(
+          calcMatchRating(ratingSettings, {
+            winnerPoints: toInt(w.ranking_points, 0),
+            loserPoints: toInt(l.ranking_points, 0),
+            winnerHandicap: toInt(w.handicap, 0),
+            loserHandicap: toInt(l.handicap, 0),
+            scoreDifference: scoreDiff,
+            winnerGlicko: { deviation: w.rating_deviation, volatility: w.rating_volatility },
+            loserGlicko: { deviation: l.rating_deviation, volatility: l.rating_volatility },
+          }),
+          rating_multiplier,
+        )
+      : ZERO_MATCH_RATING;
+
+    // Glicko-2 のときだけ RD / volatility も同じ RPC で更新（反映前の値は matches.glicko_before に残る）
+    const glicko = [
+      { id: winner_id, state: delta.winnerGlicko },
+      { id: loser_id, state: delta.loserGlicko },
+    ].flatMap(({ id, state }) =>
+      state ? [{ id, rating_deviation: state.deviation, rating_volatility: state.volatility }] : [],
+    );
+
+    last = await applyFinalize(matchId, {
+      match: { ...confirmMeta, ...matchDeltaPatch(delta, rating_multiplier) },
+      players: [
+        finalizePlayer(w, true, delta.winnerPointsChange, delta.winnerHandicapChange),
+        finalizePlayer(l, false, delta.loserPointsChange, delta.loserHandicapChange),
+      ],
+      glicko: glicko.length ? glicko : null,
+      matchPlayers: [],
+    });
+    if (last.ok === true) {
+      await awardAchievementsSafe([winner_id, loser_id]);
+      return { ok: true, match_id: matchId, mode: 'singles', affects_rating, rating_multiplier, rating: delta };
+    }
+    if (!last.conflict) break;
+  }
+
+  return { ok: false, status: last.status, message: last.message };
+}
+
+/** ダブルスの確定（finalizeMatch から。書き込みは同じ RPC、選手ごとの変動は match_players にも残す） */
+async function finalizeDoubles(
+  m: AnyRow,
+  ctx: {
+    confirmMeta: AnyRow;
+    ratingSettings: Awaited<ReturnType<typeof loadRatingSettings>>;
+    affects_rating: boolean;
+    rating_multiplier: number;
+    scoreDiff: number;
+  },
+): Promise<FinalizeResult> {
+  const matchId = String(m.id);
+  const { affects_rating, rating_multiplier } = ctx;
+
+  const sides = await loadDoublesSides(matchId);
+  const ids = [...sides.winners, ...sides.losers];
+  if (sides.error || sides.winners.length !== 2 || sides.losers.length !== 2) {
+    return { ok: false, status: 500, message: `ペアの取得に失敗しました: ${sides.error ?? 'not found'}` };
+  }
+
+  let last: FinalizeApplyResult = { ok: false, conflict: false, status: 500, message: '試合更新に失敗しました。' };
+  for (let attempt = 0; attempt < FINALIZE_ATTEMPTS; attempt++) {
+    const { data: players, error: pErr } = await supabaseAdmin.from('players').select('*').in('id', ids);
+    const byId = new Map((players ?? []).map((p: AnyRow) => [String(p.id), p]));
+    if (pErr || ids.some((id) => !byId.has(id))) {
+      return { ok: false, status: 500, message: `ペアの取得に失敗しました: ${pErr?.message ?? 'not found'}` };
+    }
+
+    const rated = (id: string) => {
+      const p = byId.get(id)!;
+      return { id, points: toInt(p.ranking_points, 0), handicap: toInt(p.handicap, 0) };
+    };
+    const result = affects_rating
+      ? calcDoublesRating(ctx.ratingSettings, {
+          winners: sides.winners.map(rated),
+          losers: sides.losers.map(rated),
+          scoreDifference: ctx.scoreDiff,
+          multiplier: rating_multiplier,
+        })
+      : {
+          pair: ZERO_MATCH_RATING,
+          players: ids.map((id) => ({
+            player_id: id,
+            side: sides.winners.includes(id) ? ('winner' as const) : ('loser' as const),
+            pointsChange: 0,
+            handicapChange: 0,
+          })),
+        };
+
+    const delta = result.pair;
+    last = await applyFinalize(matchId, {
+      match: { ...ctx.confirmMeta, ...matchDeltaPatch(delta, rating_multiplier) },
+      players: result.players.map((d) =>
+        finalizePlayer(byId.get(d.player_id)!, d.side === 'winner', d.pointsChange, d.handicapChange),
+      ),
+      glicko: null,
+      matchPlayers: result.players.map((d) => ({
+        player_id: d.player_id,
+        points_delta: d.pointsChange,
+        handicap_delta: d.handicapChange,
+      })),
+    });
+    if (last.ok === true) {
+      await awardAchievementsSafe(ids);
+      return { ok: true, match_id: matchId, mode: 'doubles', affects_rating, rating_multiplier, rating: delta };
+    }
+    if (!last.conflict) break;
+  }
+
+  return { ok: false, status: last.status, message: last.message };
+}
+
+/** 相手側からの異議（RP/HC は動かさないまま管理者キューへ） */
+export async function disputeMatch(
+  matchId: string,
+  opts: { disputedBy: string; reason: string },
+): Promise<MatchActionResult<{ match_id: string }>> {
+  const claim = await claimStatus(matchId, [MATCH_STATUS_SUBMITTED], MATCH_STATUS_DISPUTED);
+  if (claim.message) return { ok: false, status: 500, message: `試合更新に失敗しました: ${claim.message}` };
+  if (!claim.ok) return { ok: false, status: 409, message: 'この試合は確認待ちではありません。' };
+
+  const up = await safeUpdateMatch(matchId, {
+    disputed_by: opts.disputedBy,
+    disputed_at: new Date().toISOString(),
+    dispute_reason: opts.reason || null,
+  });
+  if (!up.ok) return { ok: false, status: 500, message: `試合更新に失敗しました: ${up.message}` };
+  return { ok: true, match_id: matchId };
+}
+
+/** 未反映の試合の結果を書き換える（管理者の「修正して確定」用。確定は呼び出し側で finalizeMatch） */
+export async function editUnappliedMatch(
+  matchId: string,
+  patch: {
+    winner_id: string;
+    loser_id: string;
+    winner_score: number;
+    loser_score: number;
+    end_reason: string;
+    affects_rating: boolean;
+  },
+): Promise<MatchActionResult<{ match_id: string }>> {
+  const loaded = await loadMatch(matchId);
+  if (!loaded.ok) return { ok: false, status: 500, message: `試合取得に失敗しました: ${loaded.message}` };
+  const m = loaded.match;
+  if (!m) return { ok: false, status: 404, message: '試合が見つかりません。' };
+  if (!UNAPPLIED_STATUSES.includes(String(m.status))) {
+    return { ok: false, status: 409, message: 'この試合は確認待ち/異議ありではありません。' };
+  }
+  if (isTeamsMode(m)) return { ok: false, status: 400, message: '団体戦の結果修正には対応していません。' };
+  if (isDoublesMode(m.mode)) return { ok: false, status: 400, message: 'ダブルスの結果修正には対応していません。' };
+
+  const up = await safeUpdateMatch(matchId, { ...patch, finish_reason: patch.end_reason });
+  if (!up.ok) return { ok: false, status: 500, message: `試合更新に失敗しました: ${up.message}` };
+  return { ok: true, match_id: matchId };
+}
+
+/**
+ * 確認期限を過ぎた submitted を自動確定する
+ * - auto_confirm_hours <= 0 なら自動確定しない（相手の確認 or 管理者の対応が必須）
+ * @returns 確定した件数
+ */
+export async function autoConfirmExpiredMatches(limit = 100): Promise<number> {
+  const hours = await loadAutoConfirmHours(supabaseAdmin);
+  if (hours <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('matches')
+    .select('id')
+    .eq('status', MATCH_STATUS_SUBMITTED)
+    .lt('created_at', cutoff)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+  if (error) {
+    console.warn('[matches/confirmation] auto-confirm select failed:', error.message);
+    return 0;
+  }
+
+  let done = 0;
+  for (const row of data ?? []) {
+    const r = await finalizeMatch(String(row.id), { confirmedBy: null });
+    if (r.ok === false) {
+      if (r.status !== 409) console.warn('[matches/confirmation] auto-confirm failed:', row.id, r.message);
+    } else {
+      done += 1;
+    }
+  }
+  return done;
+}
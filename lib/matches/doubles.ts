@@ -0,0 +1,29 @@
+// lib/matches/doubles.ts
+
+/**
+ * ダブルス（2 対 2）の試合（純粋関数：DB には触らない。報告 API / 登録画面 / 履歴表示で共用）
+ * - matches.mode = 'doubles'。4 人は match_players に side_no（1=勝ちペア / 2=負けペア）・slot_no（0/1）で入れる
+ * - matches.winner_id / loser_id は各ペアの先頭の選手（既存の CHECK 制約・一覧表示のための代表）
+ * - RP/HC は確定時に lib/rating/doubles で計算し、選手ごとの変動を match_players に残す
+ */
+
+export const DOUBLES_MODE = 'doubles';
+
+export function isDoublesMode(mode: unknown): boolean {
+  const m = String(mode ?? '').trim().toLowerCase();
+  return m.startsWith('doub') || m === 'pairs';
+}
+
+/** ペアの入力チェック（エラーがあれば最初の 1 件のメッセージ。なければ null） */
+export function validateDoublesPairs(winnerIds: string[], loserIds: string[]): string | null {
+  if (winnerIds.length !== 2 || loserIds.length !== 2) return '各ペア 2 人ずつ選択してください。';
+  if ([...winnerIds, ...loserIds].some((id) => !id)) return '各ペア 2 人ずつ選択してください。';
+  const all = [...winnerIds, ...loserIds];
+  if (new Set(all).size !== all.length) return '同じ選手が重複しています。';
+  return null;
+}
+
+/** 「A / B」の表示名 */
+export function pairName(names: Array<string | null | undefined>): string {
+  return names.map((n) => (n ?? '').trim() || '不明').join(' / ');
+}
@@ -0,0 +1,121 @@
+// lib/matches/rubbers.ts
+
+/**
+ * 団体戦の個別試合（ラバー）（純粋関数：DB には触らない。管理 API / 登録画面 / チームページで共用）
+ * - 団体戦 1 試合 = シングルス / ダブルスのラバーを順番に並べたもの。チームの勝敗はラバーの勝ち数で決まる
+ * - side 1 / side 2 は登録時の「チーム1 / チーム2」。保存時は勝ったチームを team_no 1 にそろえる（既存の団体戦と同じ）
+ * - affects_rating = true のシングルスは個人戦としても記録し、個人の RP / HC に反映する（ダブルスは反映しない）
+ */
+
+export const RUBBER_KINDS = ['singles', 'doubles'] as const;
+
+export type RubberKind = (typeof RUBBER_KINDS)[number];
+
+export const RUBBER_KIND_LABELS: Record<RubberKind, string> = {
+  singles: 'シングルス',
+  doubles: 'ダブルス',
+};
+
+export function isRubberKind(v: unknown): v is RubberKind {
+  return v === 'singles' || v === 'doubles';
+}
+
+/** 1 サイドの人数 */
+export function rubberSideSize(kind: RubberKind): number {
+  return kind === 'doubles' ? 2 : 1;
+}
+
+export type RubberInput = {
+  kind: RubberKind;
+  side1_player_ids: string[];
+  side2_player_ids: string[];
+  side1_score: number;
+  side2_score: number;
+  affects_rating?: boolean;
+};
+
+export type TeamMatchOutcome = {
+  side1_wins: number;
+  side2_wins: number;
+  /** 勝ったサイド（ラバーの勝ち数が同じなら null） */
+  winner_side: 1 | 2 | null;
+};
+
+const toScore = (v: unknown) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? Math.trunc(n) : NaN;
+};
+
+/** 入力（API の body / 画面のフォーム）をそろえる。形が違うものはそのまま残して validateRubbers で弾く */
+export function normalizeRubbers(raw: unknown): RubberInput[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((r: any) => {
+    const ids = (v: unknown) => (Array.isArray(v) ? v.map((x) => String(x ?? '').trim()).filter(Boolean) : []);
+    return {
+      kind: isRubberKind(r?.kind) ? r.kind : 'singles',
+      side1_player_ids: ids(r?.side1_player_ids),
+      side2_player_ids: ids(r?.side2_player_ids),
+      side1_score: toScore(r?.side1_score),
+      side2_score: toScore(r?.side2_score),
+      affects_rating: r?.affects_rating === true,
+    };
+  });
+}
+
+export function rubberWinnerSide(r: Pick<RubberInput, 'side1_score' | 'side2_score'>): 1 | 2 | null {
+  if (!Number.isFinite(r.side1_score) || !Number.isFinite(r.side2_score) || r.side1_score === r.side2_score) return null;
+  return r.side1_score > r.side2_score ? 1 : 2;
+}
+
+/** ラバーの勝ち数からチームの勝敗を出す */
+export function teamMatchOutcome(rubbers: Pick<RubberInput, 'side1_score' | 'side2_score'>[]): TeamMatchOutcome {
+  let side1_wins = 0;
+  let side2_wins = 0;
+  for (const r of rubbers) {
+    const w = rubberWinnerSide(r);
+    if (w === 1) side1_wins += 1;
+    if (w === 2) side2_wins += 1;
+  }
+  const winner_side = side1_wins === side2_wins ? null : side1_wins > side2_wins ? 1 : 2;
+  return { side1_wins, side2_wins, winner_side };
+}
+
+/**
+ * 入力チェック（エラーがあれば最初の 1 件のメッセージ。なければ null）
+ * @param members 指定すれば、各サイドの選手がそのチームの所属かも確かめる
+ */
+export function validateRubbers(
+  rubbers: RubberInput[],
+  members?: { side1: Set<string>; side2: Set<string> },
+): string | null {
+  if (rubbers.length === 0) return '個別試合を 1 つ以上入力してください。';
+
+  for (let i = 0; i < rubbers.length; i++) {
+    const r = rubbers[i];
+    const no = `第${i + 1}試合`;
+    const size = rubberSideSize(r.kind);
+
+    if (r.side1_player_ids.length !== size || r.side2_player_ids.length !== size) {
+      return `${no}：${RUBBER_KIND_LABELS[r.kind]}は各チーム ${size} 人を選んでください。`;
+    }
+    const all = [...r.side1_player_ids, ...r.side2_player_ids];
+    if (new Set(all).size !== all.length) return `${no}：同じ選手が重複しています。`;
+
+    if (members) {
+      if (r.side1_player_ids.some((id) => !members.side1.has(id))) return `${no}：チーム1の所属でない選手が含まれています。`;
+      if (r.side2_player_ids.some((id) => !members.side2.has(id))) return `${no}：チーム2の所属でない選手が含まれています。`;
+    }
+
+    if (!Number.isFinite(r.side1_score) || !Number.isFinite(r.side2_score) || r.side1_score < 0 || r.side2_score < 0) {
+      return `${no}：スコアを正しく入力してください。`;
+    }
+    if (r.side1_score > 99 || r.side2_score > 99) return `${no}：スコアは 0〜99 点です。`;
+    if (rubberWinnerSide(r) == null) return `${no}：引き分けは登録できません。`;
+    if (r.affects_rating && r.kind !== 'singles') return `${no}：RP への反映はシングルスのみです。`;
+  }
+
+  if (teamMatchOutcome(rubbers).winner_side == null) {
+    return '勝ち数が同じため団体戦の勝敗が決まりません。個別試合を見直してください。';
+  }
+  return null;
+}
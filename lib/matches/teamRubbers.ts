@@ -0,0 +1,109 @@
+// lib/matches/teamRubbers.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { Json } from '@/lib/database.types';
+import { applyTeamRating } from '@/lib/rating/teamRating';
+import { finalizeMatch, type MatchActionResult } from './confirmation';
+import { teamMatchOutcome, validateRubbers, type RubberInput } from './rubbers';
+
+/**
+ * 団体戦をラバー付きで記録する（管理者）
+ * - 入力チェック（人数・所属・スコア）→ 勝ったチームを side1 にそろえて RPC team_match_record で一括作成
+ * - RP に反映するシングルスは RPC が個人戦（submitted）を作るので、ここで finalizeMatch して RP / HC を動かす
+ *   確定に失敗した個人戦は submitted のまま残る（確認キュー / 自動確定で後から反映される）
+ * - チームレーティング（teams.rating）は団体戦の勝敗で動かす（ラバーの勝ち数の差は使わない）
+ * - 管理者チェックは呼び出し側の route で行う
+ */
+
+export type TeamMatchRecordResult = {
+  match_id: string;
+  winner_team_id: string;
+  loser_team_id: string;
+  winner_score: number;
+  loser_score: number;
+  rating_match_ids: string[];
+  /** RP / HC を反映できた個人戦の数 */
+  rating_applied: number;
+  /** 確定できず submitted のまま残った個人戦 */
+  rating_pending: string[];
+};
+
+async function loadMemberIds(teamId: string): Promise<Set<string> | null> {
+  const { data, error } = await supabaseAdmin.from('team_members').select('player_id').eq('team_id', teamId);
+  if (error) return null;
+  return new Set((data ?? []).map((r) => String(r.player_id)));
+}
+
+export async function recordTeamMatch(input: {
+  team1Id: string;
+  team2Id: string;
+  rubbers: RubberInput[];
+  matchDate: string | null;
+  createdBy: string;
+}): Promise<MatchActionResult<{ result: TeamMatchRecordResult }>> {
+  if (!input.team1Id || !input.team2Id || input.team1Id === input.team2Id) {
+    return { ok: false, status: 400, message: '対戦する 2 チームを正しく選択してください。' };
+  }
+
+  const basic = validateRubbers(input.rubbers);
+  if (basic) return { ok: false, status: 400, message: basic };
+
+  const [side1, side2] = await Promise.all([loadMemberIds(input.team1Id), loadMemberIds(input.team2Id)]);
+  if (!side1 || !side2) return { ok: false, status: 500, message: 'チームメンバーの取得に失敗しました。' };
+
+  const invalid = validateRubbers(input.rubbers, { side1, side2 });
+  if (invalid) return { ok: false, status: 400, message: invalid };
+
+  // 勝ったチームを side1（team_no 1）にそろえる
+  const outcome = teamMatchOutcome(input.rubbers);
+  const flip = outcome.winner_side === 2;
+  const payload = input.rubbers.map((r) =>
+    flip
+      ? {
+          kind: r.kind,
+          side1_player_ids: r.side2_player_ids,
+          side2_player_ids: r.side1_player_ids,
+          side1_score: r.side2_score,
+          side2_score: r.side1_score,
+          affects_rating: r.affects_rating === true,
+        }
+      : { ...r, affects_rating: r.affects_rating === true },
+  );
+
+  const { data, error } = await supabaseAdmin.rpc('team_match_record', {
+    p_winner_team_id: flip ? input.team2Id : input.team1Id,
+    p_loser_team_id: flip ? input.team1Id : input.team2Id,
+    p_match_date: input.matchDate ?? new Date().toISOString(),
+    p_rubbers: payload as unknown as Json,
+    p_created_by: input.createdBy,
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('team_not_found')) return { ok: false, status: 404, message: 'チームが見つかりません。' };
+    if (msg.includes('invalid_argument')) return { ok: false, status: 400, message: '個別試合の内容が不正です。' };
+    return { ok: false, status: 500, message: `団体戦の登録に失敗しました: ${msg}` };
+  }
+
+  const row = data as unknown as Omit<TeamMatchRecordResult, 'rating_applied' | 'rating_pending'>;
+  const ratingIds = (row.rating_match_ids ?? []).map(String);
+
+  await applyTeamRating(row.match_id, row.winner_team_id, row.loser_team_id);
+
+  let applied = 0;
+  const pending: string[] = [];
+  for (const id of ratingIds) {
+    const r = await finalizeMatch(id, { confirmedBy: input.createdBy });
+    if (r.ok === false) {
+      console.warn('[matches/teamRubbers] rating finalize failed:', id, r.message);
+      pending.push(id);
+    } else {
+      applied += 1;
+    }
+  }
+
+  return {
+    ok: true,
+    result: { ...row, rating_match_ids: ratingIds, rating_applied: applied, rating_pending: pending },
+  };
+}
@@ -0,0 +1,50 @@
+// lib/matches/void.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from './confirmation';
+
+export type VoidMatchSummary = {
+  match_id: string;
+  previous_status: string;
+  /** RP/HC・勝敗数を巻き戻したか（未反映の試合は false） */
+  reverted: boolean;
+  mode: 'singles' | 'teams' | 'doubles';
+  winner_id: string | null;
+  loser_id: string | null;
+  winner_points_delta: number;
+  loser_points_delta: number;
+  winner_handicap_delta: number;
+  loser_handicap_delta: number;
+  /** 戻したチームレーティング履歴の行数（団体戦のみ） */
+  team_ratings_reverted?: number;
+  /** RD / volatility を戻した選手数（Glicko-2 で反映した試合のみ） */
+  glicko_reverted?: number;
+};
+
+/**
+ * 試合を無効化する（status='voided'）
+ * - 反映済みなら RP/HC・勝敗数を巻き戻す。処理は RPC void_match の 1 トランザクション内で完結
+ *   （ダブルスは match_players に残した 4 人分の変動で戻す）
+ * - 物理削除はしない（voided_by / voided_at / void_reason を残す）
+ * - 団体戦はチームレーティングの変動も同じ RPC 内で戻す（team_rating_history を消す）
+ * - Glicko-2 の RD / volatility は matches.glicko_before（確定前の値）に戻す
+ */
+export async function voidMatch(
+  matchId: string,
+  opts: { voidedBy: string; reason?: string | null },
+): Promise<MatchActionResult<{ summary: VoidMatchSummary }>> {
+  const { data, error } = await supabaseAdmin.rpc('void_match', {
+    p_match_id: matchId,
+    p_voided_by: opts.voidedBy,
+    p_reason: opts.reason ?? null,
+  });
+
+  if (error) {
+    const msg = String(error.message || '');
+    if (msg.includes('match_not_found')) return { ok: false, status: 404, message: '試合が見つかりません。' };
+    if (msg.includes('already_voided')) return { ok: false, status: 409, message: 'この試合は既に無効化されています。' };
+    return { ok: false, status: 500, message: `無効化に失敗しました: ${msg}` };
+  }
+
+  return { ok: true, summary: data as VoidMatchSummary };
+}
@@ -0,0 +1,118 @@
+// lib/players/headToHead.ts
+
+/**
+ * 2 人の選手の対戦成績（純粋関数：DB には触らない。比較 API / 比較画面で共用）
+ * - 対象は個人戦（シングルス）のみ。ダブルス・団体戦は 1 対 1 の対戦ではないので数えない
+ * - 対戦時点の RP / HC は「現在値から、それより後の試合の変動を引き戻した値」（試合後の値）
+ *   管理者の手動調整は試合に残らないので、その分はずれる（推定値）
+ */
+
+export type H2HMatch = {
+  id: string;
+  match_date: string;
+  winner_id: string;
+  loser_id: string;
+  winner_score: number;
+  loser_score: number;
+  tournament_name?: string | null;
+  venue?: string | null;
+};
+
+/** 選手ごとの RP / HC 変動の履歴（1 試合 1 行。並び順は問わない） */
+export type RatingDeltaRow = {
+  match_id: string;
+  match_date: string;
+  points_delta: number;
+  handicap_delta: number;
+};
+
+export type RatingAt = { points: number; handicap: number };
+
+export type H2HMeeting = H2HMatch & {
+  /** a から見た勝敗・点差 */
+  a_won: boolean;
+  margin: number;
+  a_after: RatingAt | null;
+  b_after: RatingAt | null;
+};
+
+export type H2HSummary = {
+  meetings: number;
+  a_wins: number;
+  b_wins: number;
+  /** a から見た平均点差（勝ちは +、負けは -。対戦が無ければ null） */
+  avg_margin: number | null;
+  /** 勝者から見た平均点差 */
+  avg_abs_margin: number | null;
+  a_streak: number;
+  b_streak: number;
+  last_meeting: string | null;
+};
+
+const byDateDesc = <T extends { match_date: string; id?: string; match_id?: string }>(a: T, b: T) => {
+  if (a.match_date !== b.match_date) return a.match_date < b.match_date ? 1 : -1;
+  const ai = a.id ?? a.match_id ?? '';
+  const bi = b.id ?? b.match_id ?? '';
+  return ai < bi ? 1 : ai > bi ? -1 : 0;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * 各試合の「試合後」の RP / HC を現在値から引き戻して求める
+ * - history に無い試合の値は返さない（Map に入らない）
+ */
+export function ratingsAfterEachMatch(current: RatingAt, history: RatingDeltaRow[]): Map<string, RatingAt> {
+  const out = new Map<string, RatingAt>();
+  let points = current.points;
+  let handicap = current.handicap;
+  for (const h of [...history].sort(byDateDesc)) {
+    out.set(h.match_id, { points, handicap });
+    points -= h.points_delta;
+    handicap -= h.handicap_delta;
+  }
+  return out;
+}
+
+/** a / b の対戦を新しい順に並べ、a 視点の勝敗と各時点の RP / HC を付ける */
+export function buildMeetings(
+  aId: string,
+  matches: H2HMatch[],
+  aRatings?: Map<string, RatingAt>,
+  bRatings?: Map<string, RatingAt>,
+): H2HMeeting[] {
+  return [...matches].sort(byDateDesc).map((m) => {
+    const aWon = m.winner_id === aId;
+    const diff = m.winner_score - m.loser_score;
+    return {
+      ...m,
+      a_won: aWon,
+      margin: aWon ? diff : -diff,
+      a_after: aRatings?.get(m.id) ?? null,
+      b_after: bRatings?.get(m.id) ?? null,
+    };
+  });
+}
+
+export function summarizeHeadToHead(meetings: H2HMeeting[]): H2HSummary {
+  const n = meetings.length;
+  const aWins = meetings.filter((m) => m.a_won).length;
+
+  // 連勝（新しい順の先頭から同じ側が勝ち続けている数）
+  let streak = 0;
+  for (const m of meetings) {
+    if (m.a_won !== meetings[0].a_won) break;
+    streak++;
+  }
+
+  return {
+    meetings: n,
+    a_wins: aWins,
+    b_wins: n - aWins,
+    avg_margin: n ? round1(meetings.reduce((s, m) => s + m.margin, 0) / n) : null,
+    avg_abs_margin: n ? round1(meetings.reduce((s, m) => s + Math.abs(m.margin), 0) / n) : null,
+    a_streak: n && meetings[0].a_won ? streak : 0,
+    b_streak: n && !meetings[0].a_won ? streak : 0,
+    last_meeting: n ? meetings[0].match_date : null,
+  };
+}
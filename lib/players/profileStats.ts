@@ -0,0 +1,189 @@
+// lib/players/profileStats.ts
+import 'server-only';
+import { unstable_cache } from 'next/cache';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isDoublesMode } from '@/lib/matches/doubles';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+import { loadRatingDeltas } from '@/lib/rating/history';
+import { ratingsAfterEachMatch } from './headToHead';
+import { computePlayerStats, normalizeEndReason, type PlayerStats, type StatMatch } from './stats';
+
+/**
+ * 選手プロフィールの詳細スタッツをサーバ側で集計する（/api/public/players/[id]/stats）
+ * - 個人戦は試合フィード（match_details）、決勝は final_matches、ダブルスは match_players から集める
+ * - 試合前の RP は本人と個人戦の相手の RP 履歴（lib/rating/history）から引き戻す
+ * - 結果は選手ごとに 5 分キャッシュ（unstable_cache）。確定直後の試合は少し遅れて反映される
+ */
+
+type AnyRow = Record<string, any>;
+
+const PAGE = 1000;
+const CHUNK = 200;
+const CACHE_SECONDS = 300;
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+const dateOf = (r: AnyRow) => String(r.match_date ?? r.created_at ?? '');
+const isSkipped = (r: AnyRow) => NON_APPLIED_STATUSES.has(String(r.status ?? '').toLowerCase());
+const isSingles = (mode: unknown) => ['singles', 'single', 'player', ''].includes(String(mode ?? '').toLowerCase());
+const endReasonOf = (r: AnyRow | undefined) => normalizeEndReason(r?.end_reason ?? r?.finish_reason);
+
+async function fetchPaged(table: string, cols: string, filter: (q: any) => any) {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const q: any = filter(supabaseAdmin.from(table as any).select(cols));
+    const { data, error } = await q.order('id', { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+async function fetchByIds(table: string, cols: string, col: string, ids: string[]) {
+  const out: AnyRow[] = [];
+  for (let i = 0; i < ids.length; i += CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from(table as any)
+      .select(cols)
+      .in(col, ids.slice(i, i + CHUNK));
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    out.push(...((data ?? []) as unknown as AnyRow[]));
+  }
+  return out;
+}
+
+async function buildPlayerStats(playerId: string): Promise<PlayerStats> {
+  const sides = (q: any) => q.or(`winner_id.eq.${playerId},loser_id.eq.${playerId}`);
+
+  const [feedRows, finalRows, ownPairRows] = await Promise.all([
+    fetchPaged(
+      'match_details',
+      'id, mode, status, match_date, created_at, winner_id, loser_id, winner_name, loser_name, winner_score, loser_score, is_tournament, tournament_id',
+      sides,
+    ),
+    fetchPaged('final_matches', 'id, winner_id, loser_id, winner_score, loser_score, end_reason, match_date, created_at', sides),
+    fetchPaged('match_players', 'id, match_id', (q) => q.eq('player_id', playerId).is('rubber_no', null)),
+  ]);
+
+  const singles = feedRows.filter((m) => m.id && m.winner_id && m.loser_id && isSingles(m.mode) && !isSkipped(m));
+  const finals = finalRows.filter((f) => f.winner_id && f.loser_id);
+
+  // 終了理由は VIEW に無いので matches から、ダブルスは本体と 4 人を引き直す
+  const pairMatchIds = Array.from(new Set(ownPairRows.map((r) => String(r.match_id))));
+  const [reasonRows, pairMatches] = await Promise.all([
+    fetchByIds('matches', 'id, end_reason, finish_reason', 'id', singles.map((m) => String(m.id))),
+    fetchByIds(
+      'matches',
+      'id, mode, status, match_date, created_at, winner_score, loser_score, end_reason, finish_reason, tournament_id, league_block_id',
+      'id',
+      pairMatchIds,
+    ),
+  ]);
+  const reasonById = new Map(reasonRows.map((r) => [String(r.id), r]));
+  const doubles = pairMatches.filter((m) => isDoublesMode(m.mode) && !isSkipped(m));
+  const doublesPlayers = await fetchByIds(
+    'match_players',
+    'match_id, player_id, side_no, rubber_no, players:player_id(handle_name)',
+    'match_id',
+    doubles.map((m) => String(m.id)),
+  );
+
+  // 名前（決勝の相手）と試合前 RP（本人 + 個人戦の相手）
+  const singlesOpponents = Array.from(
+    new Set(
+      [...singles, ...finals].map((m) => String(String(m.winner_id) === playerId ? m.loser_id : m.winner_id)),
+    ),
+  );
+  const [people, deltas] = await Promise.all([
+    fetchByIds('players', 'id, handle_name, ranking_points, handicap', 'id', [playerId, ...singlesOpponents]),
+    loadRatingDeltas([playerId, ...singlesOpponents]),
+  ]);
+  const personById = new Map(people.map((p) => [String(p.id), p]));
+
+  const deltasByPlayer = new Map<string, typeof deltas>();
+  for (const d of deltas) {
+    if (!deltasByPlayer.has(d.player_id)) deltasByPlayer.set(d.player_id, []);
+    deltasByPlayer.get(d.player_id)!.push(d);
+  }
+  const beforeCache = new Map<string, Map<string, number>>();
+  const pointsBefore = (pid: string, matchId: string): number | null => {
+    if (!beforeCache.has(pid)) {
+      const p = personById.get(pid);
+      const history = deltasByPlayer.get(pid) ?? [];
+      const after = p
+        ? ratingsAfterEachMatch({ points: toInt(p.ranking_points), handicap: toInt(p.handicap) }, history)
+        : new Map();
+      const before = new Map<string, number>();
+      for (const h of history) {
+        const a = after.get(h.match_id);
+        if (a) before.set(h.match_id, a.points - h.points_delta);
+      }
+      beforeCache.set(pid, before);
+    }
+    return beforeCache.get(pid)!.get(matchId) ?? null;
+  };
+
+  const out: StatMatch[] = [];
+  const pushSingles = (m: AnyRow, isTournament: boolean, endReason: string, oppName: (oppId: string) => string) => {
+    const won = String(m.winner_id) === playerId;
+    const oppId = String(won ? m.loser_id : m.winner_id);
+    const id = String(m.id);
+    out.push({
+      id,
+      date: dateOf(m),
+      mode: 'singles',
+      won,
+      my_score: toInt(won ? m.winner_score : m.loser_score, NaN),
+      opp_score: toInt(won ? m.loser_score : m.winner_score, NaN),
+      end_reason: endReason,
+      is_tournament: isTournament,
+      opponents: [{ id: oppId, name: oppName(oppId) }],
+      my_points_before: pointsBefore(playerId, id),
+      opp_points_before: pointsBefore(oppId, id),
+    });
+  };
+
+  for (const m of singles) {
+    pushSingles(m, m.is_tournament === true || !!m.tournament_id, endReasonOf(reasonById.get(String(m.id))), () =>
+      String((String(m.winner_id) === playerId ? m.loser_name : m.winner_name) ?? '不明'),
+    );
+  }
+  for (const f of finals) {
+    pushSingles(f, true, endReasonOf(f), (oppId) => String(personById.get(oppId)?.handle_name ?? '不明'));
+  }
+  for (const m of doubles) {
+    const rows = doublesPlayers.filter((r) => String(r.match_id) === String(m.id) && r.rubber_no == null);
+    const mine = rows.find((r) => String(r.player_id) === playerId);
+    if (!mine) continue;
+    // 勝った側が side_no = 1（winner_team_no と同じ）
+    const won = toInt(mine.side_no) === 1;
+    out.push({
+      id: String(m.id),
+      date: dateOf(m),
+      mode: 'doubles',
+      won,
+      my_score: toInt(won ? m.winner_score : m.loser_score, NaN),
+      opp_score: toInt(won ? m.loser_score : m.winner_score, NaN),
+      end_reason: endReasonOf(m),
+      is_tournament: !!m.tournament_id || !!m.league_block_id,
+      opponents: rows
+        .filter((r) => r.side_no !== mine.side_no)
+        .map((r) => ({ id: String(r.player_id), name: String(r.players?.handle_name ?? '不明') })),
+      my_points_before: null,
+      opp_points_before: null,
+    });
+  }
+
+  return computePlayerStats(out);
+}
+
+export function loadPlayerStats(playerId: string): Promise<PlayerStats> {
+  return unstable_cache(() => buildPlayerStats(playerId), ['player-stats', playerId], {
+    revalidate: CACHE_SECONDS,
+    tags: [`player-stats:${playerId}`],
+  })();
+}
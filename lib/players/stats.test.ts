@@ -0,0 +1,144 @@
+// lib/players/stats.test.ts
+import { describe, expect, it } from 'vitest';
+import { computePlayerStats, normalizeEndReason, type StatMatch } from './stats';
+
+let seq = 0;
+const match = (won: boolean, extra: Partial<StatMatch> = {}): StatMatch => {
+  seq += 1;
+  return {
+    id: `m${String(seq).padStart(3, '0')}`,
+    date: `2026-10-${String(seq).padStart(2, '0')}T00:00:00Z`,
+    mode: 'singles',
+    won,
+    my_score: won ? 15 : 10,
+    opp_score: won ? 10 : 15,
+    end_reason: 'normal',
+    is_tournament: false,
+    opponents: [{ id: 'o1', name: '相手1' }],
+    my_points_before: null,
+    opp_points_before: null,
+    ...extra,
+  };
+};
+
+/** 古い順に並べた勝敗（true = 勝ち）から試合を作る */
+const history = (results: boolean[]) => {
+  seq = 0;
+  return results.map((won) => match(won));
+};
+
+describe('normalizeEndReason', () => {
+  it('既知の値は小文字にそろえ、それ以外は normal', () => {
+    expect(normalizeEndReason(' Walkover ')).toBe('walkover');
+    expect(normalizeEndReason('time_limit')).toBe('time_limit');
+    expect(normalizeEndReason('retired')).toBe('normal');
+    expect(normalizeEndReason(null)).toBe('normal');
+  });
+});
+
+describe('computePlayerStats', () => {
+  it('試合がなければ空の集計', () => {
+    const s = computePlayerStats([]);
+    expect(s).toMatchObject({
+      matches: 0,
+      current_streak: { kind: null, count: 0 },
+      best_win_streak: 0,
+      form: [],
+      by_end_reason: [],
+      avg_points_for: null,
+      avg_points_against: null,
+      top_opponents: [],
+    });
+    expect(s.vs_higher).toEqual({ wins: 0, losses: 0, win_rate: 0 });
+  });
+
+  it('連勝・最長連勝は日付順に数える（渡す順番に依らない）', () => {
+    // 古い順：W W W L W W
+    const ms = history([true, true, true, false, true, true]);
+    const s = computePlayerStats([...ms].reverse());
+    expect(s.current_streak).toEqual({ kind: 'win', count: 2 });
+    expect(s.best_win_streak).toBe(3);
+    expect(computePlayerStats(history([true, false, false])).current_streak).toEqual({ kind: 'loss', count: 2 });
+  });
+
+  it('直近の成績は新しい順に 10 試合まで', () => {
+    const s = computePlayerStats(history([...Array(11).fill(true), false]));
+    expect(s.form).toHaveLength(10);
+    expect(s.form[0]).toBe('L');
+    expect(s.form.slice(1).every((f) => f === 'W')).toBe(true);
+  });
+
+  it('終了理由ごとの勝敗（未知の理由は normal に寄せる）', () => {
+    seq = 0;
+    const s = computePlayerStats([
+      match(true, { end_reason: 'walkover' }),
+      match(false, { end_reason: 'retired' }),
+      match(true),
+    ]);
+    expect(s.by_end_reason).toEqual([
+      { end_reason: 'normal', wins: 1, losses: 1, win_rate: 50 },
+      { end_reason: 'walkover', wins: 1, losses: 0, win_rate: 100 },
+    ]);
+  });
+
+  it('平均得失点は小数 1 桁', () => {
+    seq = 0;
+    const s = computePlayerStats([
+      match(true, { my_score: 15, opp_score: 10 }),
+      match(false, { my_score: 12, opp_score: 15 }),
+      match(true, { my_score: 15, opp_score: 14 }),
+    ]);
+    expect(s.avg_points_for).toBe(14);
+    expect(s.avg_points_against).toBe(13);
+
+    seq = 0;
+    const uneven = [match(true, { my_score: 10 }), match(true, { my_score: 11 }), match(true, { my_score: 11 })];
+    expect(computePlayerStats(uneven).avg_points_for).toBe(10.7);
+  });
+
+  it('格上・格下は試合前の RP で分け、同点・RP 不明・ダブルスは数えない', () => {
+    seq = 0;
+    const s = computePlayerStats([
+      match(true, { my_points_before: 1500, opp_points_before: 1600 }),
+      match(false, { my_points_before: 1500, opp_points_before: 1700 }),
+      match(true, { my_points_before: 1500, opp_points_before: 1400 }),
+      match(true, { my_points_before: 1500, opp_points_before: 1500 }),
+      match(true, { my_points_before: null, opp_points_before: 1600 }),
+      match(true, { mode: 'doubles', my_points_before: 1500, opp_points_before: 1800 }),
+    ]);
+    expect(s.vs_higher).toEqual({ wins: 1, losses: 1, win_rate: 50 });
+    expect(s.vs_lower).toEqual({ wins: 1, losses: 0, win_rate: 100 });
+  });
+
+  it('大会と大会外を分けて数える', () => {
+    seq = 0;
+    const s = computePlayerStats([match(true, { is_tournament: true }), match(false, { is_tournament: true }), match(true)]);
+    expect(s.tournament).toEqual({ wins: 1, losses: 1, win_rate: 50 });
+    expect(s.casual).toEqual({ wins: 1, losses: 0, win_rate: 100 });
+  });
+
+  it('よく当たる相手は対戦数 → 勝数 → 名前の順で上位 5 人', () => {
+    seq = 0;
+    const o = (n: number) => ({ id: `o${n}`, name: `相手${n}` });
+    const s = computePlayerStats([
+      match(true, { opponents: [o(1)] }),
+      match(false, { opponents: [o(1)] }),
+      match(false, { opponents: [o(2)] }),
+      match(true, { opponents: [o(2)] }),
+      match(true, { opponents: [o(2)] }),
+      match(true, { opponents: [o(3)] }),
+      match(false, { opponents: [o(4)] }),
+      match(false, { opponents: [o(5)] }),
+      // ダブルスは相手 2 人ともに数える
+      match(false, { mode: 'doubles', opponents: [o(6), o(7)] }),
+    ]);
+    expect(s.top_opponents.map((x) => [x.id, x.meetings, x.wins])).toEqual([
+      ['o2', 3, 2],
+      ['o1', 2, 1],
+      ['o3', 1, 1],
+      ['o4', 1, 0],
+      ['o5', 1, 0],
+    ]);
+    expect(s.top_opponents[0]).toMatchObject({ name: '相手2', losses: 1, win_rate: 66.7 });
+  });
+});
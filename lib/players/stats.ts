@@ -0,0 +1,121 @@
+// lib/players/stats.ts
+import { calcWinRate } from '@/lib/stats';
+
+/**
+ * 選手プロフィールの詳細スタッツ（純粋関数：DB には触らない。集計は lib/players/profileStats がサーバ側で呼ぶ）
+ * - 連勝 / 直近 10 試合 / 終了理由別 / 平均得失点 / 格上・格下別 / 大会・大会外 / よく当たる相手
+ * - 格上・格下は「試合前の RP」で比べる（同点は数えない）。ダブルスは 1 対 1 ではないので比べない
+ */
+
+export type StatMatch = {
+  id: string;
+  /** ISO 文字列（match_date → created_at の順） */
+  date: string;
+  mode: 'singles' | 'doubles';
+  won: boolean;
+  my_score: number;
+  opp_score: number;
+  /** normal / time_limit / walkover / forfeit */
+  end_reason: string;
+  is_tournament: boolean;
+  opponents: Array<{ id: string; name: string }>;
+  /** 試合前の RP（分からなければ null） */
+  my_points_before: number | null;
+  opp_points_before: number | null;
+};
+
+export type WinLoss = { wins: number; losses: number; win_rate: number };
+
+export type PlayerStats = {
+  matches: number;
+  current_streak: { kind: 'win' | 'loss' | null; count: number };
+  best_win_streak: number;
+  /** 直近 10 試合（新しい順） */
+  form: Array<'W' | 'L'>;
+  by_end_reason: Array<{ end_reason: string } & WinLoss>;
+  avg_points_for: number | null;
+  avg_points_against: number | null;
+  vs_higher: WinLoss;
+  vs_lower: WinLoss;
+  tournament: WinLoss;
+  casual: WinLoss;
+  top_opponents: Array<{ id: string; name: string; meetings: number } & WinLoss>;
+};
+
+const FORM_SIZE = 10;
+const TOP_OPPONENTS = 5;
+const END_REASONS = ['normal', 'time_limit', 'walkover', 'forfeit'];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const tally = (rows: StatMatch[]): WinLoss => {
+  const wins = rows.filter((m) => m.won).length;
+  const losses = rows.length - wins;
+  return { wins, losses, win_rate: calcWinRate(wins, losses) };
+};
+
+export function normalizeEndReason(v: unknown): string {
+  const s = String(v ?? '').trim().toLowerCase();
+  return END_REASONS.includes(s) ? s : 'normal';
+}
+
+export function computePlayerStats(input: StatMatch[]): PlayerStats {
+  // 新しい順
+  const matches = [...input].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+
+  let current: PlayerStats['current_streak'] = { kind: null, count: 0 };
+  if (matches.length > 0) {
+    const kind = matches[0].won ? 'win' : 'loss';
+    let count = 0;
+    while (count < matches.length && matches[count].won === matches[0].won) count++;
+    current = { kind, count };
+  }
+
+  let best = 0;
+  let run = 0;
+  for (const m of matches) {
+    run = m.won ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+
+  const byReason = new Map<string, StatMatch[]>();
+  for (const m of matches) {
+    const r = normalizeEndReason(m.end_reason);
+    if (!byReason.has(r)) byReason.set(r, []);
+    byReason.get(r)!.push(m);
+  }
+
+  const scored = matches.filter((m) => Number.isFinite(m.my_score) && Number.isFinite(m.opp_score));
+  const avg = (f: (m: StatMatch) => number) =>
+    scored.length ? round1(scored.reduce((s, m) => s + f(m), 0) / scored.length) : null;
+
+  const rated = matches.filter(
+    (m) => m.mode === 'singles' && m.my_points_before !== null && m.opp_points_before !== null,
+  );
+
+  const opponents = new Map<string, { name: string; rows: StatMatch[] }>();
+  for (const m of matches) {
+    for (const o of m.opponents) {
+      if (!opponents.has(o.id)) opponents.set(o.id, { name: o.name, rows: [] });
+      opponents.get(o.id)!.rows.push(m);
+    }
+  }
+
+  return {
+    matches: matches.length,
+    current_streak: current,
+    best_win_streak: best,
+    form: matches.slice(0, FORM_SIZE).map((m) => (m.won ? 'W' : 'L')),
+    by_end_reason: END_REASONS.filter((r) => byReason.has(r)).map((r) => ({ end_reason: r, ...tally(byReason.get(r)!) })),
+    avg_points_for: avg((m) => m.my_score),
+    avg_points_against: avg((m) => m.opp_score),
+    vs_higher: tally(rated.filter((m) => m.opp_points_before! > m.my_points_before!)),
+    vs_lower: tally(rated.filter((m) => m.opp_points_before! < m.my_points_before!)),
+    tournament: tally(matches.filter((m) => m.is_tournament)),
+    casual: tally(matches.filter((m) => !m.is_tournament)),
+    top_opponents: Array.from(opponents.entries())
+      .map(([id, o]) => ({ id, name: o.name, meetings: o.rows.length, ...tally(o.rows) }))
+      .sort((a, b) => b.meetings - a.meetings || b.wins - a.wins || a.name.localeCompare(b.name, 'ja'))
+      .slice(0, TOP_OPPONENTS),
+  };
+}
@@ -0,0 +1,200 @@
+// lib/rating/config.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_RANKING_CONFIG, normalizeRankingConfig, type RankingConfig } from './engine';
+import { normalizeFixedPointsConfig } from './fixedPoints';
+import { DEFAULT_GLICKO_CONFIG, type GlickoState } from './glicko2';
+import { DEFAULT_RATING_ALGORITHM, normalizeRatingAlgorithm, type RatingSettings } from './strategies';
+
+/**
+ * ranking_config を読み込む（id='global' を優先 → 無ければ先頭1行）
+ * ✅ 読めなくても試合登録を止めないよう、失敗時は既定値で返す
+ */
+export async function loadRankingConfig(client: SupabaseClient<any>): Promise<RankingConfig> {
+  const row = await readRankingConfigRow(client);
+  return row ? normalizeRankingConfig(row) : { ...DEFAULT_RANKING_CONFIG };
+}
+
+async function readRankingConfigRow(client: SupabaseClient<any>): Promise<Record<string, any> | null> {
+  try {
+    const q1 = await client.from('ranking_config').select('*').eq('id', 'global').maybeSingle();
+    if (!q1.error && q1.data) return q1.data;
+
+    const q2 = await client.from('ranking_config').select('*').limit(1).maybeSingle();
+    if (!q2.error && q2.data) return q2.data;
+  } catch (e) {
+    console.warn('[rating] ranking_config load failed:', e);
+  }
+  return null;
+}
+
+export type RatingBaseline = {
+  base_rating: number;
+  initial_handicap: number;
+};
+
+export const DEFAULT_RATING_BASELINE: RatingBaseline = {
+  base_rating: 1000,
+  initial_handicap: 0,
+};
+
+/** rating_config（初期RP/初期HC）を読み込む。無ければ新規登録時と同じ 1000 / 0 */
+export async function loadRatingBaseline(client: SupabaseClient<any>): Promise<RatingBaseline> {
+  const data = await readRatingConfigRow(client);
+  if (!data) return { ...DEFAULT_RATING_BASELINE };
+
+  const base = Number(data.base_rating);
+  const hc = Number(data.initial_handicap);
+  return {
+    base_rating: Number.isFinite(base) ? base : DEFAULT_RATING_BASELINE.base_rating,
+    initial_handicap: Number.isFinite(hc) ? hc : DEFAULT_RATING_BASELINE.initial_handicap,
+  };
+}
+
+async function readRatingConfigRow(client: SupabaseClient<any>): Promise<Record<string, any> | null> {
+  try {
+    const { data, error } = await client
+      .from('rating_config')
+      .select('*')
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (!error && data) return data;
+  } catch (e) {
+    console.warn('[rating] rating_config load failed:', e);
+  }
+  return null;
+}
+
+/**
+ * 選択中のレーティング方式と、その計算に必要な設定一式を読み込む
+ * - 方式: ranking_config.rating_algorithm（無ければ elo）
+ * - 固定ポイント: rating_config の points_win / points_loss / win_bonus / loss_penalty
+ */
+export async function loadRatingSettings(client: SupabaseClient<any>): Promise<RatingSettings> {
+  const [rankingRow, ratingRow] = await Promise.all([readRankingConfigRow(client), readRatingConfigRow(client)]);
+  return {
+    algorithm: rankingRow ? normalizeRatingAlgorithm(rankingRow.rating_algorithm) : DEFAULT_RATING_ALGORITHM,
+    ranking: rankingRow ? normalizeRankingConfig(rankingRow) : { ...DEFAULT_RANKING_CONFIG },
+    fixed: normalizeFixedPointsConfig(ratingRow),
+    glicko: { ...DEFAULT_GLICKO_CONFIG },
+  };
+}
+
+/**
+ * Glicko-2 の試合後 RD / volatility を players へ保存する
+ * ✅ 列が無い環境でも試合登録は止めない（warn のみ）
+ */
+export async function saveGlickoStates(
+  client: SupabaseClient<any>,
+  states: Array<{ playerId: string; state: GlickoState | null }>,
+) {
+  for (const { playerId, state } of states) {
+    if (!state) continue;
+    const { error } = await client
+      .from('players')
+      .update({ rating_deviation: state.deviation, rating_volatility: state.volatility })
+      .eq('id', playerId);
+    if (error) console.warn('[rating] glicko state update warning:', error.message);
+  }
+}
+
+/**
+ * matches / final_matches.glicko_before の 1 件（その試合を反映する前の RD / volatility。null は初期値扱い）
+ * - 無効化・再報告ではこの値へ戻す
+ */
+export type GlickoBefore = { id: string; rating_deviation: number | null; rating_volatility: number | null };
+
+const numOrNull = (v: unknown) => {
+  const n = typeof v === 'number' ? v : v == null || v === '' ? NaN : Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** 試合前の選手行から glicko_before を作る（Glicko-2 で反映しない試合は null） */
+export function glickoBeforeOf(players: Array<Record<string, any>>, applied: boolean): GlickoBefore[] | null {
+  if (!applied) return null;
+  return players.map((p) => ({
+    id: String(p.id),
+    rating_deviation: numOrNull(p.rating_deviation),
+    rating_volatility: numOrNull(p.rating_volatility),
+  }));
+}
+
+/** glicko_before（jsonb）を読む。配列でない / id の無い要素は捨てる */
+export function parseGlickoBefore(v: unknown): GlickoBefore[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter((x) => x && typeof x === 'object' && x.id)
+    .map((x: any) => ({
+      id: String(x.id),
+      rating_deviation: numOrNull(x.rating_deviation),
+      rating_volatility: numOrNull(x.rating_volatility),
+    }));
+}
+
+/** glicko_before の値へ戻す（再報告で前回分を巻き戻すとき） */
+export async function restoreGlickoStates(client: SupabaseClient<any>, rows: GlickoBefore[]) {
+  for (const r of rows) {
+    const { error } = await client
+      .from('players')
+      .update({ rating_deviation: r.rating_deviation, rating_volatility: r.rating_volatility })
+      .eq('id', r.id);
+    if (error) console.warn('[rating] glicko state restore warning:', error.message);
+  }
+}
+
+/** tournaments.bonus_coefficient を「RP 変動の倍率」として使える値へ（不正/未設定は 1） */
+export function normalizeRatingMultiplier(v: unknown): number {
+  const n = typeof v === 'number' ? v : Number(v);
+  if (!Number.isFinite(n) || n <= 0) return 1;
+  return Math.min(10, n);
+}
+
+/**
+ * 試合が属する大会の係数（tournaments.bonus_coefficient）を読み込む
+ * - 大会は tournament_id → league_block_id → bracket_id（final_brackets）の順で解決
+ * - 大会に属さない/読めない場合は 1（通常の試合と同じ）
+ */
+export async function loadTournamentMultiplier(
+  client: SupabaseClient<any>,
+  ref: { tournamentId?: string | null; leagueBlockId?: string | null; bracketId?: string | null },
+): Promise<{ tournamentId: string | null; multiplier: number }> {
+  try {
+    let tournamentId = ref.tournamentId ? String(ref.tournamentId) : null;
+
+    if (!tournamentId && ref.leagueBlockId) {
+      const { data } = await client.from('league_blocks').select('tournament_id').eq('id', ref.leagueBlockId).maybeSingle();
+      tournamentId = data?.tournament_id ? String(data.tournament_id) : null;
+    }
+    if (!tournamentId && ref.bracketId) {
+      const { data } = await client.from('final_brackets').select('tournament_id').eq('id', ref.bracketId).maybeSingle();
+      tournamentId = data?.tournament_id ? String(data.tournament_id) : null;
+    }
+    if (!tournamentId) return { tournamentId: null, multiplier: 1 };
+
+    const { data, error } = await client.from('tournaments').select('bonus_coefficient').eq('id', tournamentId).maybeSingle();
+    if (error || !data) return { tournamentId, multiplier: 1 };
+    return { tournamentId, multiplier: normalizeRatingMultiplier(data.bonus_coefficient) };
+  } catch (e) {
+    console.warn('[rating] tournament multiplier load failed:', e);
+    return { tournamentId: null, multiplier: 1 };
+  }
+}
+
+export const DEFAULT_AUTO_CONFIRM_HOURS = 48;
+
+/** ranking_config.auto_confirm_hours（0..720）へ。不正/未設定は既定値 */
+export function normalizeAutoConfirmHours(v: unknown): number {
+  if (v === null || v === undefined || v === '') return DEFAULT_AUTO_CONFIRM_HOURS;
+  const n = typeof v === 'number' ? v : Number(v);
+  if (!Number.isFinite(n)) return DEFAULT_AUTO_CONFIRM_HOURS;
+  return Math.max(0, Math.min(720, Math.trunc(n)));
+}
+
+/**
+ * 試合結果の自動確定までの時間（時間単位）
+ * - 0 は「自動確定しない」
+ */
+export async function loadAutoConfirmHours(client: SupabaseClient<any>): Promise<number> {
+  const row = await readRankingConfigRow(client);
+  return normalizeAutoConfirmHours(row?.auto_confirm_hours);
+}
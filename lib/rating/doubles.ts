@@ -0,0 +1,87 @@
+// lib/rating/doubles.ts
+/**
+ * ダブルス（2 対 2）の RP/HC 変動
+ * - ペアの RP / HC を平均した「仮想の 1 人」同士として、選択中の方式（calcMatchRating）でペアの変動を出す
+ * - RP はペアの変動を 2 人で分ける（合計がペアの変動と一致するよう、端数は先頭の選手に寄せる）
+ * - HC はレベルの目安なので分けずに 2 人とも同じだけ動かす
+ * - Glicko-2 の RD / volatility は個人の値なのでダブルスでは更新しない（計算は初期値の RD で行う）
+ * - DB アクセスはしない（確定は lib/matches/confirmation、積み直しは lib/rating/replay）
+ */
+import { applyRatingMultiplier, calcMatchRating, type MatchRatingResult, type RatingSettings } from './strategies';
+
+export type DoublesPlayerRating = {
+  id: string;
+  points: number;
+  handicap: number;
+};
+
+export type DoublesPlayerDelta = {
+  player_id: string;
+  side: 'winner' | 'loser';
+  pointsChange: number;
+  handicapChange: number;
+};
+
+export type DoublesRatingResult = {
+  /** ペア単位の変動（matches の winner_/loser_*_delta に入れる値） */
+  pair: MatchRatingResult;
+  /** 選手ごとの変動（match_players.points_delta / handicap_delta に入れる値） */
+  players: DoublesPlayerDelta[];
+};
+
+const avg = (xs: number[]) => Math.round(xs.reduce((s, x) => s + x, 0) / Math.max(1, xs.length));
+
+/** total を n 人で分ける（-15 → [-8, -7]） */
+export function splitEvenly(total: number, n: number): number[] {
+  if (n <= 0) return [];
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(total);
+  const base = Math.floor(abs / n);
+  const rest = abs - base * n;
+  return Array.from({ length: n }, (_, i) => sign * (base + (i < rest ? 1 : 0)));
+}
+
+export function calcDoublesRating(
+  settings: RatingSettings,
+  input: {
+    winners: DoublesPlayerRating[];
+    losers: DoublesPlayerRating[];
+    scoreDifference: number;
+    /** 大会係数（無ければ 1） */
+    multiplier?: number;
+  },
+): DoublesRatingResult {
+  const base = calcMatchRating(settings, {
+    winnerPoints: avg(input.winners.map((p) => p.points)),
+    loserPoints: avg(input.losers.map((p) => p.points)),
+    winnerHandicap: avg(input.winners.map((p) => p.handicap)),
+    loserHandicap: avg(input.losers.map((p) => p.handicap)),
+    scoreDifference: input.scoreDifference,
+  });
+  const pair: MatchRatingResult = {
+    ...applyRatingMultiplier(base, input.multiplier ?? 1),
+    winnerGlicko: null,
+    loserGlicko: null,
+  };
+
+  const wSplit = splitEvenly(pair.winnerPointsChange, input.winners.length);
+  const lSplit = splitEvenly(pair.loserPointsChange, input.losers.length);
+
+  return {
+    pair,
+    players: [
+      ...input.winners.map((p, i) => ({
+        player_id: p.id,
+        side: 'winner' as const,
+        pointsChange: wSplit[i],
+        handicapChange: pair.winnerHandicapChange,
+      })),
+      ...input.losers.map((p, i) => ({
+        player_id: p.id,
+        side: 'loser' as const,
+        pointsChange: lSplit[i],
+        handicapChange: pair.loserHandicapChange,
+      })),
+    ],
+  };
+}
@@ -0,0 +1,102 @@
+// lib/rating/engine.ts
+/**
+ * ランキング（RP/HC）変動の計算エンジン
+ * - ranking_config の1行を受け取り、勝者/敗者の RP・HC 変動を返す
+ * - DB アクセスはしない（ブラウザ/サーバ両方から使える純粋関数のみ）
+ */
+
+export type RankingConfig = {
+  k_factor: number;
+  score_diff_multiplier: number;
+  handicap_diff_multiplier: number;
+  win_threshold_handicap_change: number;
+  handicap_change_amount: number;
+};
+
+export type RatingInput = {
+  winnerPoints: number;
+  loserPoints: number;
+  winnerHandicap: number;
+  loserHandicap: number;
+  /** 勝者スコア - 敗者スコア（1 以上） */
+  scoreDifference: number;
+};
+
+export type RatingDelta = {
+  winnerPointsChange: number;
+  loserPointsChange: number;
+  winnerHandicapChange: number;
+  loserHandicapChange: number;
+};
+
+/**
+ * ranking_config が無い/壊れている時の値
+ * ※ 旧 calcDelta のハードコード値（K=32, /30, /50, 10点差で±1）と同じ結果になるようにしてある
+ */
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  k_factor: 32,
+  score_diff_multiplier: 1 / 30,
+  handicap_diff_multiplier: 1 / 50,
+  win_threshold_handicap_change: 10,
+  handicap_change_amount: 1,
+};
+
+export const ZERO_DELTA: RatingDelta = {
+  winnerPointsChange: 0,
+  loserPointsChange: 0,
+  winnerHandicapChange: 0,
+  loserHandicapChange: 0,
+};
+
+const num = (v: unknown, fallback: number) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** ranking_config の行（null 可・列欠け可）を計算に使える形へ */
+export function normalizeRankingConfig(row: Partial<RankingConfig> | Record<string, any> | null | undefined): RankingConfig {
+  const r = (row ?? {}) as Record<string, any>;
+  const d = DEFAULT_RANKING_CONFIG;
+  return {
+    k_factor: Math.max(0, num(r.k_factor, d.k_factor)),
+    score_diff_multiplier: Math.max(0, num(r.score_diff_multiplier, d.score_diff_multiplier)),
+    handicap_diff_multiplier: Math.max(0, num(r.handicap_diff_multiplier, d.handicap_diff_multiplier)),
+    win_threshold_handicap_change: Math.max(0, num(r.win_threshold_handicap_change, d.win_threshold_handicap_change)),
+    handicap_change_amount: Math.trunc(num(r.handicap_change_amount, d.handicap_change_amount)),
+  };
+}
+
+/** ELO 風の変動（個人戦のみ） */
+export function calcRatingDelta(config: RankingConfig, input: RatingInput): RatingDelta {
+  const K = config.k_factor;
+  const expectedWinner = 1 / (1 + Math.pow(10, (input.loserPoints - input.winnerPoints) / 400));
+  const scoreDiffMultiplier = 1 + input.scoreDifference * config.score_diff_multiplier;
+
+  const handicapDiff = input.winnerHandicap - input.loserHandicap;
+  const handicapMultiplier = 1 + handicapDiff * config.handicap_diff_multiplier;
+
+  const baseWinnerChange = K * (1 - expectedWinner) * scoreDiffMultiplier * handicapMultiplier;
+  const baseLoserChange = -K * expectedWinner * scoreDiffMultiplier;
+
+  return {
+    winnerPointsChange: Math.round(baseWinnerChange),
+    loserPointsChange: Math.round(baseLoserChange),
+    ...calcHandicapChange(config, input.scoreDifference),
+  };
+}
+
+/**
+ * HC の変動（どのレーティング方式でも共通）
+ * - 閾値以上の点差で勝ったら HC を動かす（勝者は下げ、敗者は上げる）
+ */
+export function calcHandicapChange(
+  config: RankingConfig,
+  scoreDifference: number,
+): Pick<RatingDelta, 'winnerHandicapChange' | 'loserHandicapChange'> {
+  const hcMoves = scoreDifference >= config.win_threshold_handicap_change;
+  const hcAmount = config.handicap_change_amount;
+  return {
+    winnerHandicapChange: hcMoves ? -hcAmount : 0,
+    loserHandicapChange: hcMoves ? hcAmount : 0,
+  };
+}
@@ -0,0 +1,46 @@
+// lib/rating/fixedPoints.ts
+/**
+ * 固定ポイント方式（rating_config の points_win / points_loss / win_bonus / loss_penalty）
+ * - 勝てば +points_win、負ければ -points_loss
+ * - 格上（試合前 RP が上）に勝ったら +win_bonus、格下に負けたら -loss_penalty を上乗せ
+ */
+import type { RatingInput } from './engine';
+
+export type FixedPointsConfig = {
+  points_win: number;
+  points_loss: number;
+  win_bonus: number;
+  loss_penalty: number;
+};
+
+export const DEFAULT_FIXED_POINTS_CONFIG: FixedPointsConfig = {
+  points_win: 10,
+  points_loss: 10,
+  win_bonus: 0,
+  loss_penalty: 0,
+};
+
+const num = (v: unknown, fallback: number) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** rating_config の行（null 可・列欠け可）を計算に使える形へ（符号は問わず絶対値で扱う） */
+export function normalizeFixedPointsConfig(row: Record<string, any> | null | undefined): FixedPointsConfig {
+  const r = row ?? {};
+  const d = DEFAULT_FIXED_POINTS_CONFIG;
+  return {
+    points_win: Math.abs(Math.trunc(num(r.points_win, d.points_win))),
+    points_loss: Math.abs(Math.trunc(num(r.points_loss, d.points_loss))),
+    win_bonus: Math.abs(Math.trunc(num(r.win_bonus, d.win_bonus))),
+    loss_penalty: Math.abs(Math.trunc(num(r.loss_penalty, d.loss_penalty))),
+  };
+}
+
+export function calcFixedPoints(config: FixedPointsConfig, input: RatingInput) {
+  const upset = input.winnerPoints < input.loserPoints;
+  return {
+    winnerPointsChange: config.points_win + (upset ? config.win_bonus : 0),
+    loserPointsChange: -(config.points_loss + (upset ? config.loss_penalty : 0)),
+  };
+}
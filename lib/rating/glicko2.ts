@@ -0,0 +1,120 @@
+// lib/rating/glicko2.ts
+/**
+ * Glicko-2（1試合 = 1レーティング期間として更新）
+ * - RP をそのまま Glicko の rating として扱い、選手ごとに RD（rating deviation）と volatility を持つ
+ * - 点差は使わない（勝敗のみ）。HC は共通ルール（calcHandicapChange）で別途動かす
+ * - 参考: Mark E. Glickman, "Example of the Glicko-2 system"
+ */
+
+export type GlickoState = {
+  /** rating deviation（大きいほど実力が不確か） */
+  deviation: number;
+  volatility: number;
+};
+
+export type GlickoConfig = {
+  /** 新規/未計測の選手の RD */
+  initial_deviation: number;
+  initial_volatility: number;
+  /** RD の下限（下がりきって動かなくなるのを防ぐ） */
+  min_deviation: number;
+  /** system constant τ（volatility の変わりやすさ） */
+  tau: number;
+};
+
+export const DEFAULT_GLICKO_CONFIG: GlickoConfig = {
+  initial_deviation: 350,
+  initial_volatility: 0.06,
+  min_deviation: 30,
+  tau: 0.5,
+};
+
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+const num = (v: unknown, fallback: number) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/** players の rating_deviation / rating_volatility（null 可）を計算に使える形へ */
+export function normalizeGlickoState(
+  deviation: unknown,
+  volatility: unknown,
+  config: GlickoConfig = DEFAULT_GLICKO_CONFIG,
+): GlickoState {
+  return {
+    deviation: Math.min(config.initial_deviation, Math.max(config.min_deviation, num(deviation, config.initial_deviation))),
+    volatility: num(volatility, config.initial_volatility),
+  };
+}
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+function nextVolatility(phi: number, sigma: number, v: number, delta: number, tau: number) {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k += 1;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  // Illinois 法（回数上限付き）
+  for (let i = 0; i < 100 && Math.abs(B - A) > CONVERGENCE; i++) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * 1人分の更新
+ * @param score 1 = 勝ち / 0 = 負け
+ */
+export function updateGlicko(
+  self: { rating: number } & GlickoState,
+  opponent: { rating: number } & GlickoState,
+  score: 0 | 1,
+  config: GlickoConfig = DEFAULT_GLICKO_CONFIG,
+): { rating: number } & GlickoState {
+  const mu = self.rating / SCALE;
+  const phi = self.deviation / SCALE;
+  const muJ = opponent.rating / SCALE;
+  const phiJ = opponent.deviation / SCALE;
+
+  const gJ = g(phiJ);
+  const E = 1 / (1 + Math.exp(-gJ * (mu - muJ)));
+  const v = 1 / (gJ * gJ * E * (1 - E));
+  const delta = v * gJ * (score - E);
+
+  const sigma = nextVolatility(phi, self.volatility, v, delta, config.tau);
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const phiNext = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNext = mu + phiNext * phiNext * gJ * (score - E);
+
+  return {
+    rating: muNext * SCALE,
+    deviation: Math.min(config.initial_deviation, Math.max(config.min_deviation, phiNext * SCALE)),
+    volatility: sigma,
+  };
+}
@@ -0,0 +1,143 @@
+// lib/rating/history.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isDoublesMode } from '@/lib/matches/doubles';
+import { NON_APPLIED_STATUSES } from '@/lib/matches/confirmation';
+
+/**
+ * 選手ごとの RP / HC 変動の履歴（確定済み・ランキング反映ありの試合のみ）
+ * - 個人戦（matches）・決勝（final_matches）・ダブルス（match_players の選手ごとの変動）をまとめて 1 試合 1 行にする
+ * - 団体戦はラバーの個人戦が matches に入るので、団体戦の行そのものは数えない
+ * - シーズン締めの RP リセット（season_standings.reset_points）も「試合以外の変動」として 1 行にする
+ * - 対戦成績の「対戦時点の RP」や順位スナップショットの積み直しで、現在値から引き戻すのに使う
+ */
+
+export type PlayerRatingDelta = {
+  player_id: string;
+  /** 試合 id（シーズンのリセットは 'season:<season_id>'） */
+  match_id: string;
+  /** match_date → created_at の順で埋めた ISO 文字列（リセットは締めた日時） */
+  match_date: string;
+  points_delta: number;
+  handicap_delta: number;
+};
+
+type AnyRow = Record<string, any>;
+
+const PAGE = 1000;
+const CHUNK = 200;
+
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+const dateOf = (r: AnyRow) => String(r.match_date ?? r.created_at ?? '');
+const isSkipped = (r: AnyRow) => NON_APPLIED_STATUSES.has(String(r.status ?? '').toLowerCase()) || r.affects_rating === false;
+const isSingles = (mode: unknown) => ['singles', 'single', 'player', ''].includes(String(mode ?? '').toLowerCase());
+
+/** PostgREST の 1000 行上限を越えて取る（playerIds があればその選手たちの行だけ） */
+async function fetchPaged(table: string, cols: string, filter?: (q: any) => any) {
+  const out: AnyRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    let q: any = supabaseAdmin.from(table).select(cols);
+    if (filter) q = filter(q);
+    const { data, error } = await q.order('id', { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} 取得に失敗しました: ${error.message}`);
+    const rows = (data ?? []) as AnyRow[];
+    out.push(...rows);
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+/** playerId は 1 人 / 複数（配列）/ 省略で全選手 */
+export async function loadRatingDeltas(playerId?: string | string[]): Promise<PlayerRatingDelta[]> {
+  const only = playerId === undefined ? null : Array.from(new Set(Array.isArray(playerId) ? playerId : [playerId]));
+  if (only && only.length === 0) return [];
+  const targets = only ? new Set(only) : null;
+  const inList = only ? `(${only.join(',')})` : '';
+  const sides = only ? (q: any) => q.or(`winner_id.in.${inList},loser_id.in.${inList}`) : undefined;
+
+  const [matchRows, finalRows, pairRows, resetRows] = await Promise.all([
+    fetchPaged(
+      'matches',
+      'id, mode, status, winner_id, loser_id, affects_rating, match_date, created_at, winner_points_delta, loser_points_delta, winner_handicap_delta, loser_handicap_delta',
+      sides,
+    ),
+    fetchPaged(
+      'final_matches',
+      'id, winner_id, loser_id, affects_rating, match_date, created_at, winner_points_change, loser_points_change, winner_handicap_change, loser_handicap_change',
+      sides,
+    ),
+    fetchPaged('match_players', 'id, match_id, player_id, points_delta, handicap_delta', (q) => {
+      const base = q.is('rubber_no', null);
+      return only ? base.in('player_id', only) : base;
+    }),
+    fetchPaged('season_standings', 'id, season_id, player_id, ranking_points, reset_points, seasons(closed_at)', (q) => {
+      const base = q.not('reset_points', 'is', null);
+      return only ? base.in('player_id', only) : base;
+    }),
+  ]);
+
+  const out: PlayerRatingDelta[] = [];
+  const push = (pid: unknown, r: AnyRow, points: unknown, handicap: unknown) => {
+    if (!pid || (targets && !targets.has(String(pid)))) return;
+    out.push({
+      player_id: String(pid),
+      match_id: String(r.id),
+      match_date: dateOf(r),
+      points_delta: toInt(points),
+      handicap_delta: toInt(handicap),
+    });
+  };
+
+  const doubles = new Map<string, AnyRow>();
+  for (const m of matchRows) {
+    if (isSkipped(m)) continue;
+    if (isDoublesMode(m.mode)) {
+      doubles.set(String(m.id), m);
+      continue;
+    }
+    if (!isSingles(m.mode)) continue;
+    push(m.winner_id, m, m.winner_points_delta, m.winner_handicap_delta);
+    push(m.loser_id, m, m.loser_points_delta, m.loser_handicap_delta);
+  }
+  for (const f of finalRows) {
+    if (f.affects_rating === false) continue;
+    push(f.winner_id, f, f.winner_points_change, f.winner_handicap_change);
+    push(f.loser_id, f, f.loser_points_change, f.loser_handicap_change);
+  }
+
+  // ダブルスのパートナー（winner_id / loser_id に入っていない選手）の試合は本体を別に引く
+  const missing = Array.from(new Set(pairRows.map((r) => String(r.match_id)))).filter((id) => !doubles.has(id));
+  for (let i = 0; i < missing.length; i += CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from('matches')
+      .select('id, mode, status, affects_rating, match_date, created_at')
+      .in('id', missing.slice(i, i + CHUNK));
+    if (error) throw new Error(`matches 取得に失敗しました: ${error.message}`);
+    for (const m of (data ?? []) as AnyRow[]) {
+      if (isDoublesMode(m.mode) && !isSkipped(m)) doubles.set(String(m.id), m);
+    }
+  }
+  for (const d of pairRows) {
+    const m = doubles.get(String(d.match_id));
+    if (m) push(d.player_id, m, d.points_delta, d.handicap_delta);
+  }
+
+  for (const r of resetRows) {
+    const closedAt = r.seasons?.closed_at;
+    const delta = toInt(r.reset_points) - toInt(r.ranking_points);
+    // 動かなかった選手（未出場で基準値のまま等）は行にしない
+    if (!closedAt || delta === 0) continue;
+    out.push({
+      player_id: String(r.player_id),
+      match_id: `season:${r.season_id}`,
+      match_date: String(closedAt),
+      points_delta: delta,
+      handicap_delta: 0,
+    });
+  }
+
+  return out;
+}
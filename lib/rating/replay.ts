@@ -0,0 +1,245 @@
+// lib/rating/replay.ts
+/**
+ * 試合履歴からの RP/HC/勝敗数の再計算（リプレイ）
+ * - 全員を初期値に戻し、試合を日時順に1件ずつ「選択中のレーティング方式」で積み直す
+ * - ダブルス（pair 付き）はペア平均で計算して 2 人で分ける（lib/rating/doubles と同じ）
+ * - シーズンを締めた時点（closed_at）では、その時点の RP に締めたときと同じリセット（lib/rating/seasons）をかけ直す
+ * - DB アクセスはしない（読み込み/書き込みは API 側）
+ */
+import type { GlickoBefore, RatingBaseline } from './config';
+import { calcDoublesRating, type DoublesPlayerDelta } from './doubles';
+import type { GlickoState } from './glicko2';
+import { regressPoints } from './seasons';
+import {
+  applyRatingMultiplier,
+  calcMatchRating,
+  ZERO_MATCH_RATING,
+  type MatchRatingResult,
+  type RatingSettings,
+} from './strategies';
+
+export type ReplayPlayerState = {
+  ranking_points: number;
+  handicap: number;
+  wins: number;
+  losses: number;
+  matches_played: number;
+};
+
+export type ReplayMatch = {
+  id: string;
+  /** matches は勝敗数も数える / final_matches は RP/HC のみ（報告 API と同じ扱い） */
+  source: 'matches' | 'final_matches';
+  winner_id: string | null;
+  loser_id: string | null;
+  winner_score: number | null;
+  loser_score: number | null;
+  affects_rating: boolean;
+  /** 登録時に掛けた大会係数（rating_multiplier。無ければ 1） */
+  multiplier: number;
+  /** 並び順のキー（match_date → created_at の順で埋めた ISO 文字列） */
+  sort_key: string;
+  /** ダブルスのときだけ：各ペアの 2 人（winner_id / loser_id は先頭の代表） */
+  pair?: { winner_ids: string[]; loser_ids: string[] } | null;
+};
+
+/** シーズン締めの RP リセット（リセットしなかったシーズンは渡さない） */
+export type ReplaySeasonReset = {
+  season_id: string;
+  /** 締めた日時（seasons.closed_at）。これより前の試合を積んだ後にかける */
+  sort_key: string;
+  regression: number;
+  base_rating: number;
+  /** リセットした選手（season_standings.reset_points が入っている選手） */
+  player_ids: string[];
+};
+
+export type ReplayMatchResult = {
+  id: string;
+  source: ReplayMatch['source'];
+  /** RP/HC を実際に動かしたか（ledger に載せる対象） */
+  applied: boolean;
+  /** ダブルスはペア単位の変動 */
+  delta: MatchRatingResult;
+  /** ダブルスのときだけ：選手ごとの変動（match_players に書き戻す） */
+  players?: DoublesPlayerDelta[];
+  /** Glicko-2 で反映したときだけ：反映前の RD / volatility（matches / final_matches.glicko_before） */
+  glicko_before?: GlickoBefore[] | null;
+};
+
+export type ReplayResult = {
+  players: Map<string, ReplayPlayerState>;
+  /** Glicko-2 の RD / volatility（Glicko-2 以外では全員初期値のまま） */
+  glicko: Map<string, GlickoState>;
+  matches: ReplayMatchResult[];
+  /** かけ直したシーズンのリセット（選手数） */
+  resets: Array<{ season_id: string; players: number }>;
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+const toInt = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export function sortReplayMatches(matches: ReplayMatch[]) {
+  // 同時刻は id で安定化（再実行しても同じ結果になるように）
+  return [...matches].sort((a, b) => {
+    if (a.sort_key !== b.sort_key) return a.sort_key < b.sort_key ? -1 : 1;
+    if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+    return 0;
+  });
+}
+
+/**
+ * @param playerIds 再計算の対象（ダミー以外）。ここに居ない選手が絡む試合は RP/HC を動かさない
+ */
+export function replayRatings(opts: {
+  playerIds: string[];
+  matches: ReplayMatch[];
+  settings: RatingSettings;
+  baseline: RatingBaseline;
+  resets?: ReplaySeasonReset[];
+}): ReplayResult {
+  const players = new Map<string, ReplayPlayerState>();
+  const glicko = new Map<string, GlickoState>();
+  for (const id of opts.playerIds) {
+    players.set(id, {
+      ranking_points: opts.baseline.base_rating,
+      handicap: opts.baseline.initial_handicap,
+      wins: 0,
+      losses: 0,
+      matches_played: 0,
+    });
+    glicko.set(id, {
+      deviation: opts.settings.glicko.initial_deviation,
+      volatility: opts.settings.glicko.initial_volatility,
+    });
+  }
+
+  const results: ReplayMatchResult[] = [];
+  const resets = [...(opts.resets ?? [])].sort((a, b) => (a.sort_key < b.sort_key ? -1 : a.sort_key > b.sort_key ? 1 : 0));
+  const resetResults: ReplayResult['resets'] = [];
+  let nextReset = 0;
+  const applyResetsBefore = (sortKey: string | null) => {
+    while (nextReset < resets.length && (sortKey === null || resets[nextReset].sort_key < sortKey)) {
+      const r = resets[nextReset++];
+      let count = 0;
+      for (const id of r.player_ids) {
+        const p = players.get(id);
+        if (!p) continue;
+        p.ranking_points = regressPoints(p.ranking_points, r.base_rating, r.regression);
+        count += 1;
+      }
+      resetResults.push({ season_id: r.season_id, players: count });
+    }
+  };
+
+  for (const m of sortReplayMatches(opts.matches)) {
+    applyResetsBefore(m.sort_key);
+
+    if (m.pair) {
+      results.push(replayDoubles(m, m.pair, players, opts.settings));
+      continue;
+    }
+
+    const w = m.winner_id ? players.get(m.winner_id) : undefined;
+    const l = m.loser_id ? players.get(m.loser_id) : undefined;
+
+    if (m.source === 'matches') {
+      if (w) {
+        w.wins += 1;
+        w.matches_played += 1;
+      }
+      if (l) {
+        l.losses += 1;
+        l.matches_played += 1;
+      }
+    }
+
+    if (!m.affects_rating || !w || !l) {
+      results.push({ id: m.id, source: m.source, applied: false, delta: ZERO_MATCH_RATING });
+      continue;
+    }
+
+    const scoreDiff = Math.max(1, toInt(m.winner_score, 0) - toInt(m.loser_score, 0));
+    const base = calcMatchRating(opts.settings, {
+      winnerPoints: w.ranking_points,
+      loserPoints: l.ranking_points,
+      winnerHandicap: w.handicap,
+      loserHandicap: l.handicap,
+      scoreDifference: scoreDiff,
+      winnerGlicko: glicko.get(m.winner_id!),
+      loserGlicko: glicko.get(m.loser_id!),
+    });
+    const delta = applyRatingMultiplier(base, m.multiplier);
+    const glicko_before =
+      delta.winnerGlicko || delta.loserGlicko
+        ? [m.winner_id!, m.loser_id!].map((id) => ({
+            id,
+            rating_deviation: glicko.get(id)?.deviation ?? null,
+            rating_volatility: glicko.get(id)?.volatility ?? null,
+          }))
+        : null;
+
+    w.ranking_points = clamp(w.ranking_points + delta.winnerPointsChange, 0, 99999);
+    l.ranking_points = clamp(l.ranking_points + delta.loserPointsChange, 0, 99999);
+    w.handicap = clamp(w.handicap + delta.winnerHandicapChange, 0, 50);
+    l.handicap = clamp(l.handicap + delta.loserHandicapChange, 0, 50);
+    if (delta.winnerGlicko) glicko.set(m.winner_id!, delta.winnerGlicko);
+    if (delta.loserGlicko) glicko.set(m.loser_id!, delta.loserGlicko);
+
+    results.push({ id: m.id, source: m.source, applied: true, delta, glicko_before });
+  }
+
+  applyResetsBefore(null);
+
+  return { players, glicko, matches: results, resets: resetResults };
+}
+
+function replayDoubles(
+  m: ReplayMatch,
+  pair: NonNullable<ReplayMatch['pair']>,
+  players: Map<string, ReplayPlayerState>,
+  settings: RatingSettings,
+): ReplayMatchResult {
+  const ws = pair.winner_ids.map((id) => players.get(id));
+  const ls = pair.loser_ids.map((id) => players.get(id));
+
+  if (m.source === 'matches') {
+    for (const p of ws) {
+      if (!p) continue;
+      p.wins += 1;
+      p.matches_played += 1;
+    }
+    for (const p of ls) {
+      if (!p) continue;
+      p.losses += 1;
+      p.matches_played += 1;
+    }
+  }
+
+  const all = [...ws, ...ls];
+  if (!m.affects_rating || all.length !== 4 || all.some((p) => !p)) {
+    return { id: m.id, source: m.source, applied: false, delta: ZERO_MATCH_RATING };
+  }
+
+  const rated = (id: string) => {
+    const p = players.get(id)!;
+    return { id, points: p.ranking_points, handicap: p.handicap };
+  };
+  const result = calcDoublesRating(settings, {
+    winners: pair.winner_ids.map(rated),
+    losers: pair.loser_ids.map(rated),
+    scoreDifference: Math.max(1, toInt(m.winner_score, 0) - toInt(m.loser_score, 0)),
+    multiplier: m.multiplier,
+  });
+
+  for (const d of result.players) {
+    const p = players.get(d.player_id)!;
+    p.ranking_points = clamp(p.ranking_points + d.pointsChange, 0, 99999);
+    p.handicap = clamp(p.handicap + d.handicapChange, 0, 50);
+  }
+
+  return { id: m.id, source: m.source, applied: true, delta: result.pair, players: result.players };
+}
@@ -0,0 +1,42 @@
+// lib/rating/seasons.ts
+/**
+ * シーズン締めの RP リセット（純粋関数。DB 側の season_close と同じ式）
+ * - regression = 0 ならそのまま、1 なら全員 base に戻す、0.5 なら base との差を半分にする
+ * - 管理画面のプレビューとレーティングのリプレイで使う（実際の書き込みは RPC season_close が 1 トランザクションで行う）
+ */
+
+export type SeasonStatus = 'active' | 'closed';
+
+export type Season = {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string | null;
+  status: SeasonStatus;
+  regression: number;
+  /** 締めたときの基準値（リプレイでリセットをかけ直すときに使う） */
+  base_rating: number | null;
+  closed_at: string | null;
+};
+
+/** 0..1 に丸める（不正/未設定は 0 = リセットしない） */
+export function normalizeRegression(v: unknown): number {
+  const n = typeof v === 'number' ? v : Number(v);
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(1, n));
+}
+
+export function regressPoints(points: number, base: number, regression: number): number {
+  const r = normalizeRegression(regression);
+  const next = Math.round(base + (points - base) * (1 - r));
+  return Math.max(0, Math.min(99999, next));
+}
+
+/** 「2026 春（4/1〜6/30）」のような表示用ラベル */
+export function seasonLabel(s: Pick<Season, 'name' | 'start_date' | 'end_date'>): string {
+  const md = (d: string) => {
+    const [, m, day] = d.slice(0, 10).split('-');
+    return `${Number(m)}/${Number(day)}`;
+  };
+  return `${s.name}（${md(s.start_date)}〜${s.end_date ? md(s.end_date) : ''}）`;
+}
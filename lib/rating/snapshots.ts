@@ -0,0 +1,99 @@
+// lib/rating/snapshots.ts
+/**
+ * 順位スナップショット（rank_snapshots）の積み直し（純粋関数：DB には触らない）
+ * - snapshot_date = D の値は「D の 0:00（JST）時点」= D の前日までの試合を反映した RP
+ * - 各選手の RP は現在値から、D 以降の試合の変動を引き戻して求める（管理者の手動調整は反映されない）
+ * - 最初の試合の翌日から載せる（まだ試合をしていない日は順位の対象外）
+ * - 順位は RP 降順の競技順位（同点は同順位、次は人数分飛ばす）
+ * - 日次の本番スナップショットは cron（/api/cron/rank-snapshot）が DB 関数で取る
+ */
+
+export type SnapshotPlayer = { id: string; points: number };
+
+export type SnapshotDelta = { player_id: string; match_date: string; points_delta: number };
+
+export type SnapshotRow = {
+  player_id: string;
+  snapshot_date: string;
+  rank: number;
+  ranking_points: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** ISO 日時 → JST の 'YYYY-MM-DD'（解釈できなければ null） */
+export function jstDateOf(v: string | Date): string | null {
+  const t = (v instanceof Date ? v : new Date(v)).getTime();
+  if (!Number.isFinite(t)) return null;
+  return new Date(t + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** 'YYYY-MM-DD' に n 日足す */
+export function addDays(day: string, n: number): string {
+  return new Date(new Date(`${day}T00:00:00Z`).getTime() + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** RP 降順の競技順位 */
+export function rankByPoints(rows: Array<{ player_id: string; points: number }>) {
+  const sorted = [...rows].sort((a, b) => b.points - a.points || a.player_id.localeCompare(b.player_id));
+  let rank = 0;
+  return sorted.map((r, i) => {
+    if (i === 0 || sorted[i - 1].points !== r.points) rank = i + 1;
+    return { player_id: r.player_id, rank, ranking_points: r.points };
+  });
+}
+
+/**
+ * from〜to（両端含む）の各日のスナップショットを作る
+ * - today: 現在値（players.ranking_points）が「today の試合まで反映済み」の基準日
+ */
+export function buildSnapshotHistory(input: {
+  players: SnapshotPlayer[];
+  deltas: SnapshotDelta[];
+  from: string;
+  to: string;
+  today: string;
+}): SnapshotRow[] {
+  const ids = new Set(input.players.map((p) => p.id));
+
+  // 選手ごと・日ごとの変動合計と最初の試合日
+  const byDay = new Map<string, Map<string, number>>();
+  const firstDay = new Map<string, string>();
+  for (const d of input.deltas) {
+    if (!ids.has(d.player_id)) continue;
+    const day = jstDateOf(d.match_date);
+    if (!day) continue;
+    const m = byDay.get(d.player_id) ?? new Map<string, number>();
+    m.set(day, (m.get(day) ?? 0) + d.points_delta);
+    byDay.set(d.player_id, m);
+    const f = firstDay.get(d.player_id);
+    if (!f || day < f) firstDay.set(d.player_id, day);
+  }
+
+  // today から遡って各日 0:00 時点の RP を出す（D の値 = 現在値 − D〜today の変動）
+  const pointsAt = new Map<string, Map<string, number>>();
+  for (const p of input.players) {
+    const first = firstDay.get(p.id);
+    if (!first) continue;
+    const days = byDay.get(p.id)!;
+    const out = new Map<string, number>();
+    let running = p.points;
+    for (let day = input.today; day >= input.from; day = addDays(day, -1)) {
+      running -= days.get(day) ?? 0;
+      if (day <= input.to && day > first) out.set(day, running);
+    }
+    pointsAt.set(p.id, out);
+  }
+
+  const rows: SnapshotRow[] = [];
+  for (let day = input.from; day <= input.to; day = addDays(day, 1)) {
+    const entries: Array<{ player_id: string; points: number }> = [];
+    pointsAt.forEach((m, player_id) => {
+      const points = m.get(day);
+      if (points !== undefined) entries.push({ player_id, points });
+    });
+    for (const r of rankByPoints(entries)) rows.push({ ...r, snapshot_date: day });
+  }
+  return rows;
+}
@@ -0,0 +1,137 @@
+// lib/rating/strategies.ts
+/**
+ * レーティング方式の切り替え口
+ * - ranking_config.rating_algorithm で選んだ方式で RP を、共通ルールで HC を計算する
+ * - 方式を足すときは RatingStrategy を実装して RATING_STRATEGIES に並べるだけ
+ */
+import { calcHandicapChange, calcRatingDelta, type RankingConfig, type RatingDelta, type RatingInput } from './engine';
+import { calcFixedPoints, type FixedPointsConfig } from './fixedPoints';
+import { normalizeGlickoState, updateGlicko, type GlickoConfig, type GlickoState } from './glicko2';
+
+export type RatingAlgorithm = 'elo' | 'glicko2' | 'fixed';
+
+export const DEFAULT_RATING_ALGORITHM: RatingAlgorithm = 'elo';
+
+/** 方式ごとに必要な設定をまとめたもの（loadRatingSettings で読み込む） */
+export type RatingSettings = {
+  algorithm: RatingAlgorithm;
+  ranking: RankingConfig;
+  fixed: FixedPointsConfig;
+  glicko: GlickoConfig;
+};
+
+export type MatchRatingInput = RatingInput & {
+  /** Glicko-2 用（players.rating_deviation / rating_volatility の生値。null/列欠けなら初期値） */
+  winnerGlicko?: { deviation?: unknown; volatility?: unknown } | null;
+  loserGlicko?: { deviation?: unknown; volatility?: unknown } | null;
+};
+
+export type MatchRatingResult = RatingDelta & {
+  /** 変動を計算した方式（レーティング対象外の試合は null） */
+  algorithm: RatingAlgorithm | null;
+  /** Glicko-2 のときだけ：試合後の RD / volatility（players に保存する） */
+  winnerGlicko: GlickoState | null;
+  loserGlicko: GlickoState | null;
+};
+
+export type RatingStrategy = {
+  id: RatingAlgorithm;
+  label: string;
+  description: string;
+  calc: (settings: RatingSettings, input: MatchRatingInput) => MatchRatingResult;
+};
+
+const eloStrategy: RatingStrategy = {
+  id: 'elo',
+  label: 'Elo（点差・HC 補正あり）',
+  description: 'K係数・点差倍率・HC差倍率で RP を増減します（従来の方式）。',
+  calc: (settings, input) => ({
+    ...calcRatingDelta(settings.ranking, input),
+    algorithm: 'elo',
+    winnerGlicko: null,
+    loserGlicko: null,
+  }),
+};
+
+const glicko2Strategy: RatingStrategy = {
+  id: 'glicko2',
+  label: 'Glicko-2',
+  description: '選手ごとの RD（不確かさ）を持ち、試合数の少ない選手ほど大きく動きます。点差は使いません。',
+  calc: (settings, input) => {
+    const wState = normalizeGlickoState(input.winnerGlicko?.deviation, input.winnerGlicko?.volatility, settings.glicko);
+    const lState = normalizeGlickoState(input.loserGlicko?.deviation, input.loserGlicko?.volatility, settings.glicko);
+    const w = { rating: input.winnerPoints, ...wState };
+    const l = { rating: input.loserPoints, ...lState };
+
+    // 両者とも「試合前」の相手の値で更新する
+    const wNext = updateGlicko(w, l, 1, settings.glicko);
+    const lNext = updateGlicko(l, w, 0, settings.glicko);
+
+    return {
+      winnerPointsChange: Math.round(wNext.rating - w.rating),
+      loserPointsChange: Math.round(lNext.rating - l.rating),
+      ...calcHandicapChange(settings.ranking, input.scoreDifference),
+      algorithm: 'glicko2',
+      winnerGlicko: { deviation: wNext.deviation, volatility: wNext.volatility },
+      loserGlicko: { deviation: lNext.deviation, volatility: lNext.volatility },
+    };
+  },
+};
+
+const fixedStrategy: RatingStrategy = {
+  id: 'fixed',
+  label: '固定ポイント',
+  description: '勝ち/負けで決まった点数を増減します（格上に勝つとボーナス、格下に負けるとペナルティ）。',
+  calc: (settings, input) => ({
+    ...calcFixedPoints(settings.fixed, input),
+    ...calcHandicapChange(settings.ranking, input.scoreDifference),
+    algorithm: 'fixed',
+    winnerGlicko: null,
+    loserGlicko: null,
+  }),
+};
+
+export const RATING_STRATEGIES: RatingStrategy[] = [eloStrategy, glicko2Strategy, fixedStrategy];
+
+export function isRatingAlgorithm(v: unknown): v is RatingAlgorithm {
+  return RATING_STRATEGIES.some((s) => s.id === v);
+}
+
+/** ranking_config.rating_algorithm（null/未知の値可）を方式 ID へ */
+export function normalizeRatingAlgorithm(v: unknown): RatingAlgorithm {
+  const s = String(v ?? '').trim().toLowerCase();
+  return isRatingAlgorithm(s) ? s : DEFAULT_RATING_ALGORITHM;
+}
+
+export function getRatingStrategy(id: RatingAlgorithm): RatingStrategy {
+  return RATING_STRATEGIES.find((s) => s.id === id) ?? eloStrategy;
+}
+
+/** 選択中の方式で1試合分の RP/HC 変動を計算する */
+export function calcMatchRating(settings: RatingSettings, input: MatchRatingInput): MatchRatingResult {
+  return getRatingStrategy(settings.algorithm).calc(settings, input);
+}
+
+/** レーティング対象外の試合（変動なし） */
+export const ZERO_MATCH_RATING: MatchRatingResult = {
+  winnerPointsChange: 0,
+  loserPointsChange: 0,
+  winnerHandicapChange: 0,
+  loserHandicapChange: 0,
+  algorithm: null,
+  winnerGlicko: null,
+  loserGlicko: null,
+};
+
+/**
+ * 大会係数（tournaments.bonus_coefficient）を RP 変動に掛ける
+ * - HC は係数の対象外（点差ルールのまま）
+ */
+export function applyRatingMultiplier(result: MatchRatingResult, multiplier: number): MatchRatingResult {
+  if (multiplier === 1) return result;
+  return {
+    ...result,
+    winnerPointsChange: Math.round(result.winnerPointsChange * multiplier),
+    loserPointsChange: Math.round(result.loserPointsChange * multiplier),
+  };
+}
@@ -0,0 +1,99 @@
+// lib/rating/teamElo.ts
+/**
+ * チームレーティング（団体戦の勝敗だけで動く Elo。メンバーの RP 平均とは独立）
+ * - 初期値 1500・K=32 の素直な Elo。勝った側が上がった分だけ負けた側が下がる（合計は変わらない）
+ * - 団体戦のスコアはラバーの勝ち数の試合も点数の試合もあるので、点差は使わない
+ * - DB アクセスはしない（反映は lib/rating/teamRating、全件の積み直しは /api/admin/team-ratings/recompute）
+ */
+
+export const TEAM_RATING_INITIAL = 1500;
+export const TEAM_RATING_K = 32;
+
+export type TeamRatingDelta = {
+  winnerChange: number;
+  loserChange: number;
+};
+
+const num = (v: unknown, fallback: number) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** 勝者の期待勝率から変動を出す（最低でも 1 動かす） */
+export function calcTeamRatingDelta(winnerRating: unknown, loserRating: unknown, k = TEAM_RATING_K): TeamRatingDelta {
+  const w = num(winnerRating, TEAM_RATING_INITIAL);
+  const l = num(loserRating, TEAM_RATING_INITIAL);
+  const expectedWinner = 1 / (1 + Math.pow(10, (l - w) / 400));
+  const change = Math.max(1, Math.round(k * (1 - expectedWinner)));
+  return { winnerChange: change, loserChange: -change };
+}
+
+export type TeamRatingMatch = {
+  id: string;
+  winner_team_id: string;
+  loser_team_id: string;
+  /** 並び順のキー（match_date → created_at の順で埋めた ISO 文字列） */
+  sort_key: string;
+};
+
+export type TeamRatingHistoryRow = {
+  team_id: string;
+  match_id: string;
+  opponent_team_id: string;
+  won: boolean;
+  rating_before: number;
+  rating_after: number;
+  delta: number;
+};
+
+export type TeamRatingState = {
+  rating: number;
+  rating_matches: number;
+};
+
+/** 全チームを初期値に戻して、団体戦を日時順に積み直す */
+export function replayTeamRatings(
+  teamIds: string[],
+  matches: TeamRatingMatch[],
+  k = TEAM_RATING_K,
+): { teams: Map<string, TeamRatingState>; history: TeamRatingHistoryRow[] } {
+  const teams = new Map<string, TeamRatingState>(
+    teamIds.map((id) => [id, { rating: TEAM_RATING_INITIAL, rating_matches: 0 }]),
+  );
+  const history: TeamRatingHistoryRow[] = [];
+
+  const ordered = [...matches].sort((a, b) => a.sort_key.localeCompare(b.sort_key) || a.id.localeCompare(b.id));
+  for (const m of ordered) {
+    const w = teams.get(m.winner_team_id);
+    const l = teams.get(m.loser_team_id);
+    if (!w || !l || m.winner_team_id === m.loser_team_id) continue;
+
+    const d = calcTeamRatingDelta(w.rating, l.rating, k);
+    history.push(
+      {
+        team_id: m.winner_team_id,
+        match_id: m.id,
+        opponent_team_id: m.loser_team_id,
+        won: true,
+        rating_before: w.rating,
+        rating_after: w.rating + d.winnerChange,
+        delta: d.winnerChange,
+      },
+      {
+        team_id: m.loser_team_id,
+        match_id: m.id,
+        opponent_team_id: m.winner_team_id,
+        won: false,
+        rating_before: l.rating,
+        rating_after: l.rating + d.loserChange,
+        delta: d.loserChange,
+      },
+    );
+    w.rating += d.winnerChange;
+    w.rating_matches += 1;
+    l.rating += d.loserChange;
+    l.rating_matches += 1;
+  }
+
+  return { teams, history };
+}
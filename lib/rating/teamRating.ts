@@ -0,0 +1,82 @@
+// lib/rating/teamRating.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { calcTeamRatingDelta, TEAM_RATING_INITIAL } from './teamElo';
+
+/**
+ * チームレーティングの反映（団体戦の確定から呼ぶ。無効化時の巻き戻しは RPC void_match）
+ * - 書き込みは RPC team_rating_apply の 1 トランザクション（team_rating_history と teams.rating を一緒に書く）
+ *   unique(match_id, team_id) で同じ試合の二重反映を防ぐ。計算中に他の試合で rating が動いていたら読み直す
+ * - レーティングは「できたら動かす」。失敗しても団体戦の登録自体は止めない（ログだけ残す。recompute で積み直せる）
+ */
+
+export type TeamRatingApplied = {
+  match_id: string;
+  winner_team_id: string;
+  loser_team_id: string;
+  winner_change: number;
+  loser_change: number;
+};
+
+/** 計算中に他の試合で rating が動いたときの読み直し回数 */
+const APPLY_ATTEMPTS = 3;
+
+const toInt = (v: unknown, fallback: number) => {
+  const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export async function applyTeamRating(
+  matchId: string,
+  winnerTeamId: string,
+  loserTeamId: string,
+): Promise<TeamRatingApplied | null> {
+  try {
+    if (!winnerTeamId || !loserTeamId || winnerTeamId === loserTeamId) return null;
+
+    for (let attempt = 0; attempt < APPLY_ATTEMPTS; attempt++) {
+      const { data: rows, error } = await supabaseAdmin
+        .from('teams')
+        .select('id,rating')
+        .in('id', [winnerTeamId, loserTeamId]);
+      if (error) throw error;
+
+      const w = rows?.find((t) => t.id === winnerTeamId);
+      const l = rows?.find((t) => t.id === loserTeamId);
+      if (!w || !l) return null;
+
+      const wR = toInt(w.rating, TEAM_RATING_INITIAL);
+      const lR = toInt(l.rating, TEAM_RATING_INITIAL);
+      const d = calcTeamRatingDelta(wR, lR);
+
+      const { data, error: rpcErr } = await supabaseAdmin.rpc('team_rating_apply', {
+        p_match_id: matchId,
+        p_winner_team_id: winnerTeamId,
+        p_loser_team_id: loserTeamId,
+        p_winner_before: wR,
+        p_loser_before: lR,
+        p_winner_change: d.winnerChange,
+        p_loser_change: d.loserChange,
+      });
+      if (rpcErr) {
+        if (String(rpcErr.message || '').includes('rating_conflict')) continue;
+        throw rpcErr;
+      }
+
+      // 既に反映済み
+      if ((data as { applied?: boolean } | null)?.applied !== true) return null;
+
+      return {
+        match_id: matchId,
+        winner_team_id: winnerTeamId,
+        loser_team_id: loserTeamId,
+        winner_change: d.winnerChange,
+        loser_change: d.loserChange,
+      };
+    }
+    throw new Error('rating_conflict: retry exceeded');
+  } catch (e) {
+    console.warn('[rating/teamRating] apply failed:', matchId, e);
+    return null;
+  }
+}
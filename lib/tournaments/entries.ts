@@ -0,0 +1,96 @@
+// lib/tournaments/entries.ts
+import 'server-only';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { MatchActionResult } from '@/lib/matches/confirmation';
+import type { Json } from '@/lib/database.types';
+import type { EntryStatus } from './entryStatus';
+
+/**
+ * 大会エントリーの書き込み（RPC tournament_entry_* / tournament_close_entries の呼び出しとエラーの言い換え）
+ * - 定員・キャンセル待ちの繰り上げ・締切のスナップショットは DB 側（1 呼び出し = 1 トランザクション）
+ * - 本人 / 管理者のチェックは呼び出し側の route で行う
+ */
+
+export type EntryResult = {
+  tournament_id: string;
+  player_id: string;
+  status: EntryStatus;
+  position?: number;
+  promoted?: number;
+};
+
+export type ReviewAction = 'approve' | 'reject' | 'waitlist';
+
+export function isReviewAction(v: unknown): v is ReviewAction {
+  return v === 'approve' || v === 'reject' || v === 'waitlist';
+}
+
+function entryError(context: string, error: { message?: string }): Extract<MatchActionResult, { ok: false }> {
+  const msg = String(error.message || '');
+  if (msg.includes('tournament_not_found')) return { ok: false, status: 404, message: '大会が見つかりません。' };
+  if (msg.includes('entry_not_found')) return { ok: false, status: 404, message: 'エントリーが見つかりません。' };
+  if (msg.includes('entry_closed')) return { ok: false, status: 409, message: 'エントリーの受付期間外です。' };
+  if (msg.includes('already_entered')) return { ok: false, status: 409, message: '既にエントリー済みです。' };
+  if (msg.includes('entry_rejected')) {
+    return { ok: false, status: 409, message: 'このエントリーは却下されています。運営にお問い合わせください。' };
+  }
+  if (msg.includes('entry_withdrawn')) return { ok: false, status: 409, message: '取り下げ済みのエントリーです。' };
+  if (msg.includes('already_closed')) return { ok: false, status: 409, message: 'エントリーは既に締め切られています。' };
+  if (msg.includes('invalid_argument')) return { ok: false, status: 400, message: '指定が不正です。' };
+  return { ok: false, status: 500, message: `${context}に失敗しました: ${msg}` };
+}
+
+export async function applyEntry(tournamentId: string, playerId: string): Promise<MatchActionResult<{ result: EntryResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('tournament_entry_apply', {
+    p_tournament_id: tournamentId,
+    p_player_id: playerId,
+  });
+  if (error) return entryError('エントリー', error);
+  return { ok: true, result: data as unknown as EntryResult };
+}
+
+export async function withdrawEntry(
+  tournamentId: string,
+  playerId: string,
+): Promise<MatchActionResult<{ result: EntryResult }>> {
+  const { data, error } = await supabaseAdmin.rpc('tournament_entry_withdraw', {
+    p_tournament_id: tournamentId,
+    p_player_id: playerId,
+  });
+  if (error) return entryError('エントリーの取り下げ', error);
+  return { ok: true, result: data as unknown as EntryResult };
+}
+
+export async function reviewEntry(
+  registrationId: string,
+  action: ReviewAction,
+  reviewedBy: string,
+): Promise<MatchActionResult<{ result: EntryResult & { id: string } }>> {
+  const { data, error } = await supabaseAdmin.rpc('tournament_entry_review', {
+    p_registration_id: registrationId,
+    p_action: action,
+    p_reviewed_by: reviewedBy,
+  });
+  if (error) return entryError('エントリーの更新', error);
+  return { ok: true, result: data as unknown as EntryResult & { id: string } };
+}
+
+export async function reorderEntries(
+  tournamentId: string,
+  registrationIds: string[],
+): Promise<MatchActionResult<{ updated: number }>> {
+  const { data, error } = await supabaseAdmin.rpc('tournament_entry_reorder', {
+    p_tournament_id: tournamentId,
+    p_ids: registrationIds as unknown as Json,
+  });
+  if (error) return entryError('並べ替え', error);
+  return { ok: true, updated: Number(data ?? 0) };
+}
+
+export async function closeEntries(
+  tournamentId: string,
+): Promise<MatchActionResult<{ result: { tournament_id: string; participants: number } }>> {
+  const { data, error } = await supabaseAdmin.rpc('tournament_close_entries', { p_tournament_id: tournamentId });
+  if (error) return entryError('エントリーの締切', error);
+  return { ok: true, result: data as unknown as { tournament_id: string; participants: number } };
+}
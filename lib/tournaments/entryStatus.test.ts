@@ -0,0 +1,70 @@
+// lib/tournaments/entryStatus.test.ts
+import { describe, expect, it } from 'vitest';
+import { entryCapacity, entryWindowOf, isActiveEntry, isEntryStatus } from './entryStatus';
+
+describe('isEntryStatus', () => {
+  it('定義済みの状態だけ true', () => {
+    expect(isEntryStatus('entered')).toBe(true);
+    expect(isEntryStatus('withdrawn')).toBe(true);
+    expect(isEntryStatus('pending')).toBe(false);
+    expect(isEntryStatus('')).toBe(false);
+    expect(isEntryStatus(null)).toBe(false);
+    expect(isEntryStatus(1)).toBe(false);
+  });
+});
+
+describe('isActiveEntry', () => {
+  it('定員に数えるのは entered / approved だけ', () => {
+    expect(isActiveEntry('entered')).toBe(true);
+    expect(isActiveEntry('approved')).toBe(true);
+    expect(isActiveEntry('waitlisted')).toBe(false);
+    expect(isActiveEntry('rejected')).toBe(false);
+    expect(isActiveEntry('withdrawn')).toBe(false);
+    expect(isActiveEntry(null)).toBe(false);
+  });
+});
+
+describe('entryWindowOf', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('受付を開いていなければ受付前', () => {
+    expect(entryWindowOf({ entry_open: false }, now)).toBe('not_open');
+    expect(entryWindowOf({}, now)).toBe('not_open');
+  });
+
+  it('開いていて締切前なら受付中', () => {
+    expect(entryWindowOf({ entry_open: true }, now)).toBe('open');
+    expect(entryWindowOf({ entry_open: true, entry_deadline: '2026-10-20T00:00:00Z' }, now)).toBe('open');
+  });
+
+  it('締切を過ぎたら（ちょうどでも）確定待ち', () => {
+    expect(entryWindowOf({ entry_open: true, entry_deadline: '2026-10-19T12:00:00Z' }, now)).toBe('deadline_passed');
+    expect(entryWindowOf({ entry_open: false, entry_deadline: '2026-10-18T00:00:00Z' }, now)).toBe('deadline_passed');
+  });
+
+  it('締め処理済みなら締切や受付の設定より優先して締切済み', () => {
+    expect(
+      entryWindowOf(
+        { entry_open: true, entry_deadline: '2026-10-20T00:00:00Z', entries_closed_at: '2026-10-19T00:00:00Z' },
+        now,
+      ),
+    ).toBe('closed');
+  });
+});
+
+describe('entryCapacity', () => {
+  it('正の数は整数に切り捨てた定員', () => {
+    expect(entryCapacity(16)).toBe(16);
+    expect(entryCapacity('8')).toBe(8);
+    expect(entryCapacity(7.9)).toBe(7);
+  });
+
+  it('0 / 負 / 未設定 / 数値でないものは無制限（null）', () => {
+    expect(entryCapacity(0)).toBeNull();
+    expect(entryCapacity(-4)).toBeNull();
+    expect(entryCapacity(null)).toBeNull();
+    expect(entryCapacity(undefined)).toBeNull();
+    expect(entryCapacity('abc')).toBeNull();
+    expect(entryCapacity(0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+// lib/tournaments/entryStatus.ts
+
+/**
+ * 大会エントリーの状態（純粋関数：公開ページ / 管理画面 / API で共用）
+ * - entered：定員内で申し込み済み / approved：管理者が承認（締切時に entered もこれにそろう）
+ * - waitlisted：キャンセル待ち / rejected：却下 / withdrawn：取り下げ
+ */
+
+export const ENTRY_STATUSES = ['entered', 'waitlisted', 'approved', 'rejected', 'withdrawn'] as const;
+
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  entered: '申込済み',
+  waitlisted: 'キャンセル待ち',
+  approved: '承認済み',
+  rejected: '却下',
+  withdrawn: '取り下げ',
+};
+
+export function isEntryStatus(v: unknown): v is EntryStatus {
+  return typeof v === 'string' && (ENTRY_STATUSES as readonly string[]).includes(v);
+}
+
+/** 定員に数える状態 */
+export function isActiveEntry(status: string | null | undefined): boolean {
+  return status === 'entered' || status === 'approved';
+}
+
+export type EntryWindow = 'not_open' | 'open' | 'deadline_passed' | 'closed';
+
+export const ENTRY_WINDOW_LABELS: Record<EntryWindow, string> = {
+  not_open: '受付前',
+  open: '受付中',
+  deadline_passed: '締切済み（確定待ち）',
+  closed: '締切済み',
+};
+
+/** 受付状態（tournaments.entry_open / entry_deadline / entries_closed_at から） */
+export function entryWindowOf(
+  t: { entry_open?: boolean | null; entry_deadline?: string | null; entries_closed_at?: string | null },
+  now: Date = new Date(),
+): EntryWindow {
+  if (t.entries_closed_at) return 'closed';
+  if (t.entry_deadline && now.getTime() >= new Date(t.entry_deadline).getTime()) return 'deadline_passed';
+  return t.entry_open ? 'open' : 'not_open';
+}
+
+/** 定員（tournaments.size。0 / 未設定は無制限 = null） */
+export function entryCapacity(size: number | string | null | undefined): number | null {
+  const n = Math.trunc(Number(size));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
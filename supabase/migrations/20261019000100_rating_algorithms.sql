@@ -0,0 +1,35 @@
+-- レーティング方式の切り替え（elo / glicko2 / fixed）
+-- - ranking_config.rating_algorithm: 管理画面（/admin/ranking-config）で選ぶ方式
+-- - players.rating_deviation / rating_volatility: Glicko-2 の選手ごとの状態（null は初期値扱い）
+-- - matches / final_matches.rating_algorithm: その試合の変動を計算した方式（対象外の試合は null）
+
+alter table public.ranking_config
+  add column if not exists rating_algorithm text not null default 'elo';
+
+alter table public.ranking_config
+  drop constraint if exists ranking_config_rating_algorithm_check;
+alter table public.ranking_config
+  add constraint ranking_config_rating_algorithm_check
+  check (rating_algorithm in ('elo', 'glicko2', 'fixed'));
+
+alter table public.players
+  add column if not exists rating_deviation double precision,
+  add column if not exists rating_volatility double precision;
+
+alter table public.matches
+  add column if not exists rating_algorithm text;
+
+alter table public.final_matches
+  add column if not exists rating_algorithm text;
+
+-- 既存のレーティング対象試合は従来方式（Elo）で計算されている
+update public.matches
+   set rating_algorithm = 'elo'
+ where rating_algorithm is null
+   and affects_rating is true;
+
+update public.final_matches
+   set rating_algorithm = 'elo'
+ where rating_algorithm is null
+   and affects_rating is true
+   and coalesce(winner_points_change, 0) <> 0;
@@ -0,0 +1,9 @@
+-- 大会係数（tournaments.bonus_coefficient）を RP 変動に掛けた倍率を試合ごとに残す
+-- - 通常の試合・レーティング対象外の試合は 1
+-- - 管理画面の「レーティング再計算」はこの値を使って積み直す
+
+alter table public.matches
+  add column if not exists rating_multiplier numeric not null default 1;
+
+alter table public.final_matches
+  add column if not exists rating_multiplier numeric not null default 1;
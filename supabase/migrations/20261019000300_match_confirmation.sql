@@ -0,0 +1,25 @@
+-- 試合結果の確認フロー（報告 → 相手が確認/異議 → 確定）
+-- - matches.status: 'submitted'（相手の確認待ち） / 'disputed'（異議あり・管理者対応待ち） / 'finalized' / 'voided'
+--   ※ 'pending' はリーグの未実施試合で使用中のため確認待ちには使わない
+-- - RP/HC は 'finalized' になった時点で反映する（lib/matches/confirmation.ts）
+-- - ranking_config.auto_confirm_hours: 確認が無いまま経過したら自動確定する時間（0 = 自動確定しない）
+
+alter table public.matches
+  add column if not exists confirmed_by uuid,
+  add column if not exists confirmed_at timestamptz,
+  add column if not exists disputed_by uuid,
+  add column if not exists disputed_at timestamptz,
+  add column if not exists dispute_reason text;
+
+alter table public.ranking_config
+  add column if not exists auto_confirm_hours integer not null default 48;
+
+alter table public.ranking_config
+  drop constraint if exists ranking_config_auto_confirm_hours_check;
+alter table public.ranking_config
+  add constraint ranking_config_auto_confirm_hours_check
+  check (auto_confirm_hours between 0 and 720);
+
+-- 自動確定の対象検索用
+create index if not exists matches_status_created_at_idx
+  on public.matches (status, created_at);
@@ -0,0 +1,112 @@
+-- 試合の無効化（管理者）＋ RP/HC・勝敗数の巻き戻し
+-- - 物理削除はせず status='voided' にして、誰が/いつ/なぜ を残す
+-- - 反映済みの試合だけ、保存されている変動値（*_delta → 無ければ *_change）を逆に適用する
+-- - 1 関数 = 1 トランザクションなので、途中で失敗しても半端に巻き戻った状態は残らない
+-- ※ Glicko-2 の RD / volatility は戻さない（必要ならダッシュボードの「レーティング再計算」で整える）
+
+alter table public.matches
+  add column if not exists voided_by uuid,
+  add column if not exists voided_at timestamptz,
+  add column if not exists void_reason text;
+
+create or replace function public.void_match(
+  p_match_id uuid,
+  p_voided_by uuid,
+  p_reason text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.matches%rowtype;
+  v_applied boolean;
+  v_teams boolean;
+  v_wpd integer := 0;
+  v_lpd integer := 0;
+  v_whd integer := 0;
+  v_lhd integer := 0;
+  v_winner_team uuid;
+  v_loser_team uuid;
+begin
+  select * into m from public.matches where id = p_match_id for update;
+  if not found then
+    raise exception 'match_not_found' using errcode = 'P0002';
+  end if;
+  if m.status in ('voided', 'void') then
+    raise exception 'already_voided' using errcode = 'P0001';
+  end if;
+
+  -- 未実施/確認待ち/異議ありは何も反映されていない
+  v_applied := m.status not in ('pending', 'scheduled', 'draft', 'submitted', 'disputed', 'canceled', 'cancelled')
+               and m.winner_id is not null
+               and m.loser_id is not null;
+  v_teams := lower(coalesce(m.mode, '')) like 'team%';
+
+  if v_applied and not v_teams then
+    if coalesce(m.affects_rating, false) then
+      v_wpd := coalesce(m.winner_points_delta, m.winner_points_change, 0);
+      v_lpd := coalesce(m.loser_points_delta, m.loser_points_change, 0);
+      v_whd := coalesce(m.winner_handicap_delta, m.winner_handicap_change, 0);
+      v_lhd := coalesce(m.loser_handicap_delta, m.loser_handicap_change, 0);
+    end if;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_wpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_whd)),
+           wins           = greatest(0, coalesce(wins, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.winner_id;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_lpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_lhd)),
+           losses         = greatest(0, coalesce(losses, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.loser_id;
+  end if;
+
+  if v_applied and v_teams then
+    select team_id into v_winner_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.winner_team_no, 1) limit 1;
+    select team_id into v_loser_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.loser_team_no, 2) limit 1;
+
+    if v_winner_team is not null then
+      update public.teams
+         set wins = greatest(0, coalesce(wins, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_winner_team;
+    end if;
+    if v_loser_team is not null then
+      update public.teams
+         set losses = greatest(0, coalesce(losses, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_loser_team;
+    end if;
+  end if;
+
+  update public.matches
+     set status = 'voided',
+         voided_by = p_voided_by,
+         voided_at = now(),
+         void_reason = nullif(trim(coalesce(p_reason, '')), '')
+   where id = m.id;
+
+  return jsonb_build_object(
+    'match_id', m.id,
+    'previous_status', m.status,
+    'reverted', v_applied,
+    'mode', case when v_teams then 'teams' else 'singles' end,
+    'winner_id', m.winner_id,
+    'loser_id', m.loser_id,
+    'winner_points_delta', v_wpd,
+    'loser_points_delta', v_lpd,
+    'winner_handicap_delta', v_whd,
+    'loser_handicap_delta', v_lhd
+  );
+end;
+$$;
+
+revoke all on function public.void_match(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function public.void_match(uuid, uuid, text) to service_role;
@@ -0,0 +1,98 @@
+-- 管理操作の監査ログ
+-- - サーバ側の管理 API は lib/audit/log.ts の recordAudit() で 1 操作 = 1 行を書く
+-- - 管理画面から直接 update される表（final_round_entries / final_matches / league_blocks など）はトリガーで記録する
+-- - player_id / tournament_id は「絞り込み用」の関連 ID（対象そのものとは限らない）
+
+create table if not exists public.admin_audit_log (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  actor_id uuid,
+  action text not null,
+  target_table text,
+  target_id text,
+  player_id uuid,
+  tournament_id uuid,
+  before jsonb,
+  after jsonb,
+  metadata jsonb
+);
+
+create index if not exists admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_actor_idx on public.admin_audit_log (actor_id, created_at desc);
+create index if not exists admin_audit_log_player_idx on public.admin_audit_log (player_id, created_at desc);
+create index if not exists admin_audit_log_tournament_idx on public.admin_audit_log (tournament_id, created_at desc);
+create index if not exists admin_audit_log_target_idx on public.admin_audit_log (target_table, target_id);
+
+-- 読み書きは service role（管理 API）のみ
+alter table public.admin_audit_log enable row level security;
+revoke all on public.admin_audit_log from anon, authenticated;
+
+-- 管理画面（ブラウザ）から直接 update される表はトリガーで記録する
+-- - auth.uid() がある = クライアント経由。サーバ API（service role）からの更新は API 側で記録済みなので二重に書かない
+create or replace function public.audit_admin_client_mutation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  v_old jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_tournament uuid;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  -- 絞り込み用の大会 ID（行に無ければ bracket / league block からたどる）
+  if tg_table_name = 'tournaments' then
+    v_tournament := (v_row ->> 'id')::uuid;
+  elsif v_row ? 'tournament_id' then
+    v_tournament := nullif(v_row ->> 'tournament_id', '')::uuid;
+  end if;
+  if v_tournament is null and nullif(v_row ->> 'bracket_id', '') is not null then
+    select b.tournament_id into v_tournament from public.final_brackets b where b.id = (v_row ->> 'bracket_id')::uuid;
+  end if;
+  if v_tournament is null and nullif(v_row ->> 'league_block_id', '') is not null then
+    select lb.tournament_id into v_tournament from public.league_blocks lb where lb.id = (v_row ->> 'league_block_id')::uuid;
+  end if;
+
+  insert into public.admin_audit_log (actor_id, action, target_table, target_id, player_id, tournament_id, before, after, metadata)
+  values (
+    auth.uid(),
+    tg_table_name || '.' || lower(tg_op),
+    tg_table_name,
+    v_row ->> 'id',
+    nullif(coalesce(v_row ->> 'player_id', v_row ->> 'winner_id', v_row ->> 'winner_player_id'), '')::uuid,
+    v_tournament,
+    v_old,
+    v_new,
+    jsonb_build_object('source', 'trigger')
+  );
+
+  return null;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'final_round_entries',
+    'final_matches',
+    'final_brackets',
+    'league_blocks',
+    'league_block_members',
+    'tournaments'
+  ] loop
+    execute format('drop trigger if exists %I on public.%I', t || '_admin_audit', t);
+    execute format(
+      'create trigger %I after insert or update or delete on public.%I
+         for each row execute function public.audit_admin_client_mutation()',
+      t || '_admin_audit', t
+    );
+  end loop;
+end;
+$$;
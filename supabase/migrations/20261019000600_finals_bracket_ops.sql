@@ -0,0 +1,477 @@
+-- 決勝トーナメントの構造変更をサーバ側の RPC に集約
+-- - これまで管理画面（ブラウザ）から final_brackets / final_round_entries / final_matches を直接書いていた処理を置き換える
+-- - 1 関数 = 1 トランザクション。bracket 行を for update で押さえてから触るので、同時操作でも枠番号が重複しない
+-- - 結果を消す/ラウンドを消すときは、反映済みの RP/HC（*_change）を先に巻き戻す（決勝Tは勝敗数を触らない）
+-- ※ 実行は service_role のみ（/api/admin/finals/* が管理者チェック後に呼ぶ）
+
+-- ─────────────────────────────────────────────
+-- 内部用：結果の巻き戻し / クリア
+-- ─────────────────────────────────────────────
+create or replace function public.finals_revert_results(
+  p_bracket_id uuid,
+  p_from_round integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select id, winner_id, loser_id,
+           winner_points_change, loser_points_change,
+           winner_handicap_change, loser_handicap_change
+      from public.final_matches
+     where bracket_id = p_bracket_id
+       and round_no >= p_from_round
+       and affects_rating
+       and (winner_id is not null or loser_id is not null)
+     for update
+  loop
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(r.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(r.winner_handicap_change, 0)))
+     where id = r.winner_id;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(r.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(r.loser_handicap_change, 0)))
+     where id = r.loser_id;
+
+    n := n + 1;
+  end loop;
+
+  update public.final_matches
+     set winner_points_change = 0,
+         loser_points_change = 0,
+         winner_handicap_change = 0,
+         loser_handicap_change = 0
+   where bracket_id = p_bracket_id
+     and round_no >= p_from_round;
+
+  return n;
+end;
+$$;
+
+create or replace function public.finals_clear_results(
+  p_bracket_id uuid,
+  p_from_round integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  perform public.finals_revert_results(p_bracket_id, p_from_round);
+
+  update public.final_matches
+     set winner_id = null,
+         loser_id = null,
+         winner_score = null,
+         loser_score = null,
+         winner_sets = null,
+         loser_sets = null,
+         sets = null,
+         sets_json = null,
+         finish_reason = 'normal',
+         end_reason = 'normal',
+         updated_at = now()
+   where bracket_id = p_bracket_id
+     and round_no >= p_from_round
+     and (winner_id is not null or loser_id is not null);
+  get diagnostics n = row_count;
+
+  update public.final_brackets
+     set champion_player_id = null,
+         updated_at = now()
+   where id = p_bracket_id
+     and max_round >= p_from_round
+     and champion_player_id is not null;
+
+  return n;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 作成：R1 の枠だけ作る（R2 以降は管理画面から手動追加）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_create_bracket(
+  p_tournament_id uuid,
+  p_title text,
+  p_seeds uuid[]
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_size integer := coalesce(array_length(p_seeds, 1), 0);
+  v_rounds integer;
+  b public.final_brackets%rowtype;
+begin
+  if v_size < 2 or (v_size & (v_size - 1)) <> 0 then
+    raise exception 'invalid_seed_count' using errcode = 'P0001';
+  end if;
+
+  -- 同じ大会への同時作成を直列化
+  perform pg_advisory_xact_lock(hashtext('final_brackets:' || p_tournament_id::text));
+  if exists (select 1 from public.final_brackets where tournament_id = p_tournament_id) then
+    raise exception 'bracket_exists' using errcode = 'P0001';
+  end if;
+
+  v_rounds := round(log(2, v_size))::integer;
+
+  insert into public.final_brackets (tournament_id, title, max_round)
+  values (p_tournament_id, coalesce(nullif(trim(p_title), ''), '決勝トーナメント'), v_rounds)
+  returning * into b;
+
+  insert into public.final_round_entries (bracket_id, round_no, slot_no, player_id)
+  select b.id, 1, s.ord::integer, s.pid
+    from unnest(p_seeds) with ordinality as s(pid, ord);
+
+  return jsonb_build_object(
+    'bracket', jsonb_build_object(
+      'id', b.id,
+      'tournament_id', b.tournament_id,
+      'title', b.title,
+      'max_round', b.max_round,
+      'created_at', b.created_at
+    ),
+    'size', v_size
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 枠追加（ラウンド追加も同じ：空のラウンドに 2 枠足す）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_add_slots(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_count integer default 2
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_max integer;
+  v_cleared integer;
+begin
+  if p_round_no is null or p_round_no < 1 or p_count is null or p_count < 1 or p_count > 64 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select coalesce(max(slot_no), 0) into v_max
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and round_no = p_round_no;
+
+  insert into public.final_round_entries (bracket_id, round_no, slot_no, player_id)
+  select p_bracket_id, p_round_no, v_max + g, null
+    from generate_series(1, p_count) as g;
+
+  v_cleared := public.finals_clear_results(p_bracket_id, p_round_no);
+
+  update public.final_brackets
+     set max_round = greatest(max_round, p_round_no),
+         updated_at = now()
+   where id = p_bracket_id;
+
+  return jsonb_build_object(
+    'bracket_id', p_bracket_id,
+    'round_no', p_round_no,
+    'first_slot', v_max + 1,
+    'added', p_count,
+    'cleared_matches', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- ラウンド削除：p_from_round 以降の枠と試合をまとめて消す
+-- ─────────────────────────────────────────────
+create or replace function public.finals_delete_rounds(
+  p_bracket_id uuid,
+  p_from_round integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reverted integer;
+  v_matches integer;
+  v_entries integer;
+begin
+  if p_from_round is null or p_from_round < 1 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  v_reverted := public.finals_revert_results(p_bracket_id, p_from_round);
+
+  delete from public.final_matches where bracket_id = p_bracket_id and round_no >= p_from_round;
+  get diagnostics v_matches = row_count;
+
+  delete from public.final_round_entries where bracket_id = p_bracket_id and round_no >= p_from_round;
+  get diagnostics v_entries = row_count;
+
+  update public.final_brackets
+     set champion_player_id = case when max_round >= p_from_round then null else champion_player_id end,
+         updated_at = now()
+   where id = p_bracket_id;
+
+  return jsonb_build_object(
+    'bracket_id', p_bracket_id,
+    'from_round', p_from_round,
+    'deleted_matches', v_matches,
+    'deleted_entries', v_entries,
+    'reverted_matches', v_reverted
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 枠の選手変更：そのラウンド以降の結果はクリア
+-- ─────────────────────────────────────────────
+create or replace function public.finals_set_slot(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_slot_no integer,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry_id uuid;
+  v_prev uuid;
+  v_cleared integer;
+begin
+  if p_round_no is null or p_round_no < 1 or p_slot_no is null or p_slot_no < 1 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select id, player_id into v_entry_id, v_prev
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and round_no = p_round_no and slot_no = p_slot_no
+   limit 1;
+
+  if v_entry_id is null then
+    insert into public.final_round_entries (bracket_id, round_no, slot_no, player_id)
+    values (p_bracket_id, p_round_no, p_slot_no, p_player_id)
+    returning id into v_entry_id;
+  else
+    update public.final_round_entries
+       set player_id = p_player_id,
+           updated_at = now()
+     where id = v_entry_id;
+  end if;
+
+  v_cleared := public.finals_clear_results(p_bracket_id, p_round_no);
+
+  return jsonb_build_object(
+    'entry_id', v_entry_id,
+    'bracket_id', p_bracket_id,
+    'round_no', p_round_no,
+    'slot_no', p_slot_no,
+    'player_id', p_player_id,
+    'previous_player_id', v_prev,
+    'cleared_matches', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 結果の保存：前回分の巻き戻し → 試合行 upsert → 今回分の反映 → 優勝者更新
+-- - 変動値（*_change）はアプリ側で選択中のレーティング方式により計算済みのものを受け取る
+-- ─────────────────────────────────────────────
+create or replace function public.finals_apply_report(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer,
+  p_match jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b public.final_brackets%rowtype;
+  prev public.final_matches%rowtype;
+  v_id uuid;
+  v_winner uuid := nullif(p_match->>'winner_id', '')::uuid;
+  v_loser uuid := nullif(p_match->>'loser_id', '')::uuid;
+  v_affects boolean := coalesce((p_match->>'affects_rating')::boolean, false);
+  v_reason text := coalesce(nullif(p_match->>'end_reason', ''), 'normal');
+  v_sets jsonb := nullif(p_match->'sets', 'null'::jsonb);
+  v_wpc integer := coalesce((p_match->>'winner_points_change')::integer, 0);
+  v_lpc integer := coalesce((p_match->>'loser_points_change')::integer, 0);
+  v_whc integer := coalesce((p_match->>'winner_handicap_change')::integer, 0);
+  v_lhc integer := coalesce((p_match->>'loser_handicap_change')::integer, 0);
+  v_champion boolean := false;
+begin
+  if p_round_no is null or p_round_no < 1 or p_match_no is null or p_match_no < 1 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into b from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select * into prev
+    from public.final_matches
+   where bracket_id = p_bracket_id and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if found and prev.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.winner_handicap_change, 0)))
+     where id = prev.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.loser_handicap_change, 0)))
+     where id = prev.loser_id;
+  end if;
+
+  if prev.id is null then
+    insert into public.final_matches (bracket_id, round_no, match_no)
+    values (p_bracket_id, p_round_no, p_match_no)
+    returning id into v_id;
+  else
+    v_id := prev.id;
+  end if;
+
+  update public.final_matches
+     set winner_id = v_winner,
+         loser_id = v_loser,
+         winner_score = nullif(p_match->>'winner_score', '')::integer,
+         loser_score = nullif(p_match->>'loser_score', '')::integer,
+         winner_sets = nullif(p_match->>'winner_sets', '')::integer,
+         loser_sets = nullif(p_match->>'loser_sets', '')::integer,
+         affects_rating = v_affects,
+         end_reason = v_reason,
+         finish_reason = v_reason,
+         sets = v_sets,
+         sets_json = v_sets,
+         winner_points_change = v_wpc,
+         loser_points_change = v_lpc,
+         winner_handicap_change = v_whc,
+         loser_handicap_change = v_lhc,
+         rating_algorithm = nullif(p_match->>'rating_algorithm', ''),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, 1),
+         updated_at = now()
+   where id = v_id;
+
+  if v_affects then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_wpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_whc))
+     where id = v_winner;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_lpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_lhc))
+     where id = v_loser;
+  end if;
+
+  if p_round_no = b.max_round and p_match_no = 1 then
+    update public.final_brackets
+       set champion_player_id = v_winner,
+           updated_at = now()
+     where id = b.id;
+    v_champion := true;
+  end if;
+
+  return jsonb_build_object(
+    'id', v_id,
+    'bracket_id', p_bracket_id,
+    'round_no', p_round_no,
+    'match_no', p_match_no,
+    'replaced', prev.id is not null,
+    'champion_updated', v_champion
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 大会の決勝トーナメントを丸ごと削除（反映済み RP/HC も巻き戻す）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_reset(
+  p_tournament_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+  v_id uuid;
+  v_reverted integer := 0;
+  v_matches integer;
+  v_entries integer;
+  v_brackets integer;
+begin
+  perform pg_advisory_xact_lock(hashtext('final_brackets:' || p_tournament_id::text));
+
+  select coalesce(array_agg(id), '{}') into v_ids
+    from (select id from public.final_brackets where tournament_id = p_tournament_id for update) s;
+
+  foreach v_id in array v_ids loop
+    v_reverted := v_reverted + public.finals_revert_results(v_id, 1);
+  end loop;
+
+  delete from public.final_matches where bracket_id = any(v_ids);
+  get diagnostics v_matches = row_count;
+  delete from public.final_round_entries where bracket_id = any(v_ids);
+  get diagnostics v_entries = row_count;
+  delete from public.final_round_labels where bracket_id = any(v_ids);
+  delete from public.final_brackets where id = any(v_ids);
+  get diagnostics v_brackets = row_count;
+
+  return jsonb_build_object(
+    'tournament_id', p_tournament_id,
+    'brackets', v_brackets,
+    'entries', v_entries,
+    'matches', v_matches,
+    'reverted_matches', v_reverted
+  );
+end;
+$$;
+
+revoke all on function public.finals_revert_results(uuid, integer) from public, anon, authenticated;
+revoke all on function public.finals_clear_results(uuid, integer) from public, anon, authenticated;
+revoke all on function public.finals_create_bracket(uuid, text, uuid[]) from public, anon, authenticated;
+revoke all on function public.finals_add_slots(uuid, integer, integer) from public, anon, authenticated;
+revoke all on function public.finals_delete_rounds(uuid, integer) from public, anon, authenticated;
+revoke all on function public.finals_set_slot(uuid, integer, integer, uuid) from public, anon, authenticated;
+revoke all on function public.finals_apply_report(uuid, integer, integer, jsonb) from public, anon, authenticated;
+revoke all on function public.finals_reset(uuid) from public, anon, authenticated;
+
+grant execute on function public.finals_create_bracket(uuid, text, uuid[]) to service_role;
+grant execute on function public.finals_add_slots(uuid, integer, integer) to service_role;
+grant execute on function public.finals_delete_rounds(uuid, integer) to service_role;
+grant execute on function public.finals_set_slot(uuid, integer, integer, uuid) to service_role;
+grant execute on function public.finals_apply_report(uuid, integer, integer, jsonb) to service_role;
+grant execute on function public.finals_reset(uuid) to service_role;
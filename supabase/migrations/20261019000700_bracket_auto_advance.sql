@@ -0,0 +1,426 @@
+-- 決勝トーナメントの自動勝ち上がり（bracket_edges）
+-- - bracket_edges: 「from_round の from_slot 番目の試合（= final_matches.match_no）の勝者」→「to_round の to_slot 枠（= final_round_entries.slot_no）」
+-- - シングルエリミネーションの標準配置：R{r} の第 m 試合 → R{r+1} の m 枠（R{r+1} の第 ceil(m/2) 試合に入る）
+-- - 結果保存（finals_apply_report）で winner_id が入ったら、リンク先の枠へ自動で配置する
+-- - 勝者が変わった場合は、旧勝者が入っていた下流の枠・試合を連鎖的にクリアする（反映済み RP/HC は巻き戻す）
+
+-- ─────────────────────────────────────────────
+-- 標準配置の edges を作り直す（bracket_size は 2 の累乗に切り上げ）
+-- ─────────────────────────────────────────────
+create or replace function public.generate_bracket_edges(
+  p_tournament_id uuid,
+  p_bracket_size integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_size integer;
+  v_rounds integer;
+  n integer;
+begin
+  if p_bracket_size is null or p_bracket_size < 2 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  v_size := power(2, ceil(log(2, p_bracket_size::numeric)))::integer;
+  v_rounds := round(log(2, v_size::numeric))::integer;
+
+  delete from public.bracket_edges where tournament_id = p_tournament_id;
+
+  insert into public.bracket_edges (tournament_id, from_round, from_slot, to_round, to_slot)
+  select p_tournament_id, r, m, r + 1, m
+    from generate_series(1, v_rounds - 1) as r
+   cross join lateral generate_series(1, v_size / power(2, r)::integer) as m;
+  get diagnostics n = row_count;
+
+  return n;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：1 試合分の結果クリア（反映済み RP/HC は巻き戻す）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_clear_match(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.final_matches%rowtype;
+begin
+  select * into m
+    from public.final_matches
+   where bracket_id = p_bracket_id and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if not found or (m.winner_id is null and m.loser_id is null) then
+    return false;
+  end if;
+
+  if m.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.winner_handicap_change, 0)))
+     where id = m.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.loser_handicap_change, 0)))
+     where id = m.loser_id;
+  end if;
+
+  update public.final_matches
+     set winner_id = null,
+         loser_id = null,
+         winner_score = null,
+         loser_score = null,
+         winner_sets = null,
+         loser_sets = null,
+         sets = null,
+         sets_json = null,
+         finish_reason = 'normal',
+         end_reason = 'normal',
+         winner_points_change = 0,
+         loser_points_change = 0,
+         winner_handicap_change = 0,
+         loser_handicap_change = 0,
+         updated_at = now()
+   where id = m.id;
+
+  update public.final_brackets
+     set champion_player_id = null,
+         updated_at = now()
+   where id = p_bracket_id
+     and max_round = p_round_no
+     and p_match_no = 1;
+
+  return true;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：試合の勝者をリンク先の枠へ配置（null で空ける）
+-- - 枠の中身が変わったら、その枠が入る下流の試合をクリアし、さらに先へ連鎖させる
+-- ─────────────────────────────────────────────
+create or replace function public.finals_place_winner(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tournament uuid;
+  e public.bracket_edges%rowtype;
+  v_entry_id uuid;
+  v_prev uuid;
+  v_next_match integer;
+  v_cleared boolean;
+begin
+  select tournament_id into v_tournament from public.final_brackets where id = p_bracket_id;
+
+  select * into e
+    from public.bracket_edges
+   where tournament_id = v_tournament and from_round = p_round_no and from_slot = p_match_no
+   limit 1;
+  if not found then
+    return null;
+  end if;
+
+  select id, player_id into v_entry_id, v_prev
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and round_no = e.to_round and slot_no = e.to_slot
+   limit 1
+   for update;
+
+  if v_entry_id is not null and v_prev is not distinct from p_player_id then
+    return jsonb_build_object('round_no', e.to_round, 'slot_no', e.to_slot, 'player_id', p_player_id, 'changed', false);
+  end if;
+
+  if v_entry_id is null then
+    insert into public.final_round_entries (bracket_id, round_no, slot_no, player_id)
+    values (p_bracket_id, e.to_round, e.to_slot, p_player_id);
+  else
+    update public.final_round_entries
+       set player_id = p_player_id,
+           updated_at = now()
+     where id = v_entry_id;
+  end if;
+
+  -- 旧勝者で戦った下流の試合は無効 → クリアして、その勝者の配置も取り消す
+  v_next_match := (e.to_slot + 1) / 2;
+  v_cleared := public.finals_clear_match(p_bracket_id, e.to_round, v_next_match);
+  if v_cleared then
+    perform public.finals_place_winner(p_bracket_id, e.to_round, v_next_match, null);
+  end if;
+
+  return jsonb_build_object(
+    'round_no', e.to_round,
+    'slot_no', e.to_slot,
+    'player_id', p_player_id,
+    'previous_player_id', v_prev,
+    'changed', true,
+    'cleared_downstream', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 結果をまとめてクリアする時は、自動で入った下流の枠も空ける
+-- ─────────────────────────────────────────────
+create or replace function public.finals_clear_results(
+  p_bracket_id uuid,
+  p_from_round integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  perform public.finals_revert_results(p_bracket_id, p_from_round);
+
+  update public.final_matches
+     set winner_id = null,
+         loser_id = null,
+         winner_score = null,
+         loser_score = null,
+         winner_sets = null,
+         loser_sets = null,
+         sets = null,
+         sets_json = null,
+         finish_reason = 'normal',
+         end_reason = 'normal',
+         updated_at = now()
+   where bracket_id = p_bracket_id
+     and round_no >= p_from_round
+     and (winner_id is not null or loser_id is not null);
+  get diagnostics n = row_count;
+
+  update public.final_round_entries fre
+     set player_id = null,
+         updated_at = now()
+    from public.final_brackets b
+    join public.bracket_edges e on e.tournament_id = b.tournament_id
+   where b.id = p_bracket_id
+     and fre.bracket_id = b.id
+     and e.from_round >= p_from_round
+     and fre.round_no = e.to_round
+     and fre.slot_no = e.to_slot
+     and fre.player_id is not null;
+
+  update public.final_brackets
+     set champion_player_id = null,
+         updated_at = now()
+   where id = p_bracket_id
+     and max_round >= p_from_round
+     and champion_player_id is not null;
+
+  return n;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 作成時に標準配置の edges も作る
+-- ─────────────────────────────────────────────
+create or replace function public.finals_create_bracket(
+  p_tournament_id uuid,
+  p_title text,
+  p_seeds uuid[]
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_size integer := coalesce(array_length(p_seeds, 1), 0);
+  v_rounds integer;
+  v_edges integer;
+  b public.final_brackets%rowtype;
+begin
+  if v_size < 2 or (v_size & (v_size - 1)) <> 0 then
+    raise exception 'invalid_seed_count' using errcode = 'P0001';
+  end if;
+
+  -- 同じ大会への同時作成を直列化
+  perform pg_advisory_xact_lock(hashtext('final_brackets:' || p_tournament_id::text));
+  if exists (select 1 from public.final_brackets where tournament_id = p_tournament_id) then
+    raise exception 'bracket_exists' using errcode = 'P0001';
+  end if;
+
+  v_rounds := round(log(2, v_size))::integer;
+
+  insert into public.final_brackets (tournament_id, title, max_round)
+  values (p_tournament_id, coalesce(nullif(trim(p_title), ''), '決勝トーナメント'), v_rounds)
+  returning * into b;
+
+  insert into public.final_round_entries (bracket_id, round_no, slot_no, player_id)
+  select b.id, 1, s.ord::integer, s.pid
+    from unnest(p_seeds) with ordinality as s(pid, ord);
+
+  v_edges := public.generate_bracket_edges(p_tournament_id, v_size);
+
+  return jsonb_build_object(
+    'bracket', jsonb_build_object(
+      'id', b.id,
+      'tournament_id', b.tournament_id,
+      'title', b.title,
+      'max_round', b.max_round,
+      'created_at', b.created_at
+    ),
+    'size', v_size,
+    'edges', v_edges
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 結果保存：保存後に勝者をリンク先の枠へ自動配置
+-- ─────────────────────────────────────────────
+create or replace function public.finals_apply_report(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer,
+  p_match jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b public.final_brackets%rowtype;
+  prev public.final_matches%rowtype;
+  v_id uuid;
+  v_winner uuid := nullif(p_match->>'winner_id', '')::uuid;
+  v_loser uuid := nullif(p_match->>'loser_id', '')::uuid;
+  v_affects boolean := coalesce((p_match->>'affects_rating')::boolean, false);
+  v_reason text := coalesce(nullif(p_match->>'end_reason', ''), 'normal');
+  v_sets jsonb := nullif(p_match->'sets', 'null'::jsonb);
+  v_wpc integer := coalesce((p_match->>'winner_points_change')::integer, 0);
+  v_lpc integer := coalesce((p_match->>'loser_points_change')::integer, 0);
+  v_whc integer := coalesce((p_match->>'winner_handicap_change')::integer, 0);
+  v_lhc integer := coalesce((p_match->>'loser_handicap_change')::integer, 0);
+  v_champion boolean := false;
+  v_advanced jsonb;
+begin
+  if p_round_no is null or p_round_no < 1 or p_match_no is null or p_match_no < 1 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into b from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select * into prev
+    from public.final_matches
+   where bracket_id = p_bracket_id and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if found and prev.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.winner_handicap_change, 0)))
+     where id = prev.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.loser_handicap_change, 0)))
+     where id = prev.loser_id;
+  end if;
+
+  if prev.id is null then
+    insert into public.final_matches (bracket_id, round_no, match_no)
+    values (p_bracket_id, p_round_no, p_match_no)
+    returning id into v_id;
+  else
+    v_id := prev.id;
+  end if;
+
+  update public.final_matches
+     set winner_id = v_winner,
+         loser_id = v_loser,
+         winner_score = nullif(p_match->>'winner_score', '')::integer,
+         loser_score = nullif(p_match->>'loser_score', '')::integer,
+         winner_sets = nullif(p_match->>'winner_sets', '')::integer,
+         loser_sets = nullif(p_match->>'loser_sets', '')::integer,
+         affects_rating = v_affects,
+         end_reason = v_reason,
+         finish_reason = v_reason,
+         sets = v_sets,
+         sets_json = v_sets,
+         winner_points_change = v_wpc,
+         loser_points_change = v_lpc,
+         winner_handicap_change = v_whc,
+         loser_handicap_change = v_lhc,
+         rating_algorithm = nullif(p_match->>'rating_algorithm', ''),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, 1),
+         updated_at = now()
+   where id = v_id;
+
+  if v_affects then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_wpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_whc))
+     where id = v_winner;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_lpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_lhc))
+     where id = v_loser;
+  end if;
+
+  if p_round_no = b.max_round and p_match_no = 1 then
+    update public.final_brackets
+       set champion_player_id = v_winner,
+           updated_at = now()
+     where id = b.id;
+    v_champion := true;
+  end if;
+
+  -- ✅ 勝ち上がり（勝者が変わっていれば下流を連鎖クリア）
+  v_advanced := public.finals_place_winner(p_bracket_id, p_round_no, p_match_no, v_winner);
+
+  return jsonb_build_object(
+    'id', v_id,
+    'bracket_id', p_bracket_id,
+    'round_no', p_round_no,
+    'match_no', p_match_no,
+    'replaced', prev.id is not null,
+    'champion_updated', v_champion,
+    'advanced_to', v_advanced
+  );
+end;
+$$;
+
+-- 既存の決勝トーナメントにも edges を用意（R1 の枠数から bracket_size を決める）
+do $$
+declare
+  r record;
+begin
+  for r in
+    select b.tournament_id, max(e.slot_no) as slots
+      from public.final_brackets b
+      join public.final_round_entries e on e.bracket_id = b.id and e.round_no = 1
+     group by b.tournament_id
+  loop
+    if r.slots >= 2 and not exists (select 1 from public.bracket_edges where tournament_id = r.tournament_id) then
+      perform public.generate_bracket_edges(r.tournament_id, r.slots);
+    end if;
+  end loop;
+end;
+$$;
+
+revoke all on function public.generate_bracket_edges(uuid, integer) from public, anon, authenticated;
+revoke all on function public.finals_clear_match(uuid, integer, integer) from public, anon, authenticated;
+revoke all on function public.finals_place_winner(uuid, integer, integer, uuid) from public, anon, authenticated;
+grant execute on function public.generate_bracket_edges(uuid, integer) to service_role;
@@ -0,0 +1,914 @@
+-- 決勝トーナメントの形式：シングル / シングル＋3位決定戦 / ダブルエリミネーション
+-- - final_brackets.bracket_type: 'single' | 'single_third' | 'double'
+-- - 試合と枠は stage で区別する（round_no / match_no / slot_no は stage ごとに 1 から）
+--     main        … 勝者側（シングルの本戦もここ）
+--     losers      … 敗者側（double のみ）
+--     grand_final … グランドファイナル（double のみ。R1 で敗者側の勝者が勝ったら R2 = リセットマッチ）
+--     third       … 3位決定戦（single_third のみ）
+-- - bracket_edges に kind（winner / loser）と from_stage / to_stage を追加。敗者の行き先もリンクで表す
+-- - 優勝者と順位は finals_recompute_placings が形式ごとに計算し、final_brackets.champion_player_id / placings に保存
+-- ※ 既存の決勝トーナメントは bracket_type = 'single'、試合・枠・edges はすべて stage = 'main' になる
+
+alter table public.final_brackets
+  add column if not exists bracket_type text not null default 'single',
+  add column if not exists placings jsonb not null default '[]'::jsonb;
+
+alter table public.final_matches
+  add column if not exists stage text not null default 'main';
+
+alter table public.final_round_entries
+  add column if not exists stage text not null default 'main';
+
+alter table public.bracket_edges
+  add column if not exists from_stage text not null default 'main',
+  add column if not exists to_stage text not null default 'main',
+  add column if not exists kind text not null default 'winner';
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'final_brackets_bracket_type_check') then
+    alter table public.final_brackets
+      add constraint final_brackets_bracket_type_check check (bracket_type in ('single', 'single_third', 'double'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'final_matches_stage_check') then
+    alter table public.final_matches
+      add constraint final_matches_stage_check check (stage in ('main', 'losers', 'grand_final', 'third'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'final_round_entries_stage_check') then
+    alter table public.final_round_entries
+      add constraint final_round_entries_stage_check check (stage in ('main', 'losers', 'grand_final', 'third'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'bracket_edges_kind_check') then
+    alter table public.bracket_edges
+      add constraint bracket_edges_kind_check check (kind in ('winner', 'loser'));
+  end if;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 一意制約を stage 込みに張り替える（旧：(bracket_id, round_no, match_no) など）
+-- ─────────────────────────────────────────────
+do $$
+declare
+  r record;
+begin
+  for r in
+    select c.conrelid::regclass as tbl, c.conname
+      from pg_constraint c
+     where c.conrelid in ('public.final_matches'::regclass, 'public.final_round_entries'::regclass, 'public.bracket_edges'::regclass)
+       and c.contype in ('p', 'u')
+       and exists (
+         select 1 from pg_attribute a
+          where a.attrelid = c.conrelid and a.attnum = any(c.conkey) and a.attname in ('round_no', 'from_round')
+       )
+  loop
+    execute format('alter table %s drop constraint %I', r.tbl, r.conname);
+  end loop;
+
+  for r in
+    select i.indexrelid::regclass as idx
+      from pg_index i
+     where i.indrelid in ('public.final_matches'::regclass, 'public.final_round_entries'::regclass, 'public.bracket_edges'::regclass)
+       and i.indisunique
+       and not i.indisprimary
+       and exists (
+         select 1 from pg_attribute a
+          where a.attrelid = i.indrelid and a.attnum = any(i.indkey::int2[]) and a.attname in ('round_no', 'from_round')
+       )
+  loop
+    execute format('drop index %s', r.idx);
+  end loop;
+end;
+$$;
+
+alter table public.final_matches
+  add constraint final_matches_bracket_stage_round_match_key unique (bracket_id, stage, round_no, match_no);
+alter table public.final_round_entries
+  add constraint final_round_entries_bracket_stage_round_slot_key unique (bracket_id, stage, round_no, slot_no);
+alter table public.bracket_edges
+  add constraint bracket_edges_from_key unique (tournament_id, from_stage, from_round, from_slot, kind);
+
+-- 引数が変わる関数は先に落とす（同名の旧シグネチャが残ると RPC が曖昧になる）
+drop function if exists public.generate_bracket_edges(uuid, integer);
+drop function if exists public.finals_clear_match(uuid, integer, integer);
+drop function if exists public.finals_place_winner(uuid, integer, integer, uuid);
+drop function if exists public.finals_clear_results(uuid, integer);
+drop function if exists public.finals_create_bracket(uuid, text, uuid[]);
+drop function if exists public.finals_add_slots(uuid, integer, integer);
+drop function if exists public.finals_delete_rounds(uuid, integer);
+drop function if exists public.finals_set_slot(uuid, integer, integer, uuid);
+drop function if exists public.finals_apply_report(uuid, integer, integer, jsonb);
+
+-- ─────────────────────────────────────────────
+-- 形式ごとの edges（k = 勝者側のラウンド数、N = 枠数）
+-- - main R{r} 第m試合の勝者 → main R{r+1} の m 枠
+-- - single_third: 準決勝（main R{k-1}）の敗者 → third R1 の 1 / 2 枠
+-- - double:
+--     main R1 第m試合の敗者 → losers R1 の m 枠
+--     main R{j}（j≥2）第m試合の敗者 → losers R{2(j-1)} の 2(M+1-m) 枠（M = その回の試合数。逆順に入れて再戦を避ける）
+--     losers R{r} 第m試合の勝者 → losers R{r+1}（r が奇数なら 2m-1 枠 / 偶数なら m 枠）
+--     勝者側の決勝の勝者 → grand_final R1 の 1 枠 / 敗者側の決勝の勝者 → 2 枠
+-- ─────────────────────────────────────────────
+create or replace function public.generate_bracket_edges(
+  p_tournament_id uuid,
+  p_bracket_size integer,
+  p_bracket_type text default 'single'
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_type text := coalesce(nullif(trim(p_bracket_type), ''), 'single');
+  v_size integer;
+  v_rounds integer;
+  v_total integer := 0;
+  n integer;
+begin
+  if p_bracket_size is null or p_bracket_size < 2 or v_type not in ('single', 'single_third', 'double') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  v_size := power(2, ceil(log(2, p_bracket_size::numeric)))::integer;
+  v_rounds := round(log(2, v_size::numeric))::integer;
+
+  if v_type <> 'single' and v_size < 4 then
+    raise exception 'invalid_bracket_type' using errcode = 'P0001';
+  end if;
+
+  delete from public.bracket_edges where tournament_id = p_tournament_id;
+
+  insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+  select p_tournament_id, 'main', r, m, 'main', r + 1, m, 'winner'
+    from generate_series(1, v_rounds - 1) as r
+   cross join lateral generate_series(1, v_size / power(2, r)::integer) as m;
+  get diagnostics n = row_count;
+  v_total := v_total + n;
+
+  if v_type = 'single_third' then
+    insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+    values (p_tournament_id, 'main', v_rounds - 1, 1, 'third', 1, 1, 'loser'),
+           (p_tournament_id, 'main', v_rounds - 1, 2, 'third', 1, 2, 'loser');
+    v_total := v_total + 2;
+  end if;
+
+  if v_type = 'double' then
+    -- 勝者側 R1 の敗者
+    insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+    select p_tournament_id, 'main', 1, m, 'losers', 1, m, 'loser'
+      from generate_series(1, v_size / 2) as m;
+    get diagnostics n = row_count;
+    v_total := v_total + n;
+
+    -- 勝者側 R2 以降の敗者（逆順で合流）
+    insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+    select p_tournament_id, 'main', j, m, 'losers', 2 * (j - 1), 2 * (v_size / power(2, j)::integer + 1 - m), 'loser'
+      from generate_series(2, v_rounds) as j
+     cross join lateral generate_series(1, v_size / power(2, j)::integer) as m;
+    get diagnostics n = row_count;
+    v_total := v_total + n;
+
+    -- 敗者側の勝ち上がり（losers R{r} の試合数 = N / 2^((r+1)/2 + 1)）
+    insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+    select p_tournament_id, 'losers', r, m, 'losers', r + 1, case when r % 2 = 1 then 2 * m - 1 else m end, 'winner'
+      from generate_series(1, 2 * (v_rounds - 1) - 1) as r
+     cross join lateral generate_series(1, v_size / power(2, (r + 1) / 2 + 1)::integer) as m;
+    get diagnostics n = row_count;
+    v_total := v_total + n;
+
+    insert into public.bracket_edges (tournament_id, from_stage, from_round, from_slot, to_stage, to_round, to_slot, kind)
+    values (p_tournament_id, 'main', v_rounds, 1, 'grand_final', 1, 1, 'winner'),
+           (p_tournament_id, 'losers', 2 * (v_rounds - 1), 1, 'grand_final', 1, 2, 'winner');
+    v_total := v_total + 2;
+  end if;
+
+  return v_total;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：1 試合分の結果クリア（反映済み RP/HC は巻き戻す）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_clear_match(
+  p_bracket_id uuid,
+  p_stage text,
+  p_round_no integer,
+  p_match_no integer
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.final_matches%rowtype;
+begin
+  select * into m
+    from public.final_matches
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if not found or (m.winner_id is null and m.loser_id is null) then
+    return false;
+  end if;
+
+  if m.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.winner_handicap_change, 0)))
+     where id = m.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.loser_handicap_change, 0)))
+     where id = m.loser_id;
+  end if;
+
+  update public.final_matches
+     set winner_id = null,
+         loser_id = null,
+         winner_score = null,
+         loser_score = null,
+         winner_sets = null,
+         loser_sets = null,
+         sets = null,
+         sets_json = null,
+         finish_reason = 'normal',
+         end_reason = 'normal',
+         winner_points_change = 0,
+         loser_points_change = 0,
+         winner_handicap_change = 0,
+         loser_handicap_change = 0,
+         updated_at = now()
+   where id = m.id;
+
+  return true;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：枠に選手を入れる（null で空ける）
+-- - 中身が変わったら、その枠が入る試合の結果をクリアし、勝者・敗者の行き先も連鎖して空ける
+-- ─────────────────────────────────────────────
+create or replace function public.finals_put_entry(
+  p_bracket_id uuid,
+  p_stage text,
+  p_round_no integer,
+  p_slot_no integer,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry_id uuid;
+  v_prev uuid;
+  v_match integer := (p_slot_no + 1) / 2;
+  v_cleared boolean;
+begin
+  select id, player_id into v_entry_id, v_prev
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and slot_no = p_slot_no
+   limit 1
+   for update;
+
+  if (v_entry_id is not null and v_prev is not distinct from p_player_id)
+     or (v_entry_id is null and p_player_id is null) then
+    return jsonb_build_object('stage', p_stage, 'round_no', p_round_no, 'slot_no', p_slot_no, 'player_id', p_player_id, 'changed', false);
+  end if;
+
+  if v_entry_id is null then
+    insert into public.final_round_entries (bracket_id, stage, round_no, slot_no, player_id)
+    values (p_bracket_id, p_stage, p_round_no, p_slot_no, p_player_id);
+  else
+    update public.final_round_entries
+       set player_id = p_player_id,
+           updated_at = now()
+     where id = v_entry_id;
+  end if;
+
+  -- 旧メンバーで戦った試合は無効 → クリアして、その勝者・敗者の配置も取り消す
+  v_cleared := public.finals_clear_match(p_bracket_id, p_stage, p_round_no, v_match);
+  if v_cleared then
+    perform public.finals_propagate(p_bracket_id, p_stage, p_round_no, v_match, null, null);
+  end if;
+
+  return jsonb_build_object(
+    'stage', p_stage,
+    'round_no', p_round_no,
+    'slot_no', p_slot_no,
+    'player_id', p_player_id,
+    'previous_player_id', v_prev,
+    'changed', true,
+    'cleared_downstream', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：試合の勝者 / 敗者をリンク先の枠へ配置
+-- ─────────────────────────────────────────────
+create or replace function public.finals_place(
+  p_bracket_id uuid,
+  p_stage text,
+  p_round_no integer,
+  p_match_no integer,
+  p_kind text,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  e public.bracket_edges%rowtype;
+begin
+  select be.* into e
+    from public.bracket_edges be
+    join public.final_brackets b on b.tournament_id = be.tournament_id
+   where b.id = p_bracket_id
+     and be.from_stage = p_stage
+     and be.from_round = p_round_no
+     and be.from_slot = p_match_no
+     and be.kind = p_kind
+   limit 1;
+  if not found then
+    return null;
+  end if;
+
+  return public.finals_put_entry(p_bracket_id, e.to_stage, e.to_round, e.to_slot, p_player_id);
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 内部用：1 試合の結果を下流へ流す
+-- - grand_final R1 は edges ではなく結果で決まる：敗者側の勝者（2 枠）が勝ったら R2（リセットマッチ）に同じ 2 人を入れる
+-- ─────────────────────────────────────────────
+create or replace function public.finals_propagate(
+  p_bracket_id uuid,
+  p_stage text,
+  p_round_no integer,
+  p_match_no integer,
+  p_winner_id uuid,
+  p_loser_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_winner jsonb;
+  v_loser jsonb;
+  v_a uuid;
+  v_b uuid;
+  v_reset boolean := false;
+begin
+  v_winner := public.finals_place(p_bracket_id, p_stage, p_round_no, p_match_no, 'winner', p_winner_id);
+  v_loser := public.finals_place(p_bracket_id, p_stage, p_round_no, p_match_no, 'loser', p_loser_id);
+
+  if p_stage = 'grand_final' and p_round_no = 1 and p_match_no = 1 then
+    select player_id into v_a
+      from public.final_round_entries
+     where bracket_id = p_bracket_id and stage = 'grand_final' and round_no = 1 and slot_no = 1;
+    select player_id into v_b
+      from public.final_round_entries
+     where bracket_id = p_bracket_id and stage = 'grand_final' and round_no = 1 and slot_no = 2;
+
+    v_reset := p_winner_id is not null and p_winner_id = v_b;
+    perform public.finals_put_entry(p_bracket_id, 'grand_final', 2, 1, case when v_reset then v_a end);
+    perform public.finals_put_entry(p_bracket_id, 'grand_final', 2, 2, case when v_reset then v_b end);
+  end if;
+
+  return jsonb_build_object('winner', v_winner, 'loser', v_loser, 'grand_final_reset', v_reset);
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 優勝者と順位（形式ごと）
+-- - single      : 1-2 位は決勝、準決勝の敗者 2 人は 3 位タイ
+-- - single_third: 1-2 位は決勝、3-4 位は 3位決定戦
+-- - double      : 1-2 位は grand_final（R1 で勝者側が勝てば R1、負ければ R2 の結果）
+--                 3 位は敗者側の決勝の敗者、4 位はその 1 つ前のラウンドの敗者
+-- ─────────────────────────────────────────────
+create or replace function public.finals_recompute_placings(
+  p_bracket_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b public.final_brackets%rowtype;
+  m public.final_matches%rowtype;
+  v_k integer;
+  v_first uuid;
+  v_second uuid;
+  v_gf_a uuid;
+  v_places jsonb := '[]'::jsonb;
+  r record;
+begin
+  select * into b from public.final_brackets where id = p_bracket_id;
+  if not found then
+    return '[]'::jsonb;
+  end if;
+  v_k := b.max_round;
+
+  if b.bracket_type = 'double' then
+    select * into m
+      from public.final_matches
+     where bracket_id = p_bracket_id and stage = 'grand_final' and round_no = 1 and match_no = 1;
+    select player_id into v_gf_a
+      from public.final_round_entries
+     where bracket_id = p_bracket_id and stage = 'grand_final' and round_no = 1 and slot_no = 1;
+
+    if m.winner_id is not null and m.winner_id = v_gf_a then
+      v_first := m.winner_id;
+      v_second := m.loser_id;
+    elsif m.winner_id is not null then
+      select * into m
+        from public.final_matches
+       where bracket_id = p_bracket_id and stage = 'grand_final' and round_no = 2 and match_no = 1;
+      v_first := m.winner_id;
+      v_second := m.loser_id;
+    end if;
+  else
+    select * into m
+      from public.final_matches
+     where bracket_id = p_bracket_id and stage = 'main' and round_no = v_k and match_no = 1;
+    v_first := m.winner_id;
+    v_second := m.loser_id;
+  end if;
+
+  if v_first is not null then
+    v_places := v_places || jsonb_build_object('place', 1, 'player_id', v_first);
+  end if;
+  if v_second is not null then
+    v_places := v_places || jsonb_build_object('place', 2, 'player_id', v_second);
+  end if;
+
+  if b.bracket_type = 'single_third' then
+    select * into m
+      from public.final_matches
+     where bracket_id = p_bracket_id and stage = 'third' and round_no = 1 and match_no = 1;
+    if m.winner_id is not null then
+      v_places := v_places || jsonb_build_object('place', 3, 'player_id', m.winner_id);
+    end if;
+    if m.loser_id is not null then
+      v_places := v_places || jsonb_build_object('place', 4, 'player_id', m.loser_id);
+    end if;
+  elsif b.bracket_type = 'double' then
+    for r in
+      select fm.loser_id, fm.round_no
+        from public.final_matches fm
+       where fm.bracket_id = p_bracket_id
+         and fm.stage = 'losers'
+         and fm.round_no in (2 * (v_k - 1), 2 * (v_k - 1) - 1)
+         and fm.match_no = 1
+         and fm.loser_id is not null
+       order by fm.round_no desc
+    loop
+      v_places := v_places || jsonb_build_object(
+        'place', case when r.round_no = 2 * (v_k - 1) then 3 else 4 end,
+        'player_id', r.loser_id
+      );
+    end loop;
+  elsif v_k >= 2 then
+    for r in
+      select fm.loser_id
+        from public.final_matches fm
+       where fm.bracket_id = p_bracket_id
+         and fm.stage = 'main'
+         and fm.round_no = v_k - 1
+         and fm.loser_id is not null
+       order by fm.match_no
+    loop
+      v_places := v_places || jsonb_build_object('place', 3, 'player_id', r.loser_id);
+    end loop;
+  end if;
+
+  update public.final_brackets
+     set champion_player_id = v_first,
+         placings = v_places,
+         updated_at = now()
+   where id = p_bracket_id
+     and (champion_player_id is distinct from v_first or placings is distinct from v_places);
+
+  return v_places;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 結果をまとめてクリア（stage 内の p_from_round 以降）。勝者・敗者の行き先も連鎖して空ける
+-- ─────────────────────────────────────────────
+create or replace function public.finals_clear_results(
+  p_bracket_id uuid,
+  p_stage text,
+  p_from_round integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select round_no, match_no
+      from public.final_matches
+     where bracket_id = p_bracket_id
+       and stage = p_stage
+       and round_no >= p_from_round
+       and (winner_id is not null or loser_id is not null)
+     order by round_no, match_no
+  loop
+    if public.finals_clear_match(p_bracket_id, p_stage, r.round_no, r.match_no) then
+      perform public.finals_propagate(p_bracket_id, p_stage, r.round_no, r.match_no, null, null);
+      n := n + 1;
+    end if;
+  end loop;
+
+  return n;
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 作成：形式を受け取り、形式ごとの edges を同じトランザクションで作る
+-- ─────────────────────────────────────────────
+create or replace function public.finals_create_bracket(
+  p_tournament_id uuid,
+  p_title text,
+  p_seeds uuid[],
+  p_bracket_type text default 'single'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_size integer := coalesce(array_length(p_seeds, 1), 0);
+  v_type text := coalesce(nullif(trim(p_bracket_type), ''), 'single');
+  v_rounds integer;
+  v_edges integer;
+  b public.final_brackets%rowtype;
+begin
+  if v_size < 2 or (v_size & (v_size - 1)) <> 0 then
+    raise exception 'invalid_seed_count' using errcode = 'P0001';
+  end if;
+  if v_type not in ('single', 'single_third', 'double') or (v_type <> 'single' and v_size < 4) then
+    raise exception 'invalid_bracket_type' using errcode = 'P0001';
+  end if;
+
+  -- 同じ大会への同時作成を直列化
+  perform pg_advisory_xact_lock(hashtext('final_brackets:' || p_tournament_id::text));
+  if exists (select 1 from public.final_brackets where tournament_id = p_tournament_id) then
+    raise exception 'bracket_exists' using errcode = 'P0001';
+  end if;
+
+  v_rounds := round(log(2, v_size))::integer;
+
+  insert into public.final_brackets (tournament_id, title, max_round, bracket_type)
+  values (p_tournament_id, coalesce(nullif(trim(p_title), ''), '決勝トーナメント'), v_rounds, v_type)
+  returning * into b;
+
+  insert into public.final_round_entries (bracket_id, stage, round_no, slot_no, player_id)
+  select b.id, 'main', 1, s.ord::integer, s.pid
+    from unnest(p_seeds) with ordinality as s(pid, ord);
+
+  v_edges := public.generate_bracket_edges(p_tournament_id, v_size, v_type);
+
+  return jsonb_build_object(
+    'bracket', jsonb_build_object(
+      'id', b.id,
+      'tournament_id', b.tournament_id,
+      'title', b.title,
+      'max_round', b.max_round,
+      'bracket_type', b.bracket_type,
+      'created_at', b.created_at
+    ),
+    'size', v_size,
+    'edges', v_edges
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 枠追加（stage ごと）
+-- ─────────────────────────────────────────────
+create or replace function public.finals_add_slots(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_count integer default 2,
+  p_stage text default 'main'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_max integer;
+  v_cleared integer;
+begin
+  if p_round_no is null or p_round_no < 1 or p_count is null or p_count < 1 or p_count > 64
+     or p_stage is null or p_stage not in ('main', 'losers', 'grand_final', 'third') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select coalesce(max(slot_no), 0) into v_max
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no;
+
+  insert into public.final_round_entries (bracket_id, stage, round_no, slot_no, player_id)
+  select p_bracket_id, p_stage, p_round_no, v_max + g, null
+    from generate_series(1, p_count) as g;
+
+  v_cleared := public.finals_clear_results(p_bracket_id, p_stage, p_round_no);
+
+  if p_stage = 'main' then
+    update public.final_brackets
+       set max_round = greatest(max_round, p_round_no),
+           updated_at = now()
+     where id = p_bracket_id;
+  end if;
+
+  perform public.finals_recompute_placings(p_bracket_id);
+
+  return jsonb_build_object(
+    'bracket_id', p_bracket_id,
+    'stage', p_stage,
+    'round_no', p_round_no,
+    'first_slot', v_max + 1,
+    'added', p_count,
+    'cleared_matches', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- ラウンド削除（stage 内の p_from_round 以降）。先に結果をクリアして他 stage への配置も取り消す
+-- ─────────────────────────────────────────────
+create or replace function public.finals_delete_rounds(
+  p_bracket_id uuid,
+  p_from_round integer,
+  p_stage text default 'main'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reverted integer;
+  v_matches integer;
+  v_entries integer;
+begin
+  if p_from_round is null or p_from_round < 1
+     or p_stage is null or p_stage not in ('main', 'losers', 'grand_final', 'third') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  v_reverted := public.finals_clear_results(p_bracket_id, p_stage, p_from_round);
+
+  delete from public.final_matches
+   where bracket_id = p_bracket_id and stage = p_stage and round_no >= p_from_round;
+  get diagnostics v_matches = row_count;
+
+  delete from public.final_round_entries
+   where bracket_id = p_bracket_id and stage = p_stage and round_no >= p_from_round;
+  get diagnostics v_entries = row_count;
+
+  perform public.finals_recompute_placings(p_bracket_id);
+
+  return jsonb_build_object(
+    'bracket_id', p_bracket_id,
+    'stage', p_stage,
+    'from_round', p_from_round,
+    'deleted_matches', v_matches,
+    'deleted_entries', v_entries,
+    'reverted_matches', v_reverted
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 枠の選手変更：その stage のそのラウンド以降の結果はクリア
+-- ─────────────────────────────────────────────
+create or replace function public.finals_set_slot(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_slot_no integer,
+  p_player_id uuid,
+  p_stage text default 'main'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry_id uuid;
+  v_prev uuid;
+  v_cleared integer;
+begin
+  if p_round_no is null or p_round_no < 1 or p_slot_no is null or p_slot_no < 1
+     or p_stage is null or p_stage not in ('main', 'losers', 'grand_final', 'third') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select id, player_id into v_entry_id, v_prev
+    from public.final_round_entries
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and slot_no = p_slot_no
+   limit 1;
+
+  if v_entry_id is null then
+    insert into public.final_round_entries (bracket_id, stage, round_no, slot_no, player_id)
+    values (p_bracket_id, p_stage, p_round_no, p_slot_no, p_player_id)
+    returning id into v_entry_id;
+  else
+    update public.final_round_entries
+       set player_id = p_player_id,
+           updated_at = now()
+     where id = v_entry_id;
+  end if;
+
+  v_cleared := public.finals_clear_results(p_bracket_id, p_stage, p_round_no);
+  perform public.finals_recompute_placings(p_bracket_id);
+
+  return jsonb_build_object(
+    'entry_id', v_entry_id,
+    'bracket_id', p_bracket_id,
+    'stage', p_stage,
+    'round_no', p_round_no,
+    'slot_no', p_slot_no,
+    'player_id', p_player_id,
+    'previous_player_id', v_prev,
+    'cleared_matches', v_cleared
+  );
+end;
+$$;
+
+-- ─────────────────────────────────────────────
+-- 結果保存：前回分の巻き戻し → 試合行 upsert → 今回分の反映 → 勝者・敗者の配置 → 順位の再計算
+-- ─────────────────────────────────────────────
+create or replace function public.finals_apply_report(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer,
+  p_match jsonb,
+  p_stage text default 'main'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b public.final_brackets%rowtype;
+  prev public.final_matches%rowtype;
+  v_id uuid;
+  v_winner uuid := nullif(p_match->>'winner_id', '')::uuid;
+  v_loser uuid := nullif(p_match->>'loser_id', '')::uuid;
+  v_affects boolean := coalesce((p_match->>'affects_rating')::boolean, false);
+  v_reason text := coalesce(nullif(p_match->>'end_reason', ''), 'normal');
+  v_sets jsonb := nullif(p_match->'sets', 'null'::jsonb);
+  v_wpc integer := coalesce((p_match->>'winner_points_change')::integer, 0);
+  v_lpc integer := coalesce((p_match->>'loser_points_change')::integer, 0);
+  v_whc integer := coalesce((p_match->>'winner_handicap_change')::integer, 0);
+  v_lhc integer := coalesce((p_match->>'loser_handicap_change')::integer, 0);
+  v_flow jsonb;
+  v_champion uuid;
+  v_placings jsonb;
+begin
+  if p_round_no is null or p_round_no < 1 or p_match_no is null or p_match_no < 1
+     or p_stage is null or p_stage not in ('main', 'losers', 'grand_final', 'third') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into b from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select * into prev
+    from public.final_matches
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if found and prev.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.winner_handicap_change, 0)))
+     where id = prev.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.loser_handicap_change, 0)))
+     where id = prev.loser_id;
+  end if;
+
+  if prev.id is null then
+    insert into public.final_matches (bracket_id, stage, round_no, match_no)
+    values (p_bracket_id, p_stage, p_round_no, p_match_no)
+    returning id into v_id;
+  else
+    v_id := prev.id;
+  end if;
+
+  update public.final_matches
+     set winner_id = v_winner,
+         loser_id = v_loser,
+         winner_score = nullif(p_match->>'winner_score', '')::integer,
+         loser_score = nullif(p_match->>'loser_score', '')::integer,
+         winner_sets = nullif(p_match->>'winner_sets', '')::integer,
+         loser_sets = nullif(p_match->>'loser_sets', '')::integer,
+         affects_rating = v_affects,
+         end_reason = v_reason,
+         finish_reason = v_reason,
+         sets = v_sets,
+         sets_json = v_sets,
+         winner_points_change = v_wpc,
+         loser_points_change = v_lpc,
+         winner_handicap_change = v_whc,
+         loser_handicap_change = v_lhc,
+         rating_algorithm = nullif(p_match->>'rating_algorithm', ''),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, 1),
+         updated_at = now()
+   where id = v_id;
+
+  if v_affects then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_wpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_whc))
+     where id = v_winner;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_lpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_lhc))
+     where id = v_loser;
+  end if;
+
+  -- ✅ 勝者・敗者の配置（変わっていれば下流を連鎖クリア）
+  v_flow := public.finals_propagate(p_bracket_id, p_stage, p_round_no, p_match_no, v_winner, v_loser);
+
+  v_placings := public.finals_recompute_placings(p_bracket_id);
+  select champion_player_id into v_champion from public.final_brackets where id = p_bracket_id;
+
+  return jsonb_build_object(
+    'id', v_id,
+    'bracket_id', p_bracket_id,
+    'stage', p_stage,
+    'round_no', p_round_no,
+    'match_no', p_match_no,
+    'replaced', prev.id is not null,
+    'champion_updated', v_champion is distinct from b.champion_player_id,
+    'champion_player_id', v_champion,
+    'placings', v_placings,
+    'advanced_to', v_flow->'winner',
+    'loser_to', v_flow->'loser',
+    'grand_final_reset', coalesce((v_flow->>'grand_final_reset')::boolean, false)
+  );
+end;
+$$;
+
+-- 既存の決勝トーナメントも順位を埋めておく
+do $$
+declare
+  r record;
+begin
+  for r in select id from public.final_brackets loop
+    perform public.finals_recompute_placings(r.id);
+  end loop;
+end;
+$$;
+
+revoke all on function public.generate_bracket_edges(uuid, integer, text) from public, anon, authenticated;
+revoke all on function public.finals_clear_match(uuid, text, integer, integer) from public, anon, authenticated;
+revoke all on function public.finals_put_entry(uuid, text, integer, integer, uuid) from public, anon, authenticated;
+revoke all on function public.finals_place(uuid, text, integer, integer, text, uuid) from public, anon, authenticated;
+revoke all on function public.finals_propagate(uuid, text, integer, integer, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.finals_recompute_placings(uuid) from public, anon, authenticated;
+revoke all on function public.finals_clear_results(uuid, text, integer) from public, anon, authenticated;
+revoke all on function public.finals_create_bracket(uuid, text, uuid[], text) from public, anon, authenticated;
+revoke all on function public.finals_add_slots(uuid, integer, integer, text) from public, anon, authenticated;
+revoke all on function public.finals_delete_rounds(uuid, integer, text) from public, anon, authenticated;
+revoke all on function public.finals_set_slot(uuid, integer, integer, uuid, text) from public, anon, authenticated;
+revoke all on function public.finals_apply_report(uuid, integer, integer, jsonb, text) from public, anon, authenticated;
+
+grant execute on function public.generate_bracket_edges(uuid, integer, text) to service_role;
+grant execute on function public.finals_recompute_placings(uuid) to service_role;
+grant execute on function public.finals_create_bracket(uuid, text, uuid[], text) to service_role;
+grant execute on function public.finals_add_slots(uuid, integer, integer, text) to service_role;
+grant execute on function public.finals_delete_rounds(uuid, integer, text) to service_role;
+grant execute on function public.finals_set_slot(uuid, integer, integer, uuid, text) to service_role;
+grant execute on function public.finals_apply_report(uuid, integer, integer, jsonb, text) to service_role;
@@ -0,0 +1,106 @@
+-- リーグブロックの日程（総当たり）を作り直す
+-- - 組み合わせ・節（round_no）・順番（match_order）は lib/league/schedule（サークル方式）で作り、ここでは差し替えだけ行う
+-- - 1 呼び出し = 1 トランザクション。league_blocks 行を for update で押さえてから触る
+-- - 結果が入った試合（def 絡みの自動不戦勝を除く）が 1 つでもあれば作り直さない（results_exist）
+-- - def（is_dummy / handle_name = 'def'）が絡む試合は従来どおり不戦勝で自動確定する
+-- ※ 実行は service_role のみ（/api/admin/league-blocks/[blockId]/schedule が管理者チェック後に呼ぶ）
+
+create index if not exists matches_league_block_order_idx
+  on public.matches (league_block_id, round_no, match_order);
+
+create or replace function public.league_regenerate_schedule(
+  p_block_id uuid,
+  p_matches jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_block record;
+  v_mode text;
+  v_deleted integer;
+  v_inserted integer;
+  v_forfeits integer;
+begin
+  select id, tournament_id into v_block
+    from public.league_blocks
+   where id = p_block_id
+   for update;
+  if not found then
+    raise exception 'block_not_found' using errcode = 'P0002';
+  end if;
+
+  if p_matches is null or jsonb_typeof(p_matches) <> 'array' or jsonb_array_length(p_matches) = 0 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+      from public.matches m
+     where m.league_block_id = p_block_id
+       and (m.winner_id is not null or coalesce(m.status, 'pending') <> 'pending')
+       and not exists (
+         select 1 from public.players p
+          where p.id in (m.player_a_id, m.player_b_id)
+            and (p.is_dummy or p.handle_name = 'def')
+       )
+  ) then
+    raise exception 'results_exist' using errcode = 'P0001';
+  end if;
+
+  -- mode の CHECK 制約は環境で値が違うので、既存の試合に合わせる
+  select m.mode into v_mode
+    from public.matches m
+   where m.league_block_id = p_block_id
+   limit 1;
+
+  delete from public.matches where league_block_id = p_block_id;
+  get diagnostics v_deleted = row_count;
+
+  insert into public.matches (
+    tournament_id, league_block_id, mode, status, is_tournament,
+    player_a_id, player_b_id, round_no, match_order, match_date
+  )
+  select v_block.tournament_id, p_block_id, coalesce(v_mode, 'singles'), 'pending', true,
+         (x ->> 'player_a_id')::uuid, (x ->> 'player_b_id')::uuid,
+         (x ->> 'round_no')::integer, (x ->> 'match_order')::integer, now()
+    from jsonb_array_elements(p_matches) as x;
+  get diagnostics v_inserted = row_count;
+
+  -- def 絡みは不戦勝で確定（def 同士は 0-0）
+  with d as (
+    select id from public.players where is_dummy or handle_name = 'def'
+  )
+  update public.matches m
+     set winner_id = case when m.player_a_id in (select id from d) then m.player_b_id else m.player_a_id end,
+         loser_id = case when m.player_a_id in (select id from d) then m.player_a_id else m.player_b_id end,
+         winner_score = case when m.player_a_id in (select id from d) and m.player_b_id in (select id from d) then 0 else 15 end,
+         loser_score = 0,
+         status = 'finalized',
+         end_reason = 'forfeit',
+         finish_reason = 'forfeit',
+         affects_rating = false
+   where m.league_block_id = p_block_id
+     and (m.player_a_id in (select id from d) or m.player_b_id in (select id from d));
+  get diagnostics v_forfeits = row_count;
+
+  update public.league_blocks
+     set status = 'pending',
+         winner_player_id = null,
+         ranking_json = null,
+         updated_at = now()
+   where id = p_block_id;
+
+  return jsonb_build_object(
+    'block_id', p_block_id,
+    'tournament_id', v_block.tournament_id,
+    'deleted', v_deleted,
+    'inserted', v_inserted,
+    'forfeits', v_forfeits
+  );
+end;
+$$;
+
+revoke all on function public.league_regenerate_schedule(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.league_regenerate_schedule(uuid, jsonb) to service_role;
@@ -0,0 +1,142 @@
+-- リーグのタイブレーク（大会ごとの順位の決め方）
+-- - tournaments.league_tiebreakers：比べる順番（wins / head_to_head / point_diff / points_for / fewest_def_wins / lots）
+-- - 順位の計算は lib/league/standings（公開ページと同じ計算）で行い、finalize_league_block は結果の保存だけ行う
+--   ranking_json の各行には rank / decided_by（順位を決めた基準）/ tiebreak（比べた値）が入る
+-- - 全試合に勝者が入っていればブロックを finished にし、winner_player_id を確定する（未消化があれば途中経過として保存）
+-- - league_block_winners_v は独自の並べ替えをやめ、確定済みの winner_player_id をそのまま返す（decided_by は末尾に追加）
+-- ※ finalize_league_block(uuid, jsonb, uuid) の実行は service_role のみ（/api/admin/league-blocks/[blockId]/finalize が管理者チェック後に呼ぶ）
+-- ※ 従来の finalize_league_block(uuid) は互換用に残す（保存済みの ranking_json で新しい関数を呼ぶだけ）
+
+alter table public.tournaments
+  add column if not exists league_tiebreakers jsonb not null
+    default '["wins", "head_to_head", "point_diff", "points_for", "fewest_def_wins", "lots"]'::jsonb;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_league_tiebreakers_check;
+alter table public.tournaments
+  add constraint tournaments_league_tiebreakers_check
+    check (jsonb_typeof(league_tiebreakers) = 'array');
+
+create or replace function public.finalize_league_block(
+  p_block_id uuid,
+  p_ranking jsonb,
+  p_winner_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_block record;
+  v_complete boolean;
+  v_winner uuid;
+  v_status text;
+begin
+  select id, tournament_id, status into v_block
+    from public.league_blocks
+   where id = p_block_id
+   for update;
+  if not found then
+    raise exception 'block_not_found' using errcode = 'P0002';
+  end if;
+
+  if p_ranking is null or jsonb_typeof(p_ranking) <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if p_winner_player_id is not null and not exists (
+    select 1 from public.league_block_members
+     where league_block_id = p_block_id and player_id = p_winner_player_id
+  ) then
+    raise exception 'winner_not_member' using errcode = '22023';
+  end if;
+
+  select exists (select 1 from public.matches where league_block_id = p_block_id)
+     and not exists (select 1 from public.matches where league_block_id = p_block_id and winner_id is null)
+    into v_complete;
+
+  v_winner := case when v_complete then p_winner_player_id else null end;
+  v_status := case when v_complete then 'finished' else coalesce(v_block.status, 'pending') end;
+
+  update public.league_blocks
+     set ranking_json = p_ranking,
+         winner_player_id = v_winner,
+         status = v_status,
+         updated_at = now()
+   where id = p_block_id;
+
+  return jsonb_build_object(
+    'block_id', p_block_id,
+    'tournament_id', v_block.tournament_id,
+    'status', v_status,
+    'complete', v_complete,
+    'winner_player_id', v_winner
+  );
+end;
+$$;
+
+revoke all on function public.finalize_league_block(uuid, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.finalize_league_block(uuid, jsonb, uuid) to service_role;
+
+-- 従来の 1 引数版（DB 側の呼び出しや古いクライアント向け）
+-- - 順位の計算はアプリ側（lib/league/standings）なので、保存済みの ranking_json をそのまま使う
+-- - 1 位が 1 人に決まっていればその選手を勝者として渡す（最新の試合まで反映したいときは管理画面の「集計」）
+create or replace function public.finalize_league_block(p_block_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ranking jsonb;
+  v_winner uuid;
+begin
+  -- 管理者判定は lib/auth/requireAdmin と同じ（app_admins / players.is_admin）
+  if coalesce(auth.role(), '') <> 'service_role'
+     and not exists (select 1 from public.app_admins where user_id = auth.uid())
+     and not exists (select 1 from public.players where id = auth.uid() and coalesce(is_admin, false)) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  select case when jsonb_typeof(ranking_json) = 'array' then ranking_json else '[]'::jsonb end
+    into v_ranking
+    from public.league_blocks
+   where id = p_block_id;
+  if not found then
+    raise exception 'block_not_found' using errcode = 'P0002';
+  end if;
+
+  select (case when count(*) = 1 then min(r ->> 'player_id') end)::uuid
+    into v_winner
+    from jsonb_array_elements(v_ranking) as r
+   where r ->> 'rank' = '1';
+
+  perform public.finalize_league_block(p_block_id, v_ranking, v_winner);
+end;
+$$;
+
+revoke all on function public.finalize_league_block(uuid) from public, anon;
+grant execute on function public.finalize_league_block(uuid) to authenticated, service_role;
+
+-- 既存の列はそのまま（create or replace view は列の追加を末尾にしか許さない）
+create or replace view public.league_block_winners_v as
+select lb.id as league_block_id,
+       lb.tournament_id,
+       lb.label as block_label,
+       lb.status as block_status,
+       lb.winner_player_id,
+       p.handle_name,
+       p.avatar_url,
+       p.ranking_points,
+       p.handicap,
+       (
+         select r ->> 'decided_by'
+           from jsonb_array_elements(case when jsonb_typeof(lb.ranking_json) = 'array' then lb.ranking_json else '[]'::jsonb end) as r
+          where r ->> 'player_id' = lb.winner_player_id::text
+          limit 1
+       ) as decided_by
+  from public.league_blocks lb
+  join public.players p on p.id = lb.winner_player_id
+ where lb.winner_player_id is not null;
+
+grant select on public.league_block_winners_v to anon, authenticated;
@@ -0,0 +1,129 @@
+-- リーグブロックの一括作成（自動振り分けの確定）
+-- - 振り分け（スネークドラフト）と日程は lib/league/draft・lib/league/schedule で作り、ここでは書き込みだけ行う
+-- - league_blocks / league_block_members / matches を 1 トランザクションでまとめて作る（途中で失敗したら何も残らない）
+-- - 同じ大会に同名のブロックがある（label_exists）、既にどこかのブロックに入っている選手がいる（player_in_block）、
+--   1 人が複数ブロックに入っている（duplicate_player）場合は作らない
+-- ※ 実行は service_role のみ（/api/admin/tournaments/[tournamentId]/league-blocks が管理者チェック後に呼ぶ）
+--
+-- p_blocks: [{ label, player_ids: [uuid...], matches: [{ round_no, match_order, player_a_id, player_b_id }] }]
+
+create or replace function public.league_create_blocks(
+  p_tournament_id uuid,
+  p_blocks jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_block jsonb;
+  v_block_id uuid;
+  v_sort integer;
+  v_blocks integer := 0;
+  v_members integer := 0;
+  v_matches integer := 0;
+  v_n integer;
+  v_ids jsonb := '[]'::jsonb;
+begin
+  perform 1 from public.tournaments where id = p_tournament_id for update;
+  if not found then
+    raise exception 'tournament_not_found' using errcode = 'P0002';
+  end if;
+
+  if p_blocks is null or jsonb_typeof(p_blocks) <> 'array' or jsonb_array_length(p_blocks) = 0 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+      from jsonb_array_elements(p_blocks) b
+     where coalesce(trim(b ->> 'label'), '') = ''
+        or jsonb_typeof(b -> 'player_ids') <> 'array'
+        or jsonb_array_length(b -> 'player_ids') < 2
+  ) then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  -- 試合の 2 人はそのブロックのメンバーであること
+  if exists (
+    select 1
+      from jsonb_array_elements(p_blocks) b,
+           jsonb_array_elements(case when jsonb_typeof(b -> 'matches') = 'array' then b -> 'matches' else '[]'::jsonb end) x
+     where not ((b -> 'player_ids') ? (x ->> 'player_a_id'))
+        or not ((b -> 'player_ids') ? (x ->> 'player_b_id'))
+  ) then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if (
+    select count(*) <> count(distinct p)
+      from jsonb_array_elements(p_blocks) b, jsonb_array_elements_text(b -> 'player_ids') p
+  ) then
+    raise exception 'duplicate_player' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+      from public.league_blocks lb
+      join jsonb_array_elements(p_blocks) b on trim(b ->> 'label') = lb.label
+     where lb.tournament_id = p_tournament_id
+  ) then
+    raise exception 'label_exists' using errcode = '23505';
+  end if;
+
+  if exists (
+    select 1
+      from public.league_block_members m
+      join public.league_blocks lb on lb.id = m.league_block_id
+      join jsonb_array_elements(p_blocks) b on true
+      join jsonb_array_elements_text(b -> 'player_ids') p on p::uuid = m.player_id
+     where lb.tournament_id = p_tournament_id
+  ) then
+    raise exception 'player_in_block' using errcode = '23505';
+  end if;
+
+  select coalesce(max(sort_order) + 1, 0) into v_sort
+    from public.league_blocks
+   where tournament_id = p_tournament_id;
+
+  for v_block in select * from jsonb_array_elements(p_blocks)
+  loop
+    insert into public.league_blocks (tournament_id, label, sort_order, status)
+    values (p_tournament_id, trim(v_block ->> 'label'), v_sort, 'pending')
+    returning id into v_block_id;
+    v_sort := v_sort + 1;
+    v_blocks := v_blocks + 1;
+    v_ids := v_ids || jsonb_build_object('id', v_block_id, 'label', trim(v_block ->> 'label'));
+
+    insert into public.league_block_members (league_block_id, player_id, sort_order)
+    select v_block_id, p::uuid, (ord - 1)::integer
+      from jsonb_array_elements_text(v_block -> 'player_ids') with ordinality as t(p, ord);
+    get diagnostics v_n = row_count;
+    v_members := v_members + v_n;
+
+    if jsonb_typeof(v_block -> 'matches') = 'array' then
+      insert into public.matches (
+        tournament_id, league_block_id, mode, status, is_tournament,
+        player_a_id, player_b_id, round_no, match_order, match_date
+      )
+      select p_tournament_id, v_block_id, 'singles', 'pending', true,
+             (x ->> 'player_a_id')::uuid, (x ->> 'player_b_id')::uuid,
+             (x ->> 'round_no')::integer, (x ->> 'match_order')::integer, now()
+        from jsonb_array_elements(v_block -> 'matches') as x;
+      get diagnostics v_n = row_count;
+      v_matches := v_matches + v_n;
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'tournament_id', p_tournament_id,
+    'blocks', v_ids,
+    'created_blocks', v_blocks,
+    'created_members', v_members,
+    'created_matches', v_matches
+  );
+end;
+$$;
+
+revoke all on function public.league_create_blocks(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.league_create_blocks(uuid, jsonb) to service_role;
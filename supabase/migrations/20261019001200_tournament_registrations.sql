@@ -0,0 +1,347 @@
+-- 大会へのエントリー（選手が自分で申し込む）
+-- - tournaments.entry_open = true の間、締切（entry_deadline）まで申し込める。定員は tournaments.size（0 / null = 無制限）
+-- - 定員内は entered、超えたら waitlisted（キャンセル待ち）。取り下げ / 却下で空いた枠は position 順に繰り上げる
+-- - 管理者は承認（approved）/ 却下（rejected）/ 並べ替え（position）ができる
+-- - 締切（tournament_close_entries）で entered / approved を approved にそろえ、並び順をシードとして
+--   その時点の RP / HC を tournament_participants に写す（選手の行だけ作り直す。チームの行は触らない）
+-- ※ 書き込みは service_role のみ（/api/tournaments/[tournamentId]/entry と /api/admin/tournaments/[tournamentId]/entries）
+
+alter table public.tournaments
+  add column if not exists entry_open boolean not null default false,
+  add column if not exists entry_deadline timestamptz,
+  add column if not exists entries_closed_at timestamptz;
+
+create table if not exists public.tournament_registrations (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  player_id uuid not null references public.players (id) on delete cascade,
+  status text not null default 'entered'
+    check (status in ('entered', 'waitlisted', 'approved', 'rejected', 'withdrawn')),
+  position integer not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  withdrawn_at timestamptz,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  unique (tournament_id, player_id)
+);
+
+create index if not exists tournament_registrations_order_idx
+  on public.tournament_registrations (tournament_id, status, position);
+
+-- 一覧は誰でも見られる（公開ページに出す）。書き込みは RPC 経由のみ
+alter table public.tournament_registrations enable row level security;
+revoke all on public.tournament_registrations from anon, authenticated;
+grant select on public.tournament_registrations to anon, authenticated;
+drop policy if exists tournament_registrations_read on public.tournament_registrations;
+create policy tournament_registrations_read on public.tournament_registrations
+  for select to anon, authenticated using (true);
+
+-- 空いた枠を waitlisted から position 順に繰り上げる（内部用）
+create or replace function public.tournament_entry_promote(p_tournament_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_size integer;
+  v_active integer;
+  v_promoted integer := 0;
+begin
+  select nullif(size, 0) into v_size from public.tournaments where id = p_tournament_id;
+  if v_size is null then
+    update public.tournament_registrations
+       set status = 'entered', updated_at = now()
+     where tournament_id = p_tournament_id and status = 'waitlisted';
+    get diagnostics v_promoted = row_count;
+    return v_promoted;
+  end if;
+
+  select count(*) into v_active
+    from public.tournament_registrations
+   where tournament_id = p_tournament_id and status in ('entered', 'approved');
+
+  if v_active >= v_size then
+    return 0;
+  end if;
+
+  with next_up as (
+    select id
+      from public.tournament_registrations
+     where tournament_id = p_tournament_id and status = 'waitlisted'
+     order by position, created_at
+     limit v_size - v_active
+  )
+  update public.tournament_registrations r
+     set status = 'entered', updated_at = now()
+    from next_up
+   where r.id = next_up.id;
+  get diagnostics v_promoted = row_count;
+  return v_promoted;
+end;
+$$;
+
+revoke all on function public.tournament_entry_promote(uuid) from public, anon, authenticated;
+
+-- 選手の申し込み（取り下げ済みなら最後尾から申し込み直し）
+create or replace function public.tournament_entry_apply(
+  p_tournament_id uuid,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t record;
+  v_reg record;
+  v_active integer;
+  v_status text;
+  v_position integer;
+begin
+  select id, size, entry_open, entry_deadline, entries_closed_at into v_t
+    from public.tournaments
+   where id = p_tournament_id
+   for update;
+  if not found then
+    raise exception 'tournament_not_found' using errcode = 'P0002';
+  end if;
+
+  if not v_t.entry_open or v_t.entries_closed_at is not null
+     or (v_t.entry_deadline is not null and now() >= v_t.entry_deadline) then
+    raise exception 'entry_closed' using errcode = 'P0001';
+  end if;
+
+  select * into v_reg
+    from public.tournament_registrations
+   where tournament_id = p_tournament_id and player_id = p_player_id;
+
+  if found and v_reg.status in ('entered', 'waitlisted', 'approved') then
+    raise exception 'already_entered' using errcode = 'P0001';
+  end if;
+  if found and v_reg.status = 'rejected' then
+    raise exception 'entry_rejected' using errcode = 'P0001';
+  end if;
+
+  select count(*) into v_active
+    from public.tournament_registrations
+   where tournament_id = p_tournament_id and status in ('entered', 'approved');
+
+  v_status := case when coalesce(v_t.size, 0) > 0 and v_active >= v_t.size then 'waitlisted' else 'entered' end;
+
+  select coalesce(max(position), 0) + 1 into v_position
+    from public.tournament_registrations
+   where tournament_id = p_tournament_id;
+
+  insert into public.tournament_registrations (tournament_id, player_id, status, position)
+  values (p_tournament_id, p_player_id, v_status, v_position)
+  on conflict (tournament_id, player_id) do update
+     set status = excluded.status,
+         position = excluded.position,
+         withdrawn_at = null,
+         reviewed_by = null,
+         reviewed_at = null,
+         updated_at = now();
+
+  return jsonb_build_object('tournament_id', p_tournament_id, 'player_id', p_player_id, 'status', v_status, 'position', v_position);
+end;
+$$;
+
+revoke all on function public.tournament_entry_apply(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.tournament_entry_apply(uuid, uuid) to service_role;
+
+-- 選手の取り下げ（締切後は不可）
+create or replace function public.tournament_entry_withdraw(
+  p_tournament_id uuid,
+  p_player_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_closed timestamptz;
+  v_promoted integer;
+begin
+  select entries_closed_at into v_closed
+    from public.tournaments
+   where id = p_tournament_id
+   for update;
+  if not found then
+    raise exception 'tournament_not_found' using errcode = 'P0002';
+  end if;
+  if v_closed is not null then
+    raise exception 'entry_closed' using errcode = 'P0001';
+  end if;
+
+  update public.tournament_registrations
+     set status = 'withdrawn', withdrawn_at = now(), updated_at = now()
+   where tournament_id = p_tournament_id
+     and player_id = p_player_id
+     and status in ('entered', 'waitlisted', 'approved');
+  if not found then
+    raise exception 'entry_not_found' using errcode = 'P0002';
+  end if;
+
+  v_promoted := public.tournament_entry_promote(p_tournament_id);
+
+  return jsonb_build_object('tournament_id', p_tournament_id, 'player_id', p_player_id, 'status', 'withdrawn', 'promoted', v_promoted);
+end;
+$$;
+
+revoke all on function public.tournament_entry_withdraw(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.tournament_entry_withdraw(uuid, uuid) to service_role;
+
+-- 管理者の承認 / 却下 / キャンセル待ちへ戻す
+create or replace function public.tournament_entry_review(
+  p_registration_id uuid,
+  p_action text,
+  p_reviewed_by uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reg record;
+  v_status text;
+  v_promoted integer := 0;
+begin
+  select * into v_reg
+    from public.tournament_registrations
+   where id = p_registration_id
+   for update;
+  if not found then
+    raise exception 'entry_not_found' using errcode = 'P0002';
+  end if;
+
+  perform 1 from public.tournaments where id = v_reg.tournament_id for update;
+
+  v_status := case p_action
+    when 'approve' then 'approved'
+    when 'reject' then 'rejected'
+    when 'waitlist' then 'waitlisted'
+    else null
+  end;
+  if v_status is null then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+  if v_reg.status = 'withdrawn' then
+    raise exception 'entry_withdrawn' using errcode = 'P0001';
+  end if;
+
+  update public.tournament_registrations
+     set status = v_status, reviewed_by = p_reviewed_by, reviewed_at = now(), updated_at = now()
+   where id = p_registration_id;
+
+  if v_status in ('rejected', 'waitlisted') then
+    v_promoted := public.tournament_entry_promote(v_reg.tournament_id);
+  end if;
+
+  return jsonb_build_object(
+    'id', p_registration_id,
+    'tournament_id', v_reg.tournament_id,
+    'player_id', v_reg.player_id,
+    'status', v_status,
+    'promoted', v_promoted
+  );
+end;
+$$;
+
+revoke all on function public.tournament_entry_review(uuid, text, uuid) from public, anon, authenticated;
+grant execute on function public.tournament_entry_review(uuid, text, uuid) to service_role;
+
+-- 並べ替え（p_ids の順に position を 1 から振り直す。含まれない行は後ろへ）
+create or replace function public.tournament_entry_reorder(
+  p_tournament_id uuid,
+  p_ids jsonb
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_n integer;
+begin
+  if p_ids is null or jsonb_typeof(p_ids) <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  perform 1 from public.tournaments where id = p_tournament_id for update;
+  if not found then
+    raise exception 'tournament_not_found' using errcode = 'P0002';
+  end if;
+
+  with given as (
+    select x::uuid as id, ord
+      from jsonb_array_elements_text(p_ids) with ordinality as t(x, ord)
+  ),
+  ranked as (
+    select r.id,
+           row_number() over (order by g.ord nulls last, r.position, r.created_at) as pos
+      from public.tournament_registrations r
+      left join given g on g.id = r.id
+     where r.tournament_id = p_tournament_id
+  )
+  update public.tournament_registrations r
+     set position = ranked.pos, updated_at = now()
+    from ranked
+   where r.id = ranked.id and r.position is distinct from ranked.pos;
+  get diagnostics v_n = row_count;
+
+  return v_n;
+end;
+$$;
+
+revoke all on function public.tournament_entry_reorder(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.tournament_entry_reorder(uuid, jsonb) to service_role;
+
+-- 締切：RP / HC をスナップショットして tournament_participants を作る
+create or replace function public.tournament_close_entries(p_tournament_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_closed timestamptz;
+  v_n integer;
+begin
+  select entries_closed_at into v_closed
+    from public.tournaments
+   where id = p_tournament_id
+   for update;
+  if not found then
+    raise exception 'tournament_not_found' using errcode = 'P0002';
+  end if;
+  if v_closed is not null then
+    raise exception 'already_closed' using errcode = 'P0001';
+  end if;
+
+  update public.tournament_registrations
+     set status = 'approved', updated_at = now()
+   where tournament_id = p_tournament_id and status = 'entered';
+
+  delete from public.tournament_participants
+   where tournament_id = p_tournament_id and player_id is not null;
+
+  insert into public.tournament_participants (tournament_id, player_id, seed, rp_at_entry, hc_at_entry)
+  select p_tournament_id, r.player_id,
+         row_number() over (order by r.position, r.created_at),
+         p.ranking_points, p.handicap
+    from public.tournament_registrations r
+    join public.players p on p.id = r.player_id
+   where r.tournament_id = p_tournament_id and r.status = 'approved';
+  get diagnostics v_n = row_count;
+
+  update public.tournaments
+     set entry_open = false, entries_closed_at = now()
+   where id = p_tournament_id;
+
+  return jsonb_build_object('tournament_id', p_tournament_id, 'participants', v_n);
+end;
+$$;
+
+revoke all on function public.tournament_close_entries(uuid) from public, anon, authenticated;
+grant execute on function public.tournament_close_entries(uuid) to service_role;
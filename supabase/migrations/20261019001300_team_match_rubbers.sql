@@ -0,0 +1,185 @@
+-- 団体戦の個別試合（ラバー）
+-- - 団体戦 1 試合にシングルス / ダブルスのラバーを順番に持たせる（match_rubbers）
+-- - 出場選手は match_players に rubber_no 付きで入れる（同じ選手が 1 試合の中で複数のラバーに出られるよう、
+--   主キーを (match_id, player_id) から一意インデックス (match_id, player_id, rubber_no) に置き換える）
+-- - チームの勝敗はラバーの勝ち数（winner_score / loser_score = 勝ち数）。勝ったチームを team_no 1 にする（既存の団体戦と同じ）
+-- - affects_rating = true のシングルスは個人戦（mode='singles', status='submitted'）も作り、
+--   呼び出し側が finalizeMatch で確定して個人の RP / HC に反映する（rating_match_id でたどれる）
+-- ※ 実行は service_role のみ（/api/admin/matches/create-team・/api/admin/matches/teams が管理者チェック後に呼ぶ）
+
+alter table public.match_players
+  add column if not exists rubber_no integer;
+
+alter table public.match_players drop constraint if exists match_players_pkey;
+
+create unique index if not exists match_players_match_player_rubber_key
+  on public.match_players (match_id, player_id, coalesce(rubber_no, 0));
+
+create table if not exists public.match_rubbers (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  rubber_no integer not null check (rubber_no >= 1),
+  kind text not null check (kind in ('singles', 'doubles')),
+  side1_score integer not null check (side1_score >= 0),
+  side2_score integer not null check (side2_score >= 0),
+  winner_side smallint not null check (winner_side in (1, 2)),
+  affects_rating boolean not null default false,
+  rating_match_id uuid references public.matches (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (match_id, rubber_no)
+);
+
+alter table public.match_rubbers enable row level security;
+revoke all on public.match_rubbers from anon, authenticated;
+grant select on public.match_rubbers to anon, authenticated;
+drop policy if exists match_rubbers_read on public.match_rubbers;
+create policy match_rubbers_read on public.match_rubbers
+  for select to anon, authenticated using (true);
+
+-- p_rubbers: [{ kind, side1_player_ids: [uuid...], side2_player_ids: [uuid...], side1_score, side2_score, affects_rating }]
+--   side1 = 勝ったチーム（p_winner_team_id）/ side2 = 負けたチーム（p_loser_team_id）
+create or replace function public.team_match_record(
+  p_winner_team_id uuid,
+  p_loser_team_id uuid,
+  p_match_date timestamptz,
+  p_rubbers jsonb,
+  p_created_by uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match_id uuid;
+  v_rubber jsonb;
+  v_no integer;
+  v_s1 integer;
+  v_s2 integer;
+  v_win_side smallint;
+  v_w integer := 0;
+  v_l integer := 0;
+  v_rep_w uuid;
+  v_rep_l uuid;
+  v_child uuid;
+  v_children jsonb := '[]'::jsonb;
+begin
+  if p_winner_team_id is null or p_loser_team_id is null or p_winner_team_id = p_loser_team_id then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+  if (select count(*) from public.teams where id in (p_winner_team_id, p_loser_team_id)) <> 2 then
+    raise exception 'team_not_found' using errcode = 'P0002';
+  end if;
+
+  if p_rubbers is null or jsonb_typeof(p_rubbers) <> 'array' or jsonb_array_length(p_rubbers) = 0 then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+      from jsonb_array_elements(p_rubbers) r
+     where coalesce(r ->> 'kind', '') not in ('singles', 'doubles')
+        or jsonb_typeof(r -> 'side1_player_ids') <> 'array'
+        or jsonb_typeof(r -> 'side2_player_ids') <> 'array'
+        or jsonb_array_length(r -> 'side1_player_ids') <> case when r ->> 'kind' = 'doubles' then 2 else 1 end
+        or jsonb_array_length(r -> 'side2_player_ids') <> case when r ->> 'kind' = 'doubles' then 2 else 1 end
+        or coalesce((r ->> 'side1_score')::integer, -1) < 0
+        or coalesce((r ->> 'side2_score')::integer, -1) < 0
+        or (r ->> 'side1_score')::integer = (r ->> 'side2_score')::integer
+  ) then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select count(*) filter (where (r ->> 'side1_score')::integer > (r ->> 'side2_score')::integer),
+         count(*) filter (where (r ->> 'side1_score')::integer < (r ->> 'side2_score')::integer)
+    into v_w, v_l
+    from jsonb_array_elements(p_rubbers) r;
+
+  -- 勝ったチーム（side1）の勝ち数が多いこと
+  if v_w <= v_l then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  -- 代表選手（1 試合目の先頭。winner_id / loser_id が必須の環境向け・void_match の巻き戻し判定にも使う）
+  v_rep_w := (p_rubbers -> 0 -> 'side1_player_ids' ->> 0)::uuid;
+  v_rep_l := (p_rubbers -> 0 -> 'side2_player_ids' ->> 0)::uuid;
+
+  insert into public.matches (
+    mode, status, match_date, winner_score, loser_score, winner_id, loser_id,
+    winner_team_id, loser_team_id, winner_team_no, loser_team_no,
+    affects_rating, is_verified, confirmed_by, confirmed_at, created_by
+  ) values (
+    'teams', 'finalized', coalesce(p_match_date, now()), v_w, v_l, v_rep_w, v_rep_l,
+    p_winner_team_id, p_loser_team_id, 1, 2,
+    false, true, p_created_by, now(), p_created_by
+  )
+  returning id into v_match_id;
+
+  insert into public.match_teams (match_id, team_id, team_no)
+  values (v_match_id, p_winner_team_id, 1), (v_match_id, p_loser_team_id, 2);
+
+  for v_rubber, v_no in select r, ord::integer from jsonb_array_elements(p_rubbers) with ordinality as t(r, ord)
+  loop
+    v_s1 := (v_rubber ->> 'side1_score')::integer;
+    v_s2 := (v_rubber ->> 'side2_score')::integer;
+    v_win_side := case when v_s1 > v_s2 then 1 else 2 end;
+    v_child := null;
+
+    insert into public.match_players (match_id, player_id, side_no, slot_no, rubber_no)
+    select v_match_id, p::uuid, 1, (ord - 1)::integer, v_no
+      from jsonb_array_elements_text(v_rubber -> 'side1_player_ids') with ordinality as s(p, ord)
+    union all
+    select v_match_id, p::uuid, 2, (ord - 1)::integer, v_no
+      from jsonb_array_elements_text(v_rubber -> 'side2_player_ids') with ordinality as s(p, ord);
+
+    -- RP に反映するシングルスは個人戦としても作る（確定は呼び出し側の finalizeMatch）
+    if v_rubber ->> 'kind' = 'singles' and coalesce((v_rubber ->> 'affects_rating')::boolean, false) then
+      insert into public.matches (
+        mode, status, match_date, winner_id, loser_id, winner_score, loser_score,
+        affects_rating, created_by, metadata
+      ) values (
+        'singles', 'submitted', coalesce(p_match_date, now()),
+        ((v_rubber -> (case when v_win_side = 1 then 'side1_player_ids' else 'side2_player_ids' end)) ->> 0)::uuid,
+        ((v_rubber -> (case when v_win_side = 1 then 'side2_player_ids' else 'side1_player_ids' end)) ->> 0)::uuid,
+        greatest(v_s1, v_s2), least(v_s1, v_s2),
+        true, p_created_by,
+        jsonb_build_object('team_match_id', v_match_id, 'rubber_no', v_no)
+      )
+      returning id into v_child;
+
+      insert into public.match_players (match_id, player_id, side_no)
+      select v_child, winner_id, 1 from public.matches where id = v_child
+      union all
+      select v_child, loser_id, 2 from public.matches where id = v_child;
+
+      v_children := v_children || to_jsonb(v_child);
+    end if;
+
+    insert into public.match_rubbers (
+      match_id, rubber_no, kind, side1_score, side2_score, winner_side, affects_rating, rating_match_id
+    ) values (
+      v_match_id, v_no, v_rubber ->> 'kind', v_s1, v_s2, v_win_side, v_child is not null, v_child
+    );
+  end loop;
+
+  update public.teams
+     set wins = coalesce(wins, 0) + 1,
+         played = coalesce(played, 0) + 1
+   where id = p_winner_team_id;
+  update public.teams
+     set losses = coalesce(losses, 0) + 1,
+         played = coalesce(played, 0) + 1
+   where id = p_loser_team_id;
+
+  return jsonb_build_object(
+    'match_id', v_match_id,
+    'winner_team_id', p_winner_team_id,
+    'loser_team_id', p_loser_team_id,
+    'winner_score', v_w,
+    'loser_score', v_l,
+    'rating_match_ids', v_children
+  );
+end;
+$$;
+
+revoke all on function public.team_match_record(uuid, uuid, timestamptz, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.team_match_record(uuid, uuid, timestamptz, jsonb, uuid) to service_role;
@@ -0,0 +1,32 @@
+-- チームレーティング（団体戦の勝敗だけで動く Elo。メンバーの RP 平均とは独立）
+-- - teams.rating（初期値 1500）/ rating_matches（反映した団体戦の数）
+-- - team_rating_history：団体戦 1 試合ごと・チームごとの変動（推移グラフ用。無効化で巻き戻すときもここを見る）
+-- - 計算は lib/rating/teamElo、反映は lib/rating/teamRating（service_role）、無効化時の巻き戻しは void_match
+-- ※ 既存の団体戦は /api/admin/team-ratings/recompute で積み直す
+
+alter table public.teams
+  add column if not exists rating integer not null default 1500,
+  add column if not exists rating_matches integer not null default 0;
+
+create table if not exists public.team_rating_history (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  match_id uuid not null references public.matches (id) on delete cascade,
+  opponent_team_id uuid references public.teams (id) on delete set null,
+  won boolean not null,
+  rating_before integer not null,
+  rating_after integer not null,
+  delta integer not null,
+  created_at timestamptz not null default now(),
+  unique (match_id, team_id)
+);
+
+create index if not exists team_rating_history_team_idx
+  on public.team_rating_history (team_id, created_at);
+
+alter table public.team_rating_history enable row level security;
+revoke all on public.team_rating_history from anon, authenticated;
+grant select on public.team_rating_history to anon, authenticated;
+drop policy if exists team_rating_history_read on public.team_rating_history;
+create policy team_rating_history_read on public.team_rating_history
+  for select to anon, authenticated using (true);
@@ -0,0 +1,179 @@
+-- ダブルス（2 対 2）の試合
+-- - matches.mode = 'doubles'（mode の CHECK 制約に追加）
+--   これまでの値（singles / single / player / teams / team / 空文字）もそのまま許可し、
+--   既存行に想定外の値があれば止める（NOT VALID のまま残さない）
+-- - 4 人は match_players（side_no 1 = 勝ちペア / 2 = 負けペア、slot_no 0/1）。winner_id / loser_id は各ペアの先頭
+-- - RP/HC はペア平均で計算してペア内で分ける（lib/rating/doubles）。選手ごとの変動を match_players に残す
+--   matches の winner_/loser_*_delta にはペア単位の変動を入れる（一覧表示用）
+-- - void_match：ダブルスは match_players の変動で 4 人分を巻き戻す
+--   団体戦のチームレーティング（team_rating_history）も同じトランザクションで戻す
+
+alter table public.match_players
+  add column if not exists points_delta integer,
+  add column if not exists handicap_delta integer;
+
+alter table public.matches drop constraint if exists matches_mode_check;
+alter table public.matches
+  add constraint matches_mode_check
+  check (mode in ('singles', 'single', 'player', '', 'teams', 'team', 'doubles')) not valid;
+
+do $$
+declare
+  v_bad text;
+begin
+  select string_agg(distinct quote_literal(mode), ', ')
+    into v_bad
+    from public.matches
+   where mode is not null
+     and mode not in ('singles', 'single', 'player', '', 'teams', 'team', 'doubles');
+
+  if v_bad is not null then
+    raise exception 'matches.mode に想定外の値があります: %', v_bad
+      using hint = '値を直してから再実行するか、matches_mode_check の一覧に追加してください';
+  end if;
+end;
+$$;
+
+alter table public.matches validate constraint matches_mode_check;
+
+create or replace function public.void_match(
+  p_match_id uuid,
+  p_voided_by uuid,
+  p_reason text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.matches%rowtype;
+  v_applied boolean;
+  v_teams boolean;
+  v_doubles boolean;
+  v_wpd integer := 0;
+  v_lpd integer := 0;
+  v_whd integer := 0;
+  v_lhd integer := 0;
+  v_winner_team uuid;
+  v_loser_team uuid;
+  v_team_ratings integer := 0;
+begin
+  select * into m from public.matches where id = p_match_id for update;
+  if not found then
+    raise exception 'match_not_found' using errcode = 'P0002';
+  end if;
+  if m.status in ('voided', 'void') then
+    raise exception 'already_voided' using errcode = 'P0001';
+  end if;
+
+  -- 未実施/確認待ち/異議ありは何も反映されていない
+  v_applied := m.status not in ('pending', 'scheduled', 'draft', 'submitted', 'disputed', 'canceled', 'cancelled')
+               and m.winner_id is not null
+               and m.loser_id is not null;
+  v_teams := lower(coalesce(m.mode, '')) like 'team%';
+  v_doubles := lower(coalesce(m.mode, '')) like 'doub%';
+
+  -- ダブルス：4 人それぞれの変動（match_players.points_delta / handicap_delta）を戻す
+  if v_applied and v_doubles then
+    if coalesce(m.affects_rating, false) then
+      v_wpd := coalesce(m.winner_points_delta, m.winner_points_change, 0);
+      v_lpd := coalesce(m.loser_points_delta, m.loser_points_change, 0);
+      v_whd := coalesce(m.winner_handicap_delta, m.winner_handicap_change, 0);
+      v_lhd := coalesce(m.loser_handicap_delta, m.loser_handicap_change, 0);
+    end if;
+
+    update public.players p
+       set ranking_points = least(99999, greatest(0, coalesce(p.ranking_points, 0)
+                              - case when coalesce(m.affects_rating, false) then coalesce(mp.points_delta, 0) else 0 end)),
+           handicap       = least(50, greatest(0, coalesce(p.handicap, 0)
+                              - case when coalesce(m.affects_rating, false) then coalesce(mp.handicap_delta, 0) else 0 end)),
+           wins           = greatest(0, coalesce(p.wins, 0) - case when mp.side_no = 1 then 1 else 0 end),
+           losses         = greatest(0, coalesce(p.losses, 0) - case when mp.side_no = 2 then 1 else 0 end),
+           matches_played = greatest(0, coalesce(p.matches_played, 0) - 1)
+      from public.match_players mp
+     where mp.match_id = m.id
+       and mp.rubber_no is null
+       and p.id = mp.player_id;
+  end if;
+
+  if v_applied and not v_teams and not v_doubles then
+    if coalesce(m.affects_rating, false) then
+      v_wpd := coalesce(m.winner_points_delta, m.winner_points_change, 0);
+      v_lpd := coalesce(m.loser_points_delta, m.loser_points_change, 0);
+      v_whd := coalesce(m.winner_handicap_delta, m.winner_handicap_change, 0);
+      v_lhd := coalesce(m.loser_handicap_delta, m.loser_handicap_change, 0);
+    end if;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_wpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_whd)),
+           wins           = greatest(0, coalesce(wins, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.winner_id;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_lpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_lhd)),
+           losses         = greatest(0, coalesce(losses, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.loser_id;
+  end if;
+
+  if v_applied and v_teams then
+    select team_id into v_winner_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.winner_team_no, 1) limit 1;
+    select team_id into v_loser_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.loser_team_no, 2) limit 1;
+
+    if v_winner_team is not null then
+      update public.teams
+         set wins = greatest(0, coalesce(wins, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_winner_team;
+    end if;
+    if v_loser_team is not null then
+      update public.teams
+         set losses = greatest(0, coalesce(losses, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_loser_team;
+    end if;
+  end if;
+
+  -- チームレーティング：この試合の変動を戻して履歴を消す（後の試合の変動は積み直さない。厳密にしたいときは recompute）
+  if v_teams then
+    update public.teams t
+       set rating = coalesce(t.rating, 1500) - coalesce(h.delta, 0),
+           rating_matches = greatest(0, coalesce(t.rating_matches, 0) - 1)
+      from public.team_rating_history h
+     where h.match_id = m.id
+       and t.id = h.team_id;
+
+    delete from public.team_rating_history where match_id = m.id;
+    get diagnostics v_team_ratings = row_count;
+  end if;
+
+  update public.matches
+     set status = 'voided',
+         voided_by = p_voided_by,
+         voided_at = now(),
+         void_reason = nullif(trim(coalesce(p_reason, '')), '')
+   where id = m.id;
+
+  return jsonb_build_object(
+    'match_id', m.id,
+    'previous_status', m.status,
+    'reverted', v_applied,
+    'mode', case when v_teams then 'teams' when v_doubles then 'doubles' else 'singles' end,
+    'winner_id', m.winner_id,
+    'loser_id', m.loser_id,
+    'winner_points_delta', v_wpd,
+    'loser_points_delta', v_lpd,
+    'winner_handicap_delta', v_whd,
+    'loser_handicap_delta', v_lhd,
+    'team_ratings_reverted', v_team_ratings
+  );
+end;
+$$;
+
+revoke all on function public.void_match(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function public.void_match(uuid, uuid, text) to service_role;
@@ -0,0 +1,157 @@
+-- シーズン（名前と期間つき。締めると最終順位を保存し、RP を任意で基準値へ寄せる）
+-- - seasons：status = 'active'（開催中。同時に 1 つだけ）/ 'closed'（締め済み）
+-- - season_standings：締めた時点の選手ごとの順位 / RP / HC / 勝敗
+--   wins / losses はそのシーズンの勝敗（通算 total_wins / total_losses − 前のシーズンを締めた時点の通算）
+--   reset_points は締めた後の RP（リセットしなかったときは null）。RP 履歴の引き戻しで「試合以外の変動」として使う
+-- - 締め処理は season_close()（service_role。/api/admin/seasons/[seasonId]/close から呼ぶ）
+-- - seasons.base_rating：締めたときの基準値。/api/admin/rating/replay はシーズンの境目（closed_at）で
+--   reset_points のある選手に同じ式（regression / base_rating）をかけ直す
+
+create table if not exists public.seasons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_date date not null,
+  end_date date,
+  status text not null default 'active' check (status in ('active', 'closed')),
+  regression numeric not null default 0 check (regression >= 0 and regression <= 1),
+  base_rating integer,
+  closed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create unique index if not exists seasons_one_active_idx on public.seasons (status) where status = 'active';
+
+create table if not exists public.season_standings (
+  id uuid primary key default gen_random_uuid(),
+  season_id uuid not null references public.seasons (id) on delete cascade,
+  player_id uuid not null references public.players (id) on delete cascade,
+  rank integer not null,
+  ranking_points integer not null,
+  handicap integer not null,
+  wins integer not null default 0,
+  losses integer not null default 0,
+  total_wins integer not null default 0,
+  total_losses integer not null default 0,
+  reset_points integer,
+  created_at timestamptz not null default now(),
+  unique (season_id, player_id)
+);
+
+create index if not exists season_standings_player_idx on public.season_standings (player_id);
+
+alter table public.seasons enable row level security;
+revoke all on public.seasons from anon, authenticated;
+grant select on public.seasons to anon, authenticated;
+drop policy if exists seasons_read on public.seasons;
+create policy seasons_read on public.seasons
+  for select to anon, authenticated using (true);
+
+alter table public.season_standings enable row level security;
+revoke all on public.season_standings from anon, authenticated;
+grant select on public.season_standings to anon, authenticated;
+drop policy if exists season_standings_read on public.season_standings;
+create policy season_standings_read on public.season_standings
+  for select to anon, authenticated using (true);
+
+-- シーズンを締める
+-- - 対象はランキングに載る選手（ダミー / 削除 / 非アクティブ / 管理者を除く）
+-- - p_regression：0 = RP はそのまま / 1 = 全員 p_base_rating に戻す / 0.5 = 基準値との差を半分にする
+-- - p_next_name があれば次のシーズンを開始（開始日の既定は締めた日の翌日）
+create or replace function public.season_close(
+  p_season_id uuid,
+  p_regression numeric,
+  p_base_rating integer,
+  p_next_name text default null,
+  p_next_start date default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season public.seasons%rowtype;
+  v_end date;
+  v_archived integer := 0;
+  v_reset integer := 0;
+  v_next uuid;
+begin
+  select * into v_season from public.seasons where id = p_season_id for update;
+  if not found then
+    raise exception 'season not found';
+  end if;
+  if v_season.status <> 'active' then
+    raise exception 'season already closed';
+  end if;
+  if p_regression is null or p_regression < 0 or p_regression > 1 then
+    raise exception 'regression must be between 0 and 1';
+  end if;
+
+  v_end := greatest(v_season.start_date, coalesce(v_season.end_date, (now() at time zone 'Asia/Tokyo')::date));
+
+  with prev as (
+    select distinct on (ss.player_id) ss.player_id, ss.total_wins, ss.total_losses
+      from public.season_standings ss
+      join public.seasons s on s.id = ss.season_id
+     where s.status = 'closed'
+     order by ss.player_id, s.closed_at desc nulls last
+  )
+  insert into public.season_standings
+    (season_id, player_id, rank, ranking_points, handicap, wins, losses, total_wins, total_losses, reset_points)
+  select p_season_id,
+         p.id,
+         rank() over (order by coalesce(p.ranking_points, 0) desc),
+         coalesce(p.ranking_points, 0),
+         coalesce(p.handicap, 0),
+         greatest(0, coalesce(p.wins, 0) - coalesce(prev.total_wins, 0)),
+         greatest(0, coalesce(p.losses, 0) - coalesce(prev.total_losses, 0)),
+         coalesce(p.wins, 0),
+         coalesce(p.losses, 0),
+         case
+           when p_regression > 0 then
+             least(99999, greatest(0, round(p_base_rating + (coalesce(p.ranking_points, 0) - p_base_rating) * (1 - p_regression))))::integer
+         end
+    from public.players p
+    left join prev on prev.player_id = p.id
+   where coalesce(p.is_dummy, false) = false
+     and coalesce(p.is_deleted, false) = false
+     and coalesce(p.is_active, true) = true
+     and coalesce(p.is_admin, false) = false;
+  get diagnostics v_archived = row_count;
+
+  if p_regression > 0 then
+    update public.players p
+       set ranking_points = ss.reset_points
+      from public.season_standings ss
+     where ss.season_id = p_season_id
+       and ss.player_id = p.id
+       and ss.reset_points is not null;
+    get diagnostics v_reset = row_count;
+  end if;
+
+  update public.seasons
+     set status = 'closed',
+         end_date = v_end,
+         regression = p_regression,
+         base_rating = p_base_rating,
+         closed_at = now()
+   where id = p_season_id;
+
+  if coalesce(trim(p_next_name), '') <> '' then
+    insert into public.seasons (name, start_date, status)
+    values (trim(p_next_name), coalesce(p_next_start, v_end + 1), 'active')
+    returning id into v_next;
+  end if;
+
+  return jsonb_build_object(
+    'season_id', p_season_id,
+    'end_date', v_end,
+    'archived', v_archived,
+    'reset', v_reset,
+    'next_season_id', v_next
+  );
+end;
+$$;
+
+revoke all on function public.season_close(uuid, numeric, integer, text, date) from public, anon, authenticated;
+grant execute on function public.season_close(uuid, numeric, integer, text, date) to service_role;
@@ -0,0 +1,23 @@
+-- 実績バッジ（選手ごとに獲得したバッジと獲得日）
+-- - code は lib/achievements/rules.ts の定義（first_win / win_streak_10 / giant_killer / league_block_winner / finals_champion / matches_100）
+-- - 1 選手 1 バッジ 1 行（取り直しはしない。earned_at は条件を満たした試合・大会の日時）
+-- - 付与は service_role のみ（試合の確定・決勝 T の結果入力・リーグブロックの確定の後に lib/achievements/award から）
+
+create table if not exists public.player_achievements (
+  id uuid primary key default gen_random_uuid(),
+  player_id uuid not null references public.players (id) on delete cascade,
+  code text not null,
+  earned_at timestamptz not null default now(),
+  source_id text,
+  created_at timestamptz not null default now(),
+  unique (player_id, code)
+);
+
+create index if not exists player_achievements_code_idx on public.player_achievements (code);
+
+alter table public.player_achievements enable row level security;
+revoke all on public.player_achievements from anon, authenticated;
+grant select on public.player_achievements to anon, authenticated;
+drop policy if exists player_achievements_read on public.player_achievements;
+create policy player_achievements_read on public.player_achievements
+  for select to anon, authenticated using (true);
@@ -0,0 +1,119 @@
+-- レーティングのリプレイ結果の反映（/api/admin/rating/replay の dry_run=false）
+-- - 計算は lib/rating/replay で行い、ここでは書き込みだけ行う
+-- - players / matches / final_matches / match_players / match_rating_ledger を 1 トランザクションで書き換える
+--   （途中で失敗したら何も変わらない。RP/HC が半分だけ書き換わった状態を残さない）
+-- ※ 実行は service_role のみ（API が管理者チェック後に呼ぶ）
+--
+-- p_players:       [{ id, ranking_points, handicap, wins, losses, matches_played }]（変わる選手だけ）
+-- p_glicko:        [{ id, rating_deviation, rating_volatility }]（Glicko-2 のときだけ。それ以外は null）
+-- p_matches:       [{ id, winner_points_delta, loser_points_delta, winner_handicap_delta, loser_handicap_delta, rating_algorithm }]
+-- p_final_matches: [{ id, winner_points_change, loser_points_change, winner_handicap_change, loser_handicap_change, rating_algorithm }]
+-- p_match_players: [{ match_id, player_id, points_delta, handicap_delta }]（ダブルスの選手ごとの変動）
+-- p_ledger:        [match_id...]（レーティングを適用した matches。ledger はこれで作り直す）
+
+create or replace function public.rating_replay_apply(
+  p_players jsonb,
+  p_glicko jsonb,
+  p_matches jsonb,
+  p_final_matches jsonb,
+  p_match_players jsonb,
+  p_ledger jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_players integer := 0;
+  v_glicko integer := 0;
+  v_matches integer := 0;
+  v_finals integer := 0;
+  v_match_players integer := 0;
+  v_ledger integer := 0;
+begin
+  if coalesce(jsonb_typeof(p_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_glicko), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_matches), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_final_matches), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_match_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_ledger), 'array') <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  update public.players p
+     set ranking_points = x.ranking_points,
+         handicap = x.handicap,
+         wins = x.wins,
+         losses = x.losses,
+         matches_played = x.matches_played
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, ranking_points integer, handicap integer, wins integer, losses integer, matches_played integer)
+   where p.id = x.id;
+  get diagnostics v_players = row_count;
+
+  if p_glicko is not null then
+    update public.players p
+       set rating_deviation = x.rating_deviation,
+           rating_volatility = x.rating_volatility
+      from jsonb_to_recordset(p_glicko) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+     where p.id = x.id;
+    get diagnostics v_glicko = row_count;
+  end if;
+
+  update public.matches m
+     set winner_points_delta = x.winner_points_delta,
+         loser_points_delta = x.loser_points_delta,
+         winner_handicap_delta = x.winner_handicap_delta,
+         loser_handicap_delta = x.loser_handicap_delta,
+         winner_points_change = x.winner_points_delta,
+         loser_points_change = x.loser_points_delta,
+         winner_handicap_change = x.winner_handicap_delta,
+         loser_handicap_change = x.loser_handicap_delta,
+         rating_algorithm = x.rating_algorithm
+    from jsonb_to_recordset(coalesce(p_matches, '[]'::jsonb))
+         as x(id uuid, winner_points_delta integer, loser_points_delta integer,
+              winner_handicap_delta integer, loser_handicap_delta integer, rating_algorithm text)
+   where m.id = x.id;
+  get diagnostics v_matches = row_count;
+
+  update public.final_matches f
+     set winner_points_change = x.winner_points_change,
+         loser_points_change = x.loser_points_change,
+         winner_handicap_change = x.winner_handicap_change,
+         loser_handicap_change = x.loser_handicap_change,
+         rating_algorithm = x.rating_algorithm
+    from jsonb_to_recordset(coalesce(p_final_matches, '[]'::jsonb))
+         as x(id uuid, winner_points_change integer, loser_points_change integer,
+              winner_handicap_change integer, loser_handicap_change integer, rating_algorithm text)
+   where f.id = x.id;
+  get diagnostics v_finals = row_count;
+
+  update public.match_players mp
+     set points_delta = x.points_delta,
+         handicap_delta = x.handicap_delta
+    from jsonb_to_recordset(coalesce(p_match_players, '[]'::jsonb))
+         as x(match_id uuid, player_id uuid, points_delta integer, handicap_delta integer)
+   where mp.match_id = x.match_id
+     and mp.player_id = x.player_id
+     and mp.rubber_no is null;
+  get diagnostics v_match_players = row_count;
+
+  delete from public.match_rating_ledger where true;
+  insert into public.match_rating_ledger (match_id, applied_at)
+  select distinct v::uuid, now()
+    from jsonb_array_elements_text(coalesce(p_ledger, '[]'::jsonb)) as v;
+  get diagnostics v_ledger = row_count;
+
+  return jsonb_build_object(
+    'players', v_players,
+    'glicko', v_glicko,
+    'matches', v_matches,
+    'final_matches', v_finals,
+    'match_players', v_match_players,
+    'ledger', v_ledger
+  );
+end;
+$$;
+
+revoke all on function public.rating_replay_apply(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.rating_replay_apply(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) to service_role;
@@ -0,0 +1,16 @@
+-- ranking_config の初期行
+-- - 行が無いとき、試合登録の計算（lib/rating の DEFAULT_RANKING_CONFIG）と
+--   管理画面の表示がずれないよう、実際に使われている値で 'global' 行を作る
+--   （k=32, 点差 1/30, HC 差 1/50, HC 変動は 10 点差以上で 1）
+-- - 既に行がある環境では何もしない
+
+insert into public.ranking_config (
+  id,
+  k_factor,
+  score_diff_multiplier,
+  handicap_diff_multiplier,
+  win_threshold_handicap_change,
+  handicap_change_amount
+)
+select 'global', 32, 1.0 / 30, 1.0 / 50, 10, 1
+ where not exists (select 1 from public.ranking_config);
@@ -0,0 +1,140 @@
+-- 試合結果の確定（lib/matches/confirmation の finalizeMatch）
+-- - 計算は lib/rating で行い、ここでは書き込みだけ行う
+-- - matches.status / 選手の RP・HC・勝敗数 / matches の変動 / match_players（ダブルス）を 1 トランザクションで書き換える
+--   （途中で失敗したら status も確認待ちのまま。RP だけ動いて変動が残らない状態を作らない → void_match で戻せる）
+-- - 選手の RP/HC は計算に使った値（points_before / handicap_before）と比べてから書く
+--   その間に別の試合が反映されていたら 'rating_conflict'（40001）で止める → 呼び出し側で読み直して再計算
+-- ※ 実行は service_role のみ（API が権限チェック後に呼ぶ）
+--
+-- p_from_statuses: 確定してよい status（'submitted' / 'disputed'）
+-- p_match:         { confirmed_by, winner_points_delta, loser_points_delta, winner_handicap_delta, loser_handicap_delta,
+--                    rating_algorithm, rating_multiplier }（団体戦は confirmed_by だけ）
+-- p_players:       [{ id, won, points_before, handicap_before, points_delta, handicap_delta }]
+-- p_glicko:        [{ id, rating_deviation, rating_volatility }]（Glicko-2 のときだけ。それ以外は null）
+-- p_match_players: [{ player_id, points_delta, handicap_delta }]（ダブルスの選手ごとの変動）
+
+create or replace function public.match_finalize_apply(
+  p_match_id uuid,
+  p_from_statuses text[],
+  p_match jsonb,
+  p_players jsonb,
+  p_glicko jsonb,
+  p_match_players jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.matches%rowtype;
+  v_expected integer;
+  v_locked integer;
+  v_conflicts integer;
+  v_players integer := 0;
+  v_glicko integer := 0;
+  v_match_players integer := 0;
+begin
+  if coalesce(jsonb_typeof(p_match), 'object') <> 'object'
+     or coalesce(jsonb_typeof(p_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_glicko), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_match_players), 'array') <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into m from public.matches where id = p_match_id for update;
+  if not found then
+    raise exception 'match_not_found' using errcode = 'P0002';
+  end if;
+  if not (m.status = any (coalesce(p_from_statuses, array[]::text[]))) then
+    raise exception 'match_not_unapplied' using errcode = 'P0001';
+  end if;
+
+  -- 選手の行を押さえてから、計算に使った RP/HC のままか確かめる
+  select count(*) into v_expected
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb)) as x(id uuid);
+
+  select count(*) into v_locked
+    from (
+      select p.id
+        from public.players p
+       where p.id in (select x.id from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb)) as x(id uuid))
+       for update
+    ) s;
+  if v_locked <> v_expected then
+    raise exception 'player_not_found' using errcode = 'P0002';
+  end if;
+
+  select count(*) into v_conflicts
+    from public.players p
+    join jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, points_before integer, handicap_before integer)
+      on x.id = p.id
+   where coalesce(p.ranking_points, 0) <> x.points_before
+      or coalesce(p.handicap, 0) <> x.handicap_before;
+  if v_conflicts > 0 then
+    raise exception 'rating_conflict' using errcode = '40001';
+  end if;
+
+  update public.players p
+     set ranking_points = least(99999, greatest(0, x.points_before + x.points_delta)),
+         handicap       = least(50, greatest(0, x.handicap_before + x.handicap_delta)),
+         wins           = coalesce(p.wins, 0) + case when x.won then 1 else 0 end,
+         losses         = coalesce(p.losses, 0) + case when x.won then 0 else 1 end,
+         matches_played = coalesce(p.matches_played, 0) + 1
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, won boolean, points_before integer, handicap_before integer,
+              points_delta integer, handicap_delta integer)
+   where p.id = x.id;
+  get diagnostics v_players = row_count;
+
+  if p_glicko is not null then
+    update public.players p
+       set rating_deviation = x.rating_deviation,
+           rating_volatility = x.rating_volatility
+      from jsonb_to_recordset(p_glicko) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+     where p.id = x.id;
+    get diagnostics v_glicko = row_count;
+  end if;
+
+  update public.match_players mp
+     set points_delta = x.points_delta,
+         handicap_delta = x.handicap_delta
+    from jsonb_to_recordset(coalesce(p_match_players, '[]'::jsonb))
+         as x(player_id uuid, points_delta integer, handicap_delta integer)
+   where mp.match_id = m.id
+     and mp.player_id = x.player_id
+     and mp.rubber_no is null;
+  get diagnostics v_match_players = row_count;
+  if v_match_players <> jsonb_array_length(coalesce(p_match_players, '[]'::jsonb)) then
+    raise exception 'match_players_mismatch' using errcode = 'P0002';
+  end if;
+
+  update public.matches
+     set status = 'finalized',
+         is_verified = true,
+         confirmed_by = nullif(p_match->>'confirmed_by', '')::uuid,
+         confirmed_at = now(),
+         winner_points_delta = coalesce((p_match->>'winner_points_delta')::integer, winner_points_delta),
+         loser_points_delta = coalesce((p_match->>'loser_points_delta')::integer, loser_points_delta),
+         winner_handicap_delta = coalesce((p_match->>'winner_handicap_delta')::integer, winner_handicap_delta),
+         loser_handicap_delta = coalesce((p_match->>'loser_handicap_delta')::integer, loser_handicap_delta),
+         winner_points_change = coalesce((p_match->>'winner_points_delta')::integer, winner_points_change),
+         loser_points_change = coalesce((p_match->>'loser_points_delta')::integer, loser_points_change),
+         winner_handicap_change = coalesce((p_match->>'winner_handicap_delta')::integer, winner_handicap_change),
+         loser_handicap_change = coalesce((p_match->>'loser_handicap_delta')::integer, loser_handicap_change),
+         rating_algorithm = coalesce(p_match->>'rating_algorithm', rating_algorithm),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, rating_multiplier)
+   where id = m.id;
+
+  return jsonb_build_object(
+    'match_id', m.id,
+    'previous_status', m.status,
+    'players', v_players,
+    'glicko', v_glicko,
+    'match_players', v_match_players
+  );
+end;
+$$;
+
+revoke all on function public.match_finalize_apply(uuid, text[], jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.match_finalize_apply(uuid, text[], jsonb, jsonb, jsonb, jsonb) to service_role;
@@ -0,0 +1,124 @@
+-- チームレーティングの書き込み（計算は lib/rating/teamElo。ここでは書き込みだけ行う）
+-- - team_rating_apply：団体戦 1 試合分（lib/rating/teamRating の applyTeamRating）
+--   team_rating_history と teams.rating / rating_matches を 1 トランザクションで書く
+--   計算に使った rating（p_*_before）とチームの今の値が違えば 'rating_conflict'（40001）→ 呼び出し側で読み直す
+--   同じ試合が反映済みなら何もしない（applied = false）
+-- - team_rating_recompute_apply：全件の積み直し（/api/admin/team-ratings/recompute の dry_run=false）
+--   teams の更新と team_rating_history の作り直しを 1 トランザクションで行う
+-- ※ 実行は service_role のみ
+
+create or replace function public.team_rating_apply(
+  p_match_id uuid,
+  p_winner_team_id uuid,
+  p_loser_team_id uuid,
+  p_winner_before integer,
+  p_loser_before integer,
+  p_winner_change integer,
+  p_loser_change integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_locked integer;
+  v_conflicts integer;
+  v_inserted integer;
+begin
+  if p_match_id is null or p_winner_team_id is null or p_loser_team_id is null
+     or p_winner_team_id = p_loser_team_id then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select count(*) into v_locked
+    from (
+      select t.id from public.teams t
+       where t.id in (p_winner_team_id, p_loser_team_id)
+       for update
+    ) s;
+  if v_locked <> 2 then
+    raise exception 'team_not_found' using errcode = 'P0002';
+  end if;
+
+  select count(*) into v_conflicts
+    from public.teams t
+   where (t.id = p_winner_team_id and coalesce(t.rating, 1500) <> p_winner_before)
+      or (t.id = p_loser_team_id and coalesce(t.rating, 1500) <> p_loser_before);
+  if v_conflicts > 0 then
+    raise exception 'rating_conflict' using errcode = '40001';
+  end if;
+
+  insert into public.team_rating_history (team_id, match_id, opponent_team_id, won, rating_before, rating_after, delta)
+  values
+    (p_winner_team_id, p_match_id, p_loser_team_id, true,
+     p_winner_before, p_winner_before + p_winner_change, p_winner_change),
+    (p_loser_team_id, p_match_id, p_winner_team_id, false,
+     p_loser_before, p_loser_before + p_loser_change, p_loser_change)
+  on conflict (match_id, team_id) do nothing;
+  get diagnostics v_inserted = row_count;
+
+  -- 反映済み（片方だけ入ることはない。2 行とも入ったときだけ teams を動かす）
+  if v_inserted = 0 then
+    return jsonb_build_object('match_id', p_match_id, 'applied', false);
+  end if;
+  if v_inserted <> 2 then
+    raise exception 'history_conflict' using errcode = 'P0001';
+  end if;
+
+  update public.teams
+     set rating = p_winner_before + p_winner_change,
+         rating_matches = coalesce(rating_matches, 0) + 1
+   where id = p_winner_team_id;
+
+  update public.teams
+     set rating = p_loser_before + p_loser_change,
+         rating_matches = coalesce(rating_matches, 0) + 1
+   where id = p_loser_team_id;
+
+  return jsonb_build_object('match_id', p_match_id, 'applied', true);
+end;
+$$;
+
+revoke all on function public.team_rating_apply(uuid, uuid, uuid, integer, integer, integer, integer) from public, anon, authenticated;
+grant execute on function public.team_rating_apply(uuid, uuid, uuid, integer, integer, integer, integer) to service_role;
+
+-- p_teams:   [{ id, rating, rating_matches }]（変わるチームだけ）
+-- p_history: [{ team_id, match_id, opponent_team_id, won, rating_before, rating_after, delta }]（全件）
+create or replace function public.team_rating_recompute_apply(
+  p_teams jsonb,
+  p_history jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_teams integer := 0;
+  v_history integer := 0;
+begin
+  if coalesce(jsonb_typeof(p_teams), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_history), 'array') <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  update public.teams t
+     set rating = x.rating,
+         rating_matches = x.rating_matches
+    from jsonb_to_recordset(coalesce(p_teams, '[]'::jsonb)) as x(id uuid, rating integer, rating_matches integer)
+   where t.id = x.id;
+  get diagnostics v_teams = row_count;
+
+  delete from public.team_rating_history where true;
+  insert into public.team_rating_history (team_id, match_id, opponent_team_id, won, rating_before, rating_after, delta)
+  select x.team_id, x.match_id, x.opponent_team_id, x.won, x.rating_before, x.rating_after, x.delta
+    from jsonb_to_recordset(coalesce(p_history, '[]'::jsonb))
+         as x(team_id uuid, match_id uuid, opponent_team_id uuid, won boolean,
+              rating_before integer, rating_after integer, delta integer);
+  get diagnostics v_history = row_count;
+
+  return jsonb_build_object('teams', v_teams, 'history', v_history);
+end;
+$$;
+
+revoke all on function public.team_rating_recompute_apply(jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.team_rating_recompute_apply(jsonb, jsonb) to service_role;
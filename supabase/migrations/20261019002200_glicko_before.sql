@@ -0,0 +1,638 @@
+-- Glicko-2 の RD / volatility を巻き戻せるようにする
+-- - matches / final_matches.glicko_before：その試合を反映する前の RD / volatility
+--   [{ id, rating_deviation, rating_volatility }]（Glicko-2 で反映した試合だけ。それ以外は null）
+-- - 反映（match_finalize_apply / finals_apply_report / rating_replay_apply）では RP/HC と同じトランザクションで
+--   RD / volatility を書き、反映前の値を glicko_before に残す
+--   finals_apply_report は p_match.glicko（[{ id, rating_deviation, rating_volatility }]）で受け取る
+--   rating_replay_apply は p_matches / p_final_matches の各要素の glicko_before で書き換える
+-- - 巻き戻し（void_match / 決勝の再報告・クリア）では glicko_before の値に戻す
+--   ※ RP/HC と違って差分ではなく値で戻すので、後の試合の変動は消える（厳密にしたいときはリプレイ）
+
+alter table public.matches
+  add column if not exists glicko_before jsonb;
+
+alter table public.final_matches
+  add column if not exists glicko_before jsonb;
+
+-- ─────────────────────────────────────────────
+-- 内部用：glicko_before の値へ戻す（null / 配列以外は何もしない）
+-- ─────────────────────────────────────────────
+create or replace function public.restore_player_glicko(
+  p_states jsonb
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer := 0;
+begin
+  if p_states is null or jsonb_typeof(p_states) <> 'array' then
+    return 0;
+  end if;
+
+  update public.players p
+     set rating_deviation = x.rating_deviation,
+         rating_volatility = x.rating_volatility
+    from jsonb_to_recordset(p_states) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+   where p.id = x.id;
+  get diagnostics v_count = row_count;
+
+  return v_count;
+end;
+$$;
+
+create or replace function public.match_finalize_apply(
+  p_match_id uuid,
+  p_from_statuses text[],
+  p_match jsonb,
+  p_players jsonb,
+  p_glicko jsonb,
+  p_match_players jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.matches%rowtype;
+  v_expected integer;
+  v_locked integer;
+  v_conflicts integer;
+  v_players integer := 0;
+  v_glicko integer := 0;
+  v_match_players integer := 0;
+  v_glicko_before jsonb;
+begin
+  if coalesce(jsonb_typeof(p_match), 'object') <> 'object'
+     or coalesce(jsonb_typeof(p_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_glicko), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_match_players), 'array') <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into m from public.matches where id = p_match_id for update;
+  if not found then
+    raise exception 'match_not_found' using errcode = 'P0002';
+  end if;
+  if not (m.status = any (coalesce(p_from_statuses, array[]::text[]))) then
+    raise exception 'match_not_unapplied' using errcode = 'P0001';
+  end if;
+
+  -- 選手の行を押さえてから、計算に使った RP/HC のままか確かめる
+  select count(*) into v_expected
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb)) as x(id uuid);
+
+  select count(*) into v_locked
+    from (
+      select p.id
+        from public.players p
+       where p.id in (select x.id from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb)) as x(id uuid))
+       for update
+    ) s;
+  if v_locked <> v_expected then
+    raise exception 'player_not_found' using errcode = 'P0002';
+  end if;
+
+  select count(*) into v_conflicts
+    from public.players p
+    join jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, points_before integer, handicap_before integer)
+      on x.id = p.id
+   where coalesce(p.ranking_points, 0) <> x.points_before
+      or coalesce(p.handicap, 0) <> x.handicap_before;
+  if v_conflicts > 0 then
+    raise exception 'rating_conflict' using errcode = '40001';
+  end if;
+
+  update public.players p
+     set ranking_points = least(99999, greatest(0, x.points_before + x.points_delta)),
+         handicap       = least(50, greatest(0, x.handicap_before + x.handicap_delta)),
+         wins           = coalesce(p.wins, 0) + case when x.won then 1 else 0 end,
+         losses         = coalesce(p.losses, 0) + case when x.won then 0 else 1 end,
+         matches_played = coalesce(p.matches_played, 0) + 1
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, won boolean, points_before integer, handicap_before integer,
+              points_delta integer, handicap_delta integer)
+   where p.id = x.id;
+  get diagnostics v_players = row_count;
+
+  if p_glicko is not null then
+    -- 反映前の RD / volatility を試合に残す（void_match で戻す）
+    select jsonb_agg(jsonb_build_object('id', p.id, 'rating_deviation', p.rating_deviation, 'rating_volatility', p.rating_volatility))
+      into v_glicko_before
+      from public.players p
+     where p.id in (select x.id from jsonb_to_recordset(p_glicko) as x(id uuid));
+
+    update public.players p
+       set rating_deviation = x.rating_deviation,
+           rating_volatility = x.rating_volatility
+      from jsonb_to_recordset(p_glicko) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+     where p.id = x.id;
+    get diagnostics v_glicko = row_count;
+  end if;
+
+  update public.match_players mp
+     set points_delta = x.points_delta,
+         handicap_delta = x.handicap_delta
+    from jsonb_to_recordset(coalesce(p_match_players, '[]'::jsonb))
+         as x(player_id uuid, points_delta integer, handicap_delta integer)
+   where mp.match_id = m.id
+     and mp.player_id = x.player_id
+     and mp.rubber_no is null;
+  get diagnostics v_match_players = row_count;
+  if v_match_players <> jsonb_array_length(coalesce(p_match_players, '[]'::jsonb)) then
+    raise exception 'match_players_mismatch' using errcode = 'P0002';
+  end if;
+
+  update public.matches
+     set status = 'finalized',
+         is_verified = true,
+         confirmed_by = nullif(p_match->>'confirmed_by', '')::uuid,
+         confirmed_at = now(),
+         winner_points_delta = coalesce((p_match->>'winner_points_delta')::integer, winner_points_delta),
+         loser_points_delta = coalesce((p_match->>'loser_points_delta')::integer, loser_points_delta),
+         winner_handicap_delta = coalesce((p_match->>'winner_handicap_delta')::integer, winner_handicap_delta),
+         loser_handicap_delta = coalesce((p_match->>'loser_handicap_delta')::integer, loser_handicap_delta),
+         winner_points_change = coalesce((p_match->>'winner_points_delta')::integer, winner_points_change),
+         loser_points_change = coalesce((p_match->>'loser_points_delta')::integer, loser_points_change),
+         winner_handicap_change = coalesce((p_match->>'winner_handicap_delta')::integer, winner_handicap_change),
+         loser_handicap_change = coalesce((p_match->>'loser_handicap_delta')::integer, loser_handicap_change),
+         rating_algorithm = coalesce(p_match->>'rating_algorithm', rating_algorithm),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, rating_multiplier),
+         glicko_before = v_glicko_before
+   where id = m.id;
+
+  return jsonb_build_object(
+    'match_id', m.id,
+    'previous_status', m.status,
+    'players', v_players,
+    'glicko', v_glicko,
+    'match_players', v_match_players
+  );
+end;
+$$;
+
+create or replace function public.void_match(
+  p_match_id uuid,
+  p_voided_by uuid,
+  p_reason text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.matches%rowtype;
+  v_applied boolean;
+  v_teams boolean;
+  v_doubles boolean;
+  v_wpd integer := 0;
+  v_lpd integer := 0;
+  v_whd integer := 0;
+  v_lhd integer := 0;
+  v_winner_team uuid;
+  v_loser_team uuid;
+  v_team_ratings integer := 0;
+  v_glicko integer := 0;
+begin
+  select * into m from public.matches where id = p_match_id for update;
+  if not found then
+    raise exception 'match_not_found' using errcode = 'P0002';
+  end if;
+  if m.status in ('voided', 'void') then
+    raise exception 'already_voided' using errcode = 'P0001';
+  end if;
+
+  -- 未実施/確認待ち/異議ありは何も反映されていない
+  v_applied := m.status not in ('pending', 'scheduled', 'draft', 'submitted', 'disputed', 'canceled', 'cancelled')
+               and m.winner_id is not null
+               and m.loser_id is not null;
+  v_teams := lower(coalesce(m.mode, '')) like 'team%';
+  v_doubles := lower(coalesce(m.mode, '')) like 'doub%';
+
+  -- ダブルス：4 人それぞれの変動（match_players.points_delta / handicap_delta）を戻す
+  if v_applied and v_doubles then
+    if coalesce(m.affects_rating, false) then
+      v_wpd := coalesce(m.winner_points_delta, m.winner_points_change, 0);
+      v_lpd := coalesce(m.loser_points_delta, m.loser_points_change, 0);
+      v_whd := coalesce(m.winner_handicap_delta, m.winner_handicap_change, 0);
+      v_lhd := coalesce(m.loser_handicap_delta, m.loser_handicap_change, 0);
+    end if;
+
+    update public.players p
+       set ranking_points = least(99999, greatest(0, coalesce(p.ranking_points, 0)
+                              - case when coalesce(m.affects_rating, false) then coalesce(mp.points_delta, 0) else 0 end)),
+           handicap       = least(50, greatest(0, coalesce(p.handicap, 0)
+                              - case when coalesce(m.affects_rating, false) then coalesce(mp.handicap_delta, 0) else 0 end)),
+           wins           = greatest(0, coalesce(p.wins, 0) - case when mp.side_no = 1 then 1 else 0 end),
+           losses         = greatest(0, coalesce(p.losses, 0) - case when mp.side_no = 2 then 1 else 0 end),
+           matches_played = greatest(0, coalesce(p.matches_played, 0) - 1)
+      from public.match_players mp
+     where mp.match_id = m.id
+       and mp.rubber_no is null
+       and p.id = mp.player_id;
+  end if;
+
+  if v_applied and not v_teams and not v_doubles then
+    if coalesce(m.affects_rating, false) then
+      v_wpd := coalesce(m.winner_points_delta, m.winner_points_change, 0);
+      v_lpd := coalesce(m.loser_points_delta, m.loser_points_change, 0);
+      v_whd := coalesce(m.winner_handicap_delta, m.winner_handicap_change, 0);
+      v_lhd := coalesce(m.loser_handicap_delta, m.loser_handicap_change, 0);
+    end if;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_wpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_whd)),
+           wins           = greatest(0, coalesce(wins, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.winner_id;
+
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - v_lpd)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - v_lhd)),
+           losses         = greatest(0, coalesce(losses, 0) - 1),
+           matches_played = greatest(0, coalesce(matches_played, 0) - 1)
+     where id = m.loser_id;
+  end if;
+
+  -- Glicko-2：確定前の RD / volatility に戻す（後の試合の変動は積み直さない。厳密にしたいときはリプレイ）
+  if v_applied and not v_teams then
+    v_glicko := public.restore_player_glicko(m.glicko_before);
+  end if;
+
+  if v_applied and v_teams then
+    select team_id into v_winner_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.winner_team_no, 1) limit 1;
+    select team_id into v_loser_team from public.match_teams
+     where match_id = m.id and team_no = coalesce(m.loser_team_no, 2) limit 1;
+
+    if v_winner_team is not null then
+      update public.teams
+         set wins = greatest(0, coalesce(wins, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_winner_team;
+    end if;
+    if v_loser_team is not null then
+      update public.teams
+         set losses = greatest(0, coalesce(losses, 0) - 1),
+             played = greatest(0, coalesce(played, 0) - 1)
+       where id = v_loser_team;
+    end if;
+  end if;
+
+  -- チームレーティング：この試合の変動を戻して履歴を消す（後の試合の変動は積み直さない。厳密にしたいときは recompute）
+  if v_teams then
+    update public.teams t
+       set rating = coalesce(t.rating, 1500) - coalesce(h.delta, 0),
+           rating_matches = greatest(0, coalesce(t.rating_matches, 0) - 1)
+      from public.team_rating_history h
+     where h.match_id = m.id
+       and t.id = h.team_id;
+
+    delete from public.team_rating_history where match_id = m.id;
+    get diagnostics v_team_ratings = row_count;
+  end if;
+
+  update public.matches
+     set status = 'voided',
+         voided_by = p_voided_by,
+         voided_at = now(),
+         void_reason = nullif(trim(coalesce(p_reason, '')), '')
+   where id = m.id;
+
+  return jsonb_build_object(
+    'match_id', m.id,
+    'previous_status', m.status,
+    'reverted', v_applied,
+    'mode', case when v_teams then 'teams' when v_doubles then 'doubles' else 'singles' end,
+    'winner_id', m.winner_id,
+    'loser_id', m.loser_id,
+    'winner_points_delta', v_wpd,
+    'loser_points_delta', v_lpd,
+    'winner_handicap_delta', v_whd,
+    'loser_handicap_delta', v_lhd,
+    'team_ratings_reverted', v_team_ratings,
+    'glicko_reverted', v_glicko
+  );
+end;
+$$;
+
+create or replace function public.finals_clear_match(
+  p_bracket_id uuid,
+  p_stage text,
+  p_round_no integer,
+  p_match_no integer
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.final_matches%rowtype;
+begin
+  select * into m
+    from public.final_matches
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if not found or (m.winner_id is null and m.loser_id is null) then
+    return false;
+  end if;
+
+  if m.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.winner_handicap_change, 0)))
+     where id = m.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(m.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(m.loser_handicap_change, 0)))
+     where id = m.loser_id;
+    perform public.restore_player_glicko(m.glicko_before);
+  end if;
+
+  update public.final_matches
+     set winner_id = null,
+         loser_id = null,
+         winner_score = null,
+         loser_score = null,
+         winner_sets = null,
+         loser_sets = null,
+         sets = null,
+         sets_json = null,
+         finish_reason = 'normal',
+         end_reason = 'normal',
+         winner_points_change = 0,
+         loser_points_change = 0,
+         winner_handicap_change = 0,
+         loser_handicap_change = 0,
+         glicko_before = null,
+         updated_at = now()
+   where id = m.id;
+
+  return true;
+end;
+$$;
+
+create or replace function public.finals_apply_report(
+  p_bracket_id uuid,
+  p_round_no integer,
+  p_match_no integer,
+  p_match jsonb,
+  p_stage text default 'main'
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b public.final_brackets%rowtype;
+  prev public.final_matches%rowtype;
+  v_id uuid;
+  v_winner uuid := nullif(p_match->>'winner_id', '')::uuid;
+  v_loser uuid := nullif(p_match->>'loser_id', '')::uuid;
+  v_affects boolean := coalesce((p_match->>'affects_rating')::boolean, false);
+  v_reason text := coalesce(nullif(p_match->>'end_reason', ''), 'normal');
+  v_sets jsonb := nullif(p_match->'sets', 'null'::jsonb);
+  v_wpc integer := coalesce((p_match->>'winner_points_change')::integer, 0);
+  v_lpc integer := coalesce((p_match->>'loser_points_change')::integer, 0);
+  v_whc integer := coalesce((p_match->>'winner_handicap_change')::integer, 0);
+  v_lhc integer := coalesce((p_match->>'loser_handicap_change')::integer, 0);
+  v_flow jsonb;
+  v_champion uuid;
+  v_placings jsonb;
+  v_glicko jsonb := nullif(p_match->'glicko', 'null'::jsonb);
+  v_glicko_before jsonb;
+begin
+  if v_glicko is not null and jsonb_typeof(v_glicko) <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  if p_round_no is null or p_round_no < 1 or p_match_no is null or p_match_no < 1
+     or p_stage is null or p_stage not in ('main', 'losers', 'grand_final', 'third') then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  select * into b from public.final_brackets where id = p_bracket_id for update;
+  if not found then
+    raise exception 'bracket_not_found' using errcode = 'P0002';
+  end if;
+
+  select * into prev
+    from public.final_matches
+   where bracket_id = p_bracket_id and stage = p_stage and round_no = p_round_no and match_no = p_match_no
+   limit 1
+   for update;
+
+  if found and prev.affects_rating then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.winner_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.winner_handicap_change, 0)))
+     where id = prev.winner_id;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) - coalesce(prev.loser_points_change, 0))),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) - coalesce(prev.loser_handicap_change, 0)))
+     where id = prev.loser_id;
+    perform public.restore_player_glicko(prev.glicko_before);
+  end if;
+
+  -- Glicko-2：今回の反映前（前回分を戻した後）の RD / volatility を残してから書く
+  if v_affects and v_glicko is not null then
+    select jsonb_agg(jsonb_build_object('id', p.id, 'rating_deviation', p.rating_deviation, 'rating_volatility', p.rating_volatility))
+      into v_glicko_before
+      from public.players p
+     where p.id in (select x.id from jsonb_to_recordset(v_glicko) as x(id uuid));
+
+    update public.players p
+       set rating_deviation = x.rating_deviation,
+           rating_volatility = x.rating_volatility
+      from jsonb_to_recordset(v_glicko) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+     where p.id = x.id;
+  end if;
+
+  if prev.id is null then
+    insert into public.final_matches (bracket_id, stage, round_no, match_no)
+    values (p_bracket_id, p_stage, p_round_no, p_match_no)
+    returning id into v_id;
+  else
+    v_id := prev.id;
+  end if;
+
+  update public.final_matches
+     set winner_id = v_winner,
+         loser_id = v_loser,
+         winner_score = nullif(p_match->>'winner_score', '')::integer,
+         loser_score = nullif(p_match->>'loser_score', '')::integer,
+         winner_sets = nullif(p_match->>'winner_sets', '')::integer,
+         loser_sets = nullif(p_match->>'loser_sets', '')::integer,
+         affects_rating = v_affects,
+         end_reason = v_reason,
+         finish_reason = v_reason,
+         sets = v_sets,
+         sets_json = v_sets,
+         winner_points_change = v_wpc,
+         loser_points_change = v_lpc,
+         winner_handicap_change = v_whc,
+         loser_handicap_change = v_lhc,
+         rating_algorithm = nullif(p_match->>'rating_algorithm', ''),
+         rating_multiplier = coalesce((p_match->>'rating_multiplier')::numeric, 1),
+         glicko_before = v_glicko_before,
+         updated_at = now()
+   where id = v_id;
+
+  if v_affects then
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_wpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_whc))
+     where id = v_winner;
+    update public.players
+       set ranking_points = least(99999, greatest(0, coalesce(ranking_points, 0) + v_lpc)),
+           handicap       = least(50, greatest(0, coalesce(handicap, 0) + v_lhc))
+     where id = v_loser;
+  end if;
+
+  -- ✅ 勝者・敗者の配置（変わっていれば下流を連鎖クリア）
+  v_flow := public.finals_propagate(p_bracket_id, p_stage, p_round_no, p_match_no, v_winner, v_loser);
+
+  v_placings := public.finals_recompute_placings(p_bracket_id);
+  select champion_player_id into v_champion from public.final_brackets where id = p_bracket_id;
+
+  return jsonb_build_object(
+    'id', v_id,
+    'bracket_id', p_bracket_id,
+    'stage', p_stage,
+    'round_no', p_round_no,
+    'match_no', p_match_no,
+    'replaced', prev.id is not null,
+    'champion_updated', v_champion is distinct from b.champion_player_id,
+    'champion_player_id', v_champion,
+    'placings', v_placings,
+    'advanced_to', v_flow->'winner',
+    'loser_to', v_flow->'loser',
+    'grand_final_reset', coalesce((v_flow->>'grand_final_reset')::boolean, false)
+  );
+end;
+$$;
+
+create or replace function public.rating_replay_apply(
+  p_players jsonb,
+  p_glicko jsonb,
+  p_matches jsonb,
+  p_final_matches jsonb,
+  p_match_players jsonb,
+  p_ledger jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_players integer := 0;
+  v_glicko integer := 0;
+  v_matches integer := 0;
+  v_finals integer := 0;
+  v_match_players integer := 0;
+  v_ledger integer := 0;
+begin
+  if coalesce(jsonb_typeof(p_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_glicko), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_matches), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_final_matches), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_match_players), 'array') <> 'array'
+     or coalesce(jsonb_typeof(p_ledger), 'array') <> 'array' then
+    raise exception 'invalid_argument' using errcode = '22023';
+  end if;
+
+  update public.players p
+     set ranking_points = x.ranking_points,
+         handicap = x.handicap,
+         wins = x.wins,
+         losses = x.losses,
+         matches_played = x.matches_played
+    from jsonb_to_recordset(coalesce(p_players, '[]'::jsonb))
+         as x(id uuid, ranking_points integer, handicap integer, wins integer, losses integer, matches_played integer)
+   where p.id = x.id;
+  get diagnostics v_players = row_count;
+
+  if p_glicko is not null then
+    update public.players p
+       set rating_deviation = x.rating_deviation,
+           rating_volatility = x.rating_volatility
+      from jsonb_to_recordset(p_glicko) as x(id uuid, rating_deviation double precision, rating_volatility double precision)
+     where p.id = x.id;
+    get diagnostics v_glicko = row_count;
+  end if;
+
+  update public.matches m
+     set winner_points_delta = x.winner_points_delta,
+         loser_points_delta = x.loser_points_delta,
+         winner_handicap_delta = x.winner_handicap_delta,
+         loser_handicap_delta = x.loser_handicap_delta,
+         winner_points_change = x.winner_points_delta,
+         loser_points_change = x.loser_points_delta,
+         winner_handicap_change = x.winner_handicap_delta,
+         loser_handicap_change = x.loser_handicap_delta,
+         rating_algorithm = x.rating_algorithm,
+         glicko_before = x.glicko_before
+    from jsonb_to_recordset(coalesce(p_matches, '[]'::jsonb))
+         as x(id uuid, winner_points_delta integer, loser_points_delta integer,
+              winner_handicap_delta integer, loser_handicap_delta integer, rating_algorithm text,
+              glicko_before jsonb)
+   where m.id = x.id;
+  get diagnostics v_matches = row_count;
+
+  update public.final_matches f
+     set winner_points_change = x.winner_points_change,
+         loser_points_change = x.loser_points_change,
+         winner_handicap_change = x.winner_handicap_change,
+         loser_handicap_change = x.loser_handicap_change,
+         rating_algorithm = x.rating_algorithm,
+         glicko_before = x.glicko_before
+    from jsonb_to_recordset(coalesce(p_final_matches, '[]'::jsonb))
+         as x(id uuid, winner_points_change integer, loser_points_change integer,
+              winner_handicap_change integer, loser_handicap_change integer, rating_algorithm text,
+              glicko_before jsonb)
+   where f.id = x.id;
+  get diagnostics v_finals = row_count;
+
+  update public.match_players mp
+     set points_delta = x.points_delta,
+         handicap_delta = x.handicap_delta
+    from jsonb_to_recordset(coalesce(p_match_players, '[]'::jsonb))
+         as x(match_id uuid, player_id uuid, points_delta integer, handicap_delta integer)
+   where mp.match_id = x.match_id
+     and mp.player_id = x.player_id
+     and mp.rubber_no is null;
+  get diagnostics v_match_players = row_count;
+
+  delete from public.match_rating_ledger where true;
+  insert into public.match_rating_ledger (match_id, applied_at)
+  select distinct v::uuid, now()
+    from jsonb_array_elements_text(coalesce(p_ledger, '[]'::jsonb)) as v;
+  get diagnostics v_ledger = row_count;
+
+  return jsonb_build_object(
+    'players', v_players,
+    'glicko', v_glicko,
+    'matches', v_matches,
+    'final_matches', v_finals,
+    'match_players', v_match_players,
+    'ledger', v_ledger
+  );
+end;
+$$;
+
+revoke all on function public.restore_player_glicko(jsonb) from public, anon, authenticated;
+revoke all on function public.match_finalize_apply(uuid, text[], jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+revoke all on function public.void_match(uuid, uuid, text) from public, anon, authenticated;
+revoke all on function public.finals_clear_match(uuid, text, integer, integer) from public, anon, authenticated;
+revoke all on function public.finals_apply_report(uuid, integer, integer, jsonb, text) from public, anon, authenticated;
+revoke all on function public.rating_replay_apply(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+
+grant execute on function public.match_finalize_apply(uuid, text[], jsonb, jsonb, jsonb, jsonb) to service_role;
+grant execute on function public.void_match(uuid, uuid, text) to service_role;
+grant execute on function public.finals_apply_report(uuid, integer, integer, jsonb, text) to service_role;
+grant execute on function public.rating_replay_apply(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) to service_role;
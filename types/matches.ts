@@ -14,6 +14,8 @@ export interface Match {
   loser_points_change: number;
   winner_handicap_change: number;
   loser_handicap_change: number;
+  /** 大会係数（tournaments.bonus_coefficient）を RP 変動に掛けた倍率 */
+  rating_multiplier?: number;
   venue?: string;
   notes?: string;
   is_verified: boolean;